@@ -21,7 +21,7 @@ import { cn } from "@/lib/utils";
 import { JobStatusResponse, JOB_TYPE_LABELS, JOB_STATUS_LABELS } from "@shared/jobTypes";
 
 type JobStatus = "queued" | "processing" | "completed" | "failed" | "cancelled";
-type JobType = "document_ingestion" | "ai_extraction" | "email_send" | "notification_send" | "report_generation" | "data_export" | "file_processing" | "webhook_delivery";
+type JobType = "document_ingestion" | "ai_extraction" | "email_send" | "notification_send" | "report_generation" | "data_export" | "file_processing" | "webhook_delivery" | "monte_carlo_simulation" | "contract_extraction";
 
 export default function JobDashboard() {
   const { user } = useAuth();
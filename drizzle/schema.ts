@@ -65,6 +65,9 @@ export const organizations = mysqlTable("organizations", {
   allowedEmailDomains: json("allowedEmailDomains").$type<string[]>(), // Domain allowlist for signup
   signupMode: mysqlEnum("signupMode", ["invite_only", "domain_allowlist", "open"]).default("invite_only").notNull(),
   
+  // Currency that receivables and billing summaries are converted into
+  reportingCurrency: varchar("reportingCurrency", { length: 3 }).default("USD").notNull(),
+  
   // Status
   status: mysqlEnum("status", ["active", "suspended", "archived"]).default("active").notNull(),
   
@@ -378,6 +381,7 @@ export const financialModels = mysqlTable("financialModels", {
   notes: text("notes"),
   isCurrentVersion: boolean("isCurrentVersion").default(true),
   previousVersionId: int("previousVersionId"), // Link to previous version
+  mappingTemplateId: int("mappingTemplateId"), // Extraction template; inherited by later versions
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -447,6 +451,8 @@ export const financialModelMetrics = mysqlTable("financialModelMetrics", {
   extractionConfidence: decimal("extractionConfidence", { precision: 5, scale: 4 }),
   extractionNotes: text("extractionNotes"),
   manualOverrides: json("manualOverrides").$type<Record<string, boolean>>(), // Which fields were manually corrected
+  // Typed inputs parsed from the assumptions sheet
+  assumptionInputs: json("assumptionInputs").$type<ModelAssumptionInputs>(),
   
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
@@ -534,6 +540,7 @@ export const financialModelComparisons = mysqlTable("financialModelComparisons",
   projectedOpex: decimal("projectedOpex", { precision: 18, scale: 2 }),
   projectedEbitda: decimal("projectedEbitda", { precision: 18, scale: 2 }),
   projectedProduction: decimal("projectedProduction", { precision: 14, scale: 2 }),
+  projectedProductionP90: decimal("projectedProductionP90", { precision: 14, scale: 2 }), // P90 downside case
   
   // Actual values (from billing/operations)
   actualRevenue: decimal("actualRevenue", { precision: 18, scale: 2 }),
@@ -550,7 +557,16 @@ export const financialModelComparisons = mysqlTable("financialModelComparisons",
   ebitdaVariancePercent: decimal("ebitdaVariancePercent", { precision: 8, scale: 4 }),
   productionVariance: decimal("productionVariance", { precision: 14, scale: 2 }),
   productionVariancePercent: decimal("productionVariancePercent", { precision: 8, scale: 4 }),
-  
+  // 'metered' rows are maintained by the production variance service from telemetry
+  productionSource: mysqlEnum("productionSource", ["manual", "metered"]).default("manual").notNull(),
+
+  // 'scenario' rows are a recomputed what-if case of the model: projected
+  // values are the scenario's, variances are scenario minus base case
+  comparisonType: mysqlEnum("comparisonType", ["actuals", "scenario"]).default("actuals").notNull(),
+  scenarioName: varchar("scenarioName", { length: 100 }),
+  scenarioOverrides: json("scenarioOverrides").$type<ScenarioOverrides>(),
+  scenarioMetrics: json("scenarioMetrics").$type<{ base: ComputedModelMetrics; scenario: ComputedModelMetrics }>(),
+
   // Notes and analysis
   varianceNotes: text("varianceNotes"),
   aiAnalysis: text("aiAnalysis"), // AI-generated variance explanation
@@ -562,6 +578,198 @@ export const financialModelComparisons = mysqlTable("financialModelComparisons",
 export type FinancialModelComparison = typeof financialModelComparisons.$inferSelect;
 export type InsertFinancialModelComparison = typeof financialModelComparisons.$inferInsert;
 
+export interface ScenarioOverrides {
+  tariffChangePct?: number; // -10 = tariff 10% lower
+  production?: "p50" | "p90";
+  productionFactor?: number; // explicit multiplier on P50 production, overrides `production`
+  capexChangePct?: number;
+  opexChangePct?: number;
+}
+
+export interface ComputedModelMetrics {
+  discountRate: number;
+  projectNpv: number | null;
+  equityNpv: number | null;
+  npvByRate: Array<{ rate: number; projectNpv: number | null; equityNpv: number | null }>;
+  projectIrr: number | null;
+  equityIrr: number | null;
+  minDscr: number | null;
+  avgDscr: number | null;
+  llcr: number | null;
+  paybackYears: number | null;
+  discountedPaybackYears: number | null;
+  moic: number | null;
+  totalRevenue: number;
+  totalOpex: number;
+  totalEbitda: number;
+  totalCapex: number;
+  totalProductionMwh: number | null;
+}
+
+export interface ModelDiscrepancy {
+  metric: string;
+  stated: number;
+  computed: number | null;
+  difference: number | null;
+  tolerance: number;
+  year?: number;
+  note?: string;
+}
+
+// Financial Model Recalculations - server-side recomputation of the model's outputs from its cash flows
+export const financialModelRecalculations = mysqlTable("financialModelRecalculations", {
+  id: int("id").autoincrement().primaryKey(),
+  financialModelId: int("financialModelId").notNull(),
+  discountRates: json("discountRates").$type<number[]>().notNull(),
+  metrics: json("metrics").$type<ComputedModelMetrics>().notNull(),
+  discrepancies: json("discrepancies").$type<ModelDiscrepancy[]>().notNull(),
+  hasDiscrepancies: boolean("hasDiscrepancies").default(false).notNull(),
+  computedBy: int("computedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  modelIdx: index("fm_recalc_model_idx").on(table.financialModelId, table.createdAt),
+}));
+
+export type FinancialModelRecalculation = typeof financialModelRecalculations.$inferSelect;
+export type InsertFinancialModelRecalculation = typeof financialModelRecalculations.$inferInsert;
+
+export interface ModelAssumptionInputs {
+  tariff?: number;
+  tariffUnit?: string; // from the label, e.g. "$/MWh"
+  tariffEscalation?: number; // decimals: 0.02 = 2%/year
+  degradation?: number;
+  opexEscalation?: number;
+  inflation?: number;
+  capacityMw?: number;
+  p50Production?: number;
+  p90Production?: number;
+  debtAmount?: number;
+  gearing?: number;
+  interestRate?: number;
+  debtTenorYears?: number;
+  targetDscr?: number;
+  taxRate?: number;
+  discountRate?: number;
+  codDate?: string; // ISO date
+  projectLifeYears?: number;
+}
+
+// Where a template reads a field: a fixed cell, or the value next to a label
+export interface ModelCellMapping {
+  field: string; // metric key, "assumptions.<key>" or "cashFlow.<line>"
+  sheet: string;
+  cell?: string; // A1 address
+  label?: string; // label text, matched case-insensitively
+  row?: number; // 1-based row for cash flow lines
+}
+
+// Financial Model Mapping Templates - org-specific extraction layouts reused across model versions
+export const financialModelMappingTemplates = mysqlTable("financialModelMappingTemplates", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  // Sheet names to use instead of guessing from SHEET_PATTERNS
+  sheetRoles: json("sheetRoles").$type<{ summary?: string[]; cashFlow?: string; assumptions?: string }>(),
+  mappings: json("mappings").$type<ModelCellMapping[]>().notNull(),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  orgNameIdx: uniqueIndex("fm_template_org_name_idx").on(table.organizationId, table.name),
+}));
+
+export type FinancialModelMappingTemplate = typeof financialModelMappingTemplates.$inferSelect;
+export type InsertFinancialModelMappingTemplate = typeof financialModelMappingTemplates.$inferInsert;
+
+// Financial Model Cell References - the sheet, cell and formula each extracted value came from
+export const financialModelCellRefs = mysqlTable("financialModelCellRefs", {
+  id: int("id").autoincrement().primaryKey(),
+  financialModelId: int("financialModelId").notNull(),
+  field: varchar("field", { length: 100 }).notNull(), // e.g. "irr", "assumptions.degradation", "cashFlow.revenue"
+  year: int("year"), // cash flow column
+  label: varchar("label", { length: 255 }), // label text found next to the value
+  sheet: varchar("sheet", { length: 100 }).notNull(),
+  cell: varchar("cell", { length: 20 }).notNull(), // A1 address
+  formula: text("formula"),
+  displayValue: varchar("displayValue", { length: 255 }), // formatted text as shown in Excel
+  numericValue: decimal("numericValue", { precision: 24, scale: 6 }),
+  method: mysqlEnum("method", ["pattern", "template"]).default("pattern").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  modelFieldIdx: index("fm_cell_ref_model_field_idx").on(table.financialModelId, table.field),
+}));
+
+export type FinancialModelCellRef = typeof financialModelCellRefs.$inferSelect;
+export type InsertFinancialModelCellRef = typeof financialModelCellRefs.$inferInsert;
+
+// Distributions are over a multiplier on the base case (1 = as modelled)
+export type SimulationDistribution =
+  | { type: "normal"; mean: number; stdDev: number }
+  | { type: "lognormal"; mean: number; stdDev: number }
+  | { type: "triangular"; min: number; mode: number; max: number }
+  | { type: "uniform"; min: number; max: number }
+  | { type: "p50_p90" }; // normal around 1 fitted to the model's P50/P90 production
+
+export const simulationDriverKinds = ["production", "tariff", "opex", "availability", "fx"] as const;
+export type SimulationDriverKind = typeof simulationDriverKinds[number];
+
+export interface SimulationDriver {
+  driver: SimulationDriverKind;
+  distribution: SimulationDistribution;
+  sampling?: "lifetime" | "annual"; // one draw for the whole life, or a fresh draw each year
+}
+
+export interface SimulationCorrelation {
+  a: SimulationDriverKind;
+  b: SimulationDriverKind;
+  rho: number;
+}
+
+export interface SimulationMetricSummary {
+  mean: number;
+  stdDev: number;
+  p10: number; // exceeded in 10% of iterations (upside)
+  p50: number;
+  p90: number; // exceeded in 90% of iterations (lender case)
+  histogram: Array<{ from: number; to: number; count: number }>;
+}
+
+export interface SimulationResults {
+  iterations: number;
+  base: { projectIrr: number | null; equityIrr: number | null; projectNpv: number | null; minDscr: number | null };
+  metrics: Partial<Record<"projectIrr" | "equityIrr" | "projectNpv" | "minDscr", SimulationMetricSummary>>;
+  dscrCovenant: number | null;
+  dscrBreachProbability: number | null; // share of iterations with min DSCR below the covenant
+  undefinedIrrCount: number; // iterations whose flows never change sign
+}
+
+// Financial Model Simulations - Monte Carlo runs over a model's cash-flow drivers
+export const financialModelSimulations = mysqlTable("financialModelSimulations", {
+  id: int("id").autoincrement().primaryKey(),
+  financialModelId: int("financialModelId").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  status: mysqlEnum("status", ["queued", "running", "completed", "failed"]).default("queued").notNull(),
+  iterations: int("iterations").notNull(),
+  seed: int("seed").notNull(),
+  drivers: json("drivers").$type<SimulationDriver[]>().notNull(),
+  correlations: json("correlations").$type<SimulationCorrelation[]>(),
+  discountRate: decimal("discountRate", { precision: 6, scale: 4 }),
+  dscrCovenant: decimal("dscrCovenant", { precision: 6, scale: 2 }),
+  jobId: int("jobId"),
+  results: json("results").$type<SimulationResults>(),
+  error: text("error"),
+  requestedBy: int("requestedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+}, (table) => ({
+  modelIdx: index("fm_simulation_model_idx").on(table.financialModelId, table.createdAt),
+}));
+
+export type FinancialModelSimulation = typeof financialModelSimulations.$inferSelect;
+export type InsertFinancialModelSimulation = typeof financialModelSimulations.$inferInsert;
+
 // ═══════════════════════════════════════════════════════════════
 // ENERGY REPORTS & TECHNICAL DOCUMENTS
 // Specialized handling for energy reports (Homer Pro, PVsyst, etc.)
@@ -1349,6 +1557,12 @@ export const dataRooms = mysqlTable("dataRooms", {
   accessToken: varchar("accessToken", { length: 64 }).unique(),
   passwordHash: varchar("passwordHash", { length: 255 }),
   expiresAt: timestamp("expiresAt"),
+  maxViews: int("maxViews"), // Viewer sessions the link can open; null is unlimited
+  // Viewer controls
+  viewOnly: boolean("viewOnly").default(false).notNull(), // Rasterized pages only, whatever the item permits
+  watermarkEnabled: boolean("watermarkEnabled").default(true).notNull(),
+  ndaRequired: boolean("ndaRequired").default(false).notNull(),
+  ndaText: text("ndaText"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   createdById: int("createdById"),
 });
@@ -1366,6 +1580,8 @@ export const dataRoomItems = mysqlTable("dataRoomItems", {
   itemName: varchar("itemName", { length: 500 }),
   sortOrder: int("sortOrder").default(0),
   verificationStatus: mysqlEnum("verificationStatus", ["verified", "pending", "unverified"]).default("unverified"),
+  allowDownload: boolean("allowDownload").default(false).notNull(),
+  allowPrint: boolean("allowPrint").default(false).notNull(),
   addedAt: timestamp("addedAt").defaultNow().notNull(),
 });
 
@@ -1381,11 +1597,120 @@ export const dataRoomAccessLog = mysqlTable("dataRoomAccessLog", {
   accessedAt: timestamp("accessedAt").defaultNow().notNull(),
   documentsViewed: json("documentsViewed").$type<number[]>(),
   downloadCount: int("downloadCount").default(0),
-});
+  // Viewer activity
+  action: mysqlEnum("action", ["open", "nda_accepted", "email_verified", "view", "download", "print", "denied"]).default("open").notNull(),
+  sessionId: int("sessionId"),
+  accessorName: varchar("accessorName", { length: 255 }),
+  userAgent: varchar("userAgent", { length: 500 }),
+  itemId: int("itemId"),
+  pageNumber: int("pageNumber"),
+  ndaVersion: varchar("ndaVersion", { length: 64 }), // Hash of the NDA text accepted
+  detail: varchar("detail", { length: 255 }),
+}, (table) => [
+  index("dataRoomAccessLog_room_idx").on(table.dataRoomId, table.accessedAt),
+  index("dataRoomAccessLog_email_idx").on(table.dataRoomId, table.accessorEmail, table.action),
+]);
 
 export type DataRoomAccessLogEntry = typeof dataRoomAccessLog.$inferSelect;
 export type InsertDataRoomAccessLogEntry = typeof dataRoomAccessLog.$inferInsert;
 
+// Data room viewer sessions - opened through the room link once password and NDA are cleared
+export const dataRoomViewerSessions = mysqlTable("dataRoomViewerSessions", {
+  id: int("id").autoincrement().primaryKey(),
+  dataRoomId: int("dataRoomId").notNull(),
+  tokenHash: varchar("tokenHash", { length: 64 }).notNull().unique(),
+  accessorName: varchar("accessorName", { length: 255 }).notNull(),
+  accessorEmail: varchar("accessorEmail", { length: 320 }).notNull(),
+  accessorIp: varchar("accessorIp", { length: 45 }),
+  userAgent: varchar("userAgent", { length: 500 }),
+  ndaVersion: varchar("ndaVersion", { length: 64 }),
+  // Email ownership - proven with a one-time code before the viewer is linked to a bidder
+  emailVerifiedAt: timestamp("emailVerifiedAt"),
+  emailCodeHash: varchar("emailCodeHash", { length: 64 }),
+  emailCodeExpiresAt: timestamp("emailCodeExpiresAt"),
+  emailCodeAttempts: int("emailCodeAttempts").default(0).notNull(), // wrong guesses over the session, not reset by a new code
+  emailCodesSent: int("emailCodesSent").default(0).notNull(),
+  emailCodeSentAt: timestamp("emailCodeSentAt"),
+  expiresAt: timestamp("expiresAt").notNull(),
+  lastSeenAt: timestamp("lastSeenAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("dataRoomViewerSessions_room_idx").on(table.dataRoomId),
+]);
+
+export type DataRoomViewerSession = typeof dataRoomViewerSessions.$inferSelect;
+export type InsertDataRoomViewerSession = typeof dataRoomViewerSessions.$inferInsert;
+
+// Data room Q&A routing - the expert (and approver) answering each question category
+export const dataRoomQaRoutes = mysqlTable("dataRoomQaRoutes", {
+  id: int("id").autoincrement().primaryKey(),
+  dataRoomId: int("dataRoomId").notNull(),
+  category: mysqlEnum("category", ["corporate", "technical", "financial", "legal", "commercial", "operational", "general"]), // Null is the room's default route
+  expertUserId: int("expertUserId").notNull(),
+  approverUserId: int("approverUserId"), // Null leaves approval to room editors
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("dataRoomQaRoutes_room_idx").on(table.dataRoomId, table.category),
+]);
+
+export type DataRoomQaRoute = typeof dataRoomQaRoutes.$inferSelect;
+export type InsertDataRoomQaRoute = typeof dataRoomQaRoutes.$inferInsert;
+
+// Data room bidders - viewers are grouped by email or domain so bidders only see their own questions
+export const dataRoomBidders = mysqlTable("dataRoomBidders", {
+  id: int("id").autoincrement().primaryKey(),
+  dataRoomId: int("dataRoomId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  emails: json("emails").$type<string[]>(),
+  emailDomains: json("emailDomains").$type<string[]>(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("dataRoomBidders_room_idx").on(table.dataRoomId),
+]);
+
+export type DataRoomBidder = typeof dataRoomBidders.$inferSelect;
+export type InsertDataRoomBidder = typeof dataRoomBidders.$inferInsert;
+
+// Data room questions - each is tracked internally as an RFI; answers are drafted, approved and published
+export const dataRoomQuestions = mysqlTable("dataRoomQuestions", {
+  id: int("id").autoincrement().primaryKey(),
+  dataRoomId: int("dataRoomId").notNull(),
+  rfiId: int("rfiId").notNull(), // Internal thread, assignee and status
+  itemId: int("itemId"),
+  category: mysqlEnum("category", ["corporate", "technical", "financial", "legal", "commercial", "operational", "general"]).notNull(),
+  parentQuestionId: int("parentQuestionId"), // Follow-up to an earlier question
+
+  // Asker (viewer session)
+  sessionId: int("sessionId"),
+  askerName: varchar("askerName", { length: 255 }).notNull(),
+  askerEmail: varchar("askerEmail", { length: 320 }).notNull(),
+  question: text("question").notNull(),
+
+  status: mysqlEnum("status", ["submitted", "drafting", "pending_approval", "published", "declined"]).default("submitted").notNull(),
+  approverUserId: int("approverUserId"), // From the route when the question was routed
+
+  // Answer workflow
+  answerDraft: text("answerDraft"),
+  draftedById: int("draftedById"),
+  draftedAt: timestamp("draftedAt"),
+  visibility: mysqlEnum("visibility", ["private", "all_bidders"]).default("private").notNull(),
+  approvedById: int("approvedById"),
+  approvedAt: timestamp("approvedAt"),
+  publishedAnswer: text("publishedAnswer"),
+  publishedAt: timestamp("publishedAt"),
+  declineReason: text("declineReason"), // Shown to the asker
+
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("dataRoomQuestions_room_idx").on(table.dataRoomId, table.createdAt),
+  index("dataRoomQuestions_rfi_idx").on(table.rfiId),
+]);
+
+export type DataRoomQuestion = typeof dataRoomQuestions.$inferSelect;
+export type InsertDataRoomQuestion = typeof dataRoomQuestions.$inferInsert;
+
 // ═══════════════════════════════════════════════════════════════
 // PRINCIPLE 5: MULTI-CHANNEL INTERFACE
 // ═══════════════════════════════════════════════════════════════
@@ -1746,7 +2071,7 @@ export const alertRules = mysqlTable("alertRules", {
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   metricId: int("metricId"),
-  condition: mysqlEnum("condition", ["gt", "gte", "lt", "lte", "eq", "neq", "offline", "change_rate"]).notNull(),
+  condition: mysqlEnum("condition", ["gt", "gte", "lt", "lte", "eq", "neq", "offline", "change_rate", "anomaly"]).notNull(),
   threshold: decimal("threshold", { precision: 18, scale: 6 }),
   thresholdUnit: varchar("thresholdUnit", { length: 50 }),
   evaluationWindowMinutes: int("evaluationWindowMinutes").default(5),
@@ -2323,7 +2648,7 @@ export const workOrders = mysqlTable("workOrders", {
   title: varchar("title", { length: 500 }).notNull(),
   description: text("description"),
   workType: mysqlEnum("workType", [
-    "preventive", "corrective", "emergency", "inspection"
+    "preventive", "corrective", "emergency", "inspection", "predictive"
   ]).notNull(),
   priority: mysqlEnum("priority", ["critical", "high", "medium", "low"]).notNull(),
   
@@ -2905,7 +3230,7 @@ export const contractObligations = mysqlTable("contractObligations", {
   description: text("description").notNull(),
   
   // Timing
-  frequency: mysqlEnum("frequency", ["one_time", "monthly", "quarterly", "annually", "ongoing"]),
+  frequency: mysqlEnum("frequency", ["one_time", "monthly", "quarterly", "semi_annually", "annually", "ongoing"]),
   dueDate: date("dueDate"),
   dueDayOfPeriod: int("dueDayOfPeriod"),
   
@@ -2927,12 +3252,62 @@ export const contractObligations = mysqlTable("contractObligations", {
   // Alerts
   alertDaysBefore: int("alertDaysBefore").default(30),
   
+  // Financial covenant (loan agreements): minimum ratio tested on each due date
+  covenantMetric: mysqlEnum("covenantMetric", ["dscr"]),
+  covenantThreshold: decimal("covenantThreshold", { precision: 8, scale: 4 }), // e.g. 1.2000
+  covenantTestPeriodMonths: int("covenantTestPeriodMonths").default(12), // Trailing window ending on the test date
+  
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type ContractObligation = typeof contractObligations.$inferSelect;
 export type InsertContractObligation = typeof contractObligations.$inferInsert;
 
+export interface CovenantTestDetails {
+  currency: string;
+  actualRevenue: number;
+  actualOpex: number;
+  modelOpexMonths: number; // Elapsed months without recorded opex, filled from the model
+  modelRevenueMonths?: number; // Elapsed months without invoiced revenue, filled from the model
+  actualDebtService: number;
+  projectedCfads: number;
+  projectedDebtService: number;
+}
+
+// Covenant test results - one row per covenant and test date, updated as actuals come in
+export const covenantTestResults = mysqlTable("covenantTestResults", {
+  id: int("id").autoincrement().primaryKey(),
+  contractObligationId: int("contractObligationId").notNull(),
+  organizationId: int("organizationId").notNull(),
+  projectId: int("projectId").notNull(),
+  financialModelId: int("financialModelId"),
+  
+  testDate: date("testDate").notNull(),
+  periodStart: timestamp("periodStart").notNull(),
+  periodEnd: timestamp("periodEnd").notNull(),
+  elapsedMonths: int("elapsedMonths").notNull(),
+  totalMonths: int("totalMonths").notNull(),
+  
+  threshold: decimal("threshold", { precision: 8, scale: 4 }).notNull(),
+  actualDscr: decimal("actualDscr", { precision: 10, scale: 4 }), // Elapsed months only
+  projectedDscr: decimal("projectedDscr", { precision: 10, scale: 4 }), // Actuals to date, model for the rest
+  status: mysqlEnum("status", ["compliant", "projected_breach", "breached", "insufficient_data"]).notNull(),
+  details: json("details").$type<CovenantTestDetails>(),
+  
+  // Raised when a breach is projected inside the covenant's alert window
+  obligationId: int("obligationId"),
+  alertedAt: timestamp("alertedAt"),
+  
+  checkedAt: timestamp("checkedAt").defaultNow().onUpdateNow().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  covenantTestIdx: uniqueIndex("covenant_test_date_idx").on(table.contractObligationId, table.testDate),
+  orgIdx: index("covenant_test_org_idx").on(table.organizationId),
+}));
+
+export type CovenantTestResult = typeof covenantTestResults.$inferSelect;
+export type InsertCovenantTestResult = typeof covenantTestResults.$inferInsert;
+
 // Contract amendments
 export const contractAmendments = mysqlTable("contractAmendments", {
   id: int("id").autoincrement().primaryKey(),
@@ -2956,6 +3331,91 @@ export const contractAmendments = mysqlTable("contractAmendments", {
 export type ContractAmendment = typeof contractAmendments.$inferSelect;
 export type InsertContractAmendment = typeof contractAmendments.$inferInsert;
 
+export const contractProposalCategories = [
+  "reporting_deadline", "insurance_renewal", "payment_date", "notice_period", "covenant_test"
+] as const;
+export type ContractProposalCategory = typeof contractProposalCategories[number];
+
+export const contractProposalFrequencies = ["one_time", "monthly", "quarterly", "semi_annually", "annually"] as const;
+export type ContractProposalFrequency = typeof contractProposalFrequencies[number];
+
+// What starts an obligation's clock
+export interface ContractProposalTrigger {
+  type: "period_end" | "day_of_period" | "fixed_dates" | "anniversary" | "before_event" | "none";
+  event?: string; // e.g. "expiry", "effective date", "commercial operation date"
+  offsetDays?: number; // After a period end, or before an event
+  offsetMonths?: number;
+  dayOfPeriod?: number; // -1 is the last day
+  dates?: Array<{ month: number; day: number }>; // day -1 is the month end
+}
+
+// Pointer from a proposal back to the clause it was read from
+export interface ContractEvidenceRef {
+  artifactId: number;
+  pageNumber: number;
+  clauseRef: string | null;
+  snippet: string; // max 240 chars, like evidenceRefs.snippet
+  anchor: { matchType: "exact"; query: string };
+}
+
+// Obligations proposed by clause-by-clause extraction from a contract or amendment
+export const contractObligationProposals = mysqlTable("contractObligationProposals", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  contractId: int("contractId").notNull(),
+  artifactId: int("artifactId").notNull(), // Contract or amendment the clause was read from
+  amendmentId: int("amendmentId"),
+  extractionRunId: varchar("extractionRunId", { length: 36 }).notNull(),
+  jobId: int("jobId"),
+  
+  category: mysqlEnum("category", contractProposalCategories).notNull(),
+  changeType: mysqlEnum("changeType", ["new", "modified", "removed"]).default("new").notNull(),
+  status: mysqlEnum("status", ["pending", "accepted", "rejected", "superseded"]).default("pending").notNull(),
+  
+  title: varchar("title", { length: 500 }).notNull(),
+  description: text("description"),
+  party: varchar("party", { length: 255 }),
+  partyRole: varchar("partyRole", { length: 100 }),
+  
+  // Schedule
+  frequency: mysqlEnum("frequency", contractProposalFrequencies),
+  trigger: json("trigger").$type<ContractProposalTrigger>().notNull(),
+  recurrenceRule: varchar("recurrenceRule", { length: 500 }),
+  firstDueAt: timestamp("firstDueAt"),
+  
+  // Covenant tests
+  covenantMetric: mysqlEnum("covenantMetric", ["dscr"]),
+  covenantThreshold: decimal("covenantThreshold", { precision: 8, scale: 4 }),
+  
+  // Source (clause numbers of amendments are those of the amended agreement)
+  sourceClause: varchar("sourceClause", { length: 50 }),
+  sourcePage: int("sourcePage"),
+  sourceText: text("sourceText"),
+  evidenceRefs: json("evidenceRefs").$type<ContractEvidenceRef[]>().notNull(),
+  confidence: decimal("confidence", { precision: 4, scale: 3 }).notNull(),
+  
+  // Amendment diff against the proposal this one replaces
+  supersedesProposalId: int("supersedesProposalId"),
+  changes: json("changes").$type<Array<{ field: string; oldValue: string; newValue: string }>>(),
+  
+  // Set on acceptance
+  contractObligationId: int("contractObligationId"),
+  obligationId: int("obligationId"),
+  reviewedByUserId: int("reviewedByUserId"),
+  reviewedAt: timestamp("reviewedAt"),
+  rejectionReason: text("rejectionReason"),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("contractObligationProposals_contract_status_idx").on(table.contractId, table.status),
+  index("contractObligationProposals_organizationId_idx").on(table.organizationId),
+  index("contractObligationProposals_runId_idx").on(table.extractionRunId),
+]);
+
+export type ContractObligationProposal = typeof contractObligationProposals.$inferSelect;
+export type InsertContractObligationProposal = typeof contractObligationProposals.$inferInsert;
+
 // AI extraction outputs from artifacts
 export const artifactExtractions = mysqlTable("artifactExtractions", {
   id: int("id").autoincrement().primaryKey(),
@@ -3979,7 +4439,9 @@ export const jobs = mysqlTable("jobs", {
     "report_generation",
     "data_export",
     "file_processing",
-    "webhook_delivery"
+    "webhook_delivery",
+    "monte_carlo_simulation",
+    "contract_extraction"
   ]).notNull(),
   status: mysqlEnum("status", ["queued", "processing", "completed", "failed", "cancelled"]).default("queued").notNull(),
   priority: mysqlEnum("priority", ["low", "normal", "high", "critical"]).default("normal").notNull(),
@@ -5938,6 +6400,7 @@ export const obligations = mysqlTable("obligations", {
     clauseRef?: string;
     checklistItemId?: number;
     complianceItemId?: number;
+    contractObligationId?: number;
   }>(),
   
   // VATR integration
@@ -5971,6 +6434,73 @@ export const obligations = mysqlTable("obligations", {
 export type Obligation = typeof obligations.$inferSelect;
 export type InsertObligation = typeof obligations.$inferInsert;
 
+/**
+ * Obligation occurrences - state of individual instances of a recurring
+ * obligation. Rows exist only for instances that were acted on; the rest
+ * are expanded from the recurrence rule and are implicitly OPEN.
+ */
+export const obligationOccurrences = mysqlTable("obligationOccurrences", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  obligationId: int("obligationId").notNull(),
+  
+  // Instant generated by the rule; identifies the occurrence even when rescheduled
+  occurrenceAt: timestamp("occurrenceAt").notNull(),
+  dueAt: timestamp("dueAt").notNull(),
+  
+  status: obligationStatusEnum.default("OPEN").notNull(),
+  
+  // Exceptions to the series
+  exceptionType: mysqlEnum("exceptionType", ["RESCHEDULED", "SKIPPED"]),
+  exceptionReason: text("exceptionReason"),
+  
+  // Replaces the series assignments for this occurrence when set
+  assignees: json("assignees").$type<Array<{
+    assigneeType: "USER" | "TEAM";
+    assigneeId: number;
+    role: "OWNER" | "CONTRIBUTOR" | "REVIEWER" | "APPROVER";
+  }>>(),
+  
+  notes: text("notes"),
+  completedAt: timestamp("completedAt"),
+  completedByUserId: int("completedByUserId"),
+  
+  // Timestamps
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("obligationOccurrences_organizationId_idx").on(table.organizationId),
+  index("obligationOccurrences_dueAt_idx").on(table.dueAt),
+  unique("obligationOccurrences_obligation_occurrence_unique").on(table.obligationId, table.occurrenceAt),
+]);
+export type ObligationOccurrence = typeof obligationOccurrences.$inferSelect;
+export type InsertObligationOccurrence = typeof obligationOccurrences.$inferInsert;
+
+/**
+ * Obligation occurrence evidence - files and documents that show an
+ * occurrence was met (e.g. the filed quarterly report)
+ */
+export const obligationOccurrenceEvidence = mysqlTable("obligationOccurrenceEvidence", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  occurrenceId: int("occurrenceId").notNull(),
+  
+  // Either an existing document or an uploaded file
+  documentId: int("documentId"),
+  fileUrl: text("fileUrl"),
+  fileKey: varchar("fileKey", { length: 500 }),
+  fileName: varchar("fileName", { length: 500 }),
+  mimeType: varchar("mimeType", { length: 100 }),
+  note: text("note"),
+  
+  uploadedByUserId: int("uploadedByUserId").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("obligationOccurrenceEvidence_occurrenceId_idx").on(table.occurrenceId),
+]);
+export type ObligationOccurrenceEvidence = typeof obligationOccurrenceEvidence.$inferSelect;
+export type InsertObligationOccurrenceEvidence = typeof obligationOccurrenceEvidence.$inferInsert;
+
 /**
  * Obligation link entity type enum
  */
@@ -6205,6 +6735,7 @@ export const notificationEvents = mysqlTable("notificationEvents", {
   
   // Reference to obligation
   obligationId: int("obligationId"),
+  occurrenceAt: timestamp("occurrenceAt"), // Instance of a recurring obligation
   
   // Event type
   eventType: mysqlEnum("eventType", [
@@ -6260,7 +6791,8 @@ export type InsertNotificationEvent = typeof notificationEvents.$inferInsert;
 export const calendarProviderEnum = mysqlEnum("calendarProvider", [
   "GOOGLE",
   "MICROSOFT",
-  "APPLE"
+  "APPLE",
+  "CALDAV"
 ]);
 
 /**
@@ -6279,7 +6811,10 @@ export const externalCalendarBindings = mysqlTable("externalCalendarBindings", {
   refreshToken: text("refreshToken"),
   tokenExpiresAt: timestamp("tokenExpiresAt"),
   
-  // Calendar selection
+  // CalDAV (Apple/generic) bindings authenticate with username + app password in accessToken
+  username: varchar("username", { length: 320 }),
+  
+  // Calendar selection (collection URL for CalDAV)
   calendarId: varchar("calendarId", { length: 500 }).notNull(),
   calendarName: varchar("calendarName", { length: 200 }),
   
@@ -6288,6 +6823,12 @@ export const externalCalendarBindings = mysqlTable("externalCalendarBindings", {
   lastSyncAt: timestamp("lastSyncAt"),
   lastError: text("lastError"),
   
+  // Incremental sync cursor: Google nextSyncToken, Graph deltaLink or CalDAV sync-token
+  syncToken: text("syncToken"),
+  
+  // Which side wins when an event changed both here and in the calendar
+  conflictPolicy: mysqlEnum("conflictPolicy", ["kiisha_wins", "calendar_wins", "manual"]).default("kiisha_wins").notNull(),
+  
   // Sync preferences
   syncEnabled: boolean("syncEnabled").default(true),
   syncObligationTypes: json("syncObligationTypes").$type<string[]>(),
@@ -6318,7 +6859,7 @@ export const externalCalendarEvents = mysqlTable("externalCalendarEvents", {
   externalEventId: varchar("externalEventId", { length: 500 }).notNull(),
   
   // Sync status
-  syncStatus: mysqlEnum("syncStatus", ["synced", "pending", "failed", "deleted"]).default("pending").notNull(),
+  syncStatus: mysqlEnum("syncStatus", ["synced", "pending", "failed", "deleted", "conflict"]).default("pending").notNull(),
   lastSyncedAt: timestamp("lastSyncedAt"),
   lastSyncError: text("lastSyncError"),
   
@@ -6326,6 +6867,9 @@ export const externalCalendarEvents = mysqlTable("externalCalendarEvents", {
   localVersion: int("localVersion").default(1),
   externalVersion: varchar("externalVersion", { length: 100 }),
   
+  // Due date both sides agreed on at the last sync; the base for detecting which side changed
+  syncedDueAt: timestamp("syncedDueAt"),
+  
   // Timestamps
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
@@ -6338,6 +6882,60 @@ export const externalCalendarEvents = mysqlTable("externalCalendarEvents", {
 export type ExternalCalendarEvent = typeof externalCalendarEvents.$inferSelect;
 export type InsertExternalCalendarEvent = typeof externalCalendarEvents.$inferInsert;
 
+/**
+ * Calendar sync conflicts - changes made both in KIISHA and in an external
+ * calendar since the last sync, held for manual review
+ */
+export const calendarSyncConflicts = mysqlTable("calendarSyncConflicts", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  obligationId: int("obligationId").notNull(),
+  bindingId: int("bindingId").notNull(),
+  externalEventRecordId: int("externalEventRecordId").notNull(),
+  
+  conflictType: mysqlEnum("conflictType", ["due_date", "deleted"]).notNull(),
+  localDueAt: timestamp("localDueAt"),
+  externalDueAt: timestamp("externalDueAt"),
+  
+  // Resolution
+  status: mysqlEnum("status", ["open", "kept_kiisha", "kept_calendar", "dismissed"]).default("open").notNull(),
+  resolvedByUserId: int("resolvedByUserId"),
+  resolvedAt: timestamp("resolvedAt"),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("calendarSyncConflicts_organizationId_status_idx").on(table.organizationId, table.status),
+  index("calendarSyncConflicts_externalEventRecordId_idx").on(table.externalEventRecordId),
+]);
+export type CalendarSyncConflict = typeof calendarSyncConflicts.$inferSelect;
+export type InsertCalendarSyncConflict = typeof calendarSyncConflicts.$inferInsert;
+
+/**
+ * Calendar feed tokens - authenticate ICS subscriptions and the CalDAV
+ * endpoint for a user's assigned obligations or a workspace view
+ */
+export const calendarFeedTokens = mysqlTable("calendarFeedTokens", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  userId: int("userId").notNull(),
+  
+  // Token identification (hashed at rest)
+  tokenHash: varchar("tokenHash", { length: 64 }).notNull().unique(),
+  
+  // What the feed serves
+  scope: mysqlEnum("scope", ["user", "view"]).notNull(),
+  viewId: int("viewId"),
+  name: varchar("name", { length: 200 }),
+  
+  lastAccessedAt: timestamp("lastAccessedAt"),
+  revokedAt: timestamp("revokedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("calendarFeedTokens_user_idx").on(table.userId, table.organizationId),
+]);
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
+export type InsertCalendarFeedToken = typeof calendarFeedTokens.$inferInsert;
+
 /**
  * Obligation view overlays - tracks which obligations are visible in which views
  */
@@ -7174,11 +7772,17 @@ export const invoices = mysqlTable("invoices", {
   taxAmount: int("taxAmount").default(0),
   discountAmount: int("discountAmount").default(0),
   totalAmount: int("totalAmount").notNull(), // In cents
+  withholdingAmount: int("withholdingAmount").default(0), // Tax withheld at source by the customer; not collectable
+  creditedAmount: int("creditedAmount").default(0), // Issued credit notes applied to this invoice, net of withholding
   paidAmount: int("paidAmount").default(0), // In cents
   balanceDue: int("balanceDue").notNull(), // In cents
   
   // Currency
   currency: varchar("currency", { length: 3 }).default("USD"),
+  // FX snapshot taken on issue: 1 unit of `currency` = fxRateToReporting units of reportingCurrency
+  reportingCurrency: varchar("reportingCurrency", { length: 3 }),
+  fxRateToReporting: decimal("fxRateToReporting", { precision: 20, scale: 10 }),
+  fxRateDate: timestamp("fxRateDate"),
   
   // Status
   status: mysqlEnum("status", ["draft", "sent", "viewed", "partial", "paid", "overdue", "cancelled", "refunded"]).default("draft").notNull(),
@@ -7193,6 +7797,9 @@ export const invoices = mysqlTable("invoices", {
   notes: text("notes"),
   termsAndConditions: text("termsAndConditions"),
   
+  // Set on a corrected re-issue; the original stays as issued and is fully credited
+  amendsInvoiceId: int("amendsInvoiceId"),
+  
   // PDF storage
   pdfUrl: text("pdfUrl"),
   pdfGeneratedAt: timestamp("pdfGeneratedAt"),
@@ -7225,6 +7832,8 @@ export const invoiceLineItems = mysqlTable("invoiceLineItems", {
   // Tax
   taxRate: decimal("taxRate", { precision: 5, scale: 2 }).default("0"),
   taxAmount: int("taxAmount").default(0),
+  // Explicit tax codes; resolved from taxCodeAssignments when empty
+  taxCodeIds: json("taxCodeIds").$type<number[]>(),
   
   // Reference
   projectId: int("projectId"), // Optional link to project
@@ -7232,6 +7841,9 @@ export const invoiceLineItems = mysqlTable("invoiceLineItems", {
   periodStart: timestamp("periodStart"),
   periodEnd: timestamp("periodEnd"),
   
+  // Metered billing evidence (opening/closing counter readings per meter)
+  meterReadings: json("meterReadings").$type<PpaMeterReading[]>(),
+  
   // Sort order
   sortOrder: int("sortOrder").default(0),
   
@@ -7254,6 +7866,12 @@ export const payments = mysqlTable("payments", {
   amount: int("amount").notNull(), // In cents
   currency: varchar("currency", { length: 3 }).default("USD"),
   
+  // FX snapshot on the payment date, and the realized gain/loss against the
+  // invoice's issue-date rate (in reporting currency cents)
+  reportingCurrency: varchar("reportingCurrency", { length: 3 }),
+  fxRateToReporting: decimal("fxRateToReporting", { precision: 20, scale: 10 }),
+  realizedFxGainLoss: int("realizedFxGainLoss"),
+  
   // Payment method
   paymentMethod: mysqlEnum("paymentMethod", ["card", "bank_transfer", "check", "cash", "other"]).default("card"),
   
@@ -10613,3 +11231,986 @@ export const openclawScheduledTasks = mysqlTable("openclawScheduledTasks", {
 
 export type OpenclawScheduledTask = typeof openclawScheduledTasks.$inferSelect;
 export type InsertOpenclawScheduledTask = typeof openclawScheduledTasks.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// SEMANTIC SEARCH INDEX
+// Persistent vector index behind semanticSearchService. Every row is
+// partitioned by organizationId (and optionally projectId) so retrieval
+// can never cross tenants. LSH band keys give an indexed candidate
+// lookup instead of a full cosine scan over the corpus.
+// ═══════════════════════════════════════════════════════════════
+
+export const vectorIndexEntries = mysqlTable("vectorIndexEntries", {
+  id: int("id").autoincrement().primaryKey(),
+  
+  // Partitioning
+  storeName: varchar("storeName", { length: 100 }).notNull(), // e.g. "documents"
+  organizationId: int("organizationId").notNull(),
+  projectId: int("projectId"),
+  
+  // Identity - externalId is VectorDocument.id, unique within store + org
+  externalId: varchar("externalId", { length: 255 }).notNull(),
+  sourceType: mysqlEnum("sourceType", ["document", "documentVersion", "custom"]).default("custom").notNull(),
+  sourceId: int("sourceId"),
+  chunkIndex: int("chunkIndex").default(0).notNull(),
+  
+  // Filterable metadata
+  documentType: varchar("documentType", { length: 255 }),
+  documentDate: timestamp("documentDate"),
+  
+  // Content + embedding
+  content: text("content").notNull(),
+  contentHash: varchar("contentHash", { length: 64 }).notNull(), // sha256, skips re-embedding unchanged chunks
+  embedding: json("embedding").$type<number[]>().notNull(),
+  embeddingModel: varchar("embeddingModel", { length: 100 }),
+  dimensions: int("dimensions").notNull(),
+  
+  // Random-hyperplane LSH band keys (8 bits each) for approximate candidate lookup
+  lshBand0: int("lshBand0").notNull(),
+  lshBand1: int("lshBand1").notNull(),
+  lshBand2: int("lshBand2").notNull(),
+  lshBand3: int("lshBand3").notNull(),
+  
+  metadata: json("metadata").$type<Record<string, unknown>>(),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  externalIdx: uniqueIndex("vector_index_external_idx").on(table.storeName, table.organizationId, table.externalId),
+  scopeIdx: index("vector_index_scope_idx").on(table.storeName, table.organizationId, table.projectId),
+  sourceIdx: index("vector_index_source_idx").on(table.sourceType, table.sourceId),
+  band0Idx: index("vector_index_band0_idx").on(table.storeName, table.organizationId, table.lshBand0),
+  band1Idx: index("vector_index_band1_idx").on(table.storeName, table.organizationId, table.lshBand1),
+  band2Idx: index("vector_index_band2_idx").on(table.storeName, table.organizationId, table.lshBand2),
+  band3Idx: index("vector_index_band3_idx").on(table.storeName, table.organizationId, table.lshBand3),
+}));
+
+export type VectorIndexEntry = typeof vectorIndexEntries.$inferSelect;
+export type InsertVectorIndexEntry = typeof vectorIndexEntries.$inferInsert;
+
+/**
+ * Scheduled Job Runs - one row per (job, scheduled slot)
+ * 
+ * The unique key doubles as a distributed lock: an app instance may only
+ * execute a slot after inserting its row, so two instances never run the
+ * same occurrence. Also used to detect runs missed while the server was down.
+ */
+export const scheduledJobRuns = mysqlTable("scheduledJobRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  jobId: varchar("jobId", { length: 100 }).notNull(),
+  scheduledFor: timestamp("scheduledFor").notNull(),
+  instanceId: varchar("instanceId", { length: 255 }).notNull(), // host:pid of the claiming instance
+  trigger: mysqlEnum("trigger", ["schedule", "catch_up", "manual"]).default("schedule").notNull(),
+  // Manual runs claim their own keys so "run now" never takes a scheduled slot
+  slotKind: mysqlEnum("slotKind", ["scheduled", "manual"]).default("scheduled").notNull(),
+  status: mysqlEnum("status", ["running", "success", "error", "skipped"]).default("running").notNull(),
+  result: text("result"),
+  startedAt: timestamp("startedAt").defaultNow().notNull(),
+  completedAt: timestamp("completedAt"),
+}, (table) => ({
+  slotIdx: uniqueIndex("scheduled_job_run_slot_idx").on(table.jobId, table.slotKind, table.scheduledFor),
+  jobIdx: index("scheduled_job_run_job_idx").on(table.jobId, table.scheduledFor),
+}));
+
+export type ScheduledJobRun = typeof scheduledJobRuns.$inferSelect;
+export type InsertScheduledJobRun = typeof scheduledJobRuns.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// MODBUS POLLING
+// Org-defined register maps (optionally extending the built-in
+// huawei/sma/sungrow/meter maps) and per-device polling configuration
+// for the Modbus TCP poller.
+// ═══════════════════════════════════════════════════════════════
+
+export const modbusRegisterMaps = mysqlTable("modbusRegisterMaps", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  manufacturer: varchar("manufacturer", { length: 100 }),
+  
+  // Built-in map this one extends; org registers override same-named keys
+  baseMap: mysqlEnum("baseMap", ["huawei", "sma", "sungrow", "meter"]),
+  source: mysqlEnum("source", ["manual", "sunspec_discovery"]).default("manual").notNull(),
+  
+  // Keyed like INVERTER_REGISTER_MAPS entries
+  registers: json("registers").$type<Record<string, {
+    address: number;
+    length: number;
+    type: "holding" | "input" | "coil" | "discrete";
+    dataType: "int16" | "uint16" | "int32" | "uint32" | "float32" | "float64" | "string" | "boolean";
+    name: string;
+    unit?: string;
+    scale?: number;
+    offset?: number;
+    wordOrder?: "big" | "little";
+    byteOrder?: "big" | "little";
+    scaleFactorRegister?: string;
+    metricCode?: string;
+  }>>().notNull(),
+  
+  // Defaults applied to registers that don't specify their own order
+  defaultWordOrder: mysqlEnum("defaultWordOrder", ["big", "little"]).default("big").notNull(),
+  defaultByteOrder: mysqlEnum("defaultByteOrder", ["big", "little"]).default("big").notNull(),
+  
+  isActive: boolean("isActive").default(true).notNull(),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  orgIdx: index("modbus_register_map_org_idx").on(table.organizationId),
+}));
+
+export type ModbusRegisterMapRow = typeof modbusRegisterMaps.$inferSelect;
+export type InsertModbusRegisterMap = typeof modbusRegisterMaps.$inferInsert;
+
+export const modbusDeviceConfigs = mysqlTable("modbusDeviceConfigs", {
+  id: int("id").autoincrement().primaryKey(),
+  deviceId: int("deviceId").notNull().unique(), // devices.id
+  organizationId: int("organizationId").notNull(),
+  
+  // Connection
+  host: varchar("host", { length: 255 }).notNull(),
+  port: int("port").default(502).notNull(),
+  unitId: int("unitId").default(1).notNull(),
+  timeoutMs: int("timeoutMs").default(5000).notNull(),
+  
+  // Register map: an org map, or a built-in map by name
+  registerMapId: int("registerMapId"),
+  builtInMap: mysqlEnum("builtInMap", ["huawei", "sma", "sungrow", "meter"]),
+  
+  // Polling
+  pollIntervalSeconds: int("pollIntervalSeconds").default(60).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  
+  // Health (persisted so status survives restarts)
+  lastPollAt: timestamp("lastPollAt"),
+  lastSuccessAt: timestamp("lastSuccessAt"),
+  consecutiveFailures: int("consecutiveFailures").default(0).notNull(),
+  lastError: text("lastError"),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  orgIdx: index("modbus_device_config_org_idx").on(table.organizationId),
+  enabledIdx: index("modbus_device_config_enabled_idx").on(table.enabled),
+}));
+
+export type ModbusDeviceConfig = typeof modbusDeviceConfigs.$inferSelect;
+export type InsertModbusDeviceConfig = typeof modbusDeviceConfigs.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// SPARKPLUG B EDGE NODES
+// Edge nodes seen on MQTT. Nodes are registered automatically on first
+// birth; telemetry is ingested once the node is mapped to a site.
+// ═══════════════════════════════════════════════════════════════
+
+export const sparkplugEdgeNodes = mysqlTable("sparkplugEdgeNodes", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  groupId: varchar("groupId", { length: 255 }).notNull(),
+  edgeNodeId: varchar("edgeNodeId", { length: 255 }).notNull(),
+  
+  siteId: int("siteId"), // null until onboarded
+  connectorId: int("connectorId"),
+  status: mysqlEnum("status", ["pending", "active", "ignored"]).default("pending").notNull(),
+  
+  // Session state
+  online: boolean("online").default(false).notNull(),
+  bdSeq: int("bdSeq"),
+  lastBirthAt: timestamp("lastBirthAt"),
+  lastDeathAt: timestamp("lastDeathAt"),
+  lastMessageAt: timestamp("lastMessageAt"),
+  lastRebirthRequestAt: timestamp("lastRebirthRequestAt"),
+  
+  // Device ids and metric names from the latest birth certificates
+  birthMetadata: json("birthMetadata").$type<{
+    metrics: string[];
+    devices: Record<string, { online: boolean; metrics: string[] }>;
+  }>(),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  nodeIdx: uniqueIndex("sparkplug_edge_node_idx").on(table.organizationId, table.groupId, table.edgeNodeId),
+  siteIdx: index("sparkplug_edge_node_site_idx").on(table.siteId),
+}));
+
+export type SparkplugEdgeNode = typeof sparkplugEdgeNodes.$inferSelect;
+export type InsertSparkplugEdgeNode = typeof sparkplugEdgeNodes.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// TELEMETRY PROVIDER CONFIGS
+// Per-org choice of time series backend. Orgs without a row query
+// normalizedMeasurements in MySQL.
+// ═══════════════════════════════════════════════════════════════
+
+export const telemetryProviderConfigs = mysqlTable("telemetryProviderConfigs", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  
+  providerType: mysqlEnum("providerType", ["mysql", "prometheus"]).default("mysql").notNull(),
+  
+  // Prometheus / Mimir connection
+  prometheusUrl: varchar("prometheusUrl", { length: 500 }),
+  tenantId: varchar("tenantId", { length: 255 }), // sent as X-Scope-OrgID
+  authType: mysqlEnum("authType", ["none", "bearer", "basic"]).default("none").notNull(),
+  username: varchar("username", { length: 255 }),
+  // Bearer token or basic auth password, encrypted with the integration secret key
+  encryptedSecret: json("encryptedSecret").$type<{ encryptedValue: string; iv: string; authTag: string }>(),
+  
+  // How exported series are named and labelled
+  metricPrefix: varchar("metricPrefix", { length: 100 }),
+  labelNames: json("labelNames").$type<{ org?: string; project?: string; site?: string; device?: string }>(),
+  
+  isActive: boolean("isActive").default(true).notNull(),
+  updatedBy: int("updatedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  orgIdx: uniqueIndex("telemetry_provider_config_org_idx").on(table.organizationId),
+}));
+
+export type TelemetryProviderConfig = typeof telemetryProviderConfigs.$inferSelect;
+export type InsertTelemetryProviderConfig = typeof telemetryProviderConfigs.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// TELEMETRY ROLLUPS & RETENTION
+// 5-minute, hourly and daily aggregates materialized from
+// rawMeasurements and inverterTelemetry, plus per-org pruning of raw data.
+// ═══════════════════════════════════════════════════════════════
+
+export const telemetryRollups = mysqlTable("telemetryRollups", {
+  id: int("id").autoincrement().primaryKey(),
+  tier: mysqlEnum("tier", ["5m", "1h", "1d"]).notNull(),
+  // measurements: devices.id via rawMeasurements; inverter_api: inverterDevices.id via inverterTelemetry
+  source: mysqlEnum("source", ["measurements", "inverter_api"]).notNull(),
+  
+  organizationId: int("organizationId").notNull(),
+  projectId: int("projectId"),
+  siteId: int("siteId"),
+  deviceId: int("deviceId").notNull(),
+  metricCode: varchar("metricCode", { length: 100 }).notNull(),
+  
+  bucketStart: timestamp("bucketStart").notNull(), // UTC-aligned
+  valueAvg: decimal("valueAvg", { precision: 18, scale: 6 }),
+  valueMin: decimal("valueMin", { precision: 18, scale: 6 }),
+  valueMax: decimal("valueMax", { precision: 18, scale: 6 }),
+  valueSum: decimal("valueSum", { precision: 18, scale: 6 }),
+  valueLast: decimal("valueLast", { precision: 18, scale: 6 }),
+  lastAt: timestamp("lastAt"),
+  sampleCount: int("sampleCount").default(0).notNull(),
+  
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  bucketIdx: uniqueIndex("telemetry_rollup_bucket_idx").on(table.tier, table.source, table.deviceId, table.metricCode, table.bucketStart),
+  orgQueryIdx: index("telemetry_rollup_org_query_idx").on(table.organizationId, table.tier, table.metricCode, table.bucketStart),
+  projectIdx: index("telemetry_rollup_project_idx").on(table.projectId, table.tier, table.bucketStart),
+}));
+
+export type TelemetryRollup = typeof telemetryRollups.$inferSelect;
+export type InsertTelemetryRollup = typeof telemetryRollups.$inferInsert;
+
+// How far each source has been rolled up into each tier
+export const telemetryRollupState = mysqlTable("telemetryRollupState", {
+  id: int("id").autoincrement().primaryKey(),
+  source: mysqlEnum("source", ["measurements", "inverter_api"]).notNull(),
+  tier: mysqlEnum("tier", ["5m", "1h", "1d"]).notNull(),
+  watermark: timestamp("watermark").notNull(), // buckets before this are complete
+  lastRunAt: timestamp("lastRunAt"),
+  lastBucketCount: int("lastBucketCount"),
+  lastError: text("lastError"),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  sourceTierIdx: uniqueIndex("telemetry_rollup_state_idx").on(table.source, table.tier),
+}));
+
+export type TelemetryRollupStateRow = typeof telemetryRollupState.$inferSelect;
+
+export const telemetryRetentionPolicies = mysqlTable("telemetryRetentionPolicies", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  
+  // Days to keep each level; null keeps forever
+  rawRetentionDays: int("rawRetentionDays").default(90),
+  fiveMinuteRetentionDays: int("fiveMinuteRetentionDays").default(400),
+  hourlyRetentionDays: int("hourlyRetentionDays"),
+  dailyRetentionDays: int("dailyRetentionDays"),
+  
+  enabled: boolean("enabled").default(true).notNull(),
+  lastPrunedAt: timestamp("lastPrunedAt"),
+  lastPrunedRows: int("lastPrunedRows"),
+  
+  updatedBy: int("updatedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  orgIdx: uniqueIndex("telemetry_retention_org_idx").on(table.organizationId),
+}));
+
+export type TelemetryRetentionPolicy = typeof telemetryRetentionPolicies.$inferSelect;
+export type InsertTelemetryRetentionPolicy = typeof telemetryRetentionPolicies.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// PREDICTIVE MAINTENANCE
+// Detector configs, persisted per-device baselines and the predictions
+// they raise. Confirmed predictions open 'predictive' work orders.
+// ═══════════════════════════════════════════════════════════════
+
+export const predictiveDetectorConfigs = mysqlTable("predictiveDetectorConfigs", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  siteId: int("siteId"), // null applies to every site in the org
+  
+  name: varchar("name", { length: 255 }).notNull(),
+  detectorType: mysqlEnum("detectorType", ["ewma", "seasonal_residual", "peer_comparison"]).notNull(),
+  metricCode: varchar("metricCode", { length: 100 }).notNull(),
+  // Detector tuning (alpha, threshold, minSamples, irradianceMetric, ...)
+  params: json("params").$type<Record<string, number | string | boolean>>(),
+  
+  severity: mysqlEnum("severity", ["critical", "high", "medium", "low", "info"]).default("medium").notNull(),
+  // Consecutive anomalous evaluations before a prediction is confirmed
+  confirmationCount: int("confirmationCount").default(3).notNull(),
+  autoCreateWorkOrder: boolean("autoCreateWorkOrder").default(true).notNull(),
+  alertRuleId: int("alertRuleId"), // anomaly rule that owns this detector's alert events
+  
+  enabled: boolean("enabled").default(true).notNull(),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  orgIdx: index("predictive_detector_org_idx").on(table.organizationId),
+}));
+
+export type PredictiveDetectorConfig = typeof predictiveDetectorConfigs.$inferSelect;
+export type InsertPredictiveDetectorConfig = typeof predictiveDetectorConfigs.$inferInsert;
+
+export const predictiveBaselines = mysqlTable("predictiveBaselines", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  detectorConfigId: int("detectorConfigId").notNull(),
+  deviceId: int("deviceId").notNull(),
+  metricCode: varchar("metricCode", { length: 100 }).notNull(),
+  
+  // Detector-specific learned state (EWMA moments, hour-of-day profile, degradation history)
+  state: json("state").$type<Record<string, unknown>>().notNull(),
+  sampleCount: int("sampleCount").default(0).notNull(),
+  lastValueAt: timestamp("lastValueAt"),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  detectorDeviceIdx: uniqueIndex("predictive_baseline_detector_device_idx").on(table.detectorConfigId, table.deviceId),
+}));
+
+export type PredictiveBaseline = typeof predictiveBaselines.$inferSelect;
+export type InsertPredictiveBaseline = typeof predictiveBaselines.$inferInsert;
+
+export const maintenancePredictions = mysqlTable("maintenancePredictions", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  siteId: int("siteId").notNull(),
+  deviceId: int("deviceId").notNull(),
+  detectorConfigId: int("detectorConfigId").notNull(),
+  metricCode: varchar("metricCode", { length: 100 }).notNull(),
+  
+  status: mysqlEnum("status", ["candidate", "confirmed", "dismissed", "cleared"]).default("candidate").notNull(),
+  score: decimal("score", { precision: 10, scale: 4 }),
+  consecutiveHits: int("consecutiveHits").default(0).notNull(),
+  expectedValue: decimal("expectedValue", { precision: 18, scale: 6 }),
+  actualValue: decimal("actualValue", { precision: 18, scale: 6 }),
+  
+  // Degradation trend, when the detector can fit one
+  predictedFailureDate: timestamp("predictedFailureDate"),
+  trendConfidence: decimal("trendConfidence", { precision: 5, scale: 4 }),
+  
+  firstDetectedAt: timestamp("firstDetectedAt").notNull(),
+  lastDetectedAt: timestamp("lastDetectedAt").notNull(),
+  confirmedAt: timestamp("confirmedAt"),
+  confirmedBy: int("confirmedBy"), // null when auto-confirmed
+  closedAt: timestamp("closedAt"),
+  
+  alertEventId: int("alertEventId"),
+  workOrderId: int("workOrderId"),
+  details: json("details").$type<Record<string, unknown>>(),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  deviceStatusIdx: index("maintenance_prediction_device_status_idx").on(table.deviceId, table.detectorConfigId, table.status),
+  orgStatusIdx: index("maintenance_prediction_org_status_idx").on(table.organizationId, table.status),
+}));
+
+export type MaintenancePrediction = typeof maintenancePredictions.$inferSelect;
+export type InsertMaintenancePrediction = typeof maintenancePredictions.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// SITE PERFORMANCE KPIs
+// Per-site inputs for the PR / availability engine. Computed values
+// live in derivedMetrics with dataLineage back to their inputs.
+// ═══════════════════════════════════════════════════════════════
+
+export const siteKpiSettings = mysqlTable("siteKpiSettings", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  siteId: int("siteId").notNull(),
+  
+  // DC nameplate; falls back to sites.capacityKw
+  dcCapacityKwp: decimal("dcCapacityKwp", { precision: 12, scale: 2 }),
+  temperatureCoefficient: decimal("temperatureCoefficient", { precision: 8, scale: 6 }).default("-0.004000").notNull(), // per °C
+  referenceTemperatureC: decimal("referenceTemperatureC", { precision: 5, scale: 2 }).default("25.00").notNull(),
+  availabilityIrradianceThreshold: decimal("availabilityIrradianceThreshold", { precision: 8, scale: 2 }).default("50.00").notNull(), // W/m²
+  irradianceMetricCode: varchar("irradianceMetricCode", { length: 100 }).default("irradiance").notNull(),
+  
+  updatedBy: int("updatedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  siteIdx: uniqueIndex("site_kpi_settings_site_idx").on(table.siteId),
+}));
+
+export type SiteKpiSettings = typeof siteKpiSettings.$inferSelect;
+export type InsertSiteKpiSettings = typeof siteKpiSettings.$inferInsert;
+
+// Periods excluded from contractual availability (grid outages, curtailment, force majeure)
+export const availabilityExclusions = mysqlTable("availabilityExclusions", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  siteId: int("siteId").notNull(),
+  deviceId: int("deviceId"), // null = whole site
+  reason: mysqlEnum("reason", ["grid_outage", "curtailment", "force_majeure", "scheduled_maintenance", "other"]).notNull(),
+  startAt: timestamp("startAt").notNull(),
+  endAt: timestamp("endAt").notNull(),
+  notes: text("notes"),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  siteRangeIdx: index("availability_exclusion_site_range_idx").on(table.siteId, table.startAt),
+}));
+
+export type AvailabilityExclusion = typeof availabilityExclusions.$inferSelect;
+export type InsertAvailabilityExclusion = typeof availabilityExclusions.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// PPA METERED BILLING
+// Per-kWh tariffs on a customer-project link, and one billing run per
+// tariff and period that produced a draft invoice from metered energy.
+// ═══════════════════════════════════════════════════════════════
+
+export interface PpaTouBlock {
+  name: string;
+  rateCents: number; // per kWh, before escalation
+  startHour: number; // local hour, inclusive
+  endHour: number; // local hour, exclusive; wraps past midnight when <= startHour
+  daysOfWeek?: number[]; // 0 = Sunday; all days when omitted
+  months?: number[]; // 1-12; all months when omitted
+}
+
+export interface PpaMeterReading {
+  source: "measurements" | "inverter_api";
+  deviceId: number;
+  metricCode: string;
+  openingReading: number;
+  openingAt: string;
+  closingReading: number;
+  closingAt: string;
+  energyKwh: number;
+}
+
+export const ppaTariffs = mysqlTable("ppaTariffs", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  customerProjectId: int("customerProjectId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  
+  // Rates in cents per kWh (fractional cents allowed)
+  tariffType: mysqlEnum("tariffType", ["flat", "time_of_use"]).default("flat").notNull(),
+  energyRateCents: decimal("energyRateCents", { precision: 12, scale: 4 }).notNull(), // flat rate, or hours outside every ToU block
+  touBlocks: json("touBlocks").$type<PpaTouBlock[]>(),
+  timezone: varchar("timezone", { length: 50 }).default("UTC").notNull(), // for ToU hours and billing period boundaries
+  currency: varchar("currency", { length: 3 }).default("USD").notNull(),
+  
+  // Annual escalator, compounded on each anniversary of escalationStartDate
+  escalationPercent: decimal("escalationPercent", { precision: 6, scale: 3 }).default("0").notNull(),
+  escalationStartDate: timestamp("escalationStartDate"),
+  
+  // Take-or-pay: shortfall below the pro-rated annual minimum is billed at shortfallRateCents
+  minimumAnnualKwh: decimal("minimumAnnualKwh", { precision: 15, scale: 2 }),
+  shortfallRateCents: decimal("shortfallRateCents", { precision: 12, scale: 4 }),
+  
+  // Energy beyond the pro-rated annual contract quantity is billed at excessRateCents
+  excessThresholdAnnualKwh: decimal("excessThresholdAnnualKwh", { precision: 15, scale: 2 }),
+  excessRateCents: decimal("excessRateCents", { precision: 12, scale: 4 }),
+  
+  // Revenue meter(s); all energy counters on the project when empty
+  meterDevices: json("meterDevices").$type<Array<{ source: "measurements" | "inverter_api"; deviceId: number }>>(),
+  meterMetricCode: varchar("meterMetricCode", { length: 100 }).default("total_energy_kwh").notNull(),
+  
+  taxRate: decimal("taxRate", { precision: 5, scale: 2 }).default("0").notNull(),
+  effectiveFrom: timestamp("effectiveFrom").notNull(),
+  effectiveTo: timestamp("effectiveTo"),
+  status: mysqlEnum("status", ["active", "inactive"]).default("active").notNull(),
+  
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  customerProjectIdx: index("ppa_tariff_customer_project_idx").on(table.customerProjectId, table.status),
+  orgIdx: index("ppa_tariff_org_idx").on(table.organizationId),
+}));
+
+export type PpaTariff = typeof ppaTariffs.$inferSelect;
+export type InsertPpaTariff = typeof ppaTariffs.$inferInsert;
+
+export const ppaBillingRuns = mysqlTable("ppaBillingRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  tariffId: int("tariffId").notNull(),
+  customerProjectId: int("customerProjectId").notNull(),
+  periodStart: timestamp("periodStart").notNull(),
+  periodEnd: timestamp("periodEnd").notNull(),
+  
+  status: mysqlEnum("status", ["draft", "failed", "issued"]).default("draft").notNull(),
+  invoiceId: int("invoiceId"),
+  deliveredKwh: decimal("deliveredKwh", { precision: 15, scale: 3 }),
+  meterReadings: json("meterReadings").$type<PpaMeterReading[]>(),
+  // Hours with no counter data in the period, for reviewers
+  missingHours: int("missingHours").default(0),
+  error: text("error"),
+  
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  tariffPeriodIdx: uniqueIndex("ppa_billing_run_tariff_period_idx").on(table.tariffId, table.periodStart),
+  orgStatusIdx: index("ppa_billing_run_org_status_idx").on(table.organizationId, table.status),
+}));
+
+export type PpaBillingRun = typeof ppaBillingRuns.$inferSelect;
+export type InsertPpaBillingRun = typeof ppaBillingRuns.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// FX RATES
+// Daily exchange rates used to snapshot invoices and payments into an
+// organization's reporting currency. Org rows override global rows.
+// ═══════════════════════════════════════════════════════════════
+
+export const fxRates = mysqlTable("fxRates", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId"), // null = global
+  
+  // 1 unit of baseCurrency = rate units of quoteCurrency
+  baseCurrency: varchar("baseCurrency", { length: 3 }).notNull(),
+  quoteCurrency: varchar("quoteCurrency", { length: 3 }).notNull(),
+  rate: decimal("rate", { precision: 20, scale: 10 }).notNull(),
+  rateDate: date("rateDate").notNull(),
+  source: mysqlEnum("source", ["manual", "import", "api"]).default("manual").notNull(),
+  
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  pairDateIdx: uniqueIndex("fx_rate_org_pair_date_idx").on(table.organizationId, table.baseCurrency, table.quoteCurrency, table.rateDate),
+  lookupIdx: index("fx_rate_pair_date_idx").on(table.baseCurrency, table.quoteCurrency, table.rateDate),
+}));
+
+export type FxRate = typeof fxRates.$inferSelect;
+export type InsertFxRate = typeof fxRates.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// TAX ENGINE
+// Org tax codes per jurisdiction, their assignment to customers and
+// product lines (invoiceLineItems.serviceType), and the per-line tax
+// amounts computed from them for invoices and filings.
+// ═══════════════════════════════════════════════════════════════
+
+export const taxCodes = mysqlTable("taxCodes", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  code: varchar("code", { length: 50 }).notNull(), // e.g. "NG-VAT-7.5", "KE-WHT-3"
+  name: varchar("name", { length: 255 }).notNull(),
+  jurisdiction: varchar("jurisdiction", { length: 50 }).notNull(), // ISO country, optionally "-region"
+  
+  // Tax family: one code per family applies to a line (VAT and WHT can stack)
+  taxName: varchar("taxName", { length: 20 }).notNull(), // VAT, GST, WHT
+  kind: mysqlEnum("kind", ["standard", "zero_rated", "exempt", "reverse_charge", "withholding"]).notNull(),
+  rate: decimal("rate", { precision: 6, scale: 3 }).default("0").notNull(), // percent
+  roundingMode: mysqlEnum("roundingMode", ["half_up", "half_even", "up", "down"]).default("half_up").notNull(),
+  
+  // Printed on invoices for exempt / reverse-charge supplies
+  legalNote: text("legalNote"),
+  // Return box the amounts are filed under
+  filingCategory: varchar("filingCategory", { length: 100 }),
+  
+  isDefault: boolean("isDefault").default(false).notNull(), // org-wide fallback for its tax family
+  isActive: boolean("isActive").default(true).notNull(),
+  
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  orgCodeIdx: uniqueIndex("tax_code_org_code_idx").on(table.organizationId, table.code),
+}));
+
+export type TaxCode = typeof taxCodes.$inferSelect;
+export type InsertTaxCode = typeof taxCodes.$inferInsert;
+
+// Most specific wins per tax family: customer + product line, customer, product line, org default
+export const taxCodeAssignments = mysqlTable("taxCodeAssignments", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  taxCodeId: int("taxCodeId").notNull(),
+  customerId: int("customerId"), // null = any customer
+  serviceType: varchar("serviceType", { length: 100 }), // product line; null = any
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  orgIdx: index("tax_assignment_org_idx").on(table.organizationId, table.customerId),
+}));
+
+export type TaxCodeAssignment = typeof taxCodeAssignments.$inferSelect;
+export type InsertTaxCodeAssignment = typeof taxCodeAssignments.$inferInsert;
+
+export const invoiceLineTaxes = mysqlTable("invoiceLineTaxes", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  invoiceId: int("invoiceId").notNull(),
+  lineItemId: int("lineItemId").notNull(),
+  taxCodeId: int("taxCodeId"), // null for legacy per-line rates
+  
+  // Copied from the code at calculation time so filings survive code edits
+  code: varchar("code", { length: 50 }).notNull(),
+  taxName: varchar("taxName", { length: 20 }).notNull(),
+  kind: mysqlEnum("kind", ["standard", "zero_rated", "exempt", "reverse_charge", "withholding"]).notNull(),
+  rate: decimal("rate", { precision: 6, scale: 3 }).notNull(),
+  taxableAmount: int("taxableAmount").notNull(), // cents
+  taxAmount: int("taxAmount").notNull(), // cents; negative for withholding
+  // Reverse charge: tax the customer self-accounts for (not on the invoice total)
+  selfAssessedAmount: int("selfAssessedAmount").default(0).notNull(),
+  currency: varchar("currency", { length: 3 }).default("USD").notNull(),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  invoiceIdx: index("invoice_line_tax_invoice_idx").on(table.invoiceId),
+  orgCodeIdx: index("invoice_line_tax_org_code_idx").on(table.organizationId, table.code),
+}));
+
+export type InvoiceLineTax = typeof invoiceLineTaxes.$inferSelect;
+export type InsertInvoiceLineTax = typeof invoiceLineTaxes.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// CREDIT NOTES
+// Credit notes against issued invoices (whole or per line), how their
+// value was settled (applied to the balance, refunded, carried to a
+// replacement invoice), and the ledger of every balance movement.
+// ═══════════════════════════════════════════════════════════════
+
+export const creditNotes = mysqlTable("creditNotes", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  invoiceId: int("invoiceId").notNull(),
+  customerId: int("customerId").notNull(),
+  
+  // Own sequence (CN-2026-00001), assigned on issue so issued numbers have no gaps
+  creditNoteNumber: varchar("creditNoteNumber", { length: 50 }),
+  
+  reason: mysqlEnum("reason", ["dispute", "billing_error", "goodwill", "amendment", "cancellation", "other"]).notNull(),
+  reasonNote: text("reasonNote"),
+  status: mysqlEnum("status", ["draft", "issuing", "issued", "void"]).default("draft").notNull(), // issuing: claimed while it is numbered and refunded
+  
+  // Amounts in cents, in the invoice currency
+  currency: varchar("currency", { length: 3 }).default("USD").notNull(),
+  subtotal: int("subtotal").notNull(),
+  taxAmount: int("taxAmount").default(0).notNull(),
+  withholdingAmount: int("withholdingAmount").default(0).notNull(),
+  totalAmount: int("totalAmount").notNull(), // subtotal + tax
+  
+  // Settlement of totalAmount - withholdingAmount
+  appliedAmount: int("appliedAmount").default(0).notNull(), // against the invoice balance
+  refundedAmount: int("refundedAmount").default(0).notNull(),
+  carriedForwardAmount: int("carriedForwardAmount").default(0).notNull(), // to the replacement invoice
+  replacementInvoiceId: int("replacementInvoiceId"),
+  
+  // Refund
+  refundMethod: mysqlEnum("refundMethod", ["stripe", "manual"]),
+  stripeRefundId: varchar("stripeRefundId", { length: 255 }),
+  refundPaymentId: int("refundPaymentId"),
+  
+  issueDate: timestamp("issueDate"),
+  issuedBy: int("issuedBy"),
+  pdfUrl: text("pdfUrl"),
+  pdfGeneratedAt: timestamp("pdfGeneratedAt"),
+  
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  numberIdx: uniqueIndex("credit_note_org_number_idx").on(table.organizationId, table.creditNoteNumber),
+  invoiceIdx: index("credit_note_invoice_idx").on(table.invoiceId),
+  customerIdx: index("credit_note_customer_idx").on(table.customerId, table.status),
+}));
+
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type InsertCreditNote = typeof creditNotes.$inferInsert;
+
+// Per-organization counters for document numbers (credit notes, replacement invoices)
+export const documentNumberSequences = mysqlTable("documentNumberSequences", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  name: varchar("name", { length: 50 }).notNull(),
+  lastValue: int("lastValue").default(0).notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  orgNameIdx: uniqueIndex("document_number_sequence_org_name_idx").on(table.organizationId, table.name),
+}));
+
+export type DocumentNumberSequence = typeof documentNumberSequences.$inferSelect;
+
+export const creditNoteLines = mysqlTable("creditNoteLines", {
+  id: int("id").autoincrement().primaryKey(),
+  creditNoteId: int("creditNoteId").notNull(),
+  invoiceLineItemId: int("invoiceLineItemId").notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }),
+  amount: int("amount").notNull(), // cents credited off the line amount, net of the invoice discount
+  discountAmount: int("discountAmount").default(0).notNull(), // share of the invoice discount reversed with it
+  taxAmount: int("taxAmount").default(0).notNull(),
+  withholdingAmount: int("withholdingAmount").default(0).notNull(),
+  sortOrder: int("sortOrder").default(0),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  creditNoteIdx: index("credit_note_line_note_idx").on(table.creditNoteId),
+  lineItemIdx: index("credit_note_line_item_idx").on(table.invoiceLineItemId),
+}));
+
+export type CreditNoteLine = typeof creditNoteLines.$inferSelect;
+export type InsertCreditNoteLine = typeof creditNoteLines.$inferInsert;
+
+// Append-only; amount is the signed change to the invoice balance
+export const invoiceLedgerEntries = mysqlTable("invoiceLedgerEntries", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  invoiceId: int("invoiceId").notNull(),
+  customerId: int("customerId").notNull(),
+  entryType: mysqlEnum("entryType", ["payment", "credit_note", "refund", "credit_carried_forward", "amendment"]).notNull(),
+  amount: int("amount").notNull(),
+  balanceAfter: int("balanceAfter").notNull(),
+  currency: varchar("currency", { length: 3 }).default("USD").notNull(),
+  creditNoteId: int("creditNoteId"),
+  paymentId: int("paymentId"),
+  relatedInvoiceId: int("relatedInvoiceId"),
+  memo: varchar("memo", { length: 500 }),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  invoiceIdx: index("invoice_ledger_invoice_idx").on(table.invoiceId, table.createdAt),
+  orgIdx: index("invoice_ledger_org_idx").on(table.organizationId, table.createdAt),
+}));
+
+export type InvoiceLedgerEntry = typeof invoiceLedgerEntries.$inferSelect;
+export type InsertInvoiceLedgerEntry = typeof invoiceLedgerEntries.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// BANK RECONCILIATION
+// Imported bank statements, their transactions, and proposed or
+// confirmed allocations of incoming transfers to open invoices.
+// ═══════════════════════════════════════════════════════════════
+
+export const bankStatementImports = mysqlTable("bankStatementImports", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  fileName: varchar("fileName", { length: 255 }).notNull(),
+  fileHash: varchar("fileHash", { length: 64 }).notNull(), // SHA-256; the same file is imported once
+  format: mysqlEnum("format", ["csv", "ofx", "camt053", "mt940"]).notNull(),
+  accountIdentifier: varchar("accountIdentifier", { length: 100 }),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  periodStart: timestamp("periodStart"),
+  periodEnd: timestamp("periodEnd"),
+  openingBalance: bigint("openingBalance", { mode: "number" }), // cents
+  closingBalance: bigint("closingBalance", { mode: "number" }),
+  transactionCount: int("transactionCount").default(0).notNull(),
+  duplicateCount: int("duplicateCount").default(0).notNull(), // already imported from an overlapping statement
+  importedBy: int("importedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  fileIdx: uniqueIndex("bank_import_org_file_idx").on(table.organizationId, table.fileHash),
+}));
+
+export type BankStatementImport = typeof bankStatementImports.$inferSelect;
+export type InsertBankStatementImport = typeof bankStatementImports.$inferInsert;
+
+export const bankTransactions = mysqlTable("bankTransactions", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  importId: int("importId").notNull(),
+  dedupeKey: varchar("dedupeKey", { length: 64 }).notNull(),
+  externalId: varchar("externalId", { length: 255 }),
+  bookingDate: timestamp("bookingDate").notNull(),
+  valueDate: timestamp("valueDate"),
+  amount: bigint("amount", { mode: "number" }).notNull(), // cents; credits positive
+  currency: varchar("currency", { length: 3 }).notNull(),
+  counterpartyName: varchar("counterpartyName", { length: 255 }),
+  counterpartyAccount: varchar("counterpartyAccount", { length: 100 }),
+  reference: text("reference"),
+  description: text("description"),
+  
+  // unmatched -> proposed (awaiting review) -> matched; debits and non-customer receipts are ignored
+  status: mysqlEnum("status", ["unmatched", "proposed", "confirming", "matched", "ignored"]).default("unmatched").notNull(), // confirming: claimed while its payments are booked
+  allocatedAmount: bigint("allocatedAmount", { mode: "number" }).default(0).notNull(), // confirmed to invoices
+  reviewedBy: int("reviewedBy"),
+  reviewedAt: timestamp("reviewedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  dedupeIdx: uniqueIndex("bank_txn_org_dedupe_idx").on(table.organizationId, table.dedupeKey),
+  queueIdx: index("bank_txn_org_status_idx").on(table.organizationId, table.status, table.bookingDate),
+  importIdx: index("bank_txn_import_idx").on(table.importId),
+}));
+
+export type BankTransaction = typeof bankTransactions.$inferSelect;
+export type InsertBankTransaction = typeof bankTransactions.$inferInsert;
+
+// One transaction can pay several invoices (split) and one invoice can be paid by several transactions (combined)
+export const bankTransactionMatches = mysqlTable("bankTransactionMatches", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  transactionId: int("transactionId").notNull(),
+  invoiceId: int("invoiceId").notNull(),
+  amount: int("amount").notNull(), // cents allocated to the invoice
+  score: decimal("score", { precision: 4, scale: 3 }).notNull(), // 0-1 match confidence
+  reasons: json("reasons").$type<string[]>(),
+  source: mysqlEnum("source", ["auto", "manual"]).default("auto").notNull(),
+  status: mysqlEnum("status", ["proposed", "confirmed", "rejected"]).default("proposed").notNull(),
+  paymentId: int("paymentId"), // set on confirmation
+  confirmedBy: int("confirmedBy"),
+  confirmedAt: timestamp("confirmedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  transactionIdx: index("bank_match_txn_idx").on(table.transactionId),
+  invoiceIdx: index("bank_match_invoice_idx").on(table.invoiceId, table.status),
+}));
+
+export type BankTransactionMatch = typeof bankTransactionMatches.$inferSelect;
+export type InsertBankTransactionMatch = typeof bankTransactionMatches.$inferInsert;
+
+// ═══════════════════════════════════════════════════════════════
+// ACCOUNTING JOURNALS
+// Double-entry journals generated from invoices, credit notes, payments and
+// platform invoices, mapped to each org's chart of accounts. Exported periods
+// are locked: later changes to their sources post as adjustments in the next
+// open period instead of rewriting exported entries.
+// ═══════════════════════════════════════════════════════════════
+
+export const journalAccountRoles = [
+  "accounts_receivable",
+  "revenue",
+  "sales_discounts",
+  "vat_payable",
+  "withholding_receivable",
+  "bank",
+  "fx_gain_loss",
+  "rounding",
+  "accounts_payable",
+  "platform_expense",
+  "vat_receivable",
+] as const;
+export type JournalAccountRole = typeof journalAccountRoles[number];
+
+// Most specific mapping wins: revenue by project, VAT by tax code, bank by currency
+export const chartOfAccountMappings = mysqlTable("chartOfAccountMappings", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  role: mysqlEnum("role", journalAccountRoles).notNull(),
+  projectId: int("projectId"),
+  taxCodeId: int("taxCodeId"),
+  currency: varchar("currency", { length: 3 }),
+  accountCode: varchar("accountCode", { length: 50 }).notNull(),
+  accountName: varchar("accountName", { length: 255 }).notNull(),
+  taxType: varchar("taxType", { length: 50 }), // Xero tax rate name for lines on this account
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  orgRoleIdx: index("coa_map_org_role_idx").on(table.organizationId, table.role),
+}));
+
+export type ChartOfAccountMapping = typeof chartOfAccountMappings.$inferSelect;
+export type InsertChartOfAccountMapping = typeof chartOfAccountMappings.$inferInsert;
+
+export const journalEntries = mysqlTable("journalEntries", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  sourceType: mysqlEnum("sourceType", ["invoice", "credit_note", "payment", "platform_invoice", "platform_payment"]).notNull(),
+  sourceId: int("sourceId").notNull(),
+  entryDate: timestamp("entryDate").notNull(),
+  period: varchar("period", { length: 7 }).notNull(), // YYYY-MM
+  // Adjustments carry changes to sources whose original entry is in a locked period
+  isAdjustment: boolean("isAdjustment").default(false).notNull(),
+  reference: varchar("reference", { length: 100 }).notNull(), // invoice/credit note number or payment reference
+  narration: varchar("narration", { length: 500 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull(), // transaction currency
+  reportingCurrency: varchar("reportingCurrency", { length: 3 }).notNull(),
+  fxRate: decimal("fxRate", { precision: 20, scale: 10 }).notNull(), // transaction -> reporting
+  exportId: int("exportId"), // last export that included this entry
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  orgPeriodIdx: index("journal_entry_org_period_idx").on(table.organizationId, table.period),
+  sourceIdx: index("journal_entry_source_idx").on(table.organizationId, table.sourceType, table.sourceId),
+}));
+
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type InsertJournalEntry = typeof journalEntries.$inferInsert;
+
+export const journalLines = mysqlTable("journalLines", {
+  id: int("id").autoincrement().primaryKey(),
+  journalEntryId: int("journalEntryId").notNull(),
+  organizationId: int("organizationId").notNull(),
+  role: mysqlEnum("role", journalAccountRoles).notNull(),
+  accountCode: varchar("accountCode", { length: 50 }).notNull(),
+  accountName: varchar("accountName", { length: 255 }).notNull(),
+  taxType: varchar("taxType", { length: 50 }),
+  debit: bigint("debit", { mode: "number" }).default(0).notNull(), // reporting currency cents
+  credit: bigint("credit", { mode: "number" }).default(0).notNull(),
+  transactionAmount: bigint("transactionAmount", { mode: "number" }).default(0).notNull(), // signed, transaction currency cents (debit positive)
+  projectId: int("projectId"),
+  customerId: int("customerId"),
+  taxCodeId: int("taxCodeId"),
+  description: varchar("description", { length: 500 }),
+}, (table) => ({
+  entryIdx: index("journal_line_entry_idx").on(table.journalEntryId),
+}));
+
+export type JournalLine = typeof journalLines.$inferSelect;
+export type InsertJournalLine = typeof journalLines.$inferInsert;
+
+export const accountingPeriodLocks = mysqlTable("accountingPeriodLocks", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  period: varchar("period", { length: 7 }).notNull(), // YYYY-MM
+  exportId: int("exportId"), // the export that locked it, if any
+  reason: varchar("reason", { length: 255 }),
+  lockedBy: int("lockedBy"),
+  lockedAt: timestamp("lockedAt").defaultNow().notNull(),
+}, (table) => ({
+  orgPeriodIdx: uniqueIndex("period_lock_org_period_idx").on(table.organizationId, table.period),
+}));
+
+export type AccountingPeriodLock = typeof accountingPeriodLocks.$inferSelect;
+export type InsertAccountingPeriodLock = typeof accountingPeriodLocks.$inferInsert;
+
+export const journalExports = mysqlTable("journalExports", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  format: mysqlEnum("format", ["csv", "xero", "iif"]).notNull(),
+  periodFrom: varchar("periodFrom", { length: 7 }).notNull(),
+  periodTo: varchar("periodTo", { length: 7 }).notNull(),
+  entryCount: int("entryCount").notNull(),
+  totalDebit: bigint("totalDebit", { mode: "number" }).notNull(),
+  fileHash: varchar("fileHash", { length: 64 }).notNull(),
+  lockedPeriods: boolean("lockedPeriods").default(false).notNull(),
+  exportedBy: int("exportedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  orgIdx: index("journal_export_org_idx").on(table.organizationId, table.createdAt),
+}));
+
+export type JournalExport = typeof journalExports.$inferSelect;
+export type InsertJournalExport = typeof journalExports.$inferInsert;
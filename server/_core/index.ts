@@ -5,6 +5,8 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerCalendarFeedRoutes } from "../services/calendarFeed";
+import { registerDataRoomRoutes } from "../services/dataRoomViewer";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
@@ -241,6 +243,12 @@ async function startServer() {
 
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+
+  // Calendar subscriptions: ICS feeds and the read-only CalDAV endpoint
+  registerCalendarFeedRoutes(app);
+
+  // Data room viewer: watermarked page renders, downloads and prints
+  registerDataRoomRoutes(app);
   
   // File download endpoint for local storage
   app.get('/api/download/:fileKey(*)', async (req, res) => {
@@ -291,6 +299,9 @@ async function startServer() {
     // Start OpenClaw cron scheduler in production
     if (process.env.NODE_ENV === "production") {
       import('../services/openclawCronScheduler').then(m => m.startCronScheduler());
+      if (process.env.MODBUS_POLLER_ENABLED !== "false") {
+        import('../services/modbusPoller').then(m => m.modbusPoller.start());
+      }
     }
   });
 }
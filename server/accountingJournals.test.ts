@@ -0,0 +1,227 @@
+/**
+ * Accounting Journal Tests
+ *
+ * Double-entry lines for each source, account mapping, adjustments against
+ * locked periods and the export formats.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  AccountMappingRule,
+  ExportJournalEntry,
+  creditNoteJournalLines,
+  diffJournalLines,
+  firstOpenDate,
+  formatDecimal,
+  invoiceJournalLines,
+  JournalError,
+  paymentJournalLines,
+  periodsBetween,
+  resolveAccount,
+  toQuickBooksIif,
+  toReportingLines,
+  toXeroJournalCsv,
+} from "./services/accountingJournals";
+
+const sum = (lines: Array<{ amount: number }>) => lines.reduce((s, l) => s + l.amount, 0);
+const baseSum = (lines: Array<{ baseAmount: number }>) => lines.reduce((s, l) => s + l.baseAmount, 0);
+const byRole = (lines: Array<{ role: string; amount: number }>, role: string) =>
+  lines.filter(l => l.role === role).reduce((s, l) => s + l.amount, 0);
+
+// Two projects, 7.5% VAT, 5% withholding on the first line
+const invoice = { customerId: 7, invoiceNumber: "INV-2026-00001", totalAmount: 32_250, taxAmount: 2_250, discountAmount: 0, withholdingAmount: 1_000 };
+const items = [
+  { id: 1, amount: 20_000, projectId: 100 },
+  { id: 2, amount: 10_000, projectId: 200 },
+];
+const lineTaxes = [
+  { lineItemId: 1, taxCodeId: 11, kind: "standard", taxAmount: 1_500 },
+  { lineItemId: 1, taxCodeId: 12, kind: "withholding", taxAmount: -1_000 },
+  { lineItemId: 2, taxCodeId: 11, kind: "standard", taxAmount: 750 },
+];
+
+describe("invoiceJournalLines", () => {
+  it("should split revenue by project and net withholding out of receivables", () => {
+    const lines = invoiceJournalLines(invoice, items, lineTaxes);
+
+    expect(sum(lines)).toBe(0);
+    expect(byRole(lines, "accounts_receivable")).toBe(31_250);
+    expect(byRole(lines, "withholding_receivable")).toBe(1_000);
+    expect(byRole(lines, "vat_payable")).toBe(-2_250);
+    expect(lines.filter(l => l.role === "revenue").map(l => [l.projectId, l.amount])).toEqual([[100, -20_000], [200, -10_000]]);
+  });
+
+  it("should post rounding residue so the journal balances", () => {
+    const lines = invoiceJournalLines({ ...invoice, totalAmount: 32_251 }, items, lineTaxes);
+    expect(sum(lines)).toBe(0);
+    expect(byRole(lines, "rounding")).toBe(-1);
+  });
+
+  it("should balance a discounted invoice without a rounding line", () => {
+    // 10% discount: VAT on 27,000 is 2,025; total 30,000 - 3,000 + 2,025
+    const discounted = { ...invoice, totalAmount: 29_025, taxAmount: 2_025, discountAmount: 3_000, withholdingAmount: 900 };
+    const discountedTaxes = [
+      { lineItemId: 1, taxCodeId: 11, kind: "standard", taxAmount: 1_350 },
+      { lineItemId: 1, taxCodeId: 12, kind: "withholding", taxAmount: -900 },
+      { lineItemId: 2, taxCodeId: 11, kind: "standard", taxAmount: 675 },
+    ];
+    const lines = invoiceJournalLines(discounted, items, discountedTaxes);
+
+    expect(sum(lines)).toBe(0);
+    expect(byRole(lines, "sales_discounts")).toBe(3_000);
+    expect(byRole(lines, "accounts_receivable")).toBe(28_125);
+    expect(lines.some(l => l.role === "rounding")).toBe(false);
+  });
+
+  it("should refuse an unbalanced invoice instead of plugging it to rounding", () => {
+    // Total overstated by 100.00 - a posting bug, not rounding
+    expect(() => invoiceJournalLines({ ...invoice, totalAmount: 42_250 }, items, lineTaxes)).toThrow(JournalError);
+    expect(() => invoiceJournalLines({ ...invoice, totalAmount: 32_150 }, items, lineTaxes))
+      .toThrow("Invoice INV-2026-00001 is out of balance by -100 minor units");
+  });
+});
+
+describe("creditNoteJournalLines", () => {
+  it("should reverse revenue and the VAT codes originally charged", () => {
+    const lines = creditNoteJournalLines(
+      { customerId: 7, totalAmount: 10_750, taxAmount: 750, withholdingAmount: 500 },
+      [{ invoiceLineItemId: 1, amount: 10_000, taxAmount: 750, projectId: 100 }],
+      lineTaxes
+    );
+    expect(sum(lines)).toBe(0);
+    expect(byRole(lines, "accounts_receivable")).toBe(-10_250);
+    expect(lines.find(l => l.role === "vat_payable")).toMatchObject({ taxCodeId: 11, amount: 750 });
+  });
+
+  it("should clear every account an invoice posted when the discounted invoice is fully credited", () => {
+    const discounted = { ...invoice, totalAmount: 29_025, taxAmount: 2_025, discountAmount: 3_000, withholdingAmount: 900 };
+    const discountedTaxes = [
+      { lineItemId: 1, taxCodeId: 11, kind: "standard", taxAmount: 1_350 },
+      { lineItemId: 1, taxCodeId: 12, kind: "withholding", taxAmount: -900 },
+      { lineItemId: 2, taxCodeId: 11, kind: "standard", taxAmount: 675 },
+    ];
+    const credit = creditNoteJournalLines(
+      { customerId: 7, totalAmount: 29_025, taxAmount: 2_025, withholdingAmount: 900 },
+      [
+        { invoiceLineItemId: 1, amount: 18_000, discountAmount: 2_000, taxAmount: 1_350, projectId: 100 },
+        { invoiceLineItemId: 2, amount: 9_000, discountAmount: 1_000, taxAmount: 675, projectId: 200 },
+      ],
+      discountedTaxes
+    );
+
+    expect(sum(credit)).toBe(0);
+    expect(byRole(credit, "sales_discounts")).toBe(-3_000);
+    const net = [...invoiceJournalLines(discounted, items, discountedTaxes), ...credit];
+    for (const role of ["accounts_receivable", "withholding_receivable", "sales_discounts", "revenue", "vat_payable"]) {
+      expect(byRole(net, role)).toBe(0);
+    }
+  });
+});
+
+describe("paymentJournalLines", () => {
+  it("should book the FX difference between issue and payment rates", () => {
+    // NGN 100,000.00 invoiced at 0.00065 USD, paid at 0.00060 USD
+    const lines = paymentJournalLines(
+      { amount: 10_000_000, customerId: 7, currency: "NGN" },
+      { paymentRate: 0.0006, invoiceRate: 0.00065 },
+      "USD"
+    );
+    expect(baseSum(lines)).toBe(0);
+    expect(lines.find(l => l.role === "bank")?.baseAmount).toBe(6_000);
+    expect(lines.find(l => l.role === "accounts_receivable")?.baseAmount).toBe(-6_500);
+    expect(lines.find(l => l.role === "fx_gain_loss")?.baseAmount).toBe(500); // loss
+  });
+});
+
+describe("toReportingLines", () => {
+  it("should keep converted journals balanced", () => {
+    const lines = toReportingLines(
+      [
+        { role: "accounts_receivable", amount: 333 },
+        { role: "revenue", amount: -111 },
+        { role: "revenue", amount: -222, projectId: 2 },
+      ],
+      0.5,
+      "EUR",
+      "USD"
+    );
+    expect(baseSum(lines)).toBe(0);
+  });
+});
+
+describe("resolveAccount", () => {
+  const rules: AccountMappingRule[] = [
+    { role: "revenue", projectId: null, taxCodeId: null, currency: null, accountCode: "4000", accountName: "Sales", taxType: null },
+    { role: "revenue", projectId: 100, taxCodeId: null, currency: null, accountCode: "4010", accountName: "Sales - Solar Farm A", taxType: "Output VAT" },
+    { role: "bank", projectId: null, taxCodeId: null, currency: "NGN", accountCode: "1010", accountName: "NGN Current Account", taxType: null },
+  ];
+
+  it("should prefer the most specific mapping and fall back to defaults", () => {
+    expect(resolveAccount(rules, "revenue", { projectId: 100 }).accountCode).toBe("4010");
+    expect(resolveAccount(rules, "revenue", { projectId: 200 }).accountCode).toBe("4000");
+    expect(resolveAccount(rules, "bank", { currency: "NGN" }).accountCode).toBe("1010");
+    expect(resolveAccount(rules, "bank", { currency: "USD" }).accountCode).toBe("1000");
+  });
+});
+
+describe("period locking", () => {
+  it("should move entries for locked periods to the next open period", () => {
+    const locked = new Set(["2026-03", "2026-04"]);
+    expect(firstOpenDate(new Date("2026-03-15T00:00:00Z"), locked).toISOString()).toBe("2026-05-01T00:00:00.000Z");
+    expect(firstOpenDate(new Date("2026-02-10T00:00:00Z"), locked).toISOString()).toBe("2026-02-10T00:00:00.000Z");
+    expect(periodsBetween("2025-11", "2026-02")).toEqual(["2025-11", "2025-12", "2026-01", "2026-02"]);
+  });
+
+  it("should post only the change against what a locked entry already booked", () => {
+    const posted = [
+      { role: "accounts_receivable" as const, amount: 10_000, baseAmount: 10_000, customerId: 7 },
+      { role: "revenue" as const, amount: -10_000, baseAmount: -10_000, projectId: 100 },
+    ];
+    const desired = [
+      { role: "accounts_receivable" as const, amount: 12_000, baseAmount: 12_000, customerId: 7 },
+      { role: "revenue" as const, amount: -12_000, baseAmount: -12_000, projectId: 100 },
+    ];
+    const adjustment = diffJournalLines(desired, posted);
+    expect(adjustment.map(l => [l.role, l.amount])).toEqual([["accounts_receivable", 2_000], ["revenue", -2_000]]);
+    expect(diffJournalLines(posted, posted)).toEqual([]);
+  });
+});
+
+describe("export formats", () => {
+  const entry: ExportJournalEntry = {
+    id: 42,
+    entryDate: new Date("2026-03-05T00:00:00Z"),
+    reference: "INV-2026-00001",
+    narration: "Invoice INV-2026-00001",
+    isAdjustment: false,
+    currency: "USD",
+    reportingCurrency: "USD",
+    lines: [
+      { accountCode: "1100", accountName: "Accounts Receivable", taxType: null, debit: 10_750, credit: 0, transactionAmount: 10_750, description: null, projectName: null },
+      { accountCode: "4000", accountName: "Revenue", taxType: null, debit: 0, credit: 10_000, transactionAmount: -10_000, description: null, projectName: "Solar Farm A" },
+      { accountCode: "2200", accountName: "VAT Payable", taxType: null, debit: 0, credit: 750, transactionAmount: -750, description: null, projectName: null },
+    ],
+  };
+
+  it("should format decimals from minor units", () => {
+    expect(formatDecimal(-123_456, "USD")).toBe("-1234.56");
+    expect(formatDecimal(5, "USD")).toBe("0.05");
+    expect(formatDecimal(500, "JPY")).toBe("500");
+  });
+
+  it("should write Xero journals with signed amounts and project tracking", () => {
+    const rows = toXeroJournalCsv([entry]).split("\n");
+    expect(rows[0]).toContain("*AccountCode");
+    expect(rows[1]).toContain("05/03/2026");
+    expect(rows[2]).toContain("-100.00");
+    expect(rows[2]).toContain("Project,Solar Farm A");
+  });
+
+  it("should write QuickBooks IIF transactions with splits", () => {
+    const rows = toQuickBooksIif([entry]).split("\r\n");
+    expect(rows.slice(0, 3).map(r => r.split("\t")[0])).toEqual(["!TRNS", "!SPL", "!ENDTRNS"]);
+    expect(rows[3].split("\t")).toEqual(["TRNS", "", "GENERAL JOURNAL", "03/05/2026", "Accounts Receivable", "107.50", "INV-2026-00001", "Invoice INV-2026-00001"]);
+    expect(rows.filter(r => r.startsWith("SPL"))).toHaveLength(2);
+    expect(rows[rows.length - 1]).toBe("ENDTRNS");
+  });
+});
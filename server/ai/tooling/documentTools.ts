@@ -7,7 +7,8 @@
 import { z } from "zod";
 import { registerTool, ToolExecutionContext, ToolResult } from "./registry";
 import { createCaller } from "../../routers";
-import { getDb } from "../../db";
+import { getDb, getProjectsForUser } from "../../db";
+import { semanticSearchService } from "../../services/vectorSearch";
 
 // ============================================================================
 // Search Documents Tool
@@ -215,6 +216,73 @@ registerTool({
   },
 });
 
+// ============================================================================
+// Semantic Search Tool
+// ============================================================================
+
+const semanticSearchInput = z.object({
+  query: z.string().describe("Natural-language question or passage to search for"),
+  projectId: z.number().optional().describe("Restrict to a single project"),
+  documentTypes: z.array(z.string()).optional().describe("Restrict to document type codes"),
+  dateFrom: z.string().optional().describe("ISO date - only documents on/after this date"),
+  dateTo: z.string().optional().describe("ISO date - only documents on/before this date"),
+  limit: z.number().default(10).describe("Maximum passages to return"),
+});
+
+registerTool({
+  name: "semantic_search_documents",
+  description: "Find document passages by meaning rather than keywords. Results are limited to the current organization and the projects the user can access.",
+  inputSchema: semanticSearchInput,
+  requiredPermission: "read",
+  requiresConfirmation: false,
+  allowedRoles: ["admin", "editor", "reviewer", "investor_viewer"],
+  execute: async (input, ctx): Promise<ToolResult> => {
+    const parsed = semanticSearchInput.parse(input);
+    
+    try {
+      // Non-admins only see projects they are a member of within this org
+      let projectIds: number[] | undefined;
+      if (ctx.userRole !== "admin") {
+        const accessible = await getProjectsForUser(ctx.userId);
+        projectIds = accessible.filter(p => p.organizationId === ctx.orgId).map(p => p.id);
+      }
+      if (parsed.projectId) {
+        if (projectIds && !projectIds.includes(parsed.projectId)) {
+          return { success: false, error: "No access to this project" };
+        }
+        projectIds = [parsed.projectId];
+      }
+      
+      const results = await semanticSearchService.search("documents", { organizationId: ctx.orgId }, parsed.query, {
+        topK: parsed.limit,
+        filters: {
+          projectIds,
+          documentTypes: parsed.documentTypes,
+          dateFrom: parsed.dateFrom ? new Date(parsed.dateFrom) : undefined,
+          dateTo: parsed.dateTo ? new Date(parsed.dateTo) : undefined,
+        },
+      });
+      
+      return {
+        success: true,
+        data: results.map(r => ({
+          documentId: r.document.sourceId,
+          projectId: r.document.projectId,
+          documentType: r.document.documentType,
+          passage: r.document.content,
+          score: r.score,
+          metadata: r.document.metadata,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Semantic search failed",
+      };
+    }
+  },
+});
+
 // ============================================================================
 // Export registered tools
 // ============================================================================
@@ -225,4 +293,5 @@ export const documentToolNames = [
   "list_document_categories",
   "update_document_category",
   "get_document_summary",
+  "semantic_search_documents",
 ];
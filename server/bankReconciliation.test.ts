@@ -0,0 +1,219 @@
+/**
+ * Bank Reconciliation Tests
+ *
+ * Statement parsing for each supported format, the matching of incoming
+ * transfers to open invoices and the checks on a reviewer's split.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  BankStatementParseError,
+  detectStatementFormat,
+  parseBankStatement,
+  toMinorUnits,
+  transactionDedupeKey,
+} from "./services/bankStatementParsers";
+import {
+  OpenInvoiceCandidate,
+  findReferencedInvoices,
+  nameSimilarity,
+  proposeMatches,
+  validateAllocations,
+} from "./services/bankReconciliation";
+
+describe("toMinorUnits", () => {
+  it("should convert decimal strings without float drift", () => {
+    expect(toMinorUnits("1,234.56", "USD")).toBe(123456);
+    expect(toMinorUnits("1.234,5", "EUR", ",")).toBe(123450);
+    expect(toMinorUnits("(12.30)", "USD")).toBe(-1230);
+    expect(toMinorUnits("500", "JPY")).toBe(500);
+  });
+});
+
+describe("parseBankStatement", () => {
+  it("should read CSV exports with separate credit and debit columns", () => {
+    const csv = [
+      "Date,Description,Reference,Credit,Debit",
+      "15/03/2026,\"Acme Solar, Ltd\",INV-2026-00042,\"1,500.00\",",
+      "16/03/2026,Bank charges,,,12.50",
+    ].join("\n");
+    const statement = parseBankStatement(csv, { csv: { currency: "GBP", dateFormat: "dmy" } });
+
+    expect(statement.format).toBe("csv");
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toMatchObject({ amount: 150000, currency: "GBP", reference: "INV-2026-00042" });
+    expect(statement.transactions[0].bookingDate.toISOString().slice(0, 10)).toBe("2026-03-15");
+    expect(statement.transactions[1].amount).toBe(-1250);
+  });
+
+  it("should read OFX statements", () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD
+<BANKACCTFROM><ACCTID>123456789</BANKACCTFROM>
+<BANKTRANLIST><DTSTART>20260301<DTEND>20260331
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260310120000<TRNAMT>2500.00<FITID>T1<NAME>SUNRISE FARMS<MEMO>INV-2026-00007</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+    expect(detectStatementFormat(ofx)).toBe("ofx");
+
+    const statement = parseBankStatement(ofx);
+    expect(statement.accountIdentifier).toBe("123456789");
+    expect(statement.transactions[0]).toMatchObject({
+      externalId: "T1",
+      amount: 250000,
+      currency: "USD",
+      counterpartyName: "SUNRISE FARMS",
+    });
+  });
+
+  it("should read CAMT.053 entries with debtor and structured reference", () => {
+    const camt = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+<Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">100.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-03-01</Dt></Dt></Bal>
+<Ntry><Amt Ccy="EUR">980.40</Amt><CdtDbtInd>CRDT</CdtDbtInd><BookgDt><Dt>2026-03-05</Dt></BookgDt><ValDt><Dt>2026-03-06</Dt></ValDt><AcctSvcrRef>REF-1</AcctSvcrRef>
+<NtryDtls><TxDtls><RltdPties><Dbtr><Nm>Nordwind Energie GmbH</Nm></Dbtr></RltdPties>
+<RmtInf><Strd><CdtrRefInf><Ref>INV-2026-00011</Ref></CdtrRefInf></Strd></RmtInf></TxDtls></NtryDtls></Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+    expect(detectStatementFormat(camt)).toBe("camt053");
+
+    const statement = parseBankStatement(camt);
+    expect(statement.accountIdentifier).toBe("DE89370400440532013000");
+    expect(statement.openingBalance).toBe(10000);
+    expect(statement.transactions[0]).toMatchObject({
+      amount: 98040,
+      currency: "EUR",
+      counterpartyName: "Nordwind Energie GmbH",
+      reference: "INV-2026-00011",
+    });
+  });
+
+  it("should read MT940 :61: and :86: lines", () => {
+    const mt940 = [
+      ":20:STMT0326",
+      ":25:NL91ABNA0417164300",
+      ":28C:00012/001",
+      ":60F:C260301EUR1000,00",
+      ":61:2603040304C750,25NTRFNONREF//BANKREF1",
+      ":86:?20INV-2026-00019?32HELIOS FARMS BV",
+      ":61:260305D20,00NCHGNONREF",
+      ":86:Service charge",
+      ":62F:C260331EUR1730,25",
+    ].join("\n");
+    expect(detectStatementFormat(mt940)).toBe("mt940");
+
+    const statement = parseBankStatement(mt940);
+    expect(statement.accountIdentifier).toBe("NL91ABNA0417164300");
+    expect(statement.closingBalance).toBe(173025);
+    expect(statement.transactions.map(t => t.amount)).toEqual([75025, -2000]);
+    expect(statement.transactions[0]).toMatchObject({ reference: "INV-2026-00019", counterpartyName: "HELIOS FARMS BV" });
+  });
+
+  it("should give repeated transactions the same dedupe key", () => {
+    const csv = "Date,Amount,Description\n2026-03-01,10.00,Interest\n";
+    const a = parseBankStatement(csv, { csv: { currency: "USD" } }).transactions[0];
+    const b = parseBankStatement(csv, { csv: { currency: "USD" } }).transactions[0];
+    expect(transactionDedupeKey("ACC", a)).toBe(transactionDedupeKey("ACC", b));
+    expect(transactionDedupeKey("OTHER", a)).not.toBe(transactionDedupeKey("ACC", a));
+  });
+
+  it("should reject CSV files without a date or amount column", () => {
+    expect(() => parseBankStatement("Foo,Bar\n1,2\n", { csv: { currency: "USD" } })).toThrow(BankStatementParseError);
+  });
+});
+
+const invoice = (overrides: Partial<OpenInvoiceCandidate>): OpenInvoiceCandidate => ({
+  id: 1,
+  invoiceNumber: "INV-2026-00001",
+  customerId: 10,
+  customerName: "Acme Solar Ltd",
+  balanceDue: 100_000,
+  currency: "USD",
+  issueDate: new Date("2026-02-01"),
+  dueDate: new Date("2026-03-01"),
+  ...overrides,
+});
+
+const txn = (overrides: Partial<Parameters<typeof proposeMatches>[0]> = {}) => ({
+  amount: 100_000,
+  currency: "USD",
+  bookingDate: new Date("2026-03-10"),
+  counterpartyName: null,
+  reference: null,
+  description: null,
+  ...overrides,
+});
+
+describe("nameSimilarity", () => {
+  it("should ignore case, punctuation and company suffixes", () => {
+    expect(nameSimilarity("ACME SOLAR LIMITED", "Acme Solar Ltd")).toBe(1);
+    expect(nameSimilarity("ACME SOLR", "Acme Solar Ltd")).toBeGreaterThan(0.7);
+    expect(nameSimilarity("Borealis Wind", "Acme Solar Ltd")).toBeLessThan(0.3);
+  });
+});
+
+describe("proposeMatches", () => {
+  const open = [
+    invoice({ id: 1, invoiceNumber: "INV-2026-00001", balanceDue: 60_000 }),
+    invoice({ id: 2, invoiceNumber: "INV-2026-00002", balanceDue: 40_000, dueDate: new Date("2026-03-15") }),
+    invoice({ id: 3, invoiceNumber: "INV-2026-00003", customerId: 20, customerName: "Borealis Wind", balanceDue: 100_000 }),
+  ];
+
+  it("should match by reference regardless of formatting", () => {
+    expect(findReferencedInvoices(txn({ reference: "inv 2026 00002" }), open).map(i => i.id)).toEqual([2]);
+
+    const [match] = proposeMatches(txn({ amount: 40_000, reference: "Payment INV202600002" }), open);
+    expect(match).toMatchObject({ invoiceId: 2, amount: 40_000 });
+    expect(match.score).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it("should split one transfer across several referenced invoices", () => {
+    const proposals = proposeMatches(txn({ reference: "INV-2026-00002 INV-2026-00001" }), open);
+    expect(proposals.map(p => [p.invoiceId, p.amount])).toEqual([[1, 60_000], [2, 40_000]]);
+  });
+
+  it("should match an exact balance boosted by the payer name", () => {
+    const [match] = proposeMatches(txn({ counterpartyName: "BOREALIS WIND AS" }), open);
+    expect(match.invoiceId).toBe(3);
+    expect(match.reasons).toContain("Amount matches the balance due");
+  });
+
+  it("should find a combination of one customer's invoices", () => {
+    const proposals = proposeMatches(txn({ counterpartyName: "Acme Solar" }), open.slice(0, 2));
+    expect(proposals.map(p => p.invoiceId).sort()).toEqual([1, 2]);
+  });
+
+  it("should propose a part payment of the oldest invoice for a known payer", () => {
+    const [match] = proposeMatches(txn({ amount: 25_000, counterpartyName: "Acme Solar Ltd" }), open);
+    expect(match).toMatchObject({ invoiceId: 1, amount: 25_000 });
+  });
+
+  it("should not propose anything for debits, other currencies or unknown payers", () => {
+    expect(proposeMatches(txn({ amount: -100_000, reference: "INV-2026-00003" }), open)).toEqual([]);
+    expect(proposeMatches(txn({ currency: "EUR", reference: "INV-2026-00003" }), open)).toEqual([]);
+    expect(proposeMatches(txn({ amount: 12_345, counterpartyName: "Someone Else" }), open)).toEqual([]);
+  });
+});
+
+describe("validateAllocations", () => {
+  const transfer = { amount: 100_000, currency: "USD" };
+  const invoiceRows = [
+    { id: 1, invoiceNumber: "INV-2026-00001", currency: "USD", status: "sent" as const, balanceDue: 60_000 },
+    { id: 2, invoiceNumber: "INV-2026-00002", currency: "USD", status: "paid" as const, balanceDue: 0 },
+  ];
+
+  it("should return the total of a split that fits", () => {
+    expect(validateAllocations(transfer, [{ invoiceId: 1, amount: 30_000 }, { invoiceId: 1, amount: 30_000 }], invoiceRows)).toBe(60_000);
+  });
+
+  it("should add up allocations to the same invoice against its balance", () => {
+    const twice = [{ invoiceId: 1, amount: 40_000 }, { invoiceId: 1, amount: 40_000 }];
+    expect(() => validateAllocations(transfer, twice, invoiceRows)).toThrow("Allocation of 80000 exceeds the 60000 due on INV-2026-00001");
+  });
+
+  it("should reject empty, oversized or closed-invoice splits", () => {
+    expect(() => validateAllocations(transfer, [], invoiceRows)).toThrow("no matches");
+    expect(() => validateAllocations(transfer, [{ invoiceId: 1, amount: 150_000 }], invoiceRows)).toThrow("exceed the transaction amount");
+    expect(() => validateAllocations(transfer, [{ invoiceId: 2, amount: 1_000 }], invoiceRows)).toThrow("INV-2026-00002 is paid");
+    expect(() => validateAllocations({ ...transfer, currency: "EUR" }, [{ invoiceId: 1, amount: 1_000 }], invoiceRows)).toThrow("is in USD");
+  });
+});
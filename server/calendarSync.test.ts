@@ -0,0 +1,393 @@
+/**
+ * Calendar Sync Tests
+ *
+ * Conflict resolution for two-way sync, iCalendar/multistatus parsing, the
+ * read-only CalDAV endpoint, and the CalDAV adapter against a local CalDAV
+ * stand-in.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { Obligation } from "../drizzle/schema";
+import { reconcileChange } from "./services/calendarSync";
+import { parseICalEvents } from "./services/icalendar";
+import { parseMultistatus } from "./services/caldavXml";
+import { buildCalDavCalendar, handleCalDavRequest } from "./services/caldavServer";
+import { CalDavCalendarAdapter, SyncTokenExpiredError, type CalendarChange } from "./services/calendarAdapter";
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+function makeObligation(overrides: Partial<Obligation>): Obligation {
+  return {
+    id: 1,
+    organizationId: 1,
+    title: "Obligation",
+    description: null,
+    obligationType: "REPORT_DEADLINE",
+    status: "OPEN",
+    priority: "MEDIUM",
+    startAt: null,
+    dueAt: null,
+    timezone: "UTC",
+    recurrenceRule: null,
+    createdAt: utc("2026-01-01T00:00:00"),
+    updatedAt: utc("2026-01-01T00:00:00"),
+    ...overrides
+  } as Obligation;
+}
+
+const moved = (start: Date): CalendarChange => ({
+  externalEventId: "evt-1",
+  deleted: false,
+  event: { title: "Obligation", start }
+});
+
+describe("reconcileChange", () => {
+  const base = utc("2026-11-01T09:00:00");
+  const later = utc("2026-11-08T09:00:00");
+  const earlier = utc("2026-10-25T09:00:00");
+
+  it("should do nothing when both sides agree", () => {
+    const action = reconcileChange({ syncedDueAt: base, localDueAt: later, change: moved(later), policy: "manual" });
+    expect(action).toEqual({ type: "none" });
+  });
+
+  it("should pull a due date changed only in the calendar", () => {
+    const action = reconcileChange({ syncedDueAt: base, localDueAt: base, change: moved(later), policy: "kiisha_wins" });
+    expect(action).toEqual({ type: "pull", dueAt: later });
+  });
+
+  it("should push when only KIISHA changed (an echo of our own update)", () => {
+    const action = reconcileChange({ syncedDueAt: base, localDueAt: later, change: moved(base), policy: "calendar_wins" });
+    expect(action).toEqual({ type: "push", recreate: false });
+  });
+
+  it("should apply the conflict policy when both sides changed", () => {
+    const input = { syncedDueAt: base, localDueAt: later, change: moved(earlier) };
+    expect(reconcileChange({ ...input, policy: "kiisha_wins" })).toEqual({ type: "push", recreate: false });
+    expect(reconcileChange({ ...input, policy: "calendar_wins" })).toEqual({ type: "pull", dueAt: earlier });
+    expect(reconcileChange({ ...input, policy: "manual" })).toEqual({
+      type: "conflict",
+      conflictType: "due_date",
+      externalDueAt: earlier
+    });
+  });
+
+  it("should treat a missing sync base as changed on both sides", () => {
+    const action = reconcileChange({ syncedDueAt: null, localDueAt: base, change: moved(later), policy: "manual" });
+    expect(action.type).toBe("conflict");
+  });
+
+  it("should handle events deleted in the calendar by policy", () => {
+    const change: CalendarChange = { externalEventId: "evt-1", deleted: true };
+    const input = { syncedDueAt: base, localDueAt: base, change };
+    expect(reconcileChange({ ...input, policy: "kiisha_wins" })).toEqual({ type: "push", recreate: true });
+    expect(reconcileChange({ ...input, policy: "calendar_wins" })).toEqual({ type: "unlink" });
+    expect(reconcileChange({ ...input, policy: "manual" })).toEqual({
+      type: "conflict",
+      conflictType: "deleted",
+      externalDueAt: null
+    });
+  });
+});
+
+describe("parseICalEvents", () => {
+  it("should parse folded lines, escaped text, timezones and skip overrides and alarms", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:obligation-7@kiisha.io",
+      "SUMMARY:Quarterly report\\, lender",
+      "DESCRIPTION:Line one\\nline two that is long enough to be folded across",
+      "  two physical lines",
+      "DTSTART;TZID=Africa/Lagos:20261105T090000",
+      "DTEND;TZID=Africa/Lagos:20261105T100000",
+      "RRULE:FREQ=MONTHLY",
+      "SEQUENCE:3",
+      "BEGIN:VALARM",
+      "DESCRIPTION:Alarm",
+      "END:VALARM",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:obligation-7@kiisha.io",
+      "RECURRENCE-ID:20261205T080000Z",
+      "DTSTART:20261206T080000Z",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:all-day",
+      "DTSTART;VALUE=DATE:20261224",
+      "END:VEVENT",
+      "END:VCALENDAR"
+    ].join("\r\n");
+
+    const [event, allDay, ...rest] = parseICalEvents(ics);
+    expect(rest).toHaveLength(0);
+    expect(event.uid).toBe("obligation-7@kiisha.io");
+    expect(event.summary).toBe("Quarterly report, lender");
+    expect(event.description).toBe("Line one\nline two that is long enough to be folded across two physical lines");
+    expect(event.start?.toISOString()).toBe("2026-11-05T08:00:00.000Z");
+    expect(event.sequence).toBe(3);
+    expect(event.recurrence).toEqual(["RRULE:FREQ=MONTHLY"]);
+    expect(allDay.allDay).toBe(true);
+    expect(allDay.start?.toISOString()).toBe("2026-12-24T00:00:00.000Z");
+  });
+});
+
+describe("parseMultistatus", () => {
+  it("should read hrefs, statuses, etags, calendar data and the sync token", () => {
+    const xml = `<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">
+  <d:response>
+    <d:href>/cal/a%20b.ics</d:href>
+    <d:propstat>
+      <d:prop><d:getetag>"e1"</d:getetag><cal:calendar-data>BEGIN:VCALENDAR&#13;
+SUMMARY:R&amp;D
+END:VCALENDAR</cal:calendar-data></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>/cal/gone.ics</d:href>
+    <d:status>HTTP/1.1 404 Not Found</d:status>
+  </d:response>
+  <d:sync-token>http://example.com/sync/42</d:sync-token>
+</d:multistatus>`;
+
+    const { responses, syncToken } = parseMultistatus(xml);
+    expect(responses).toHaveLength(2);
+    expect(responses[0]).toMatchObject({ href: "/cal/a%20b.ics", status: 200, etag: "\"e1\"" });
+    expect(responses[0].calendarData).toContain("SUMMARY:R&D");
+    expect(responses[1]).toMatchObject({ href: "/cal/gone.ics", status: 404 });
+    expect(syncToken).toBe("http://example.com/sync/42");
+  });
+});
+
+describe("handleCalDavRequest", () => {
+  const calendar = buildCalDavCalendar("/api/caldav", "My obligations", [
+    makeObligation({ id: 1, title: "Insurance renewal", dueAt: utc("2026-11-10T12:00:00") }),
+    makeObligation({ id: 2, title: "Lender report", dueAt: utc("2027-03-01T12:00:00") }),
+    makeObligation({
+      id: 3,
+      title: "Monthly inspection",
+      dueAt: utc("2026-01-15T09:00:00"),
+      recurrenceRule: "RRULE:FREQ=MONTHLY"
+    }),
+    makeObligation({ id: 4, title: "Undated" })
+  ]);
+  const collection = "/api/caldav/calendars/obligations/";
+
+  it("should advertise calendar access on OPTIONS", () => {
+    const response = handleCalDavRequest({ method: "OPTIONS", path: "/api/caldav/" }, calendar);
+    expect(response.status).toBe(200);
+    expect(response.headers.DAV).toContain("calendar-access");
+  });
+
+  it("should list the collection members on PROPFIND depth 1", () => {
+    const response = handleCalDavRequest({
+      method: "PROPFIND",
+      path: collection,
+      depth: "1",
+      body: `<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/"><d:prop><d:displayname/><cs:getctag/><d:getetag/></d:prop></d:propfind>`
+    }, calendar);
+
+    expect(response.status).toBe(207);
+    const { responses } = parseMultistatus(response.body);
+    expect(responses.map(r => r.href)).toEqual([
+      collection,
+      `${collection}obligation-1.ics`,
+      `${collection}obligation-2.ics`,
+      `${collection}obligation-3.ics`
+    ]);
+    expect(response.body).toContain("My obligations");
+    expect(response.body).toContain(calendar.ctag);
+  });
+
+  it("should filter calendar-query reports by time range, including recurring obligations", () => {
+    const response = handleCalDavRequest({
+      method: "REPORT",
+      path: collection,
+      depth: "1",
+      body: `<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">
+    <c:time-range start="20261101T000000Z" end="20261201T000000Z"/>
+  </c:comp-filter></c:comp-filter></c:filter>
+</c:calendar-query>`
+    }, calendar);
+
+    const { responses } = parseMultistatus(response.body);
+    expect(responses.map(r => r.href).sort()).toEqual([
+      `${collection}obligation-1.ics`,
+      `${collection}obligation-3.ics`
+    ]);
+    expect(responses.find(r => r.href.endsWith("obligation-1.ics"))?.calendarData).toContain("SUMMARY:Insurance renewal");
+  });
+
+  it("should return requested resources on calendar-multiget, with 404 for unknown ones", () => {
+    const response = handleCalDavRequest({
+      method: "REPORT",
+      path: collection,
+      body: `<c:calendar-multiget xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <d:href>${collection}obligation-2.ics</d:href>
+  <d:href>${collection}obligation-99.ics</d:href>
+</c:calendar-multiget>`
+    }, calendar);
+
+    const { responses } = parseMultistatus(response.body);
+    expect(responses).toHaveLength(2);
+    expect(responses[0]).toMatchObject({ href: `${collection}obligation-2.ics`, status: 200 });
+    expect(responses[0].calendarData).toContain("SUMMARY:Lender report");
+    expect(responses[1]).toMatchObject({ href: `${collection}obligation-99.ics`, status: 404 });
+  });
+
+  it("should serve single events on GET and reject writes", () => {
+    const get = handleCalDavRequest({ method: "GET", path: `${collection}obligation-1.ics` }, calendar);
+    expect(get.status).toBe(200);
+    expect(get.headers.ETag).toBe(calendar.resources[0].etag);
+    expect(parseICalEvents(get.body)[0].start?.toISOString()).toBe("2026-11-10T12:00:00.000Z");
+
+    expect(handleCalDavRequest({ method: "GET", path: `${collection}obligation-99.ics` }, calendar).status).toBe(404);
+    expect(handleCalDavRequest({ method: "PUT", path: `${collection}obligation-1.ics`, body: "x" }, calendar).status).toBe(403);
+    expect(handleCalDavRequest({ method: "DELETE", path: `${collection}obligation-1.ics` }, calendar).status).toBe(403);
+  });
+});
+
+/**
+ * A minimal CalDAV server: PUT/GET/DELETE of resources and a sync-collection
+ * REPORT that reports changes since a numbered sync token
+ */
+class CalDavStandIn {
+  private resources = new Map<string, { ics: string; etag: string; changedAt: number }>();
+  private tombstones = new Map<string, number>();
+  private revision = 0;
+  requests: { method: string; path: string; authorization: string | null }[] = [];
+
+  constructor(private collection: string) {}
+
+  get token() {
+    return `http://caldav.test/sync/${this.revision}`;
+  }
+
+  editEvent(path: string, edit: (ics: string) => string) {
+    const resource = this.resources.get(path)!;
+    this.revision++;
+    this.resources.set(path, { ics: edit(resource.ics), etag: `"${this.revision}"`, changedAt: this.revision });
+  }
+
+  removeEvent(path: string) {
+    this.revision++;
+    this.resources.delete(path);
+    this.tombstones.set(path, this.revision);
+  }
+
+  fetch = async (input: string | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(input.toString());
+    const method = init.method ?? "GET";
+    const headers = new Headers(init.headers);
+    this.requests.push({ method, path: url.pathname, authorization: headers.get("authorization") });
+    const body = typeof init.body === "string" ? init.body : "";
+
+    if (method === "PUT") {
+      if (headers.get("if-none-match") === "*" && this.resources.has(url.pathname)) {
+        return new Response("", { status: 412 });
+      }
+      this.revision++;
+      this.resources.set(url.pathname, { ics: body, etag: `"${this.revision}"`, changedAt: this.revision });
+      this.tombstones.delete(url.pathname);
+      return new Response("", { status: 201, headers: { ETag: `"${this.revision}"` } });
+    }
+    if (method === "GET") {
+      const resource = this.resources.get(url.pathname);
+      return resource
+        ? new Response(resource.ics, { status: 200, headers: { ETag: resource.etag } })
+        : new Response("", { status: 404 });
+    }
+    if (method === "DELETE") {
+      if (!this.resources.has(url.pathname)) return new Response("", { status: 404 });
+      this.removeEvent(url.pathname);
+      return new Response(null, { status: 204 });
+    }
+    if (method === "REPORT" && url.pathname === this.collection) {
+      const token = body.match(/<D:sync-token>([^<]*)<\/D:sync-token>/)?.[1] ?? "";
+      const since = token ? Number(token.split("/").pop()) : 0;
+      if (token && (!token.startsWith("http://caldav.test/sync/") || since > this.revision)) {
+        return new Response("<D:error xmlns:D=\"DAV:\"><D:valid-sync-token/></D:error>", { status: 403 });
+      }
+
+      const changed = Array.from(this.resources.entries())
+        .filter(([, r]) => r.changedAt > since)
+        .map(([path, r]) => `<D:response><D:href>${path}</D:href><D:propstat><D:prop><D:getetag>${r.etag}</D:getetag><C:calendar-data>${r.ics.replace(/&/g, "&amp;").replace(/</g, "&lt;")}</C:calendar-data></D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>`);
+      const removed = since === 0 ? [] : Array.from(this.tombstones.entries())
+        .filter(([, at]) => at > since)
+        .map(([path]) => `<D:response><D:href>${path}</D:href><D:status>HTTP/1.1 404 Not Found</D:status></D:response>`);
+
+      return new Response(
+        `<?xml version="1.0"?><D:multistatus xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">${changed.join("")}${removed.join("")}<D:sync-token>${this.token}</D:sync-token></D:multistatus>`,
+        { status: 207, headers: { "Content-Type": "application/xml" } }
+      );
+    }
+    return new Response("", { status: 405 });
+  };
+}
+
+describe("CalDavCalendarAdapter", () => {
+  const collectionUrl = "http://caldav.test/calendars/alice/work/";
+  let server: CalDavStandIn;
+  let adapter: CalDavCalendarAdapter;
+
+  beforeEach(() => {
+    server = new CalDavStandIn("/calendars/alice/work/");
+    vi.stubGlobal("fetch", server.fetch);
+    adapter = new CalDavCalendarAdapter({ accessToken: "app-password", username: "alice", calendarId: collectionUrl });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should create, read, update and delete events with basic auth", async () => {
+    const eventId = await adapter.createEvent({
+      title: "Lender report; Q4",
+      start: utc("2026-12-01T09:00:00"),
+      extendedProperties: { kiishaObligationId: "12" }
+    });
+    expect(eventId).toMatch(/^\/calendars\/alice\/work\/obligation-12-.+\.ics$/);
+    expect(server.requests[0].authorization).toBe(`Basic ${Buffer.from("alice:app-password").toString("base64")}`);
+
+    const created = await adapter.getEvent(eventId);
+    expect(created?.title).toBe("Lender report; Q4");
+    expect(created?.start.toISOString()).toBe("2026-12-01T09:00:00.000Z");
+
+    await adapter.updateEvent(eventId, { title: "Lender report; Q4", start: utc("2026-12-03T09:00:00") });
+    expect((await adapter.getEvent(eventId))?.start.toISOString()).toBe("2026-12-03T09:00:00.000Z");
+
+    await adapter.deleteEvent(eventId);
+    expect(await adapter.getEvent(eventId)).toBeNull();
+  });
+
+  it("should report incremental changes and deletions since a sync token", async () => {
+    const first = await adapter.createEvent({ title: "Insurance renewal", start: utc("2026-11-10T12:00:00") });
+    const second = await adapter.createEvent({ title: "Permit filing", start: utc("2026-11-20T12:00:00") });
+
+    const initial = await adapter.listChanges(null);
+    expect(initial.changes.map(c => c.externalEventId).sort()).toEqual([first, second].sort());
+
+    server.editEvent(first, ics => ics.replace(/DTSTART:\d{8}T\d{6}Z/, "DTSTART:20261117T120000Z"));
+    server.removeEvent(second);
+
+    const delta = await adapter.listChanges(initial.nextSyncToken);
+    expect(delta.changes).toHaveLength(2);
+    const rescheduled = delta.changes.find(c => c.externalEventId === first);
+    expect(rescheduled?.deleted).toBe(false);
+    expect(rescheduled?.event?.start.toISOString()).toBe("2026-11-17T12:00:00.000Z");
+    expect(delta.changes.find(c => c.externalEventId === second)?.deleted).toBe(true);
+    expect(delta.nextSyncToken).toBe(server.token);
+
+    const unchanged = await adapter.listChanges(delta.nextSyncToken);
+    expect(unchanged.changes).toHaveLength(0);
+  });
+
+  it("should signal an invalid sync token so the caller can resync", async () => {
+    await expect(adapter.listChanges("http://caldav.test/sync/999")).rejects.toBeInstanceOf(SyncTokenExpiredError);
+  });
+});
@@ -5,6 +5,7 @@
  * - Modbus TCP client
  * - Register reading (holding, input, coil, discrete)
  * - Data type conversion (int16, uint16, int32, float32)
+ * - Word order / byte order handling for multi-register values
  * - Connection pooling
  * - Retry logic with exponential backoff
  */
@@ -23,6 +24,7 @@ export interface ModbusConfig {
   timeout?: number;
   retries?: number;
   retryDelay?: number;
+  autoReconnect?: boolean; // default true; pollers that manage their own backoff disable it
 }
 
 export interface ModbusRegister {
@@ -34,8 +36,19 @@ export interface ModbusRegister {
   offset?: number;
   name: string;
   unit?: string;
+  // Multi-register layout. Modbus is big-endian by default; many devices
+  // (e.g. some meters) send the low word first.
+  wordOrder?: 'big' | 'little';
+  byteOrder?: 'big' | 'little';
+  // Key of another register in the same map holding a power-of-ten
+  // exponent (SunSpec style): value * 10^sf
+  scaleFactorRegister?: string;
+  // metricDefinitions.code the value is stored under
+  metricCode?: string;
 }
 
+export type ModbusRegisterMap = Record<string, ModbusRegister>;
+
 export interface ModbusReadResult {
   register: ModbusRegister;
   rawValue: number[];
@@ -93,7 +106,8 @@ export class ModbusTcpClient extends EventEmitter {
       unitId: config.unitId,
       timeout: config.timeout || 5000,
       retries: config.retries || 3,
-      retryDelay: config.retryDelay || 1000
+      retryDelay: config.retryDelay || 1000,
+      autoReconnect: config.autoReconnect !== false
     };
   }
 
@@ -129,10 +143,12 @@ export class ModbusTcpClient extends EventEmitter {
         reject(error);
       });
 
+      const socket = this.socket;
       this.socket.on('close', () => {
         this.status.connected = false;
         this.emit('disconnected');
-        this.scheduleReconnect();
+        // Only reconnect if this socket wasn't closed deliberately via disconnect()
+        if (this.socket === socket && this.config.autoReconnect) this.scheduleReconnect();
       });
 
       this.socket.connect(this.config.port, this.config.host);
@@ -198,7 +214,12 @@ export class ModbusTcpClient extends EventEmitter {
       if (request) {
         clearTimeout(request.timeout);
         this.pendingRequests.delete(transactionId);
-        request.resolve(frame);
+        // Exception responses set the high bit of the function code
+        if (frame.length >= 9 && (frame[7] & 0x80) !== 0) {
+          request.reject(new Error(`Modbus exception ${frame[8]} for function ${frame[7] & 0x7f}`));
+        } else {
+          request.resolve(frame);
+        }
       }
     }
   }
@@ -360,42 +381,7 @@ export class ModbusTcpClient extends EventEmitter {
   }
 
   private convertValue(rawValues: number[], register: ModbusRegister): number | string {
-    let value: number;
-    const buffer = Buffer.alloc(rawValues.length * 2);
-    
-    for (let i = 0; i < rawValues.length; i++) {
-      buffer.writeUInt16BE(rawValues[i], i * 2);
-    }
-
-    switch (register.dataType) {
-      case 'int16':
-        value = buffer.readInt16BE(0);
-        break;
-      case 'uint16':
-        value = buffer.readUInt16BE(0);
-        break;
-      case 'int32':
-        value = buffer.readInt32BE(0);
-        break;
-      case 'uint32':
-        value = buffer.readUInt32BE(0);
-        break;
-      case 'float32':
-        value = buffer.readFloatBE(0);
-        break;
-      case 'float64':
-        value = buffer.readDoubleBE(0);
-        break;
-      case 'string':
-        return buffer.toString('ascii').replace(/\0/g, '').trim();
-      default:
-        value = rawValues[0];
-    }
-
-    if (register.scale) value *= register.scale;
-    if (register.offset) value += register.offset;
-
-    return value;
+    return decodeRegisterValues(rawValues, register);
   }
 
   async readMultipleRegisters(registers: ModbusRegister[]): Promise<ModbusReadResult[]> {
@@ -414,6 +400,67 @@ export class ModbusTcpClient extends EventEmitter {
   }
 }
 
+// ============================================================================
+// Value Decoding
+// ============================================================================
+
+/**
+ * Decode raw 16-bit register words into a typed value, honouring word and
+ * byte order, then apply static scale and offset.
+ */
+export function decodeRegisterValues(rawValues: number[], register: ModbusRegister): number | string {
+  const words = register.wordOrder === 'little' ? [...rawValues].reverse() : rawValues;
+  const buffer = Buffer.alloc(words.length * 2);
+
+  for (let i = 0; i < words.length; i++) {
+    if (register.byteOrder === 'little') {
+      buffer.writeUInt16LE(words[i], i * 2);
+    } else {
+      buffer.writeUInt16BE(words[i], i * 2);
+    }
+  }
+
+  let value: number;
+  switch (register.dataType) {
+    case 'int16':
+      value = buffer.readInt16BE(0);
+      break;
+    case 'uint16':
+      value = buffer.readUInt16BE(0);
+      break;
+    case 'int32':
+      value = buffer.readInt32BE(0);
+      break;
+    case 'uint32':
+      value = buffer.readUInt32BE(0);
+      break;
+    case 'float32':
+      value = buffer.readFloatBE(0);
+      break;
+    case 'float64':
+      value = buffer.readDoubleBE(0);
+      break;
+    case 'string':
+      return buffer.toString('ascii').replace(/\0/g, '').trim();
+    default:
+      value = rawValues[0];
+  }
+
+  if (register.scale) value *= register.scale;
+  if (register.offset) value += register.offset;
+
+  return value;
+}
+
+/**
+ * Apply a SunSpec-style scale factor (power-of-ten exponent)
+ */
+export function applyScaleFactor(value: number, scaleFactor: number): number {
+  // -32768 is the SunSpec "not implemented" marker for sunssf
+  if (scaleFactor === -32768) return value;
+  return value * Math.pow(10, scaleFactor);
+}
+
 // ============================================================================
 // Common Solar Inverter Register Maps
 // ============================================================================
@@ -460,6 +507,12 @@ export const INVERTER_REGISTER_MAPS = {
   }
 };
 
+export type BuiltInRegisterMapName = keyof typeof INVERTER_REGISTER_MAPS;
+
+export function isBuiltInRegisterMap(name: string): name is BuiltInRegisterMapName {
+  return name in INVERTER_REGISTER_MAPS;
+}
+
 export function createModbusClient(config: ModbusConfig): ModbusTcpClient {
   return new ModbusTcpClient(config);
 }
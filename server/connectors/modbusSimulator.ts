@@ -0,0 +1,161 @@
+/**
+ * Modbus TCP Simulator
+ *
+ * Minimal in-process Modbus TCP server for tests and local development:
+ * - Function codes 1-4 (reads), 6 and 16 (writes)
+ * - Sparse holding/input register banks, coils and discrete inputs
+ * - Exception responses for unmapped addresses (code 0x02)
+ * - Optional per-unit banks so several devices can share one port
+ */
+
+import { createServer, Server, Socket } from 'net';
+import { AddressInfo } from 'net';
+
+export interface SimulatorBank {
+  holding: Map<number, number>;
+  input: Map<number, number>;
+  coils: Map<number, boolean>;
+  discrete: Map<number, boolean>;
+}
+
+const EXCEPTION_ILLEGAL_FUNCTION = 0x01;
+const EXCEPTION_ILLEGAL_ADDRESS = 0x02;
+
+export class ModbusTcpSimulator {
+  private server: Server | null = null;
+  private sockets = new Set<Socket>();
+  private banks = new Map<number, SimulatorBank>();
+  // When true every request is dropped, simulating an unreachable device
+  offline = false;
+  requestCount = 0;
+
+  getBank(unitId = 1): SimulatorBank {
+    let bank = this.banks.get(unitId);
+    if (!bank) {
+      bank = { holding: new Map(), input: new Map(), coils: new Map(), discrete: new Map() };
+      this.banks.set(unitId, bank);
+    }
+    return bank;
+  }
+
+  setHoldingRegisters(address: number, values: number[], unitId = 1): void {
+    const bank = this.getBank(unitId);
+    values.forEach((v, i) => bank.holding.set(address + i, v & 0xffff));
+  }
+
+  setInputRegisters(address: number, values: number[], unitId = 1): void {
+    const bank = this.getBank(unitId);
+    values.forEach((v, i) => bank.input.set(address + i, v & 0xffff));
+  }
+
+  setCoils(address: number, values: boolean[], unitId = 1): void {
+    const bank = this.getBank(unitId);
+    values.forEach((v, i) => bank.coils.set(address + i, v));
+  }
+
+  /** Write an ASCII string into consecutive holding registers (2 chars per register) */
+  setString(address: number, value: string, lengthRegisters: number, unitId = 1): void {
+    const buf = Buffer.alloc(lengthRegisters * 2);
+    buf.write(value.substring(0, lengthRegisters * 2), 'ascii');
+    const words: number[] = [];
+    for (let i = 0; i < lengthRegisters; i++) words.push(buf.readUInt16BE(i * 2));
+    this.setHoldingRegisters(address, words, unitId);
+  }
+
+  async start(port = 0, host = '127.0.0.1'): Promise<number> {
+    this.server = createServer((socket) => {
+      this.sockets.add(socket);
+      let buffer = Buffer.alloc(0);
+      socket.on('data', (data) => {
+        buffer = Buffer.concat([buffer, data]);
+        while (buffer.length >= 6) {
+          const length = buffer.readUInt16BE(4);
+          if (buffer.length < 6 + length) break;
+          const frame = buffer.subarray(0, 6 + length);
+          buffer = buffer.subarray(6 + length);
+          this.requestCount++;
+          if (this.offline) continue;
+          const response = this.handleFrame(frame);
+          if (response) socket.write(response);
+        }
+      });
+      socket.on('close', () => this.sockets.delete(socket));
+      socket.on('error', () => this.sockets.delete(socket));
+    });
+
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve((this.server!.address() as AddressInfo).port));
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of Array.from(this.sockets)) socket.destroy();
+    this.sockets.clear();
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private handleFrame(frame: Buffer): Buffer | null {
+    const transactionId = frame.readUInt16BE(0);
+    const unitId = frame.readUInt8(6);
+    const functionCode = frame.readUInt8(7);
+    const bank = this.getBank(unitId);
+
+    const reply = (pdu: Buffer) => {
+      const header = Buffer.alloc(7);
+      header.writeUInt16BE(transactionId, 0);
+      header.writeUInt16BE(0, 2);
+      header.writeUInt16BE(pdu.length + 1, 4);
+      header.writeUInt8(unitId, 6);
+      return Buffer.concat([header, pdu]);
+    };
+    const exception = (code: number) => reply(Buffer.from([functionCode | 0x80, code]));
+
+    switch (functionCode) {
+      case 0x01:
+      case 0x02: {
+        const address = frame.readUInt16BE(8);
+        const count = frame.readUInt16BE(10);
+        const source = functionCode === 0x01 ? bank.coils : bank.discrete;
+        const bytes = Buffer.alloc(Math.ceil(count / 8));
+        for (let i = 0; i < count; i++) {
+          if (!source.has(address + i)) return exception(EXCEPTION_ILLEGAL_ADDRESS);
+          if (source.get(address + i)) bytes[Math.floor(i / 8)] |= 1 << (i % 8);
+        }
+        return reply(Buffer.concat([Buffer.from([functionCode, bytes.length]), bytes]));
+      }
+      case 0x03:
+      case 0x04: {
+        const address = frame.readUInt16BE(8);
+        const count = frame.readUInt16BE(10);
+        const source = functionCode === 0x03 ? bank.holding : bank.input;
+        const data = Buffer.alloc(count * 2);
+        for (let i = 0; i < count; i++) {
+          const value = source.get(address + i);
+          if (value === undefined) return exception(EXCEPTION_ILLEGAL_ADDRESS);
+          data.writeUInt16BE(value, i * 2);
+        }
+        return reply(Buffer.concat([Buffer.from([functionCode, data.length]), data]));
+      }
+      case 0x06: {
+        const address = frame.readUInt16BE(8);
+        bank.holding.set(address, frame.readUInt16BE(10));
+        return reply(frame.subarray(7, 12));
+      }
+      case 0x10: {
+        const address = frame.readUInt16BE(8);
+        const count = frame.readUInt16BE(10);
+        for (let i = 0; i < count; i++) bank.holding.set(address + i, frame.readUInt16BE(13 + i * 2));
+        return reply(frame.subarray(7, 12));
+      }
+      default:
+        return exception(EXCEPTION_ILLEGAL_FUNCTION);
+    }
+  }
+}
+
+export function createModbusSimulator(): ModbusTcpSimulator {
+  return new ModbusTcpSimulator();
+}
@@ -5,12 +5,19 @@
  * - MQTT 3.1.1 and 5.0 support
  * - TLS/SSL encryption
  * - Topic subscription with wildcards
- * - Message parsing (JSON, Sparkplug B)
+ * - Message parsing (JSON, Sparkplug B protobuf)
+ * - Sparkplug B session tracking with automatic rebirth requests
  * - Auto-reconnect with backoff
  */
 
 import mqtt, { MqttClient, IClientOptions, IClientPublishOptions } from 'mqtt';
 import { EventEmitter } from 'events';
+import {
+  SparkplugStateTracker,
+  buildRebirthCommand,
+  buildSparkplugTopic,
+  decodeSparkplugPayload,
+} from './sparkplug';
 
 // Types
 export interface MqttConfig {
@@ -53,6 +60,8 @@ export interface SparkplugBPayload {
   timestamp: number;
   metrics: SparkplugMetric[];
   seq?: number;
+  uuid?: string;
+  body?: Buffer;
 }
 
 export interface SparkplugMetric {
@@ -61,6 +70,8 @@ export interface SparkplugMetric {
   timestamp?: number;
   dataType: string;
   value: any;
+  isHistorical?: boolean;
+  isNull?: boolean;
 }
 
 export interface ParsedTelemetry {
@@ -302,23 +313,39 @@ export class MqttClientWrapper extends EventEmitter {
 
   parseSparkplugB(payload: Buffer): SparkplugBPayload | null {
     try {
-      const data = JSON.parse(payload.toString('utf-8'));
-      return {
-        timestamp: data.timestamp || Date.now(),
-        metrics: (data.metrics || []).map((m: any) => ({
-          name: m.name,
-          alias: m.alias,
-          timestamp: m.timestamp,
-          dataType: m.dataType || 'Unknown',
-          value: m.value
-        })),
-        seq: data.seq
-      };
+      return decodeSparkplugPayload(payload);
     } catch {
       return null;
     }
   }
 
+  /**
+   * Ask an edge node to republish its NBIRTH and DBIRTHs
+   */
+  async requestRebirth(groupId: string, edgeNodeId: string): Promise<void> {
+    await this.publish({
+      topic: buildSparkplugTopic(groupId, 'NCMD', edgeNodeId),
+      payload: buildRebirthCommand(),
+      qos: 0
+    });
+  }
+
+  /**
+   * Route all Sparkplug B traffic through a state tracker and answer its
+   * rebirth requests with NCMD Node Control/Rebirth.
+   */
+  async attachSparkplugTracker(tracker: SparkplugStateTracker, groupId = '+'): Promise<void> {
+    const pattern = `spBv1.0/${groupId}/#`;
+    tracker.on('rebirth', ({ groupId, edgeNodeId, reason }) => {
+      console.log(`[MQTT] Requesting Sparkplug rebirth from ${groupId}/${edgeNodeId} (${reason})`);
+      this.requestRebirth(groupId, edgeNodeId).catch(error =>
+        console.error(`[MQTT] Rebirth request to ${groupId}/${edgeNodeId} failed:`, error)
+      );
+    });
+    this.onMessage(pattern, (topic, payload) => tracker.handleMessage(topic, payload));
+    await this.subscribe(pattern, 0);
+  }
+
   parseTelemetry(topic: string, payload: Buffer): ParsedTelemetry | null {
     const topicParts = topic.split('/');
     const deviceId = topicParts.find(p => p.match(/^[A-Za-z0-9_-]+$/)) || 'unknown';
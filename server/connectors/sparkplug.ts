@@ -0,0 +1,652 @@
+/**
+ * Sparkplug B Support
+ *
+ * Eclipse Sparkplug B (spBv1.0) for MQTT edge gateways:
+ * - Protobuf payload decoding/encoding (Tahu Payload schema, no codegen)
+ * - Topic parsing for NBIRTH/NDEATH/DBIRTH/DDEATH/NDATA/DDATA/NCMD/DCMD
+ * - Birth certificate alias -> metric name resolution
+ * - bdSeq/seq tracking with rebirth requests on gaps or unknown aliases
+ * - Edge node and device online state
+ */
+
+import { EventEmitter } from 'events';
+import type { SparkplugBPayload, SparkplugMetric } from './mqtt';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SparkplugMessageType =
+  | 'NBIRTH' | 'NDEATH' | 'DBIRTH' | 'DDEATH'
+  | 'NDATA' | 'DDATA' | 'NCMD' | 'DCMD' | 'STATE';
+
+export interface SparkplugTopic {
+  namespace: string;
+  groupId: string;
+  messageType: SparkplugMessageType;
+  edgeNodeId: string;
+  deviceId?: string;
+}
+
+export interface SparkplugResolvedMetric {
+  name: string;
+  alias?: number;
+  dataType: string;
+  value: number | string | boolean | Buffer | null;
+  timestamp: Date;
+  isHistorical?: boolean;
+}
+
+export interface SparkplugDeviceState {
+  deviceId: string;
+  online: boolean;
+  birthAt?: Date;
+  deathAt?: Date;
+  lastMessageAt?: Date;
+  metrics: Map<string, { alias?: number; dataType: string }>;
+}
+
+export interface SparkplugNodeState {
+  groupId: string;
+  edgeNodeId: string;
+  online: boolean;
+  bdSeq?: number;
+  lastSeq?: number;
+  birthAt?: Date;
+  deathAt?: Date;
+  lastMessageAt?: Date;
+  lastRebirthRequestAt?: Date;
+  metrics: Map<string, { alias?: number; dataType: string }>;
+  // Aliases are unique per edge node, across the node and its devices
+  aliases: Map<number, string>;
+  devices: Map<string, SparkplugDeviceState>;
+}
+
+export type SparkplugRebirthReason = 'sequence_gap' | 'unknown_alias' | 'no_birth' | 'device_not_born';
+
+export interface SparkplugMessageResult {
+  topic: SparkplugTopic;
+  seq?: number;
+  metrics: SparkplugResolvedMetric[];
+  rebirthReason?: SparkplugRebirthReason;
+}
+
+export interface SparkplugTrackerOptions {
+  // Minimum time between rebirth requests to the same node
+  rebirthCooldownMs?: number;
+}
+
+// ============================================================================
+// Data Types
+// ============================================================================
+
+export const SPARKPLUG_DATA_TYPES: Record<number, string> = {
+  0: 'Unknown',
+  1: 'Int8', 2: 'Int16', 3: 'Int32', 4: 'Int64',
+  5: 'UInt8', 6: 'UInt16', 7: 'UInt32', 8: 'UInt64',
+  9: 'Float', 10: 'Double', 11: 'Boolean', 12: 'String',
+  13: 'DateTime', 14: 'Text', 15: 'UUID', 16: 'DataSet',
+  17: 'Bytes', 18: 'File', 19: 'Template',
+};
+
+const DATA_TYPE_CODES: Record<string, number> = Object.fromEntries(
+  Object.entries(SPARKPLUG_DATA_TYPES).map(([code, name]) => [name, Number(code)])
+);
+
+// Metrics that carry session/control state rather than telemetry
+export function isSparkplugControlMetric(name: string): boolean {
+  return name === 'bdSeq' || name.startsWith('Node Control/') || name.startsWith('Device Control/') || name.startsWith('Properties/');
+}
+
+// ============================================================================
+// Protobuf Wire Format
+// ============================================================================
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+// BigInt constants (no bigint literals at the project's compile target)
+const BIG_0 = BigInt(0);
+const BIG_7 = BigInt(7);
+const BIG_63 = BigInt(63);
+const BIG_0x7F = BigInt(0x7f);
+
+class ProtoReader {
+  pos = 0;
+  constructor(private buf: Buffer) {}
+
+  get done(): boolean {
+    return this.pos >= this.buf.length;
+  }
+
+  varint(): bigint {
+    let result = BIG_0;
+    let shift = BIG_0;
+    while (true) {
+      if (this.pos >= this.buf.length) throw new Error('Truncated varint');
+      const byte = this.buf[this.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += BIG_7;
+      if (shift > BIG_63) throw new Error('Varint too long');
+    }
+  }
+
+  uint32(): number {
+    return Number(BigInt.asUintN(32, this.varint()));
+  }
+
+  bytes(): Buffer {
+    const length = this.uint32();
+    if (this.pos + length > this.buf.length) throw new Error('Truncated field');
+    const value = this.buf.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return value;
+  }
+
+  float(): number {
+    const value = this.buf.readFloatLE(this.pos);
+    this.pos += 4;
+    return value;
+  }
+
+  double(): number {
+    const value = this.buf.readDoubleLE(this.pos);
+    this.pos += 8;
+    return value;
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT: this.varint(); break;
+      case WIRE_FIXED64: this.pos += 8; break;
+      case WIRE_LENGTH_DELIMITED: this.bytes(); break;
+      case WIRE_FIXED32: this.pos += 4; break;
+      default: throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+}
+
+class ProtoWriter {
+  private chunks: Buffer[] = [];
+
+  varint(value: bigint | number): this {
+    let v = BigInt.asUintN(64, BigInt(value));
+    const bytes: number[] = [];
+    do {
+      let byte = Number(v & BIG_0x7F);
+      v >>= BIG_7;
+      if (v > BIG_0) byte |= 0x80;
+      bytes.push(byte);
+    } while (v > BIG_0);
+    this.chunks.push(Buffer.from(bytes));
+    return this;
+  }
+
+  tag(field: number, wireType: number): this {
+    return this.varint((field << 3) | wireType);
+  }
+
+  bytes(field: number, value: Buffer): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED).varint(value.length);
+    this.chunks.push(value);
+    return this;
+  }
+
+  string(field: number, value: string): this {
+    return this.bytes(field, Buffer.from(value, 'utf-8'));
+  }
+
+  uint(field: number, value: bigint | number): this {
+    return this.tag(field, WIRE_VARINT).varint(value);
+  }
+
+  float(field: number, value: number): this {
+    const buf = Buffer.alloc(4);
+    buf.writeFloatLE(value);
+    this.tag(field, WIRE_FIXED32);
+    this.chunks.push(buf);
+    return this;
+  }
+
+  double(field: number, value: number): this {
+    const buf = Buffer.alloc(8);
+    buf.writeDoubleLE(value);
+    this.tag(field, WIRE_FIXED64);
+    this.chunks.push(buf);
+    return this;
+  }
+
+  finish(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+// ============================================================================
+// Payload Codec
+// ============================================================================
+
+function decodeMetric(buf: Buffer): SparkplugMetric {
+  const reader = new ProtoReader(buf);
+  let name = '';
+  let alias: number | undefined;
+  let timestamp: number | undefined;
+  let datatype = 0;
+  let isNull = false;
+  let isHistorical = false;
+  let intValue: number | undefined;
+  let longValue: bigint | undefined;
+  let value: any = null;
+
+  while (!reader.done) {
+    const key = reader.uint32();
+    const field = key >>> 3;
+    const wireType = key & 0x7;
+    switch (field) {
+      case 1: name = reader.bytes().toString('utf-8'); break;
+      case 2: alias = Number(reader.varint()); break;
+      case 3: timestamp = Number(reader.varint()); break;
+      case 4: datatype = reader.uint32(); break;
+      case 5: isHistorical = reader.varint() !== BIG_0; break;
+      case 7: isNull = reader.varint() !== BIG_0; break;
+      case 10: intValue = reader.uint32(); break;
+      case 11: longValue = reader.varint(); break;
+      case 12: value = reader.float(); break;
+      case 13: value = reader.double(); break;
+      case 14: value = reader.varint() !== BIG_0; break;
+      case 15: value = reader.bytes().toString('utf-8'); break;
+      case 16: value = Buffer.from(reader.bytes()); break;
+      default: reader.skip(wireType);
+    }
+  }
+
+  // Signed types are carried as two's complement in the unsigned fields
+  if (intValue !== undefined) {
+    switch (datatype) {
+      case 1: value = (intValue << 24) >> 24; break;
+      case 2: value = (intValue << 16) >> 16; break;
+      case 3: value = intValue | 0; break;
+      default: value = intValue >>> 0;
+    }
+  }
+  if (longValue !== undefined) {
+    value = datatype === 4 ? Number(BigInt.asIntN(64, longValue)) : Number(longValue);
+  }
+
+  return {
+    name,
+    alias,
+    timestamp,
+    dataType: SPARKPLUG_DATA_TYPES[datatype] || 'Unknown',
+    value: isNull ? null : value,
+    isNull,
+    isHistorical,
+  };
+}
+
+/**
+ * Decode a Sparkplug B protobuf payload. Throws on malformed input.
+ */
+export function decodeSparkplugPayload(buf: Buffer): SparkplugBPayload {
+  const reader = new ProtoReader(buf);
+  const payload: SparkplugBPayload = { timestamp: 0, metrics: [] };
+
+  while (!reader.done) {
+    const key = reader.uint32();
+    const field = key >>> 3;
+    const wireType = key & 0x7;
+    switch (field) {
+      case 1: payload.timestamp = Number(reader.varint()); break;
+      case 2: payload.metrics.push(decodeMetric(reader.bytes())); break;
+      case 3: payload.seq = Number(reader.varint()); break;
+      case 4: payload.uuid = reader.bytes().toString('utf-8'); break;
+      case 5: payload.body = Buffer.from(reader.bytes()); break;
+      default: reader.skip(wireType);
+    }
+  }
+
+  return payload;
+}
+
+function encodeMetric(metric: SparkplugMetric): Buffer {
+  const writer = new ProtoWriter();
+  const datatype = DATA_TYPE_CODES[metric.dataType] ?? 0;
+
+  if (metric.name) writer.string(1, metric.name);
+  if (metric.alias !== undefined) writer.uint(2, metric.alias);
+  if (metric.timestamp !== undefined) writer.uint(3, metric.timestamp);
+  writer.uint(4, datatype);
+
+  const value = metric.value;
+  if (value === null || value === undefined) {
+    writer.uint(7, 1);
+    return writer.finish();
+  }
+
+  switch (datatype) {
+    case 1: case 2: case 3: case 5: case 6: case 7:
+      writer.uint(10, Number(value) >>> 0);
+      break;
+    case 4: case 8: case 13:
+      writer.uint(11, BigInt.asUintN(64, BigInt(Math.trunc(Number(value)))));
+      break;
+    case 9:
+      writer.float(12, Number(value));
+      break;
+    case 10:
+      writer.double(13, Number(value));
+      break;
+    case 11:
+      writer.uint(14, value ? 1 : 0);
+      break;
+    case 12: case 14: case 15:
+      writer.string(15, String(value));
+      break;
+    case 17: case 18:
+      writer.bytes(16, Buffer.isBuffer(value) ? value : Buffer.from(String(value)));
+      break;
+  }
+
+  return writer.finish();
+}
+
+/**
+ * Encode a Sparkplug B payload (used for NCMD/DCMD and tests)
+ */
+export function encodeSparkplugPayload(payload: SparkplugBPayload): Buffer {
+  const writer = new ProtoWriter();
+  if (payload.timestamp) writer.uint(1, payload.timestamp);
+  for (const metric of payload.metrics) writer.bytes(2, encodeMetric(metric));
+  if (payload.seq !== undefined) writer.uint(3, payload.seq);
+  if (payload.uuid) writer.string(4, payload.uuid);
+  if (payload.body) writer.bytes(5, payload.body);
+  return writer.finish();
+}
+
+// ============================================================================
+// Topics
+// ============================================================================
+
+export const SPARKPLUG_NAMESPACE = 'spBv1.0';
+
+/**
+ * spBv1.0/{group}/{type}/{edgeNode}[/{device}]
+ */
+export function parseSparkplugTopic(topic: string): SparkplugTopic | null {
+  const parts = topic.split('/');
+  if (parts[0] !== SPARKPLUG_NAMESPACE) return null;
+
+  if (parts[1] === 'STATE') {
+    return { namespace: parts[0], groupId: '', messageType: 'STATE', edgeNodeId: parts[2] || '' };
+  }
+  if (parts.length < 4) return null;
+
+  const messageType = parts[2] as SparkplugMessageType;
+  if (!['NBIRTH', 'NDEATH', 'DBIRTH', 'DDEATH', 'NDATA', 'DDATA', 'NCMD', 'DCMD'].includes(messageType)) return null;
+
+  const isDeviceMessage = messageType.startsWith('D');
+  if (isDeviceMessage && parts.length < 5) return null;
+
+  return {
+    namespace: parts[0],
+    groupId: parts[1],
+    messageType,
+    edgeNodeId: parts[3],
+    deviceId: isDeviceMessage ? parts.slice(4).join('/') : undefined,
+  };
+}
+
+export function buildSparkplugTopic(groupId: string, messageType: SparkplugMessageType, edgeNodeId: string, deviceId?: string): string {
+  return [SPARKPLUG_NAMESPACE, groupId, messageType, edgeNodeId, deviceId].filter(Boolean).join('/');
+}
+
+/**
+ * NCMD payload asking an edge node to republish all birth certificates
+ */
+export function buildRebirthCommand(): Buffer {
+  return encodeSparkplugPayload({
+    timestamp: Date.now(),
+    metrics: [{ name: 'Node Control/Rebirth', dataType: 'Boolean', value: true }],
+  });
+}
+
+// ============================================================================
+// State Tracker
+// ============================================================================
+
+/**
+ * Tracks edge node sessions from the Sparkplug message stream.
+ *
+ * Events:
+ * - 'metrics' (result: SparkplugMessageResult) for births and data
+ * - 'online' / 'offline' ({ groupId, edgeNodeId, deviceId? })
+ * - 'rebirth' ({ groupId, edgeNodeId, reason })
+ */
+export class SparkplugStateTracker extends EventEmitter {
+  private nodes = new Map<string, SparkplugNodeState>();
+  private rebirthCooldownMs: number;
+
+  constructor(options: SparkplugTrackerOptions = {}) {
+    super();
+    this.rebirthCooldownMs = options.rebirthCooldownMs ?? 5000;
+  }
+
+  getNodeState(groupId: string, edgeNodeId: string): SparkplugNodeState | undefined {
+    return this.nodes.get(nodeKey(groupId, edgeNodeId));
+  }
+
+  getNodeStates(): SparkplugNodeState[] {
+    return Array.from(this.nodes.values());
+  }
+
+  /**
+   * Process one MQTT message. Returns null for non-Sparkplug topics,
+   * commands and undecodable payloads.
+   */
+  handleMessage(topicString: string, payloadBuffer: Buffer, receivedAt = new Date()): SparkplugMessageResult | null {
+    const topic = parseSparkplugTopic(topicString);
+    if (!topic || topic.messageType === 'STATE' || topic.messageType === 'NCMD' || topic.messageType === 'DCMD') {
+      return null;
+    }
+
+    let payload: SparkplugBPayload;
+    try {
+      payload = decodeSparkplugPayload(payloadBuffer);
+    } catch (error) {
+      console.error(`[Sparkplug] Failed to decode ${topicString}:`, error);
+      return null;
+    }
+
+    const node = this.getOrCreateNode(topic.groupId, topic.edgeNodeId);
+    node.lastMessageAt = receivedAt;
+    const result: SparkplugMessageResult = { topic, seq: payload.seq, metrics: [] };
+
+    switch (topic.messageType) {
+      case 'NBIRTH':
+        this.handleNodeBirth(node, payload, receivedAt);
+        result.metrics = this.resolveMetrics(node, payload, receivedAt, result);
+        break;
+
+      case 'NDEATH': {
+        const bdSeq = payload.metrics.find(m => m.name === 'bdSeq')?.value;
+        // A will from a previous session must not take down the current one
+        if (node.bdSeq !== undefined && bdSeq !== undefined && Number(bdSeq) !== node.bdSeq) {
+          return result;
+        }
+        this.setNodeOffline(node, receivedAt);
+        return result;
+      }
+
+      case 'DBIRTH': {
+        if (!this.checkSequence(node, payload, result)) break;
+        const device = this.getOrCreateDevice(node, topic.deviceId!);
+        device.online = true;
+        device.birthAt = receivedAt;
+        device.lastMessageAt = receivedAt;
+        device.metrics.clear();
+        for (const metric of payload.metrics) {
+          device.metrics.set(metric.name, { alias: metric.alias, dataType: metric.dataType });
+          if (metric.alias !== undefined && metric.name) node.aliases.set(metric.alias, metric.name);
+        }
+        this.emit('online', { groupId: node.groupId, edgeNodeId: node.edgeNodeId, deviceId: device.deviceId });
+        result.metrics = this.resolveMetrics(node, payload, receivedAt, result);
+        break;
+      }
+
+      case 'DDEATH': {
+        this.checkSequence(node, payload, result);
+        const device = node.devices.get(topic.deviceId!);
+        if (device?.online) {
+          device.online = false;
+          device.deathAt = receivedAt;
+          this.emit('offline', { groupId: node.groupId, edgeNodeId: node.edgeNodeId, deviceId: device.deviceId });
+        }
+        break;
+      }
+
+      case 'NDATA':
+        if (!this.checkSequence(node, payload, result)) break;
+        result.metrics = this.resolveMetrics(node, payload, receivedAt, result);
+        break;
+
+      case 'DDATA': {
+        if (!this.checkSequence(node, payload, result)) break;
+        const device = node.devices.get(topic.deviceId!);
+        if (!device?.online) {
+          result.rebirthReason = result.rebirthReason || 'device_not_born';
+          break;
+        }
+        device.lastMessageAt = receivedAt;
+        result.metrics = this.resolveMetrics(node, payload, receivedAt, result);
+        break;
+      }
+    }
+
+    if (result.rebirthReason) this.requestRebirth(node, result.rebirthReason, receivedAt);
+    if (result.metrics.length > 0) this.emit('metrics', result);
+    return result;
+  }
+
+  private handleNodeBirth(node: SparkplugNodeState, payload: SparkplugBPayload, at: Date): void {
+    const wasOnline = node.online;
+    // A new node session invalidates all device births
+    for (const device of Array.from(node.devices.values())) device.online = false;
+
+    node.online = true;
+    node.birthAt = at;
+    node.lastSeq = payload.seq;
+    node.aliases.clear();
+    node.metrics.clear();
+
+    for (const metric of payload.metrics) {
+      if (metric.name === 'bdSeq' && metric.value !== null) node.bdSeq = Number(metric.value);
+      node.metrics.set(metric.name, { alias: metric.alias, dataType: metric.dataType });
+      if (metric.alias !== undefined && metric.name) node.aliases.set(metric.alias, metric.name);
+    }
+
+    if (!wasOnline) this.emit('online', { groupId: node.groupId, edgeNodeId: node.edgeNodeId });
+  }
+
+  private setNodeOffline(node: SparkplugNodeState, at: Date): void {
+    const wasOnline = node.online;
+    node.online = false;
+    node.deathAt = at;
+    node.lastSeq = undefined;
+    for (const device of Array.from(node.devices.values())) {
+      if (!device.online) continue;
+      device.online = false;
+      device.deathAt = at;
+      this.emit('offline', { groupId: node.groupId, edgeNodeId: node.edgeNodeId, deviceId: device.deviceId });
+    }
+    if (wasOnline) this.emit('offline', { groupId: node.groupId, edgeNodeId: node.edgeNodeId });
+  }
+
+  /**
+   * Validate seq (0-255, incremented per message from the node and its
+   * devices). Returns false when the node has no active session.
+   */
+  private checkSequence(node: SparkplugNodeState, payload: SparkplugBPayload, result: SparkplugMessageResult): boolean {
+    if (!node.online) {
+      result.rebirthReason = 'no_birth';
+      return false;
+    }
+    if (payload.seq !== undefined) {
+      if (node.lastSeq !== undefined && payload.seq !== (node.lastSeq + 1) % 256) {
+        result.rebirthReason = 'sequence_gap';
+      }
+      node.lastSeq = payload.seq;
+    }
+    return true;
+  }
+
+  private resolveMetrics(
+    node: SparkplugNodeState,
+    payload: SparkplugBPayload,
+    receivedAt: Date,
+    result: SparkplugMessageResult
+  ): SparkplugResolvedMetric[] {
+    const resolved: SparkplugResolvedMetric[] = [];
+    for (const metric of payload.metrics) {
+      let name = metric.name;
+      if (!name && metric.alias !== undefined) {
+        name = node.aliases.get(metric.alias) || '';
+        if (!name) {
+          result.rebirthReason = result.rebirthReason || 'unknown_alias';
+          continue;
+        }
+      }
+      if (!name || isSparkplugControlMetric(name)) continue;
+
+      const ts = metric.timestamp || payload.timestamp;
+      resolved.push({
+        name,
+        alias: metric.alias,
+        dataType: metric.dataType,
+        value: metric.value,
+        timestamp: ts ? new Date(ts) : receivedAt,
+        isHistorical: metric.isHistorical || undefined,
+      });
+    }
+    return resolved;
+  }
+
+  private requestRebirth(node: SparkplugNodeState, reason: SparkplugRebirthReason, at: Date): void {
+    if (node.lastRebirthRequestAt && at.getTime() - node.lastRebirthRequestAt.getTime() < this.rebirthCooldownMs) {
+      return;
+    }
+    node.lastRebirthRequestAt = at;
+    this.emit('rebirth', { groupId: node.groupId, edgeNodeId: node.edgeNodeId, reason });
+  }
+
+  private getOrCreateNode(groupId: string, edgeNodeId: string): SparkplugNodeState {
+    const key = nodeKey(groupId, edgeNodeId);
+    let node = this.nodes.get(key);
+    if (!node) {
+      node = {
+        groupId,
+        edgeNodeId,
+        online: false,
+        metrics: new Map(),
+        aliases: new Map(),
+        devices: new Map(),
+      };
+      this.nodes.set(key, node);
+    }
+    return node;
+  }
+
+  private getOrCreateDevice(node: SparkplugNodeState, deviceId: string): SparkplugDeviceState {
+    let device = node.devices.get(deviceId);
+    if (!device) {
+      device = { deviceId, online: false, metrics: new Map() };
+      node.devices.set(deviceId, device);
+    }
+    return device;
+  }
+}
+
+function nodeKey(groupId: string, edgeNodeId: string): string {
+  return `${groupId}/${edgeNodeId}`;
+}
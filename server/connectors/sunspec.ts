@@ -0,0 +1,465 @@
+/**
+ * SunSpec Discovery
+ *
+ * Auto-discovery of SunSpec-compliant Modbus devices on top of ModbusTcpClient:
+ * - Scans the standard base addresses for the "SunS" marker
+ * - Walks the model chain until the end marker (0xFFFF)
+ * - Decodes common (1), inverter (101-103), MPPT (160), meter (201-204)
+ *   and storage (124, 802) models
+ * - Generates a ModbusRegisterMap with scale-factor registers wired up
+ */
+
+import {
+  ModbusTcpClient,
+  ModbusRegister,
+  ModbusRegisterMap,
+  applyScaleFactor,
+  decodeRegisterValues,
+} from './modbus';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type SunSpecPointType = 'uint16' | 'int16' | 'uint32' | 'acc32' | 'enum16' | 'bitfield16' | 'bitfield32' | 'sunssf' | 'string';
+
+export interface SunSpecPoint {
+  id: string;
+  offset: number; // registers after the model header (ID + L)
+  type: SunSpecPointType;
+  size?: number; // registers, strings only
+  units?: string;
+  sf?: string; // id of the scale factor point in the same block
+  metricCode?: string;
+  label?: string;
+}
+
+export interface SunSpecModelDefinition {
+  id: number;
+  name: string;
+  category: 'common' | 'inverter' | 'mppt' | 'meter' | 'storage';
+  points: SunSpecPoint[];
+  // Repeating block layout (model 160 modules)
+  repeating?: { fixedLength: number; blockLength: number; points: SunSpecPoint[] };
+}
+
+export interface SunSpecCommonInfo {
+  manufacturer: string;
+  model: string;
+  options: string;
+  version: string;
+  serialNumber: string;
+  deviceAddress?: number;
+}
+
+export interface SunSpecDiscoveredModel {
+  id: number;
+  name: string;
+  category: SunSpecModelDefinition['category'] | 'unknown';
+  // Address of the model ID register
+  address: number;
+  length: number;
+  instance: number; // 1-based among models with the same id
+  values: Record<string, number | string | null>;
+  repeatingBlocks?: Array<Record<string, number | string | null>>;
+}
+
+export interface SunSpecDiscovery {
+  baseAddress: number;
+  common: SunSpecCommonInfo;
+  models: SunSpecDiscoveredModel[];
+}
+
+export interface SunSpecDiscoveryOptions {
+  baseAddresses?: number[];
+  // Safety limit on the number of models walked
+  maxModels?: number;
+}
+
+export class SunSpecDiscoveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SunSpecDiscoveryError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SUNSPEC_BASE_ADDRESSES = [40000, 50000, 0];
+const SUNS_MARKER = [0x5375, 0x6e53]; // "SunS"
+const END_MODEL_ID = 0xffff;
+const MAX_READ_REGISTERS = 125;
+
+// "Not implemented" sentinels per type
+const NOT_IMPLEMENTED: Partial<Record<SunSpecPointType, number>> = {
+  uint16: 0xffff,
+  enum16: 0xffff,
+  bitfield16: 0xffff,
+  int16: -32768,
+  sunssf: -32768,
+  uint32: 0xffffffff,
+  bitfield32: 0xffffffff,
+  acc32: 0,
+};
+
+const inverterPoints: SunSpecPoint[] = [
+  { id: 'A', offset: 0, type: 'uint16', units: 'A', sf: 'A_SF', metricCode: 'ac_current', label: 'AC Current' },
+  { id: 'A_SF', offset: 4, type: 'sunssf' },
+  { id: 'PhVphA', offset: 8, type: 'uint16', units: 'V', sf: 'V_SF', metricCode: 'ac_voltage_a', label: 'Phase Voltage AN' },
+  { id: 'PhVphB', offset: 9, type: 'uint16', units: 'V', sf: 'V_SF', metricCode: 'ac_voltage_b', label: 'Phase Voltage BN' },
+  { id: 'PhVphC', offset: 10, type: 'uint16', units: 'V', sf: 'V_SF', metricCode: 'ac_voltage_c', label: 'Phase Voltage CN' },
+  { id: 'V_SF', offset: 11, type: 'sunssf' },
+  { id: 'W', offset: 12, type: 'int16', units: 'W', sf: 'W_SF', metricCode: 'active_power', label: 'Active Power' },
+  { id: 'W_SF', offset: 13, type: 'sunssf' },
+  { id: 'Hz', offset: 14, type: 'uint16', units: 'Hz', sf: 'Hz_SF', metricCode: 'grid_frequency', label: 'Line Frequency' },
+  { id: 'Hz_SF', offset: 15, type: 'sunssf' },
+  { id: 'VA', offset: 16, type: 'int16', units: 'VA', sf: 'VA_SF', metricCode: 'apparent_power', label: 'Apparent Power' },
+  { id: 'VA_SF', offset: 17, type: 'sunssf' },
+  { id: 'VAr', offset: 18, type: 'int16', units: 'VAR', sf: 'VAr_SF', metricCode: 'reactive_power', label: 'Reactive Power' },
+  { id: 'VAr_SF', offset: 19, type: 'sunssf' },
+  { id: 'PF', offset: 20, type: 'int16', units: '%', sf: 'PF_SF', metricCode: 'power_factor', label: 'Power Factor' },
+  { id: 'PF_SF', offset: 21, type: 'sunssf' },
+  { id: 'WH', offset: 22, type: 'acc32', units: 'Wh', sf: 'WH_SF', metricCode: 'total_energy', label: 'Lifetime Energy' },
+  { id: 'WH_SF', offset: 24, type: 'sunssf' },
+  { id: 'DCA', offset: 25, type: 'uint16', units: 'A', sf: 'DCA_SF', metricCode: 'dc_current', label: 'DC Current' },
+  { id: 'DCA_SF', offset: 26, type: 'sunssf' },
+  { id: 'DCV', offset: 27, type: 'uint16', units: 'V', sf: 'DCV_SF', metricCode: 'dc_voltage', label: 'DC Voltage' },
+  { id: 'DCV_SF', offset: 28, type: 'sunssf' },
+  { id: 'DCW', offset: 29, type: 'int16', units: 'W', sf: 'DCW_SF', metricCode: 'dc_power', label: 'DC Power' },
+  { id: 'DCW_SF', offset: 30, type: 'sunssf' },
+  { id: 'TmpCab', offset: 31, type: 'int16', units: '°C', sf: 'Tmp_SF', metricCode: 'internal_temp', label: 'Cabinet Temperature' },
+  { id: 'Tmp_SF', offset: 35, type: 'sunssf' },
+  { id: 'St', offset: 36, type: 'enum16', metricCode: 'device_status', label: 'Operating State' },
+  { id: 'Evt1', offset: 38, type: 'bitfield32', metricCode: 'event_flags', label: 'Event Flags' },
+];
+
+const meterPoints: SunSpecPoint[] = [
+  { id: 'A', offset: 0, type: 'int16', units: 'A', sf: 'A_SF', metricCode: 'meter_current', label: 'Total Current' },
+  { id: 'A_SF', offset: 4, type: 'sunssf' },
+  { id: 'PhV', offset: 5, type: 'int16', units: 'V', sf: 'V_SF', metricCode: 'meter_voltage', label: 'Average Phase Voltage' },
+  { id: 'V_SF', offset: 13, type: 'sunssf' },
+  { id: 'Hz', offset: 14, type: 'int16', units: 'Hz', sf: 'Hz_SF', metricCode: 'meter_frequency', label: 'Frequency' },
+  { id: 'Hz_SF', offset: 15, type: 'sunssf' },
+  { id: 'W', offset: 16, type: 'int16', units: 'W', sf: 'W_SF', metricCode: 'meter_active_power', label: 'Total Real Power' },
+  { id: 'W_SF', offset: 20, type: 'sunssf' },
+  { id: 'VAR', offset: 26, type: 'int16', units: 'VAR', sf: 'VAR_SF', metricCode: 'meter_reactive_power', label: 'Reactive Power' },
+  { id: 'VAR_SF', offset: 30, type: 'sunssf' },
+  { id: 'PF', offset: 31, type: 'int16', units: '%', sf: 'PF_SF', metricCode: 'meter_power_factor', label: 'Power Factor' },
+  { id: 'PF_SF', offset: 35, type: 'sunssf' },
+  { id: 'TotWhExp', offset: 36, type: 'acc32', units: 'Wh', sf: 'TotWh_SF', metricCode: 'meter_export_energy', label: 'Total Energy Exported' },
+  { id: 'TotWhImp', offset: 44, type: 'acc32', units: 'Wh', sf: 'TotWh_SF', metricCode: 'meter_import_energy', label: 'Total Energy Imported' },
+  { id: 'TotWh_SF', offset: 52, type: 'sunssf' },
+];
+
+export const SUNSPEC_MODELS: Record<number, SunSpecModelDefinition> = {
+  1: {
+    id: 1,
+    name: 'Common',
+    category: 'common',
+    points: [
+      { id: 'Mn', offset: 0, type: 'string', size: 16, label: 'Manufacturer' },
+      { id: 'Md', offset: 16, type: 'string', size: 16, label: 'Model' },
+      { id: 'Opt', offset: 32, type: 'string', size: 8, label: 'Options' },
+      { id: 'Vr', offset: 40, type: 'string', size: 8, label: 'Version' },
+      { id: 'SN', offset: 48, type: 'string', size: 16, label: 'Serial Number' },
+      { id: 'DA', offset: 64, type: 'uint16', label: 'Device Address' },
+    ],
+  },
+  101: { id: 101, name: 'Inverter (Single Phase)', category: 'inverter', points: inverterPoints },
+  102: { id: 102, name: 'Inverter (Split Phase)', category: 'inverter', points: inverterPoints },
+  103: { id: 103, name: 'Inverter (Three Phase)', category: 'inverter', points: inverterPoints },
+  124: {
+    id: 124,
+    name: 'Basic Storage Controls',
+    category: 'storage',
+    points: [
+      { id: 'WChaMax', offset: 0, type: 'uint16', units: 'W', sf: 'WChaMax_SF', metricCode: 'battery_max_charge_power', label: 'Max Charge Power' },
+      { id: 'ChaState', offset: 6, type: 'uint16', units: '%', sf: 'ChaState_SF', metricCode: 'battery_soc', label: 'State of Charge' },
+      { id: 'InBatV', offset: 8, type: 'uint16', units: 'V', sf: 'InBatV_SF', metricCode: 'battery_voltage', label: 'Battery Voltage' },
+      { id: 'ChaSt', offset: 9, type: 'enum16', metricCode: 'battery_charge_status', label: 'Charge Status' },
+      { id: 'WChaMax_SF', offset: 16, type: 'sunssf' },
+      { id: 'ChaState_SF', offset: 20, type: 'sunssf' },
+      { id: 'InBatV_SF', offset: 22, type: 'sunssf' },
+    ],
+  },
+  160: {
+    id: 160,
+    name: 'Multiple MPPT',
+    category: 'mppt',
+    points: [
+      { id: 'DCA_SF', offset: 0, type: 'sunssf' },
+      { id: 'DCV_SF', offset: 1, type: 'sunssf' },
+      { id: 'DCW_SF', offset: 2, type: 'sunssf' },
+      { id: 'DCWH_SF', offset: 3, type: 'sunssf' },
+      { id: 'N', offset: 6, type: 'uint16', label: 'Number of Modules' },
+    ],
+    repeating: {
+      fixedLength: 8,
+      blockLength: 20,
+      points: [
+        { id: 'ID', offset: 0, type: 'uint16', label: 'Input ID' },
+        { id: 'IDStr', offset: 1, type: 'string', size: 8, label: 'Input Label' },
+        { id: 'DCA', offset: 9, type: 'uint16', units: 'A', sf: 'DCA_SF', metricCode: 'mppt_current', label: 'DC Current' },
+        { id: 'DCV', offset: 10, type: 'uint16', units: 'V', sf: 'DCV_SF', metricCode: 'mppt_voltage', label: 'DC Voltage' },
+        { id: 'DCW', offset: 11, type: 'uint16', units: 'W', sf: 'DCW_SF', metricCode: 'mppt_power', label: 'DC Power' },
+        { id: 'DCWH', offset: 12, type: 'acc32', units: 'Wh', sf: 'DCWH_SF', metricCode: 'mppt_energy', label: 'Lifetime Energy' },
+        { id: 'Tmp', offset: 16, type: 'int16', units: '°C', metricCode: 'mppt_temp', label: 'Temperature' },
+      ],
+    },
+  },
+  201: { id: 201, name: 'Meter (Single Phase)', category: 'meter', points: meterPoints },
+  202: { id: 202, name: 'Meter (Split Phase)', category: 'meter', points: meterPoints },
+  203: { id: 203, name: 'Meter (Three Phase Wye)', category: 'meter', points: meterPoints },
+  204: { id: 204, name: 'Meter (Three Phase Delta)', category: 'meter', points: meterPoints },
+  802: {
+    id: 802,
+    name: 'Battery Base',
+    category: 'storage',
+    points: [
+      { id: 'WHRtg', offset: 1, type: 'uint16', units: 'Wh', sf: 'WHRtg_SF', metricCode: 'battery_energy_rating', label: 'Energy Rating' },
+      { id: 'SoC', offset: 9, type: 'uint16', units: '%', sf: 'SoC_SF', metricCode: 'battery_soc', label: 'State of Charge' },
+      { id: 'SoH', offset: 11, type: 'uint16', units: '%', sf: 'SoH_SF', metricCode: 'battery_soh', label: 'State of Health' },
+      { id: 'NCyc', offset: 12, type: 'uint32', metricCode: 'battery_cycles', label: 'Cycle Count' },
+      { id: 'ChaSt', offset: 14, type: 'enum16', metricCode: 'battery_charge_status', label: 'Charge Status' },
+      { id: 'V', offset: 32, type: 'uint16', units: 'V', sf: 'V_SF', metricCode: 'battery_voltage', label: 'External Battery Voltage' },
+      { id: 'A', offset: 42, type: 'int16', units: 'A', sf: 'A_SF', metricCode: 'battery_current', label: 'Total DC Current' },
+      { id: 'W', offset: 45, type: 'int16', units: 'W', sf: 'W_SF', metricCode: 'battery_power', label: 'Total Power' },
+      { id: 'WHRtg_SF', offset: 51, type: 'sunssf' },
+      { id: 'SoC_SF', offset: 54, type: 'sunssf' },
+      { id: 'SoH_SF', offset: 56, type: 'sunssf' },
+      { id: 'V_SF', offset: 57, type: 'sunssf' },
+      { id: 'A_SF', offset: 59, type: 'sunssf' },
+      { id: 'W_SF', offset: 61, type: 'sunssf' },
+    ],
+  },
+};
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+function pointSize(point: SunSpecPoint): number {
+  if (point.type === 'string') return point.size || 1;
+  return point.type === 'uint32' || point.type === 'acc32' || point.type === 'bitfield32' ? 2 : 1;
+}
+
+function pointRegister(point: SunSpecPoint, address: number, name: string): ModbusRegister {
+  const dataType: ModbusRegister['dataType'] =
+    point.type === 'string' ? 'string'
+    : point.type === 'int16' || point.type === 'sunssf' ? 'int16'
+    : pointSize(point) === 2 ? 'uint32'
+    : 'uint16';
+  return { address, length: pointSize(point), type: 'holding', dataType, name, unit: point.units };
+}
+
+/**
+ * Decode a point from a block of register words. Returns null for the
+ * SunSpec "not implemented" sentinel.
+ */
+export function decodeSunSpecPoint(block: number[], point: SunSpecPoint): number | string | null {
+  const size = pointSize(point);
+  const words = block.slice(point.offset, point.offset + size);
+  if (words.length < size) return null;
+
+  const value = decodeRegisterValues(words, pointRegister(point, 0, point.id));
+  if (typeof value === 'string') return value;
+  if (NOT_IMPLEMENTED[point.type] === value) return null;
+  return value;
+}
+
+function decodePoints(block: number[], points: SunSpecPoint[], scaleFactors: Record<string, number | string | null> = {}) {
+  const raw: Record<string, number | string | null> = {};
+  for (const point of points) raw[point.id] = decodeSunSpecPoint(block, point);
+
+  const sfSource = { ...scaleFactors, ...raw };
+  const values: Record<string, number | string | null> = {};
+  for (const point of points) {
+    const value = raw[point.id];
+    const sf = point.sf ? sfSource[point.sf] : undefined;
+    values[point.id] = typeof value === 'number' && typeof sf === 'number' ? applyScaleFactor(value, sf) : value;
+  }
+  return { raw, values };
+}
+
+async function readBlock(client: ModbusTcpClient, address: number, length: number): Promise<number[]> {
+  const words: number[] = [];
+  for (let offset = 0; offset < length; offset += MAX_READ_REGISTERS) {
+    const count = Math.min(MAX_READ_REGISTERS, length - offset);
+    words.push(...await client.readHoldingRegisters(address + offset, count));
+  }
+  return words;
+}
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+/**
+ * Locate the SunSpec base address by probing for the "SunS" marker
+ */
+export async function findSunSpecBase(client: ModbusTcpClient, baseAddresses = SUNSPEC_BASE_ADDRESSES): Promise<number | null> {
+  for (const base of baseAddresses) {
+    try {
+      const marker = await client.readHoldingRegisters(base, 2);
+      if (marker[0] === SUNS_MARKER[0] && marker[1] === SUNS_MARKER[1]) return base;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Illegal address at this base; try the next. Anything else is fatal.
+      if (!message.startsWith('Modbus exception')) throw error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Walk the SunSpec model chain and decode the supported models
+ */
+export async function discoverSunSpec(client: ModbusTcpClient, options: SunSpecDiscoveryOptions = {}): Promise<SunSpecDiscovery> {
+  const baseAddress = await findSunSpecBase(client, options.baseAddresses);
+  if (baseAddress === null) {
+    throw new SunSpecDiscoveryError('SunSpec marker not found');
+  }
+
+  const maxModels = options.maxModels ?? 50;
+  const models: SunSpecDiscoveredModel[] = [];
+  const instances = new Map<number, number>();
+  let address = baseAddress + 2;
+
+  for (let i = 0; i < maxModels; i++) {
+    const [modelId, length] = await client.readHoldingRegisters(address, 2);
+    if (modelId === END_MODEL_ID || modelId === undefined) break;
+
+    const instance = (instances.get(modelId) || 0) + 1;
+    instances.set(modelId, instance);
+
+    const definition = SUNSPEC_MODELS[modelId];
+    const discovered: SunSpecDiscoveredModel = {
+      id: modelId,
+      name: definition?.name || `Model ${modelId}`,
+      category: definition?.category || 'unknown',
+      address,
+      length,
+      instance,
+      values: {},
+    };
+
+    if (definition && length > 0) {
+      const block = await readBlock(client, address + 2, length);
+      const fixed = decodePoints(block, definition.points);
+      discovered.values = fixed.values;
+
+      if (definition.repeating) {
+        const { fixedLength, blockLength, points } = definition.repeating;
+        const count = Math.floor((length - fixedLength) / blockLength);
+        discovered.repeatingBlocks = [];
+        for (let n = 0; n < count; n++) {
+          const start = fixedLength + n * blockLength;
+          const repeated = decodePoints(block.slice(start, start + blockLength), points, fixed.raw);
+          discovered.repeatingBlocks.push(repeated.values);
+        }
+      }
+    }
+
+    models.push(discovered);
+    address += 2 + length;
+  }
+
+  const common = models.find(m => m.id === 1);
+  if (!common) {
+    throw new SunSpecDiscoveryError('SunSpec common model (1) not found');
+  }
+
+  return {
+    baseAddress,
+    common: {
+      manufacturer: String(common.values.Mn ?? ''),
+      model: String(common.values.Md ?? ''),
+      options: String(common.values.Opt ?? ''),
+      version: String(common.values.Vr ?? ''),
+      serialNumber: String(common.values.SN ?? ''),
+      deviceAddress: typeof common.values.DA === 'number' ? common.values.DA : undefined,
+    },
+    models,
+  };
+}
+
+// ============================================================================
+// Register Map Generation
+// ============================================================================
+
+/**
+ * Build a pollable register map from a discovery. Only points the device
+ * implements are included. Keys are `<model>[_<instance>]_<point>`; scale
+ * factor points are included and referenced via scaleFactorRegister.
+ */
+export function buildSunSpecRegisterMap(discovery: SunSpecDiscovery): ModbusRegisterMap {
+  const map: ModbusRegisterMap = {};
+  const countById = new Map<number, number>();
+  for (const model of discovery.models) countById.set(model.id, (countById.get(model.id) || 0) + 1);
+
+  const addPoints = (
+    points: SunSpecPoint[],
+    blockAddress: number,
+    values: Record<string, number | string | null>,
+    prefix: string,
+    metricSuffix: string,
+    sfKeys: Record<string, string>
+  ) => {
+    for (const point of points) {
+      if (point.type === 'sunssf' || point.type === 'string' || !point.metricCode) continue;
+      if (values[point.id] === null || values[point.id] === undefined) continue;
+
+      const key = `${prefix}_${point.id}`;
+      map[key] = {
+        ...pointRegister(point, blockAddress + point.offset, point.label || point.id),
+        metricCode: `${point.metricCode}${metricSuffix}`,
+      };
+      if (point.sf && sfKeys[point.sf]) map[key].scaleFactorRegister = sfKeys[point.sf];
+    }
+  };
+
+  for (const model of discovery.models) {
+    const definition = SUNSPEC_MODELS[model.id];
+    if (!definition || definition.category === 'common') continue;
+
+    const multiple = (countById.get(model.id) || 0) > 1;
+    const prefix = multiple ? `${model.id}_${model.instance}` : `${model.id}`;
+    const metricSuffix = multiple ? `_${model.instance}` : '';
+    const blockAddress = model.address + 2;
+
+    // Scale factor registers that are implemented on this device
+    const sfKeys: Record<string, string> = {};
+    for (const point of definition.points) {
+      if (point.type !== 'sunssf') continue;
+      const key = `${prefix}_${point.id}`;
+      sfKeys[point.id] = key;
+      map[key] = pointRegister(point, blockAddress + point.offset, point.id);
+    }
+
+    addPoints(definition.points, blockAddress, model.values, prefix, metricSuffix, sfKeys);
+
+    if (definition.repeating && model.repeatingBlocks) {
+      const { fixedLength, blockLength, points } = definition.repeating;
+      model.repeatingBlocks.forEach((values, n) => {
+        addPoints(
+          points,
+          blockAddress + fixedLength + n * blockLength,
+          values,
+          `${prefix}_module${n + 1}`,
+          `${metricSuffix}_${n + 1}`,
+          sfKeys
+        );
+      });
+    }
+  }
+
+  // Drop scale factor registers nothing references
+  const referenced = new Set(Object.values(map).map(r => r.scaleFactorRegister).filter(Boolean));
+  for (const [key, register] of Object.entries(map)) {
+    if (register.dataType === 'int16' && key.endsWith('_SF') && !referenced.has(key)) delete map[key];
+  }
+
+  return map;
+}
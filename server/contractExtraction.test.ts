@@ -0,0 +1,268 @@
+/**
+ * Contract Obligation Extraction Tests
+ *
+ * Clause splitting, obligation proposals with party/frequency/trigger,
+ * schedules and the amendment diff.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  diffProposals,
+  extractProposals,
+  pagesFromText,
+  parseTiming,
+  scheduleFor,
+  splitClauses,
+  type ExtractionContext,
+  type LiveProposal,
+} from "./services/contractExtraction";
+import { expandRecurrence } from "./services/recurrenceRule";
+
+const LOAN_AGREEMENT = [
+  "FACILITY AGREEMENT",
+  "This Agreement is made between Sunrise Solar Ltd (the Borrower) and Green Bank plc (the Lender).",
+  "Section 12 Information Undertakings",
+  "12.1 The Borrower shall deliver to the Lender its audited financial statements within one hundred and twenty (120) days after the end of each financial year.",
+  "12.2 The Borrower shall deliver to the Lender a compliance certificate within 45 days after the end of each quarter.",
+  "Page 3 of 10",
+  "\f",
+  "13. Financial Covenants",
+  "The Borrower shall ensure that the Debt Service Coverage Ratio is not less than 1.20:1. The DSCR shall be tested semi-annually on 30 June and 31 December.",
+  "14. Insurance",
+  "The Borrower shall maintain the Insurances and shall renew each policy no later than thirty (30) days prior to the expiry of such policy.",
+  "15. Payments",
+  "The Borrower shall pay the Commitment Fee quarterly in arrear on the last day of each quarter.",
+  "16. Term",
+  "Either Party may terminate this Agreement by giving not less than ninety (90) days' prior written notice before the expiry of the Term.",
+].join("\n");
+
+const context: ExtractionContext = {
+  artifactId: 7,
+  parties: [
+    { name: "Sunrise Solar Ltd", role: "Borrower" },
+    { name: "Green Bank plc", role: "Lender" },
+  ],
+  effectiveDate: new Date("2024-03-15T00:00:00Z"),
+  expiryDate: new Date("2034-03-15T00:00:00Z"),
+  asOf: new Date("2025-01-10T00:00:00Z"),
+  isAmendment: false,
+};
+
+function draftFor(clauseRef: string, category: string) {
+  const result = extractProposals(splitClauses(pagesFromText(LOAN_AGREEMENT)), context);
+  const draft = result.drafts.find(d => d.clauseRef === clauseRef && d.category === category);
+  expect(draft, `${category} in ${clauseRef}`).toBeDefined();
+  return draft!;
+}
+
+describe("splitClauses", () => {
+  it("splits numbered clauses and keeps headings apart from text", () => {
+    const clauses = splitClauses(pagesFromText(LOAN_AGREEMENT));
+    expect(clauses.map(c => c.ref)).toEqual([null, "12.1", "12.2", "13", "14", "15", "16"]);
+    expect(clauses[3].heading).toBe("Financial Covenants");
+    expect(clauses[1].heading).toBeNull();
+    expect(clauses[1].text).toMatch(/^The Borrower shall deliver/);
+  });
+
+  it("tracks pages and drops page furniture", () => {
+    const clauses = splitClauses(pagesFromText(LOAN_AGREEMENT));
+    expect(clauses.find(c => c.ref === "12.2")!.text).not.toContain("Page 3");
+    expect(clauses.find(c => c.ref === "12.1")!.pageNumber).toBe(1);
+    expect(clauses.find(c => c.ref === "13")!.pageNumber).toBe(2);
+  });
+
+  it("records where a clause continues onto the next page", () => {
+    const clauses = splitClauses(pagesFromText("5.1 The Seller shall\fprovide monthly reports."));
+    expect(clauses).toHaveLength(1);
+    expect(clauses[0].text).toBe("The Seller shall provide monthly reports.");
+    expect(clauses[0].pageBreaks).toEqual([{ offset: 17, pageNumber: 2 }]);
+  });
+});
+
+describe("parseTiming", () => {
+  it("reads offsets after period ends", () => {
+    expect(parseTiming("within thirty (30) days after the end of each calendar quarter")).toEqual({
+      frequency: "quarterly",
+      trigger: { type: "period_end", offsetDays: 30 },
+    });
+    expect(parseTiming("no later than 10 business days following the end of each month")).toEqual({
+      frequency: "monthly",
+      trigger: { type: "period_end", offsetDays: 14 },
+    });
+  });
+
+  it("reads fixed dates and their frequency", () => {
+    expect(parseTiming("tested on 30 June and 31 December")).toEqual({
+      frequency: "semi_annually",
+      trigger: { type: "fixed_dates", dates: [{ month: 6, day: -1 }, { month: 12, day: -1 }] },
+    });
+  });
+
+  it("reads notice periods before events", () => {
+    expect(parseTiming("by giving ninety (90) days' prior written notice before the expiry of the Term")).toEqual({
+      frequency: "one_time",
+      trigger: { type: "before_event", event: "expiry of term", offsetDays: 90 },
+    });
+  });
+
+  it("falls back to frequency words", () => {
+    expect(parseTiming("shall provide semi-annual operating reports")?.frequency).toBe("semi_annually");
+    expect(parseTiming("shall pay the rent annually")?.frequency).toBe("annually");
+    expect(parseTiming("shall comply with applicable law")).toBeNull();
+  });
+});
+
+describe("extractProposals", () => {
+  it("proposes reporting deadlines with party and evidence", () => {
+    const draft = draftFor("12.1", "reporting_deadline");
+    expect(draft.party).toBe("Sunrise Solar Ltd");
+    expect(draft.partyRole).toBe("Borrower");
+    expect(draft.frequency).toBe("annually");
+    expect(draft.trigger).toEqual({ type: "period_end", offsetDays: 120 });
+    expect(draft.title).toBe("Audited financial statements from Sunrise Solar Ltd");
+    expect(draft.evidence).toMatchObject({ artifactId: 7, pageNumber: 1, clauseRef: "12.1" });
+    expect(draft.evidence.anchor.query).toBe(draft.evidence.snippet);
+  });
+
+  it("proposes covenant tests with threshold and schedule from the clause", () => {
+    const draft = draftFor("13", "covenant_test");
+    expect(draft.covenantMetric).toBe("dscr");
+    expect(draft.covenantThreshold).toBe(1.2);
+    expect(draft.frequency).toBe("semi_annually");
+    expect(draft.title).toBe("DSCR covenant test (minimum 1.20x)");
+    expect(draft.evidence.pageNumber).toBe(2);
+  });
+
+  it("proposes insurance renewals, payments and notice periods", () => {
+    expect(draftFor("14", "insurance_renewal")).toMatchObject({
+      frequency: "annually",
+      trigger: { type: "before_event", event: "expiry of policy", offsetDays: 30 },
+    });
+    expect(draftFor("15", "payment_date")).toMatchObject({
+      title: "Commitment Fee due from Sunrise Solar Ltd",
+      trigger: { type: "day_of_period", dayOfPeriod: -1 },
+      frequency: "quarterly",
+    });
+    expect(draftFor("16", "notice_period")).toMatchObject({
+      party: "Either Party",
+      title: "90-day notice before expiry of term by Either Party",
+    });
+  });
+
+  it("scores confidence higher for fully specified obligations", () => {
+    const full = draftFor("12.1", "reporting_deadline");
+    const [vague] = extractProposals(
+      splitClauses(pagesFromText("Reports must be delivered monthly.")),
+      { ...context, effectiveDate: null }
+    ).drafts;
+    expect(vague.confidence).toBeLessThan(full.confidence);
+    expect(full.confidence).toBeLessThanOrEqual(0.95);
+  });
+});
+
+describe("scheduleFor", () => {
+  const days = (rule: string, start: Date, limit: number) =>
+    expandRecurrence(rule, start, { timezone: "UTC", from: start, limit })
+      .map(d => d.toISOString().slice(0, 10));
+
+  it("schedules reports after quarter ends", () => {
+    const { firstDueAt, recurrenceRule } = scheduleFor("reporting_deadline", {
+      frequency: "quarterly",
+      trigger: { type: "period_end", offsetDays: 45 },
+    }, context);
+    expect(firstDueAt?.toISOString().slice(0, 10)).toBe("2025-02-14");
+    expect(recurrenceRule).toMatch(/^RRULE:FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=14;UNTIL=20340315T235959Z$/);
+    expect(days(recurrenceRule!, firstDueAt!, 3)).toEqual(["2025-02-14", "2025-05-14", "2025-08-14"]);
+  });
+
+  it("schedules month-end dates with BYMONTHDAY=-1", () => {
+    const { firstDueAt, recurrenceRule } = scheduleFor("payment_date", {
+      frequency: "quarterly",
+      trigger: { type: "day_of_period", dayOfPeriod: -1 },
+    }, context);
+    expect(days(recurrenceRule!, firstDueAt!, 3)).toEqual(["2025-03-31", "2025-06-30", "2025-09-30"]);
+  });
+
+  it("schedules fixed test dates", () => {
+    const { firstDueAt, recurrenceRule } = scheduleFor("covenant_test", {
+      frequency: "semi_annually",
+      trigger: { type: "fixed_dates", dates: [{ month: 6, day: -1 }, { month: 12, day: -1 }] },
+    }, context);
+    expect(recurrenceRule).toContain("FREQ=YEARLY;BYMONTH=6,12;BYMONTHDAY=-1");
+    expect(days(recurrenceRule!, firstDueAt!, 3)).toEqual(["2025-06-30", "2025-12-31", "2026-06-30"]);
+  });
+
+  it("renews insurance ahead of each anniversary", () => {
+    const { firstDueAt, recurrenceRule } = scheduleFor("insurance_renewal", {
+      frequency: "annually",
+      trigger: { type: "before_event", event: "expiry of policy", offsetDays: 30 },
+    }, context);
+    expect(firstDueAt?.toISOString().slice(0, 10)).toBe("2025-02-13");
+    expect(recurrenceRule).toMatch(/^RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=13/);
+  });
+
+  it("gives notice periods a single date before expiry", () => {
+    const { firstDueAt, recurrenceRule } = scheduleFor("notice_period", {
+      frequency: "one_time",
+      trigger: { type: "before_event", event: "expiry of term", offsetDays: 90 },
+    }, context);
+    expect(firstDueAt?.toISOString().slice(0, 10)).toBe("2033-12-15");
+    expect(recurrenceRule).toBeNull();
+  });
+});
+
+describe("amendments", () => {
+  const AMENDMENT = [
+    "FIRST AMENDMENT",
+    "1. Section 12.2 of the Agreement is hereby amended and restated as follows:",
+    "12.2 The Borrower shall deliver to the Lender a compliance certificate within 60 days after the end of each quarter.",
+    "2. Section 14 of the Agreement is hereby deleted.",
+  ].join("\n");
+
+  const live: LiveProposal[] = [
+    { id: 1, category: "reporting_deadline", status: "accepted", title: "Compliance certificate from Sunrise Solar Ltd", party: "Sunrise Solar Ltd", frequency: "quarterly", trigger: { type: "period_end", offsetDays: 45 }, recurrenceRule: "RRULE:FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=14", firstDueAt: new Date("2025-02-14T00:00:00Z"), covenantThreshold: null, sourceClause: "12.2" },
+    { id: 2, category: "insurance_renewal", status: "accepted", title: "Insurance renewal by Sunrise Solar Ltd", party: "Sunrise Solar Ltd", frequency: "annually", trigger: { type: "before_event", event: "expiry of policy", offsetDays: 30 }, recurrenceRule: "RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=13", firstDueAt: new Date("2025-02-13T00:00:00Z"), covenantThreshold: null, sourceClause: "14" },
+    { id: 3, category: "reporting_deadline", status: "accepted", title: "Audited financial statements from Sunrise Solar Ltd", party: "Sunrise Solar Ltd", frequency: "annually", trigger: { type: "period_end", offsetDays: 120 }, recurrenceRule: "RRULE:FREQ=YEARLY;BYMONTH=4;BYMONTHDAY=28", firstDueAt: new Date("2025-04-30T00:00:00Z"), covenantThreshold: null, sourceClause: "12.1" },
+  ];
+
+  it("attributes restated clauses to the amended sections", () => {
+    const result = extractProposals(splitClauses(pagesFromText(AMENDMENT)), { ...context, isAmendment: true });
+    expect(result.amendedRefs.sort()).toEqual(["12.2", "14"]);
+    expect(result.deletedRefs).toEqual(["14"]);
+    expect(result.drafts).toHaveLength(1);
+    expect(result.drafts[0]).toMatchObject({ clauseRef: "12.2", trigger: { type: "period_end", offsetDays: 60 } });
+  });
+
+  it("diffs against live proposals, leaving untouched clauses alone", () => {
+    const result = extractProposals(splitClauses(pagesFromText(AMENDMENT)), { ...context, isAmendment: true });
+    const diffs = diffProposals(live, result);
+    expect(diffs.map(d => d.changeType).sort()).toEqual(["modified", "removed"]);
+
+    const modified = diffs.find(d => d.changeType === "modified");
+    expect(modified?.changeType === "modified" && modified.previous.id).toBe(1);
+    expect(modified?.changeType === "modified" && modified.changes).toEqual([
+      { field: "trigger", oldValue: "45 days after period end", newValue: "60 days after period end" },
+    ]);
+
+    const removed = diffs.find(d => d.changeType === "removed");
+    expect(removed?.previous.id).toBe(2);
+  });
+
+  it("drops unchanged re-extractions", () => {
+    const result = extractProposals(splitClauses(pagesFromText(LOAN_AGREEMENT)), context);
+    const again = diffProposals(result.drafts.map((d, i) => ({
+      id: i + 1,
+      category: d.category,
+      status: "accepted" as const,
+      title: d.title,
+      party: d.party,
+      frequency: d.frequency,
+      trigger: d.trigger,
+      recurrenceRule: d.recurrenceRule,
+      firstDueAt: d.firstDueAt,
+      covenantThreshold: d.covenantThreshold?.toFixed(4) ?? null,
+      sourceClause: d.clauseRef,
+    })), result);
+    expect(again).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Credit Note Tests
+ *
+ * Partial line credits net of the invoice discount, settlement against the
+ * open balance and invoice status after credits and refunds.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CreditNoteError,
+  creditLineAmounts,
+  creditRequestedLines,
+  invoiceLedgerBalance,
+  settleCredit,
+  statusAfterCredit,
+  unappliedCredit,
+} from "./services/creditNotes";
+import { allocateDiscount } from "./services/taxEngine";
+
+// 10 units at 1,000 with 7.5% VAT and 5% WHT
+const line = {
+  amount: 10_000,
+  quantity: 10,
+  unitPrice: 1_000,
+  taxAmount: 750,
+  withholdingAmount: 500,
+  discountAmount: 0,
+  creditedAmount: 0,
+};
+
+describe("creditLineAmounts", () => {
+  it("should credit the remaining line amount by default", () => {
+    expect(creditLineAmounts({ ...line, creditedAmount: 4_000 }, {})).toEqual({
+      amount: 6_000,
+      quantity: 6,
+      discountAmount: 0,
+      taxAmount: 450,
+      withholdingAmount: 300,
+    });
+  });
+
+  it("should credit disputed units at the line's unit price", () => {
+    expect(creditLineAmounts(line, { quantity: 3 })).toEqual({
+      amount: 3_000,
+      quantity: 3,
+      discountAmount: 0,
+      taxAmount: 225,
+      withholdingAmount: 150,
+    });
+  });
+
+  it("should reject credits beyond what is left on the line", () => {
+    expect(() => creditLineAmounts({ ...line, creditedAmount: 9_000 }, { amount: 1_500 })).toThrow(CreditNoteError);
+    expect(() => creditLineAmounts(line, { amount: 0 })).toThrow("must be positive");
+  });
+});
+
+describe("discounted invoices", () => {
+  // 6,000 and 4,000 less a 1,000 invoice discount (600 / 400), with 7.5% VAT on the discounted amounts
+  const discounts = allocateDiscount([6_000, 4_000], 1_000);
+  const creditable = [
+    { ...line, id: 1, amount: 6_000, quantity: 6, discountAmount: discounts[0], taxAmount: 405, withholdingAmount: 0 },
+    { ...line, id: 2, amount: 4_000, quantity: 4, discountAmount: discounts[1], taxAmount: 270, withholdingAmount: 0 },
+  ];
+
+  it("should credit a whole invoice for no more than its total", () => {
+    const lines = creditRequestedLines(creditable, creditable.map(l => ({ invoiceLineItemId: l.id })), "INV-1");
+    expect(lines.map(l => [l.amount, l.discountAmount, l.taxAmount])).toEqual([[5_400, 600, 405], [3_600, 400, 270]]);
+    expect(lines.reduce((s, l) => s + l.amount + l.taxAmount, 0)).toBe(9_675); // 10,000 - 1,000 + 675
+  });
+
+  it("should credit units at the discounted price and reverse the whole discount across partial credits", () => {
+    expect(creditLineAmounts(creditable[0], { quantity: 2 })).toMatchObject({ amount: 1_800, quantity: 2, discountAmount: 200 });
+    expect(() => creditLineAmounts(creditable[0], { amount: 6_000 })).toThrow("exceeds the 5400 left");
+
+    const first = creditLineAmounts(creditable[1], { amount: 1_001 });
+    const rest = creditLineAmounts({ ...creditable[1], creditedAmount: 1_001 }, {});
+    expect(first.discountAmount + rest.discountAmount).toBe(400);
+  });
+});
+
+describe("creditRequestedLines", () => {
+  const creditable = [{ ...line, id: 1 }, { ...line, id: 2, creditedAmount: 6_000 }];
+
+  it("should credit each requested line", () => {
+    const lines = creditRequestedLines(creditable, [{ invoiceLineItemId: 2 }, { invoiceLineItemId: 1, quantity: 2 }], "INV-1");
+    expect(lines.map(l => [l.line.id, l.amount])).toEqual([[2, 4_000], [1, 2_000]]);
+  });
+
+  it("should reject a line requested twice or not on the invoice", () => {
+    const twice = [{ invoiceLineItemId: 2, amount: 3_000 }, { invoiceLineItemId: 2, amount: 3_000 }];
+    expect(() => creditRequestedLines(creditable, twice, "INV-1")).toThrow("requested more than once");
+    expect(() => creditRequestedLines(creditable, [{ invoiceLineItemId: 3 }], "INV-1")).toThrow("not on invoice INV-1");
+  });
+});
+
+describe("settleCredit", () => {
+  it("should apply to the open balance and leave the rest unapplied", () => {
+    expect(settleCredit(3_000, 10_000)).toEqual({ applied: 3_000, unapplied: 0 });
+    expect(settleCredit(3_000, 1_000)).toEqual({ applied: 1_000, unapplied: 2_000 });
+    expect(settleCredit(3_000, 0)).toEqual({ applied: 0, unapplied: 3_000 });
+  });
+});
+
+describe("statusAfterCredit", () => {
+  const invoice = { status: "sent" as const, totalAmount: 10_750, withholdingAmount: 500, paidAmount: 0, creditedAmount: 0 };
+
+  it("should cancel a fully credited unpaid invoice and mark refunds", () => {
+    expect(statusAfterCredit({ ...invoice, creditedAmount: 10_250 }, false)).toBe("cancelled");
+    expect(statusAfterCredit({ ...invoice, paidAmount: 0, creditedAmount: 10_250 }, true)).toBe("refunded");
+  });
+
+  it("should mark a partly paid invoice paid once credits clear the rest", () => {
+    const state = { ...invoice, paidAmount: 6_000, creditedAmount: 4_250 };
+    expect(invoiceLedgerBalance(state)).toBe(0);
+    expect(statusAfterCredit(state, false)).toBe("paid");
+    expect(statusAfterCredit({ ...invoice, paidAmount: 6_000, creditedAmount: 1_000 }, false)).toBe("partial");
+  });
+});
+
+describe("unappliedCredit", () => {
+  it("should net out application, refunds and carry-forward", () => {
+    expect(unappliedCredit({
+      totalAmount: 3_225,
+      withholdingAmount: 150,
+      appliedAmount: 1_000,
+      refundedAmount: 1_500,
+      carriedForwardAmount: 0,
+    })).toBe(575);
+  });
+});
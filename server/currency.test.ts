@@ -0,0 +1,86 @@
+/**
+ * Currency Tests
+ *
+ * Per-currency formatting, FX rate resolution, conversion between minor
+ * units and realized gain/loss on payments.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  FxRatePoint,
+  convertMinor,
+  formatMoney,
+  realizedFxGainLoss,
+  resolveFxRate,
+  totalByCurrency,
+} from "./services/currency";
+
+const rate = (base: string, quote: string, value: number, day: string, organizationId: number | null = 1): FxRatePoint => ({
+  organizationId,
+  baseCurrency: base,
+  quoteCurrency: quote,
+  rate: value,
+  rateDate: new Date(`${day}T00:00:00Z`),
+});
+
+describe("formatMoney", () => {
+  it("should format minor units in the invoice currency", () => {
+    expect(formatMoney(150000, "USD")).toBe("$1,500.00");
+    expect(formatMoney(150000, "EUR")).toContain("€1,500.00");
+    expect(formatMoney(150000, "NGN")).toContain("1,500.00");
+    expect(formatMoney(150000, "NGN")).not.toContain("$");
+    expect(formatMoney(150000, "KES")).toContain("Ksh");
+    expect(formatMoney(150000, "ZAR")).toContain("R");
+  });
+});
+
+describe("resolveFxRate", () => {
+  const rates = [
+    rate("USD", "NGN", 1500, "2026-03-01"),
+    rate("USD", "NGN", 1550, "2026-03-05"),
+    rate("USD", "NGN", 1600, "2026-03-10"),
+    rate("USD", "NGN", 1560, "2026-03-05", null),
+    rate("EUR", "USD", 1.1, "2026-03-01", null),
+  ];
+
+  it("should use the latest rate on or before the date", () => {
+    expect(resolveFxRate(rates, "USD", "NGN", new Date("2026-03-07T12:00:00Z"))).toBe(1550);
+    expect(resolveFxRate(rates, "USD", "NGN", new Date("2026-02-28T00:00:00Z"))).toBeNull();
+  });
+
+  it("should invert and cross rates when no direct pair exists", () => {
+    expect(resolveFxRate(rates, "NGN", "USD", new Date("2026-03-01"))).toBeCloseTo(1 / 1500);
+    expect(resolveFxRate(rates, "EUR", "NGN", new Date("2026-03-01"))).toBeCloseTo(1650);
+    expect(resolveFxRate(rates, "KES", "USD", new Date("2026-03-01"))).toBeNull();
+  });
+});
+
+describe("conversion", () => {
+  it("should convert between minor units", () => {
+    // ₦1,550,000.00 at 1/1550 is $1,000.00
+    expect(convertMinor(155000000, 1 / 1550, "NGN", "USD")).toBe(100000);
+  });
+
+  it("should book a loss when the invoice currency weakens before payment", () => {
+    // ₦1.5M invoiced at 1500/USD, paid at 1600/USD
+    const gainLoss = realizedFxGainLoss(150000000, 1 / 1500, 1 / 1600, "NGN", "USD");
+    expect(gainLoss).toBe(93750 - 100000);
+  });
+
+  it("should total per currency and flag currencies without a rate", () => {
+    const totals = totalByCurrency(
+      [
+        { amount: 100000, currency: "USD" },
+        { amount: 155000000, currency: "NGN" },
+        { amount: 155000000, currency: "NGN", rate: 1 / 1500 },
+        { amount: 50000, currency: "KES" },
+      ],
+      "USD",
+      (amount, currency) => currency === "USD" ? amount : currency === "NGN" ? convertMinor(amount, 1 / 1550, "NGN", "USD") : null
+    );
+
+    expect(totals.byCurrency).toEqual({ USD: 100000, NGN: 310000000, KES: 50000 });
+    expect(totals.reporting).toBe(100000 + 100000 + 103333);
+    expect(totals.unconverted).toEqual(["KES"]);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Data Room Q&A Tests
+ *
+ * Bidder grouping, category routing, the answer workflow and approval rules,
+ * what each viewer sees, and the Q&A log export.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import type { DataRoomBidder, DataRoomQaRoute, DataRoomQuestion } from "../drizzle/schema";
+import {
+  bidderKeyFor,
+  DataRoomQaError,
+  generateQaLogCSV,
+  generateQaLogExcel,
+  nextStatus,
+  qaPermissions,
+  resolveRoute,
+  viewerQuestions,
+  type QaLogColumn,
+} from "./services/dataRoomQa";
+import { verifiedViewerEmail } from "./services/dataRoomViewer";
+
+const created = new Date("2026-10-19T09:00:00Z");
+
+const bidder = (id: number, overrides: Partial<DataRoomBidder> = {}): DataRoomBidder => ({
+  id,
+  dataRoomId: 1,
+  name: `Bidder ${id}`,
+  emails: [],
+  emailDomains: [],
+  createdAt: created,
+  ...overrides,
+});
+
+const route = (id: number, category: DataRoomQaRoute["category"], expertUserId: number): DataRoomQaRoute => ({
+  id,
+  dataRoomId: 1,
+  category,
+  expertUserId,
+  approverUserId: null,
+  createdAt: created,
+  updatedAt: created,
+});
+
+const question = (id: number, overrides: Partial<DataRoomQuestion> = {}): DataRoomQuestion => ({
+  id,
+  dataRoomId: 1,
+  rfiId: 100 + id,
+  itemId: null,
+  category: "general",
+  parentQuestionId: null,
+  sessionId: 1,
+  askerName: "Jane Investor",
+  askerEmail: "jane@alpha.example",
+  question: `Question ${id}?`,
+  status: "submitted",
+  approverUserId: null,
+  answerDraft: null,
+  draftedById: null,
+  draftedAt: null,
+  visibility: "private",
+  approvedById: null,
+  approvedAt: null,
+  publishedAnswer: null,
+  publishedAt: null,
+  declineReason: null,
+  createdAt: created,
+  updatedAt: created,
+  ...overrides,
+});
+
+const published = (overrides: Partial<DataRoomQuestion> = {}): Partial<DataRoomQuestion> => ({
+  status: "published",
+  answerDraft: "Yes.",
+  publishedAnswer: "Yes.",
+  publishedAt: new Date("2026-10-20T09:00:00Z"),
+  ...overrides,
+});
+
+describe("bidderKeyFor", () => {
+  const bidders = [
+    bidder(1, { emailDomains: ["alpha.example"] }),
+    bidder(2, { emails: ["Adviser@Law.example"], emailDomains: ["@beta.example"] }),
+  ];
+
+  it("groups viewers by listed email or domain", () => {
+    expect(bidderKeyFor("jane@alpha.example", bidders)).toBe("bidder:1");
+    expect(bidderKeyFor(" JOE@ALPHA.example ", bidders)).toBe("bidder:1");
+    expect(bidderKeyFor("ann@beta.example", bidders)).toBe("bidder:2");
+    expect(bidderKeyFor("adviser@law.example", bidders)).toBe("bidder:2");
+  });
+
+  it("prefers an email match over a domain match", () => {
+    const overlapping = [...bidders, bidder(3, { emails: ["max@alpha.example"] })];
+    expect(bidderKeyFor("max@alpha.example", overlapping)).toBe("bidder:3");
+  });
+
+  it("keeps ungrouped viewers apart by email", () => {
+    expect(bidderKeyFor("sam@gamma.example", bidders)).toBe("email:sam@gamma.example");
+    expect(bidderKeyFor("sam@sub.alpha.example", bidders)).toBe("email:sam@sub.alpha.example");
+  });
+});
+
+describe("resolveRoute", () => {
+  it("uses the category's route, then the default route", () => {
+    const routes = [route(1, null, 10), route(2, "legal", 20)];
+    expect(resolveRoute(routes, "legal")?.expertUserId).toBe(20);
+    expect(resolveRoute(routes, "financial")?.expertUserId).toBe(10);
+    expect(resolveRoute([route(2, "legal", 20)], "financial")).toBeNull();
+  });
+});
+
+describe("answer workflow", () => {
+  it("moves draft -> approval -> published", () => {
+    expect(nextStatus("submitted", "draft")).toBe("drafting");
+    expect(nextStatus("drafting", "submit")).toBe("pending_approval");
+    expect(nextStatus("pending_approval", "return")).toBe("drafting");
+    expect(nextStatus("pending_approval", "draft")).toBe("drafting");
+    expect(nextStatus("pending_approval", "approve")).toBe("published");
+  });
+
+  it("refuses to publish without approval or change a closed question", () => {
+    expect(() => nextStatus("drafting", "approve")).toThrow(DataRoomQaError);
+    expect(() => nextStatus("submitted", "submit")).toThrow("Cannot submit a question that is submitted");
+    expect(() => nextStatus("published", "draft")).toThrow("Cannot draft a question that is published");
+    expect(() => nextStatus("declined", "decline")).toThrow(DataRoomQaError);
+  });
+
+  it("lets the expert answer and someone else approve", () => {
+    const q = question(1, { approverUserId: 30, draftedById: 20 });
+    const expert = { userId: 20, isAdmin: false, isRoomEditor: false };
+    expect(qaPermissions(q, 20, expert)).toEqual({ canAnswer: true, canApprove: false });
+    expect(qaPermissions(q, 20, { ...expert, userId: 30 })).toEqual({ canAnswer: false, canApprove: true });
+    expect(qaPermissions(q, 20, { ...expert, userId: 40 })).toEqual({ canAnswer: false, canApprove: false });
+    expect(qaPermissions(q, 20, { ...expert, userId: 40, isRoomEditor: true })).toEqual({ canAnswer: true, canApprove: true });
+  });
+
+  it("stops editors approving their own drafts, but not admins", () => {
+    const q = question(1, { draftedById: 40 });
+    expect(qaPermissions(q, 20, { userId: 40, isAdmin: false, isRoomEditor: true }).canApprove).toBe(false);
+    expect(qaPermissions(q, 20, { userId: 40, isAdmin: true, isRoomEditor: false }).canApprove).toBe(true);
+  });
+});
+
+describe("viewerQuestions", () => {
+  const bidders = [bidder(1, { emailDomains: ["alpha.example"] }), bidder(2, { emailDomains: ["beta.example"] })];
+  const itemNames = new Map([[7, "Grid connection agreement"]]);
+  const questions = [
+    question(1, { itemId: 7 }),
+    question(2, { askerName: "Joe", askerEmail: "joe@alpha.example", ...published() }),
+    question(3, { askerName: "Ann", askerEmail: "ann@beta.example", status: "pending_approval", answerDraft: "Draft" }),
+    question(4, { askerName: "Ann", askerEmail: "ann@beta.example", ...published({ visibility: "all_bidders" }) }),
+    question(5, { askerName: "Ann", askerEmail: "ann@beta.example", ...published() }),
+    question(6, { status: "declined", declineReason: "Out of scope" }),
+  ];
+
+  it("shows a bidder its own questions and only published answers", () => {
+    const seen = viewerQuestions(questions, "joe@alpha.example", bidders, itemNames);
+    expect(seen.map(q => q.id)).toEqual([1, 2, 4, 6]);
+    expect(seen[0]).toMatchObject({ own: true, askedBy: "Jane Investor", itemName: "Grid connection agreement", status: "open", answer: null });
+    expect(seen[1]).toMatchObject({ own: true, status: "answered", answer: "Yes.", sharedWithAllBidders: false });
+    expect(seen[3]).toMatchObject({ status: "declined", declineReason: "Out of scope", answer: null });
+  });
+
+  it("anonymises other bidders' questions published to all", () => {
+    const shared = viewerQuestions(questions, "joe@alpha.example", bidders, itemNames).find(q => q.id === 4)!;
+    expect(shared).toMatchObject({ own: false, askedBy: null, answer: "Yes.", sharedWithAllBidders: true });
+    expect(JSON.stringify(shared)).not.toContain("beta.example");
+  });
+
+  it("never shows drafts or private answers to other bidders", () => {
+    const seen = viewerQuestions(questions, "ann@beta.example", bidders, itemNames);
+    expect(seen.map(q => q.id)).toEqual([3, 4, 5]);
+    expect(seen.find(q => q.id === 3)).toMatchObject({ status: "open", answer: null });
+    expect(viewerQuestions(questions, "sam@gamma.example", bidders, itemNames).map(q => q.id)).toEqual([4]);
+  });
+
+  it("treats a viewer claiming another bidder's email as anonymous until it is verified", () => {
+    const claimed = { accessorEmail: "ann@beta.example", emailVerifiedAt: null };
+    const seen = viewerQuestions(questions, verifiedViewerEmail(claimed), bidders, itemNames);
+    expect(seen.map(q => q.id)).toEqual([4]);
+    expect(seen[0]).toMatchObject({ own: false, askedBy: null });
+    expect(JSON.stringify(seen)).not.toContain("Draft");
+
+    const verified = { ...claimed, emailVerifiedAt: created };
+    expect(viewerQuestions(questions, verifiedViewerEmail(verified), bidders, itemNames).map(q => q.id)).toEqual([3, 4, 5]);
+  });
+});
+
+describe("Q&A log export", () => {
+  const columns: QaLogColumn<DataRoomQuestion>[] = [
+    { header: "#", value: q => q.id },
+    { header: "Question", value: q => q.question },
+    { header: "Published", value: q => q.publishedAt },
+  ];
+  const rows = [
+    question(1, { question: 'Is the "PPA" assignable, or not?' }),
+    question(2, published()),
+  ];
+
+  it("quotes CSV cells that need it", () => {
+    expect(generateQaLogCSV("Q&A Log - Sunrise", columns, rows).split("\n")).toEqual([
+      "Q&A Log - Sunrise",
+      "",
+      "#,Question,Published",
+      '1,"Is the ""PPA"" assignable, or not?",',
+      "2,Question 2?,2026-10-20 09:00",
+    ]);
+  });
+
+  it("writes the same rows to a workbook", () => {
+    const workbook = XLSX.read(generateQaLogExcel("Q&A Log - Sunrise", columns, rows), { type: "buffer" });
+    const sheet = workbook.Sheets["Q&A Log"];
+    const data = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false });
+    expect(data[0]).toEqual(["Q&A Log - Sunrise"]);
+    expect(data[1]).toEqual(["#", "Question", "Published"]);
+    expect(data[2]).toEqual([1, 'Is the "PPA" assignable, or not?', ""]);
+    expect(data[3]).toEqual([2, "Question 2?", "2026-10-20 09:00"]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Data Room Viewer Tests
+ *
+ * Link expiry and view limits, item permissions, NDA versions and the
+ * per-viewer watermark.
+ */
+
+import crypto from "crypto";
+import { describe, it, expect } from "vitest";
+import type { DataRoom } from "../drizzle/schema";
+import {
+  assertRoomOpen,
+  checkEmailCode,
+  checkEmailCodeRequest,
+  DataRoomAccessError,
+  itemPermissions,
+  ndaVersion,
+  prepareCopy,
+  sessionExpiry,
+  verifiedViewerEmail,
+  viewerWatermark,
+} from "./services/dataRoomViewer";
+
+const room = (overrides: Partial<DataRoom> = {}): DataRoom => ({
+  id: 1,
+  organizationId: 1,
+  projectId: 1,
+  name: "Project Sunrise",
+  description: null,
+  accessType: "link_only",
+  accessToken: "token",
+  passwordHash: null,
+  expiresAt: null,
+  maxViews: null,
+  viewOnly: false,
+  watermarkEnabled: true,
+  ndaRequired: false,
+  ndaText: null,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  createdById: 1,
+  ...overrides,
+});
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+function accessCode(fn: () => void): string | null {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error instanceof DataRoomAccessError ? error.code : "other";
+  }
+}
+
+describe("assertRoomOpen", () => {
+  it("opens link rooms within their expiry and view limit", () => {
+    expect(accessCode(() => assertRoomOpen(room(), 100, now))).toBeNull();
+    expect(accessCode(() => assertRoomOpen(room({ maxViews: 3, expiresAt: new Date("2026-11-01") }), 2, now))).toBeNull();
+  });
+
+  it("refuses private, expired and exhausted links", () => {
+    expect(accessCode(() => assertRoomOpen(room({ accessType: "private" }), 0, now))).toBe("not_found");
+    expect(accessCode(() => assertRoomOpen(room({ expiresAt: new Date("2026-10-19T11:59:00Z") }), 0, now))).toBe("expired");
+    expect(accessCode(() => assertRoomOpen(room({ maxViews: 3 }), 3, now))).toBe("view_limit");
+  });
+});
+
+describe("itemPermissions", () => {
+  it("serves items view-only unless downloads are allowed", () => {
+    expect(itemPermissions(room(), { allowDownload: false, allowPrint: false }))
+      .toEqual({ viewOnly: true, canDownload: false, canPrint: false });
+    expect(itemPermissions(room(), { allowDownload: false, allowPrint: true }))
+      .toEqual({ viewOnly: true, canDownload: false, canPrint: true });
+    expect(itemPermissions(room(), { allowDownload: true, allowPrint: true }))
+      .toEqual({ viewOnly: false, canDownload: true, canPrint: true });
+  });
+
+  it("lets a view-only room override item permissions", () => {
+    expect(itemPermissions(room({ viewOnly: true }), { allowDownload: true, allowPrint: true }))
+      .toEqual({ viewOnly: true, canDownload: false, canPrint: false });
+  });
+});
+
+describe("sessions", () => {
+  it("end after eight hours or at the link expiry", () => {
+    expect(sessionExpiry(room(), now).toISOString()).toBe("2026-10-19T20:00:00.000Z");
+    const expiresAt = new Date("2026-10-19T15:00:00Z");
+    expect(sessionExpiry(room({ expiresAt }), now)).toEqual(expiresAt);
+  });
+
+  it("version the NDA by its text", () => {
+    expect(ndaVersion("Keep it secret.")).toBe(ndaVersion("  Keep it secret.\n"));
+    expect(ndaVersion("Keep it secret.")).not.toBe(ndaVersion("Keep it very secret."));
+    expect(ndaVersion("x")).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describe("viewer watermark", () => {
+  it("names the viewer, time and IP", () => {
+    const watermark = viewerWatermark({ name: "Jane Investor", email: "jane@fund.example" }, now, "203.0.113.7");
+    expect(watermark.lines).toEqual(["Jane Investor <jane@fund.example>", "2026-10-19 12:00 UTC · 203.0.113.7"]);
+    expect(watermark.footer).toBe("Confidential · Provided to Jane Investor (jane@fund.example) · 2026-10-19 12:00 UTC · 203.0.113.7");
+  });
+
+  it("only hands out non-PDF files unstamped when watermarking is off", () => {
+    const file = { bytes: Buffer.from("a,b\n1,2\n"), mimeType: "text/csv", fileName: "model.csv" };
+    expect(prepareCopy(file, null)).toBe(file.bytes);
+    const watermark = viewerWatermark({ name: "Jane", email: "jane@fund.example" }, now, null);
+    expect(accessCode(() => prepareCopy(file, watermark))).toBe("unsupported");
+  });
+});
+
+describe("email verification", () => {
+  const codeHash = (sessionId: number, code: string) => crypto.createHash("sha256").update(`${sessionId}:${code}`).digest("hex");
+  const session = {
+    id: 9,
+    accessorEmail: "jane@fund.example",
+    emailVerifiedAt: null,
+    emailCodeHash: codeHash(9, "042137"),
+    emailCodeExpiresAt: new Date("2026-10-19T12:15:00Z"),
+    emailCodeAttempts: 0,
+    emailCodesSent: 1,
+    emailCodeSentAt: new Date("2026-10-19T11:59:30Z"),
+  };
+
+  it("accepts only the code sent to that session, before it expires", () => {
+    expect(checkEmailCode(session, "042137", now)).toBe("ok");
+    expect(checkEmailCode(session, " 042137 ", now)).toBe("ok");
+    expect(checkEmailCode(session, "042138", now)).toBe("invalid");
+    expect(checkEmailCode({ ...session, id: 10 }, "042137", now)).toBe("invalid");
+    expect(checkEmailCode(session, "042137", new Date("2026-10-19T12:15:00Z"))).toBe("expired");
+    expect(checkEmailCode({ ...session, emailCodeHash: null }, "042137", now)).toBe("expired");
+  });
+
+  it("locks the code after five wrong attempts", () => {
+    expect(checkEmailCode({ ...session, emailCodeAttempts: 5 }, "042137", now)).toBe("locked");
+  });
+
+  it("throttles and caps code requests instead of resetting the guesses", () => {
+    expect(checkEmailCodeRequest(session, now)).toBe("throttled");
+    expect(checkEmailCodeRequest(session, new Date("2026-10-19T12:00:30Z"))).toBe("ok");
+    expect(checkEmailCodeRequest({ ...session, emailCodeSentAt: null, emailCodesSent: 0 }, now)).toBe("ok");
+    expect(checkEmailCodeRequest({ ...session, emailCodesSent: 5 }, new Date("2026-10-19T13:00:00Z"))).toBe("limit");
+    expect(checkEmailCodeRequest({ ...session, emailCodeAttempts: 5 }, new Date("2026-10-19T13:00:00Z"))).toBe("locked");
+  });
+
+  it("only vouches for the session email once it is verified", () => {
+    expect(verifiedViewerEmail(session)).toBeNull();
+    expect(verifiedViewerEmail({ ...session, emailVerifiedAt: now })).toBe("jane@fund.example");
+  });
+});
@@ -24,6 +24,8 @@ import {
   InsertVatrAsset, InsertVatrSourceDocument, InsertVatrAuditLogEntry, InsertVatrVerification,
   generatedReports, complianceItems, complianceAlerts, InsertGeneratedReport, InsertComplianceItem, InsertComplianceAlert,
   dataRooms, dataRoomItems, dataRoomAccessLog, InsertDataRoom, InsertDataRoomItem, InsertDataRoomAccessLogEntry,
+  dataRoomViewerSessions, InsertDataRoomViewerSession,
+  dataRoomQaRoutes, dataRoomBidders, dataRoomQuestions, InsertDataRoomQaRoute, InsertDataRoomBidder, InsertDataRoomQuestion,
   whatsappConfigs, whatsappMessages, whatsappSenderMappings, whatsappTemplates,
   emailConfigs, apiKeys, apiRequestLog,
   InsertWhatsappConfig, InsertWhatsappMessage, InsertWhatsappSenderMapping, InsertWhatsappTemplate,
@@ -100,13 +102,18 @@ import {
   ServerSession, UserMfaConfig, AuthAuditLog,
   // Phase 36: Obligations + Calendar Lens + Notifications
   obligations, obligationLinks, obligationAssignments, obligationAuditLog,
+  obligationOccurrences, obligationOccurrenceEvidence,
   reminderPolicies, escalationPolicies, notificationEvents,
   externalCalendarBindings, externalCalendarEvents, obligationViewOverlays,
+  calendarSyncConflicts, calendarFeedTokens,
   InsertObligation, InsertObligationLink, InsertObligationAssignment, InsertObligationAuditLog,
+  InsertObligationOccurrence, InsertObligationOccurrenceEvidence,
   InsertReminderPolicy, InsertEscalationPolicy, InsertNotificationEvent,
   InsertExternalCalendarBinding, InsertExternalCalendarEvent, InsertObligationViewOverlay,
+  InsertCalendarSyncConflict, InsertCalendarFeedToken,
   Obligation, ObligationLink, ObligationAssignment, ReminderPolicy, EscalationPolicy, NotificationEvent,
-  ExternalCalendarBinding, ExternalCalendarEvent,
+  ObligationOccurrence, ObligationOccurrenceEvidence,
+  ExternalCalendarBinding, ExternalCalendarEvent, CalendarSyncConflict, CalendarFeedToken,
   // Password Reset
   passwordResetTokens, InsertPasswordResetToken, PasswordResetToken,
   // Phase 38: Email Templates, Reminders, Bulk Import
@@ -1661,6 +1668,196 @@ export async function getDataRoomAccessLog(dataRoomId: number) {
     .orderBy(desc(dataRoomAccessLog.accessedAt));
 }
 
+export async function updateDataRoom(id: number, data: Partial<InsertDataRoom>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(dataRooms).set(data).where(eq(dataRooms.id, id));
+}
+
+export async function getDataRoomItemById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(dataRoomItems).where(eq(dataRoomItems.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateDataRoomItem(id: number, data: Partial<InsertDataRoomItem>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(dataRoomItems).set(data).where(eq(dataRoomItems.id, id));
+}
+
+export async function hasAcceptedDataRoomNda(dataRoomId: number, accessorEmail: string, ndaVersion: string): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const result = await db.select({ id: dataRoomAccessLog.id }).from(dataRoomAccessLog)
+    .where(and(
+      eq(dataRoomAccessLog.dataRoomId, dataRoomId),
+      eq(dataRoomAccessLog.accessorEmail, accessorEmail),
+      eq(dataRoomAccessLog.action, 'nda_accepted'),
+      eq(dataRoomAccessLog.ndaVersion, ndaVersion)
+    ))
+    .limit(1);
+  return result.length > 0;
+}
+
+export async function createDataRoomViewerSession(data: InsertDataRoomViewerSession): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [result] = await db.insert(dataRoomViewerSessions).values(data);
+  return Number(result.insertId);
+}
+
+export async function countDataRoomViewerSessions(dataRoomId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+  const [result] = await db.select({ count: sql<number>`count(*)` }).from(dataRoomViewerSessions)
+    .where(eq(dataRoomViewerSessions.dataRoomId, dataRoomId));
+  return Number(result?.count ?? 0);
+}
+
+export async function getDataRoomViewerSessionByHash(tokenHash: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(dataRoomViewerSessions)
+    .where(eq(dataRoomViewerSessions.tokenHash, tokenHash))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateDataRoomViewerSession(id: number, data: Partial<InsertDataRoomViewerSession>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(dataRoomViewerSessions).set(data).where(eq(dataRoomViewerSessions.id, id));
+}
+
+/** Count one code guess against the session; false once `limit` guesses are used */
+export async function claimDataRoomEmailCodeAttempt(id: number, limit: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const result = await db.update(dataRoomViewerSessions)
+    .set({ emailCodeAttempts: sql`${dataRoomViewerSessions.emailCodeAttempts} + 1` })
+    .where(and(eq(dataRoomViewerSessions.id, id), lt(dataRoomViewerSessions.emailCodeAttempts, limit)));
+  return result[0].affectedRows > 0;
+}
+
+/** Count one code email against the session; false past `limit` sends or if the last was sent after `notAfter` */
+export async function claimDataRoomEmailCodeSend(id: number, limit: number, notAfter: Date): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const result = await db.update(dataRoomViewerSessions)
+    .set({ emailCodesSent: sql`${dataRoomViewerSessions.emailCodesSent} + 1`, emailCodeSentAt: new Date() })
+    .where(and(
+      eq(dataRoomViewerSessions.id, id),
+      lt(dataRoomViewerSessions.emailCodesSent, limit),
+      or(isNull(dataRoomViewerSessions.emailCodeSentAt), lte(dataRoomViewerSessions.emailCodeSentAt, notAfter))
+    ));
+  return result[0].affectedRows > 0;
+}
+
+export async function touchDataRoomViewerSession(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(dataRoomViewerSessions).set({ lastSeenAt: new Date() }).where(eq(dataRoomViewerSessions.id, id));
+}
+
+export async function getDataRoomQaRoutes(dataRoomId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(dataRoomQaRoutes).where(eq(dataRoomQaRoutes.dataRoomId, dataRoomId));
+}
+
+// One route per category (null category is the default route)
+export async function upsertDataRoomQaRoute(data: InsertDataRoomQaRoute) {
+  const db = await getDb();
+  if (!db) return;
+  const [existing] = await db.select({ id: dataRoomQaRoutes.id }).from(dataRoomQaRoutes)
+    .where(and(
+      eq(dataRoomQaRoutes.dataRoomId, data.dataRoomId),
+      data.category ? eq(dataRoomQaRoutes.category, data.category) : isNull(dataRoomQaRoutes.category)
+    ))
+    .limit(1);
+  if (existing) {
+    await db.update(dataRoomQaRoutes)
+      .set({ expertUserId: data.expertUserId, approverUserId: data.approverUserId ?? null })
+      .where(eq(dataRoomQaRoutes.id, existing.id));
+  } else {
+    await db.insert(dataRoomQaRoutes).values(data);
+  }
+}
+
+export async function deleteDataRoomQaRoute(dataRoomId: number, id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(dataRoomQaRoutes).where(and(eq(dataRoomQaRoutes.id, id), eq(dataRoomQaRoutes.dataRoomId, dataRoomId)));
+}
+
+export async function getDataRoomBidders(dataRoomId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(dataRoomBidders)
+    .where(eq(dataRoomBidders.dataRoomId, dataRoomId))
+    .orderBy(dataRoomBidders.name);
+}
+
+export async function createDataRoomBidder(data: InsertDataRoomBidder): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [result] = await db.insert(dataRoomBidders).values(data);
+  return Number(result.insertId);
+}
+
+export async function updateDataRoomBidder(dataRoomId: number, id: number, data: Partial<InsertDataRoomBidder>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(dataRoomBidders).set(data)
+    .where(and(eq(dataRoomBidders.id, id), eq(dataRoomBidders.dataRoomId, dataRoomId)));
+}
+
+export async function deleteDataRoomBidder(dataRoomId: number, id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(dataRoomBidders).where(and(eq(dataRoomBidders.id, id), eq(dataRoomBidders.dataRoomId, dataRoomId)));
+}
+
+export async function createDataRoomQuestion(data: InsertDataRoomQuestion): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [result] = await db.insert(dataRoomQuestions).values(data);
+  return Number(result.insertId);
+}
+
+export async function getDataRoomQuestionById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(dataRoomQuestions).where(eq(dataRoomQuestions.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getDataRoomQuestions(dataRoomId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(dataRoomQuestions)
+    .where(eq(dataRoomQuestions.dataRoomId, dataRoomId))
+    .orderBy(asc(dataRoomQuestions.createdAt), asc(dataRoomQuestions.id));
+}
+
+export async function updateDataRoomQuestion(id: number, data: Partial<InsertDataRoomQuestion>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(dataRoomQuestions).set(data).where(eq(dataRoomQuestions.id, id));
+}
+
+export async function getUserNamesByIds(ids: number[]): Promise<Map<number, string>> {
+  const db = await getDb();
+  const names = new Map<number, string>();
+  if (!db || ids.length === 0) return names;
+  const rows = await db.select({ id: users.id, name: users.name, email: users.email }).from(users)
+    .where(inArray(users.id, Array.from(new Set(ids))));
+  for (const row of rows) names.set(row.id, row.name || row.email || `User ${row.id}`);
+  return names;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // PRINCIPLE 5: MULTI-CHANNEL INTERFACE
 // ═══════════════════════════════════════════════════════════════
@@ -6147,7 +6344,9 @@ export type JobType =
   | "report_generation"
   | "data_export"
   | "file_processing"
-  | "webhook_delivery";
+  | "webhook_delivery"
+  | "monte_carlo_simulation"
+  | "contract_extraction";
 
 export type JobStatus = "queued" | "processing" | "completed" | "failed" | "cancelled";
 export type JobPriority = "low" | "normal" | "high" | "critical";
@@ -11964,6 +12163,140 @@ export async function unassignObligation(
   return result[0].affectedRows > 0;
 }
 
+// ============ OBLIGATION OCCURRENCES ============
+
+/**
+ * Get active recurring obligations whose series has started by `before`
+ */
+export async function getRecurringObligations(
+  organizationId: number,
+  before: Date,
+  filters?: { obligationIds?: number[] }
+): Promise<Obligation[]> {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [
+    eq(obligations.organizationId, organizationId),
+    isNotNull(obligations.recurrenceRule),
+    ne(obligations.recurrenceRule, ""),
+    inArray(obligations.status, ["OPEN", "IN_PROGRESS", "BLOCKED", "WAITING_REVIEW", "OVERDUE"]),
+    lte(obligations.dueAt, before)
+  ];
+  if (filters?.obligationIds) {
+    if (filters.obligationIds.length === 0) return [];
+    conditions.push(inArray(obligations.id, filters.obligationIds));
+  }
+  
+  return await db
+    .select()
+    .from(obligations)
+    .where(and(...conditions));
+}
+
+/**
+ * Get stored occurrences of the given obligations, optionally only those
+ * generated or due within a window
+ */
+export async function getObligationOccurrences(
+  obligationIds: number[],
+  organizationId: number,
+  range?: { from: Date; to: Date }
+): Promise<ObligationOccurrence[]> {
+  const db = await getDb();
+  if (!db || obligationIds.length === 0) return [];
+  
+  const conditions = [
+    inArray(obligationOccurrences.obligationId, obligationIds),
+    eq(obligationOccurrences.organizationId, organizationId)
+  ];
+  if (range) {
+    conditions.push(or(
+      and(gte(obligationOccurrences.occurrenceAt, range.from), lte(obligationOccurrences.occurrenceAt, range.to)),
+      and(gte(obligationOccurrences.dueAt, range.from), lte(obligationOccurrences.dueAt, range.to))
+    )!);
+  }
+  
+  return await db
+    .select()
+    .from(obligationOccurrences)
+    .where(and(...conditions))
+    .orderBy(asc(obligationOccurrences.dueAt));
+}
+
+/**
+ * Get a stored occurrence by the instant its rule generated
+ */
+export async function getObligationOccurrence(
+  obligationId: number,
+  occurrenceAt: Date,
+  organizationId: number
+): Promise<ObligationOccurrence | null> {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const [occurrence] = await db
+    .select()
+    .from(obligationOccurrences)
+    .where(and(
+      eq(obligationOccurrences.obligationId, obligationId),
+      eq(obligationOccurrences.occurrenceAt, occurrenceAt),
+      eq(obligationOccurrences.organizationId, organizationId)
+    ))
+    .limit(1);
+  
+  return occurrence ?? null;
+}
+
+/**
+ * Create or update the stored state of an occurrence
+ */
+export async function upsertObligationOccurrence(
+  data: InsertObligationOccurrence,
+  updates: Partial<InsertObligationOccurrence>
+): Promise<ObligationOccurrence | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db
+    .insert(obligationOccurrences)
+    .values({ ...data, ...updates })
+    .onDuplicateKeyUpdate({ set: { ...updates, updatedAt: new Date() } });
+  
+  return await getObligationOccurrence(data.obligationId, data.occurrenceAt, data.organizationId);
+}
+
+/**
+ * Add evidence to an occurrence
+ */
+export async function addObligationOccurrenceEvidence(data: InsertObligationOccurrenceEvidence): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.insert(obligationOccurrenceEvidence).values(data);
+  return result.insertId;
+}
+
+/**
+ * Get evidence attached to an occurrence
+ */
+export async function getObligationOccurrenceEvidence(
+  occurrenceId: number,
+  organizationId: number
+): Promise<ObligationOccurrenceEvidence[]> {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db
+    .select()
+    .from(obligationOccurrenceEvidence)
+    .where(and(
+      eq(obligationOccurrenceEvidence.occurrenceId, occurrenceId),
+      eq(obligationOccurrenceEvidence.organizationId, organizationId)
+    ))
+    .orderBy(asc(obligationOccurrenceEvidence.createdAt));
+}
+
 // ============ OBLIGATION AUDIT LOG ============
 
 /**
@@ -12300,6 +12633,38 @@ export async function updateCalendarBinding(
   return result[0].affectedRows > 0;
 }
 
+/**
+ * Get calendar binding by ID
+ */
+export async function getCalendarBindingById(id: number): Promise<ExternalCalendarBinding | null> {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const [binding] = await db
+    .select()
+    .from(externalCalendarBindings)
+    .where(eq(externalCalendarBindings.id, id))
+    .limit(1);
+  
+  return binding ?? null;
+}
+
+/**
+ * Get active bindings with sync enabled, across organizations
+ */
+export async function getSyncEnabledCalendarBindings(): Promise<ExternalCalendarBinding[]> {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db
+    .select()
+    .from(externalCalendarBindings)
+    .where(and(
+      eq(externalCalendarBindings.status, "active"),
+      eq(externalCalendarBindings.syncEnabled, true)
+    ));
+}
+
 /**
  * Revoke calendar binding
  */
@@ -12339,8 +12704,12 @@ export async function upsertExternalCalendarEvent(data: InsertExternalCalendarEv
     await db
       .update(externalCalendarEvents)
       .set({
+        bindingId: data.bindingId,
         externalEventId: data.externalEventId,
         syncStatus: data.syncStatus as any,
+        externalVersion: data.externalVersion,
+        syncedDueAt: data.syncedDueAt,
+        lastSyncError: null,
         lastSyncedAt: new Date(),
         updatedAt: new Date()
       })
@@ -12396,6 +12765,226 @@ export async function getPendingSyncEvents(
     ));
 }
 
+/**
+ * Get synced events tracked for a calendar binding
+ */
+export async function getExternalCalendarEventsForBinding(bindingId: number): Promise<ExternalCalendarEvent[]> {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db
+    .select()
+    .from(externalCalendarEvents)
+    .where(eq(externalCalendarEvents.bindingId, bindingId));
+}
+
+/**
+ * Update an external calendar event record
+ */
+export async function updateExternalCalendarEvent(
+  id: number,
+  updates: Partial<InsertExternalCalendarEvent>
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  
+  const result = await db
+    .update(externalCalendarEvents)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(externalCalendarEvents.id, id));
+  
+  return result[0].affectedRows > 0;
+}
+
+// ============ CALENDAR SYNC CONFLICTS ============
+
+/**
+ * Record a calendar sync conflict
+ */
+export async function createCalendarSyncConflict(data: InsertCalendarSyncConflict): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.insert(calendarSyncConflicts).values(data);
+  return result.insertId;
+}
+
+/**
+ * Get the open conflict for a synced event, if any
+ */
+export async function getOpenCalendarSyncConflictForEvent(
+  externalEventRecordId: number
+): Promise<CalendarSyncConflict | null> {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const [conflict] = await db
+    .select()
+    .from(calendarSyncConflicts)
+    .where(and(
+      eq(calendarSyncConflicts.externalEventRecordId, externalEventRecordId),
+      eq(calendarSyncConflicts.status, "open")
+    ))
+    .limit(1);
+  
+  return conflict ?? null;
+}
+
+/**
+ * Get calendar sync conflict by ID
+ */
+export async function getCalendarSyncConflictById(
+  id: number,
+  organizationId: number
+): Promise<CalendarSyncConflict | null> {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const [conflict] = await db
+    .select()
+    .from(calendarSyncConflicts)
+    .where(and(
+      eq(calendarSyncConflicts.id, id),
+      eq(calendarSyncConflicts.organizationId, organizationId)
+    ))
+    .limit(1);
+  
+  return conflict ?? null;
+}
+
+/**
+ * List calendar sync conflicts awaiting review
+ */
+export async function listOpenCalendarSyncConflicts(
+  organizationId: number,
+  bindingIds?: number[]
+): Promise<CalendarSyncConflict[]> {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [
+    eq(calendarSyncConflicts.organizationId, organizationId),
+    eq(calendarSyncConflicts.status, "open")
+  ];
+  if (bindingIds) {
+    if (bindingIds.length === 0) return [];
+    conditions.push(inArray(calendarSyncConflicts.bindingId, bindingIds));
+  }
+  
+  return await db
+    .select()
+    .from(calendarSyncConflicts)
+    .where(and(...conditions))
+    .orderBy(desc(calendarSyncConflicts.createdAt));
+}
+
+/**
+ * Update a calendar sync conflict
+ */
+export async function updateCalendarSyncConflict(
+  id: number,
+  updates: Partial<InsertCalendarSyncConflict>
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  
+  const result = await db
+    .update(calendarSyncConflicts)
+    .set(updates)
+    .where(eq(calendarSyncConflicts.id, id));
+  
+  return result[0].affectedRows > 0;
+}
+
+// ============ CALENDAR FEED TOKENS ============
+
+/**
+ * Create calendar feed token
+ */
+export async function createCalendarFeedToken(data: InsertCalendarFeedToken): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.insert(calendarFeedTokens).values(data);
+  return result.insertId;
+}
+
+/**
+ * Get an unrevoked calendar feed token by hash
+ */
+export async function getCalendarFeedTokenByHash(tokenHash: string): Promise<CalendarFeedToken | null> {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const [token] = await db
+    .select()
+    .from(calendarFeedTokens)
+    .where(and(
+      eq(calendarFeedTokens.tokenHash, tokenHash),
+      isNull(calendarFeedTokens.revokedAt)
+    ))
+    .limit(1);
+  
+  return token ?? null;
+}
+
+/**
+ * List a user's calendar feed tokens
+ */
+export async function listCalendarFeedTokens(
+  userId: number,
+  organizationId: number
+): Promise<CalendarFeedToken[]> {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db
+    .select()
+    .from(calendarFeedTokens)
+    .where(and(
+      eq(calendarFeedTokens.userId, userId),
+      eq(calendarFeedTokens.organizationId, organizationId),
+      isNull(calendarFeedTokens.revokedAt)
+    ))
+    .orderBy(desc(calendarFeedTokens.createdAt));
+}
+
+/**
+ * Record that a feed was fetched
+ */
+export async function touchCalendarFeedToken(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db
+    .update(calendarFeedTokens)
+    .set({ lastAccessedAt: new Date() })
+    .where(eq(calendarFeedTokens.id, id));
+}
+
+/**
+ * Revoke a user's calendar feed token
+ */
+export async function revokeCalendarFeedToken(
+  id: number,
+  userId: number,
+  organizationId: number
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  
+  const result = await db
+    .update(calendarFeedTokens)
+    .set({ revokedAt: new Date() })
+    .where(and(
+      eq(calendarFeedTokens.id, id),
+      eq(calendarFeedTokens.userId, userId),
+      eq(calendarFeedTokens.organizationId, organizationId)
+    ));
+  
+  return result[0].affectedRows > 0;
+}
+
 // ============ OBLIGATION VIEW OVERLAYS ============
 
 /**
@@ -13955,6 +14544,7 @@ export async function updateFinancialModel(id: number, data: Partial<{
   status: 'draft' | 'review' | 'approved' | 'superseded' | 'archived';
   scenarioName: string;
   extractionStatus: 'pending' | 'processing' | 'completed' | 'failed';
+  mappingTemplateId: number | null;
 }>) {
   const db = await getDb();
   if (!db) return;
@@ -14003,7 +14593,7 @@ export async function saveFinancialModelMetrics(modelId: number, metrics: {
   codDate?: Date;
   confidence: number;
   extractionNotes?: string[];
-}) {
+}, assumptions?: schema.ModelAssumptionInputs) {
   const db = await getDb();
   if (!db) return;
   
@@ -14029,6 +14619,15 @@ export async function saveFinancialModelMetrics(modelId: number, metrics: {
     codDate: metrics.codDate,
     extractionConfidence: metrics.confidence?.toString(),
     extractionNotes: metrics.extractionNotes?.join('\n'),
+    degradationRate: assumptions?.degradation?.toString(),
+    interestRate: assumptions?.interestRate?.toString(),
+    debtTenorYears: assumptions?.debtTenorYears,
+    discountRate: assumptions?.discountRate?.toString(),
+    inflationRate: assumptions?.inflation?.toString(),
+    taxRate: assumptions?.taxRate?.toString(),
+    p50Production: assumptions?.p50Production?.toString(),
+    p90Production: assumptions?.p90Production?.toString(),
+    assumptionInputs: assumptions && Object.keys(assumptions).length > 0 ? assumptions : undefined,
   });
 }
 
@@ -14109,6 +14708,126 @@ export async function deleteFinancialModelCashFlows(modelId: number) {
     .where(eq(schema.financialModelCashFlows.financialModelId, modelId));
 }
 
+export async function saveFinancialModelCellRefs(modelId: number, refs: Array<{
+  field: string;
+  year?: number;
+  label?: string;
+  sheet: string;
+  cell: string;
+  formula?: string;
+  displayValue?: string;
+  value: number | string | null;
+  method: 'pattern' | 'template';
+}>) {
+  const db = await getDb();
+  if (!db || refs.length === 0) return;
+  
+  await db.insert(schema.financialModelCellRefs).values(refs.map(ref => ({
+    financialModelId: modelId,
+    field: ref.field,
+    year: ref.year,
+    label: ref.label?.slice(0, 255),
+    sheet: ref.sheet,
+    cell: ref.cell,
+    formula: ref.formula,
+    displayValue: ref.displayValue?.slice(0, 255),
+    numericValue: typeof ref.value === 'number' ? ref.value.toString() : undefined,
+    method: ref.method,
+  })));
+}
+
+export async function getFinancialModelCellRefs(modelId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select()
+    .from(schema.financialModelCellRefs)
+    .where(eq(schema.financialModelCellRefs.financialModelId, modelId))
+    .orderBy(schema.financialModelCellRefs.field, schema.financialModelCellRefs.year);
+}
+
+export async function deleteFinancialModelCellRefs(modelId: number) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.delete(schema.financialModelCellRefs)
+    .where(eq(schema.financialModelCellRefs.financialModelId, modelId));
+}
+
+export async function getFinancialModelMappingTemplates(organizationId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select()
+    .from(schema.financialModelMappingTemplates)
+    .where(eq(schema.financialModelMappingTemplates.organizationId, organizationId))
+    .orderBy(schema.financialModelMappingTemplates.name);
+}
+
+export async function getFinancialModelMappingTemplateById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const results = await db.select()
+    .from(schema.financialModelMappingTemplates)
+    .where(eq(schema.financialModelMappingTemplates.id, id))
+    .limit(1);
+  
+  return results[0] || null;
+}
+
+export async function saveFinancialModelMappingTemplate(data: schema.InsertFinancialModelMappingTemplate) {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+  
+  const { id, ...values } = data;
+  if (id) {
+    await db.update(schema.financialModelMappingTemplates)
+      .set(values)
+      .where(and(
+        eq(schema.financialModelMappingTemplates.id, id),
+        eq(schema.financialModelMappingTemplates.organizationId, data.organizationId)
+      ));
+    return { id };
+  }
+  
+  const result = await db.insert(schema.financialModelMappingTemplates).values(values);
+  return { id: Number(result[0].insertId) };
+}
+
+export async function deleteFinancialModelMappingTemplate(organizationId: number, id: number) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.delete(schema.financialModelMappingTemplates)
+    .where(and(
+      eq(schema.financialModelMappingTemplates.id, id),
+      eq(schema.financialModelMappingTemplates.organizationId, organizationId)
+    ));
+  await db.update(schema.financialModels)
+    .set({ mappingTemplateId: null })
+    .where(eq(schema.financialModels.mappingTemplateId, id));
+}
+
+// Template used by the latest other version of a model (same project and name)
+export async function getInheritedMappingTemplateId(model: { id: number; projectId: number; name: string }) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const results = await db.select({ mappingTemplateId: schema.financialModels.mappingTemplateId })
+    .from(schema.financialModels)
+    .where(and(
+      eq(schema.financialModels.projectId, model.projectId),
+      eq(schema.financialModels.name, model.name),
+      ne(schema.financialModels.id, model.id),
+      isNotNull(schema.financialModels.mappingTemplateId)
+    ))
+    .orderBy(desc(schema.financialModels.createdAt))
+    .limit(1);
+  
+  return results[0]?.mappingTemplateId ?? null;
+}
+
 export async function createFinancialModelComparison(data: {
   modelId: number;
   projectId: number;
@@ -14148,11 +14867,15 @@ export async function createFinancialModelComparison(data: {
 export async function getFinancialModelComparisons(modelId: number, filters?: {
   startDate?: string;
   endDate?: string;
+  comparisonType?: 'actuals' | 'scenario';
 }) {
   const db = await getDb();
   if (!db) return [];
   
-  const conditions = [eq(schema.financialModelComparisons.financialModelId, modelId)];
+  const conditions = [
+    eq(schema.financialModelComparisons.financialModelId, modelId),
+    eq(schema.financialModelComparisons.comparisonType, filters?.comparisonType ?? 'actuals'),
+  ];
   
   if (filters?.startDate) {
     conditions.push(gte(schema.financialModelComparisons.periodStart, new Date(filters.startDate)));
@@ -0,0 +1,146 @@
+/**
+ * Excel Extraction Tests
+ *
+ * Cell-level provenance for metrics and cash flows, typed assumptions and
+ * mapping templates reused across model versions.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import {
+  describeProvenance,
+  extractFinancialData,
+  formatCellAddress,
+  templateFromProvenance,
+} from "./services/excelExtraction";
+
+function buildWorkbook(options: { returnsOffset?: number } = {}): Buffer {
+  const workbook = XLSX.utils.book_new();
+
+  const cashFlow = XLSX.utils.aoa_to_sheet([
+    ["Cash Flow", null, null, null, null],
+    ["Line item", "Year 1", "Year 2", "Year 3", "Year 4"],
+    ["Revenue", 400, 410, 420, 430],
+    ["Opex", -100, -102, -104, -106],
+    ["EBITDA", 300, 308, 316, 324],
+    ["Debt service", -150, -150, -150, -150],
+    ["Net cash flow", 150, 158, 166, 174],
+  ]);
+  XLSX.utils.book_append_sheet(workbook, cashFlow, "Cash Flow");
+
+  const padding = Array.from({ length: options.returnsOffset ?? 0 }, () => [null, null]);
+  const returns = XLSX.utils.aoa_to_sheet([
+    ["Returns", null],
+    ...padding,
+    ["Project IRR", 0.124],
+    ["Min DSCR", 1.35],
+  ]);
+  const irrCell = returns[`B${2 + padding.length}`] as XLSX.CellObject;
+  irrCell.f = "IRR('Cash Flow'!B7:E7)";
+  irrCell.z = "0.0%";
+  XLSX.utils.book_append_sheet(workbook, returns, "Returns");
+
+  const inputs = XLSX.utils.aoa_to_sheet([
+    ["Assumptions", null],
+    ["Tariff (USD/MWh)", 85],
+    ["Tariff escalation", 0.02],
+    ["Degradation", "0.5%"],
+    ["Opex escalation", 2.5],
+    ["Interest rate", 0.07],
+    ["Debt tenor (years)", 15],
+    ["COD", new Date(Date.UTC(2027, 5, 30))],
+  ]);
+  XLSX.utils.book_append_sheet(workbook, inputs, "Assumptions");
+
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+describe("extractFinancialData provenance", () => {
+  it("should record the sheet, cell and formula behind each metric", async () => {
+    const result = await extractFinancialData(buildWorkbook(), "model.xlsx");
+
+    expect(result.success).toBe(true);
+    expect(result.metrics.irr).toBeCloseTo(0.124, 6);
+    const irr = result.provenance.find(p => p.field === "irr");
+    expect(irr).toMatchObject({ sheet: "Returns", cell: "B2", formula: "IRR('Cash Flow'!B7:E7)", label: "Project IRR", method: "pattern" });
+    expect(describeProvenance(irr!)).toBe("Project IRR 12.4% ← Returns!B2 = IRR('Cash Flow'!B7:E7)");
+    expect(result.provenance.find(p => p.field === "minDscr")?.cell).toBe("B3");
+  });
+
+  it("should point cash flow values at their row and year column", async () => {
+    const result = await extractFinancialData(buildWorkbook(), "model.xlsx");
+
+    expect(result.cashFlows.map(cf => cf.revenue)).toEqual([400, 410, 420, 430]);
+    const revenue = result.provenance.filter(p => p.field === "cashFlow.revenue");
+    expect(revenue.map(p => [p.year, p.cell])).toEqual([[1, "B3"], [2, "C3"], [3, "D3"], [4, "E3"]]);
+  });
+});
+
+describe("assumptions sheet", () => {
+  it("should parse typed inputs without reading escalation as the tariff", async () => {
+    const result = await extractFinancialData(buildWorkbook(), "model.xlsx");
+
+    expect(result.assumptions).toMatchObject({
+      tariff: 85,
+      tariffUnit: "USD/MWh",
+      tariffEscalation: 0.02,
+      degradation: 0.005,
+      opexEscalation: 0.025,
+      interestRate: 0.07,
+      debtTenorYears: 15,
+      codDate: "2027-06-30",
+    });
+    expect(result.metrics.ppaRate).toBe(85);
+    expect(result.metrics.escalation).toBe(0.02);
+    expect(result.provenance.find(p => p.field === "assumptions.degradation")?.cell).toBe("B4");
+  });
+});
+
+describe("mapping templates", () => {
+  it("should follow template cells over the label patterns", async () => {
+    const result = await extractFinancialData(buildWorkbook(), "model.xlsx", {
+      template: {
+        sheetRoles: null,
+        mappings: [{ field: "irr", sheet: "Returns", cell: "B3" }],
+      },
+    });
+
+    expect(result.metrics.irr).toBe(1.35 / 100);
+    expect(result.provenance.filter(p => p.field === "irr")).toEqual([
+      expect.objectContaining({ cell: "B3", method: "template" }),
+    ]);
+  });
+
+  it("should find labelled cells again after rows move in the next version", async () => {
+    const first = await extractFinancialData(buildWorkbook(), "v1.xlsx");
+    const mappings = templateFromProvenance(first.provenance);
+    expect(mappings.find(m => m.field === "irr")).toEqual({ field: "irr", sheet: "Returns", cell: "B2", label: "Project IRR" });
+    expect(mappings.find(m => m.field === "cashFlow.revenue")).toMatchObject({ sheet: "Cash Flow", row: 3 });
+
+    const second = await extractFinancialData(buildWorkbook({ returnsOffset: 3 }), "v2.xlsx", {
+      template: { sheetRoles: null, mappings },
+    });
+    expect(second.metrics.irr).toBeCloseTo(0.124, 6);
+    expect(second.provenance.find(p => p.field === "irr")).toMatchObject({ cell: "B5", method: "template" });
+    expect(second.warnings).toEqual([]);
+  });
+
+  it("should warn about template sheets missing from the workbook", async () => {
+    const result = await extractFinancialData(buildWorkbook(), "model.xlsx", {
+      template: { sheetRoles: { cashFlow: "CF" }, mappings: [{ field: "npv", sheet: "Outputs", cell: "C4" }] },
+    });
+    expect(result.warnings).toEqual([
+      'Template sheet "CF" not found in workbook',
+      'Template sheet "Outputs" not found for npv',
+    ]);
+    expect(result.cashFlows).toHaveLength(4);
+  });
+});
+
+describe("formatCellAddress", () => {
+  it("should quote sheet names that need it", () => {
+    expect(formatCellAddress("Returns", "C14")).toBe("Returns!C14");
+    expect(formatCellAddress("Cash Flow", "D40")).toBe("'Cash Flow'!D40");
+    expect(formatCellAddress("Bob's Model", "A1")).toBe("'Bob''s Model'!A1");
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Financial Model Engine Tests
+ *
+ * IRR/NPV/payback arithmetic, DSCR and LLCR from cash flows, discrepancy
+ * flags against stated outputs and scenario overrides.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { FinancialModelCashFlow, FinancialModelMetrics } from "../drizzle/schema";
+import {
+  ModelAssumptions,
+  ModelEngineError,
+  applyScenario,
+  computeModelMetrics,
+  findDiscrepancies,
+  irr,
+  npv,
+  paybackYears,
+  toModelYears,
+} from "./services/financialModelEngine";
+
+const row = (overrides: Partial<FinancialModelCashFlow>): FinancialModelCashFlow => ({
+  id: 0,
+  financialModelId: 1,
+  year: 0,
+  calendarYear: null,
+  periodType: "operations",
+  revenue: null,
+  energyRevenue: null,
+  capacityRevenue: null,
+  ancillaryRevenue: null,
+  otherRevenue: null,
+  opex: null,
+  oAndM: null,
+  insurance: null,
+  landLease: null,
+  propertyTax: null,
+  management: null,
+  otherOpex: null,
+  ebitda: null,
+  capex: null,
+  majorMaintenance: null,
+  workingCapital: null,
+  debtService: null,
+  interestPayment: null,
+  principalPayment: null,
+  debtBalance: null,
+  dscr: null,
+  taxableIncome: null,
+  incomeTax: null,
+  taxCredits: null,
+  depreciation: null,
+  cashFlowFromOperations: null,
+  freeCashFlow: null,
+  cashFlowToEquity: null,
+  distributions: null,
+  productionMwh: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+// 1,000 capex (600 debt) in year 0, then five years of 400 revenue / 100 opex
+// with 150 a year of debt service
+const rows = [
+  row({ year: 0, periodType: "construction", capex: "1000", debtBalance: "600" }),
+  ...[1, 2, 3, 4, 5].map(year => row({
+    year,
+    revenue: "400",
+    opex: "100",
+    ebitda: "300",
+    debtService: "150",
+    principalPayment: "120",
+    interestPayment: "30",
+    debtBalance: String(600 - 120 * year),
+    dscr: "2.00",
+    productionMwh: "5000",
+  })),
+];
+
+const assumptions: ModelAssumptions = {
+  totalCapex: null,
+  debtAmount: 600,
+  interestRate: 0.05,
+  taxRate: null,
+  p50Production: 5000,
+  p90Production: 4500,
+};
+
+describe("cash flow arithmetic", () => {
+  it("should compute NPV with the first flow undiscounted and IRR as its root", () => {
+    expect(npv(0.1, [-100, 110])).toBeCloseTo(0, 10);
+    expect(irr([-100, 110])).toBeCloseTo(0.1, 6);
+    expect(irr([-1000, 300, 300, 300, 300, 300])).toBeCloseTo(0.152382, 5);
+    expect(irr([100, 200])).toBeNull();
+  });
+
+  it("should interpolate payback within the year it is reached", () => {
+    expect(paybackYears([-1000, 300, 300, 300, 300, 300])).toBeCloseTo(3 + 100 / 300, 6);
+    expect(paybackYears([-1000, 100, 100])).toBeNull();
+    expect(paybackYears([-1000, 300, 300, 300, 300, 300], 0.1)).toBeGreaterThan(4);
+  });
+});
+
+describe("computeModelMetrics", () => {
+  const years = toModelYears(rows);
+
+  it("should compute project and equity returns with debt drawn from balances", () => {
+    const metrics = computeModelMetrics(years, assumptions, [0.08, 0.1]);
+
+    expect(metrics.projectIrr).toBeCloseTo(0.152382, 5);
+    // Equity puts in 400 and gets 150 a year
+    expect(metrics.equityIrr).toBeCloseTo(irr([-400, 150, 150, 150, 150, 150])!, 6);
+    expect(metrics.moic).toBeCloseTo(750 / 400, 4);
+    expect(metrics.npvByRate.map(n => n.rate)).toEqual([0.08, 0.1]);
+    expect(metrics.projectNpv).toBeCloseTo(npv(0.08, [-1000, 300, 300, 300, 300, 300]), 2);
+    expect(metrics.totalCapex).toBe(1000);
+  });
+
+  it("should compute DSCR from CFADS and LLCR over the loan life", () => {
+    const metrics = computeModelMetrics(years, assumptions);
+    expect(metrics.minDscr).toBe(2);
+    expect(metrics.avgDscr).toBe(2);
+    const pv = [1, 2, 3, 4, 5].reduce((s, t) => s + 300 / Math.pow(1.05, t), 0);
+    expect(metrics.llcr).toBeCloseTo(pv / 600, 4);
+  });
+
+  it("should fall back to the stated capex when cash flows have none", () => {
+    const operating = toModelYears(rows.slice(1).map(r => ({ ...r, debtBalance: null })));
+    const metrics = computeModelMetrics(operating, { ...assumptions, totalCapex: 1000 });
+    expect(metrics.projectIrr).toBeCloseTo(0.152382, 5);
+  });
+
+  it("should refuse a model without cash flows", () => {
+    expect(() => computeModelMetrics([], assumptions)).toThrow(ModelEngineError);
+  });
+});
+
+describe("findDiscrepancies", () => {
+  const years = toModelYears(rows);
+  const computed = computeModelMetrics(years, assumptions);
+  const stated = { irr: "0.1524", npv: null, minDscr: "1.40", avgDscr: null, dscr: null, paybackYears: null, moic: null, discountRate: null } as unknown as FinancialModelMetrics;
+
+  it("should accept an IRR matching either basis and flag a DSCR that doesn't", () => {
+    const issues = findDiscrepancies(stated, years, assumptions, computed);
+    expect(issues.map(i => i.metric)).toEqual(["minDscr"]);
+    expect(issues[0]).toMatchObject({ stated: 1.4, computed: 2 });
+  });
+
+  it("should flag per-year EBITDA that doesn't add up", () => {
+    const bad = toModelYears([rows[0], { ...rows[1], ebitda: "350" }, ...rows.slice(2)]);
+    const issues = findDiscrepancies(null, bad, assumptions, computeModelMetrics(bad, assumptions));
+    expect(issues).toEqual([expect.objectContaining({ metric: "ebitda", year: 1, stated: 350, computed: 300 })]);
+  });
+});
+
+describe("applyScenario", () => {
+  const years = toModelYears(rows);
+
+  it("should cut revenue for a lower tariff and P90 production", () => {
+    const tariff = applyScenario(years, assumptions, { tariffChangePct: -10 });
+    expect(tariff.years[1].revenue).toBeCloseTo(360, 6);
+    expect(tariff.years[1].ebitda).toBeCloseTo(260, 6);
+
+    const p90 = applyScenario(years, assumptions, { production: "p90" });
+    expect(p90.years[1].revenue).toBeCloseTo(360, 6);
+    expect(p90.years[1].productionMwh).toBeCloseTo(4500, 6);
+    expect(computeModelMetrics(p90.years, p90.assumptions).minDscr).toBeCloseTo(260 / 150, 4);
+  });
+
+  it("should leave debt unchanged so extra capex is funded by equity", () => {
+    const capex = applyScenario(years, assumptions, { capexChangePct: 15 });
+    const metrics = computeModelMetrics(capex.years, capex.assumptions);
+    expect(metrics.totalCapex).toBeCloseTo(1150, 6);
+    expect(metrics.equityIrr).toBeCloseTo(irr([-550, 150, 150, 150, 150, 150])!, 6);
+  });
+
+  it("should require P50/P90 figures for a P90 case", () => {
+    expect(() => applyScenario(years, { ...assumptions, p90Production: null }, { production: "p90" })).toThrow(ModelEngineError);
+    expect(applyScenario(years, { ...assumptions, p90Production: null }, { production: "p90", productionFactor: 0.8 }).years[1].revenue).toBeCloseTo(320, 6);
+  });
+});
@@ -2,8 +2,8 @@
  * Telemetry Query Provider Abstraction
  * 
  * Provides a unified interface for querying telemetry data from different backends:
- * - Phase 1: MySQL (normalizedMeasurements table)
- * - Phase 2: Prometheus (future)
+ * - Phase 1: MySQL (telemetryRollups tiers, normalizedMeasurements below 5 minutes)
+ * - Phase 2: Prometheus / Mimir (opt-in per org via telemetryProviderConfigs)
  * - Phase 3: InfluxDB/TimescaleDB (future)
  */
 
@@ -101,7 +101,17 @@ export interface TelemetryQueryProvider {
 // ============================================================================
 
 import { getDb } from '../db';
-import { normalizedMeasurements, devices, projects } from '../../drizzle/schema';
+import { normalizedMeasurements, devices, projects, telemetryProviderConfigs } from '../../drizzle/schema';
+import type { TelemetryProviderConfig } from '../../drizzle/schema';
+import { decryptSecret } from '../providers/secrets';
+import {
+  RollupGroupDimension,
+  RollupTier,
+  bucketStartFor,
+  combineRollups,
+  loadRollups,
+  selectRollupTier,
+} from '../services/telemetryRollups';
 import { eq, and, gte, lte, inArray, sql, desc } from 'drizzle-orm';
 
 export class MySqlTelemetryProvider implements TelemetryQueryProvider {
@@ -109,6 +119,17 @@ export class MySqlTelemetryProvider implements TelemetryQueryProvider {
 
   async query(query: TelemetryQuery): Promise<TelemetryResult> {
     const startTime = Date.now();
+
+    // Serve from the coarsest rollup tier that tiles the interval
+    const tier = selectRollupTier(this.parseInterval(query.interval || '1h'));
+    if (tier) {
+      return {
+        series: await this.queryRollups(query, tier),
+        query,
+        executionTimeMs: Date.now() - startTime,
+      };
+    }
+
     const db = getDb();
 
     // Build WHERE conditions
@@ -282,6 +303,51 @@ export class MySqlTelemetryProvider implements TelemetryQueryProvider {
     }
   }
 
+  private async queryRollups(query: TelemetryQuery, tier: RollupTier): Promise<TelemetrySeries[]> {
+    const intervalSeconds = this.parseInterval(query.interval || '1h');
+    const buckets = await loadRollups({
+      organizationId: query.orgId,
+      projectIds: query.projectIds,
+      siteIds: query.siteIds,
+      deviceIds: query.deviceIds,
+      metricCodes: query.metrics,
+      from: query.timeRange.from,
+      to: query.timeRange.to,
+      tier,
+    });
+
+    const points = combineRollups(buckets, {
+      bucketFor: date => bucketStartFor(date, intervalSeconds),
+      aggregation: query.aggregation || 'avg',
+      groupBy: query.groupBy?.filter((d): d is RollupGroupDimension => d !== 'metric'),
+    });
+
+    const seriesMap = new Map<string, TelemetrySeries>();
+    for (const point of points) {
+      const labels: Record<string, string | number> = {};
+      for (const [key, value] of Object.entries(point.labels)) {
+        if (value !== null && value !== undefined) labels[key] = value;
+      }
+
+      const seriesKey = `${point.metricCode}-${JSON.stringify(labels)}`;
+      if (!seriesMap.has(seriesKey)) {
+        seriesMap.set(seriesKey, { metric: point.metricCode, labels, dataPoints: [] });
+      }
+      seriesMap.get(seriesKey)!.dataPoints.push({
+        timestamp: point.bucketStart,
+        value: point.value,
+        metric: point.metricCode,
+        labels,
+      });
+    }
+
+    const series = Array.from(seriesMap.values());
+    if (query.maxDataPoints) {
+      for (const s of series) s.dataPoints = s.dataPoints.slice(-query.maxDataPoints);
+    }
+    return series;
+  }
+
   private getAggregationFunction(agg: string) {
     switch (agg) {
       case 'sum':
@@ -318,41 +384,289 @@ export class MySqlTelemetryProvider implements TelemetryQueryProvider {
 }
 
 // ============================================================================
-// Prometheus Telemetry Provider (Phase 2 Stub)
+// Prometheus Telemetry Provider (Phase 2)
 // ============================================================================
 
+/** Label names used on exported series, keyed by TelemetryQuery dimension */
+export interface PrometheusLabelNames {
+  org: string;
+  project: string;
+  site: string;
+  device: string;
+}
+
+export const DEFAULT_PROMETHEUS_LABELS: PrometheusLabelNames = {
+  org: 'org_id',
+  project: 'project_id',
+  site: 'site_id',
+  device: 'device_id',
+};
+
+export interface PrometheusProviderConfig {
+  baseUrl: string;
+  /** Mimir/Cortex tenant, sent as X-Scope-OrgID */
+  tenantId?: string;
+  bearerToken?: string;
+  basicAuth?: { username: string; password: string };
+  /** Prepended to metric names, e.g. 'kiisha_' */
+  metricPrefix?: string;
+  labels?: Partial<PrometheusLabelNames>;
+  timeoutMs?: number;
+}
+
+export interface PromQLRangeQuery {
+  metric: string;
+  promql: string;
+  stepSeconds: number;
+}
+
+export class PrometheusQueryError extends Error {
+  constructor(message: string, public errorType?: string, public status?: number) {
+    super(message);
+    this.name = 'PrometheusQueryError';
+  }
+}
+
+// Prometheus rejects range queries that would return more than 11,000 points per series
+const PROMETHEUS_MAX_POINTS = 11000;
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+type Aggregation = NonNullable<TelemetryQuery['aggregation']>;
+type GroupDimension = Exclude<NonNullable<TelemetryQuery['groupBy']>[number], 'metric'>;
+
+// Applied within each series over the interval window
+const RANGE_FUNCTIONS: Record<Aggregation, string> = {
+  avg: 'avg_over_time',
+  sum: 'sum_over_time',
+  min: 'min_over_time',
+  max: 'max_over_time',
+  count: 'count_over_time',
+  last: 'last_over_time',
+};
+
+// Applied across series that fall in the same group. 'last' has no
+// cross-series meaning, so the latest value of each series is averaged.
+const GROUP_OPERATORS: Record<Aggregation, string> = {
+  avg: 'avg',
+  sum: 'sum',
+  min: 'min',
+  max: 'max',
+  count: 'sum',
+  last: 'avg',
+};
+
+// TelemetrySeries label keys, matching the MySQL provider
+const SERIES_LABEL_KEYS: Record<GroupDimension, string> = {
+  project: 'projectId',
+  site: 'siteId',
+  device: 'deviceId',
+};
+
+export function parseIntervalSeconds(interval: string | undefined, fallback = 3600): number {
+  const match = interval?.match(/^(\d+)([smhd])$/);
+  if (!match) return fallback;
+  const value = parseInt(match[1], 10);
+  const multiplier = { s: 1, m: 60, h: 3600, d: 86400 }[match[2] as 's' | 'm' | 'h' | 'd'];
+  return value * multiplier;
+}
+
+function resolveLabels(labels?: Partial<PrometheusLabelNames>): PrometheusLabelNames {
+  const resolved = { ...DEFAULT_PROMETHEUS_LABELS, ...labels };
+  for (const name of Object.values(resolved)) {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+      throw new PrometheusQueryError(`Invalid Prometheus label name: ${name}`);
+    }
+  }
+  return resolved;
+}
+
+function toPrometheusMetricName(metric: string, prefix = ''): string {
+  const name = `${prefix}${metric}`;
+  if (!METRIC_NAME_PATTERN.test(name)) {
+    throw new PrometheusQueryError(`Invalid Prometheus metric name: ${name}`);
+  }
+  return name;
+}
+
+function idMatcher(label: string, ids?: number[]): string | null {
+  if (!ids || ids.length === 0) return null;
+  const values = Array.from(new Set(ids.map(id => Math.trunc(Number(id))))).filter(Number.isFinite);
+  return values.length === 1
+    ? `${label}="${values[0]}"`
+    : `${label}=~"${values.join('|')}"`;
+}
+
+/**
+ * Label matchers scoping a query to the org and the requested
+ * projects, sites and devices.
+ */
+export function buildLabelMatchers(
+  query: Pick<TelemetryQuery, 'orgId' | 'projectIds' | 'siteIds' | 'deviceIds'>,
+  labels: PrometheusLabelNames = DEFAULT_PROMETHEUS_LABELS
+): string[] {
+  return [
+    `${labels.org}="${Math.trunc(query.orgId)}"`,
+    idMatcher(labels.project, query.projectIds),
+    idMatcher(labels.site, query.siteIds),
+    idMatcher(labels.device, query.deviceIds),
+  ].filter((m): m is string => m !== null);
+}
+
+/**
+ * Translate a TelemetryQuery into one PromQL range query per metric.
+ *
+ * Each series is first reduced over the interval window with the matching
+ * *_over_time function, then combined across series by the groupBy labels:
+ *
+ *   sum by (site_id) (sum_over_time(energy_kwh{org_id="1"}[1h]))
+ */
+export function buildPromQLRangeQueries(
+  query: TelemetryQuery,
+  options: { metricPrefix?: string; labels?: Partial<PrometheusLabelNames> } = {}
+): PromQLRangeQuery[] {
+  const labels = resolveLabels(options.labels);
+  const aggregation = query.aggregation || 'avg';
+  const intervalSeconds = parseIntervalSeconds(query.interval);
+
+  const rangeSeconds = Math.max(1, (query.timeRange.to.getTime() - query.timeRange.from.getTime()) / 1000);
+  const maxPoints = Math.min(query.maxDataPoints || PROMETHEUS_MAX_POINTS, PROMETHEUS_MAX_POINTS);
+  const stepSeconds = Math.max(intervalSeconds, Math.ceil(rangeSeconds / maxPoints));
+
+  const matchers = buildLabelMatchers(query, labels).join(', ');
+  const groupLabels = (query.groupBy || [])
+    .filter((d): d is GroupDimension => d !== 'metric')
+    .map(d => labels[d]);
+  const groupClause = groupLabels.length > 0 ? ` by (${groupLabels.join(', ')})` : '';
+
+  return query.metrics.map(metric => {
+    const selector = `${toPrometheusMetricName(metric, options.metricPrefix)}{${matchers}}`;
+    const inner = `${RANGE_FUNCTIONS[aggregation]}(${selector}[${intervalSeconds}s])`;
+    return {
+      metric,
+      promql: `${GROUP_OPERATORS[aggregation]}${groupClause} (${inner})`,
+      stepSeconds,
+    };
+  });
+}
+
+interface PrometheusResponse<T> {
+  status: 'success' | 'error';
+  data?: T;
+  errorType?: string;
+  error?: string;
+}
+
+interface PrometheusSample {
+  metric: Record<string, string>;
+  value?: [number, string];
+  values?: Array<[number, string]>;
+}
+
 export class PrometheusTelemetryProvider implements TelemetryQueryProvider {
   readonly name = 'prometheus';
   
   private baseUrl: string;
+  private config: PrometheusProviderConfig;
+  private labels: PrometheusLabelNames;
 
-  constructor(baseUrl: string) {
-    this.baseUrl = baseUrl;
+  constructor(config: string | PrometheusProviderConfig) {
+    this.config = typeof config === 'string' ? { baseUrl: config } : config;
+    this.baseUrl = this.config.baseUrl.replace(/\/+$/, '');
+    this.labels = resolveLabels(this.config.labels);
   }
 
-  async query(_query: TelemetryQuery): Promise<TelemetryResult> {
-    // TODO: Implement Prometheus query_range API
-    throw new Error('Prometheus provider not yet implemented');
+  async query(query: TelemetryQuery): Promise<TelemetryResult> {
+    const startTime = Date.now();
+    const rangeQueries = buildPromQLRangeQueries(query, {
+      metricPrefix: this.config.metricPrefix,
+      labels: this.labels,
+    });
+
+    const results = await Promise.all(rangeQueries.map(rq =>
+      this.request<{ resultType: string; result: PrometheusSample[] }>('/api/v1/query_range', {
+        query: rq.promql,
+        start: toUnixSeconds(query.timeRange.from),
+        end: toUnixSeconds(query.timeRange.to),
+        step: `${rq.stepSeconds}s`,
+      })
+    ));
+
+    const series: TelemetrySeries[] = [];
+    rangeQueries.forEach((rq, i) => {
+      for (const sample of results[i].result) {
+        const labels = this.toSeriesLabels(sample.metric, query.groupBy);
+        const dataPoints: TelemetryDataPoint[] = [];
+        for (const [ts, raw] of sample.values || []) {
+          const value = parseFloat(raw);
+          if (!Number.isFinite(value)) continue;
+          dataPoints.push({ timestamp: new Date(ts * 1000), value, metric: rq.metric, labels });
+        }
+        series.push({ metric: rq.metric, labels, dataPoints });
+      }
+    });
+
+    return {
+      series,
+      query,
+      executionTimeMs: Date.now() - startTime,
+    };
   }
 
-  async getSummary(_query: Omit<TelemetryQuery, 'interval' | 'aggregation'>): Promise<TelemetrySummary[]> {
-    // TODO: Implement Prometheus instant query for summary
-    throw new Error('Prometheus provider not yet implemented');
+  async getSummary(query: Omit<TelemetryQuery, 'interval' | 'aggregation'>): Promise<TelemetrySummary[]> {
+    const matchers = buildLabelMatchers(query, this.labels).join(', ');
+    const window = `${Math.max(1, Math.ceil((query.timeRange.to.getTime() - query.timeRange.from.getTime()) / 1000))}s`;
+    const time = toUnixSeconds(query.timeRange.to);
+
+    const summaries = await Promise.all(query.metrics.map(async metric => {
+      const selector = `${toPrometheusMetricName(metric, this.config.metricPrefix)}{${matchers}}[${window}]`;
+      const [current, min, max, total, count] = await Promise.all([
+        `avg(last_over_time(${selector}))`,
+        `min(min_over_time(${selector}))`,
+        `max(max_over_time(${selector}))`,
+        `sum(sum_over_time(${selector}))`,
+        `sum(count_over_time(${selector}))`,
+      ].map(promql => this.instantScalar(promql, time)));
+
+      if (count === null || count === 0) return null;
+      return {
+        metric,
+        current: current ?? 0,
+        min: min ?? 0,
+        max: max ?? 0,
+        avg: (total ?? 0) / count,
+        total: total ?? 0,
+        count,
+      };
+    }));
+
+    return summaries.filter((s): s is TelemetrySummary => s !== null);
   }
 
-  async getAvailableMetrics(_orgId: number, _projectIds?: number[]): Promise<string[]> {
-    // TODO: Implement Prometheus label values API
-    throw new Error('Prometheus provider not yet implemented');
+  async getAvailableMetrics(orgId: number, projectIds?: number[]): Promise<string[]> {
+    const matchers = buildLabelMatchers({ orgId, projectIds }, this.labels).join(', ');
+    const names = await this.request<string[]>('/api/v1/label/__name__/values', {
+      'match[]': `{${matchers}}`,
+    }, 'GET');
+
+    const prefix = this.config.metricPrefix || '';
+    return names
+      .filter(name => name.startsWith(prefix))
+      .map(name => name.substring(prefix.length))
+      .sort();
   }
 
   async healthCheck(): Promise<ProviderHealth> {
     const startTime = Date.now();
     
     try {
-      const response = await fetch(`${this.baseUrl}/-/healthy`);
+      const response = await fetch(`${this.baseUrl}/-/healthy`, {
+        headers: this.headers(),
+        signal: AbortSignal.timeout(this.config.timeoutMs || 30_000),
+      });
       return {
         healthy: response.ok,
         latencyMs: Date.now() - startTime,
+        message: response.ok ? undefined : `HTTP ${response.status}`,
       };
     } catch (error) {
       return {
@@ -362,6 +676,71 @@ export class PrometheusTelemetryProvider implements TelemetryQueryProvider {
       };
     }
   }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (this.config.tenantId) headers['X-Scope-OrgID'] = this.config.tenantId;
+    if (this.config.bearerToken) {
+      headers.Authorization = `Bearer ${this.config.bearerToken}`;
+    } else if (this.config.basicAuth) {
+      const { username, password } = this.config.basicAuth;
+      headers.Authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    }
+    return headers;
+  }
+
+  private async request<T>(path: string, params: Record<string, string>, method: 'GET' | 'POST' = 'POST'): Promise<T> {
+    const body = new URLSearchParams(params);
+    const url = method === 'GET' ? `${this.baseUrl}${path}?${body}` : `${this.baseUrl}${path}`;
+
+    const response = await fetch(url, {
+      method,
+      headers: method === 'POST'
+        ? { ...this.headers(), 'Content-Type': 'application/x-www-form-urlencoded' }
+        : this.headers(),
+      body: method === 'POST' ? body.toString() : undefined,
+      signal: AbortSignal.timeout(this.config.timeoutMs || 30_000),
+    });
+
+    let payload: PrometheusResponse<T> | null = null;
+    try {
+      payload = await response.json() as PrometheusResponse<T>;
+    } catch {
+      // Non-JSON bodies (proxies, auth gateways) are reported by status below
+    }
+
+    if (!payload || payload.status !== 'success' || payload.data === undefined) {
+      throw new PrometheusQueryError(
+        payload?.error || `Prometheus request failed with HTTP ${response.status}`,
+        payload?.errorType,
+        response.status
+      );
+    }
+    return payload.data;
+  }
+
+  private async instantScalar(promql: string, time: string): Promise<number | null> {
+    const data = await this.request<{ resultType: string; result: PrometheusSample[] }>('/api/v1/query', { query: promql, time });
+    const raw = data.result[0]?.value?.[1];
+    if (raw === undefined) return null;
+    const value = parseFloat(raw);
+    return Number.isFinite(value) ? value : null;
+  }
+
+  private toSeriesLabels(metric: Record<string, string>, groupBy?: TelemetryQuery['groupBy']): Record<string, string | number> {
+    const labels: Record<string, string | number> = {};
+    for (const dimension of groupBy || []) {
+      if (dimension === 'metric') continue;
+      const raw = metric[this.labels[dimension]];
+      if (raw === undefined) continue;
+      labels[SERIES_LABEL_KEYS[dimension]] = /^\d+$/.test(raw) ? Number(raw) : raw;
+    }
+    return labels;
+  }
+}
+
+function toUnixSeconds(date: Date): string {
+  return (date.getTime() / 1000).toString();
 }
 
 // ============================================================================
@@ -374,18 +753,20 @@ const providerInstances = new Map<string, TelemetryQueryProvider>();
 
 export function getTelemetryProvider(
   type: TelemetryProviderType = 'mysql',
-  config?: { prometheusUrl?: string }
+  config?: { prometheusUrl?: string } & Partial<Omit<PrometheusProviderConfig, 'baseUrl'>>
 ): TelemetryQueryProvider {
   const cacheKey = `${type}-${JSON.stringify(config)}`;
   
   if (!providerInstances.has(cacheKey)) {
     switch (type) {
-      case 'prometheus':
+      case 'prometheus': {
         if (!config?.prometheusUrl) {
           throw new Error('Prometheus URL required for prometheus provider');
         }
-        providerInstances.set(cacheKey, new PrometheusTelemetryProvider(config.prometheusUrl));
+        const { prometheusUrl, ...options } = config;
+        providerInstances.set(cacheKey, new PrometheusTelemetryProvider({ ...options, baseUrl: prometheusUrl }));
         break;
+      }
       case 'mysql':
       default:
         providerInstances.set(cacheKey, new MySqlTelemetryProvider());
@@ -396,12 +777,62 @@ export function getTelemetryProvider(
   return providerInstances.get(cacheKey)!;
 }
 
+// Org provider selections are cached briefly so hot query paths don't hit the config table
+const ORG_PROVIDER_TTL_MS = 60_000;
+const orgProviders = new Map<number, { provider: TelemetryQueryProvider; expiresAt: number }>();
+
 /**
- * Get the default telemetry provider for an organization
- * In the future, this could be configurable per-org
+ * Build the provider described by an org's telemetryProviderConfigs row.
+ * Inactive or incomplete Prometheus configs fall back to MySQL.
  */
-export function getOrgTelemetryProvider(_orgId: number): TelemetryQueryProvider {
-  // Phase 1: Always use MySQL
-  // Phase 2: Look up org config to determine provider
-  return getTelemetryProvider('mysql');
+export function providerFromConfig(config: TelemetryProviderConfig | null | undefined): TelemetryQueryProvider {
+  if (!config || !config.isActive || config.providerType !== 'prometheus' || !config.prometheusUrl) {
+    return getTelemetryProvider('mysql');
+  }
+
+  const secret = config.encryptedSecret
+    ? decryptSecret(config.encryptedSecret.encryptedValue, config.encryptedSecret.iv, config.encryptedSecret.authTag)
+    : undefined;
+
+  return getTelemetryProvider('prometheus', {
+    prometheusUrl: config.prometheusUrl,
+    tenantId: config.tenantId || undefined,
+    bearerToken: config.authType === 'bearer' ? secret : undefined,
+    basicAuth: config.authType === 'basic' && config.username && secret
+      ? { username: config.username, password: secret }
+      : undefined,
+    metricPrefix: config.metricPrefix || undefined,
+    labels: config.labelNames || undefined,
+  });
+}
+
+/**
+ * Get the telemetry provider for an organization. Orgs with an active
+ * Prometheus/Mimir config are queried there; everyone else uses MySQL.
+ */
+export async function getOrgTelemetryProvider(orgId: number): Promise<TelemetryQueryProvider> {
+  const cached = orgProviders.get(orgId);
+  if (cached && cached.expiresAt > Date.now()) return cached.provider;
+
+  let config: TelemetryProviderConfig | undefined;
+  const db = await getDb();
+  if (db) {
+    [config] = await db.select()
+      .from(telemetryProviderConfigs)
+      .where(eq(telemetryProviderConfigs.organizationId, orgId))
+      .limit(1);
+  }
+
+  const provider = providerFromConfig(config);
+  orgProviders.set(orgId, { provider, expiresAt: Date.now() + ORG_PROVIDER_TTL_MS });
+  return provider;
+}
+
+/** Drop the cached provider after an org's config changes */
+export function invalidateOrgTelemetryProvider(orgId?: number): void {
+  if (orgId === undefined) {
+    orgProviders.clear();
+  } else {
+    orgProviders.delete(orgId);
+  }
 }
@@ -0,0 +1,168 @@
+/**
+ * Modbus Poller Tests
+ *
+ * Runs the poller against the in-process Modbus simulator with an
+ * in-memory measurement sink.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { ModbusTcpSimulator } from "./connectors/modbusSimulator";
+import { decodeRegisterValues, applyScaleFactor } from "./connectors/modbus";
+import {
+  ModbusPoller,
+  ModbusPollTarget,
+  ModbusSample,
+  MeasurementSink,
+  computeBackoffMs,
+  resolveRegisterMap,
+  toMetricCode,
+} from "./services/modbusPoller";
+
+function memorySink() {
+  const written: Array<{ deviceId: number; samples: ModbusSample[] }> = [];
+  const sink: MeasurementSink = {
+    async writeSamples(target, samples) {
+      written.push({ deviceId: target.deviceId, samples });
+    },
+  };
+  return { sink, written };
+}
+
+describe("Register decoding", () => {
+  it("should honour word and byte order for 32-bit values", () => {
+    const base = { address: 0, length: 2, type: "holding" as const, name: "x" };
+    expect(decodeRegisterValues([0x0001, 0x0002], { ...base, dataType: "uint32" })).toBe(0x00010002);
+    expect(decodeRegisterValues([0x0002, 0x0001], { ...base, dataType: "uint32", wordOrder: "little" })).toBe(0x00010002);
+    expect(decodeRegisterValues([0x0100, 0x0200], { ...base, dataType: "uint32", byteOrder: "little" })).toBe(0x00010002);
+  });
+
+  it("should apply SunSpec scale factors", () => {
+    expect(applyScaleFactor(12345, -2)).toBeCloseTo(123.45);
+    expect(applyScaleFactor(5, 3)).toBe(5000);
+    expect(applyScaleFactor(42, -32768)).toBe(42);
+  });
+
+  it("should merge org registers over a built-in map", () => {
+    const map = resolveRegisterMap("meter", {
+      voltage: { address: 100, length: 1, type: "holding", dataType: "uint16", name: "Voltage", unit: "V" },
+    }, { wordOrder: "little" });
+    expect(map.voltage.address).toBe(100);
+    expect(map.frequency.address).toBe(70);
+    expect(map.frequency.wordOrder).toBe("little");
+    expect(toMetricCode("activePower")).toBe("active_power");
+  });
+
+  it("should back off exponentially up to the cap", () => {
+    expect(computeBackoffMs(60_000, 0)).toBe(60_000);
+    expect(computeBackoffMs(60_000, 2)).toBe(240_000);
+    expect(computeBackoffMs(60_000, 10, 900_000)).toBe(900_000);
+  });
+});
+
+describe("ModbusPoller", () => {
+  let simulator: ModbusTcpSimulator;
+  let port: number;
+
+  beforeEach(async () => {
+    simulator = new ModbusTcpSimulator();
+    port = await simulator.start();
+  });
+
+  afterEach(async () => {
+    await simulator.stop();
+  });
+
+  function target(overrides: Partial<ModbusPollTarget> = {}): ModbusPollTarget {
+    return {
+      deviceId: 1,
+      siteId: 10,
+      organizationId: 100,
+      host: "127.0.0.1",
+      port,
+      unitId: 1,
+      timeoutMs: 500,
+      pollIntervalSeconds: 60,
+      registers: {
+        power: { address: 0, length: 1, type: "holding", dataType: "int16", name: "Power", unit: "W", scaleFactorRegister: "powerSf" },
+        powerSf: { address: 1, length: 1, type: "holding", dataType: "int16", name: "Power SF" },
+        energy: { address: 10, length: 2, type: "input", dataType: "uint32", name: "Energy", unit: "kWh", wordOrder: "little", metricCode: "energy_total" },
+      },
+      ...overrides,
+    };
+  }
+
+  it("should poll registers into the sink with scale factors applied", async () => {
+    simulator.setHoldingRegisters(0, [1234, (-1) & 0xffff]);
+    simulator.setInputRegisters(10, [0x0002, 0x0001]);
+
+    const { sink, written } = memorySink();
+    const poller = new ModbusPoller({ sink, loadTargets: async () => [] });
+
+    const health = await poller.pollDevice(target());
+    poller.stop();
+
+    expect(health.connected).toBe(true);
+    expect(health.consecutiveFailures).toBe(0);
+    expect(written).toHaveLength(1);
+
+    const byCode = Object.fromEntries(written[0].samples.map(s => [s.metricCode, s.value]));
+    expect(byCode.power).toBeCloseTo(123.4);
+    expect(byCode.energy_total).toBe(0x00010002);
+    // Scale factor registers are not stored as metrics
+    expect(byCode.power_sf).toBeUndefined();
+  });
+
+  it("should record per-register exceptions without failing the poll", async () => {
+    simulator.setHoldingRegisters(0, [100, 0]);
+
+    const { sink, written } = memorySink();
+    const poller = new ModbusPoller({ sink, loadTargets: async () => [] });
+
+    const health = await poller.pollDevice(target());
+    poller.stop();
+
+    expect(health.consecutiveFailures).toBe(0);
+    expect(health.registersFailed).toBe(1);
+    expect(health.lastError).toContain("energy");
+    expect(written[0].samples.map(s => s.key)).toEqual(["power"]);
+  });
+
+  it("should count failures while the device is unreachable and recover", async () => {
+    simulator.setHoldingRegisters(0, [100, 0]);
+    simulator.setInputRegisters(10, [0, 0]);
+    simulator.offline = true;
+
+    const { sink, written } = memorySink();
+    const poller = new ModbusPoller({ sink, loadTargets: async () => [] });
+
+    let health = await poller.pollDevice(target({ timeoutMs: 100 }));
+    health = await poller.pollDevice(target({ timeoutMs: 100 }));
+    expect(health.connected).toBe(false);
+    expect(health.consecutiveFailures).toBe(2);
+    expect(health.lastError).toBe("Request timeout");
+    expect(written).toHaveLength(0);
+
+    simulator.offline = false;
+    health = await poller.pollDevice(target({ timeoutMs: 100 }));
+    poller.stop();
+
+    expect(health.connected).toBe(true);
+    expect(health.consecutiveFailures).toBe(0);
+    expect(poller.getAllHealth()).toHaveLength(1);
+  });
+
+  it("should schedule polls for loaded targets", async () => {
+    simulator.setHoldingRegisters(0, [100, 0]);
+    simulator.setInputRegisters(10, [0, 0]);
+
+    const { sink, written } = memorySink();
+    const poller = new ModbusPoller({ sink, loadTargets: async () => [target({ pollIntervalSeconds: 1 })] });
+
+    await poller.start();
+    await new Promise(resolve => setTimeout(resolve, 200));
+    poller.stop();
+
+    expect(written.length).toBeGreaterThanOrEqual(1);
+    expect(poller.getDeviceHealth(1)?.lastSuccessAt).toBeInstanceOf(Date);
+  });
+});
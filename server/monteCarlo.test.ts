@@ -0,0 +1,167 @@
+/**
+ * Monte Carlo Risk Analysis Tests
+ *
+ * Seeded sampling, distribution mapping, correlation checks, exceedance
+ * percentiles and DSCR breach probability.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { ModelAssumptions, ModelYear } from "./services/financialModelEngine";
+import { computeModelMetrics, irr } from "./services/financialModelEngine";
+import {
+  SimulationError,
+  choleskyFactor,
+  createRng,
+  normalCdf,
+  prepareSimulation,
+  runSimulation,
+  sampleDistribution,
+  summarizeValues,
+} from "./services/monteCarlo";
+
+const year = (overrides: Partial<ModelYear>): ModelYear => ({
+  year: 0,
+  calendarYear: null,
+  revenue: 0,
+  opex: 0,
+  ebitda: 0,
+  capex: 0,
+  tax: 0,
+  debtService: 0,
+  principal: 0,
+  debtBalance: null,
+  productionMwh: null,
+  statedDscr: null,
+  statedEbitda: null,
+  statedEquityCashFlow: null,
+  ...overrides,
+});
+
+// 1,000 capex (600 debt), then five years of 400 revenue / 100 opex and 150 debt service
+const years: ModelYear[] = [
+  year({ year: 0, capex: 1000, debtBalance: 600 }),
+  ...[1, 2, 3, 4, 5].map(y => year({
+    year: y,
+    revenue: 400,
+    opex: 100,
+    ebitda: 300,
+    debtService: 150,
+    principal: 120,
+    debtBalance: 600 - 120 * y,
+    productionMwh: 5000,
+  })),
+];
+
+const assumptions: ModelAssumptions = {
+  totalCapex: null,
+  debtAmount: 600,
+  interestRate: 0.05,
+  taxRate: null,
+  p50Production: 5000,
+  p90Production: 4500,
+};
+
+describe("sampling", () => {
+  it("should repeat the same stream for the same seed", () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect(first.every(u => u >= 0 && u < 1)).toBe(true);
+  });
+
+  it("should map normal draws through each distribution", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.2815515655446004)).toBeCloseTo(0.9, 6);
+    expect(sampleDistribution({ type: "uniform", min: 0.9, max: 1.1 }, 0)).toBeCloseTo(1, 6);
+    expect(sampleDistribution({ type: "triangular", min: 0.8, mode: 1, max: 1.1 }, -10)).toBeCloseTo(0.8, 4);
+    expect(sampleDistribution({ type: "triangular", min: 0.8, mode: 1, max: 1.1 }, 10)).toBeCloseTo(1.1, 4);
+    expect(sampleDistribution({ type: "normal", mean: 1, stdDev: 0.5 }, -5)).toBe(0);
+  });
+});
+
+describe("prepareSimulation", () => {
+  it("should fit production to the model's P50/P90", () => {
+    const { drivers } = prepareSimulation([{ driver: "production", distribution: { type: "p50_p90" } }], [], assumptions);
+    expect(drivers[0].distribution).toEqual({ type: "normal", mean: 1, stdDev: expect.closeTo(0.1 / 1.2815515655446004, 8) });
+    expect(() => prepareSimulation([{ driver: "production", distribution: { type: "p50_p90" } }], [], { ...assumptions, p90Production: null }))
+      .toThrow(SimulationError);
+  });
+
+  it("should reject correlations that are unknown or inconsistent", () => {
+    const drivers = [
+      { driver: "production" as const, distribution: { type: "normal" as const, mean: 1, stdDev: 0.05 } },
+      { driver: "tariff" as const, distribution: { type: "normal" as const, mean: 1, stdDev: 0.05 } },
+      { driver: "fx" as const, distribution: { type: "normal" as const, mean: 1, stdDev: 0.05 } },
+    ];
+    expect(() => prepareSimulation(drivers, [{ a: "production", b: "opex", rho: 0.5 }], assumptions)).toThrow(/isn't configured/);
+    expect(() => prepareSimulation(drivers, [
+      { a: "production", b: "tariff", rho: 0.9 },
+      { a: "tariff", b: "fx", rho: 0.9 },
+      { a: "production", b: "fx", rho: -0.9 },
+    ], assumptions)).toThrow(/not positive definite/);
+
+    const lower = choleskyFactor([[1, 0.6], [0.6, 1]]);
+    expect(lower[1][0]).toBeCloseTo(0.6, 10);
+    expect(lower[1][1]).toBeCloseTo(0.8, 10);
+  });
+});
+
+describe("runSimulation", () => {
+  const base = computeModelMetrics(years, assumptions, [0.08]);
+
+  it("should reproduce the base case when nothing varies", () => {
+    const results = runSimulation(years, assumptions, {
+      drivers: [{ driver: "tariff", distribution: { type: "normal", mean: 1, stdDev: 0 } }],
+      iterations: 100,
+      seed: 1,
+      discountRate: 0.08,
+    });
+    expect(results.metrics.projectIrr?.p50).toBeCloseTo(base.projectIrr!, 6);
+    expect(results.metrics.projectIrr?.histogram).toEqual([{ from: expect.any(Number), to: expect.any(Number), count: 100 }]);
+    expect(results.dscrBreachProbability).toBeNull();
+  });
+
+  it("should put the P90 IRR near the IRR at P90 production", () => {
+    const results = runSimulation(years, assumptions, {
+      drivers: [{ driver: "production", distribution: { type: "p50_p90" } }],
+      iterations: 4000,
+      seed: 7,
+      discountRate: 0.08,
+      dscrCovenant: 2,
+    });
+    // Revenue at P90 is 360, so project flows are 260 a year
+    const p90Irr = irr([-1000, 260, 260, 260, 260, 260])!;
+    expect(results.metrics.projectIrr!.p90).toBeCloseTo(p90Irr, 2);
+    expect(results.metrics.projectIrr!.p10).toBeGreaterThan(base.projectIrr!);
+    // The covenant sits at the base DSCR, so about half the runs breach it
+    expect(results.dscrBreachProbability).toBeGreaterThan(0.45);
+    expect(results.dscrBreachProbability).toBeLessThan(0.55);
+    expect(results.metrics.projectIrr!.histogram.reduce((s, b) => s + b.count, 0)).toBe(4000);
+  });
+
+  it("should give identical results for the same seed", () => {
+    const config = {
+      drivers: [
+        { driver: "production" as const, distribution: { type: "p50_p90" as const }, sampling: "annual" as const },
+        { driver: "opex" as const, distribution: { type: "triangular" as const, min: 0.95, mode: 1, max: 1.2 } },
+      ],
+      iterations: 200,
+      seed: 99,
+      discountRate: 0.08,
+    };
+    expect(runSimulation(years, assumptions, config)).toEqual(runSimulation(years, assumptions, config));
+  });
+});
+
+describe("summarizeValues", () => {
+  it("should report exceedance percentiles", () => {
+    const values = Array.from({ length: 101 }, (_, i) => i);
+    const summary = summarizeValues(values, 10);
+    expect(summary.p90).toBe(10);
+    expect(summary.p50).toBe(50);
+    expect(summary.p10).toBe(90);
+    expect(summary.histogram).toHaveLength(10);
+    expect(summary.histogram.reduce((s, b) => s + b.count, 0)).toBe(101);
+  });
+});
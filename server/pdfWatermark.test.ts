@@ -0,0 +1,161 @@
+/**
+ * PDF Watermarking Tests
+ *
+ * Watermarks hand-built PDFs (classic cross-reference table, and object plus
+ * cross-reference streams) and reads the result back with pdf.js.
+ */
+
+import { describe, it, expect } from "vitest";
+import zlib from "zlib";
+import { PdfWatermarkError, pdfString, textWidth, watermarkContent, watermarkPdf } from "./services/pdfWatermark";
+
+const PAGE_CONTENT = "BT /F1 12 Tf 72 720 Td (Confidential term sheet) Tj ET";
+
+/** Single-page PDF with a classic xref table */
+function classicPdf(options: { rotate?: number; encrypt?: boolean } = {}): Buffer {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [3 0 R] /Count 1 /MediaBox [0 0 612 792] /Resources << /Font << /F1 5 0 R >> >> >>`,
+    `<< /Type /Page /Parent 2 0 R /Contents 4 0 R${options.rotate ? ` /Rotate ${options.rotate}` : ""} >>`,
+    `<< /Length ${PAGE_CONTENT.length} >>\nstream\n${PAGE_CONTENT}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  let out = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f\r\n`;
+  for (const offset of offsets) out += `${String(offset).padStart(10, "0")} 00000 n\r\n`;
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${options.encrypt ? " /Encrypt 9 0 R" : ""} >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
+
+/** The same document with the page tree in an object stream, indexed by an xref stream */
+function compressedPdf(): Buffer {
+  const packed = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 4 0 R /Resources 6 0 R >>",
+  ];
+  let body = "";
+  const header: string[] = [];
+  packed.forEach((object, i) => {
+    header.push(`${i + 1} ${body.length}`);
+    body += `${object}\n`;
+  });
+  const headerText = `${header.join(" ")}\n`;
+  const objStm = zlib.deflateSync(Buffer.from(headerText + body, "latin1")).toString("latin1");
+
+  let out = "%PDF-1.5\n";
+  const offsets = new Map<number, number>();
+  const direct = (num: number, text: string) => {
+    offsets.set(num, out.length);
+    out += `${num} 0 obj\n${text}\nendobj\n`;
+  };
+  direct(4, `<< /Length ${PAGE_CONTENT.length} >>\nstream\n${PAGE_CONTENT}\nendstream`);
+  direct(5, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+  direct(6, "<< /Font << /F1 5 0 R >> >>");
+  direct(7, `<< /Type /ObjStm /N 3 /First ${headerText.length} /Length ${objStm.length} /Filter /FlateDecode >>\nstream\n${objStm}\nendstream`);
+
+  const xrefOffset = out.length;
+  const rows: number[][] = [[0, 0, 0xff, 0xff]];
+  for (let num = 1; num <= 8; num++) {
+    if (num <= 3) rows.push([2, 0, 7, num - 1]); // In object stream 7
+    else {
+      const offset = num === 8 ? xrefOffset : offsets.get(num)!;
+      rows.push([1, (offset >> 8) & 0xff, offset & 0xff, 0]);
+    }
+  }
+  // W [1 2 1], PNG "Up" predictor
+  const predicted: number[] = [];
+  rows.forEach((row, r) => {
+    predicted.push(2, ...row.map((v, c) => (v - (r > 0 ? rows[r - 1][c] : 0)) & 0xff));
+  });
+  const xrefData = zlib.deflateSync(Buffer.from(predicted)).toString("latin1");
+  out += `8 0 obj\n<< /Type /XRef /Size 9 /W [1 2 1] /Root 1 0 R /Filter /FlateDecode /DecodeParms << /Predictor 12 /Columns 4 >> /Length ${xrefData.length} >>\nstream\n${xrefData}\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
+
+async function readPdf(bytes: Buffer) {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.js");
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(bytes), isEvalSupported: false, verbosity: 0 }).promise;
+  const pages: Array<{ text: string; view: number[] }> = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n);
+    const content = await page.getTextContent();
+    pages.push({
+      text: content.items.map(item => ("str" in item ? item.str : "")).join(" "),
+      view: page.view,
+    });
+  }
+  await pdf.destroy();
+  return pages;
+}
+
+describe("watermarkPdf", () => {
+  const lines = ["Jane Investor <jane@fund.example>", "2026-10-19 14:03 UTC · 203.0.113.7"];
+
+  it("stamps every page of a PDF with a classic xref table", async () => {
+    const original = classicPdf();
+    const stamped = watermarkPdf(original, lines, { footer: "Confidential · jane@fund.example" });
+
+    expect(stamped.subarray(0, original.length).equals(original)).toBe(true);
+    const [page] = await readPdf(stamped);
+    expect(page.text).toContain("Confidential term sheet");
+    expect(page.text).toContain("Jane Investor <jane@fund.example>");
+    expect(page.text).toContain("203.0.113.7");
+    expect(page.text).toContain("Confidential · jane@fund.example");
+  });
+
+  it("reads object streams and appends an xref stream", async () => {
+    const stamped = watermarkPdf(compressedPdf(), lines);
+    expect(stamped.toString("latin1")).toMatch(/\/Type \/XRef[^]*\/Prev \d+/);
+
+    const [page] = await readPdf(stamped);
+    expect(page.view).toEqual([0, 0, 595, 842]);
+    expect(page.text).toContain("Confidential term sheet");
+    expect(page.text).toContain("jane@fund.example");
+  });
+
+  it("keeps the page's own resources", () => {
+    const stamped = watermarkPdf(classicPdf(), lines).toString("latin1");
+    expect(stamped).toMatch(/3 0 obj\n<<.*\/Font <<\/F1 5 0 R \/KWmFont 6 0 R>>/);
+    expect(stamped).toMatch(/\/Contents \[8 0 R 4 0 R 9 0 R\]/);
+  });
+
+  it("can be applied again to an already watermarked file", async () => {
+    const twice = watermarkPdf(watermarkPdf(classicPdf(), ["First viewer"]), ["Second viewer"]);
+    const [page] = await readPdf(twice);
+    expect(page.text).toContain("First viewer");
+    expect(page.text).toContain("Second viewer");
+  });
+
+  it("refuses encrypted and non-PDF input", () => {
+    expect(() => watermarkPdf(classicPdf({ encrypt: true }), lines)).toThrow(PdfWatermarkError);
+    expect(() => watermarkPdf(Buffer.from("hello"), lines)).toThrow("Not a PDF file");
+  });
+});
+
+describe("watermarkContent", () => {
+  it("maps rotated pages so the stamp reads upright", () => {
+    expect(watermarkContent(["x"], [0, 0, 612, 792], 0)).toContain("1 0 0 1 0 0 cm");
+    expect(watermarkContent(["x"], [0, 0, 612, 792], 90)).toContain("0 1 -1 0 612 0 cm");
+    expect(watermarkContent(["x"], [0, 0, 612, 792], 270)).toContain("0 -1 1 0 0 792 cm");
+  });
+
+  it("truncates footers to the page width", () => {
+    const content = watermarkContent(["x"], [0, 0, 200, 200], 0, { footer: "a".repeat(200) });
+    const footer = content.match(/\((a+\.\.\.)\) Tj/)![1];
+    expect(textWidth(footer, 7)).toBeLessThanOrEqual(164);
+  });
+});
+
+describe("pdfString", () => {
+  it("escapes delimiters and encodes WinAnsi", () => {
+    expect(pdfString("a (b) \\c")).toBe("(a \\(b\\) \\\\c)");
+    expect(pdfString("café · ✓")).toBe("(caf\\351 \\267 ?)");
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Portfolio Covenant Tests
+ *
+ * Calendar placement of model years, multi-currency consolidation and DSCR
+ * covenant tests blending actuals with the base-case model.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { ModelAssumptions, ModelYear } from "./services/financialModelEngine";
+import {
+  annualModelFlows,
+  consolidateCashFlows,
+  isInAlertWindow,
+  monthsCovered,
+  spreadOverMonths,
+  testCovenant,
+  type AnnualModelFlow,
+} from "./services/portfolioCovenants";
+
+const year = (overrides: Partial<ModelYear>): ModelYear => ({
+  year: 0,
+  calendarYear: null,
+  revenue: 0,
+  opex: 0,
+  ebitda: 0,
+  capex: 0,
+  tax: 0,
+  debtService: 0,
+  principal: 0,
+  debtBalance: null,
+  productionMwh: null,
+  statedDscr: null,
+  statedEbitda: null,
+  statedEquityCashFlow: null,
+  ...overrides,
+});
+
+const assumptions: ModelAssumptions = {
+  totalCapex: null,
+  debtAmount: null,
+  interestRate: null,
+  taxRate: null,
+  p50Production: null,
+  p90Production: null,
+};
+
+// 1,200 revenue, 240 opex and 600 debt service a year: a 1.6x DSCR, or 80 CFADS / 50 debt service a month
+const model: AnnualModelFlow[] = [2026, 2027].map(calendarYear => ({
+  calendarYear,
+  revenue: 1200,
+  opex: 240,
+  cfads: 960,
+  debtService: 600,
+}));
+
+const months = (from: number, to: number, value: number) =>
+  Object.fromEntries(Array.from({ length: to - from + 1 }, (_, i) => [`2026-${String(from + i).padStart(2, "0")}`, value]));
+
+describe("annualModelFlows", () => {
+  it("should place operating years from COD when calendar years are missing", () => {
+    const flows = annualModelFlows([
+      year({ year: 1, revenue: 100, opex: 20, ebitda: 80, debtService: 40 }),
+      year({ year: 2, revenue: 110, opex: 20, ebitda: 90, debtService: 40 }),
+    ], assumptions, new Date(Date.UTC(2026, 5, 30)));
+    expect(flows).toEqual([
+      { calendarYear: 2026, revenue: 100, opex: 20, cfads: 80, debtService: 40 },
+      { calendarYear: 2027, revenue: 110, opex: 20, cfads: 90, debtService: 40 },
+    ]);
+    expect(annualModelFlows([year({ year: 1, revenue: 100 })], assumptions, null)).toEqual([]);
+    expect(annualModelFlows([year({ year: 1, calendarYear: 2030 })], assumptions, null)[0].calendarYear).toBe(2030);
+  });
+});
+
+describe("consolidateCashFlows", () => {
+  it("should convert each model and sum by calendar year", () => {
+    const result = consolidateCashFlows([
+      { modelId: 1, currency: "USD", flows: [{ calendarYear: 2026, revenue: 100, opex: 20, cfads: 80, debtService: 50 }] },
+      { modelId: 2, currency: "NGN", flows: [
+        { calendarYear: 2026, revenue: 150_000, opex: 30_000, cfads: 120_000, debtService: 100_000 },
+        { calendarYear: 2027, revenue: 150_000, opex: 30_000, cfads: 120_000, debtService: 0 },
+      ] },
+      { modelId: 3, currency: "KES", flows: [{ calendarYear: 2026, revenue: 1, opex: 0, cfads: 1, debtService: 0 }] },
+    ], { USD: 1, NGN: 0.001, KES: null });
+
+    expect(result.years[0]).toMatchObject({ calendarYear: 2026, revenue: 250, opex: 50, cfads: 200, debtService: 150, modelCount: 2 });
+    expect(result.years[0].dscr).toBeCloseTo(200 / 150, 10);
+    expect(result.years[1]).toMatchObject({ calendarYear: 2027, debtService: 0, dscr: null, modelCount: 1 });
+    expect(result.excludedModelIds).toEqual([3]);
+    expect(result.unconverted).toEqual(["KES"]);
+  });
+});
+
+describe("testCovenant", () => {
+  const testDate = new Date(Date.UTC(2026, 11, 31));
+
+  it("should use the model for months that haven't happened yet", () => {
+    const result = testCovenant({
+      testDate,
+      periodMonths: 12,
+      threshold: 1.2,
+      asOf: new Date(Date.UTC(2026, 6, 15)),
+      model,
+      // Six months on plan: 100 revenue and 20 opex a month
+      actualRevenueByMonth: months(1, 6, 100),
+      actualOpexByMonth: months(1, 6, 20),
+    });
+    expect(result.periodStart).toEqual(new Date(Date.UTC(2026, 0, 1)));
+    expect(result.periodEnd).toEqual(new Date(Date.UTC(2027, 0, 1)));
+    expect(result.elapsedMonths).toBe(6);
+    expect(result.actualDscr).toBeCloseTo(1.6, 10);
+    expect(result.projectedDscr).toBeCloseTo(1.6, 10);
+    expect(result.status).toBe("compliant");
+  });
+
+  it("should project a breach from underperforming actuals before the test date", () => {
+    const result = testCovenant({
+      testDate,
+      periodMonths: 12,
+      threshold: 1.2,
+      asOf: new Date(Date.UTC(2026, 9, 10)),
+      model,
+      // Nine months at 60 revenue; opex only recorded for the first half
+      actualRevenueByMonth: months(1, 9, 60),
+      actualOpexByMonth: months(1, 6, 20),
+    });
+    // Actual CFADS 9 x (60 - 20) = 360 over 450 debt service; three model months add 240 over 150
+    expect(result.actualDscr).toBeCloseTo(0.8, 10);
+    expect(result.projectedDscr).toBeCloseTo(1, 10);
+    expect(result.details.modelOpexMonths).toBe(3);
+    expect(result.status).toBe("projected_breach");
+  });
+
+  it("should settle as breached once the period has ended", () => {
+    const result = testCovenant({
+      testDate,
+      periodMonths: 12,
+      threshold: 1.2,
+      asOf: new Date(Date.UTC(2027, 0, 5)),
+      model,
+      actualRevenueByMonth: months(1, 12, 60),
+      actualOpexByMonth: months(1, 12, 20),
+    });
+    expect(result.elapsedMonths).toBe(12);
+    expect(result.projectedDscr).toBeCloseTo(0.8, 10);
+    expect(result.status).toBe("breached");
+  });
+
+  it("should use the model's revenue for elapsed months not invoiced yet", () => {
+    const result = testCovenant({
+      testDate,
+      periodMonths: 12,
+      threshold: 1.2,
+      asOf: new Date(Date.UTC(2026, 6, 1)),
+      model,
+      // June has ended but isn't invoiced yet
+      actualRevenueByMonth: months(1, 5, 100),
+      actualOpexByMonth: months(1, 6, 20),
+    });
+    expect(result.elapsedMonths).toBe(6);
+    expect(result.details.modelRevenueMonths).toBe(1);
+    expect(result.details.actualRevenue).toBeCloseTo(600, 10);
+    expect(result.projectedDscr).toBeCloseTo(1.6, 10);
+    expect(result.status).toBe("compliant");
+  });
+
+  it("should not report a breach without any invoiced revenue", () => {
+    const result = testCovenant({
+      testDate,
+      periodMonths: 12,
+      threshold: 1.2,
+      asOf: new Date(Date.UTC(2026, 3, 1)),
+      model,
+      actualRevenueByMonth: {},
+      actualOpexByMonth: {},
+    });
+    expect(result.status).toBe("insufficient_data");
+    expect(testCovenant({ testDate, periodMonths: 12, threshold: 1.2, asOf: testDate, model: [], actualRevenueByMonth: {}, actualOpexByMonth: {} }).projectedDscr)
+      .toBeNull();
+  });
+});
+
+describe("helpers", () => {
+  it("should spread periods over the months they cover", () => {
+    expect(monthsCovered(new Date(Date.UTC(2026, 0, 1)), new Date(Date.UTC(2026, 2, 31, 23, 59)))).toEqual(["2026-01", "2026-02", "2026-03"]);
+  });
+
+  it("should spread an amount over its period in proportion to the days covered", () => {
+    // A quarter invoiced in one line: 90 days, 31 + 28 + 31
+    const quarter = spreadOverMonths(900, new Date(Date.UTC(2026, 0, 1)), new Date(Date.UTC(2026, 3, 1)));
+    expect(Object.keys(quarter)).toEqual(["2026-01", "2026-02", "2026-03"]);
+    expect(quarter["2026-01"]).toBeCloseTo(310, 10);
+    expect(quarter["2026-02"]).toBeCloseTo(280, 10);
+    expect(quarter["2026-03"]).toBeCloseTo(310, 10);
+
+    expect(spreadOverMonths(100, new Date(Date.UTC(2026, 10, 16)), new Date(Date.UTC(2026, 11, 16)))).toEqual({ "2026-11": 50, "2026-12": 50 });
+    expect(spreadOverMonths(100, new Date(Date.UTC(2026, 4, 10)), null)).toEqual({ "2026-05": 100 });
+  });
+
+  it("should only raise breaches within the alert window before the test date", () => {
+    const testDate = new Date(Date.UTC(2026, 11, 31));
+    expect(isInAlertWindow(testDate, new Date(Date.UTC(2026, 11, 1, 9)), 30)).toBe(true);
+    expect(isInAlertWindow(testDate, new Date(Date.UTC(2026, 10, 30)), 30)).toBe(false);
+    expect(isInAlertWindow(testDate, new Date(Date.UTC(2026, 11, 31, 18)), 30)).toBe(true);
+    expect(isInAlertWindow(testDate, new Date(Date.UTC(2027, 0, 1)), 30)).toBe(false);
+  });
+});
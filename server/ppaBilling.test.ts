@@ -0,0 +1,169 @@
+/**
+ * PPA Billing Tests
+ *
+ * Billing periods, contract years, escalators, time-of-use blocks, excess
+ * energy and take-or-pay shortfall charges.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  PpaTariffTerms,
+  billingPeriodFor,
+  computePpaCharges,
+  contractYearFor,
+  escalationFactor,
+  touBlockFor,
+} from "./services/ppaBilling";
+
+const terms: PpaTariffTerms = {
+  tariffType: "flat",
+  energyRateCents: 12.5,
+  touBlocks: [],
+  timezone: "UTC",
+  escalationPercent: 0,
+  escalationStartDate: new Date("2026-01-01T00:00:00Z"),
+  minimumAnnualKwh: null,
+  shortfallRateCents: null,
+  excessThresholdAnnualKwh: null,
+  excessRateCents: null,
+  contractStart: new Date("2025-07-01T00:00:00Z"),
+  contractEnd: null,
+};
+
+const JUNE = billingPeriodFor(new Date("2026-06-10T12:00:00Z"), "monthly", "UTC");
+const at = (iso: string, kwh: number) => ({ hourStart: new Date(iso), kwh });
+
+describe("billingPeriodFor", () => {
+  it("should align periods to local calendar months", () => {
+    expect(JUNE).toEqual({
+      start: new Date("2026-06-01T00:00:00Z"),
+      end: new Date("2026-07-01T00:00:00Z"),
+      months: 1,
+    });
+
+    const quarter = billingPeriodFor(new Date("2026-11-20T00:00:00Z"), "quarterly", "Africa/Lagos");
+    expect(quarter.start).toEqual(new Date("2026-09-30T23:00:00Z"));
+    expect(quarter.end).toEqual(new Date("2026-12-31T23:00:00Z"));
+    expect(quarter.months).toBe(3);
+  });
+});
+
+describe("escalationFactor", () => {
+  it("should compound on each full contract year", () => {
+    const start = new Date("2024-07-01T00:00:00Z");
+    expect(escalationFactor(2, start, new Date("2025-06-30T00:00:00Z"))).toBe(1);
+    expect(escalationFactor(2, start, new Date("2025-07-01T00:00:00Z"))).toBeCloseTo(1.02);
+    expect(escalationFactor(2, start, new Date("2026-08-01T00:00:00Z"))).toBeCloseTo(1.0404);
+  });
+});
+
+describe("contractYearFor", () => {
+  it("should run contract years from the contract start", () => {
+    expect(contractYearFor(terms, new Date("2026-06-10T00:00:00Z"))).toEqual({
+      start: new Date("2025-07-01T00:00:00Z"),
+      end: new Date("2026-07-01T00:00:00Z"),
+      coverage: 1,
+    });
+    expect(contractYearFor(terms, new Date("2026-07-01T00:00:00Z")).start).toEqual(new Date("2026-07-01T00:00:00Z"));
+  });
+
+  it("should pro-rate a contract year cut short by the contract end by days", () => {
+    const ending = { ...terms, contractEnd: new Date("2026-01-01T00:00:00Z") };
+    const year = contractYearFor(ending, new Date("2025-09-01T00:00:00Z"));
+    expect(year.end).toEqual(ending.contractEnd);
+    expect(year.coverage).toBeCloseTo(184 / 365);
+  });
+});
+
+describe("touBlockFor", () => {
+  const blocks = [
+    { name: "Peak", rateCents: 20, startHour: 17, endHour: 21, daysOfWeek: [1, 2, 3, 4, 5] },
+    { name: "Night", rateCents: 8, startHour: 22, endHour: 6 },
+  ];
+
+  it("should match weekday hours and blocks that wrap midnight", () => {
+    expect(touBlockFor(blocks, { hour: 18, dayOfWeek: 3, month: 6 })?.name).toBe("Peak");
+    expect(touBlockFor(blocks, { hour: 18, dayOfWeek: 0, month: 6 })).toBeNull();
+    expect(touBlockFor(blocks, { hour: 23, dayOfWeek: 0, month: 6 })?.name).toBe("Night");
+    expect(touBlockFor(blocks, { hour: 3, dayOfWeek: 2, month: 6 })?.name).toBe("Night");
+  });
+});
+
+describe("computePpaCharges", () => {
+  it("should bill flat-rate energy", () => {
+    const charges = computePpaCharges(terms, [at("2026-06-02T10:00:00Z", 400), at("2026-06-02T11:00:00Z", 600)], JUNE);
+    expect(charges).toEqual([
+      { kind: "energy", label: "Energy delivered", kwh: 1000, rateCents: 12.5, amountCents: 12500 },
+    ]);
+  });
+
+  it("should split energy across time-of-use blocks in local time", () => {
+    const tou: PpaTariffTerms = {
+      ...terms,
+      tariffType: "time_of_use",
+      timezone: "Africa/Lagos",
+      touBlocks: [{ name: "Peak", rateCents: 20, startHour: 17, endHour: 21 }],
+    };
+    // 16:00 UTC is 17:00 in Lagos
+    const charges = computePpaCharges(tou, [at("2026-06-02T15:00:00Z", 100), at("2026-06-02T16:00:00Z", 50)], JUNE);
+
+    expect(charges.map(c => [c.label, c.kwh, c.amountCents])).toEqual([
+      ["Energy delivered - Peak", 50, 1000],
+      ["Energy delivered - Standard", 100, 1250],
+    ]);
+  });
+
+  it("should bill energy past the annual contract quantity at the excess rate", () => {
+    const capped = { ...terms, excessThresholdAnnualKwh: 12000, excessRateCents: 5 };
+    const hours = [at("2026-06-02T10:00:00Z", 700), at("2026-06-03T10:00:00Z", 500)];
+
+    // 10,800 kWh already delivered this contract year leaves 1,200 within contract
+    expect(computePpaCharges(capped, hours, JUNE, 10_800).map(c => [c.kind, c.kwh])).toEqual([["energy", 1200]]);
+    expect(computePpaCharges(capped, hours, JUNE, 11_000).map(c => [c.kind, c.kwh, c.amountCents])).toEqual([
+      ["energy", 1000, 12500],
+      ["excess", 200, 1000],
+    ]);
+  });
+
+  it("should not bill excess or shortfall for a seasonal month inside the annual band", () => {
+    const band = { ...terms, minimumAnnualKwh: 12000, shortfallRateCents: 10, excessThresholdAnnualKwh: 15000, excessRateCents: 5 };
+    const DECEMBER = billingPeriodFor(new Date("2025-12-10T00:00:00Z"), "monthly", "UTC");
+    const MARCH = billingPeriodFor(new Date("2026-03-10T00:00:00Z"), "monthly", "UTC");
+
+    expect(computePpaCharges(band, [at("2025-12-02T10:00:00Z", 200)], DECEMBER, 6_000).map(c => c.kind)).toEqual(["energy"]);
+    expect(computePpaCharges(band, [at("2026-03-02T10:00:00Z", 2_500)], MARCH, 7_000).map(c => c.kind)).toEqual(["energy"]);
+  });
+
+  it("should settle the take-or-pay shortfall when the contract year closes and apply the escalator", () => {
+    const minimum = {
+      ...terms,
+      minimumAnnualKwh: 12000,
+      shortfallRateCents: 10,
+      escalationPercent: 10,
+      escalationStartDate: new Date("2025-01-01T00:00:00Z"),
+    };
+    // June closes the contract year that started 2025-07-01: 10,000 + 800 of 12,000
+    const charges = computePpaCharges(minimum, [at("2026-06-02T10:00:00Z", 800)], JUNE, 10_000);
+
+    expect(charges.map(c => [c.kind, c.kwh, c.rateCents])).toEqual([
+      ["energy", 800, 13.75],
+      ["shortfall", 1200, 11],
+    ]);
+    expect(charges[1].amountCents).toBe(13200);
+
+    const MAY = billingPeriodFor(new Date("2026-05-10T00:00:00Z"), "monthly", "UTC");
+    expect(computePpaCharges(minimum, [at("2026-05-02T10:00:00Z", 100)], MAY, 1_000).map(c => c.kind)).toEqual(["energy"]);
+  });
+
+  it("should start a new contract year mid-period and pro-rate a final partial year", () => {
+    const midMonth = { ...terms, contractStart: new Date("2025-06-15T00:00:00Z"), excessThresholdAnnualKwh: 12000, excessRateCents: 5 };
+    // 11,900 before the 15th closes the year; the 500 after it start the next one
+    const charges = computePpaCharges(midMonth, [at("2026-06-10T10:00:00Z", 300), at("2026-06-20T10:00:00Z", 500)], JUNE, 11_900);
+    expect(charges.map(c => [c.kind, c.kwh])).toEqual([["energy", 600], ["excess", 200]]);
+
+    const ending = { ...terms, minimumAnnualKwh: 12000, contractEnd: new Date("2026-01-01T00:00:00Z") };
+    const DECEMBER = billingPeriodFor(new Date("2025-12-10T00:00:00Z"), "monthly", "UTC");
+    const shortfall = computePpaCharges(ending, [], DECEMBER, 5_000).find(c => c.kind === "shortfall");
+    expect(shortfall?.kwh).toBeCloseTo(12000 * 184 / 365 - 5_000, 1);
+  });
+});
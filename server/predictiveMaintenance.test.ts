@@ -0,0 +1,161 @@
+/**
+ * Predictive Maintenance Tests
+ *
+ * EWMA, seasonal residual and peer comparison detectors, degradation trend
+ * fitting and consecutive-hit counting.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_DETECTOR_PARAMS,
+  EwmaState,
+  Evaluation,
+  SeasonalState,
+  evaluateEwma,
+  evaluatePeers,
+  evaluateSeasonal,
+  fitDegradationTrend,
+  resolveDetectorParams,
+  trailingAnomalies,
+} from "./services/predictiveMaintenance";
+
+const T0 = new Date("2026-06-01T00:00:00Z");
+const at = (minutes: number) => new Date(T0.getTime() + minutes * 60_000);
+
+describe("resolveDetectorParams", () => {
+  it("should fill defaults and ignore values of the wrong type", () => {
+    const params = resolveDetectorParams({ threshold: 4, alpha: "fast", lowerOnly: false });
+    expect(params.threshold).toBe(4);
+    expect(params.alpha).toBe(DEFAULT_DETECTOR_PARAMS.alpha);
+    expect(params.lowerOnly).toBe(false);
+  });
+});
+
+describe("evaluateEwma", () => {
+  const params = { ...DEFAULT_DETECTOR_PARAMS, minSamples: 20, alpha: 0.1 };
+
+  function train(values: number[]): EwmaState | undefined {
+    let state: EwmaState | undefined;
+    values.forEach((value, i) => {
+      state = evaluateEwma(state, { timestamp: at(i * 5), value }, params).state;
+    });
+    return state;
+  }
+
+  it("should not evaluate until the baseline has enough samples", () => {
+    const state = train([50, 51, 49]);
+    const { evaluation } = evaluateEwma(state, { timestamp: at(100), value: 5 }, params);
+    expect(evaluation.evaluated).toBe(false);
+    expect(evaluation.isAnomaly).toBe(false);
+  });
+
+  it("should flag a drop and keep it out of the baseline", () => {
+    const state = train(Array.from({ length: 40 }, (_, i) => 50 + (i % 2 ? 1 : -1)))!;
+    const { state: next, evaluation } = evaluateEwma(state, { timestamp: at(300), value: 20 }, params);
+
+    expect(evaluation.isAnomaly).toBe(true);
+    expect(evaluation.expected).toBeCloseTo(state.mean);
+    expect(next).toEqual(state);
+  });
+
+  it("should ignore spikes above the baseline when lowerOnly", () => {
+    const state = train(Array.from({ length: 40 }, (_, i) => 50 + (i % 2 ? 1 : -1)));
+    const { evaluation } = evaluateEwma(state, { timestamp: at(300), value: 90 }, params);
+    expect(evaluation.score).toBeGreaterThan(params.threshold);
+    expect(evaluation.isAnomaly).toBe(false);
+  });
+});
+
+describe("evaluateSeasonal", () => {
+  const params = { ...DEFAULT_DETECTOR_PARAMS, minSamples: 3 };
+
+  // Noon output scales with irradiance: 0.1 kW per W/m² → 100 kW per kW/m²
+  function trainNoon(days: number, ratio = 1): SeasonalState | undefined {
+    let state: SeasonalState | undefined;
+    for (let d = 0; d < days; d++) {
+      for (const irradiance of [600, 800, 1000]) {
+        const noise = irradiance === 800 ? 1 : -1;
+        state = evaluateSeasonal(state, {
+          timestamp: at(d * 1440 + 720 + irradiance / 100),
+          value: (irradiance / 10 + noise) * ratio,
+          irradiance,
+        }, params).state;
+      }
+    }
+    return state;
+  }
+
+  it("should compare irradiance-normalized output against the hour-of-day profile", () => {
+    const state = trainNoon(3);
+
+    // Half the output at the same irradiance is a fault; a cloudy hour is not
+    const fault = evaluateSeasonal(state, { timestamp: at(3 * 1440 + 725), value: 45, irradiance: 900 }, params).evaluation;
+    const cloudy = evaluateSeasonal(state, { timestamp: at(3 * 1440 + 730), value: 30, irradiance: 300 }, params).evaluation;
+
+    expect(fault.isAnomaly).toBe(true);
+    expect(fault.expected).toBeCloseTo(90, 0);
+    expect(cloudy.isAnomaly).toBe(false);
+  });
+
+  it("should skip night-time buckets below the irradiance floor", () => {
+    const { evaluation } = evaluateSeasonal(trainNoon(3), { timestamp: at(3 * 1440 + 60), value: 0, irradiance: 5 }, params);
+    expect(evaluation.evaluated).toBe(false);
+  });
+
+  it("should record a daily actual/expected ratio once the profile is established", () => {
+    const state = trainNoon(6)!;
+    expect(state.daily.length).toBeGreaterThan(0);
+    for (const d of state.daily) expect(d.ratio).toBeCloseTo(1, 1);
+  });
+});
+
+describe("evaluatePeers", () => {
+  it("should flag a device underperforming its site peers", () => {
+    const obs = { timestamp: T0, value: 0.42, peers: [0.8, 0.82, 0.79, 0.81] };
+    const evaluation = evaluatePeers(obs, DEFAULT_DETECTOR_PARAMS);
+    expect(evaluation.evaluated).toBe(true);
+    expect(evaluation.expected).toBeCloseTo(0.805);
+    expect(evaluation.isAnomaly).toBe(true);
+  });
+
+  it("should not evaluate without at least two peers", () => {
+    const evaluation = evaluatePeers({ timestamp: T0, value: 0.1, peers: [0.8] }, DEFAULT_DETECTOR_PARAMS);
+    expect(evaluation.evaluated).toBe(false);
+  });
+
+  it("should tolerate normal spread between peers", () => {
+    const evaluation = evaluatePeers({ timestamp: T0, value: 0.78, peers: [0.8, 0.82, 0.79, 0.81] }, DEFAULT_DETECTOR_PARAMS);
+    expect(evaluation.isAnomaly).toBe(false);
+  });
+});
+
+describe("fitDegradationTrend", () => {
+  const day = (i: number) => new Date(T0.getTime() + i * 86400_000).toISOString().slice(0, 10);
+
+  it("should project when the ratio crosses the failure threshold", () => {
+    const daily = Array.from({ length: 10 }, (_, i) => ({ day: day(i), ratio: 1 - 0.01 * i }));
+    const trend = fitDegradationTrend(daily, 0.7)!;
+
+    expect(trend.slopePerDay).toBeCloseTo(-0.01);
+    expect(trend.r2).toBeCloseTo(1);
+    expect(trend.predictedFailureDate?.toISOString().slice(0, 10)).toBe(day(30));
+  });
+
+  it("should not project a failure for a flat or improving trend", () => {
+    const daily = Array.from({ length: 10 }, (_, i) => ({ day: day(i), ratio: 0.95 + 0.001 * i }));
+    expect(fitDegradationTrend(daily, 0.7)?.predictedFailureDate).toBeNull();
+    expect(fitDegradationTrend(daily.slice(0, 5), 0.7)).toBeNull();
+  });
+});
+
+describe("trailingAnomalies", () => {
+  const evaluation = (isAnomaly: boolean, evaluated = true): Evaluation =>
+    ({ timestamp: T0, value: 0, expected: 0, score: 0, evaluated, isAnomaly });
+
+  it("should count consecutive anomalies at the end, skipping unevaluated buckets", () => {
+    const result = trailingAnomalies([
+      evaluation(true), evaluation(false), evaluation(true), evaluation(false, false), evaluation(true),
+    ]);
+    expect(result).toEqual({ streak: 2, evaluated: 4 });
+  });
+});
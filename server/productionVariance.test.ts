@@ -0,0 +1,116 @@
+/**
+ * Production Variance Tests
+ *
+ * Monthly P50/P90 forecasts from financial model inputs, P90 breach alerts
+ * and sustained underperformance detection.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ProductionForecastInputs,
+  forecastMonth,
+  normalizeMonthlyShape,
+} from "./services/productionVariance";
+import {
+  DEFAULT_THRESHOLDS,
+  checkComparisonForAlerts,
+  findSustainedUnderperformance,
+} from "./services/varianceAlerts";
+
+const month = (y: number, m: number) => new Date(Date.UTC(y, m, 1));
+
+const inputs: ProductionForecastInputs = {
+  annualByCalendarYear: {},
+  annualP50Mwh: 1200,
+  p90Ratio: 0.9,
+  degradationRate: 0.005,
+  codDate: new Date("2025-01-01T00:00:00Z"),
+  monthlyShape: Array(12).fill(1 / 12),
+};
+
+describe("normalizeMonthlyShape", () => {
+  it("should scale a monthly profile to weights", () => {
+    const shape = normalizeMonthlyShape([1, 1, 2, 2, 3, 3, 3, 3, 2, 2, 1, 1]);
+    expect(shape.reduce((s, v) => s + v, 0)).toBeCloseTo(1);
+    expect(shape[4]).toBeCloseTo(3 / 24);
+  });
+
+  it("should fall back to days in month for missing or invalid profiles", () => {
+    expect(normalizeMonthlyShape(undefined)[0]).toBeCloseTo(31 / 365);
+    expect(normalizeMonthlyShape([1, 2, 3])[1]).toBeCloseTo(28 / 365);
+    expect(normalizeMonthlyShape(Array(12).fill(0))[3]).toBeCloseTo(30 / 365);
+  });
+});
+
+describe("forecastMonth", () => {
+  it("should degrade the year-one P50 by operating year", () => {
+    const first = forecastMonth(inputs, month(2025, 5))!;
+    const third = forecastMonth(inputs, month(2027, 5))!;
+
+    expect(first.p50Mwh).toBeCloseTo(100);
+    expect(first.p90Mwh).toBeCloseTo(90);
+    expect(third.p50Mwh).toBeCloseTo(100 * 0.995 * 0.995);
+  });
+
+  it("should prefer the model's cash-flow production for the year", () => {
+    const forecast = forecastMonth({ ...inputs, annualByCalendarYear: { 2026: 2400 } }, month(2026, 0))!;
+    expect(forecast.p50Mwh).toBeCloseTo(200);
+  });
+
+  it("should return nothing before COD and pro-rate the COD month", () => {
+    const late = { ...inputs, codDate: new Date("2025-04-16T00:00:00Z") };
+    expect(forecastMonth(late, month(2025, 2))).toBeNull();
+    expect(forecastMonth(late, month(2025, 3))!.p50Mwh).toBeCloseTo(100 * 15 / 30);
+  });
+
+  it("should leave P90 empty without a P90/P50 ratio", () => {
+    expect(forecastMonth({ ...inputs, p90Ratio: null }, month(2025, 5))!.p90Mwh).toBeNull();
+  });
+});
+
+describe("production variance alerts", () => {
+  const comparison = (id: number, m: number, actual: number) => ({
+    id,
+    projectId: 1,
+    financialModelId: 1,
+    periodStart: month(2026, m),
+    periodEnd: month(2026, m + 1),
+    projectedRevenue: null,
+    actualRevenue: null,
+    projectedProduction: 100,
+    projectedProductionP90: 85,
+    actualProduction: actual,
+    projectedOpex: null,
+    actualOpex: null,
+    projectedEbitda: null,
+    actualEbitda: null,
+  });
+  const check = (id: number, m: number, actual: number) =>
+    checkComparisonForAlerts(comparison(id, m, actual), "Solar One", "Base case", DEFAULT_THRESHOLDS);
+
+  it("should raise a critical alert when metered production falls below P90", () => {
+    const alerts = check(1, 0, 80);
+    const p90 = alerts.find(a => a.type === "production_p90");
+
+    expect(alerts.some(a => a.type === "production")).toBe(true);
+    expect(p90?.severity).toBe("critical");
+    expect(p90?.projected).toBe(85);
+    expect(check(2, 0, 88).some(a => a.type === "production_p90")).toBe(false);
+  });
+
+  it("should flag runs of consecutive shortfalls as sustained", () => {
+    // Jan-Mar short, Apr on target, May-Jun short
+    const actuals = [88, 87, 89, 101, 88, 88];
+    const periods = actuals.map((actual, m) => ({ periodStart: month(2026, m), alerts: check(m, m, actual) }));
+    const sustained = findSustainedUnderperformance(periods, 3);
+
+    expect(sustained.map(a => a.periodStart.getUTCMonth())).toEqual([0, 1, 2]);
+    expect(sustained.every(a => a.sustainedMonths === 3)).toBe(true);
+    expect(findSustainedUnderperformance(periods, 2)).toHaveLength(5);
+  });
+
+  it("should not count overperformance towards a run", () => {
+    const periods = [120, 115, 118].map((actual, m) => ({ periodStart: month(2026, m), alerts: check(m, m, actual) }));
+    expect(findSustainedUnderperformance(periods, 3)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Prometheus Telemetry Provider Tests
+ *
+ * PromQL translation of TelemetryQuery and result mapping, run against a
+ * local fake Prometheus HTTP API.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  PrometheusTelemetryProvider,
+  PrometheusQueryError,
+  buildPromQLRangeQueries,
+  providerFromConfig,
+  MySqlTelemetryProvider,
+} from "./lib/telemetryProvider";
+
+interface RecordedRequest {
+  path: string;
+  params: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+}
+
+const FROM = new Date("2026-01-01T00:00:00Z");
+const TO = new Date("2026-01-01T03:00:00Z");
+const t = (hours: number) => FROM.getTime() / 1000 + hours * 3600;
+
+describe("buildPromQLRangeQueries", () => {
+  it("should scope by org and filters and aggregate per group", () => {
+    const [q] = buildPromQLRangeQueries({
+      orgId: 5,
+      projectIds: [1, 2],
+      deviceIds: [9],
+      metrics: ["active_power"],
+      timeRange: { from: FROM, to: TO },
+      interval: "15m",
+      aggregation: "max",
+      groupBy: ["device", "metric"],
+    });
+
+    expect(q.promql).toBe(
+      'max by (device_id) (max_over_time(active_power{org_id="5", project_id=~"1|2", device_id="9"}[900s]))'
+    );
+    expect(q.stepSeconds).toBe(900);
+  });
+
+  it("should widen the step to honour maxDataPoints and apply prefix and label overrides", () => {
+    const [q] = buildPromQLRangeQueries(
+      { orgId: 1, metrics: ["energy_kwh"], timeRange: { from: FROM, to: TO }, interval: "1m", aggregation: "count", maxDataPoints: 12 },
+      { metricPrefix: "kiisha_", labels: { org: "tenant" } }
+    );
+
+    expect(q.promql).toBe('sum (count_over_time(kiisha_energy_kwh{tenant="1"}[60s]))');
+    expect(q.stepSeconds).toBe(900);
+  });
+
+  it("should reject metric names that are not valid PromQL identifiers", () => {
+    expect(() => buildPromQLRangeQueries({
+      orgId: 1, metrics: ['x"} or up{'], timeRange: { from: FROM, to: TO },
+    })).toThrow(PrometheusQueryError);
+  });
+});
+
+describe("PrometheusTelemetryProvider", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => { body += chunk; });
+      req.on("end", () => {
+        const url = new URL(req.url || "/", "http://localhost");
+        const params = req.method === "POST" ? new URLSearchParams(body) : url.searchParams;
+        requests.push({ path: url.pathname, params, headers: req.headers });
+
+        const reply = (status: number, payload: unknown) => {
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(payload));
+        };
+        const query = params.get("query") || "";
+
+        switch (url.pathname) {
+          case "/-/healthy":
+            res.writeHead(200);
+            res.end("Prometheus Server is Healthy.");
+            return;
+          case "/api/v1/query_range":
+            if (query.includes("bad_metric")) {
+              return reply(400, { status: "error", errorType: "bad_data", error: "parse error" });
+            }
+            return reply(200, {
+              status: "success",
+              data: {
+                resultType: "matrix",
+                result: [
+                  { metric: { site_id: "3" }, values: [[t(0), "10"], [t(1), "12.5"], [t(2), "NaN"]] },
+                  { metric: { site_id: "4" }, values: [[t(0), "7"]] },
+                ],
+              },
+            });
+          case "/api/v1/query": {
+            const values: Record<string, string> = {
+              last_over_time: "42", min_over_time: "1", max_over_time: "50", sum_over_time: "300", count_over_time: "10",
+            };
+            const fn = Object.keys(values).find(name => query.includes(name))!;
+            const empty = query.includes("missing_metric");
+            return reply(200, {
+              status: "success",
+              data: { resultType: "vector", result: empty ? [] : [{ metric: {}, value: [Number(params.get("time")), values[fn]] }] },
+            });
+          }
+          case "/api/v1/label/__name__/values":
+            return reply(200, { status: "success", data: ["kiisha_active_power", "kiisha_energy_kwh", "up"] });
+          default:
+            return reply(404, { status: "error", errorType: "not_found", error: "not found" });
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it("should run a range query and map the matrix into series", async () => {
+    const provider = new PrometheusTelemetryProvider({ baseUrl, tenantId: "acme", bearerToken: "tok" });
+    const result = await provider.query({
+      orgId: 5,
+      metrics: ["energy_kwh"],
+      timeRange: { from: FROM, to: TO },
+      interval: "1h",
+      aggregation: "sum",
+      groupBy: ["site"],
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].params.get("query")).toBe('sum by (site_id) (sum_over_time(energy_kwh{org_id="5"}[3600s]))');
+    expect(requests[0].params.get("start")).toBe(String(t(0)));
+    expect(requests[0].params.get("step")).toBe("3600s");
+    expect(requests[0].headers["x-scope-orgid"]).toBe("acme");
+    expect(requests[0].headers.authorization).toBe("Bearer tok");
+
+    expect(result.series).toHaveLength(2);
+    expect(result.series[0]).toMatchObject({ metric: "energy_kwh", labels: { siteId: 3 } });
+    // NaN samples are dropped
+    expect(result.series[0].dataPoints.map(p => [p.timestamp.toISOString(), p.value])).toEqual([
+      ["2026-01-01T00:00:00.000Z", 10],
+      ["2026-01-01T01:00:00.000Z", 12.5],
+    ]);
+  });
+
+  it("should surface Prometheus API errors", async () => {
+    const provider = new PrometheusTelemetryProvider(baseUrl);
+    await expect(provider.query({ orgId: 1, metrics: ["bad_metric"], timeRange: { from: FROM, to: TO } }))
+      .rejects.toMatchObject({ name: "PrometheusQueryError", errorType: "bad_data", status: 400 });
+  });
+
+  it("should build summaries from instant queries over the whole range", async () => {
+    const provider = new PrometheusTelemetryProvider({ baseUrl });
+    const summaries = await provider.getSummary({
+      orgId: 5,
+      metrics: ["active_power", "missing_metric"],
+      timeRange: { from: FROM, to: TO },
+    });
+
+    expect(summaries).toEqual([
+      { metric: "active_power", current: 42, min: 1, max: 50, avg: 30, total: 300, count: 10 },
+    ]);
+    expect(requests.find(r => r.params.get("query")?.startsWith("min("))?.params.get("query"))
+      .toBe('min(min_over_time(active_power{org_id="5"}[10800s]))');
+    expect(requests.every(r => r.params.get("time") === String(t(3)))).toBe(true);
+  });
+
+  it("should list metrics for the org with the prefix stripped", async () => {
+    const provider = new PrometheusTelemetryProvider({ baseUrl, metricPrefix: "kiisha_", basicAuth: { username: "u", password: "p" } });
+    const metrics = await provider.getAvailableMetrics(5, [2]);
+
+    expect(metrics).toEqual(["active_power", "energy_kwh"]);
+    expect(requests[0].params.get("match[]")).toBe('{org_id="5", project_id="2"}');
+    expect(requests[0].headers.authorization).toBe(`Basic ${Buffer.from("u:p").toString("base64")}`);
+  });
+
+  it("should report health", async () => {
+    expect((await new PrometheusTelemetryProvider(baseUrl).healthCheck()).healthy).toBe(true);
+  });
+});
+
+describe("providerFromConfig", () => {
+  const base = {
+    id: 1, organizationId: 1, providerType: "prometheus" as const, prometheusUrl: "http://mimir:9009/prometheus",
+    tenantId: null, authType: "none" as const, username: null, encryptedSecret: null, metricPrefix: null,
+    labelNames: null, isActive: true, updatedBy: null, createdAt: new Date(), updatedAt: new Date(),
+  };
+
+  it("should select Prometheus only for active, complete configs", () => {
+    expect(providerFromConfig(base)).toBeInstanceOf(PrometheusTelemetryProvider);
+    expect(providerFromConfig({ ...base, isActive: false })).toBeInstanceOf(MySqlTelemetryProvider);
+    expect(providerFromConfig({ ...base, prometheusUrl: null })).toBeInstanceOf(MySqlTelemetryProvider);
+    expect(providerFromConfig(null)).toBeInstanceOf(MySqlTelemetryProvider);
+  });
+});
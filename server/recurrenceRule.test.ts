@@ -0,0 +1,196 @@
+/**
+ * Recurrence Rule Tests
+ *
+ * RRULE expansion (BYSETPOS, COUNT/UNTIL, EXDATE, timezones) and merging of
+ * expanded occurrences with their stored per-occurrence state.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Obligation, ObligationOccurrence } from "../drizzle/schema";
+import {
+  expandRecurrence,
+  isOccurrence,
+  nextOccurrence,
+  parseRecurrenceRule,
+  recurrenceLines,
+  RecurrenceParseError,
+} from "./services/recurrenceRule";
+import { expandObligation } from "./services/obligationOccurrences";
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+const isoList = (dates: Date[]) => dates.map(d => d.toISOString().slice(0, 16));
+
+describe("parseRecurrenceRule", () => {
+  it("should parse RRULE, EXDATE and RDATE lines", () => {
+    const rule = parseRecurrenceRule(
+      "RRULE:FREQ=MONTHLY;INTERVAL=3;BYDAY=-1FR;COUNT=4\nEXDATE;TZID=Africa/Lagos:20261225T090000\nRDATE;VALUE=DATE:20261001"
+    );
+    expect(rule.freq).toBe("MONTHLY");
+    expect(rule.interval).toBe(3);
+    expect(rule.count).toBe(4);
+    expect(rule.byDay).toEqual([{ weekday: 5, nth: -1 }]);
+    expect(rule.exDates[0]).toMatchObject({ year: 2026, month: 12, day: 25, hour: 9, tzid: "Africa/Lagos", dateOnly: false });
+    expect(rule.rDates[0]).toMatchObject({ year: 2026, month: 10, day: 1, dateOnly: true });
+  });
+
+  it("should reject rules RFC 5545 doesn't allow", () => {
+    expect(() => parseRecurrenceRule("INTERVAL=2")).toThrow(RecurrenceParseError);
+    expect(() => parseRecurrenceRule("FREQ=HOURLY")).toThrow(RecurrenceParseError);
+    expect(() => parseRecurrenceRule("FREQ=DAILY;COUNT=2;UNTIL=20260101")).toThrow(RecurrenceParseError);
+    expect(() => parseRecurrenceRule("FREQ=WEEKLY;BYDAY=1MO")).toThrow(RecurrenceParseError);
+    expect(() => parseRecurrenceRule("FREQ=MONTHLY;BYSETPOS=-1")).toThrow(RecurrenceParseError);
+    expect(() => parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=32")).toThrow(RecurrenceParseError);
+  });
+
+  it("should prefix bare rules for calendar export", () => {
+    expect(recurrenceLines("FREQ=MONTHLY;BYMONTHDAY=1")).toEqual(["RRULE:FREQ=MONTHLY;BYMONTHDAY=1"]);
+    expect(recurrenceLines("RRULE:FREQ=YEARLY\r\nEXDATE:20270101T000000Z")).toEqual(["RRULE:FREQ=YEARLY", "EXDATE:20270101T000000Z"]);
+  });
+});
+
+describe("expandRecurrence", () => {
+  it("should pick the last weekday of each month with BYSETPOS", () => {
+    const dates = expandRecurrence("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3", utc("2026-01-30T09:00"));
+    // 31 Jan and 28 Feb 2026 are Saturdays
+    expect(isoList(dates)).toEqual(["2026-01-30T09:00", "2026-02-27T09:00", "2026-03-31T09:00"]);
+  });
+
+  it("should expand quarterly month-end deadlines", () => {
+    const dates = expandRecurrence("FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1", utc("2026-03-31T17:00"), { limit: 4 });
+    expect(isoList(dates)).toEqual(["2026-03-31T17:00", "2026-06-30T17:00", "2026-09-30T17:00", "2026-12-31T17:00"]);
+  });
+
+  it("should stop at UNTIL and drop EXDATEs", () => {
+    const dates = expandRecurrence(
+      "RRULE:FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20260515T100000Z\nEXDATE:20260315T100000Z",
+      utc("2026-01-15T10:00")
+    );
+    expect(isoList(dates)).toEqual(["2026-01-15T10:00", "2026-02-15T10:00", "2026-04-15T10:00", "2026-05-15T10:00"]);
+  });
+
+  it("should count excluded instances towards COUNT", () => {
+    const dates = expandRecurrence("RRULE:FREQ=WEEKLY;COUNT=3\nEXDATE;VALUE=DATE:20260112", utc("2026-01-05T08:00"));
+    expect(isoList(dates)).toEqual(["2026-01-05T08:00", "2026-01-19T08:00"]);
+  });
+
+  it("should keep the local time across daylight saving changes", () => {
+    // 9am London is 09:00Z in winter and 08:00Z in summer
+    const dates = expandRecurrence("FREQ=MONTHLY;COUNT=3", utc("2026-02-01T09:00"), { timezone: "Europe/London" });
+    expect(isoList(dates)).toEqual(["2026-02-01T09:00", "2026-03-01T09:00", "2026-04-01T08:00"]);
+  });
+
+  it("should limit expansion to a window", () => {
+    const dates = expandRecurrence("FREQ=MONTHLY;BYDAY=1MO", utc("2026-01-05T09:00"), {
+      from: utc("2026-04-01T00:00"),
+      to: utc("2026-06-30T00:00"),
+    });
+    expect(isoList(dates)).toEqual(["2026-04-06T09:00", "2026-05-04T09:00", "2026-06-01T09:00"]);
+  });
+
+  it("should find the next occurrence and recognise instances", () => {
+    const rule = "FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=31";
+    const start = utc("2026-03-31T12:00");
+    expect(nextOccurrence(rule, start, start)?.toISOString()).toBe("2027-03-31T12:00:00.000Z");
+    expect(isOccurrence(rule, start, utc("2028-03-31T12:00"))).toBe(true);
+    expect(isOccurrence(rule, start, utc("2028-03-30T12:00"))).toBe(false);
+    expect(nextOccurrence("FREQ=DAILY;COUNT=1", start, start)).toBeNull();
+  });
+});
+
+describe("expandObligation", () => {
+  const obligation: Obligation = {
+    id: 7,
+    organizationId: 1,
+    createdByUserId: 1,
+    title: "Quarterly compliance report",
+    description: null,
+    obligationType: "REPORT_DEADLINE",
+    status: "OPEN",
+    priority: "HIGH",
+    startAt: null,
+    dueAt: utc("2026-03-31T09:00"),
+    timezone: "Africa/Lagos",
+    recurrenceRule: "FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1",
+    reminderPolicyId: null,
+    escalationPolicyId: null,
+    visibility: "ORG_SHARED",
+    sourceType: "MANUAL",
+    sourceRef: null,
+    vatrFieldPointers: null,
+    aiConfidence: null,
+    aiSuggestionAccepted: null,
+    aiSuggestionAcceptedAt: null,
+    aiSuggestionAcceptedBy: null,
+    completedAt: null,
+    completedByUserId: null,
+    createdAt: utc("2026-01-01T00:00"),
+    updatedAt: utc("2026-01-01T00:00"),
+  };
+
+  const stored = (occurrenceAt: string, overrides: Partial<ObligationOccurrence>): ObligationOccurrence => ({
+    id: 1,
+    organizationId: 1,
+    obligationId: 7,
+    occurrenceAt: utc(occurrenceAt),
+    dueAt: utc(occurrenceAt),
+    status: "OPEN",
+    exceptionType: null,
+    exceptionReason: null,
+    assignees: null,
+    notes: null,
+    completedAt: null,
+    completedByUserId: null,
+    createdAt: utc("2026-01-01T00:00"),
+    updatedAt: utc("2026-01-01T00:00"),
+    ...overrides,
+  });
+
+  const year = { from: utc("2026-01-01T00:00"), to: utc("2026-12-31T23:59") };
+
+  it("should merge stored state into expanded occurrences", () => {
+    const instances = expandObligation(obligation, year, [
+      stored("2026-03-31T09:00", { id: 11, status: "COMPLETED", completedAt: utc("2026-03-30T10:00"), completedByUserId: 3 }),
+      stored("2026-06-30T09:00", { id: 12, status: "CANCELLED", exceptionType: "SKIPPED" }),
+      stored("2026-09-30T09:00", { id: 13, assignees: [{ assigneeType: "USER", assigneeId: 9, role: "OWNER" }] }),
+    ]);
+
+    expect(instances.map(i => [i.occurrenceId, i.status, i.dueAt!.toISOString().slice(0, 10)])).toEqual([
+      [11, "COMPLETED", "2026-03-31"],
+      [12, "CANCELLED", "2026-06-30"],
+      [13, "OPEN", "2026-09-30"],
+      [null, "OPEN", "2026-12-31"],
+    ]);
+    expect(instances[0].completedByUserId).toBe(3);
+    expect(instances[2].occurrenceAssignees).toEqual([{ assigneeType: "USER", assigneeId: 9, role: "OWNER" }]);
+    expect(instances.every(i => i.isRecurring && i.id === 7)).toBe(true);
+  });
+
+  it("should place rescheduled occurrences at their new due date", () => {
+    const q2 = { from: utc("2026-04-01T00:00"), to: utc("2026-06-30T23:59") };
+    // Q1 report moved into Q2, Q2 report moved into Q3
+    const instances = expandObligation(obligation, q2, [
+      stored("2026-03-31T09:00", { id: 21, dueAt: utc("2026-04-14T09:00"), exceptionType: "RESCHEDULED" }),
+      stored("2026-06-30T09:00", { id: 22, dueAt: utc("2026-07-15T09:00"), exceptionType: "RESCHEDULED" }),
+    ]);
+    expect(instances).toHaveLength(1);
+    expect(instances[0]).toMatchObject({ occurrenceId: 21, occurrenceAt: utc("2026-03-31T09:00"), dueAt: utc("2026-04-14T09:00") });
+  });
+
+  it("should ignore stored rows the rule no longer generates", () => {
+    const instances = expandObligation(obligation, year, [stored("2026-05-15T09:00", { id: 31, dueAt: utc("2026-05-20T09:00") })]);
+    expect(instances.map(i => i.occurrenceId)).toEqual([null, null, null, null]);
+  });
+
+  it("should treat non-recurring and closed series sensibly", () => {
+    const single = expandObligation({ ...obligation, recurrenceRule: null }, year);
+    expect(single).toHaveLength(1);
+    expect(single[0]).toMatchObject({ isRecurring: false, occurrenceAt: null, dueAt: obligation.dueAt });
+
+    const cancelled = expandObligation({ ...obligation, status: "CANCELLED" }, year);
+    expect(cancelled.every(i => i.status === "CANCELLED")).toBe(true);
+
+    const invalid = expandObligation({ ...obligation, recurrenceRule: "FREQ=FORTNIGHTLY" }, year);
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0].isRecurring).toBe(false);
+  });
+});
@@ -28,6 +28,18 @@ import { aiAdminRouter } from "./routers/aiAdmin";
 import { orgAuthPolicyRouter } from "./routers/orgAuthPolicy";
 import { customerPortalRouter } from "./routers/customerPortal";
 import { inverterConnectorsRouter } from "./routers/inverterConnectors";
+import { modbusPollingRouter } from "./routers/modbusPolling";
+import { sparkplugRouter } from "./routers/sparkplug";
+import { telemetryProvidersRouter } from "./routers/telemetryProviders";
+import { telemetryRollupsRouter } from "./routers/telemetryRollups";
+import { predictiveMaintenanceRouter } from "./routers/predictiveMaintenance";
+import { siteKpisRouter } from "./routers/siteKpis";
+import { ppaBillingRouter } from "./routers/ppaBilling";
+import { fxRatesRouter } from "./routers/fxRates";
+import { taxesRouter } from "./routers/taxes";
+import { creditNotesRouter } from "./routers/creditNotes";
+import { bankReconciliationRouter } from "./routers/bankReconciliation";
+import { accountingJournalsRouter } from "./routers/accountingJournals";
 import { invoicePdfRouter } from "./routers/invoicePdf";
 import { customerNotificationsRouter } from "./routers/customerNotifications";
 import { grafanaRouter } from "./routers/grafana";
@@ -50,6 +62,8 @@ import * as db from "./db";
 import { storagePut } from "./storage";
 import { uploadFromWeb, getStorageHealth } from "./services/storageHardening";
 import { enqueueJob } from "./services/jobQueue";
+import { semanticSearchService } from "./services/vectorSearch";
+import { getSiteKpis, summarizeKpis } from "./services/siteKpis";
 import { getJobDisplayName, getJobDisplayStatus, type JobStatusResponse, type JobStatus, type JobPriority } from "../shared/jobTypes";
 import { invokeLLM } from "./_core/llm";
 import { notifyRequestIssued, notifySubmissionReceived, notifyClarificationNeeded } from "./services/requestNotifications";
@@ -58,6 +72,7 @@ import { processInboundMessage, getSafeResponseForUnknownSender } from "./servic
 import { nanoid } from "nanoid";
 import crypto from "crypto";
 import jwt from "jsonwebtoken";
+import bcrypt from "bcryptjs";
 
 // Password hashing utilities
 function hashPassword(password: string): string {
@@ -185,6 +200,96 @@ const withProjectEdit = protectedProcedure.use(async (opts) => {
   return next({ ctx });
 });
 
+// Contracts are scoped by the project (or organization) of their artifact
+async function assertContractAccess(user: { id: number; role?: string; isSuperuser?: boolean }, contractId: number) {
+  const { loadContract, ContractExtractionError } = await import('./services/contractExtraction');
+  const { artifact } = await loadContract(contractId).catch((error) => {
+    if (error instanceof ContractExtractionError) throw new TRPCError({ code: 'NOT_FOUND', message: error.message });
+    throw error;
+  });
+  if (isAdminOrSuperuser(user)) return artifact;
+  const hasAccess = artifact.projectId
+    ? await db.canUserAccessProject(user.id, artifact.projectId)
+    : (await db.getUserOrganizationIds(user.id)).includes(artifact.organizationId ?? -1);
+  if (!hasAccess) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'No access to this contract' });
+  }
+  return artifact;
+}
+
+// Data room settings can be changed by their creator or project editors
+async function assertDataRoomEdit(user: { id: number; role?: string; isSuperuser?: boolean }, dataRoomId: number) {
+  const room = await db.getDataRoomById(dataRoomId);
+  if (!room) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Data room not found' });
+  }
+  if (isAdminOrSuperuser(user) || room.createdById === user.id) return room;
+  if (room.projectId && await db.canUserEditProject(user.id, room.projectId)) return room;
+  throw new TRPCError({ code: 'FORBIDDEN', message: 'No edit access to this data room' });
+}
+
+// Viewer errors map onto tRPC codes for the public data room procedures
+async function withDataRoomViewerErrors<T>(fn: () => Promise<T>): Promise<T> {
+  const { DataRoomAccessError } = await import('./services/dataRoomViewer');
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof DataRoomAccessError) {
+      const code = error.code === 'not_found' ? 'NOT_FOUND'
+        : error.code === 'password_required' ? 'UNAUTHORIZED'
+        : error.code === 'nda_required' || error.code === 'email_unverified' ? 'PRECONDITION_FAILED'
+        : error.code === 'unsupported' ? 'BAD_REQUEST'
+        : 'FORBIDDEN';
+      throw new TRPCError({ code, message: error.message, cause: error });
+    }
+    throw error;
+  }
+}
+
+// Q&A workflow errors map onto tRPC codes; viewer errors as above
+async function withDataRoomQaErrors<T>(fn: () => Promise<T>): Promise<T> {
+  const { DataRoomQaError } = await import('./services/dataRoomQa');
+  return withDataRoomViewerErrors(async () => {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof DataRoomQaError) {
+        const code = error.code === 'not_found' ? 'NOT_FOUND'
+          : error.code === 'invalid_state' ? 'CONFLICT'
+          : 'BAD_REQUEST';
+        throw new TRPCError({ code, message: error.message, cause: error });
+      }
+      throw error;
+    }
+  });
+}
+
+// Experts answer the data room questions routed to them; approvers and room editors publish
+async function assertDataRoomQuestionAccess(
+  user: { id: number; role?: string; isSuperuser?: boolean },
+  questionId: number,
+  need: 'answer' | 'approve'
+) {
+  const { loadQuestion, qaPermissions } = await import('./services/dataRoomQa');
+  const { question, room, rfi } = await withDataRoomQaErrors(() => loadQuestion(questionId));
+  const isAdmin = isAdminOrSuperuser(user);
+  const isRoomEditor = room.createdById === user.id
+    || (!!room.projectId && await db.canUserEditProject(user.id, room.projectId));
+  const permissions = qaPermissions(question, rfi?.assigneeId ?? null, { userId: user.id, isAdmin, isRoomEditor });
+  if (need === 'answer' && !permissions.canAnswer) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'This question is not assigned to you' });
+  }
+  if (need === 'approve' && !permissions.canApprove) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: question.draftedById === user.id
+        ? 'Answers must be approved by someone other than their drafter'
+        : 'You are not an approver for this question',
+    });
+  }
+  return question;
+}
+
 // Canonical job status response formatter
 function formatJobStatusResponse(job: NonNullable<Awaited<ReturnType<typeof db.getJob>>>): JobStatusResponse {
   const payload = job.payload as Record<string, unknown> | null;
@@ -301,6 +406,18 @@ export const appRouter = router({
   orgAuthPolicy: orgAuthPolicyRouter,
   customerPortal: customerPortalRouter,
   inverterConnectors: inverterConnectorsRouter,
+  modbusPolling: modbusPollingRouter,
+  sparkplug: sparkplugRouter,
+  telemetryProviders: telemetryProvidersRouter,
+  telemetryRollups: telemetryRollupsRouter,
+  predictiveMaintenance: predictiveMaintenanceRouter,
+  siteKpis: siteKpisRouter,
+  ppaBilling: ppaBillingRouter,
+  fxRates: fxRatesRouter,
+  taxes: taxesRouter,
+  creditNotes: creditNotesRouter,
+  bankReconciliation: bankReconciliationRouter,
+  accountingJournals: accountingJournalsRouter,
   invoicePdf: invoicePdfRouter,
   grafana: grafanaRouter,
   customerNotifications: customerNotificationsRouter,
@@ -1806,6 +1923,12 @@ export const appRouter = router({
           uploadedById: ctx.user.id,
         });
         
+        // Index for semantic search (non-blocking)
+        if (docResult) {
+          semanticSearchService.indexDocument(docResult)
+            .catch(err => console.error('[Documents] Failed to index document:', err));
+        }
+        
         // Update file upload with linked document
         if (uploadResult.fileUploadId && docResult) {
           await db.updateFileUploadStatus(uploadResult.fileUploadId, 'processed', {
@@ -1917,6 +2040,8 @@ Respond with JSON: { "category": "category name", "documentType": "specific type
         if (!doc) throw new TRPCError({ code: 'NOT_FOUND', message: 'Document not found' });
         
         await db.archiveDocument(input.id, ctx.user.id, input.reason);
+        semanticSearchService.removeDocument(input.id)
+          .catch(err => console.error('[Documents] Failed to remove document from index:', err));
         
         await db.createUserActivity({
           userId: ctx.user.id,
@@ -1943,6 +2068,8 @@ Respond with JSON: { "category": "category name", "documentType": "specific type
         }
         
         await db.unarchiveDocument(input.id, ctx.user.id);
+        semanticSearchService.indexDocument(input.id)
+          .catch(err => console.error('[Documents] Failed to index document:', err));
         
         await db.createUserActivity({
           userId: ctx.user.id,
@@ -1971,6 +2098,8 @@ Respond with JSON: { "category": "category name", "documentType": "specific type
         }
         
         await db.supersedeDocument(input.id, input.newDocumentId, ctx.user.id, input.reason);
+        semanticSearchService.removeDocument(input.id)
+          .catch(err => console.error('[Documents] Failed to remove document from index:', err));
         
         await db.createUserActivity({
           userId: ctx.user.id,
@@ -3579,10 +3708,16 @@ Respond with JSON array of extractions.`;
         return db.getDataRoomById(input.id);
       }),
     
+    // Landing page for a room link; never exposes the password hash or items
     getByToken: publicProcedure
       .input(z.object({ token: z.string() }))
       .query(async ({ input }) => {
-        return db.getDataRoomByToken(input.token);
+        const { getPublicDataRoomInfo } = await import('./services/dataRoomViewer');
+        const room = await getPublicDataRoomInfo(input.token);
+        if (!room) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Data room not found' });
+        }
+        return room;
       }),
     
     create: protectedProcedure
@@ -3593,8 +3728,17 @@ Respond with JSON array of extractions.`;
         description: z.string().optional(),
         accessType: z.enum(['private', 'link_only', 'public']).optional(),
         expiresAt: z.string().optional(),
+        password: z.string().min(6).max(128).optional(),
+        maxViews: z.number().int().positive().optional(),
+        viewOnly: z.boolean().optional(),
+        watermarkEnabled: z.boolean().optional(),
+        ndaRequired: z.boolean().optional(),
+        ndaText: z.string().max(50000).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
+        if (input.ndaRequired && !input.ndaText?.trim()) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'NDA text is required when an NDA must be accepted' });
+        }
         const accessToken = nanoid(32);
         
         await db.createDataRoom({
@@ -3604,13 +3748,48 @@ Respond with JSON array of extractions.`;
           description: input.description,
           accessType: input.accessType || 'private',
           accessToken,
+          passwordHash: input.password ? await bcrypt.hash(input.password, 12) : undefined,
           expiresAt: input.expiresAt ? new Date(input.expiresAt) : undefined,
+          maxViews: input.maxViews,
+          viewOnly: input.viewOnly,
+          watermarkEnabled: input.watermarkEnabled,
+          ndaRequired: input.ndaRequired,
+          ndaText: input.ndaText,
           createdById: ctx.user.id,
         });
         
         return { success: true, accessToken };
       }),
     
+    updateAccessSettings: protectedProcedure
+      .input(z.object({
+        id: z.number(),
+        accessType: z.enum(['private', 'link_only', 'public']).optional(),
+        password: z.string().min(6).max(128).nullable().optional(), // null removes the password
+        expiresAt: z.string().nullable().optional(),
+        maxViews: z.number().int().positive().nullable().optional(),
+        viewOnly: z.boolean().optional(),
+        watermarkEnabled: z.boolean().optional(),
+        ndaRequired: z.boolean().optional(),
+        ndaText: z.string().max(50000).nullable().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const room = await assertDataRoomEdit(ctx.user, input.id);
+        const { id, password, expiresAt, ...settings } = input;
+        const ndaRequired = settings.ndaRequired ?? room.ndaRequired;
+        const ndaText = settings.ndaText !== undefined ? settings.ndaText : room.ndaText;
+        if (ndaRequired && !ndaText?.trim()) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'NDA text is required when an NDA must be accepted' });
+        }
+        
+        await db.updateDataRoom(id, {
+          ...settings,
+          ...(password !== undefined ? { passwordHash: password ? await bcrypt.hash(password, 12) : null } : {}),
+          ...(expiresAt !== undefined ? { expiresAt: expiresAt ? new Date(expiresAt) : null } : {}),
+        });
+        return { success: true };
+      }),
+    
     getItems: protectedProcedure
       .input(z.object({ dataRoomId: z.number() }))
       .query(async ({ input }) => {
@@ -3625,12 +3804,31 @@ Respond with JSON array of extractions.`;
         vatrAssetId: z.number().optional(),
         itemName: z.string().optional(),
         sortOrder: z.number().optional(),
+        allowDownload: z.boolean().optional(),
+        allowPrint: z.boolean().optional(),
       }))
       .mutation(async ({ input }) => {
         await db.addDataRoomItem(input);
         return { success: true };
       }),
     
+    updateItemPermissions: protectedProcedure
+      .input(z.object({
+        itemId: z.number(),
+        allowDownload: z.boolean().optional(),
+        allowPrint: z.boolean().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const item = await db.getDataRoomItemById(input.itemId);
+        if (!item) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Item not found' });
+        }
+        await assertDataRoomEdit(ctx.user, item.dataRoomId);
+        const { itemId, ...permissions } = input;
+        await db.updateDataRoomItem(itemId, permissions);
+        return { success: true };
+      }),
+    
     getAccessLog: protectedProcedure
       .input(z.object({ dataRoomId: z.number() }))
       .query(async ({ input }) => {
@@ -3653,6 +3851,250 @@ Respond with JSON array of extractions.`;
         return { success: true };
       }),
     
+    // External viewers: a session is opened through the room link
+    openSession: publicProcedure
+      .input(z.object({
+        token: z.string(),
+        name: z.string().min(1).max(255),
+        email: z.string().email().max(320),
+        password: z.string().max(128).optional(),
+        acceptNda: z.boolean().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { openViewerSession } = await import('./services/dataRoomViewer');
+        return withDataRoomViewerErrors(() => openViewerSession({
+          ...input,
+          ip: ctx.req.ip,
+          userAgent: ctx.req.headers['user-agent'],
+        }));
+      }),
+    
+    viewerItems: publicProcedure
+      .input(z.object({ sessionToken: z.string() }))
+      .query(async ({ input }) => {
+        const { listViewerItems } = await import('./services/dataRoomViewer');
+        return withDataRoomViewerErrors(() => listViewerItems(input.sessionToken));
+      }),
+    
+    viewerItem: publicProcedure
+      .input(z.object({ sessionToken: z.string(), itemId: z.number() }))
+      .query(async ({ input }) => {
+        const { getViewerItem } = await import('./services/dataRoomViewer');
+        return withDataRoomViewerErrors(() => getViewerItem(input.sessionToken, input.itemId));
+      }),
+    
+    // Viewers prove their email with a one-time code before they are linked to a bidder
+    requestEmailCode: publicProcedure
+      .input(z.object({ sessionToken: z.string() }))
+      .mutation(async ({ input }) => {
+        const { requestViewerEmailCode } = await import('./services/dataRoomViewer');
+        return withDataRoomViewerErrors(() => requestViewerEmailCode(input.sessionToken));
+      }),
+    
+    verifyEmail: publicProcedure
+      .input(z.object({ sessionToken: z.string(), code: z.string().trim().regex(/^\d{6}$/) }))
+      .mutation(async ({ input }) => {
+        const { verifyViewerEmail } = await import('./services/dataRoomViewer');
+        return withDataRoomViewerErrors(() => verifyViewerEmail(input.sessionToken, input.code));
+      }),
+    
+    // Q&A - viewers ask, internal experts answer through an approval step
+    askQuestion: publicProcedure
+      .input(z.object({
+        sessionToken: z.string(),
+        question: z.string().trim().min(1).max(5000),
+        itemId: z.number().optional(),
+        category: z.enum(['corporate', 'technical', 'financial', 'legal', 'commercial', 'operational', 'general']).optional(),
+        parentQuestionId: z.number().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { submitQuestion } = await import('./services/dataRoomQa');
+        const { sessionToken, ...question } = input;
+        return withDataRoomQaErrors(() => submitQuestion(sessionToken, question));
+      }),
+    
+    viewerQuestions: publicProcedure
+      .input(z.object({ sessionToken: z.string() }))
+      .query(async ({ input }) => {
+        const { listViewerQuestions } = await import('./services/dataRoomQa');
+        return withDataRoomQaErrors(() => listViewerQuestions(input.sessionToken));
+      }),
+    
+    exportViewerQuestions: publicProcedure
+      .input(z.object({ sessionToken: z.string(), format: z.enum(['xlsx', 'csv']).default('xlsx') }))
+      .mutation(async ({ input }) => {
+        const { exportViewerQaLog } = await import('./services/dataRoomQa');
+        const file = await withDataRoomQaErrors(() => exportViewerQaLog(input.sessionToken, input.format));
+        return { success: true, ...file };
+      }),
+    
+    listQuestions: protectedProcedure
+      .input(z.object({ dataRoomId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const room = await db.getDataRoomById(input.dataRoomId);
+        if (!room) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Data room not found' });
+        }
+        if (!isAdminOrSuperuser(ctx.user) && room.createdById !== ctx.user.id) {
+          const hasAccess = room.projectId ? await db.canUserAccessProject(ctx.user.id, room.projectId) : false;
+          if (!hasAccess) {
+            throw new TRPCError({ code: 'FORBIDDEN', message: 'No access to this data room' });
+          }
+        }
+        const { listRoomQuestions } = await import('./services/dataRoomQa');
+        return listRoomQuestions(input.dataRoomId);
+      }),
+    
+    exportQuestions: protectedProcedure
+      .input(z.object({ dataRoomId: z.number(), format: z.enum(['xlsx', 'csv']).default('xlsx') }))
+      .mutation(async ({ ctx, input }) => {
+        await assertDataRoomEdit(ctx.user, input.dataRoomId);
+        const { exportRoomQaLog } = await import('./services/dataRoomQa');
+        const file = await withDataRoomQaErrors(() => exportRoomQaLog(input.dataRoomId, input.format));
+        return { success: true, ...file };
+      }),
+    
+    getQaRoutes: protectedProcedure
+      .input(z.object({ dataRoomId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertDataRoomEdit(ctx.user, input.dataRoomId);
+        return db.getDataRoomQaRoutes(input.dataRoomId);
+      }),
+    
+    setQaRoute: protectedProcedure
+      .input(z.object({
+        dataRoomId: z.number(),
+        category: z.enum(['corporate', 'technical', 'financial', 'legal', 'commercial', 'operational', 'general']).nullable(), // null sets the default route
+        expertUserId: z.number(),
+        approverUserId: z.number().nullable().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const room = await assertDataRoomEdit(ctx.user, input.dataRoomId);
+        if (!room.projectId) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'Q&A needs a data room linked to a project' });
+        }
+        for (const userId of [input.expertUserId, input.approverUserId]) {
+          if (userId && !(await db.getUserById(userId))) {
+            throw new TRPCError({ code: 'BAD_REQUEST', message: `User ${userId} not found` });
+          }
+        }
+        await db.upsertDataRoomQaRoute({
+          dataRoomId: input.dataRoomId,
+          category: input.category,
+          expertUserId: input.expertUserId,
+          approverUserId: input.approverUserId ?? null,
+        });
+        return { success: true };
+      }),
+    
+    deleteQaRoute: protectedProcedure
+      .input(z.object({ dataRoomId: z.number(), routeId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await assertDataRoomEdit(ctx.user, input.dataRoomId);
+        await db.deleteDataRoomQaRoute(input.dataRoomId, input.routeId);
+        return { success: true };
+      }),
+    
+    getBidders: protectedProcedure
+      .input(z.object({ dataRoomId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertDataRoomEdit(ctx.user, input.dataRoomId);
+        return db.getDataRoomBidders(input.dataRoomId);
+      }),
+    
+    saveBidder: protectedProcedure
+      .input(z.object({
+        dataRoomId: z.number(),
+        id: z.number().optional(),
+        name: z.string().min(1).max(255),
+        emails: z.array(z.string().email()).default([]),
+        emailDomains: z.array(z.string().regex(/^@?[\w.-]+\.[a-z]{2,}$/i)).default([]),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await assertDataRoomEdit(ctx.user, input.dataRoomId);
+        const { normalizeEmail } = await import('./services/dataRoomQa');
+        const data = {
+          name: input.name,
+          emails: input.emails.map(normalizeEmail),
+          emailDomains: input.emailDomains.map(d => normalizeEmail(d).replace(/^@/, '')),
+        };
+        if (input.id) {
+          await db.updateDataRoomBidder(input.dataRoomId, input.id, data);
+          return { success: true, id: input.id };
+        }
+        const id = await db.createDataRoomBidder({ dataRoomId: input.dataRoomId, ...data });
+        return { success: true, id };
+      }),
+    
+    deleteBidder: protectedProcedure
+      .input(z.object({ dataRoomId: z.number(), id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await assertDataRoomEdit(ctx.user, input.dataRoomId);
+        await db.deleteDataRoomBidder(input.dataRoomId, input.id);
+        return { success: true };
+      }),
+    
+    rerouteQuestion: protectedProcedure
+      .input(z.object({ questionId: z.number(), category: z.enum(['corporate', 'technical', 'financial', 'legal', 'commercial', 'operational', 'general']) }))
+      .mutation(async ({ ctx, input }) => {
+        await assertDataRoomQuestionAccess(ctx.user, input.questionId, 'answer');
+        const { rerouteQuestion } = await import('./services/dataRoomQa');
+        await withDataRoomQaErrors(() => rerouteQuestion(input.questionId, input.category));
+        return { success: true };
+      }),
+    
+    draftAnswer: protectedProcedure
+      .input(z.object({
+        questionId: z.number(),
+        answer: z.string().trim().min(1).max(20000),
+        visibility: z.enum(['private', 'all_bidders']).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await assertDataRoomQuestionAccess(ctx.user, input.questionId, 'answer');
+        const { saveAnswerDraft } = await import('./services/dataRoomQa');
+        await withDataRoomQaErrors(() => saveAnswerDraft(input.questionId, ctx.user.id, input.answer, input.visibility));
+        return { success: true };
+      }),
+    
+    submitAnswer: protectedProcedure
+      .input(z.object({ questionId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await assertDataRoomQuestionAccess(ctx.user, input.questionId, 'answer');
+        const { submitAnswerForApproval } = await import('./services/dataRoomQa');
+        await withDataRoomQaErrors(() => submitAnswerForApproval(input.questionId));
+        return { success: true };
+      }),
+    
+    approveAnswer: protectedProcedure
+      .input(z.object({
+        questionId: z.number(),
+        visibility: z.enum(['private', 'all_bidders']).optional(), // Overrides the drafter's choice
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await assertDataRoomQuestionAccess(ctx.user, input.questionId, 'approve');
+        const { approveAndPublish } = await import('./services/dataRoomQa');
+        await withDataRoomQaErrors(() => approveAndPublish(input.questionId, ctx.user.id, input.visibility));
+        return { success: true };
+      }),
+    
+    returnAnswer: protectedProcedure
+      .input(z.object({ questionId: z.number(), note: z.string().trim().min(1).max(5000) }))
+      .mutation(async ({ ctx, input }) => {
+        await assertDataRoomQuestionAccess(ctx.user, input.questionId, 'approve');
+        const { returnAnswer } = await import('./services/dataRoomQa');
+        await withDataRoomQaErrors(() => returnAnswer(input.questionId, ctx.user.id, input.note));
+        return { success: true };
+      }),
+    
+    declineQuestion: protectedProcedure
+      .input(z.object({ questionId: z.number(), reason: z.string().trim().min(1).max(5000) }))
+      .mutation(async ({ ctx, input }) => {
+        await assertDataRoomQuestionAccess(ctx.user, input.questionId, 'approve');
+        const { declineQuestion } = await import('./services/dataRoomQa');
+        await withDataRoomQaErrors(() => declineQuestion(input.questionId, ctx.user.id, input.reason));
+        return { success: true };
+      }),
+    
     generateFromVatr: protectedProcedure
       .input(z.object({
         vatrAssetId: z.number(),
@@ -4256,15 +4698,28 @@ Respond with JSON array of extractions.`;
         title: z.string().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
+        const periodStart = new Date(input.periodStart);
+        const periodEnd = new Date(input.periodEnd);
+
+        // Snapshot the stored KPIs for the period so the report reflects what was reported
+        const siteIds = input.siteId
+          ? [input.siteId]
+          : (await db.getSitesByOrganization(input.organizationId)).map(s => s.id);
+        const kpiPoints = await getSiteKpis({ siteIds, periodType: 'day', from: periodStart, to: periodEnd });
+
         await db.createOperationsReport({
           organizationId: input.organizationId,
           siteId: input.siteId,
           reportType: input.reportType,
-          periodStart: new Date(input.periodStart),
-          periodEnd: new Date(input.periodEnd),
+          periodStart,
+          periodEnd,
           title: input.title,
           status: 'generating',
           generatedById: ctx.user.id,
+          metadata: {
+            kpis: summarizeKpis(kpiPoints),
+            kpiDays: kpiPoints.length,
+          },
         });
         // In production, this would trigger a background job to generate the report
         return { success: true };
@@ -4876,7 +5331,7 @@ Respond with JSON array of extractions.`;
         assetId: z.number().optional(),
         title: z.string(),
         description: z.string().optional(),
-        workType: z.enum(['preventive', 'corrective', 'emergency', 'inspection']),
+        workType: z.enum(['preventive', 'corrective', 'emergency', 'inspection', 'predictive']),
         priority: z.enum(['critical', 'high', 'medium', 'low']),
         assignedToId: z.number().optional(),
         assignedTeam: z.string().optional(),
@@ -5141,6 +5596,27 @@ Respond with JSON array of extractions.`;
       .query(async ({ input }) => {
         return db.getOmDashboardStats(input?.siteId);
       }),
+
+    // Performance ratio / availability KPIs for one site or all of an organization's sites
+    getKpis: protectedProcedure
+      .input(z.object({
+        organizationId: z.number(),
+        siteId: z.number().optional(),
+        periodType: z.enum(['day', 'month']).default('day'),
+        from: z.string(),
+        to: z.string(),
+      }))
+      .query(async ({ input }) => {
+        const orgSites = await db.getSitesByOrganization(input.organizationId);
+        const siteIds = orgSites.map(s => s.id).filter(id => !input.siteId || id === input.siteId);
+        const points = await getSiteKpis({
+          siteIds,
+          periodType: input.periodType,
+          from: new Date(input.from),
+          to: new Date(input.to),
+        });
+        return { points, summary: summarizeKpis(points) };
+      }),
   }),
 
   // ═══════════════════════════════════════════════════════════════
@@ -5874,7 +6350,7 @@ Respond with JSON array of extractions.`;
         obligor: z.string(),
         obligorRole: z.string().optional(),
         description: z.string(),
-        frequency: z.enum(['one_time', 'monthly', 'quarterly', 'annually', 'ongoing']).optional(),
+        frequency: z.enum(['one_time', 'monthly', 'quarterly', 'semi_annually', 'annually', 'ongoing']).optional(),
         dueDate: z.string().optional(),
         dueDayOfPeriod: z.number().optional(),
         sourceSection: z.string().optional(),
@@ -5928,6 +6404,76 @@ Respond with JSON array of extractions.`;
       .mutation(async ({ input }) => {
         return db.createContractAmendment(input as any);
       }),
+
+    // Obligation extraction
+    extractObligations: protectedProcedure
+      .input(z.object({
+        contractId: z.number(),
+        amendmentId: z.number().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await assertContractAccess(ctx.user, input.contractId);
+        const { queueContractExtraction } = await import('./services/contractExtraction');
+        return queueContractExtraction(input.contractId, { amendmentId: input.amendmentId, userId: ctx.user.id });
+      }),
+
+    listProposals: protectedProcedure
+      .input(z.object({
+        contractId: z.number(),
+        status: z.enum(['pending', 'accepted', 'rejected', 'superseded']).optional(),
+      }))
+      .query(async ({ ctx, input }) => {
+        await assertContractAccess(ctx.user, input.contractId);
+        const { listContractProposals } = await import('./services/contractExtraction');
+        return listContractProposals(input.contractId, input.status);
+      }),
+
+    acceptProposal: protectedProcedure
+      .input(z.object({
+        contractId: z.number(),
+        proposalId: z.number(),
+        title: z.string().min(1).max(500).optional(),
+        party: z.string().max(255).nullable().optional(),
+        firstDueAt: z.date().nullable().optional(),
+        recurrenceRule: z.string().max(500).nullable().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await assertContractAccess(ctx.user, input.contractId);
+        const { acceptContractProposal, listContractProposals, ContractExtractionError } = await import('./services/contractExtraction');
+        const proposals = await listContractProposals(input.contractId);
+        if (!proposals.some(p => p.id === input.proposalId)) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Proposal not found' });
+        }
+        const { contractId: _contractId, proposalId, ...overrides } = input;
+        try {
+          return await acceptContractProposal(proposalId, ctx.user.id, overrides);
+        } catch (error) {
+          if (error instanceof ContractExtractionError) throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+          throw error;
+        }
+      }),
+
+    rejectProposal: protectedProcedure
+      .input(z.object({
+        contractId: z.number(),
+        proposalId: z.number(),
+        reason: z.string().max(2000).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await assertContractAccess(ctx.user, input.contractId);
+        const { rejectContractProposal, listContractProposals, ContractExtractionError } = await import('./services/contractExtraction');
+        const proposals = await listContractProposals(input.contractId);
+        if (!proposals.some(p => p.id === input.proposalId)) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Proposal not found' });
+        }
+        try {
+          await rejectContractProposal(input.proposalId, ctx.user.id, input.reason);
+          return { success: true };
+        } catch (error) {
+          if (error instanceof ContractExtractionError) throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+          throw error;
+        }
+      }),
   }),
 
   // Artifact Extractions router
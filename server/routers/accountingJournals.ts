@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { accountingPeriodLocks, chartOfAccountMappings, journalAccountRoles, journalExports } from "../../drizzle/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import {
+  DEFAULT_ACCOUNTS,
+  JournalError,
+  exportJournals,
+  generateJournals,
+  getJournalEntries,
+  lockPeriod,
+  unlockPeriod,
+} from "../services/accountingJournals";
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+  return db;
+}
+
+function toJournalError(error: unknown): TRPCError {
+  if (error instanceof JournalError) {
+    return new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new TRPCError({ code: "INTERNAL_SERVER_ERROR", message });
+}
+
+const periodSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be YYYY-MM");
+
+/**
+ * Accounting Journals Router
+ *
+ * Chart-of-accounts mapping, generated double-entry journals, exports to
+ * accounting systems and period locks.
+ */
+export const accountingJournalsRouter = router({
+  listMappings: protectedProcedure
+    .input(z.object({ orgId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const mappings = await db.select()
+        .from(chartOfAccountMappings)
+        .where(eq(chartOfAccountMappings.organizationId, input.orgId))
+        .orderBy(asc(chartOfAccountMappings.role), asc(chartOfAccountMappings.id));
+      return { mappings, defaults: DEFAULT_ACCOUNTS };
+    }),
+
+  // Create or update a mapping; project, tax code and currency narrow where it applies
+  saveMapping: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      id: z.number().optional(),
+      role: z.enum(journalAccountRoles),
+      projectId: z.number().nullable().default(null),
+      taxCodeId: z.number().nullable().default(null),
+      currency: z.string().length(3).nullable().default(null),
+      accountCode: z.string().min(1).max(50),
+      accountName: z.string().min(1).max(255),
+      taxType: z.string().max(50).nullable().default(null),
+    }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      const { orgId, id, ...values } = input;
+      if (id) {
+        await db.update(chartOfAccountMappings)
+          .set(values)
+          .where(and(eq(chartOfAccountMappings.id, id), eq(chartOfAccountMappings.organizationId, orgId)));
+        return { id };
+      }
+      const [result] = await db.insert(chartOfAccountMappings).values({ organizationId: orgId, ...values });
+      return { id: Number(result.insertId) };
+    }),
+
+  deleteMapping: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      await db.delete(chartOfAccountMappings)
+        .where(and(eq(chartOfAccountMappings.id, input.id), eq(chartOfAccountMappings.organizationId, input.orgId)));
+      return { success: true };
+    }),
+
+  // Mapping changes apply to open periods on the next generation
+  generate: protectedProcedure
+    .input(z.object({ orgId: z.number() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await generateJournals(input.orgId);
+      } catch (error) {
+        throw toJournalError(error);
+      }
+    }),
+
+  listEntries: protectedProcedure
+    .input(z.object({ orgId: z.number(), periodFrom: periodSchema, periodTo: periodSchema }))
+    .query(async ({ input }) => {
+      try {
+        return await getJournalEntries(input.orgId, input.periodFrom, input.periodTo);
+      } catch (error) {
+        throw toJournalError(error);
+      }
+    }),
+
+  export: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      periodFrom: periodSchema,
+      periodTo: periodSchema,
+      format: z.enum(["csv", "xero", "iif"]).default("csv"),
+      lock: z.boolean().default(true),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const result = await exportJournals(input.orgId, {
+          periodFrom: input.periodFrom,
+          periodTo: input.periodTo,
+          format: input.format,
+          lock: input.lock,
+          userId: ctx.user.id,
+        });
+        return { success: true, ...result };
+      } catch (error) {
+        throw toJournalError(error);
+      }
+    }),
+
+  listExports: protectedProcedure
+    .input(z.object({ orgId: z.number(), limit: z.number().min(1).max(200).default(50) }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      return db.select()
+        .from(journalExports)
+        .where(eq(journalExports.organizationId, input.orgId))
+        .orderBy(desc(journalExports.createdAt))
+        .limit(input.limit);
+    }),
+
+  listLocks: protectedProcedure
+    .input(z.object({ orgId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      return db.select()
+        .from(accountingPeriodLocks)
+        .where(eq(accountingPeriodLocks.organizationId, input.orgId))
+        .orderBy(desc(accountingPeriodLocks.period));
+    }),
+
+  lockPeriod: protectedProcedure
+    .input(z.object({ orgId: z.number(), period: periodSchema, reason: z.string().max(255).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await lockPeriod(input.orgId, input.period, ctx.user.id, input.reason);
+      } catch (error) {
+        throw toJournalError(error);
+      }
+      return { success: true };
+    }),
+
+  // Reopening lets regeneration rewrite exported entries, so a reason is required
+  unlockPeriod: protectedProcedure
+    .input(z.object({ orgId: z.number(), period: periodSchema, reason: z.string().min(3).max(500) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await unlockPeriod(input.orgId, input.period, ctx.user.id, input.reason);
+      } catch (error) {
+        throw toJournalError(error);
+      }
+      return { success: true };
+    }),
+});
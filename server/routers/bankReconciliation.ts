@@ -0,0 +1,171 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { bankStatementImports, bankTransactions } from "../../drizzle/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { BankStatementParseError } from "../services/bankStatementParsers";
+import {
+  BankReconciliationError,
+  confirmTransactionMatch,
+  getReconciliationQueue,
+  ignoreTransaction,
+  importBankStatement,
+  proposeMatchesForOrganization,
+  rejectTransactionMatches,
+} from "../services/bankReconciliation";
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+  return db;
+}
+
+function toReconciliationError(error: unknown): TRPCError {
+  if (error instanceof BankReconciliationError || error instanceof BankStatementParseError) {
+    return new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new TRPCError({ code: "INTERNAL_SERVER_ERROR", message });
+}
+
+const csvOptionsSchema = z.object({
+  currency: z.string().length(3).optional(),
+  delimiter: z.string().length(1).optional(),
+  dateFormat: z.enum(["ymd", "dmy", "mdy"]).optional(),
+  decimalSeparator: z.enum([".", ","]).optional(),
+  columns: z.record(z.enum(["date", "valueDate", "amount", "credit", "debit", "currency", "name", "account", "reference", "description", "id"]), z.string()).optional(),
+});
+
+/**
+ * Bank Reconciliation Router
+ *
+ * Statement imports and the review queue where proposed transfer-to-invoice
+ * matches are confirmed, corrected or rejected.
+ */
+export const bankReconciliationRouter = router({
+  importStatement: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      fileName: z.string().min(1).max(255),
+      content: z.string().min(1).max(15_000_000),
+      encoding: z.enum(["utf8", "base64"]).default("utf8"),
+      format: z.enum(["csv", "ofx", "camt053", "mt940"]).optional(), // detected when omitted
+      csv: csvOptionsSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const content = input.encoding === "base64"
+        ? Buffer.from(input.content, "base64").toString("utf8")
+        : input.content;
+      try {
+        return await importBankStatement(input.orgId, {
+          fileName: input.fileName,
+          content,
+          format: input.format,
+          csv: input.csv,
+        }, ctx.user.id);
+      } catch (error) {
+        throw toReconciliationError(error);
+      }
+    }),
+
+  listImports: protectedProcedure
+    .input(z.object({ orgId: z.number(), limit: z.number().min(1).max(200).default(50) }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      return db.select()
+        .from(bankStatementImports)
+        .where(eq(bankStatementImports.organizationId, input.orgId))
+        .orderBy(desc(bankStatementImports.createdAt))
+        .limit(input.limit);
+    }),
+
+  listTransactions: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      importId: z.number().optional(),
+      status: z.enum(["unmatched", "proposed", "confirming", "matched", "ignored"]).optional(),
+      limit: z.number().min(1).max(500).default(100),
+    }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const conditions = [eq(bankTransactions.organizationId, input.orgId)];
+      if (input.importId) conditions.push(eq(bankTransactions.importId, input.importId));
+      if (input.status) conditions.push(eq(bankTransactions.status, input.status));
+      return db.select()
+        .from(bankTransactions)
+        .where(and(...conditions))
+        .orderBy(desc(bankTransactions.bookingDate))
+        .limit(input.limit);
+    }),
+
+  getReviewQueue: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      importId: z.number().optional(),
+      status: z.enum(["proposed", "unmatched"]).optional(),
+      limit: z.number().min(1).max(500).default(200),
+    }))
+    .query(async ({ input }) => {
+      try {
+        return await getReconciliationQueue(input.orgId, input);
+      } catch (error) {
+        throw toReconciliationError(error);
+      }
+    }),
+
+  // Confirm the proposals, or pass allocations to book a reviewer's own split
+  confirmMatch: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      transactionId: z.number(),
+      allocations: z.array(z.object({
+        invoiceId: z.number(),
+        amount: z.number().int().positive(), // cents
+      })).min(1).max(50).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await confirmTransactionMatch(input.orgId, input.transactionId, {
+          allocations: input.allocations,
+          userId: ctx.user.id,
+        });
+      } catch (error) {
+        throw toReconciliationError(error);
+      }
+    }),
+
+  rejectMatch: protectedProcedure
+    .input(z.object({ orgId: z.number(), transactionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await rejectTransactionMatches(input.orgId, input.transactionId, ctx.user.id);
+      } catch (error) {
+        throw toReconciliationError(error);
+      }
+      return { success: true };
+    }),
+
+  ignoreTransaction: protectedProcedure
+    .input(z.object({ orgId: z.number(), transactionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await ignoreTransaction(input.orgId, input.transactionId, ctx.user.id);
+      } catch (error) {
+        throw toReconciliationError(error);
+      }
+      return { success: true };
+    }),
+
+  // Re-run matching for unmatched transactions, e.g. after new invoices are issued
+  rematch: protectedProcedure
+    .input(z.object({ orgId: z.number(), importId: z.number().optional() }))
+    .mutation(async ({ input }) => {
+      try {
+        const proposedCount = await proposeMatchesForOrganization(input.orgId, { importId: input.importId });
+        return { proposedCount };
+      } catch (error) {
+        throw toReconciliationError(error);
+      }
+    }),
+});
@@ -0,0 +1,213 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { creditNoteLines, creditNotes, invoices } from "../../drizzle/schema";
+import { and, desc, eq } from "drizzle-orm";
+import {
+  CreditNoteError,
+  amendInvoice,
+  createCreditNote,
+  getInvoiceLedger,
+  issueCreditNote,
+  unappliedCredit,
+  voidCreditNote,
+} from "../services/creditNotes";
+import { generateCreditNotePdf } from "../services/invoicePdfService";
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+  return db;
+}
+
+function toCreditNoteError(error: unknown): TRPCError {
+  if (error instanceof CreditNoteError) {
+    return new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new TRPCError({ code: "INTERNAL_SERVER_ERROR", message });
+}
+
+async function getOrgInvoice(orgId: number, invoiceId: number) {
+  const db = await requireDb();
+  const [invoice] = await db.select()
+    .from(invoices)
+    .where(and(eq(invoices.id, invoiceId), eq(invoices.organizationId, orgId)))
+    .limit(1);
+  if (!invoice) throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+  return invoice;
+}
+
+async function getOrgCreditNote(orgId: number, id: number) {
+  const db = await requireDb();
+  const [note] = await db.select()
+    .from(creditNotes)
+    .where(and(eq(creditNotes.id, id), eq(creditNotes.organizationId, orgId)))
+    .limit(1);
+  if (!note) throw new TRPCError({ code: "NOT_FOUND", message: "Credit note not found" });
+  return note;
+}
+
+const reasonSchema = z.enum(["dispute", "billing_error", "goodwill", "amendment", "cancellation", "other"]);
+
+/**
+ * Credit Notes Router
+ *
+ * Credit notes against issued invoices, refunds, corrected re-issues and
+ * the per-invoice ledger of balance movements.
+ */
+export const creditNotesRouter = router({
+  list: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      invoiceId: z.number().optional(),
+      customerId: z.number().optional(),
+      status: z.enum(["draft", "issuing", "issued", "void"]).optional(),
+      limit: z.number().min(1).max(200).default(50),
+    }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const conditions = [eq(creditNotes.organizationId, input.orgId)];
+      if (input.invoiceId) conditions.push(eq(creditNotes.invoiceId, input.invoiceId));
+      if (input.customerId) conditions.push(eq(creditNotes.customerId, input.customerId));
+      if (input.status) conditions.push(eq(creditNotes.status, input.status));
+
+      const notes = await db.select()
+        .from(creditNotes)
+        .where(and(...conditions))
+        .orderBy(desc(creditNotes.createdAt))
+        .limit(input.limit);
+      return notes.map(n => ({ ...n, unappliedAmount: n.status === "issued" ? unappliedCredit(n) : 0 }));
+    }),
+
+  get: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .query(async ({ input }) => {
+      const note = await getOrgCreditNote(input.orgId, input.id);
+      const db = await requireDb();
+      const lines = await db.select()
+        .from(creditNoteLines)
+        .where(eq(creditNoteLines.creditNoteId, note.id))
+        .orderBy(creditNoteLines.sortOrder);
+      return { ...note, lines, unappliedAmount: note.status === "issued" ? unappliedCredit(note) : 0 };
+    }),
+
+  // Draft a credit note; omit lines to credit everything not yet credited
+  create: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      invoiceId: z.number(),
+      reason: reasonSchema.exclude(["amendment"]),
+      reasonNote: z.string().max(2000).optional(),
+      lines: z.array(z.object({
+        invoiceLineItemId: z.number(),
+        amount: z.number().int().positive().optional(), // cents
+        quantity: z.number().positive().optional(),
+      })).max(200).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const invoice = await getOrgInvoice(input.orgId, input.invoiceId);
+      try {
+        return await createCreditNote(invoice.id, {
+          reason: input.reason,
+          reasonNote: input.reasonNote,
+          lines: input.lines,
+          userId: ctx.user.id,
+        });
+      } catch (error) {
+        throw toCreditNoteError(error);
+      }
+    }),
+
+  issue: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      id: z.number(),
+      refund: z.enum(["stripe", "manual"]).nullable().default(null),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const note = await getOrgCreditNote(input.orgId, input.id);
+      try {
+        return await issueCreditNote(note.id, { refund: input.refund, userId: ctx.user.id });
+      } catch (error) {
+        throw toCreditNoteError(error);
+      }
+    }),
+
+  void: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .mutation(async ({ input }) => {
+      const note = await getOrgCreditNote(input.orgId, input.id);
+      try {
+        await voidCreditNote(note.id);
+      } catch (error) {
+        throw toCreditNoteError(error);
+      }
+      return { success: true };
+    }),
+
+  // Credit the invoice in full and issue a corrected replacement
+  amendInvoice: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      invoiceId: z.number(),
+      reasonNote: z.string().max(2000).optional(),
+      dueDate: z.string().optional(),
+      lineItems: z.array(z.object({
+        description: z.string().min(1),
+        quantity: z.number().default(1),
+        unitPrice: z.number(), // In cents
+        taxRate: z.number().default(0),
+        taxCodeIds: z.array(z.number()).optional(),
+        projectId: z.number().optional(),
+        serviceType: z.string().optional(),
+        periodStart: z.string().optional(),
+        periodEnd: z.string().optional(),
+      })).min(1).max(200),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const invoice = await getOrgInvoice(input.orgId, input.invoiceId);
+      try {
+        return await amendInvoice(invoice.id, {
+          reasonNote: input.reasonNote,
+          dueDate: input.dueDate ? new Date(input.dueDate) : undefined,
+          lineItems: input.lineItems.map(item => ({
+            ...item,
+            periodStart: item.periodStart ? new Date(item.periodStart) : null,
+            periodEnd: item.periodEnd ? new Date(item.periodEnd) : null,
+          })),
+          userId: ctx.user.id,
+        });
+      } catch (error) {
+        throw toCreditNoteError(error);
+      }
+    }),
+
+  getLedger: protectedProcedure
+    .input(z.object({ orgId: z.number(), invoiceId: z.number() }))
+    .query(async ({ input }) => {
+      const invoice = await getOrgInvoice(input.orgId, input.invoiceId);
+      return {
+        invoiceNumber: invoice.invoiceNumber,
+        currency: invoice.currency,
+        opening: invoice.totalAmount - (invoice.withholdingAmount || 0),
+        entries: await getInvoiceLedger(invoice.id),
+      };
+    }),
+
+  getPdfUrl: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .query(async ({ input }) => {
+      const note = await getOrgCreditNote(input.orgId, input.id);
+      if (note.status !== "issued") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only issued credit notes have a PDF" });
+      }
+      if (note.pdfUrl && note.pdfGeneratedAt && note.pdfGeneratedAt >= note.updatedAt) {
+        return { url: note.pdfUrl };
+      }
+      const result = await generateCreditNotePdf(note.id);
+      if (!result) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to generate credit note PDF" });
+      return result;
+    }),
+});
@@ -2,9 +2,23 @@ import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { router, protectedProcedure } from "../_core/trpc";
 import { storagePut, storageGet } from "../storage";
-import { extractFinancialData, getExtractionSummary } from "../services/excelExtraction";
-import { checkComparisonForAlerts, sendVarianceAlertNotification, DEFAULT_THRESHOLDS, type VarianceThresholds } from "../services/varianceAlerts";
-import { generateExcelReport, generateCSVReport, generateHTMLReport, type ComparisonData } from "../services/comparisonExport";
+import { describeProvenance, extractFinancialData, getExtractionSummary, templateFromProvenance } from "../services/excelExtraction";
+import { checkComparisonForAlerts, findSustainedUnderperformance, sendVarianceAlertNotification, DEFAULT_SUSTAINED_MONTHS, DEFAULT_THRESHOLDS, type VarianceAlert, type VarianceThresholds } from "../services/varianceAlerts";
+import {
+  generateExcelReport,
+  generateCSVReport,
+  generateHTMLReport,
+  generateProductionVarianceExcel,
+  generateProductionVarianceCSV,
+  generateProductionVarianceHTML,
+  type ComparisonData,
+  type SimulationSummary,
+} from "../services/comparisonExport";
+import { buildProductionVarianceReport, getProductionVarianceAlerts, monthStartUtc, reconcileModelProduction } from "../services/productionVariance";
+import { ModelEngineError, SCENARIO_PRESETS, getLatestRecalculation, listModelScenarios, recalculateModel, runModelScenario } from "../services/financialModelEngine";
+import { CovenantError, getCovenantHistory, getCovenantStatus, getPortfolioCashFlows, runCovenantMonitoring } from "../services/portfolioCovenants";
+import { SIMULATION_LIMITS, SimulationError, getSimulation, listModelSimulations, queueSimulation } from "../services/monteCarlo";
+import { simulationDriverKinds, type FinancialModelSimulation } from "../../drizzle/schema";
 import { nanoid } from "nanoid";
 import * as db from "../db";
 
@@ -16,10 +30,12 @@ const uploadModelSchema = z.object({
   fileBuffer: z.string(), // Base64 encoded file
   fileName: z.string(),
   mimeType: z.string(),
+  mappingTemplateId: z.number().optional(), // defaults to the template of the previous version
 });
 
 const extractMetricsSchema = z.object({
   modelId: z.number(),
+  mappingTemplateId: z.number().optional(),
 });
 
 const getModelsSchema = z.object({
@@ -61,8 +77,17 @@ const bulkUploadSchema = z.object({
     fileName: z.string(),
     mimeType: z.string(),
   })),
+  mappingTemplateId: z.number().optional(),
 });
 
+const cellMappingSchema = z.object({
+  field: z.string().min(1).max(100),
+  sheet: z.string().min(1).max(100),
+  cell: z.string().regex(/^[A-Z]{1,3}[1-9]\d*$/, "Cell must be an A1 address").optional(),
+  label: z.string().max(255).optional(),
+  row: z.number().int().positive().optional(),
+}).refine(m => m.cell || m.label || m.row, "A mapping needs a cell, label or row");
+
 // Variance alert settings schema
 const varianceAlertSettingsSchema = z.object({
   projectId: z.number().optional(),
@@ -79,7 +104,7 @@ export const financialModelsRouter = router({
   upload: protectedProcedure
     .input(uploadModelSchema)
     .mutation(async ({ ctx, input }) => {
-      const { projectId, name, scenarioType, fileBuffer, fileName, mimeType } = input;
+      const { projectId, name, scenarioType, fileBuffer, fileName, mimeType, mappingTemplateId } = input;
 
       // Decode base64 file
       const buffer = Buffer.from(fileBuffer, 'base64');
@@ -106,11 +131,13 @@ export const financialModelsRouter = router({
 
       // Trigger extraction asynchronously
       try {
-        const extractionResult = await extractFinancialData(buffer, fileName);
+        const template = await resolveMappingTemplate(model, mappingTemplateId);
+        const extractionResult = await extractFinancialData(buffer, fileName, { template });
         
         if (extractionResult.success) {
           // Save extracted metrics
-          await db.saveFinancialModelMetrics(model.id, extractionResult.metrics);
+          await db.saveFinancialModelMetrics(model.id, extractionResult.metrics, extractionResult.assumptions);
+          await db.saveFinancialModelCellRefs(model.id, extractionResult.provenance);
           
           // Save cash flows
           if (extractionResult.cashFlows.length > 0) {
@@ -157,12 +184,15 @@ export const financialModelsRouter = router({
       const buffer = Buffer.from(await response.arrayBuffer());
 
       // Re-run extraction
-      const extractionResult = await extractFinancialData(buffer, model.fileName);
+      const template = await resolveMappingTemplate(model, input.mappingTemplateId);
+      const extractionResult = await extractFinancialData(buffer, model.fileName, { template });
 
       if (extractionResult.success) {
         // Clear old metrics and save new ones
         await db.deleteFinancialModelMetrics(model.id);
-        await db.saveFinancialModelMetrics(model.id, extractionResult.metrics);
+        await db.saveFinancialModelMetrics(model.id, extractionResult.metrics, extractionResult.assumptions);
+        await db.deleteFinancialModelCellRefs(model.id);
+        await db.saveFinancialModelCellRefs(model.id, extractionResult.provenance);
         
         // Clear old cash flows and save new ones
         await db.deleteFinancialModelCashFlows(model.id);
@@ -178,6 +208,7 @@ export const financialModelsRouter = router({
           success: true, 
           confidence: extractionResult.metrics.confidence,
           summary: getExtractionSummary(extractionResult),
+          warnings: extractionResult.warnings,
         };
       } else {
         await db.updateFinancialModel(model.id, {
@@ -278,10 +309,14 @@ export const financialModelsRouter = router({
       // Calculate variance metrics
       const variance = calculateVariance(projectedCashFlows, comparisons);
 
+      // Completed Monte Carlo runs, side by side
+      const simulations = await listModelSimulations(input.modelId, { completedOnly: true });
+
       return {
         projected: projectedCashFlows,
         actual: comparisons,
         variance,
+        simulations: simulations.map(toSimulationSummary),
       };
     }),
 
@@ -324,7 +359,7 @@ export const financialModelsRouter = router({
   bulkUpload: protectedProcedure
     .input(bulkUploadSchema)
     .mutation(async ({ ctx, input }) => {
-      const { projectId, files } = input;
+      const { projectId, files, mappingTemplateId } = input;
       const results: Array<{ fileName: string; success: boolean; modelId?: number; error?: string }> = [];
 
       for (const file of files) {
@@ -354,10 +389,12 @@ export const financialModelsRouter = router({
 
           // Trigger extraction
           try {
-            const extractionResult = await extractFinancialData(buffer, file.fileName);
+            const template = await resolveMappingTemplate(model, mappingTemplateId);
+            const extractionResult = await extractFinancialData(buffer, file.fileName, { template });
             
             if (extractionResult.success) {
-              await db.saveFinancialModelMetrics(model.id, extractionResult.metrics);
+              await db.saveFinancialModelMetrics(model.id, extractionResult.metrics, extractionResult.assumptions);
+              await db.saveFinancialModelCellRefs(model.id, extractionResult.provenance);
               
               if (extractionResult.cashFlows.length > 0) {
                 await db.saveFinancialModelCashFlows(model.id, extractionResult.cashFlows);
@@ -414,6 +451,7 @@ export const financialModelsRouter = router({
         opexVariancePercent: z.number().optional(),
         ebitdaVariancePercent: z.number().optional(),
       }).optional(),
+      sustainedMonths: z.number().int().min(2).max(24).default(DEFAULT_SUSTAINED_MONTHS),
     }))
     .query(async ({ ctx, input }) => {
       const model = await db.getFinancialModelById(input.modelId);
@@ -437,6 +475,7 @@ export const financialModelsRouter = router({
 
       // Check each comparison for alerts
       const allAlerts = [];
+      const periods: Array<{ periodStart: Date; alerts: VarianceAlert[] }> = [];
       for (const comparison of comparisons) {
         const alerts = checkComparisonForAlerts(
           {
@@ -448,6 +487,7 @@ export const financialModelsRouter = router({
             projectedRevenue: comparison.projectedRevenue,
             actualRevenue: comparison.actualRevenue,
             projectedProduction: comparison.projectedProduction,
+            projectedProductionP90: comparison.projectedProductionP90 === null ? null : Number(comparison.projectedProductionP90),
             actualProduction: comparison.actualProduction,
             projectedOpex: comparison.projectedOpex,
             actualOpex: comparison.actualOpex,
@@ -459,14 +499,19 @@ export const financialModelsRouter = router({
           thresholds
         );
         allAlerts.push(...alerts);
+        periods.push({ periodStart: comparison.periodStart, alerts });
       }
 
+      const sustained = findSustainedUnderperformance(periods, input.sustainedMonths);
+
       return {
         alerts: allAlerts,
+        sustained,
         summary: {
           total: allAlerts.length,
           critical: allAlerts.filter(a => a.severity === 'critical').length,
           warning: allAlerts.filter(a => a.severity === 'warning').length,
+          sustained: sustained.length,
         },
         thresholds,
       };
@@ -476,7 +521,7 @@ export const financialModelsRouter = router({
   sendVarianceAlert: protectedProcedure
     .input(z.object({
       modelId: z.number(),
-      alertType: z.enum(['revenue', 'production', 'opex', 'ebitda']),
+      alertType: z.enum(['revenue', 'production', 'production_p90', 'opex', 'ebitda']),
       comparisonId: z.number(),
     }))
     .mutation(async ({ ctx, input }) => {
@@ -506,6 +551,7 @@ export const financialModelsRouter = router({
           projectedRevenue: comparison.projectedRevenue,
           actualRevenue: comparison.actualRevenue,
           projectedProduction: comparison.projectedProduction,
+          projectedProductionP90: comparison.projectedProductionP90 === null ? null : Number(comparison.projectedProductionP90),
           actualProduction: comparison.actualProduction,
           projectedOpex: comparison.projectedOpex,
           actualOpex: comparison.actualOpex,
@@ -609,6 +655,306 @@ export const financialModelsRouter = router({
       };
     }),
 
+  // Reconcile metered production against the model forecast for a range of months
+  reconcileProduction: protectedProcedure
+    .input(z.object({
+      modelId: z.number(),
+      startDate: z.string(),
+      endDate: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const model = await db.getFinancialModelById(input.modelId);
+      if (!model) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Financial model not found' });
+      }
+
+      const from = monthStartUtc(new Date(input.startDate));
+      const to = new Date(input.endDate);
+      if (to.getTime() - from.getTime() > 5 * 366 * 86400_000) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Reconcile at most five years at a time' });
+      }
+
+      const months = await reconcileModelProduction(model.id, from, to, ctx.user.id);
+      return { success: true, months };
+    }),
+
+  // Metered production variance with P90 and sustained-shortfall flags
+  getProductionVariance: protectedProcedure
+    .input(z.object({
+      modelId: z.number(),
+      productionVariancePercent: z.number().optional(),
+      sustainedMonths: z.number().int().min(2).max(24).default(DEFAULT_SUSTAINED_MONTHS),
+    }))
+    .query(async ({ ctx, input }) => {
+      const model = await db.getFinancialModelById(input.modelId);
+      if (!model) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Financial model not found' });
+      }
+
+      const thresholds: VarianceThresholds = {
+        ...DEFAULT_THRESHOLDS,
+        ...(input.productionVariancePercent !== undefined ? { productionVariancePercent: input.productionVariancePercent } : {}),
+      };
+      return getProductionVarianceAlerts(model.id, thresholds, input.sustainedMonths);
+    }),
+
+  // Export lender production variance report (Excel, CSV or HTML for PDF)
+  exportProductionVariance: protectedProcedure
+    .input(z.object({
+      modelId: z.number(),
+      startDate: z.string(),
+      endDate: z.string(),
+      format: z.enum(['xlsx', 'csv', 'html']).default('xlsx'),
+      productionVariancePercent: z.number().optional(),
+      sustainedMonths: z.number().int().min(2).max(24).default(DEFAULT_SUSTAINED_MONTHS),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const thresholds: VarianceThresholds = {
+        ...DEFAULT_THRESHOLDS,
+        ...(input.productionVariancePercent !== undefined ? { productionVariancePercent: input.productionVariancePercent } : {}),
+      };
+      const report = await buildProductionVarianceReport(
+        input.modelId,
+        new Date(input.startDate),
+        new Date(input.endDate),
+        thresholds,
+        input.sustainedMonths
+      );
+      if (!report) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Financial model not found' });
+      }
+
+      const basename = `${report.projectName}-${report.modelName}-production-variance`;
+      if (input.format === 'csv') {
+        return { success: true, data: generateProductionVarianceCSV(report), filename: `${basename}.csv`, mimeType: 'text/csv' };
+      }
+      if (input.format === 'html') {
+        return { success: true, data: generateProductionVarianceHTML(report), filename: `${basename}.html`, mimeType: 'text/html' };
+      }
+      return {
+        success: true,
+        data: generateProductionVarianceExcel(report).toString('base64'),
+        filename: `${basename}.xlsx`,
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      };
+    }),
+
+  // Recompute IRR/NPV/DSCR/LLCR/payback from the cash flows and flag stated outputs that disagree
+  recalculate: protectedProcedure
+    .input(z.object({
+      modelId: z.number(),
+      discountRates: z.array(z.number().min(-0.5).max(1)).max(10).optional(), // decimals, first is the headline rate
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const model = await db.getFinancialModelById(input.modelId);
+      if (!model) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Financial model not found' });
+      }
+
+      try {
+        return await recalculateModel(model.id, { discountRates: input.discountRates, userId: ctx.user.id });
+      } catch (error) {
+        if (error instanceof ModelEngineError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        throw error;
+      }
+    }),
+
+  getRecalculation: protectedProcedure
+    .input(z.object({ modelId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      return getLatestRecalculation(input.modelId);
+    }),
+
+  // Run a what-if (a preset or custom overrides) and store it as a scenario comparison
+  runScenario: protectedProcedure
+    .input(z.object({
+      modelId: z.number(),
+      preset: z.enum(Object.keys(SCENARIO_PRESETS) as [string, ...string[]]).optional(),
+      name: z.string().min(1).max(100).optional(),
+      overrides: z.object({
+        tariffChangePct: z.number().min(-100).max(500).optional(),
+        production: z.enum(['p50', 'p90']).optional(),
+        productionFactor: z.number().positive().max(5).optional(),
+        capexChangePct: z.number().min(-100).max(500).optional(),
+        opexChangePct: z.number().min(-100).max(500).optional(),
+      }).optional(),
+      discountRates: z.array(z.number().min(-0.5).max(1)).max(10).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const model = await db.getFinancialModelById(input.modelId);
+      if (!model) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Financial model not found' });
+      }
+
+      const preset = input.preset ? SCENARIO_PRESETS[input.preset] : null;
+      const overrides = { ...preset?.overrides, ...input.overrides };
+      if (Object.keys(overrides).length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Choose a preset or pass overrides' });
+      }
+
+      try {
+        const result = await runModelScenario(model.id, {
+          name: input.name ?? preset?.name ?? 'Custom scenario',
+          overrides,
+          discountRates: input.discountRates,
+        }, ctx.user.id);
+        return { success: true, ...result };
+      } catch (error) {
+        if (error instanceof ModelEngineError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        throw error;
+      }
+    }),
+
+  listScenarios: protectedProcedure
+    .input(z.object({ modelId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      return {
+        presets: SCENARIO_PRESETS,
+        scenarios: await listModelScenarios(input.modelId),
+      };
+    }),
+
+  // Where each extracted value came from, e.g. "IRR 12.4% ← Returns!C14 = IRR(CF!D40:AD40)"
+  getProvenance: protectedProcedure
+    .input(z.object({ modelId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const refs = await db.getFinancialModelCellRefs(input.modelId);
+      return refs.map(ref => ({
+        ...ref,
+        display: describeProvenance({ ...ref, value: ref.numericValue }),
+      }));
+    }),
+
+  listMappingTemplates: protectedProcedure
+    .input(z.object({ orgId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      return db.getFinancialModelMappingTemplates(input.orgId);
+    }),
+
+  saveMappingTemplate: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      id: z.number().optional(),
+      name: z.string().min(1).max(255),
+      description: z.string().max(2000).optional(),
+      sheetRoles: z.object({
+        summary: z.array(z.string().min(1)).optional(),
+        cashFlow: z.string().min(1).optional(),
+        assumptions: z.string().min(1).optional(),
+      }).optional(),
+      mappings: z.array(cellMappingSchema).max(500),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, ...template } = input;
+      return db.saveFinancialModelMappingTemplate({
+        ...template,
+        organizationId: orgId,
+        createdBy: ctx.user.id,
+      });
+    }),
+
+  deleteMappingTemplate: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await db.deleteFinancialModelMappingTemplate(input.orgId, input.id);
+      return { success: true };
+    }),
+
+  // Save the cells found in a model as a template; later versions of the model inherit it
+  createTemplateFromModel: protectedProcedure
+    .input(z.object({ orgId: z.number(), modelId: z.number(), name: z.string().min(1).max(255) }))
+    .mutation(async ({ ctx, input }) => {
+      const model = await db.getFinancialModelById(input.modelId);
+      if (!model) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Financial model not found' });
+      }
+
+      const refs = await db.getFinancialModelCellRefs(model.id);
+      if (refs.length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Model has no extracted cell references; re-extract it first' });
+      }
+
+      const mappings = templateFromProvenance(refs.map(ref => ({
+        field: ref.field,
+        year: ref.year ?? undefined,
+        label: ref.label ?? undefined,
+        sheet: ref.sheet,
+        cell: ref.cell,
+        value: null,
+        method: ref.method,
+      })));
+      const { id } = await db.saveFinancialModelMappingTemplate({
+        organizationId: input.orgId,
+        name: input.name,
+        description: `Created from ${model.name} v${model.version}`,
+        mappings,
+        createdBy: ctx.user.id,
+      });
+      await db.updateFinancialModel(model.id, { mappingTemplateId: id });
+
+      return { id, mappings: mappings.length };
+    }),
+
+  // Queue a Monte Carlo run over the model's drivers; poll getSimulation for results
+  runSimulation: protectedProcedure
+    .input(z.object({
+      modelId: z.number(),
+      name: z.string().min(1).max(100).default('Monte Carlo'),
+      drivers: z.array(z.object({
+        driver: z.enum(simulationDriverKinds),
+        distribution: z.discriminatedUnion('type', [
+          z.object({ type: z.literal('normal'), mean: z.number(), stdDev: z.number() }),
+          z.object({ type: z.literal('lognormal'), mean: z.number(), stdDev: z.number() }),
+          z.object({ type: z.literal('triangular'), min: z.number(), mode: z.number(), max: z.number() }),
+          z.object({ type: z.literal('uniform'), min: z.number(), max: z.number() }),
+          z.object({ type: z.literal('p50_p90') }),
+        ]),
+        sampling: z.enum(['lifetime', 'annual']).default('lifetime'),
+      })).min(1).max(simulationDriverKinds.length),
+      correlations: z.array(z.object({
+        a: z.enum(simulationDriverKinds),
+        b: z.enum(simulationDriverKinds),
+        rho: z.number().min(-1).max(1),
+      })).default([]),
+      iterations: z.number().int().min(SIMULATION_LIMITS.minIterations).max(SIMULATION_LIMITS.maxIterations).optional(),
+      seed: z.number().int().min(0).max(2_147_483_647).optional(),
+      discountRate: z.number().min(-0.5).max(1).optional(),
+      dscrCovenant: z.number().positive().max(10).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { modelId, ...request } = input;
+      try {
+        const queued = await queueSimulation(modelId, request, ctx.user.id);
+        return { success: true, ...queued };
+      } catch (error) {
+        if (error instanceof SimulationError || error instanceof ModelEngineError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        throw error;
+      }
+    }),
+
+  getSimulation: protectedProcedure
+    .input(z.object({ simulationId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const simulation = await getSimulation(input.simulationId);
+      if (!simulation) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Simulation not found' });
+      }
+      return simulation;
+    }),
+
+  listSimulations: protectedProcedure
+    .input(z.object({ modelId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const simulations = await listModelSimulations(input.modelId);
+      return simulations.map(s => ({ ...toSimulationSummary(s), status: s.status, error: s.error, jobId: s.jobId }));
+    }),
+
   // Get portfolio summary metrics
   getPortfolioSummary: protectedProcedure
     .input(z.object({ projectIds: z.array(z.number()).optional() }))
@@ -645,6 +991,43 @@ export const financialModelsRouter = router({
         modelCount: models.length,
       };
     }),
+
+  // Annual revenue, opex, CFADS and debt service across a portfolio's approved base cases
+  getPortfolioCashFlows: protectedProcedure
+    .input(z.object({
+      portfolioId: z.number(),
+      currency: z.string().length(3).optional(), // defaults to the organization's reporting currency
+    }))
+    .query(async ({ input }) => {
+      try {
+        return await getPortfolioCashFlows(input.portfolioId, { currency: input.currency?.toUpperCase() });
+      } catch (error) {
+        if (error instanceof CovenantError || error instanceof ModelEngineError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        throw error;
+      }
+    }),
+
+  getCovenantStatus: protectedProcedure
+    .input(z.object({ portfolioId: z.number() }))
+    .query(async ({ input }) => {
+      return getCovenantStatus({ portfolioId: input.portfolioId });
+    }),
+
+  // Record covenant tests now and raise projected breaches, instead of waiting for the daily run
+  checkCovenants: protectedProcedure
+    .input(z.object({ portfolioId: z.number() }))
+    .mutation(async ({ input }) => {
+      const result = await runCovenantMonitoring({ portfolioId: input.portfolioId });
+      return { success: true, ...result };
+    }),
+
+  getCovenantHistory: protectedProcedure
+    .input(z.object({ contractObligationId: z.number() }))
+    .query(async ({ input }) => {
+      return getCovenantHistory(input.contractObligationId);
+    }),
 });
 
 // Helper function to build comparison report data
@@ -659,6 +1042,7 @@ async function buildComparisonReportData(modelId: number): Promise<ComparisonDat
   const metrics = await db.getFinancialModelMetrics(modelId);
   const cashFlows = await db.getFinancialModelCashFlows(modelId);
   const comparisons = await db.getFinancialModelComparisons(modelId, {});
+  const simulations = await listModelSimulations(modelId, { completedOnly: true });
 
   // Calculate summary
   let totalProjectedRevenue = 0;
@@ -727,6 +1111,7 @@ async function buildComparisonReportData(modelId: number): Promise<ComparisonDat
       netCashFlow: Number(cf.netCashFlow) || 0,
     })),
     comparisons: formattedComparisons,
+    simulations: simulations.map(toSimulationSummary),
     summary: {
       totalProjectedRevenue,
       totalActualRevenue,
@@ -776,3 +1161,38 @@ function calculateVariance(
     cumulativeVariance: revenueVariance - opexVariance,
   };
 }
+
+// Load the template to extract a model with, defaulting to the one its previous version used
+async function resolveMappingTemplate(
+  model: { id: number; projectId: number; name: string },
+  requestedId?: number
+) {
+  const templateId = requestedId ?? await db.getInheritedMappingTemplateId(model);
+  if (!templateId) return null;
+
+  const template = await db.getFinancialModelMappingTemplateById(templateId);
+  if (!template) {
+    if (requestedId) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Mapping template not found' });
+    }
+    return null;
+  }
+
+  await db.updateFinancialModel(model.id, { mappingTemplateId: template.id });
+  return template;
+}
+
+// Flatten a simulation row for comparison views and exports
+function toSimulationSummary(simulation: FinancialModelSimulation): SimulationSummary {
+  return {
+    id: simulation.id,
+    name: simulation.name,
+    iterations: simulation.iterations,
+    seed: simulation.seed,
+    drivers: simulation.drivers,
+    discountRate: simulation.discountRate ? Number(simulation.discountRate) : null,
+    dscrCovenant: simulation.dscrCovenant ? Number(simulation.dscrCovenant) : null,
+    completedAt: simulation.completedAt,
+    results: simulation.results,
+  };
+}
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { fxRates, organizations } from "../../drizzle/schema";
+import { and, desc, eq, gte, lte } from "drizzle-orm";
+import { SUPPORTED_CURRENCIES, getFxRate, getReportingCurrency } from "../services/currency";
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+  return db;
+}
+
+const currencySchema = z.string().length(3).transform(c => c.toUpperCase());
+
+/**
+ * FX Rates Router
+ *
+ * Org exchange rates for invoice/payment snapshots and the org's
+ * reporting currency.
+ */
+export const fxRatesRouter = router({
+  getReportingCurrency: protectedProcedure
+    .input(z.object({ orgId: z.number() }))
+    .query(async ({ input }) => {
+      return {
+        reportingCurrency: await getReportingCurrency(input.orgId),
+        supportedCurrencies: SUPPORTED_CURRENCIES,
+      };
+    }),
+
+  setReportingCurrency: protectedProcedure
+    .input(z.object({ orgId: z.number(), reportingCurrency: currencySchema }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      await db.update(organizations)
+        .set({ reportingCurrency: input.reportingCurrency })
+        .where(eq(organizations.id, input.orgId));
+      return { success: true };
+    }),
+
+  list: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      baseCurrency: currencySchema.optional(),
+      quoteCurrency: currencySchema.optional(),
+      from: z.string().optional(),
+      to: z.string().optional(),
+      limit: z.number().min(1).max(1000).default(200),
+    }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const conditions = [eq(fxRates.organizationId, input.orgId)];
+      if (input.baseCurrency) conditions.push(eq(fxRates.baseCurrency, input.baseCurrency));
+      if (input.quoteCurrency) conditions.push(eq(fxRates.quoteCurrency, input.quoteCurrency));
+      if (input.from) conditions.push(gte(fxRates.rateDate, new Date(input.from)));
+      if (input.to) conditions.push(lte(fxRates.rateDate, new Date(input.to)));
+
+      return db.select()
+        .from(fxRates)
+        .where(and(...conditions))
+        .orderBy(desc(fxRates.rateDate))
+        .limit(input.limit);
+    }),
+
+  // Insert or replace rates for (pair, date); accepts a day's worth of pairs at once
+  upsert: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      rates: z.array(z.object({
+        baseCurrency: currencySchema,
+        quoteCurrency: currencySchema,
+        rate: z.number().positive(),
+        rateDate: z.string(),
+      })).min(1).max(500),
+      source: z.enum(["manual", "import", "api"]).default("manual"),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+      let saved = 0;
+
+      for (const r of input.rates) {
+        if (r.baseCurrency === r.quoteCurrency) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `Base and quote currency are both ${r.baseCurrency}` });
+        }
+        const rateDate = new Date(r.rateDate);
+        const values = { rate: r.rate.toFixed(10), source: input.source, createdBy: ctx.user.id };
+        await db.insert(fxRates)
+          .values({
+            organizationId: input.orgId,
+            baseCurrency: r.baseCurrency,
+            quoteCurrency: r.quoteCurrency,
+            rateDate,
+            ...values,
+          })
+          .onDuplicateKeyUpdate({ set: values });
+        saved++;
+      }
+      return { saved };
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      await db.delete(fxRates).where(and(eq(fxRates.id, input.id), eq(fxRates.organizationId, input.orgId)));
+      return { success: true };
+    }),
+
+  // Rate the snapshots would use for a pair on a date
+  lookup: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      from: currencySchema,
+      to: currencySchema,
+      date: z.string().optional(),
+    }))
+    .query(async ({ input }) => {
+      const date = input.date ? new Date(input.date) : new Date();
+      return { rate: await getFxRate(input.orgId, input.from, input.to, date), date };
+    }),
+});
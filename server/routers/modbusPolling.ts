@@ -0,0 +1,322 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { devices, modbusDeviceConfigs, modbusRegisterMaps, sites } from "../../drizzle/schema";
+import { and, eq, desc } from "drizzle-orm";
+import { INVERTER_REGISTER_MAPS, ModbusRegisterMap } from "../connectors/modbus";
+import { modbusPoller, loadModbusTargets } from "../services/modbusPoller";
+import { buildSunSpecRegisterMap, SunSpecDiscoveryError } from "../connectors/sunspec";
+import { discoverSunSpecDevice, registerSunSpecDevice } from "../services/sunspecDiscovery";
+
+const endpointSchema = {
+  host: z.string().min(1).max(255),
+  port: z.number().int().min(1).max(65535).default(502),
+  unitId: z.number().int().min(0).max(255).default(1),
+  timeoutMs: z.number().int().min(500).max(60000).default(5000),
+};
+
+function toDiscoveryError(error: unknown): TRPCError {
+  if (error instanceof SunSpecDiscoveryError) {
+    return new TRPCError({ code: "NOT_FOUND", message: error.message });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new TRPCError({ code: "BAD_REQUEST", message: `Modbus device unreachable: ${message}` });
+}
+
+const builtInMapSchema = z.enum(["huawei", "sma", "sungrow", "meter"]);
+
+const registerSchema = z.object({
+  address: z.number().int().min(0).max(65535),
+  length: z.number().int().min(1).max(125),
+  type: z.enum(["holding", "input", "coil", "discrete"]),
+  dataType: z.enum(["int16", "uint16", "int32", "uint32", "float32", "float64", "string", "boolean"]),
+  name: z.string().min(1).max(255),
+  unit: z.string().max(50).optional(),
+  scale: z.number().optional(),
+  offset: z.number().optional(),
+  wordOrder: z.enum(["big", "little"]).optional(),
+  byteOrder: z.enum(["big", "little"]).optional(),
+  scaleFactorRegister: z.string().optional(),
+  metricCode: z.string().max(100).optional(),
+});
+
+const registersSchema = z.record(z.string().min(1).max(100), registerSchema).superRefine((registers, ctx) => {
+  for (const [key, register] of Object.entries(registers)) {
+    if (register.scaleFactorRegister && !registers[register.scaleFactorRegister]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key, "scaleFactorRegister"],
+        message: `Scale factor register "${register.scaleFactorRegister}" is not in the map`,
+      });
+    }
+  }
+});
+
+/**
+ * Modbus Polling Router
+ */
+export const modbusPollingRouter = router({
+  // Built-in register maps that org maps can extend
+  getBuiltInMaps: protectedProcedure.query(() => {
+    return Object.entries(INVERTER_REGISTER_MAPS).map(([name, registers]) => ({
+      name,
+      registers: registers as ModbusRegisterMap,
+    }));
+  }),
+
+  listRegisterMaps: protectedProcedure
+    .input(z.object({ orgId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      return db.select()
+        .from(modbusRegisterMaps)
+        .where(and(eq(modbusRegisterMaps.organizationId, input.orgId), eq(modbusRegisterMaps.isActive, true)))
+        .orderBy(desc(modbusRegisterMaps.updatedAt));
+    }),
+
+  saveRegisterMap: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      id: z.number().optional(),
+      name: z.string().min(1).max(255),
+      description: z.string().optional(),
+      manufacturer: z.string().max(100).optional(),
+      baseMap: builtInMapSchema.nullable().optional(),
+      registers: registersSchema,
+      defaultWordOrder: z.enum(["big", "little"]).default("big"),
+      defaultByteOrder: z.enum(["big", "little"]).default("big"),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const values = {
+        name: input.name,
+        description: input.description,
+        manufacturer: input.manufacturer,
+        baseMap: input.baseMap ?? null,
+        registers: input.registers,
+        defaultWordOrder: input.defaultWordOrder,
+        defaultByteOrder: input.defaultByteOrder,
+      };
+
+      if (input.id) {
+        const [existing] = await db.select({ id: modbusRegisterMaps.id })
+          .from(modbusRegisterMaps)
+          .where(and(eq(modbusRegisterMaps.id, input.id), eq(modbusRegisterMaps.organizationId, input.orgId)))
+          .limit(1);
+        if (!existing) throw new TRPCError({ code: "NOT_FOUND", message: "Register map not found" });
+
+        await db.update(modbusRegisterMaps).set(values).where(eq(modbusRegisterMaps.id, input.id));
+        return { id: input.id, success: true };
+      }
+
+      const [result] = await db.insert(modbusRegisterMaps).values({
+        ...values,
+        organizationId: input.orgId,
+        createdBy: ctx.user.id,
+      });
+      return { id: Number(result.insertId), success: true };
+    }),
+
+  deleteRegisterMap: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [inUse] = await db.select({ id: modbusDeviceConfigs.id })
+        .from(modbusDeviceConfigs)
+        .where(and(eq(modbusDeviceConfigs.registerMapId, input.id), eq(modbusDeviceConfigs.enabled, true)))
+        .limit(1);
+      if (inUse) {
+        throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Register map is used by an enabled device" });
+      }
+
+      await db.update(modbusRegisterMaps)
+        .set({ isActive: false })
+        .where(and(eq(modbusRegisterMaps.id, input.id), eq(modbusRegisterMaps.organizationId, input.orgId)));
+      return { success: true };
+    }),
+
+  getDeviceConfig: protectedProcedure
+    .input(z.object({ orgId: z.number(), deviceId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [config] = await db.select()
+        .from(modbusDeviceConfigs)
+        .where(and(eq(modbusDeviceConfigs.deviceId, input.deviceId), eq(modbusDeviceConfigs.organizationId, input.orgId)))
+        .limit(1);
+      if (!config) return null;
+
+      return { ...config, health: modbusPoller.getDeviceHealth(input.deviceId) ?? null };
+    }),
+
+  saveDeviceConfig: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      deviceId: z.number(),
+      host: z.string().min(1).max(255),
+      port: z.number().int().min(1).max(65535).default(502),
+      unitId: z.number().int().min(0).max(255).default(1),
+      timeoutMs: z.number().int().min(500).max(60000).default(5000),
+      registerMapId: z.number().nullable().optional(),
+      builtInMap: builtInMapSchema.nullable().optional(),
+      pollIntervalSeconds: z.number().int().min(5).max(86400).default(60),
+      enabled: z.boolean().default(true),
+    }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      if (!input.registerMapId && !input.builtInMap) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Either registerMapId or builtInMap is required" });
+      }
+
+      const [device] = await db.select({ id: devices.id }).from(devices).where(eq(devices.id, input.deviceId)).limit(1);
+      if (!device) throw new TRPCError({ code: "NOT_FOUND", message: "Device not found" });
+
+      if (input.registerMapId) {
+        const [map] = await db.select({ id: modbusRegisterMaps.id })
+          .from(modbusRegisterMaps)
+          .where(and(
+            eq(modbusRegisterMaps.id, input.registerMapId),
+            eq(modbusRegisterMaps.organizationId, input.orgId),
+            eq(modbusRegisterMaps.isActive, true)
+          ))
+          .limit(1);
+        if (!map) throw new TRPCError({ code: "NOT_FOUND", message: "Register map not found" });
+      }
+
+      const values = {
+        organizationId: input.orgId,
+        host: input.host,
+        port: input.port,
+        unitId: input.unitId,
+        timeoutMs: input.timeoutMs,
+        registerMapId: input.registerMapId ?? null,
+        builtInMap: input.registerMapId ? null : input.builtInMap ?? null,
+        pollIntervalSeconds: input.pollIntervalSeconds,
+        enabled: input.enabled,
+      };
+
+      const [existing] = await db.select({ id: modbusDeviceConfigs.id, organizationId: modbusDeviceConfigs.organizationId })
+        .from(modbusDeviceConfigs)
+        .where(eq(modbusDeviceConfigs.deviceId, input.deviceId))
+        .limit(1);
+
+      if (existing) {
+        if (existing.organizationId !== input.orgId) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Device belongs to another organization" });
+        }
+        await db.update(modbusDeviceConfigs).set(values).where(eq(modbusDeviceConfigs.id, existing.id));
+      } else {
+        await db.insert(modbusDeviceConfigs).values({ ...values, deviceId: input.deviceId });
+      }
+
+      // Pick up the change without waiting for the next refresh
+      if (modbusPoller.isRunning()) {
+        modbusPoller.refresh().catch(err => console.error("[ModbusPolling] Refresh failed:", err));
+      }
+
+      return { success: true };
+    }),
+
+  // Poller health for every configured device in the org
+  getHealth: protectedProcedure
+    .input(z.object({ orgId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const configs = await db.select({
+        deviceId: modbusDeviceConfigs.deviceId,
+        deviceName: devices.name,
+        enabled: modbusDeviceConfigs.enabled,
+        lastPollAt: modbusDeviceConfigs.lastPollAt,
+        lastSuccessAt: modbusDeviceConfigs.lastSuccessAt,
+        consecutiveFailures: modbusDeviceConfigs.consecutiveFailures,
+        lastError: modbusDeviceConfigs.lastError,
+      })
+        .from(modbusDeviceConfigs)
+        .innerJoin(devices, eq(devices.id, modbusDeviceConfigs.deviceId))
+        .where(eq(modbusDeviceConfigs.organizationId, input.orgId));
+
+      return {
+        pollerRunning: modbusPoller.isRunning(),
+        devices: configs.map(c => ({ ...c, live: modbusPoller.getDeviceHealth(c.deviceId) ?? null })),
+      };
+    }),
+
+  pollNow: protectedProcedure
+    .input(z.object({ orgId: z.number(), deviceId: z.number() }))
+    .mutation(async ({ input }) => {
+      const targets = await loadModbusTargets();
+      const target = targets.find(t => t.deviceId === input.deviceId && t.organizationId === input.orgId);
+      if (!target) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "No enabled Modbus config for this device" });
+      }
+      return modbusPoller.pollDevice(target);
+    }),
+
+  // Scan a device for SunSpec models without saving anything
+  discoverSunSpec: protectedProcedure
+    .input(z.object({ orgId: z.number(), ...endpointSchema }))
+    .mutation(async ({ input }) => {
+      try {
+        const discovery = await discoverSunSpecDevice(input);
+        return { discovery, registers: buildSunSpecRegisterMap(discovery) };
+      } catch (error) {
+        throw toDiscoveryError(error);
+      }
+    }),
+
+  // Discover and save as a device with a generated register map
+  registerSunSpecDevice: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      siteId: z.number(),
+      assetId: z.number().optional(),
+      name: z.string().max(255).optional(),
+      pollIntervalSeconds: z.number().int().min(5).max(86400).default(60),
+      enablePolling: z.boolean().default(true),
+      ...endpointSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [site] = await db.select({ id: sites.id, organizationId: sites.organizationId })
+        .from(sites)
+        .where(eq(sites.id, input.siteId))
+        .limit(1);
+      if (!site || (site.organizationId && site.organizationId !== input.orgId)) throw new TRPCError({ code: "NOT_FOUND", message: "Site not found" });
+
+      let discovery;
+      try {
+        discovery = await discoverSunSpecDevice(input);
+      } catch (error) {
+        throw toDiscoveryError(error);
+      }
+
+      const result = await registerSunSpecDevice({ ...input, organizationId: input.orgId, userId: ctx.user.id }, discovery);
+
+      if (modbusPoller.isRunning()) {
+        modbusPoller.refresh().catch(err => console.error("[ModbusPolling] Refresh failed:", err));
+      }
+
+      return {
+        deviceId: result.deviceId,
+        registerMapId: result.registerMapId,
+        componentIds: result.componentIds,
+        created: result.created,
+        common: discovery.common,
+        models: discovery.models.map(m => ({ id: m.id, name: m.name, address: m.address })),
+      };
+    }),
+});
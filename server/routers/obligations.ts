@@ -13,8 +13,6 @@ import {
   listObligations,
   updateObligation,
   updateObligationStatus,
-  getObligationsDueSoon,
-  getOverdueObligations,
   createObligationLink,
   getObligationLinks,
   getObligationsForEntity,
@@ -27,11 +25,38 @@ import {
   getObligationAuditLog,
   getObligationsForView,
   addObligationToView,
-  removeObligationFromView
+  removeObligationFromView,
+  addObligationOccurrenceEvidence,
+  getObligationOccurrence,
+  getObligationOccurrenceEvidence,
+  getCalendarBindingsForUser,
+  getCalendarBindingById,
+  updateCalendarBinding,
+  getCalendarSyncConflictById,
+  listOpenCalendarSyncConflicts,
+  listCalendarFeedTokens,
+  revokeCalendarFeedToken
 } from "../db";
 import { getDb } from "../db";
 import { reminderPolicies } from "../../drizzle/schema";
+import type { InsertObligationOccurrence } from "../../drizzle/schema";
 import { eq, and } from "drizzle-orm";
+import { parseRecurrenceRule, RecurrenceParseError } from "../services/recurrenceRule";
+import { isValidTimezone } from "../services/cronExpression";
+import {
+  ACTIVE_STATUSES,
+  OVERDUE_LOOKBACK_DAYS,
+  OccurrenceError,
+  expandObligations,
+  getOccurrencesDueSoon,
+  getOverdueOccurrences,
+  isRecurring,
+  listOccurrences,
+  occurrenceStatusUpdate,
+  saveOccurrence
+} from "../services/obligationOccurrences";
+import { syncCalendarBinding, resolveCalendarConflict } from "../services/calendarSync";
+import { createCalendarFeed } from "../services/calendarFeed";
 
 // Validation schemas
 const obligationTypeSchema = z.enum([
@@ -92,6 +117,94 @@ const assignmentRoleSchema = z.enum([
 
 const assigneeTypeSchema = z.enum(["USER", "TEAM"]);
 
+/**
+ * Reject recurrence rules and timezones the occurrence engine can't expand
+ */
+function validateRecurrence(recurrenceRule: string | null | undefined, timezone: string | undefined) {
+  if (timezone && !isValidTimezone(timezone)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Unknown timezone "${timezone}"`
+    });
+  }
+  if (!recurrenceRule) return;
+  try {
+    parseRecurrenceRule(recurrenceRule);
+  } catch (error) {
+    if (error instanceof RecurrenceParseError) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Invalid recurrence rule: ${error.message}`
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply a change to one occurrence of a recurring obligation and log it
+ * against the series
+ */
+async function updateOccurrence(
+  organizationId: number,
+  obligationId: number,
+  occurrenceAt: Date,
+  userId: number,
+  action: "UPDATED" | "STATUS_CHANGED" | "ASSIGNED" | "COMPLETED" | "CANCELLED",
+  changes: Partial<InsertObligationOccurrence>
+) {
+  const obligation = await getObligationById(obligationId, organizationId);
+  if (!obligation) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Obligation not found"
+    });
+  }
+
+  const previous = await getObligationOccurrence(obligationId, occurrenceAt, organizationId);
+  try {
+    const occurrence = await saveOccurrence(obligation, occurrenceAt, changes);
+
+    await logObligationAction({
+      organizationId,
+      obligationId,
+      action,
+      previousValue: {
+        occurrenceAt: occurrenceAt.toISOString(),
+        status: previous?.status ?? "OPEN",
+        dueAt: (previous?.dueAt ?? occurrenceAt).toISOString()
+      },
+      newValue: { occurrenceAt: occurrenceAt.toISOString(), ...changes },
+      userId,
+      systemGenerated: false
+    });
+
+    return occurrence;
+  } catch (error) {
+    if (error instanceof OccurrenceError) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: error.message
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load a calendar binding owned by the user in the active organization
+ */
+async function getOwnCalendarBinding(id: number, userId: number, organizationId: number) {
+  const binding = await getCalendarBindingById(id);
+  if (!binding || binding.userId !== userId || binding.organizationId !== organizationId) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Calendar integration not found"
+    });
+  }
+  return binding;
+}
+
 export const obligationsRouter = router({
   /**
    * Create a new obligation
@@ -145,6 +258,8 @@ export const obligationsRouter = router({
         });
       }
 
+      validateRecurrence(input.recurrenceRule, input.timezone);
+
       // Create the obligation
       const obligationId = await createObligation({
         organizationId,
@@ -275,19 +390,33 @@ export const obligationsRouter = router({
         offset: 0
       });
 
+      // Recurring obligations are listed per open occurrence, including missed ones
+      const lookback = new Date();
+      lookback.setDate(lookback.getDate() - OVERDUE_LOOKBACK_DAYS);
+      const occurrences = await expandObligations(
+        obligations.filter(isRecurring),
+        organizationId,
+        { from: lookback, to: thirtyDaysFromNow }
+      );
+      const items = [
+        ...obligations.filter(ob => !isRecurring(ob)).map(ob => ({ ...ob, occurrenceAt: null as Date | null })),
+        ...occurrences.filter(ob => ob.status === "OVERDUE" || ACTIVE_STATUSES.includes(ob.status))
+      ];
+
       // Sort by due date (nulls last), then by priority
-      return obligations.sort((a, b) => {
+      return items.sort((a, b) => {
         if (!a.dueAt && !b.dueAt) return 0;
         if (!a.dueAt) return 1;
         if (!b.dueAt) return -1;
         return new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime();
-      }).map(ob => ({
+      }).slice(0, input.limit).map(ob => ({
         id: ob.id,
         title: ob.title,
         obligationType: ob.obligationType,
         status: ob.status,
         priority: ob.priority,
         dueDate: ob.dueAt,
+        occurrenceAt: ob.occurrenceAt,
         assetName: null as string | null, // Would need join to get entity name
         assigneeCount: 0 // Would need join to get assignee count
       }));
@@ -368,6 +497,8 @@ export const obligationsRouter = router({
         });
       }
 
+      validateRecurrence(input.recurrenceRule, input.timezone);
+
       const { id, ...updates } = input;
       const success = await updateObligation(id, organizationId, updates as any);
 
@@ -449,7 +580,7 @@ export const obligationsRouter = router({
         });
       }
 
-      return await getObligationsDueSoon(organizationId, input.daysAhead);
+      return await getOccurrencesDueSoon(organizationId, input.daysAhead);
     }),
 
   /**
@@ -465,7 +596,267 @@ export const obligationsRouter = router({
         });
       }
 
-      return await getOverdueObligations(organizationId);
+      return await getOverdueOccurrences(organizationId);
+    }),
+
+  /**
+   * List occurrences of a recurring obligation within a window
+   */
+  listOccurrences: protectedProcedure
+    .input(z.object({
+      obligationId: z.number(),
+      from: z.date(),
+      to: z.date()
+    }))
+    .query(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+      if (input.to < input.from) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Window end must not be before its start"
+        });
+      }
+
+      const obligation = await getObligationById(input.obligationId, organizationId);
+      if (!obligation) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Obligation not found"
+        });
+      }
+
+      return await listOccurrences(obligation, { from: input.from, to: input.to });
+    }),
+
+  /**
+   * Mark an occurrence complete
+   */
+  completeOccurrence: protectedProcedure
+    .input(z.object({
+      obligationId: z.number(),
+      occurrenceAt: z.date(),
+      notes: z.string().optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+
+      return await updateOccurrence(organizationId, input.obligationId, input.occurrenceAt, ctx.user.id, "COMPLETED", {
+        ...occurrenceStatusUpdate("COMPLETED", ctx.user.id),
+        ...(input.notes !== undefined ? { notes: input.notes } : {})
+      });
+    }),
+
+  /**
+   * Update the status of an occurrence
+   */
+  updateOccurrenceStatus: protectedProcedure
+    .input(z.object({
+      obligationId: z.number(),
+      occurrenceAt: z.date(),
+      status: obligationStatusSchema
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+
+      return await updateOccurrence(organizationId, input.obligationId, input.occurrenceAt, ctx.user.id, "STATUS_CHANGED",
+        occurrenceStatusUpdate(input.status, ctx.user.id)
+      );
+    }),
+
+  /**
+   * Move a single occurrence to a different due date
+   */
+  rescheduleOccurrence: protectedProcedure
+    .input(z.object({
+      obligationId: z.number(),
+      occurrenceAt: z.date(),
+      dueAt: z.date(),
+      reason: z.string().optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+
+      return await updateOccurrence(organizationId, input.obligationId, input.occurrenceAt, ctx.user.id, "UPDATED", {
+        dueAt: input.dueAt,
+        exceptionType: "RESCHEDULED",
+        exceptionReason: input.reason ?? null
+      });
+    }),
+
+  /**
+   * Skip a single occurrence (e.g. a report waived for one quarter)
+   */
+  skipOccurrence: protectedProcedure
+    .input(z.object({
+      obligationId: z.number(),
+      occurrenceAt: z.date(),
+      reason: z.string().optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+
+      return await updateOccurrence(organizationId, input.obligationId, input.occurrenceAt, ctx.user.id, "CANCELLED", {
+        ...occurrenceStatusUpdate("CANCELLED"),
+        exceptionType: "SKIPPED",
+        exceptionReason: input.reason ?? null
+      });
+    }),
+
+  /**
+   * Undo a skip or reschedule, returning the occurrence to the series
+   */
+  restoreOccurrence: protectedProcedure
+    .input(z.object({
+      obligationId: z.number(),
+      occurrenceAt: z.date()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+
+      return await updateOccurrence(organizationId, input.obligationId, input.occurrenceAt, ctx.user.id, "UPDATED", {
+        ...occurrenceStatusUpdate("OPEN"),
+        dueAt: input.occurrenceAt,
+        exceptionType: null,
+        exceptionReason: null
+      });
+    }),
+
+  /**
+   * Set the assignees of one occurrence; null reverts to the series assignments
+   */
+  setOccurrenceAssignees: protectedProcedure
+    .input(z.object({
+      obligationId: z.number(),
+      occurrenceAt: z.date(),
+      assignees: z.array(z.object({
+        assigneeType: assigneeTypeSchema,
+        assigneeId: z.number(),
+        role: assignmentRoleSchema.optional().default("CONTRIBUTOR")
+      })).nullable()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+
+      return await updateOccurrence(organizationId, input.obligationId, input.occurrenceAt, ctx.user.id, "ASSIGNED", {
+        assignees: input.assignees
+      });
+    }),
+
+  /**
+   * Attach evidence to an occurrence, either an existing document or an upload
+   */
+  addOccurrenceEvidence: protectedProcedure
+    .input(z.object({
+      obligationId: z.number(),
+      occurrenceAt: z.date(),
+      documentId: z.number().optional(),
+      file: z.object({
+        fileName: z.string().min(1).max(500),
+        fileData: z.string(), // base64 encoded
+        mimeType: z.string().max(100)
+      }).optional(),
+      note: z.string().optional()
+    }).refine(input => Boolean(input.documentId) !== Boolean(input.file), {
+      message: "Provide either a document or a file"
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+
+      // Evidence hangs off the occurrence row, so make sure it exists
+      const occurrence = await getObligationOccurrence(input.obligationId, input.occurrenceAt, organizationId)
+        ?? await updateOccurrence(organizationId, input.obligationId, input.occurrenceAt, ctx.user.id, "UPDATED", {});
+
+      let upload: { fileUrl: string; fileKey: string; fileName: string; mimeType: string } | null = null;
+      if (input.file) {
+        const { storagePut } = await import("../storage");
+        const buffer = Buffer.from(input.file.fileData, "base64");
+        const randomSuffix = Math.random().toString(36).substring(2, 8);
+        const fileKey = `obligations/${organizationId}/${input.obligationId}/evidence/${Date.now()}-${randomSuffix}-${input.file.fileName}`;
+        const { url, key } = await storagePut(fileKey, buffer, input.file.mimeType);
+        upload = { fileUrl: url, fileKey: key, fileName: input.file.fileName, mimeType: input.file.mimeType };
+      }
+
+      const evidenceId = await addObligationOccurrenceEvidence({
+        organizationId,
+        occurrenceId: occurrence.id,
+        documentId: input.documentId ?? null,
+        ...upload,
+        note: input.note,
+        uploadedByUserId: ctx.user.id
+      });
+
+      return { id: evidenceId, occurrenceId: occurrence.id };
+    }),
+
+  /**
+   * Get evidence attached to an occurrence
+   */
+  getOccurrenceEvidence: protectedProcedure
+    .input(z.object({
+      obligationId: z.number(),
+      occurrenceAt: z.date()
+    }))
+    .query(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+
+      const occurrence = await getObligationOccurrence(input.obligationId, input.occurrenceAt, organizationId);
+      if (!occurrence) return [];
+
+      return await getObligationOccurrenceEvidence(occurrence.id, organizationId);
     }),
 
   /**
@@ -919,16 +1310,17 @@ export const obligationsRouter = router({
           message: "No active organization selected"
         });
       }
-      // Calendar integrations are created when a user connects via OAuth (Google Calendar / Outlook)
-      // No integrations table yet — return empty until OAuth calendar flow is implemented
-      return [] as Array<{
-        id: number;
-        calendarName: string | null;
-        provider: string;
-        lastSyncAt: Date | null;
-        lastSyncError: string | null;
-        syncEnabled: boolean;
-      }>;
+      const bindings = await getCalendarBindingsForUser(ctx.user.id, organizationId);
+      return bindings.map(binding => ({
+        id: binding.id,
+        calendarName: binding.calendarName,
+        provider: binding.provider,
+        status: binding.status,
+        lastSyncAt: binding.lastSyncAt,
+        lastSyncError: binding.lastError,
+        syncEnabled: binding.syncEnabled ?? true,
+        conflictPolicy: binding.conflictPolicy
+      }));
     }),
 
   /**
@@ -947,8 +1339,182 @@ export const obligationsRouter = router({
           message: "No active organization selected"
         });
       }
-      // Calendar integration toggle — no-op until calendar OAuth integration is implemented
-      console.log(`[Obligations] Calendar integration ${input.id} sync set to ${input.syncEnabled} (pending OAuth implementation)`);
+      await getOwnCalendarBinding(input.id, ctx.user.id, organizationId);
+      await updateCalendarBinding(input.id, { syncEnabled: input.syncEnabled });
+      return { success: true };
+    }),
+
+  /**
+   * Choose which side wins when an event changed in both KIISHA and the calendar
+   */
+  setCalendarConflictPolicy: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      conflictPolicy: z.enum(["kiisha_wins", "calendar_wins", "manual"])
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+      await getOwnCalendarBinding(input.id, ctx.user.id, organizationId);
+      await updateCalendarBinding(input.id, { conflictPolicy: input.conflictPolicy });
+      return { success: true };
+    }),
+
+  /**
+   * Run a two-way sync for a calendar integration now
+   */
+  syncCalendarIntegration: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+      const binding = await getOwnCalendarBinding(input.id, ctx.user.id, organizationId);
+      if (binding.status !== "active") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Calendar integration is ${binding.status}; reconnect it before syncing`
+        });
+      }
+      return syncCalendarBinding(binding);
+    }),
+
+  /**
+   * List sync conflicts waiting for manual review on the user's calendars
+   */
+  listCalendarConflicts: protectedProcedure
+    .query(async ({ ctx }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+      const bindings = await getCalendarBindingsForUser(ctx.user.id, organizationId);
+      if (bindings.length === 0) return [];
+
+      const conflicts = await listOpenCalendarSyncConflicts(organizationId, bindings.map(b => b.id));
+      return Promise.all(conflicts.map(async conflict => {
+        const obligation = await getObligationById(conflict.obligationId, organizationId);
+        const binding = bindings.find(b => b.id === conflict.bindingId);
+        return {
+          ...conflict,
+          obligationTitle: obligation?.title ?? null,
+          provider: binding?.provider ?? null,
+          calendarName: binding?.calendarName ?? null
+        };
+      }));
+    }),
+
+  /**
+   * Resolve a sync conflict by keeping KIISHA's version, the calendar's, or neither
+   */
+  resolveCalendarConflict: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      resolution: z.enum(["kiisha", "calendar", "dismiss"])
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+      const conflict = await getCalendarSyncConflictById(input.id, organizationId);
+      if (!conflict) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Calendar conflict not found" });
+      }
+      await getOwnCalendarBinding(conflict.bindingId, ctx.user.id, organizationId);
+      if (conflict.status !== "open") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Calendar conflict is already resolved" });
+      }
+
+      try {
+        await resolveCalendarConflict(conflict, input.resolution, ctx.user.id);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to resolve calendar conflict"
+        });
+      }
+      return { success: true };
+    }),
+
+  /**
+   * Create an ICS/CalDAV subscription for the user's obligations or a view.
+   * The token is only returned once.
+   */
+  createCalendarFeed: protectedProcedure
+    .input(z.object({
+      scope: z.enum(["user", "view"]),
+      viewId: z.number().optional(),
+      name: z.string().max(200).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+      if (input.scope === "view" && !input.viewId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "A view is required for a view feed" });
+      }
+      return createCalendarFeed({
+        organizationId,
+        userId: ctx.user.id,
+        scope: input.scope,
+        viewId: input.viewId,
+        name: input.name
+      });
+    }),
+
+  /**
+   * List the user's calendar subscriptions (without tokens)
+   */
+  listCalendarFeeds: protectedProcedure
+    .query(async ({ ctx }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+      const feeds = await listCalendarFeedTokens(ctx.user.id, organizationId);
+      return feeds.map(({ tokenHash: _tokenHash, ...feed }) => feed);
+    }),
+
+  /**
+   * Revoke a calendar subscription; its ICS URL and CalDAV password stop working
+   */
+  revokeCalendarFeed: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.user.activeOrgId;
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No active organization selected"
+        });
+      }
+      const revoked = await revokeCalendarFeedToken(input.id, ctx.user.id, organizationId);
+      if (!revoked) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Calendar feed not found" });
+      }
       return { success: true };
     }),
 
@@ -0,0 +1,268 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure, adminProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { customerProjects, customers, invoiceLineItems, invoices, ppaBillingRuns, ppaTariffs } from "../../drizzle/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { isValidTimezone } from "../services/cronExpression";
+import {
+  PpaBillingError,
+  approvePpaBillingRun,
+  generatePpaInvoice,
+  previewPpaCharges,
+  runPpaBilling,
+} from "../services/ppaBilling";
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+  return db;
+}
+
+function toBillingError(error: unknown): TRPCError {
+  if (error instanceof PpaBillingError) {
+    return new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new TRPCError({ code: "INTERNAL_SERVER_ERROR", message });
+}
+
+async function getOrgCustomerProject(orgId: number, customerProjectId: number) {
+  const db = await requireDb();
+  const [row] = await db.select({ link: customerProjects })
+    .from(customerProjects)
+    .innerJoin(customers, eq(customers.id, customerProjects.customerId))
+    .where(and(eq(customerProjects.id, customerProjectId), eq(customers.organizationId, orgId)))
+    .limit(1);
+  if (!row) throw new TRPCError({ code: "NOT_FOUND", message: "Customer project not found" });
+  return row.link;
+}
+
+async function getOrgTariff(orgId: number, tariffId: number) {
+  const db = await requireDb();
+  const [tariff] = await db.select()
+    .from(ppaTariffs)
+    .where(and(eq(ppaTariffs.id, tariffId), eq(ppaTariffs.organizationId, orgId)))
+    .limit(1);
+  if (!tariff) throw new TRPCError({ code: "NOT_FOUND", message: "Tariff not found" });
+  return tariff;
+}
+
+const rateSchema = z.number().min(0).max(1_000_000); // cents per kWh
+
+const touBlockSchema = z.object({
+  name: z.string().min(1).max(50),
+  rateCents: rateSchema,
+  startHour: z.number().int().min(0).max(23),
+  endHour: z.number().int().min(0).max(24),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+  months: z.array(z.number().int().min(1).max(12)).optional(),
+});
+
+const tariffSchema = z.object({
+  name: z.string().min(1).max(255),
+  tariffType: z.enum(["flat", "time_of_use"]),
+  energyRateCents: rateSchema,
+  touBlocks: z.array(touBlockSchema).max(24).default([]),
+  timezone: z.string().default("UTC"),
+  currency: z.string().length(3).default("USD"),
+  escalationPercent: z.number().min(-50).max(100).default(0),
+  escalationStartDate: z.string().nullable().default(null),
+  minimumAnnualKwh: z.number().positive().nullable().default(null),
+  shortfallRateCents: rateSchema.nullable().default(null),
+  excessThresholdAnnualKwh: z.number().positive().nullable().default(null),
+  excessRateCents: rateSchema.nullable().default(null),
+  meterDevices: z.array(z.object({
+    source: z.enum(["measurements", "inverter_api"]),
+    deviceId: z.number(),
+  })).max(50).default([]),
+  meterMetricCode: z.string().min(1).max(100).default("total_energy_kwh"),
+  taxRate: z.number().min(0).max(100).default(0),
+  effectiveFrom: z.string(),
+  effectiveTo: z.string().nullable().default(null),
+});
+
+function tariffValues(input: z.infer<typeof tariffSchema>) {
+  if (!isValidTimezone(input.timezone)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Unknown timezone "${input.timezone}"` });
+  }
+  if (input.tariffType === "time_of_use" && input.touBlocks.length === 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Time-of-use tariffs need at least one block" });
+  }
+  if ((input.excessThresholdAnnualKwh === null) !== (input.excessRateCents === null)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Excess threshold and excess rate must be set together" });
+  }
+  const effectiveFrom = new Date(input.effectiveFrom);
+  const effectiveTo = input.effectiveTo ? new Date(input.effectiveTo) : null;
+  if (effectiveTo && effectiveTo <= effectiveFrom) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Tariff must end after it starts" });
+  }
+  const decimal = (value: number | null, digits: number) => (value === null ? null : value.toFixed(digits));
+
+  return {
+    name: input.name,
+    tariffType: input.tariffType,
+    energyRateCents: input.energyRateCents.toFixed(4),
+    touBlocks: input.tariffType === "time_of_use" ? input.touBlocks : null,
+    timezone: input.timezone,
+    currency: input.currency.toUpperCase(),
+    escalationPercent: input.escalationPercent.toFixed(3),
+    escalationStartDate: input.escalationStartDate ? new Date(input.escalationStartDate) : null,
+    minimumAnnualKwh: decimal(input.minimumAnnualKwh, 2),
+    shortfallRateCents: decimal(input.shortfallRateCents, 4),
+    excessThresholdAnnualKwh: decimal(input.excessThresholdAnnualKwh, 2),
+    excessRateCents: decimal(input.excessRateCents, 4),
+    meterDevices: input.meterDevices.length ? input.meterDevices : null,
+    meterMetricCode: input.meterMetricCode,
+    taxRate: input.taxRate.toFixed(2),
+    effectiveFrom,
+    effectiveTo,
+  };
+}
+
+/**
+ * PPA Billing Router
+ *
+ * Per-kWh tariffs on customer projects, metered billing runs and the
+ * review/approve flow for the draft invoices they produce.
+ */
+export const ppaBillingRouter = router({
+  listTariffs: protectedProcedure
+    .input(z.object({ orgId: z.number(), customerProjectId: z.number().optional() }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const conditions = [eq(ppaTariffs.organizationId, input.orgId)];
+      if (input.customerProjectId) conditions.push(eq(ppaTariffs.customerProjectId, input.customerProjectId));
+      return db.select().from(ppaTariffs).where(and(...conditions)).orderBy(desc(ppaTariffs.effectiveFrom));
+    }),
+
+  createTariff: protectedProcedure
+    .input(tariffSchema.extend({ orgId: z.number(), customerProjectId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const link = await getOrgCustomerProject(input.orgId, input.customerProjectId);
+      const db = await requireDb();
+      const [result] = await db.insert(ppaTariffs).values({
+        organizationId: input.orgId,
+        customerProjectId: link.id,
+        createdBy: ctx.user.id,
+        ...tariffValues(input),
+      });
+      return { id: Number(result.insertId) };
+    }),
+
+  updateTariff: protectedProcedure
+    .input(tariffSchema.extend({ orgId: z.number(), id: z.number() }))
+    .mutation(async ({ input }) => {
+      const tariff = await getOrgTariff(input.orgId, input.id);
+      const db = await requireDb();
+      await db.update(ppaTariffs).set(tariffValues(input)).where(eq(ppaTariffs.id, tariff.id));
+      return { success: true };
+    }),
+
+  setTariffStatus: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number(), status: z.enum(["active", "inactive"]) }))
+    .mutation(async ({ input }) => {
+      const tariff = await getOrgTariff(input.orgId, input.id);
+      const db = await requireDb();
+      await db.update(ppaTariffs).set({ status: input.status }).where(eq(ppaTariffs.id, tariff.id));
+      return { success: true };
+    }),
+
+  previewCharges: protectedProcedure
+    .input(z.object({ orgId: z.number(), tariffId: z.number(), periodDate: z.string() }))
+    .query(async ({ input }) => {
+      const tariff = await getOrgTariff(input.orgId, input.tariffId);
+      try {
+        const preview = await previewPpaCharges(tariff.id, new Date(input.periodDate));
+        return {
+          period: preview.period,
+          charges: preview.charges,
+          deliveredKwh: preview.deliveredKwh,
+          readings: preview.readings,
+          missingHours: preview.missingHours,
+        };
+      } catch (error) {
+        throw toBillingError(error);
+      }
+    }),
+
+  generateInvoice: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      tariffId: z.number(),
+      periodDate: z.string(),
+      regenerate: z.boolean().default(false),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const tariff = await getOrgTariff(input.orgId, input.tariffId);
+      try {
+        return await generatePpaInvoice(tariff.id, new Date(input.periodDate), {
+          userId: ctx.user.id,
+          regenerate: input.regenerate,
+        });
+      } catch (error) {
+        throw toBillingError(error);
+      }
+    }),
+
+  listRuns: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      tariffId: z.number().optional(),
+      status: z.enum(["draft", "failed", "issued"]).optional(),
+      limit: z.number().min(1).max(200).default(50),
+    }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const conditions = [eq(ppaBillingRuns.organizationId, input.orgId)];
+      if (input.tariffId) conditions.push(eq(ppaBillingRuns.tariffId, input.tariffId));
+      if (input.status) conditions.push(eq(ppaBillingRuns.status, input.status));
+      return db.select()
+        .from(ppaBillingRuns)
+        .where(and(...conditions))
+        .orderBy(desc(ppaBillingRuns.periodStart))
+        .limit(input.limit);
+    }),
+
+  getRun: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const [run] = await db.select()
+        .from(ppaBillingRuns)
+        .where(and(eq(ppaBillingRuns.id, input.id), eq(ppaBillingRuns.organizationId, input.orgId)))
+        .limit(1);
+      if (!run) throw new TRPCError({ code: "NOT_FOUND", message: "Billing run not found" });
+
+      if (!run.invoiceId) return { run, invoice: null, lineItems: [] };
+      const [invoice] = await db.select().from(invoices).where(eq(invoices.id, run.invoiceId)).limit(1);
+      const lineItems = await db.select()
+        .from(invoiceLineItems)
+        .where(eq(invoiceLineItems.invoiceId, run.invoiceId))
+        .orderBy(invoiceLineItems.sortOrder);
+      return { run, invoice: invoice ?? null, lineItems };
+    }),
+
+  approveRun: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      const [run] = await db.select({ id: ppaBillingRuns.id })
+        .from(ppaBillingRuns)
+        .where(and(eq(ppaBillingRuns.id, input.id), eq(ppaBillingRuns.organizationId, input.orgId)))
+        .limit(1);
+      if (!run) throw new TRPCError({ code: "NOT_FOUND", message: "Billing run not found" });
+
+      try {
+        await approvePpaBillingRun(run.id);
+      } catch (error) {
+        throw toBillingError(error);
+      }
+      return { success: true };
+    }),
+
+  runNow: adminProcedure
+    .mutation(async () => {
+      return runPpaBilling();
+    }),
+});
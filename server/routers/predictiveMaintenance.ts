@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure, adminProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { maintenancePredictions, predictiveBaselines, predictiveDetectorConfigs } from "../../drizzle/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { DEFAULT_DETECTOR_PARAMS, predictiveMaintenanceService } from "../services/predictiveMaintenance";
+
+const detectorTypeSchema = z.enum(["ewma", "seasonal_residual", "peer_comparison"]);
+const severitySchema = z.enum(["critical", "high", "medium", "low", "info"]);
+
+const paramsSchema = z.object({
+  threshold: z.number().positive().optional(),
+  minSamples: z.number().int().min(1).optional(),
+  alpha: z.number().gt(0).lt(1).optional(),
+  minIrradiance: z.number().min(0).optional(),
+  irradianceMetric: z.string().max(100).optional(),
+  utcOffsetHours: z.number().min(-12).max(14).optional(),
+  failureRatio: z.number().gt(0).lt(1).optional(),
+  lowerOnly: z.boolean().optional(),
+});
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+  return db;
+}
+
+async function getOrgPrediction(orgId: number, predictionId: number) {
+  const db = await requireDb();
+  const [prediction] = await db.select()
+    .from(maintenancePredictions)
+    .where(and(eq(maintenancePredictions.id, predictionId), eq(maintenancePredictions.organizationId, orgId)))
+    .limit(1);
+  if (!prediction) throw new TRPCError({ code: "NOT_FOUND", message: "Prediction not found" });
+  return prediction;
+}
+
+/**
+ * Predictive Maintenance Router
+ *
+ * Detector configuration, prediction review and baseline management.
+ */
+export const predictiveMaintenanceRouter = router({
+  listDetectors: protectedProcedure
+    .input(z.object({ orgId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const detectors = await db.select()
+        .from(predictiveDetectorConfigs)
+        .where(eq(predictiveDetectorConfigs.organizationId, input.orgId))
+        .orderBy(predictiveDetectorConfigs.name);
+      return { detectors, defaults: DEFAULT_DETECTOR_PARAMS };
+    }),
+
+  saveDetector: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      id: z.number().optional(),
+      siteId: z.number().nullable().default(null),
+      name: z.string().min(1).max(255),
+      detectorType: detectorTypeSchema,
+      metricCode: z.string().min(1).max(100),
+      params: paramsSchema.default({}),
+      severity: severitySchema.default("medium"),
+      confirmationCount: z.number().int().min(1).max(1000).default(3),
+      autoCreateWorkOrder: z.boolean().default(true),
+      enabled: z.boolean().default(true),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+      const { orgId, id, ...values } = input;
+
+      if (id) {
+        const [existing] = await db.select()
+          .from(predictiveDetectorConfigs)
+          .where(and(eq(predictiveDetectorConfigs.id, id), eq(predictiveDetectorConfigs.organizationId, orgId)))
+          .limit(1);
+        if (!existing) throw new TRPCError({ code: "NOT_FOUND", message: "Detector not found" });
+
+        await db.update(predictiveDetectorConfigs).set(values).where(eq(predictiveDetectorConfigs.id, id));
+
+        // A different model or metric invalidates what was learned
+        if (existing.detectorType !== values.detectorType || existing.metricCode !== values.metricCode) {
+          await predictiveMaintenanceService.resetBaseline(id);
+        }
+        return { id };
+      }
+
+      const [result] = await db.insert(predictiveDetectorConfigs).values({
+        ...values,
+        organizationId: orgId,
+        createdBy: ctx.user.id,
+      });
+      return { id: Number(result.insertId) };
+    }),
+
+  deleteDetector: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      const [existing] = await db.select({ id: predictiveDetectorConfigs.id })
+        .from(predictiveDetectorConfigs)
+        .where(and(eq(predictiveDetectorConfigs.id, input.id), eq(predictiveDetectorConfigs.organizationId, input.orgId)))
+        .limit(1);
+      if (!existing) throw new TRPCError({ code: "NOT_FOUND", message: "Detector not found" });
+
+      await predictiveMaintenanceService.resetBaseline(input.id);
+      await db.delete(predictiveDetectorConfigs).where(eq(predictiveDetectorConfigs.id, input.id));
+      return { success: true };
+    }),
+
+  listPredictions: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      siteId: z.number().optional(),
+      deviceId: z.number().optional(),
+      statuses: z.array(z.enum(["candidate", "confirmed", "dismissed", "cleared"])).default(["candidate", "confirmed"]),
+      limit: z.number().int().min(1).max(500).default(100),
+    }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const conditions = [
+        eq(maintenancePredictions.organizationId, input.orgId),
+        inArray(maintenancePredictions.status, input.statuses),
+      ];
+      if (input.siteId) conditions.push(eq(maintenancePredictions.siteId, input.siteId));
+      if (input.deviceId) conditions.push(eq(maintenancePredictions.deviceId, input.deviceId));
+
+      return db.select()
+        .from(maintenancePredictions)
+        .where(and(...conditions))
+        .orderBy(desc(maintenancePredictions.lastDetectedAt))
+        .limit(input.limit);
+    }),
+
+  confirmPrediction: protectedProcedure
+    .input(z.object({ orgId: z.number(), predictionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const prediction = await getOrgPrediction(input.orgId, input.predictionId);
+      if (prediction.status === "dismissed" || prediction.status === "cleared") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Prediction is already ${prediction.status}` });
+      }
+      return predictiveMaintenanceService.confirmPrediction(prediction.id, ctx.user.id);
+    }),
+
+  dismissPrediction: protectedProcedure
+    .input(z.object({ orgId: z.number(), predictionId: z.number(), note: z.string().max(2000).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const prediction = await getOrgPrediction(input.orgId, input.predictionId);
+      await predictiveMaintenanceService.dismissPrediction(prediction.id, ctx.user.id, input.note);
+      return { success: true };
+    }),
+
+  resetBaseline: protectedProcedure
+    .input(z.object({ orgId: z.number(), detectorId: z.number(), deviceId: z.number().optional() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      const [existing] = await db.select({ id: predictiveDetectorConfigs.id })
+        .from(predictiveDetectorConfigs)
+        .where(and(eq(predictiveDetectorConfigs.id, input.detectorId), eq(predictiveDetectorConfigs.organizationId, input.orgId)))
+        .limit(1);
+      if (!existing) throw new TRPCError({ code: "NOT_FOUND", message: "Detector not found" });
+
+      await predictiveMaintenanceService.resetBaseline(input.detectorId, input.deviceId);
+      return { success: true };
+    }),
+
+  getBaselines: protectedProcedure
+    .input(z.object({ orgId: z.number(), detectorId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      return db.select({
+        deviceId: predictiveBaselines.deviceId,
+        sampleCount: predictiveBaselines.sampleCount,
+        lastValueAt: predictiveBaselines.lastValueAt,
+        updatedAt: predictiveBaselines.updatedAt,
+      })
+        .from(predictiveBaselines)
+        .where(and(
+          eq(predictiveBaselines.organizationId, input.orgId),
+          eq(predictiveBaselines.detectorConfigId, input.detectorId)
+        ));
+    }),
+
+  runNow: adminProcedure
+    .mutation(async () => {
+      return predictiveMaintenanceService.run();
+    }),
+});
@@ -24,6 +24,7 @@ import {
   setJobEnabled, 
   updateJobSchedule 
 } from "../services/cronScheduler";
+import { CronParseError } from "../services/cronExpression";
 
 export const scheduledJobsRouter = router({
   // List all registered jobs
@@ -35,6 +36,8 @@ export const scheduledJobsRouter = router({
         name: job.name,
         description: job.description,
         cronExpression: job.cronExpression,
+        timezone: job.timezone,
+        catchUpPolicy: job.catchUpPolicy,
         isEnabled: job.isEnabled,
         lastRunAt: job.lastRunAt,
         lastRunStatus: job.lastRunStatus,
@@ -56,6 +59,8 @@ export const scheduledJobsRouter = router({
         name: job.name,
         description: job.description,
         cronExpression: job.cronExpression,
+        timezone: job.timezone,
+        catchUpPolicy: job.catchUpPolicy,
         isEnabled: job.isEnabled,
         lastRunAt: job.lastRunAt,
         lastRunStatus: job.lastRunStatus,
@@ -123,12 +128,16 @@ export const scheduledJobsRouter = router({
     .input(z.object({
       jobId: z.string(),
       cronExpression: z.string(),
+      timezone: z.string().optional(),
     }))
     .mutation(async ({ input }) => {
       try {
-        updateJobSchedule(input.jobId, input.cronExpression);
+        updateJobSchedule(input.jobId, input.cronExpression, input.timezone);
         return { success: true };
       } catch (error) {
+        if (error instanceof CronParseError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
           message: error instanceof Error ? error.message : "Failed to update schedule",
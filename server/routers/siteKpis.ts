@@ -0,0 +1,192 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure, adminProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { availabilityExclusions, siteKpiSettings, sites } from "../../drizzle/schema";
+import { and, eq } from "drizzle-orm";
+import {
+  DEFAULT_KPI_SETTINGS,
+  KPI_METRIC_CODES,
+  calculateSiteKpis,
+  getAvailabilityExclusions,
+  getSiteKpis,
+  kpiPeriodBounds,
+  runSiteKpis,
+  summarizeKpis,
+} from "../services/siteKpis";
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+  return db;
+}
+
+async function getOrgSite(orgId: number, siteId: number) {
+  const db = await requireDb();
+  const [site] = await db.select()
+    .from(sites)
+    .where(and(eq(sites.id, siteId), eq(sites.organizationId, orgId)))
+    .limit(1);
+  if (!site) throw new TRPCError({ code: "NOT_FOUND", message: "Site not found" });
+  return site;
+}
+
+const periodTypeSchema = z.enum(["day", "month"]);
+
+/**
+ * Site KPIs Router
+ *
+ * Performance ratio / availability settings, contractual exclusions,
+ * stored KPI series and on-demand recalculation.
+ */
+export const siteKpisRouter = router({
+  getSettings: protectedProcedure
+    .input(z.object({ orgId: z.number(), siteId: z.number() }))
+    .query(async ({ input }) => {
+      const site = await getOrgSite(input.orgId, input.siteId);
+      const db = await requireDb();
+      const [row] = await db.select().from(siteKpiSettings).where(eq(siteKpiSettings.siteId, site.id)).limit(1);
+
+      return {
+        dcCapacityKwp: row?.dcCapacityKwp ? parseFloat(row.dcCapacityKwp) : null,
+        siteCapacityKw: site.capacityKw ? parseFloat(site.capacityKw) : null,
+        temperatureCoefficient: row ? parseFloat(row.temperatureCoefficient) : DEFAULT_KPI_SETTINGS.temperatureCoefficient,
+        referenceTemperatureC: row ? parseFloat(row.referenceTemperatureC) : DEFAULT_KPI_SETTINGS.referenceTemperatureC,
+        availabilityIrradianceThreshold: row ? parseFloat(row.availabilityIrradianceThreshold) : DEFAULT_KPI_SETTINGS.availabilityIrradianceThreshold,
+        irradianceMetricCode: row?.irradianceMetricCode ?? DEFAULT_KPI_SETTINGS.irradianceMetricCode,
+        isDefault: !row,
+      };
+    }),
+
+  saveSettings: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      siteId: z.number(),
+      dcCapacityKwp: z.number().positive().nullable(),
+      temperatureCoefficient: z.number().min(-0.02).max(0),
+      referenceTemperatureC: z.number().min(-40).max(100).default(25),
+      availabilityIrradianceThreshold: z.number().min(0).max(1000),
+      irradianceMetricCode: z.string().min(1).max(100).default("irradiance"),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const site = await getOrgSite(input.orgId, input.siteId);
+      const db = await requireDb();
+
+      const values = {
+        dcCapacityKwp: input.dcCapacityKwp === null ? null : input.dcCapacityKwp.toFixed(2),
+        temperatureCoefficient: input.temperatureCoefficient.toFixed(6),
+        referenceTemperatureC: input.referenceTemperatureC.toFixed(2),
+        availabilityIrradianceThreshold: input.availabilityIrradianceThreshold.toFixed(2),
+        irradianceMetricCode: input.irradianceMetricCode,
+        updatedBy: ctx.user.id,
+      };
+
+      await db.insert(siteKpiSettings)
+        .values({ organizationId: input.orgId, siteId: site.id, ...values })
+        .onDuplicateKeyUpdate({ set: values });
+      return { success: true };
+    }),
+
+  listExclusions: protectedProcedure
+    .input(z.object({ orgId: z.number(), siteId: z.number(), from: z.string().optional(), to: z.string().optional() }))
+    .query(async ({ input }) => {
+      const site = await getOrgSite(input.orgId, input.siteId);
+      return getAvailabilityExclusions(
+        site.id,
+        input.from ? new Date(input.from) : undefined,
+        input.to ? new Date(input.to) : undefined
+      );
+    }),
+
+  addExclusion: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      siteId: z.number(),
+      deviceId: z.number().nullable().default(null),
+      reason: z.enum(["grid_outage", "curtailment", "force_majeure", "scheduled_maintenance", "other"]),
+      startAt: z.string(),
+      endAt: z.string(),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const site = await getOrgSite(input.orgId, input.siteId);
+      const startAt = new Date(input.startAt);
+      const endAt = new Date(input.endAt);
+      if (!(endAt > startAt)) throw new TRPCError({ code: "BAD_REQUEST", message: "Exclusion must end after it starts" });
+
+      const db = await requireDb();
+      const [result] = await db.insert(availabilityExclusions).values({
+        organizationId: input.orgId,
+        siteId: site.id,
+        deviceId: input.deviceId,
+        reason: input.reason,
+        startAt,
+        endAt,
+        notes: input.notes,
+        createdBy: ctx.user.id,
+      });
+      return { id: Number(result.insertId) };
+    }),
+
+  deleteExclusion: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      await db.delete(availabilityExclusions)
+        .where(and(eq(availabilityExclusions.id, input.id), eq(availabilityExclusions.organizationId, input.orgId)));
+      return { success: true };
+    }),
+
+  getKpis: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      siteIds: z.array(z.number()).min(1).max(200),
+      periodType: periodTypeSchema.default("day"),
+      from: z.string(),
+      to: z.string(),
+      metricCodes: z.array(z.enum(KPI_METRIC_CODES)).optional(),
+    }))
+    .query(async ({ input }) => {
+      for (const siteId of input.siteIds) await getOrgSite(input.orgId, siteId);
+      const points = await getSiteKpis({
+        siteIds: input.siteIds,
+        periodType: input.periodType,
+        from: new Date(input.from),
+        to: new Date(input.to),
+        metricCodes: input.metricCodes,
+      });
+      return { points, summary: summarizeKpis(points) };
+    }),
+
+  recalculate: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      siteId: z.number(),
+      from: z.string(),
+      to: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      const site = await getOrgSite(input.orgId, input.siteId);
+      const from = kpiPeriodBounds(new Date(input.from), "day").start;
+      const to = new Date(input.to);
+      if (to.getTime() - from.getTime() > 366 * 86400_000) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Recalculate at most one year at a time" });
+      }
+
+      let days = 0;
+      const months = new Map<number, Date>();
+      for (let day = from; day < to; day = new Date(day.getTime() + 86400_000)) {
+        if (await calculateSiteKpis(site.id, day, "day")) days++;
+        const month = kpiPeriodBounds(day, "month").start;
+        months.set(month.getTime(), month);
+      }
+      for (const month of Array.from(months.values())) await calculateSiteKpis(site.id, month, "month");
+
+      return { days, months: months.size };
+    }),
+
+  runNow: adminProcedure
+    .mutation(async () => {
+      return runSiteKpis();
+    }),
+});
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { sites, sparkplugEdgeNodes } from "../../drizzle/schema";
+import { and, eq, desc } from "drizzle-orm";
+import { getSparkplugSession } from "../services/sparkplugIngestion";
+
+/**
+ * Sparkplug B Router
+ *
+ * Edge nodes register themselves on first birth; an admin maps each one to
+ * a site to start ingesting its metrics.
+ */
+export const sparkplugRouter = router({
+  listEdgeNodes: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      status: z.enum(["pending", "active", "ignored"]).optional(),
+    }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const conditions = [eq(sparkplugEdgeNodes.organizationId, input.orgId)];
+      if (input.status) conditions.push(eq(sparkplugEdgeNodes.status, input.status));
+
+      const nodes = await db.select()
+        .from(sparkplugEdgeNodes)
+        .where(and(...conditions))
+        .orderBy(desc(sparkplugEdgeNodes.lastMessageAt));
+
+      // Overlay live session state when this instance holds the broker connection
+      const session = getSparkplugSession(input.orgId);
+      return nodes.map(node => {
+        const live = session?.tracker.getNodeState(node.groupId, node.edgeNodeId);
+        return {
+          ...node,
+          online: live ? live.online : node.online,
+          lastSeq: live?.lastSeq ?? null,
+        };
+      });
+    }),
+
+  assignSite: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      id: z.number(),
+      siteId: z.number().nullable(),
+      status: z.enum(["pending", "active", "ignored"]).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [node] = await db.select()
+        .from(sparkplugEdgeNodes)
+        .where(and(eq(sparkplugEdgeNodes.id, input.id), eq(sparkplugEdgeNodes.organizationId, input.orgId)))
+        .limit(1);
+      if (!node) throw new TRPCError({ code: "NOT_FOUND", message: "Edge node not found" });
+
+      if (input.siteId) {
+        const [site] = await db.select({ id: sites.id, organizationId: sites.organizationId })
+          .from(sites)
+          .where(eq(sites.id, input.siteId))
+          .limit(1);
+        if (!site || (site.organizationId && site.organizationId !== input.orgId)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Site not found" });
+        }
+      }
+
+      const status = input.status ?? (input.siteId ? "active" : "pending");
+      await db.update(sparkplugEdgeNodes)
+        .set({ siteId: input.siteId, status })
+        .where(eq(sparkplugEdgeNodes.id, node.id));
+
+      const session = getSparkplugSession(input.orgId);
+      if (session) {
+        session.service.invalidate(node.groupId, node.edgeNodeId);
+        // Get fresh birth certificates so metric names resolve immediately
+        if (status === "active") {
+          session.client.requestRebirth(node.groupId, node.edgeNodeId).catch(err =>
+            console.error("[Sparkplug] Rebirth request failed:", err)
+          );
+        }
+      }
+
+      return { success: true, status };
+    }),
+});
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { customers, invoices, taxCodeAssignments, taxCodes } from "../../drizzle/schema";
+import { and, asc, eq } from "drizzle-orm";
+import {
+  TaxEngineError,
+  applyInvoiceTaxes,
+  generateTaxSummaryCSV,
+  getTaxSummary,
+} from "../services/taxEngine";
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+  return db;
+}
+
+function toTaxError(error: unknown): TRPCError {
+  if (error instanceof TaxEngineError) {
+    return new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new TRPCError({ code: "INTERNAL_SERVER_ERROR", message });
+}
+
+async function getOrgTaxCode(orgId: number, id: number) {
+  const db = await requireDb();
+  const [code] = await db.select()
+    .from(taxCodes)
+    .where(and(eq(taxCodes.id, id), eq(taxCodes.organizationId, orgId)))
+    .limit(1);
+  if (!code) throw new TRPCError({ code: "NOT_FOUND", message: "Tax code not found" });
+  return code;
+}
+
+const taxCodeSchema = z.object({
+  code: z.string().min(1).max(50),
+  name: z.string().min(1).max(255),
+  jurisdiction: z.string().min(2).max(50),
+  taxName: z.string().min(1).max(20).transform(t => t.toUpperCase()),
+  kind: z.enum(["standard", "zero_rated", "exempt", "reverse_charge", "withholding"]),
+  rate: z.number().min(0).max(100),
+  roundingMode: z.enum(["half_up", "half_even", "up", "down"]).default("half_up"),
+  legalNote: z.string().max(1000).nullable().default(null),
+  filingCategory: z.string().max(100).nullable().default(null),
+  isDefault: z.boolean().default(false),
+});
+
+/**
+ * Taxes Router
+ *
+ * Org tax codes, their assignment to customers and product lines, invoice
+ * recalculation and the periodic summary used for filings.
+ */
+export const taxesRouter = router({
+  listCodes: protectedProcedure
+    .input(z.object({ orgId: z.number(), includeInactive: z.boolean().default(false) }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const conditions = [eq(taxCodes.organizationId, input.orgId)];
+      if (!input.includeInactive) conditions.push(eq(taxCodes.isActive, true));
+      return db.select().from(taxCodes).where(and(...conditions)).orderBy(asc(taxCodes.taxName), asc(taxCodes.code));
+    }),
+
+  // Create, or update when `id` is given
+  saveCode: protectedProcedure
+    .input(taxCodeSchema.extend({ orgId: z.number(), id: z.number().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+      const { orgId, id, ...fields } = input;
+      const values = { ...fields, rate: fields.rate.toFixed(3) };
+
+      // Only one default per tax family
+      if (values.isDefault) {
+        await db.update(taxCodes)
+          .set({ isDefault: false })
+          .where(and(eq(taxCodes.organizationId, orgId), eq(taxCodes.taxName, values.taxName)));
+      }
+
+      if (id) {
+        const code = await getOrgTaxCode(orgId, id);
+        await db.update(taxCodes).set(values).where(eq(taxCodes.id, code.id));
+        return { id: code.id };
+      }
+
+      const [existing] = await db.select({ id: taxCodes.id })
+        .from(taxCodes)
+        .where(and(eq(taxCodes.organizationId, orgId), eq(taxCodes.code, values.code)))
+        .limit(1);
+      if (existing) throw new TRPCError({ code: "CONFLICT", message: `Tax code ${values.code} already exists` });
+
+      const [result] = await db.insert(taxCodes).values({ organizationId: orgId, createdBy: ctx.user.id, ...values });
+      return { id: Number(result.insertId) };
+    }),
+
+  setCodeStatus: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number(), isActive: z.boolean() }))
+    .mutation(async ({ input }) => {
+      const code = await getOrgTaxCode(input.orgId, input.id);
+      const db = await requireDb();
+      await db.update(taxCodes)
+        .set({ isActive: input.isActive, ...(input.isActive ? {} : { isDefault: false }) })
+        .where(eq(taxCodes.id, code.id));
+      return { success: true };
+    }),
+
+  listAssignments: protectedProcedure
+    .input(z.object({ orgId: z.number(), customerId: z.number().optional() }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const conditions = [eq(taxCodeAssignments.organizationId, input.orgId)];
+      if (input.customerId) conditions.push(eq(taxCodeAssignments.customerId, input.customerId));
+      return db.select({ assignment: taxCodeAssignments, taxCode: taxCodes })
+        .from(taxCodeAssignments)
+        .innerJoin(taxCodes, eq(taxCodes.id, taxCodeAssignments.taxCodeId))
+        .where(and(...conditions));
+    }),
+
+  // Assign a code to a customer, a product line (invoice line serviceType), or both
+  assign: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      taxCodeId: z.number(),
+      customerId: z.number().nullable().default(null),
+      serviceType: z.string().min(1).max(100).nullable().default(null),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.customerId === null && input.serviceType === null) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Assign to a customer or product line; use the org default for everything else" });
+      }
+      const code = await getOrgTaxCode(input.orgId, input.taxCodeId);
+      const db = await requireDb();
+      if (input.customerId !== null) {
+        const [customer] = await db.select({ id: customers.id })
+          .from(customers)
+          .where(and(eq(customers.id, input.customerId), eq(customers.organizationId, input.orgId)))
+          .limit(1);
+        if (!customer) throw new TRPCError({ code: "NOT_FOUND", message: "Customer not found" });
+      }
+
+      const [result] = await db.insert(taxCodeAssignments).values({
+        organizationId: input.orgId,
+        taxCodeId: code.id,
+        customerId: input.customerId,
+        serviceType: input.serviceType,
+        createdBy: ctx.user.id,
+      });
+      return { id: Number(result.insertId) };
+    }),
+
+  unassign: protectedProcedure
+    .input(z.object({ orgId: z.number(), id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      await db.delete(taxCodeAssignments)
+        .where(and(eq(taxCodeAssignments.id, input.id), eq(taxCodeAssignments.organizationId, input.orgId)));
+      return { success: true };
+    }),
+
+  // Re-run the tax codes on an unpaid invoice after assignments change
+  recalculateInvoice: protectedProcedure
+    .input(z.object({ orgId: z.number(), invoiceId: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      const [invoice] = await db.select({ id: invoices.id })
+        .from(invoices)
+        .where(and(eq(invoices.id, input.invoiceId), eq(invoices.organizationId, input.orgId)))
+        .limit(1);
+      if (!invoice) throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+
+      try {
+        return await applyInvoiceTaxes(invoice.id);
+      } catch (error) {
+        throw toTaxError(error);
+      }
+    }),
+
+  getSummary: protectedProcedure
+    .input(z.object({ orgId: z.number(), from: z.string(), to: z.string() }))
+    .query(async ({ input }) => {
+      return getTaxSummary(input.orgId, new Date(input.from), new Date(input.to));
+    }),
+
+  exportSummary: protectedProcedure
+    .input(z.object({ orgId: z.number(), from: z.string(), to: z.string() }))
+    .mutation(async ({ input }) => {
+      const summary = await getTaxSummary(input.orgId, new Date(input.from), new Date(input.to));
+      return {
+        success: true,
+        data: generateTaxSummaryCSV(summary),
+        filename: `tax-summary-${input.from.slice(0, 10)}-${input.to.slice(0, 10)}.csv`,
+        mimeType: "text/csv",
+      };
+    }),
+});
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { telemetryProviderConfigs } from "../../drizzle/schema";
+import { eq } from "drizzle-orm";
+import { encryptSecret, maskSecret, decryptSecret } from "../providers/secrets";
+import {
+  PrometheusTelemetryProvider,
+  invalidateOrgTelemetryProvider,
+} from "../lib/telemetryProvider";
+
+const labelName = z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/);
+
+const prometheusInput = z.object({
+  prometheusUrl: z.string().url(),
+  tenantId: z.string().max(255).optional(),
+  authType: z.enum(["none", "bearer", "basic"]).default("none"),
+  username: z.string().max(255).optional(),
+  // Omit to keep the stored secret
+  secret: z.string().optional(),
+  metricPrefix: z.string().regex(/^[a-zA-Z_:][a-zA-Z0-9_:]*$/).max(100).optional(),
+  labelNames: z.object({
+    org: labelName.optional(),
+    project: labelName.optional(),
+    site: labelName.optional(),
+    device: labelName.optional(),
+  }).optional(),
+});
+
+/**
+ * Telemetry Providers Router
+ *
+ * Selects the time series backend per organization. Orgs default to MySQL;
+ * large tenants can be pointed at a Prometheus or Mimir endpoint.
+ */
+export const telemetryProvidersRouter = router({
+  getConfig: protectedProcedure
+    .input(z.object({ orgId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [config] = await db.select()
+        .from(telemetryProviderConfigs)
+        .where(eq(telemetryProviderConfigs.organizationId, input.orgId))
+        .limit(1);
+      if (!config) return null;
+
+      const { encryptedSecret, ...rest } = config;
+      return {
+        ...rest,
+        secretMasked: encryptedSecret
+          ? maskSecret(decryptSecret(encryptedSecret.encryptedValue, encryptedSecret.iv, encryptedSecret.authTag))
+          : null,
+      };
+    }),
+
+  saveConfig: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      providerType: z.enum(["mysql", "prometheus"]),
+      prometheus: prometheusInput.optional(),
+      isActive: z.boolean().default(true),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      if (input.providerType === "prometheus" && !input.prometheus) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Prometheus connection settings are required" });
+      }
+
+      const [existing] = await db.select()
+        .from(telemetryProviderConfigs)
+        .where(eq(telemetryProviderConfigs.organizationId, input.orgId))
+        .limit(1);
+
+      const prom = input.prometheus;
+      const values = {
+        providerType: input.providerType,
+        isActive: input.isActive,
+        updatedBy: ctx.user.id,
+        ...(prom ? {
+          prometheusUrl: prom.prometheusUrl,
+          tenantId: prom.tenantId || null,
+          authType: prom.authType,
+          username: prom.username || null,
+          metricPrefix: prom.metricPrefix || null,
+          labelNames: prom.labelNames || null,
+          ...(prom.authType === "none"
+            ? { encryptedSecret: null }
+            : prom.secret ? { encryptedSecret: encryptSecret(prom.secret) } : {}),
+        } : {}),
+      };
+
+      if (existing) {
+        await db.update(telemetryProviderConfigs).set(values).where(eq(telemetryProviderConfigs.id, existing.id));
+      } else {
+        await db.insert(telemetryProviderConfigs).values({ organizationId: input.orgId, ...values });
+      }
+
+      invalidateOrgTelemetryProvider(input.orgId);
+      return { success: true };
+    }),
+
+  testConnection: protectedProcedure
+    .input(z.object({ orgId: z.number(), prometheus: prometheusInput }))
+    .mutation(async ({ input }) => {
+      const { prometheus } = input;
+      let secret = prometheus.secret;
+
+      if (!secret && prometheus.authType !== "none") {
+        const db = await getDb();
+        const [existing] = db
+          ? await db.select()
+              .from(telemetryProviderConfigs)
+              .where(eq(telemetryProviderConfigs.organizationId, input.orgId))
+              .limit(1)
+          : [];
+        const stored = existing?.encryptedSecret;
+        if (stored) secret = decryptSecret(stored.encryptedValue, stored.iv, stored.authTag);
+      }
+
+      const provider = new PrometheusTelemetryProvider({
+        baseUrl: prometheus.prometheusUrl,
+        tenantId: prometheus.tenantId,
+        bearerToken: prometheus.authType === "bearer" ? secret : undefined,
+        basicAuth: prometheus.authType === "basic" && prometheus.username && secret
+          ? { username: prometheus.username, password: secret }
+          : undefined,
+        metricPrefix: prometheus.metricPrefix,
+        labels: prometheus.labelNames,
+        timeoutMs: 10_000,
+      });
+
+      const health = await provider.healthCheck();
+      if (!health.healthy) return { ...health, metrics: [] as string[] };
+
+      try {
+        const metrics = await provider.getAvailableMetrics(input.orgId);
+        return { ...health, metrics };
+      } catch (error) {
+        return { healthy: false, latencyMs: health.latencyMs, message: String(error), metrics: [] as string[] };
+      }
+    }),
+});
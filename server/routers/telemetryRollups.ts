@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure, adminProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { telemetryRetentionPolicies } from "../../drizzle/schema";
+import { eq } from "drizzle-orm";
+import {
+  DEFAULT_RETENTION,
+  getRetentionPolicy,
+  getRollupStatus,
+  runTelemetryRollups,
+} from "../services/telemetryRollups";
+
+const retentionDays = z.number().int().min(1).max(36500).nullable();
+
+/**
+ * Telemetry Rollups Router
+ *
+ * Per-org retention policy for raw telemetry and rollup tiers, plus
+ * rollup progress for the admin dashboard.
+ */
+export const telemetryRollupsRouter = router({
+  getRetentionPolicy: protectedProcedure
+    .input(z.object({ orgId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [row] = await db.select()
+        .from(telemetryRetentionPolicies)
+        .where(eq(telemetryRetentionPolicies.organizationId, input.orgId))
+        .limit(1);
+
+      return {
+        ...(await getRetentionPolicy(input.orgId)),
+        isDefault: !row,
+        lastPrunedAt: row?.lastPrunedAt ?? null,
+        lastPrunedRows: row?.lastPrunedRows ?? null,
+        defaults: DEFAULT_RETENTION,
+      };
+    }),
+
+  saveRetentionPolicy: protectedProcedure
+    .input(z.object({
+      orgId: z.number(),
+      rawRetentionDays: retentionDays,
+      fiveMinuteRetentionDays: retentionDays,
+      hourlyRetentionDays: retentionDays,
+      dailyRetentionDays: retentionDays,
+      enabled: z.boolean().default(true),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      // Coarser tiers back finer ones, so they must be kept at least as long
+      const ordered = [input.rawRetentionDays, input.fiveMinuteRetentionDays, input.hourlyRetentionDays, input.dailyRetentionDays];
+      for (let i = 1; i < ordered.length; i++) {
+        const finer = ordered[i - 1];
+        const coarser = ordered[i];
+        if (coarser !== null && (finer === null || coarser < finer)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Coarser tiers must be retained at least as long as finer ones" });
+        }
+      }
+
+      const { orgId, ...values } = input;
+      await db.insert(telemetryRetentionPolicies)
+        .values({ organizationId: orgId, ...values, updatedBy: ctx.user.id })
+        .onDuplicateKeyUpdate({ set: { ...values, updatedBy: ctx.user.id } });
+
+      return { success: true };
+    }),
+
+  // Rollups run across all orgs, so progress and manual runs are admin-only
+  getStatus: adminProcedure
+    .query(async () => {
+      return getRollupStatus();
+    }),
+
+  runNow: adminProcedure
+    .mutation(async () => {
+      return runTelemetryRollups();
+    }),
+});
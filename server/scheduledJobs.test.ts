@@ -5,7 +5,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { getJobs, getJob, triggerJob, setJobEnabled, initializeScheduler, shutdownScheduler } from "./services/cronScheduler";
+import { getJobs, getJob, triggerJob, setJobEnabled, updateJobSchedule, initializeScheduler, shutdownScheduler, catchUpSlots } from "./services/cronScheduler";
+import { parseCronExpression, getNextRun, getPreviousRun, getRunsBetween, CronParseError } from "./services/cronExpression";
 
 describe("Cron Scheduler Service", () => {
   beforeEach(() => {
@@ -53,6 +54,18 @@ describe("Cron Scheduler Service", () => {
     expect(job?.isEnabled).toBe(true);
   });
 
+  it("should reject invalid schedules without changing the job", () => {
+    expect(() => updateJobSchedule("recurring-invoices", "0 0 32 * *")).toThrow(CronParseError);
+    expect(() => updateJobSchedule("recurring-invoices", "0 0 * * *", "Mars/Olympus")).toThrow(CronParseError);
+    expect(getJob("recurring-invoices")?.cronExpression).toBe("0 0 * * *");
+  });
+
+  it("should register jobs with a timezone and catch-up policy", () => {
+    const job = getJob("recurring-invoices");
+    expect(job?.timezone).toBeTruthy();
+    expect(job?.catchUpPolicy).toBe("run_once");
+  });
+
   it("should throw error when enabling non-existent job", () => {
     expect(() => setJobEnabled("non-existent", true)).toThrow("Job not found");
   });
@@ -92,3 +105,86 @@ describe("Scheduled Jobs Integration", () => {
     shutdownScheduler();
   });
 });
+
+describe("Cron Expression Engine", () => {
+  const next = (expr: string, after: string, tz = "UTC") => getNextRun(expr, new Date(after), tz)?.toISOString();
+
+  it("should honour day-of-month, month and day-of-week fields", () => {
+    expect(next("0 9 15 * *", "2025-01-20T00:00:00Z")).toBe("2025-02-15T09:00:00.000Z");
+    expect(next("0 0 1 JUL *", "2025-01-01T00:00:00Z")).toBe("2025-07-01T00:00:00.000Z");
+    expect(next("0 8 * * MON", "2025-01-01T00:00:00Z")).toBe("2025-01-06T08:00:00.000Z");
+  });
+
+  it("should support ranges, steps and lists", () => {
+    expect(next("*/15 * * * *", "2025-01-01T00:07:00Z")).toBe("2025-01-01T00:15:00.000Z");
+    expect(next("0 9-17/4 * * *", "2025-01-01T10:00:00Z")).toBe("2025-01-01T13:00:00.000Z");
+    expect(next("0 0 1,15 * *", "2025-01-02T00:00:00Z")).toBe("2025-01-15T00:00:00.000Z");
+  });
+
+  it("should support six-field expressions with seconds", () => {
+    expect(next("*/10 * * * * *", "2025-01-01T00:00:05Z")).toBe("2025-01-01T00:00:10.000Z");
+  });
+
+  it("should resolve first business day, last day and nth weekday", () => {
+    // 1 March 2025 is a Saturday
+    expect(next("0 0 1W * *", "2025-02-15T00:00:00Z")).toBe("2025-03-03T00:00:00.000Z");
+    expect(next("0 0 L * *", "2025-02-01T00:00:00Z")).toBe("2025-02-28T00:00:00.000Z");
+    expect(next("0 12 * * 5L", "2025-01-01T00:00:00Z")).toBe("2025-01-31T12:00:00.000Z");
+    expect(next("0 12 * * MON#2", "2025-01-01T00:00:00Z")).toBe("2025-01-13T12:00:00.000Z");
+  });
+
+  it("should evaluate in the job timezone across DST transitions", () => {
+    expect(next("0 9 * * *", "2025-01-01T00:00:00Z", "Africa/Lagos")).toBe("2025-01-01T08:00:00.000Z");
+    // 02:30 does not exist on 30 March 2025 in Berlin - runs at 03:30 CEST
+    expect(next("30 2 * * *", "2025-03-29T12:00:00Z", "Europe/Berlin")).toBe("2025-03-30T01:30:00.000Z");
+    // 01:30 happens twice on 2 November 2025 in New York - runs once
+    expect(next("30 1 * * *", "2025-11-02T05:30:00Z", "America/New_York")).toBe("2025-11-03T06:30:00.000Z");
+  });
+
+  it("should list missed runs for catch-up", () => {
+    const runs = getRunsBetween("0 0 * * *", new Date("2025-01-01T00:00:00Z"), new Date("2025-01-04T12:00:00Z"));
+    expect(runs.map(r => r.toISOString())).toEqual([
+      "2025-01-02T00:00:00.000Z",
+      "2025-01-03T00:00:00.000Z",
+      "2025-01-04T00:00:00.000Z",
+    ]);
+  });
+
+  it("should find the previous run, walking back across months and DST", () => {
+    const previous = (expr: string, before: string, tz = "UTC") => getPreviousRun(expr, new Date(before), tz)?.toISOString();
+    expect(previous("0 9 15 * *", "2025-02-15T09:00:00Z")).toBe("2025-01-15T09:00:00.000Z");
+    expect(previous("0 12 * * MON#2", "2025-02-01T00:00:00Z")).toBe("2025-01-13T12:00:00.000Z");
+    expect(previous("0 0 L * *", "2025-03-15T00:00:00Z")).toBe("2025-02-28T00:00:00.000Z");
+    expect(previous("*/10 * * * * *", "2025-01-01T00:00:05Z")).toBe("2025-01-01T00:00:00.000Z");
+    expect(previous("30 2 * * *", "2025-03-30T12:00:00Z", "Europe/Berlin")).toBe("2025-03-30T01:30:00.000Z");
+  });
+
+  it("should reject malformed expressions", () => {
+    expect(() => parseCronExpression("61 * * * *")).toThrow(CronParseError);
+    expect(() => parseCronExpression("* * *")).toThrow(CronParseError);
+    expect(() => parseCronExpression("0 0 * * 5-1")).toThrow(CronParseError);
+  });
+});
+
+describe("catchUpSlots", () => {
+  // Hourly job, down from 1 January to 10 January: 216 missed slots
+  const last = new Date("2025-01-01T00:00:00Z");
+  const now = new Date("2025-01-10T00:00:30Z");
+  const job = { cronExpression: "0 * * * *", timezone: "UTC" };
+
+  it("should run only the latest missed slot for run_once", () => {
+    expect(catchUpSlots({ ...job, catchUpPolicy: "run_once" }, last, now).map(r => r.toISOString())).toEqual(["2025-01-10T00:00:00.000Z"]);
+  });
+
+  it("should keep the most recent slots for run_all, oldest first", () => {
+    const slots = catchUpSlots({ ...job, catchUpPolicy: "run_all" }, last, now);
+    expect(slots).toHaveLength(100);
+    expect(slots[0].toISOString()).toBe("2025-01-05T21:00:00.000Z");
+    expect(slots[99].toISOString()).toBe("2025-01-10T00:00:00.000Z");
+  });
+
+  it("should not catch up when nothing was missed or the policy is skip", () => {
+    expect(catchUpSlots({ ...job, catchUpPolicy: "run_once" }, new Date("2025-01-10T00:00:00Z"), now)).toEqual([]);
+    expect(catchUpSlots({ ...job, catchUpPolicy: "skip" }, last, now)).toEqual([]);
+  });
+});
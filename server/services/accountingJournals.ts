@@ -0,0 +1,970 @@
+/**
+ * Accounting Journals
+ *
+ * Turns invoices, credit notes, payments and platform (subscription) invoices
+ * into balanced double-entry journals on the org's chart of accounts, and
+ * exports them as generic CSV, Xero manual journals or QuickBooks IIF.
+ *
+ * Journals are regenerated from their sources, so edits flow through until a
+ * period is locked. A source that changes after its period was locked keeps
+ * its exported entry; the difference posts as an adjustment dated in the
+ * next open period.
+ *
+ * Line amounts are signed minor units, debits positive: `amount` in the
+ * transaction currency and `baseAmount` in the org's reporting currency.
+ */
+
+import { createHash } from "crypto";
+import { and, asc, eq, gte, inArray, lte, ne, or } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  JournalAccountRole,
+  accountingPeriodLocks,
+  chartOfAccountMappings,
+  creditNoteLines,
+  creditNotes,
+  invoiceLineItems,
+  invoiceLineTaxes,
+  invoices,
+  journalEntries,
+  journalExports,
+  journalLines,
+  payments,
+  platformInvoices,
+  platformPayments,
+  projects,
+} from "../../drizzle/schema";
+import { convertMinor, getFxRate, getReportingCurrency, minorUnitDigits } from "./currency";
+import { logAuditEvent } from "./auditLog";
+
+export class JournalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JournalError";
+  }
+}
+
+export type JournalSourceType = "invoice" | "credit_note" | "payment" | "platform_invoice" | "platform_payment";
+export type JournalExportFormat = "csv" | "xero" | "iif";
+
+// ============================================================================
+// Chart of accounts
+// ============================================================================
+
+export interface AccountRef {
+  accountCode: string;
+  accountName: string;
+  taxType: string | null;
+}
+
+export const DEFAULT_ACCOUNTS: Record<JournalAccountRole, { accountCode: string; accountName: string }> = {
+  bank: { accountCode: "1000", accountName: "Bank" },
+  accounts_receivable: { accountCode: "1100", accountName: "Accounts Receivable" },
+  withholding_receivable: { accountCode: "1150", accountName: "Withholding Tax Receivable" },
+  vat_receivable: { accountCode: "1160", accountName: "VAT Receivable" },
+  accounts_payable: { accountCode: "2000", accountName: "Accounts Payable" },
+  vat_payable: { accountCode: "2200", accountName: "VAT Payable" },
+  revenue: { accountCode: "4000", accountName: "Revenue" },
+  sales_discounts: { accountCode: "4900", accountName: "Sales Discounts" },
+  platform_expense: { accountCode: "6100", accountName: "Software Subscriptions" },
+  fx_gain_loss: { accountCode: "7900", accountName: "Realized FX Gain/Loss" },
+  rounding: { accountCode: "7990", accountName: "Rounding" },
+};
+
+export interface AccountMappingRule {
+  role: JournalAccountRole;
+  projectId: number | null;
+  taxCodeId: number | null;
+  currency: string | null;
+  accountCode: string;
+  accountName: string;
+  taxType: string | null;
+}
+
+/**
+ * Account for a line: a rule applies when every dimension it sets (project,
+ * tax code, currency) matches the line, and the rule setting the most
+ * dimensions wins. Falls back to the role's rule without dimensions, then
+ * DEFAULT_ACCOUNTS.
+ */
+export function resolveAccount(
+  rules: AccountMappingRule[],
+  role: JournalAccountRole,
+  context: { projectId?: number | null; taxCodeId?: number | null; currency?: string | null } = {}
+): AccountRef {
+  let best: AccountMappingRule | null = null;
+  let bestSpecificity = -1;
+  for (const rule of rules) {
+    if (rule.role !== role) continue;
+    if (rule.projectId !== null && rule.projectId !== (context.projectId ?? null)) continue;
+    if (rule.taxCodeId !== null && rule.taxCodeId !== (context.taxCodeId ?? null)) continue;
+    if (rule.currency !== null && rule.currency !== (context.currency ?? null)) continue;
+    const specificity = [rule.projectId, rule.taxCodeId, rule.currency].filter(v => v !== null).length;
+    if (specificity > bestSpecificity) {
+      best = rule;
+      bestSpecificity = specificity;
+    }
+  }
+  if (best) return { accountCode: best.accountCode, accountName: best.accountName, taxType: best.taxType };
+  return { ...DEFAULT_ACCOUNTS[role], taxType: null };
+}
+
+// ============================================================================
+// Journal lines
+// ============================================================================
+
+export interface JournalLineDraft {
+  role: JournalAccountRole;
+  amount: number; // transaction currency, debit positive
+  baseAmount: number; // reporting currency, debit positive
+  projectId?: number | null;
+  customerId?: number | null;
+  taxCodeId?: number | null;
+  description?: string | null;
+}
+
+type TransactionLine = Omit<JournalLineDraft, "baseAmount">;
+
+const lineKey = (l: { role: string; projectId?: number | null; customerId?: number | null; taxCodeId?: number | null }) =>
+  `${l.role}|${l.projectId ?? ""}|${l.customerId ?? ""}|${l.taxCodeId ?? ""}`;
+
+/** Combine lines posting to the same account and dimensions; drops zero lines */
+export function mergeJournalLines<T extends TransactionLine & { baseAmount?: number }>(lines: T[]): T[] {
+  const merged = new Map<string, T>();
+  for (const line of lines) {
+    const key = lineKey(line);
+    const existing = merged.get(key);
+    if (existing) {
+      existing.amount += line.amount;
+      if (existing.baseAmount !== undefined) existing.baseAmount += line.baseAmount ?? 0;
+    } else {
+      merged.set(key, { ...line });
+    }
+  }
+  return Array.from(merged.values()).filter(l => l.amount !== 0 || (l.baseAmount ?? 0) !== 0);
+}
+
+/** Rounding taxes or conversions leaves at most this many minor units per line; more is a posting error */
+export const ROUNDING_TOLERANCE_PER_LINE = 2;
+
+function assertRoundingResidue(residue: number, lines: Array<{ amount: number; baseAmount?: number }>, label: string): void {
+  const lineCount = lines.filter(l => l.amount !== 0 || (l.baseAmount ?? 0) !== 0).length;
+  if (Math.abs(residue) > ROUNDING_TOLERANCE_PER_LINE * lineCount) {
+    throw new JournalError(`${label} is out of balance by ${residue} minor units, more than rounding can explain`);
+  }
+}
+
+// Residue from rounding taxes goes to the rounding account
+function balanceTransactionLines(lines: TransactionLine[], label: string): TransactionLine[] {
+  const residue = lines.reduce((s, l) => s + l.amount, 0);
+  if (residue === 0) return lines;
+  assertRoundingResidue(residue, lines, label);
+  return [...lines, { role: "rounding", amount: -residue, description: "Rounding" }];
+}
+
+/** Convert transaction-currency lines at one rate, keeping the journal balanced in the reporting currency */
+export function toReportingLines(lines: TransactionLine[], rate: number, currency: string, reportingCurrency: string): JournalLineDraft[] {
+  const converted: JournalLineDraft[] = lines.map(l => ({
+    ...l,
+    baseAmount: currency === reportingCurrency ? l.amount : convertMinor(l.amount, rate, currency, reportingCurrency),
+  }));
+  const residue = converted.reduce((s, l) => s + l.baseAmount, 0);
+  if (residue !== 0) {
+    assertRoundingResidue(residue, converted, `Conversion to ${reportingCurrency}`);
+    converted.push({ role: "rounding", amount: 0, baseAmount: -residue, description: "FX conversion rounding" });
+  }
+  return mergeJournalLines(converted);
+}
+
+export interface InvoiceForJournal {
+  customerId: number;
+  invoiceNumber: string;
+  totalAmount: number;
+  taxAmount: number | null;
+  discountAmount: number | null;
+  withholdingAmount: number | null;
+}
+
+export interface LineTaxForJournal {
+  lineItemId: number;
+  taxCodeId: number | null;
+  kind: string;
+  taxAmount: number;
+}
+
+/**
+ * Issued invoice: debit receivables (and withholding the customer deducts),
+ * credit revenue by project and output VAT by tax code
+ */
+export function invoiceJournalLines(
+  invoice: InvoiceForJournal,
+  items: Array<{ id: number; amount: number; projectId: number | null }>,
+  lineTaxes: LineTaxForJournal[]
+): TransactionLine[] {
+  const withholding = invoice.withholdingAmount || 0;
+  const lines: TransactionLine[] = [
+    { role: "accounts_receivable", amount: invoice.totalAmount - withholding, customerId: invoice.customerId },
+    { role: "withholding_receivable", amount: withholding },
+    { role: "sales_discounts", amount: invoice.discountAmount || 0 },
+  ];
+  for (const item of items) {
+    lines.push({ role: "revenue", amount: -item.amount, projectId: item.projectId });
+  }
+
+  const outputTaxes = lineTaxes.filter(t => t.kind !== "withholding" && t.taxAmount !== 0);
+  if (outputTaxes.length > 0) {
+    for (const tax of outputTaxes) lines.push({ role: "vat_payable", amount: -tax.taxAmount, taxCodeId: tax.taxCodeId });
+  } else if (invoice.taxAmount) {
+    lines.push({ role: "vat_payable", amount: -invoice.taxAmount });
+  }
+
+  return mergeJournalLines(balanceTransactionLines(lines, `Invoice ${invoice.invoiceNumber}`));
+}
+
+export interface CreditNoteForJournal {
+  customerId: number;
+  totalAmount: number;
+  taxAmount: number;
+  withholdingAmount: number;
+}
+
+/**
+ * Issued credit note: the reverse of the credited invoice lines. Revenue is
+ * reversed gross and the line's share of the invoice discount credited back
+ * to sales discounts, mirroring the invoice. Each credited line's VAT is split
+ * across that invoice line's tax codes in proportion to the tax originally
+ * charged, so it reverses the same accounts.
+ */
+export function creditNoteJournalLines(
+  note: CreditNoteForJournal,
+  lines: Array<{ invoiceLineItemId: number | null; amount: number; discountAmount?: number; taxAmount: number; projectId: number | null }>,
+  invoiceLineTaxes: LineTaxForJournal[]
+): TransactionLine[] {
+  const result: TransactionLine[] = [
+    { role: "accounts_receivable", amount: -(note.totalAmount - note.withholdingAmount), customerId: note.customerId },
+    { role: "withholding_receivable", amount: -note.withholdingAmount },
+  ];
+
+  for (const line of lines) {
+    const discount = line.discountAmount ?? 0;
+    result.push({ role: "revenue", amount: line.amount + discount, projectId: line.projectId });
+    result.push({ role: "sales_discounts", amount: -discount });
+    if (!line.taxAmount) continue;
+
+    const charged = invoiceLineTaxes.filter(t => t.lineItemId === line.invoiceLineItemId && t.kind !== "withholding" && t.taxAmount !== 0);
+    const chargedTotal = charged.reduce((s, t) => s + t.taxAmount, 0);
+    if (charged.length === 0 || chargedTotal === 0) {
+      result.push({ role: "vat_payable", amount: line.taxAmount });
+      continue;
+    }
+    let remaining = line.taxAmount;
+    charged.forEach((tax, i) => {
+      const share = i === charged.length - 1 ? remaining : Math.round(line.taxAmount * tax.taxAmount / chargedTotal);
+      remaining -= share;
+      result.push({ role: "vat_payable", amount: share, taxCodeId: tax.taxCodeId });
+    });
+  }
+
+  return mergeJournalLines(balanceTransactionLines(result, "Credit note"));
+}
+
+/**
+ * Customer payment (or refund, when negative): the bank is debited at the
+ * payment-date rate and receivables cleared at the invoice's issue-date rate;
+ * the difference is the realized FX gain or loss
+ */
+export function paymentJournalLines(
+  payment: { amount: number; customerId: number; currency: string },
+  rates: { paymentRate: number; invoiceRate: number | null },
+  reportingCurrency: string
+): JournalLineDraft[] {
+  const toBase = (amount: number, rate: number) =>
+    payment.currency === reportingCurrency ? amount : convertMinor(amount, rate, payment.currency, reportingCurrency);
+  const bankBase = toBase(payment.amount, rates.paymentRate);
+  const receivableBase = toBase(-payment.amount, rates.invoiceRate ?? rates.paymentRate);
+
+  return mergeJournalLines<JournalLineDraft>([
+    { role: "bank", amount: payment.amount, baseAmount: bankBase },
+    { role: "accounts_receivable", amount: -payment.amount, baseAmount: receivableBase, customerId: payment.customerId },
+    { role: "fx_gain_loss", amount: 0, baseAmount: -(bankBase + receivableBase), description: "Realized FX gain/loss" },
+  ]);
+}
+
+/** Platform subscription invoice: a supplier bill (expense and input VAT against payables) */
+export function platformInvoiceJournalLines(invoice: { subtotal: number; tax: number; total: number }): TransactionLine[] {
+  return mergeJournalLines(balanceTransactionLines([
+    { role: "platform_expense", amount: invoice.subtotal },
+    { role: "vat_receivable", amount: invoice.tax },
+    { role: "accounts_payable", amount: -invoice.total },
+  ], "Platform invoice"));
+}
+
+export function platformPaymentJournalLines(amount: number): TransactionLine[] {
+  return mergeJournalLines<TransactionLine>([
+    { role: "accounts_payable", amount },
+    { role: "bank", amount: -amount },
+  ]);
+}
+
+/** Lines to post so that `posted` plus the result equals `desired` */
+export function diffJournalLines(desired: JournalLineDraft[], posted: JournalLineDraft[]): JournalLineDraft[] {
+  return mergeJournalLines([
+    ...desired.map(l => ({ ...l })),
+    ...posted.map(l => ({ ...l, amount: -l.amount, baseAmount: -l.baseAmount })),
+  ]);
+}
+
+export function assertBalanced(lines: Array<{ baseAmount: number }>, label: string): void {
+  const residue = lines.reduce((s, l) => s + l.baseAmount, 0);
+  if (residue !== 0) throw new JournalError(`Journal for ${label} is out of balance by ${residue}`);
+}
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+/** YYYY-MM of a date (UTC) */
+export function periodOf(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function periodsBetween(from: string, to: string): string[] {
+  const periods: string[] = [];
+  let [year, month] = from.split("-").map(Number);
+  const [endYear, endMonth] = to.split("-").map(Number);
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    periods.push(`${year}-${String(month).padStart(2, "0")}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return periods;
+}
+
+/** The date itself if its period is open, otherwise the first day of the next open period */
+export function firstOpenDate(date: Date, lockedPeriods: Set<string>): Date {
+  if (!lockedPeriods.has(periodOf(date))) return date;
+  let cursor = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+  while (lockedPeriods.has(periodOf(cursor))) {
+    cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
+  }
+  return cursor;
+}
+
+// ============================================================================
+// Export formats
+// ============================================================================
+
+export interface ExportJournalEntry {
+  id: number;
+  entryDate: Date;
+  reference: string;
+  narration: string;
+  isAdjustment: boolean;
+  currency: string;
+  reportingCurrency: string;
+  lines: Array<{
+    accountCode: string;
+    accountName: string;
+    taxType: string | null;
+    debit: number;
+    credit: number;
+    transactionAmount: number;
+    description: string | null;
+    projectName: string | null;
+  }>;
+}
+
+/** Minor units as a plain decimal string, e.g. -123456 USD -> "-1234.56" */
+export function formatDecimal(amountMinor: number, currency: string): string {
+  const digits = minorUnitDigits(currency);
+  const abs = Math.abs(amountMinor).toString().padStart(digits + 1, "0");
+  const whole = digits > 0 ? `${abs.slice(0, -digits)}.${abs.slice(-digits)}` : abs;
+  return amountMinor < 0 ? `-${whole}` : whole;
+}
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+
+export function toGenericJournalCsv(entries: ExportJournalEntry[]): string {
+  const rows = [[
+    "Journal ID", "Date", "Reference", "Narration", "Adjustment", "Account Code", "Account Name", "Description",
+    "Debit", "Credit", "Currency", "Transaction Currency", "Transaction Amount", "Project",
+  ].join(",")];
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      rows.push([
+        entry.id,
+        isoDate(entry.entryDate),
+        entry.reference,
+        entry.narration,
+        entry.isAdjustment ? "yes" : "no",
+        line.accountCode,
+        line.accountName,
+        line.description,
+        line.debit ? formatDecimal(line.debit, entry.reportingCurrency) : "",
+        line.credit ? formatDecimal(line.credit, entry.reportingCurrency) : "",
+        entry.reportingCurrency,
+        entry.currency,
+        formatDecimal(line.transactionAmount, entry.currency),
+        line.projectName,
+      ].map(csvCell).join(","));
+    }
+  }
+  return rows.join("\n");
+}
+
+/**
+ * Xero manual journal import: one row per line, rows with the same narration
+ * and date form a journal. Dates are DD/MM/YYYY; amounts are signed
+ * (debits positive). Projects become the "Project" tracking category.
+ */
+export function toXeroJournalCsv(entries: ExportJournalEntry[]): string {
+  const rows = [["*Narration", "*Date", "Description", "*AccountCode", "*TaxRate", "*Amount", "TrackingName1", "TrackingOption1"].join(",")];
+  for (const entry of entries) {
+    const d = entry.entryDate;
+    const date = `${String(d.getUTCDate()).padStart(2, "0")}/${String(d.getUTCMonth() + 1).padStart(2, "0")}/${d.getUTCFullYear()}`;
+    for (const line of entry.lines) {
+      rows.push([
+        `${entry.reference} ${entry.narration} (#${entry.id})`,
+        date,
+        line.description ?? entry.narration,
+        line.accountCode,
+        line.taxType ?? "Tax Exempt",
+        formatDecimal(line.debit - line.credit, entry.reportingCurrency),
+        line.projectName ? "Project" : "",
+        line.projectName ?? "",
+      ].map(csvCell).join(","));
+    }
+  }
+  return rows.join("\n");
+}
+
+/** QuickBooks Desktop IIF general journal transactions; accounts are matched by name */
+export function toQuickBooksIif(entries: ExportJournalEntry[]): string {
+  const clean = (text: string | null | undefined) => (text ?? "").replace(/[\t\r\n]+/g, " ");
+  const rows = [
+    ["!TRNS", "TRNSID", "TRNSTYPE", "DATE", "ACCNT", "AMOUNT", "DOCNUM", "MEMO"].join("\t"),
+    ["!SPL", "SPLID", "TRNSTYPE", "DATE", "ACCNT", "AMOUNT", "DOCNUM", "MEMO"].join("\t"),
+    "!ENDTRNS",
+  ];
+  for (const entry of entries) {
+    const d = entry.entryDate;
+    const date = `${String(d.getUTCMonth() + 1).padStart(2, "0")}/${String(d.getUTCDate()).padStart(2, "0")}/${d.getUTCFullYear()}`;
+    entry.lines.forEach((line, i) => {
+      rows.push([
+        i === 0 ? "TRNS" : "SPL",
+        "",
+        "GENERAL JOURNAL",
+        date,
+        clean(line.accountName),
+        formatDecimal(line.debit - line.credit, entry.reportingCurrency),
+        clean(entry.reference),
+        clean(line.description ?? entry.narration),
+      ].join("\t"));
+    });
+    rows.push("ENDTRNS");
+  }
+  return rows.join("\r\n");
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new JournalError("Database not available");
+  return db;
+}
+
+export async function getLockedPeriods(organizationId: number): Promise<Set<string>> {
+  const db = await requireDb();
+  const rows = await db.select({ period: accountingPeriodLocks.period })
+    .from(accountingPeriodLocks)
+    .where(eq(accountingPeriodLocks.organizationId, organizationId));
+  return new Set(rows.map(r => r.period));
+}
+
+interface SourceJournal {
+  sourceType: JournalSourceType;
+  sourceId: number;
+  entryDate: Date;
+  reference: string;
+  narration: string;
+  currency: string;
+  fxRate: number;
+  lines: JournalLineDraft[];
+}
+
+export interface JournalGenerationResult {
+  posted: number; // new or rewritten entries
+  adjustments: number; // changes to sources in locked periods
+  removed: number; // entries dropped because their source no longer posts
+  skipped: Array<{ sourceType: JournalSourceType; sourceId: number; reason: string }>;
+}
+
+async function rateOrNull(organizationId: number, currency: string, reportingCurrency: string, date: Date, snapshot?: { rate: string | null; currency: string | null }) {
+  if (currency === reportingCurrency) return 1;
+  if (snapshot?.rate && snapshot.currency === reportingCurrency) return Number(snapshot.rate);
+  return getFxRate(organizationId, currency, reportingCurrency, date);
+}
+
+/** What each source should post right now */
+async function buildSourceJournals(
+  organizationId: number,
+  reportingCurrency: string,
+  skipped: JournalGenerationResult["skipped"]
+): Promise<SourceJournal[]> {
+  const db = await requireDb();
+  const journals: SourceJournal[] = [];
+  const noRate = (sourceType: JournalSourceType, sourceId: number, currency: string) =>
+    skipped.push({ sourceType, sourceId, reason: `No ${currency}/${reportingCurrency} rate` });
+
+  // Customer invoices; one cancelled without a credit note never hit the books
+  const invoiceRows = await db.select()
+    .from(invoices)
+    .where(and(eq(invoices.organizationId, organizationId), ne(invoices.status, "draft")));
+  const postedInvoices = invoiceRows.filter(i => i.status !== "cancelled" || (i.creditedAmount || 0) > 0);
+  const invoiceRates = new Map<number, number | null>();
+  const invoiceIds = invoiceRows.map(i => i.id);
+  const items = invoiceIds.length
+    ? await db.select().from(invoiceLineItems).where(inArray(invoiceLineItems.invoiceId, invoiceIds))
+    : [];
+  const taxes = invoiceIds.length
+    ? await db.select().from(invoiceLineTaxes).where(inArray(invoiceLineTaxes.invoiceId, invoiceIds))
+    : [];
+
+  for (const invoice of invoiceRows) {
+    const currency = invoice.currency || "USD";
+    const rate = await rateOrNull(organizationId, currency, reportingCurrency, invoice.issueDate, {
+      rate: invoice.fxRateToReporting,
+      currency: invoice.reportingCurrency,
+    });
+    invoiceRates.set(invoice.id, rate);
+    if (!postedInvoices.includes(invoice)) continue;
+    if (rate === null) {
+      noRate("invoice", invoice.id, currency);
+      continue;
+    }
+    journals.push({
+      sourceType: "invoice",
+      sourceId: invoice.id,
+      entryDate: invoice.issueDate,
+      reference: invoice.invoiceNumber,
+      narration: `Invoice ${invoice.invoiceNumber}`,
+      currency,
+      fxRate: rate,
+      lines: toReportingLines(
+        invoiceJournalLines(invoice, items.filter(i => i.invoiceId === invoice.id), taxes.filter(t => t.invoiceId === invoice.id)),
+        rate,
+        currency,
+        reportingCurrency
+      ),
+    });
+  }
+
+  // Credit notes, at the credited invoice's rate
+  const notes = await db.select()
+    .from(creditNotes)
+    .where(and(eq(creditNotes.organizationId, organizationId), eq(creditNotes.status, "issued")));
+  const noteLines = notes.length
+    ? await db.select().from(creditNoteLines).where(inArray(creditNoteLines.creditNoteId, notes.map(n => n.id)))
+    : [];
+  for (const note of notes) {
+    const rate = invoiceRates.get(note.invoiceId) ?? null;
+    if (rate === null) {
+      noRate("credit_note", note.id, note.currency);
+      continue;
+    }
+    const lines = noteLines
+      .filter(l => l.creditNoteId === note.id)
+      .map(l => ({
+        invoiceLineItemId: l.invoiceLineItemId,
+        amount: l.amount,
+        discountAmount: l.discountAmount,
+        taxAmount: l.taxAmount,
+        projectId: items.find(i => i.id === l.invoiceLineItemId)?.projectId ?? null,
+      }));
+    journals.push({
+      sourceType: "credit_note",
+      sourceId: note.id,
+      entryDate: note.issueDate ?? note.createdAt,
+      reference: note.creditNoteNumber ?? `CN-${note.id}`,
+      narration: `Credit note ${note.creditNoteNumber ?? note.id}`,
+      currency: note.currency,
+      fxRate: rate,
+      lines: toReportingLines(
+        creditNoteJournalLines(note, lines, taxes.filter(t => t.invoiceId === note.invoiceId)),
+        rate,
+        note.currency,
+        reportingCurrency
+      ),
+    });
+  }
+
+  // Payments received and refunds paid out (negative amounts)
+  const paymentRows = await db.select()
+    .from(payments)
+    .where(and(
+      eq(payments.organizationId, organizationId),
+      or(eq(payments.status, "succeeded"), eq(payments.status, "refunded"))
+    ));
+  for (const payment of paymentRows) {
+    if (payment.status === "refunded" && payment.amount >= 0) continue;
+    const currency = payment.currency || "USD";
+    const paymentDate = payment.paymentDate ?? payment.createdAt;
+    const paymentRate = await rateOrNull(organizationId, currency, reportingCurrency, paymentDate, {
+      rate: payment.fxRateToReporting,
+      currency: payment.reportingCurrency,
+    });
+    if (paymentRate === null) {
+      noRate("payment", payment.id, currency);
+      continue;
+    }
+    const invoice = invoiceRows.find(i => i.id === payment.invoiceId);
+    journals.push({
+      sourceType: "payment",
+      sourceId: payment.id,
+      entryDate: paymentDate,
+      reference: payment.referenceNumber || invoice?.invoiceNumber || `PAY-${payment.id}`,
+      narration: `${payment.amount < 0 ? "Refund" : "Payment"}${invoice ? ` ${invoice.invoiceNumber}` : ""}`,
+      currency,
+      fxRate: paymentRate,
+      lines: paymentJournalLines(
+        { amount: payment.amount, customerId: payment.customerId, currency },
+        { paymentRate, invoiceRate: payment.invoiceId ? invoiceRates.get(payment.invoiceId) ?? null : null },
+        reportingCurrency
+      ),
+    });
+  }
+
+  // Platform subscription invoices and their payments (decimal major units)
+  const toMinor = (value: string | null, currency: string) => Math.round(Number(value || 0) * Math.pow(10, minorUnitDigits(currency)));
+  const platformBills = await db.select()
+    .from(platformInvoices)
+    .where(and(
+      eq(platformInvoices.organizationId, organizationId),
+      inArray(platformInvoices.status, ["open", "paid", "uncollectible"])
+    ));
+  for (const bill of platformBills) {
+    const currency = bill.currency || "USD";
+    const rate = await rateOrNull(organizationId, currency, reportingCurrency, bill.invoiceDate);
+    if (rate === null) {
+      noRate("platform_invoice", bill.id, currency);
+      continue;
+    }
+    journals.push({
+      sourceType: "platform_invoice",
+      sourceId: bill.id,
+      entryDate: bill.invoiceDate,
+      reference: bill.invoiceNumber,
+      narration: `Platform subscription ${bill.invoiceNumber}`,
+      currency,
+      fxRate: rate,
+      lines: toReportingLines(
+        platformInvoiceJournalLines({
+          subtotal: toMinor(bill.subtotal, currency),
+          tax: toMinor(bill.tax, currency),
+          total: toMinor(bill.total, currency),
+        }),
+        rate,
+        currency,
+        reportingCurrency
+      ),
+    });
+  }
+
+  const platformPaid = await db.select()
+    .from(platformPayments)
+    .where(and(eq(platformPayments.organizationId, organizationId), eq(platformPayments.status, "succeeded")));
+  for (const payment of platformPaid) {
+    const currency = payment.currency || "USD";
+    const date = payment.paymentDate ?? payment.createdAt;
+    const rate = await rateOrNull(organizationId, currency, reportingCurrency, date);
+    if (rate === null) {
+      noRate("platform_payment", payment.id, currency);
+      continue;
+    }
+    const bill = platformBills.find(b => b.id === payment.invoiceId);
+    journals.push({
+      sourceType: "platform_payment",
+      sourceId: payment.id,
+      entryDate: date,
+      reference: bill?.invoiceNumber ?? payment.externalPaymentId ?? `PP-${payment.id}`,
+      narration: `Platform subscription payment${bill ? ` ${bill.invoiceNumber}` : ""}`,
+      currency,
+      fxRate: rate,
+      lines: toReportingLines(platformPaymentJournalLines(toMinor(payment.amount, currency)), rate, currency, reportingCurrency),
+    });
+  }
+
+  return journals;
+}
+
+/**
+ * Bring the stored journals in line with their sources. Entries in open
+ * periods are rewritten; entries in locked periods are left alone and the
+ * difference posts as an adjustment in the first open period.
+ */
+export async function generateJournals(organizationId: number): Promise<JournalGenerationResult> {
+  const db = await requireDb();
+  const reportingCurrency = await getReportingCurrency(organizationId);
+  const locked = await getLockedPeriods(organizationId);
+  const result: JournalGenerationResult = { posted: 0, adjustments: 0, removed: 0, skipped: [] };
+
+  const desired = await buildSourceJournals(organizationId, reportingCurrency, result.skipped);
+  const rules: AccountMappingRule[] = await db.select()
+    .from(chartOfAccountMappings)
+    .where(eq(chartOfAccountMappings.organizationId, organizationId));
+
+  const existingEntries = await db.select()
+    .from(journalEntries)
+    .where(eq(journalEntries.organizationId, organizationId));
+  const existingLines = existingEntries.length
+    ? await db.select().from(journalLines).where(eq(journalLines.organizationId, organizationId))
+    : [];
+
+  const sourceKey = (type: string, id: number) => `${type}:${id}`;
+  const entriesBySource = new Map<string, typeof existingEntries>();
+  for (const entry of existingEntries) {
+    const key = sourceKey(entry.sourceType, entry.sourceId);
+    if (!entriesBySource.has(key)) entriesBySource.set(key, []);
+    entriesBySource.get(key)!.push(entry);
+  }
+  const desiredBySource = new Map(desired.map(j => [sourceKey(j.sourceType, j.sourceId), j]));
+  const skippedKeys = new Set(result.skipped.map(s => sourceKey(s.sourceType, s.sourceId)));
+
+  const postedLines = (entryIds: number[]): JournalLineDraft[] => existingLines
+    .filter(l => entryIds.includes(l.journalEntryId))
+    .map(l => ({
+      role: l.role,
+      amount: l.transactionAmount,
+      baseAmount: l.debit - l.credit,
+      projectId: l.projectId,
+      customerId: l.customerId,
+      taxCodeId: l.taxCodeId,
+      description: l.description,
+    }));
+
+  const keys = new Set([...Array.from(desiredBySource.keys()), ...Array.from(entriesBySource.keys())]);
+  for (const key of Array.from(keys)) {
+    // Missing rates are reported, not treated as the source disappearing
+    if (skippedKeys.has(key)) continue;
+
+    const journal = desiredBySource.get(key) ?? null;
+    const entries = entriesBySource.get(key) ?? [];
+    const target = journal?.lines ?? [];
+    if (journal) assertBalanced(target, journal.reference);
+
+    if (diffJournalLines(target, postedLines(entries.map(e => e.id))).length === 0) continue;
+
+    const frozen = entries.filter(e => locked.has(e.period));
+    const open = entries.filter(e => !locked.has(e.period));
+    if (open.length > 0) {
+      await db.delete(journalLines).where(inArray(journalLines.journalEntryId, open.map(e => e.id)));
+      await db.delete(journalEntries).where(inArray(journalEntries.id, open.map(e => e.id)));
+    }
+
+    const lines = diffJournalLines(target, postedLines(frozen.map(e => e.id)));
+    if (lines.length === 0) {
+      if (open.length > 0) result.removed++;
+      continue;
+    }
+
+    const [type, id] = key.split(":");
+    const template = journal ?? entries[0];
+    const sourceDate = journal?.entryDate ?? new Date();
+    const entryDate = firstOpenDate(sourceDate, locked);
+    const isAdjustment = frozen.length > 0 || entryDate.getTime() !== sourceDate.getTime();
+    const currency = template.currency;
+    const fxRate = journal?.fxRate ?? Number(entries[0].fxRate);
+
+    const [inserted] = await db.insert(journalEntries).values({
+      organizationId,
+      sourceType: type as JournalSourceType,
+      sourceId: Number(id),
+      entryDate,
+      period: periodOf(entryDate),
+      isAdjustment,
+      reference: template.reference.slice(0, 100),
+      narration: `${isAdjustment ? "Adjustment: " : ""}${journal?.narration ?? `${entries[0].narration} (reversed)`}`.slice(0, 500),
+      currency,
+      reportingCurrency,
+      fxRate: fxRate.toFixed(10),
+    });
+    const entryId = Number(inserted.insertId);
+
+    for (const line of lines) {
+      const account = resolveAccount(rules, line.role, { projectId: line.projectId, taxCodeId: line.taxCodeId, currency });
+      await db.insert(journalLines).values({
+        journalEntryId: entryId,
+        organizationId,
+        role: line.role,
+        accountCode: account.accountCode,
+        accountName: account.accountName,
+        taxType: account.taxType,
+        debit: Math.max(0, line.baseAmount),
+        credit: Math.max(0, -line.baseAmount),
+        transactionAmount: line.amount,
+        projectId: line.projectId ?? null,
+        customerId: line.customerId ?? null,
+        taxCodeId: line.taxCodeId ?? null,
+        description: line.description?.slice(0, 500) ?? null,
+      });
+    }
+
+    if (isAdjustment) result.adjustments++;
+    else result.posted++;
+  }
+
+  return result;
+}
+
+/** Entries and their lines for a range of periods, in date order */
+export async function getJournalEntries(organizationId: number, periodFrom: string, periodTo: string): Promise<ExportJournalEntry[]> {
+  const db = await requireDb();
+  const entries = await db.select()
+    .from(journalEntries)
+    .where(and(
+      eq(journalEntries.organizationId, organizationId),
+      gte(journalEntries.period, periodFrom),
+      lte(journalEntries.period, periodTo)
+    ))
+    .orderBy(asc(journalEntries.entryDate), asc(journalEntries.id));
+  if (entries.length === 0) return [];
+
+  const lines = await db.select()
+    .from(journalLines)
+    .where(inArray(journalLines.journalEntryId, entries.map(e => e.id)))
+    .orderBy(asc(journalLines.id));
+  const projectIds = Array.from(new Set(lines.map(l => l.projectId).filter((id): id is number => id !== null)));
+  const projectNames = new Map<number, string>();
+  if (projectIds.length) {
+    const rows = await db.select({ id: projects.id, name: projects.name }).from(projects).where(inArray(projects.id, projectIds));
+    rows.forEach(r => projectNames.set(r.id, r.name));
+  }
+
+  return entries.map(e => ({
+    id: e.id,
+    entryDate: e.entryDate,
+    reference: e.reference,
+    narration: e.narration,
+    isAdjustment: e.isAdjustment,
+    currency: e.currency,
+    reportingCurrency: e.reportingCurrency,
+    lines: lines
+      .filter(l => l.journalEntryId === e.id)
+      .map(l => ({
+        accountCode: l.accountCode,
+        accountName: l.accountName,
+        taxType: l.taxType,
+        debit: l.debit,
+        credit: l.credit,
+        transactionAmount: l.transactionAmount,
+        description: l.description,
+        projectName: l.projectId !== null ? projectNames.get(l.projectId) ?? `Project ${l.projectId}` : null,
+      })),
+  }));
+}
+
+/**
+ * Generate, then export a period range. With `lock`, every period in the
+ * range is locked so the exported entries can't change underneath the
+ * accounting system.
+ */
+export async function exportJournals(
+  organizationId: number,
+  options: { periodFrom: string; periodTo: string; format: JournalExportFormat; lock: boolean; userId?: number | null }
+) {
+  if (options.periodFrom > options.periodTo) throw new JournalError("periodFrom must not be after periodTo");
+  const db = await requireDb();
+
+  const generation = await generateJournals(organizationId);
+  const entries = await getJournalEntries(organizationId, options.periodFrom, options.periodTo);
+  const totalDebit = entries.reduce((s, e) => s + e.lines.reduce((t, l) => t + l.debit, 0), 0);
+  const totalCredit = entries.reduce((s, e) => s + e.lines.reduce((t, l) => t + l.credit, 0), 0);
+  if (totalDebit !== totalCredit) throw new JournalError(`Journals are out of balance: debits ${totalDebit}, credits ${totalCredit}`);
+
+  const data = options.format === "xero"
+    ? toXeroJournalCsv(entries)
+    : options.format === "iif"
+      ? toQuickBooksIif(entries)
+      : toGenericJournalCsv(entries);
+
+  const [inserted] = await db.insert(journalExports).values({
+    organizationId,
+    format: options.format,
+    periodFrom: options.periodFrom,
+    periodTo: options.periodTo,
+    entryCount: entries.length,
+    totalDebit,
+    fileHash: createHash("sha256").update(data).digest("hex"),
+    lockedPeriods: options.lock,
+    exportedBy: options.userId ?? null,
+  });
+  const exportId = Number(inserted.insertId);
+
+  if (entries.length) {
+    await db.update(journalEntries).set({ exportId }).where(inArray(journalEntries.id, entries.map(e => e.id)));
+  }
+  if (options.lock) {
+    const locked = await getLockedPeriods(organizationId);
+    for (const period of periodsBetween(options.periodFrom, options.periodTo)) {
+      if (locked.has(period)) continue;
+      await db.insert(accountingPeriodLocks).values({
+        organizationId,
+        period,
+        exportId,
+        reason: `Exported (${options.format})`,
+        lockedBy: options.userId ?? null,
+      });
+    }
+  }
+
+  const extension = options.format === "iif" ? "iif" : "csv";
+  return {
+    exportId,
+    entryCount: entries.length,
+    skipped: generation.skipped,
+    data,
+    filename: `journals-${options.format}-${options.periodFrom}-to-${options.periodTo}.${extension}`,
+    mimeType: options.format === "iif" ? "application/x-iif" : "text/csv",
+  };
+}
+
+export async function lockPeriod(organizationId: number, period: string, userId?: number | null, reason?: string): Promise<void> {
+  const db = await requireDb();
+  const locked = await getLockedPeriods(organizationId);
+  if (locked.has(period)) return;
+  await db.insert(accountingPeriodLocks).values({ organizationId, period, reason: reason ?? null, lockedBy: userId ?? null });
+}
+
+/**
+ * Reopen a period. Journals regenerated afterwards may rewrite entries that
+ * were already exported, so this needs a reason and is audit logged.
+ */
+export async function unlockPeriod(organizationId: number, period: string, userId: number, reason: string): Promise<void> {
+  const db = await requireDb();
+  await db.delete(accountingPeriodLocks)
+    .where(and(eq(accountingPeriodLocks.organizationId, organizationId), eq(accountingPeriodLocks.period, period)));
+  await logAuditEvent({
+    timestamp: new Date(),
+    eventType: "org.settings_update",
+    severity: "warning",
+    userId,
+    isSuperuser: false,
+    organizationId,
+    resourceType: "accounting_period",
+    resourceId: period,
+    action: "unlock_period",
+    outcome: "success",
+    metadata: { reason },
+  });
+}
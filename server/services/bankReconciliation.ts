@@ -0,0 +1,713 @@
+/**
+ * Bank Reconciliation
+ *
+ * Imports bank statements and proposes which open invoices each incoming
+ * transfer pays, by invoice reference, amount, fuzzy payer name and date
+ * window. A transfer can be split across several invoices and an invoice can
+ * be settled by several transfers. Nothing is booked until a reviewer
+ * confirms the proposal, which records the payments through
+ * recordInvoicePayment.
+ *
+ * Amounts are integers in minor units.
+ */
+
+import { createHash } from "crypto";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  Invoice,
+  bankStatementImports,
+  bankTransactionMatches,
+  bankTransactions,
+  customers,
+  invoices,
+} from "../../drizzle/schema";
+import {
+  CsvStatementOptions,
+  StatementFormat,
+  parseBankStatement,
+  transactionDedupeKey,
+} from "./bankStatementParsers";
+import { bookInvoicePayment } from "./invoicePayments";
+import { snapshotPaymentFx } from "./currency";
+
+export class BankReconciliationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BankReconciliationError";
+  }
+}
+
+const OPEN_INVOICE_STATUSES = ["sent", "viewed", "partial", "overdue"] as const;
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+export interface OpenInvoiceCandidate {
+  id: number;
+  invoiceNumber: string;
+  customerId: number;
+  customerName: string;
+  balanceDue: number;
+  currency: string;
+  issueDate: Date;
+  dueDate: Date;
+}
+
+export interface TransactionForMatching {
+  amount: number;
+  currency: string;
+  bookingDate: Date;
+  counterpartyName: string | null;
+  reference: string | null;
+  description: string | null;
+}
+
+export interface MatchProposal {
+  invoiceId: number;
+  amount: number;
+  score: number;
+  reasons: string[];
+}
+
+export interface MatchOptions {
+  dateWindowDays: number; // days past the due date a payment still counts as on time for matching
+  minScore: number;
+  maxCombination: number; // most invoices one transfer is assumed to settle without a reference
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+  dateWindowDays: 60,
+  minScore: 0.5,
+  maxCombination: 5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COMPANY_SUFFIXES = new Set(["LTD", "LIMITED", "PLC", "INC", "LLC", "CO", "COMPANY", "CORP", "GMBH", "SA", "BV", "PTY", "THE", "AND"]);
+
+/** Upper-case alphanumerics only, so "INV-2026-00042" matches "inv 2026 00042" */
+export function normalizeReference(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, " ")
+    .split(/\s+/)
+    .filter(t => t.length > 1 && !COMPANY_SUFFIXES.has(t));
+}
+
+function bigrams(text: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) grams.push(text.slice(i, i + 2));
+  return grams;
+}
+
+/**
+ * 0-1 similarity between a payer name on the statement and a customer name,
+ * ignoring case, punctuation and company suffixes. Token overlap catches
+ * reordered names; bigram overlap catches truncation and typos.
+ */
+export function nameSimilarity(a: string | null, b: string | null): number {
+  if (!a || !b) return 0;
+  const ta = nameTokens(a);
+  const tb = nameTokens(b);
+  if (ta.length === 0 || tb.length === 0) return 0;
+
+  const setB = new Set(tb);
+  const shared = ta.filter(t => setB.has(t)).length;
+  const tokenScore = (2 * shared) / (ta.length + tb.length);
+
+  const ga = bigrams(ta.join(""));
+  const gb = bigrams(tb.join(""));
+  const counts = new Map<string, number>();
+  for (const g of gb) counts.set(g, (counts.get(g) ?? 0) + 1);
+  let overlap = 0;
+  for (const g of ga) {
+    const n = counts.get(g) ?? 0;
+    if (n > 0) {
+      overlap++;
+      counts.set(g, n - 1);
+    }
+  }
+  const bigramScore = ga.length + gb.length > 0 ? (2 * overlap) / (ga.length + gb.length) : 0;
+
+  return Math.round(Math.max(tokenScore, bigramScore) * 1000) / 1000;
+}
+
+/** Open invoices whose number appears in the transfer's reference or description */
+export function findReferencedInvoices(txn: TransactionForMatching, candidates: OpenInvoiceCandidate[]): OpenInvoiceCandidate[] {
+  const text = normalizeReference(`${txn.reference ?? ""} ${txn.description ?? ""}`);
+  if (!text) return [];
+  return candidates.filter(c => {
+    const number = normalizeReference(c.invoiceNumber);
+    return number.length >= 4 && text.includes(number);
+  });
+}
+
+function inDateWindow(txn: TransactionForMatching, invoice: OpenInvoiceCandidate, windowDays: number): boolean {
+  const t = txn.bookingDate.getTime();
+  return t >= invoice.issueDate.getTime() - 7 * DAY_MS && t <= invoice.dueDate.getTime() + windowDays * DAY_MS;
+}
+
+// Subsets of 2..maxSize invoices whose balances add up to exactly `target`
+function findCombination(invoices: OpenInvoiceCandidate[], target: number, maxSize: number): OpenInvoiceCandidate[] | null {
+  const pool = invoices.slice(0, 12);
+  const search = (start: number, remaining: number, picked: OpenInvoiceCandidate[]): OpenInvoiceCandidate[] | null => {
+    if (remaining === 0 && picked.length >= 2) return picked;
+    if (remaining <= 0 || picked.length >= maxSize) return null;
+    for (let i = start; i < pool.length; i++) {
+      const found = search(i + 1, remaining - pool[i].balanceDue, [...picked, pool[i]]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return search(0, target, []);
+}
+
+const round3 = (value: number) => Math.round(Math.min(1, value) * 1000) / 1000;
+
+/**
+ * Proposed allocations of one incoming transfer to open invoices, strongest
+ * evidence first: invoice references (split across every referenced invoice
+ * in due-date order), an exact balance match, a set of one customer's
+ * invoices adding up to the amount, then a partial payment of the customer's
+ * oldest invoice.
+ */
+export function proposeMatches(
+  txn: TransactionForMatching,
+  openInvoices: OpenInvoiceCandidate[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): MatchProposal[] {
+  if (txn.amount <= 0) return [];
+  const candidates = openInvoices
+    .filter(c => c.currency === txn.currency && c.balanceDue > 0)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  if (candidates.length === 0) return [];
+
+  const payer = txn.counterpartyName ?? txn.description;
+  const nameScore = new Map(candidates.map(c => [c.id, nameSimilarity(payer, c.customerName)]));
+  const nameReason = (c: OpenInvoiceCandidate) => {
+    const score = nameScore.get(c.id) ?? 0;
+    return score >= 0.6 ? [`Payer name matches ${c.customerName} (${Math.round(score * 100)}%)`] : [];
+  };
+  const dateReason = (c: OpenInvoiceCandidate) =>
+    inDateWindow(txn, c, options.dateWindowDays) ? ["Within the invoice's payment window"] : [];
+
+  // 1. Invoice numbers in the remittance information
+  const referenced = findReferencedInvoices(txn, candidates);
+  if (referenced.length > 0) {
+    const totalBalance = referenced.reduce((s, c) => s + c.balanceDue, 0);
+    const proposals: MatchProposal[] = [];
+    let remaining = txn.amount;
+    for (const invoice of referenced) {
+      if (remaining <= 0) break;
+      const amount = Math.min(remaining, invoice.balanceDue);
+      remaining -= amount;
+      const reasons = [
+        `Reference matches ${invoice.invoiceNumber}`,
+        ...(totalBalance === txn.amount ? [referenced.length > 1 ? "Amount matches the referenced invoices' balances" : "Amount matches the balance due"] : []),
+        ...nameReason(invoice),
+        ...dateReason(invoice),
+      ];
+      const score = 0.6
+        + (totalBalance === txn.amount ? 0.2 : 0)
+        + 0.1 * (nameScore.get(invoice.id) ?? 0)
+        + (dateReason(invoice).length ? 0.1 : 0);
+      proposals.push({ invoiceId: invoice.id, amount, score: round3(score), reasons });
+    }
+    return proposals;
+  }
+
+  // 2. A single invoice with exactly this balance
+  const exact = candidates.filter(c => c.balanceDue === txn.amount);
+  const bestExact = exact
+    .map(c => ({
+      invoice: c,
+      score: 0.35 + 0.4 * (nameScore.get(c.id) ?? 0) + (dateReason(c).length ? 0.15 : 0) + (exact.length === 1 ? 0.1 : 0),
+    }))
+    .sort((a, b) => b.score - a.score)[0];
+  if (bestExact && bestExact.score >= options.minScore) {
+    const c = bestExact.invoice;
+    return [{
+      invoiceId: c.id,
+      amount: txn.amount,
+      score: round3(bestExact.score),
+      reasons: ["Amount matches the balance due", ...(exact.length === 1 ? ["Only open invoice with this balance"] : []), ...nameReason(c), ...dateReason(c)],
+    }];
+  }
+
+  // The remaining strategies need to know who paid
+  const byCustomer = new Map<number, OpenInvoiceCandidate[]>();
+  for (const c of candidates) {
+    if ((nameScore.get(c.id) ?? 0) < 0.6) continue;
+    if (!byCustomer.has(c.customerId)) byCustomer.set(c.customerId, []);
+    byCustomer.get(c.customerId)!.push(c);
+  }
+  const customersByName = Array.from(byCustomer.values())
+    .sort((a, b) => (nameScore.get(b[0].id) ?? 0) - (nameScore.get(a[0].id) ?? 0));
+
+  // 3. Several of one customer's invoices paid in one transfer
+  for (const invoicesForCustomer of customersByName) {
+    const combination = findCombination(invoicesForCustomer, txn.amount, options.maxCombination);
+    if (!combination) continue;
+    const name = nameScore.get(combination[0].id) ?? 0;
+    const score = 0.3 + 0.45 * name + (combination.every(c => dateReason(c).length) ? 0.1 : 0);
+    if (score < options.minScore) continue;
+    return combination.map(c => ({
+      invoiceId: c.id,
+      amount: c.balanceDue,
+      score: round3(score),
+      reasons: [`Amount matches ${combination.length} open invoices combined`, ...nameReason(c), ...dateReason(c)],
+    }));
+  }
+
+  // 4. Part payment of the customer's oldest open invoice
+  const best = customersByName[0];
+  if (best && (nameScore.get(best[0].id) ?? 0) >= 0.85) {
+    const oldest = best[0];
+    const score = round3(0.2 + 0.35 * (nameScore.get(oldest.id) ?? 0));
+    if (score >= options.minScore) {
+      return [{
+        invoiceId: oldest.id,
+        amount: Math.min(txn.amount, oldest.balanceDue),
+        score,
+        reasons: ["Part payment of the customer's oldest open invoice", ...nameReason(oldest), ...dateReason(oldest)],
+      }];
+    }
+  }
+
+  return [];
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new BankReconciliationError("Database not available");
+  return db;
+}
+
+export interface StatementImportResult {
+  importId: number;
+  transactionCount: number;
+  duplicateCount: number;
+  proposedCount: number;
+}
+
+export async function importBankStatement(
+  organizationId: number,
+  file: { fileName: string; content: string; format?: StatementFormat; csv?: CsvStatementOptions },
+  userId?: number | null
+): Promise<StatementImportResult> {
+  const db = await requireDb();
+  const fileHash = createHash("sha256").update(file.content).digest("hex");
+
+  const [existing] = await db.select({ id: bankStatementImports.id })
+    .from(bankStatementImports)
+    .where(and(eq(bankStatementImports.organizationId, organizationId), eq(bankStatementImports.fileHash, fileHash)))
+    .limit(1);
+  if (existing) throw new BankReconciliationError(`${file.fileName} has already been imported`);
+
+  const statement = parseBankStatement(file.content, { format: file.format, fileName: file.fileName, csv: file.csv });
+  const keyed = statement.transactions.map(t => ({ t, dedupeKey: transactionDedupeKey(statement.accountIdentifier, t) }));
+
+  // Overlapping statements repeat transactions; keep the first import of each
+  const keys = keyed.map(k => k.dedupeKey);
+  const seen = new Set<string>();
+  for (let i = 0; i < keys.length; i += 500) {
+    const rows = await db.select({ dedupeKey: bankTransactions.dedupeKey })
+      .from(bankTransactions)
+      .where(and(eq(bankTransactions.organizationId, organizationId), inArray(bankTransactions.dedupeKey, keys.slice(i, i + 500))));
+    rows.forEach(r => seen.add(r.dedupeKey));
+  }
+  const fresh = keyed.filter(k => {
+    if (seen.has(k.dedupeKey)) return false;
+    seen.add(k.dedupeKey);
+    return true;
+  });
+
+  const [result] = await db.insert(bankStatementImports).values({
+    organizationId,
+    fileName: file.fileName,
+    fileHash,
+    format: statement.format,
+    accountIdentifier: statement.accountIdentifier,
+    currency: statement.currency,
+    periodStart: statement.periodStart,
+    periodEnd: statement.periodEnd,
+    openingBalance: statement.openingBalance,
+    closingBalance: statement.closingBalance,
+    transactionCount: fresh.length,
+    duplicateCount: keyed.length - fresh.length,
+    importedBy: userId ?? null,
+  });
+  const importId = Number(result.insertId);
+
+  for (const { t, dedupeKey } of fresh) {
+    await db.insert(bankTransactions).values({
+      organizationId,
+      importId,
+      dedupeKey,
+      externalId: t.externalId?.slice(0, 255) ?? null,
+      bookingDate: t.bookingDate,
+      valueDate: t.valueDate,
+      amount: t.amount,
+      currency: t.currency,
+      counterpartyName: t.counterpartyName?.slice(0, 255) ?? null,
+      counterpartyAccount: t.counterpartyAccount?.slice(0, 100) ?? null,
+      reference: t.reference,
+      description: t.description,
+      // Only money in can pay an invoice
+      status: t.amount > 0 ? "unmatched" : "ignored",
+    });
+  }
+
+  const proposedCount = await proposeMatchesForOrganization(organizationId, { importId });
+  console.log(`[BankReconciliation] Imported ${fresh.length} transactions from ${file.fileName}, ${proposedCount} with proposed matches`);
+
+  return { importId, transactionCount: fresh.length, duplicateCount: keyed.length - fresh.length, proposedCount };
+}
+
+/**
+ * Open invoices with balances net of allocations already proposed for other
+ * transactions, so two transfers aren't both proposed for the same balance
+ */
+async function loadOpenInvoiceCandidates(organizationId: number, currencies: string[]): Promise<OpenInvoiceCandidate[]> {
+  const db = await requireDb();
+  if (currencies.length === 0) return [];
+
+  const rows = await db.select({
+    id: invoices.id,
+    invoiceNumber: invoices.invoiceNumber,
+    customerId: invoices.customerId,
+    customerName: customers.name,
+    companyName: customers.companyName,
+    balanceDue: invoices.balanceDue,
+    currency: invoices.currency,
+    issueDate: invoices.issueDate,
+    dueDate: invoices.dueDate,
+  })
+    .from(invoices)
+    .innerJoin(customers, eq(customers.id, invoices.customerId))
+    .where(and(
+      eq(invoices.organizationId, organizationId),
+      inArray(invoices.status, [...OPEN_INVOICE_STATUSES]),
+      inArray(invoices.currency, currencies),
+      sql`${invoices.balanceDue} > 0`
+    ));
+  if (rows.length === 0) return [];
+
+  const pending = await db.select({
+    invoiceId: bankTransactionMatches.invoiceId,
+    amount: sql<number>`COALESCE(SUM(${bankTransactionMatches.amount}), 0)`,
+  })
+    .from(bankTransactionMatches)
+    .where(and(
+      eq(bankTransactionMatches.organizationId, organizationId),
+      eq(bankTransactionMatches.status, "proposed"),
+      inArray(bankTransactionMatches.invoiceId, rows.map(r => r.id))
+    ))
+    .groupBy(bankTransactionMatches.invoiceId);
+  const pendingByInvoice = new Map(pending.map(p => [p.invoiceId, Number(p.amount)]));
+
+  return rows.map(r => ({
+    id: r.id,
+    invoiceNumber: r.invoiceNumber,
+    customerId: r.customerId,
+    customerName: r.companyName || r.customerName,
+    balanceDue: r.balanceDue - (pendingByInvoice.get(r.id) ?? 0),
+    currency: r.currency || "USD",
+    issueDate: r.issueDate,
+    dueDate: r.dueDate,
+  }));
+}
+
+/** Propose matches for unmatched incoming transactions; returns how many got a proposal */
+export async function proposeMatchesForOrganization(
+  organizationId: number,
+  filter: { importId?: number; transactionIds?: number[] } = {},
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): Promise<number> {
+  const db = await requireDb();
+  const conditions = [
+    eq(bankTransactions.organizationId, organizationId),
+    eq(bankTransactions.status, "unmatched"),
+    sql`${bankTransactions.amount} > 0`,
+  ];
+  if (filter.importId) conditions.push(eq(bankTransactions.importId, filter.importId));
+  if (filter.transactionIds?.length) conditions.push(inArray(bankTransactions.id, filter.transactionIds));
+
+  const txns = await db.select()
+    .from(bankTransactions)
+    .where(and(...conditions))
+    .orderBy(asc(bankTransactions.bookingDate), asc(bankTransactions.id));
+  if (txns.length === 0) return 0;
+
+  const candidates = await loadOpenInvoiceCandidates(organizationId, Array.from(new Set(txns.map(t => t.currency))));
+  let proposed = 0;
+
+  for (const txn of txns) {
+    const proposals = proposeMatches(txn, candidates, options);
+    if (proposals.length === 0) continue;
+
+    for (const p of proposals) {
+      await db.insert(bankTransactionMatches).values({
+        organizationId,
+        transactionId: txn.id,
+        invoiceId: p.invoiceId,
+        amount: p.amount,
+        score: p.score.toFixed(3),
+        reasons: p.reasons,
+      });
+      // Later transfers in the same run see what is left (combined payments)
+      const candidate = candidates.find(c => c.id === p.invoiceId);
+      if (candidate) candidate.balanceDue -= p.amount;
+    }
+    await db.update(bankTransactions).set({ status: "proposed" }).where(eq(bankTransactions.id, txn.id));
+    proposed++;
+  }
+
+  return proposed;
+}
+
+// ============================================================================
+// Review
+// ============================================================================
+
+async function loadTransaction(organizationId: number, transactionId: number) {
+  const db = await requireDb();
+  const [txn] = await db.select()
+    .from(bankTransactions)
+    .where(and(eq(bankTransactions.id, transactionId), eq(bankTransactions.organizationId, organizationId)))
+    .limit(1);
+  if (!txn) throw new BankReconciliationError(`Bank transaction ${transactionId} not found`);
+  return txn;
+}
+
+export interface Allocation {
+  invoiceId: number;
+  amount: number;
+}
+
+/**
+ * Check a split of a transfer before anything is booked and return the total
+ * allocated. Allocations to the same invoice are added together, so the
+ * combined amount must fit the invoice's balance.
+ */
+export function validateAllocations(
+  txn: { amount: number; currency: string },
+  allocations: Allocation[],
+  invoiceRows: Array<Pick<Invoice, "id" | "invoiceNumber" | "currency" | "status" | "balanceDue">>
+): number {
+  if (allocations.length === 0) throw new BankReconciliationError("Transaction has no matches to confirm");
+  if (allocations.some(a => a.amount <= 0)) throw new BankReconciliationError("Allocations must be positive");
+  const total = allocations.reduce((s, a) => s + a.amount, 0);
+  if (total > txn.amount) throw new BankReconciliationError(`Allocations of ${total} exceed the transaction amount of ${txn.amount}`);
+
+  const byInvoice = new Map<number, number>();
+  for (const a of allocations) byInvoice.set(a.invoiceId, (byInvoice.get(a.invoiceId) ?? 0) + a.amount);
+
+  for (const [invoiceId, amount] of Array.from(byInvoice)) {
+    const invoice = invoiceRows.find(i => i.id === invoiceId);
+    if (!invoice) throw new BankReconciliationError(`Invoice ${invoiceId} not found`);
+    if ((invoice.currency || "USD") !== txn.currency) {
+      throw new BankReconciliationError(`Invoice ${invoice.invoiceNumber} is in ${invoice.currency}, the transfer in ${txn.currency}`);
+    }
+    if (!(OPEN_INVOICE_STATUSES as readonly string[]).includes(invoice.status)) {
+      throw new BankReconciliationError(`Invoice ${invoice.invoiceNumber} is ${invoice.status}`);
+    }
+    if (amount > invoice.balanceDue) {
+      throw new BankReconciliationError(`Allocation of ${amount} exceeds the ${invoice.balanceDue} due on ${invoice.invoiceNumber}`);
+    }
+  }
+  return total;
+}
+
+/**
+ * Confirm a transaction's allocations and book them as payments. Without
+ * `allocations` the proposed matches are confirmed as they stand; with them,
+ * the proposals are replaced by the reviewer's own split. The transaction is
+ * claimed first so a second confirm stops, and its payments are booked all
+ * together or not at all.
+ */
+export async function confirmTransactionMatch(
+  organizationId: number,
+  transactionId: number,
+  options: { allocations?: Allocation[]; userId?: number | null } = {}
+): Promise<{ payments: Array<{ invoiceId: number; paymentId: number; amount: number }>; unallocatedAmount: number }> {
+  const db = await requireDb();
+  const txn = await loadTransaction(organizationId, transactionId);
+  if (txn.status === "matched" || txn.status === "ignored" || txn.status === "confirming") {
+    throw new BankReconciliationError(`Transaction is already ${txn.status}`);
+  }
+
+  // Validate before touching the proposals so a bad split leaves them as they were
+  const allocations: Allocation[] = options.allocations ?? await db.select()
+    .from(bankTransactionMatches)
+    .where(and(eq(bankTransactionMatches.transactionId, transactionId), eq(bankTransactionMatches.status, "proposed")));
+  const invoiceIds = Array.from(new Set(allocations.map(a => a.invoiceId)));
+  const invoiceRows = invoiceIds.length === 0 ? [] : await db.select()
+    .from(invoices)
+    .where(and(eq(invoices.organizationId, organizationId), inArray(invoices.id, invoiceIds)));
+  const total = validateAllocations(txn, allocations, invoiceRows);
+
+  const [claim] = await db.update(bankTransactions)
+    .set({ status: "confirming" })
+    .where(and(
+      eq(bankTransactions.id, transactionId),
+      eq(bankTransactions.organizationId, organizationId),
+      inArray(bankTransactions.status, ["proposed", "unmatched"])
+    ));
+  if (claim.affectedRows !== 1) throw new BankReconciliationError("Transaction is already being confirmed");
+
+  let booked: Array<{ invoiceId: number; paymentId: number; amount: number }>;
+  try {
+    booked = await db.transaction(async (tx) => {
+      if (options.allocations) {
+        await tx.update(bankTransactionMatches)
+          .set({ status: "rejected" })
+          .where(and(eq(bankTransactionMatches.transactionId, transactionId), eq(bankTransactionMatches.status, "proposed")));
+        for (const a of options.allocations) {
+          await tx.insert(bankTransactionMatches).values({
+            organizationId,
+            transactionId,
+            invoiceId: a.invoiceId,
+            amount: a.amount,
+            score: "1.000",
+            reasons: ["Matched by reviewer"],
+            source: "manual",
+          });
+        }
+      }
+
+      const matches = await tx.select()
+        .from(bankTransactionMatches)
+        .where(and(eq(bankTransactionMatches.transactionId, transactionId), eq(bankTransactionMatches.status, "proposed")));
+
+      const payments: Array<{ invoiceId: number; paymentId: number; amount: number }> = [];
+      for (const m of matches) {
+        const payment = await bookInvoicePayment(tx, m.invoiceId, {
+          amount: m.amount,
+          paymentMethod: "bank_transfer",
+          referenceNumber: (txn.externalId ?? txn.reference)?.slice(0, 100) ?? null,
+          paymentDate: txn.bookingDate,
+          notes: `Bank statement import #${txn.importId}${txn.reference ? `: ${txn.reference}` : ""}`,
+          recordedBy: options.userId ?? null,
+        });
+        if (!payment) throw new BankReconciliationError(`Invoice ${m.invoiceId} not found`);
+        await tx.update(bankTransactionMatches)
+          .set({ status: "confirmed", paymentId: payment.paymentId, confirmedBy: options.userId ?? null, confirmedAt: new Date() })
+          .where(eq(bankTransactionMatches.id, m.id));
+        payments.push({ invoiceId: m.invoiceId, paymentId: payment.paymentId, amount: m.amount });
+      }
+
+      await tx.update(bankTransactions)
+        .set({ status: "matched", allocatedAmount: total, reviewedBy: options.userId ?? null, reviewedAt: new Date() })
+        .where(eq(bankTransactions.id, transactionId));
+      return payments;
+    });
+  } catch (error) {
+    // Nothing was booked; hand the transaction back to the queue
+    await db.update(bankTransactions).set({ status: txn.status }).where(eq(bankTransactions.id, transactionId));
+    throw error;
+  }
+
+  for (const payment of booked) await snapshotPaymentFx(payment.paymentId);
+  return { payments: booked, unallocatedAmount: txn.amount - total };
+}
+
+/** Reject the proposals; the transaction goes back to the unmatched queue */
+export async function rejectTransactionMatches(organizationId: number, transactionId: number, userId?: number | null): Promise<void> {
+  const db = await requireDb();
+  const txn = await loadTransaction(organizationId, transactionId);
+  if (txn.status === "matched" || txn.status === "confirming") {
+    throw new BankReconciliationError(`Transaction is already ${txn.status}`);
+  }
+
+  // Conditional so a confirm that claimed the transaction in the meantime wins
+  const [result] = await db.update(bankTransactions)
+    .set({ status: "unmatched", reviewedBy: userId ?? null, reviewedAt: new Date() })
+    .where(and(eq(bankTransactions.id, transactionId), inArray(bankTransactions.status, ["proposed", "unmatched", "ignored"])));
+  if (result.affectedRows !== 1) throw new BankReconciliationError("Transaction is being confirmed");
+  await db.update(bankTransactionMatches)
+    .set({ status: "rejected" })
+    .where(and(eq(bankTransactionMatches.transactionId, transactionId), eq(bankTransactionMatches.status, "proposed")));
+}
+
+/** Mark a transaction as not a customer payment (interest, transfers between own accounts) */
+export async function ignoreTransaction(organizationId: number, transactionId: number, userId?: number | null): Promise<void> {
+  const db = await requireDb();
+  const txn = await loadTransaction(organizationId, transactionId);
+  if (txn.status === "matched" || txn.status === "confirming") {
+    throw new BankReconciliationError(`Transaction is already ${txn.status}`);
+  }
+
+  // Conditional so a confirm that claimed the transaction in the meantime wins
+  const [result] = await db.update(bankTransactions)
+    .set({ status: "ignored", reviewedBy: userId ?? null, reviewedAt: new Date() })
+    .where(and(eq(bankTransactions.id, transactionId), inArray(bankTransactions.status, ["proposed", "unmatched", "ignored"])));
+  if (result.affectedRows !== 1) throw new BankReconciliationError("Transaction is being confirmed");
+  await db.update(bankTransactionMatches)
+    .set({ status: "rejected" })
+    .where(and(eq(bankTransactionMatches.transactionId, transactionId), eq(bankTransactionMatches.status, "proposed")));
+}
+
+/** Transactions awaiting review with their proposed allocations */
+export async function getReconciliationQueue(
+  organizationId: number,
+  filter: { importId?: number; status?: "proposed" | "unmatched"; limit?: number } = {}
+) {
+  const db = await requireDb();
+  const conditions = [
+    eq(bankTransactions.organizationId, organizationId),
+    filter.status ? eq(bankTransactions.status, filter.status) : inArray(bankTransactions.status, ["proposed", "unmatched"]),
+  ];
+  if (filter.importId) conditions.push(eq(bankTransactions.importId, filter.importId));
+
+  const txns = await db.select()
+    .from(bankTransactions)
+    .where(and(...conditions))
+    .orderBy(asc(bankTransactions.bookingDate), asc(bankTransactions.id))
+    .limit(filter.limit ?? 200);
+  if (txns.length === 0) return [];
+
+  const proposals = await db.select({
+    match: bankTransactionMatches,
+    invoiceNumber: invoices.invoiceNumber,
+    customerId: invoices.customerId,
+    customerName: customers.name,
+    balanceDue: invoices.balanceDue,
+    dueDate: invoices.dueDate,
+  })
+    .from(bankTransactionMatches)
+    .innerJoin(invoices, eq(invoices.id, bankTransactionMatches.invoiceId))
+    .innerJoin(customers, eq(customers.id, invoices.customerId))
+    .where(and(
+      inArray(bankTransactionMatches.transactionId, txns.map(t => t.id)),
+      eq(bankTransactionMatches.status, "proposed")
+    ));
+
+  return txns.map(txn => ({
+    ...txn,
+    proposals: proposals
+      .filter(p => p.match.transactionId === txn.id)
+      .map(p => ({
+        id: p.match.id,
+        invoiceId: p.match.invoiceId,
+        invoiceNumber: p.invoiceNumber,
+        customerId: p.customerId,
+        customerName: p.customerName,
+        balanceDue: p.balanceDue,
+        dueDate: p.dueDate,
+        amount: p.match.amount,
+        score: Number(p.match.score),
+        reasons: p.match.reasons ?? [],
+      })),
+  }));
+}
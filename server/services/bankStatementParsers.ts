@@ -0,0 +1,536 @@
+/**
+ * Bank Statement Parsers
+ *
+ * Reads CSV, OFX/QFX, ISO 20022 CAMT.053 and SWIFT MT940 statements into one
+ * transaction shape for reconciliation. Amounts are signed integers in minor
+ * units: credits (money in) positive, debits negative.
+ */
+
+import { createHash } from "crypto";
+import { minorUnitDigits } from "./currency";
+
+export type StatementFormat = "csv" | "ofx" | "camt053" | "mt940";
+
+export class BankStatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BankStatementParseError";
+  }
+}
+
+export interface ParsedBankTransaction {
+  externalId: string | null; // bank's own id (FITID, AcctSvcrRef, MT940 bank reference)
+  bookingDate: Date;
+  valueDate: Date | null;
+  amount: number;
+  currency: string;
+  counterpartyName: string | null;
+  counterpartyAccount: string | null;
+  reference: string | null; // remittance information / payment reference
+  description: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  accountIdentifier: string | null;
+  currency: string;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  transactions: ParsedBankTransaction[];
+}
+
+export interface CsvStatementOptions {
+  currency?: string;
+  delimiter?: string; // detected from the header row when omitted
+  dateFormat?: "ymd" | "dmy" | "mdy";
+  decimalSeparator?: "." | ",";
+  // Header names, matched case-insensitively; defaults cover common bank exports
+  columns?: Partial<Record<"date" | "valueDate" | "amount" | "credit" | "debit" | "currency" | "name" | "account" | "reference" | "description" | "id", string>>;
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+/** Decimal string to minor units without going through floats, e.g. "1,234.5" -> 123450 */
+export function toMinorUnits(value: string, currency: string, decimalSeparator: "." | "," = "."): number {
+  let text = value.trim().replace(/\s/g, "");
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith("+")) {
+    text = text.slice(1);
+  }
+  if (text.endsWith("-")) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+
+  const thousands = decimalSeparator === "." ? /,/g : /\./g;
+  text = text.replace(/[^\d.,]/g, "").replace(thousands, "");
+  const [whole, fraction = ""] = text.split(decimalSeparator);
+  if (!/^\d*$/.test(whole) || !/^\d*$/.test(fraction) || (whole === "" && fraction === "")) {
+    throw new BankStatementParseError(`Invalid amount "${value}"`);
+  }
+
+  const digits = minorUnitDigits(currency);
+  const padded = (fraction + "0".repeat(digits)).slice(0, digits);
+  const roundUp = fraction.length > digits && Number(fraction[digits]) >= 5 ? 1 : 0;
+  const minor = Number(whole || "0") * Math.pow(10, digits) + Number(padded || "0") + roundUp;
+  return negative ? -minor : minor;
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1) {
+    throw new BankStatementParseError(`Invalid date ${year}-${month}-${day}`);
+  }
+  return date;
+}
+
+function parseDate(value: string, format: "ymd" | "dmy" | "mdy" = "ymd"): Date {
+  const text = value.trim();
+  // 2026-01-05, 2026/01/05, 20260105, 20260105120000[-5:EST]
+  const ymd = text.match(/^(\d{4})[-/.]?(\d{2})[-/.]?(\d{2})/);
+  if (ymd) return utcDate(Number(ymd[1]), Number(ymd[2]), Number(ymd[3]));
+
+  const parts = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (!parts) throw new BankStatementParseError(`Invalid date "${value}"`);
+  const year = parts[3].length === 2 ? 2000 + Number(parts[3]) : Number(parts[3]);
+  return format === "mdy"
+    ? utcDate(year, Number(parts[1]), Number(parts[2]))
+    : utcDate(year, Number(parts[2]), Number(parts[1]));
+}
+
+const clean = (value: string | null | undefined): string | null => {
+  const text = value?.replace(/\s+/g, " ").trim();
+  return text ? text : null;
+};
+
+/** Stable key for de-duplicating a transaction across overlapping statements */
+export function transactionDedupeKey(accountIdentifier: string | null, t: ParsedBankTransaction): string {
+  const parts = t.externalId
+    ? [accountIdentifier ?? "", t.externalId]
+    : [accountIdentifier ?? "", t.bookingDate.toISOString().slice(0, 10), t.amount, t.reference ?? "", t.counterpartyName ?? ""];
+  return createHash("sha256").update(parts.join("|")).digest("hex");
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+}
+
+const CSV_COLUMN_ALIASES: Record<keyof NonNullable<CsvStatementOptions["columns"]>, string[]> = {
+  date: ["date", "booking date", "transaction date", "posted date", "posting date", "txn date"],
+  valueDate: ["value date"],
+  amount: ["amount", "transaction amount", "amt"],
+  credit: ["credit", "credit amount", "money in", "paid in", "deposit", "deposits"],
+  debit: ["debit", "debit amount", "money out", "paid out", "withdrawal", "withdrawals"],
+  currency: ["currency", "ccy"],
+  name: ["name", "payer", "payee", "counterparty", "counterparty name", "beneficiary", "remitter"],
+  account: ["account", "counterparty account", "iban", "account number"],
+  reference: ["reference", "payment reference", "ref", "remittance information"],
+  description: ["description", "narrative", "details", "memo", "particulars", "transaction details"],
+  id: ["id", "transaction id", "bank reference", "fitid"],
+};
+
+export function parseCsvStatement(content: string, options: CsvStatementOptions = {}): ParsedStatement {
+  const lines = content.replace(/^﻿/, "").split(/\r?\n/).filter(l => l.trim() !== "");
+  if (lines.length < 2) throw new BankStatementParseError("CSV statement has no transactions");
+
+  const delimiter = options.delimiter
+    ?? [",", ";", "\t"].sort((a, b) => lines[0].split(b).length - lines[0].split(a).length)[0];
+  const header = splitCsvLine(lines[0], delimiter).map(h => h.toLowerCase());
+  const column = (key: keyof typeof CSV_COLUMN_ALIASES): number => {
+    const explicit = options.columns?.[key];
+    if (explicit) return header.indexOf(explicit.toLowerCase());
+    return header.findIndex(h => CSV_COLUMN_ALIASES[key].includes(h));
+  };
+
+  const idx = {
+    date: column("date"),
+    valueDate: column("valueDate"),
+    amount: column("amount"),
+    credit: column("credit"),
+    debit: column("debit"),
+    currency: column("currency"),
+    name: column("name"),
+    account: column("account"),
+    reference: column("reference"),
+    description: column("description"),
+    id: column("id"),
+  };
+  if (idx.date < 0) throw new BankStatementParseError("CSV statement has no date column");
+  if (idx.amount < 0 && idx.credit < 0) throw new BankStatementParseError("CSV statement has no amount or credit column");
+
+  const defaultCurrency = (options.currency || "USD").toUpperCase();
+  const decimal = options.decimalSeparator ?? (delimiter === ";" ? "," : ".");
+  const field = (row: string[], i: number) => (i >= 0 ? row[i] ?? "" : "");
+
+  const transactions = lines.slice(1).map((line, n) => {
+    const row = splitCsvLine(line, delimiter);
+    const currency = (clean(field(row, idx.currency)) || defaultCurrency).toUpperCase();
+    let amount: number;
+    try {
+      if (idx.amount >= 0 && field(row, idx.amount)) {
+        amount = toMinorUnits(field(row, idx.amount), currency, decimal);
+      } else {
+        const credit = field(row, idx.credit) ? toMinorUnits(field(row, idx.credit), currency, decimal) : 0;
+        const debit = field(row, idx.debit) ? toMinorUnits(field(row, idx.debit), currency, decimal) : 0;
+        amount = Math.abs(credit) - Math.abs(debit);
+      }
+      return {
+        externalId: clean(field(row, idx.id)),
+        bookingDate: parseDate(field(row, idx.date), options.dateFormat),
+        valueDate: field(row, idx.valueDate) ? parseDate(field(row, idx.valueDate), options.dateFormat) : null,
+        amount,
+        currency,
+        counterpartyName: clean(field(row, idx.name)),
+        counterpartyAccount: clean(field(row, idx.account)),
+        reference: clean(field(row, idx.reference)),
+        description: clean(field(row, idx.description)),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new BankStatementParseError(`Row ${n + 2}: ${message}`);
+    }
+  });
+
+  const dates = transactions.map(t => t.bookingDate.getTime());
+  return {
+    format: "csv",
+    accountIdentifier: null,
+    currency: transactions[0]?.currency ?? defaultCurrency,
+    periodStart: dates.length ? new Date(Math.min(...dates)) : null,
+    periodEnd: dates.length ? new Date(Math.max(...dates)) : null,
+    openingBalance: null,
+    closingBalance: null,
+    transactions,
+  };
+}
+
+// ============================================================================
+// OFX / QFX
+// ============================================================================
+
+// OFX 1.x is SGML without closing tags, 2.x is XML; read each tag's text either way
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? clean(match[1]) : null;
+}
+
+function ofxBlocks(content: string, tag: string): string[] {
+  const blocks: string[] = [];
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)(?=</${tag}>|<${tag}>|</BANKTRANLIST>|$)`, "gi");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) blocks.push(match[1]);
+  return blocks;
+}
+
+export function parseOfxStatement(content: string): ParsedStatement {
+  if (!/<OFX>/i.test(content)) throw new BankStatementParseError("Not an OFX statement");
+  const currency = (ofxValue(content, "CURDEF") || "USD").toUpperCase();
+
+  const transactions = ofxBlocks(content, "STMTTRN").map(block => {
+    const posted = ofxValue(block, "DTPOSTED");
+    const amount = ofxValue(block, "TRNAMT");
+    if (!posted || !amount) throw new BankStatementParseError("OFX transaction without DTPOSTED or TRNAMT");
+    const memo = ofxValue(block, "MEMO");
+    return {
+      externalId: ofxValue(block, "FITID"),
+      bookingDate: parseDate(posted),
+      valueDate: ofxValue(block, "DTAVAIL") ? parseDate(ofxValue(block, "DTAVAIL")!) : null,
+      amount: toMinorUnits(amount, currency),
+      currency,
+      counterpartyName: ofxValue(block, "NAME") ?? ofxValue(block, "PAYEE"),
+      counterpartyAccount: null,
+      reference: ofxValue(block, "REFNUM") ?? ofxValue(block, "CHECKNUM") ?? memo,
+      description: memo,
+    };
+  });
+
+  const ledger = ofxBlocks(content, "LEDGERBAL")[0];
+  const start = ofxValue(content, "DTSTART");
+  const end = ofxValue(content, "DTEND");
+  return {
+    format: "ofx",
+    accountIdentifier: ofxValue(content, "ACCTID"),
+    currency,
+    periodStart: start ? parseDate(start) : null,
+    periodEnd: end ? parseDate(end) : null,
+    openingBalance: null,
+    closingBalance: ledger && ofxValue(ledger, "BALAMT") ? toMinorUnits(ofxValue(ledger, "BALAMT")!, currency) : null,
+    transactions,
+  };
+}
+
+// ============================================================================
+// CAMT.053
+// ============================================================================
+
+function xmlBlocks(content: string, tag: string): string[] {
+  const blocks: string[] = [];
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "g");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) blocks.push(match[1]);
+  return blocks;
+}
+
+function xmlValue(content: string, path: string[]): string | null {
+  let scope: string | undefined = content;
+  for (const tag of path) {
+    scope = xmlBlocks(scope, tag)[0];
+    if (scope === undefined) return null;
+  }
+  return clean(decodeXml(scope));
+}
+
+function xmlAttr(content: string, tag: string, attr: string): string | null {
+  const match = content.match(new RegExp(`<(?:\\w+:)?${tag}\\s[^>]*${attr}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export function parseCamt053Statement(content: string): ParsedStatement {
+  const statement = xmlBlocks(content, "Stmt")[0];
+  if (!statement) throw new BankStatementParseError("Not a CAMT.053 statement");
+
+  const account = xmlBlocks(statement, "Acct")[0] ?? "";
+  const accountCurrency = xmlValue(account, ["Ccy"]);
+
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  for (const bal of xmlBlocks(statement, "Bal")) {
+    const code = xmlValue(bal, ["Tp", "CdOrPrtry", "Cd"]);
+    const amount = xmlValue(bal, ["Amt"]);
+    if (!amount) continue;
+    const currency = xmlAttr(bal, "Amt", "Ccy") || accountCurrency || "EUR";
+    const signed = toMinorUnits(amount, currency) * (xmlValue(bal, ["CdtDbtInd"]) === "DBIT" ? -1 : 1);
+    if (code === "OPBD" || code === "PRCD") openingBalance = signed;
+    if (code === "CLBD") closingBalance = signed;
+  }
+
+  const transactions = xmlBlocks(statement, "Ntry").map(entry => {
+    const amount = xmlValue(entry, ["Amt"]);
+    const booked = xmlValue(entry, ["BookgDt", "Dt"]) ?? xmlValue(entry, ["BookgDt", "DtTm"]);
+    if (!amount || !booked) throw new BankStatementParseError("CAMT.053 entry without Amt or BookgDt");
+    const currency = xmlAttr(entry, "Amt", "Ccy") || accountCurrency || "EUR";
+    const credit = xmlValue(entry, ["CdtDbtInd"]) !== "DBIT";
+
+    // Money in names the debtor as counterparty, money out the creditor
+    const parties = xmlBlocks(entry, "RltdPties")[0] ?? "";
+    const party = credit ? "Dbtr" : "Cdtr";
+    const remittance = xmlBlocks(entry, "RmtInf")[0] ?? "";
+    const structuredRef = xmlValue(remittance, ["Strd", "CdtrRefInf", "Ref"]);
+    const unstructured = xmlBlocks(remittance, "Ustrd").map(u => clean(decodeXml(u))).filter(Boolean).join(" ") || null;
+    const endToEnd = xmlValue(entry, ["Refs", "EndToEndId"]);
+    const valueDate = xmlValue(entry, ["ValDt", "Dt"]);
+
+    return {
+      externalId: xmlValue(entry, ["AcctSvcrRef"]) ?? xmlValue(entry, ["NtryRef"]),
+      bookingDate: parseDate(booked),
+      valueDate: valueDate ? parseDate(valueDate) : null,
+      amount: toMinorUnits(amount, currency) * (credit ? 1 : -1),
+      currency,
+      counterpartyName: xmlValue(parties, [party, "Nm"]) ?? xmlValue(parties, [party, "Pty", "Nm"]),
+      counterpartyAccount: xmlValue(parties, [`${party}Acct`, "Id", "IBAN"]) ?? xmlValue(parties, [`${party}Acct`, "Id", "Othr", "Id"]),
+      reference: structuredRef ?? unstructured ?? (endToEnd && endToEnd !== "NOTPROVIDED" ? endToEnd : null),
+      description: unstructured ?? xmlValue(entry, ["AddtlNtryInf"]),
+    };
+  });
+
+  const fromDate = xmlValue(statement, ["FrToDt", "FrDtTm"]);
+  const toDate = xmlValue(statement, ["FrToDt", "ToDtTm"]);
+  return {
+    format: "camt053",
+    accountIdentifier: xmlValue(account, ["Id", "IBAN"]) ?? xmlValue(account, ["Id", "Othr", "Id"]),
+    currency: accountCurrency || transactions[0]?.currency || "EUR",
+    periodStart: fromDate ? parseDate(fromDate) : null,
+    periodEnd: toDate ? parseDate(toDate) : null,
+    openingBalance,
+    closingBalance,
+    transactions,
+  };
+}
+
+// ============================================================================
+// MT940
+// ============================================================================
+
+function mt940Fields(content: string): Array<{ tag: string; value: string }> {
+  const fields: Array<{ tag: string; value: string }> = [];
+  for (const line of content.replace(/\r/g, "").split("\n")) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) fields.push({ tag: match[1], value: match[2] });
+    else if (fields.length && line.trim() && !line.startsWith("-}") && line.trim() !== "-") {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+function mt940Date(yymmdd: string): Date {
+  const year = Number(yymmdd.slice(0, 2));
+  return utcDate(year < 70 ? 2000 + year : 1900 + year, Number(yymmdd.slice(2, 4)), Number(yymmdd.slice(4, 6)));
+}
+
+function mt940Balance(value: string): { amount: number; currency: string; date: Date } | null {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) return null;
+  const amount = toMinorUnits(match[4], match[3], ",");
+  return { amount: match[1] === "D" ? -amount : amount, currency: match[3], date: mt940Date(match[2]) };
+}
+
+// Narrative subfields (?20-?29 remittance, ?32/?33 name, ?31 account) used by many banks in :86:
+function mt940Narrative(value: string): { reference: string | null; name: string | null; account: string | null; text: string } {
+  const flat = value.replace(/\n/g, "");
+  if (!/\?\d{2}/.test(flat)) return { reference: null, name: null, account: null, text: clean(value.replace(/\n/g, " ")) ?? "" };
+  const sub = new Map<string, string>();
+  for (const match of Array.from(flat.matchAll(/\?(\d{2})([^?]*)/g))) {
+    sub.set(match[1], (sub.get(match[1]) ?? "") + match[2]);
+  }
+  const remittance = ["20", "21", "22", "23", "24", "25", "26", "27", "28", "29"].map(k => sub.get(k) ?? "").join("");
+  return {
+    reference: clean(remittance),
+    name: clean(`${sub.get("32") ?? ""}${sub.get("33") ?? ""}`),
+    account: clean(sub.get("31")),
+    text: clean(remittance) ?? "",
+  };
+}
+
+export function parseMt940Statement(content: string): ParsedStatement {
+  const fields = mt940Fields(content);
+  if (!fields.some(f => f.tag === "61")) {
+    if (!fields.some(f => f.tag === "20")) throw new BankStatementParseError("Not an MT940 statement");
+  }
+
+  let accountIdentifier: string | null = null;
+  let opening: ReturnType<typeof mt940Balance> = null;
+  let closing: ReturnType<typeof mt940Balance> = null;
+  let currency = "EUR";
+  const transactions: ParsedBankTransaction[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const { tag, value } = fields[i];
+    if (tag === "25" && !accountIdentifier) accountIdentifier = clean(value);
+    else if ((tag === "60F" || tag === "60M") && !opening) {
+      opening = mt940Balance(value);
+      if (opening) currency = opening.currency;
+    } else if (tag === "62F" || tag === "62M") closing = mt940Balance(value);
+    else if (tag === "61") {
+      // YYMMDD[MMDD](C|D|RC|RD)[funds code]amount(type code)(customer ref)[//bank ref]
+      const match = value.split("\n")[0].match(/^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?([\d,]+)([NSF][A-Z0-9]{3})(.*?)(?:\/\/(.*))?$/);
+      if (!match) throw new BankStatementParseError(`Invalid MT940 :61: line "${value}"`);
+      const valueDate = mt940Date(match[1]);
+      let bookingDate = valueDate;
+      if (match[2]) {
+        bookingDate = utcDate(valueDate.getUTCFullYear(), Number(match[2].slice(0, 2)), Number(match[2].slice(2, 4)));
+        // Booked in January for a December value date, or vice versa
+        const days = (bookingDate.getTime() - valueDate.getTime()) / 86_400_000;
+        if (days < -180) bookingDate = utcDate(valueDate.getUTCFullYear() + 1, bookingDate.getUTCMonth() + 1, bookingDate.getUTCDate());
+        if (days > 180) bookingDate = utcDate(valueDate.getUTCFullYear() - 1, bookingDate.getUTCMonth() + 1, bookingDate.getUTCDate());
+      }
+      const credit = match[3] === "C" || match[3] === "RD";
+      const amount = toMinorUnits(match[5], currency, ",");
+      const customerRef = clean(match[7]);
+
+      const next = fields[i + 1];
+      const narrative = next?.tag === "86" ? mt940Narrative(next.value) : null;
+      if (next?.tag === "86") i++;
+
+      transactions.push({
+        externalId: clean(match[8]),
+        bookingDate,
+        valueDate,
+        amount: credit ? amount : -amount,
+        currency,
+        counterpartyName: narrative?.name ?? null,
+        counterpartyAccount: narrative?.account ?? null,
+        reference: narrative?.reference ?? (customerRef && customerRef !== "NONREF" ? customerRef : null),
+        description: narrative?.text || null,
+      });
+    }
+  }
+
+  return {
+    format: "mt940",
+    accountIdentifier,
+    currency,
+    periodStart: opening?.date ?? transactions[0]?.bookingDate ?? null,
+    periodEnd: closing?.date ?? transactions[transactions.length - 1]?.bookingDate ?? null,
+    openingBalance: opening?.amount ?? null,
+    closingBalance: closing?.amount ?? null,
+    transactions,
+  };
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+export function detectStatementFormat(content: string, fileName?: string): StatementFormat {
+  const head = content.slice(0, 4000);
+  if (/<OFX>|OFXHEADER/i.test(head) || /\.(ofx|qfx)$/i.test(fileName ?? "")) return "ofx";
+  if (/camt\.053|<(\w+:)?BkToCstmrStmt>/.test(head)) return "camt053";
+  if (/^:20:/m.test(head) && /^:(60F|61):/m.test(content) || /\.(sta|mt940)$/i.test(fileName ?? "")) return "mt940";
+  return "csv";
+}
+
+export function parseBankStatement(
+  content: string,
+  options: { format?: StatementFormat; fileName?: string; csv?: CsvStatementOptions } = {}
+): ParsedStatement {
+  const format = options.format ?? detectStatementFormat(content, options.fileName);
+  switch (format) {
+    case "ofx":
+      return parseOfxStatement(content);
+    case "camt053":
+      return parseCamt053Statement(content);
+    case "mt940":
+      return parseMt940Statement(content);
+    default:
+      return parseCsvStatement(content, options.csv);
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * CalDAV Endpoint
+ *
+ * A read-only CalDAV server (RFC 4791) exposing a feed's obligations as a
+ * single calendar, so any calendar client can subscribe with the feed token
+ * instead of OAuth. Requests are handled as plain data so the HTTP layer
+ * (see calendarFeed.ts) stays thin:
+ *
+ *   {base}/                          service root
+ *   {base}/principal/                the feed's principal
+ *   {base}/calendars/                calendar home
+ *   {base}/calendars/obligations/    the calendar collection
+ *   {base}/calendars/obligations/obligation-12.ics
+ *
+ * Clients discover changes through the collection's getctag and each
+ * resource's ETag, and fetch with calendar-query or calendar-multiget.
+ */
+
+import { createHash } from "crypto";
+import type { Obligation } from "../../drizzle/schema";
+import { CalendarSyncService, generateICalEvent } from "./calendarAdapter";
+import { parseICalDate } from "./icalendar";
+import { expandRecurrence } from "./recurrenceRule";
+import {
+  CALDAV_NS,
+  CALSERVER_NS,
+  DAV_NS,
+  elementAttributes,
+  elementContents,
+  requestedProps,
+  rootElementName,
+  xmlEscape,
+  xmlUnescape
+} from "./caldavXml";
+
+export const CALENDAR_SLUG = "obligations";
+
+// Obligations are shown as one-hour events at their due time
+const EVENT_DURATION_MS = 3600000;
+
+export interface CalDavResource {
+  name: string;
+  etag: string;
+  ics: string;
+  start: Date | null;
+  recurrenceRule: string | null;
+  timezone: string;
+}
+
+export interface CalDavCalendar {
+  basePath: string;
+  displayName: string;
+  ctag: string;
+  resources: CalDavResource[];
+  // Full feed served for GET on the collection
+  ics: string;
+}
+
+export interface CalDavRequest {
+  method: string;
+  path: string;
+  depth?: string;
+  body?: string;
+}
+
+export interface CalDavResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const XML_HEADERS = { "Content-Type": "application/xml; charset=utf-8" };
+const DAV_HEADERS = {
+  "DAV": "1, 3, calendar-access",
+  "Allow": "OPTIONS, GET, HEAD, PROPFIND, REPORT"
+};
+
+export function obligationResource(obligation: Obligation): CalDavResource {
+  return {
+    name: `obligation-${obligation.id}.ics`,
+    etag: `"${obligation.id}-${obligation.updatedAt.getTime()}"`,
+    ics: generateICalEvent(obligation),
+    start: obligation.dueAt ?? obligation.startAt,
+    recurrenceRule: obligation.recurrenceRule,
+    timezone: obligation.timezone || "UTC"
+  };
+}
+
+export function buildCalDavCalendar(basePath: string, displayName: string, obligations: Obligation[]): CalDavCalendar {
+  const dated = obligations.filter(o => o.dueAt || o.startAt);
+  const resources = dated.map(obligationResource);
+  const ctag = createHash("sha1").update(resources.map(r => `${r.name}:${r.etag}`).join("\n")).digest("hex");
+  return {
+    basePath: basePath.replace(/\/$/, ""),
+    displayName,
+    ctag,
+    resources,
+    ics: CalendarSyncService.generateICalFeed(dated)
+  };
+}
+
+/** Whether a resource has an instance overlapping [start, end) */
+export function overlapsRange(resource: CalDavResource, start: Date | null, end: Date | null): boolean {
+  if (!resource.start) return false;
+  const from = start?.getTime() ?? -Infinity;
+  const to = end?.getTime() ?? Infinity;
+
+  if (resource.recurrenceRule) {
+    try {
+      return expandRecurrence(resource.recurrenceRule, resource.start, {
+        timezone: resource.timezone,
+        from: new Date(Math.max(from - EVENT_DURATION_MS + 1, resource.start.getTime())),
+        to: end ? new Date(to - 1) : undefined,
+        limit: 1
+      }).length > 0;
+    } catch {
+      return true;
+    }
+  }
+
+  const t = resource.start.getTime();
+  return t < to && t + EVENT_DURATION_MS > from;
+}
+
+// ---------------------------------------------------------------------------
+// Properties
+// ---------------------------------------------------------------------------
+
+type PropValues = Record<string, string>;
+
+function href(path: string): string {
+  return `<D:href>${xmlEscape(path)}</D:href>`;
+}
+
+function paths(calendar: CalDavCalendar) {
+  const base = calendar.basePath;
+  return {
+    root: `${base}/`,
+    principal: `${base}/principal/`,
+    home: `${base}/calendars/`,
+    collection: `${base}/calendars/${CALENDAR_SLUG}/`
+  };
+}
+
+function principalProps(calendar: CalDavCalendar): PropValues {
+  const p = paths(calendar);
+  return {
+    "current-user-principal": `<D:current-user-principal>${href(p.principal)}</D:current-user-principal>`,
+    "principal-URL": `<D:principal-URL>${href(p.principal)}</D:principal-URL>`,
+    "calendar-home-set": `<C:calendar-home-set>${href(p.home)}</C:calendar-home-set>`
+  };
+}
+
+function rootProps(calendar: CalDavCalendar, isPrincipal: boolean): PropValues {
+  return {
+    "resourcetype": isPrincipal
+      ? "<D:resourcetype><D:collection/><D:principal/></D:resourcetype>"
+      : "<D:resourcetype><D:collection/></D:resourcetype>",
+    "displayname": `<D:displayname>${xmlEscape(calendar.displayName)}</D:displayname>`,
+    ...principalProps(calendar)
+  };
+}
+
+function homeProps(calendar: CalDavCalendar): PropValues {
+  return {
+    "resourcetype": "<D:resourcetype><D:collection/></D:resourcetype>",
+    "displayname": "<D:displayname>Calendars</D:displayname>",
+    ...principalProps(calendar)
+  };
+}
+
+function collectionProps(calendar: CalDavCalendar): PropValues {
+  return {
+    "resourcetype": "<D:resourcetype><D:collection/><C:calendar/></D:resourcetype>",
+    "displayname": `<D:displayname>${xmlEscape(calendar.displayName)}</D:displayname>`,
+    "getctag": `<CS:getctag>${calendar.ctag}</CS:getctag>`,
+    "supported-calendar-component-set": "<C:supported-calendar-component-set><C:comp name=\"VEVENT\"/></C:supported-calendar-component-set>",
+    "supported-report-set": "<D:supported-report-set>"
+      + "<D:supported-report><D:report><C:calendar-query/></D:report></D:supported-report>"
+      + "<D:supported-report><D:report><C:calendar-multiget/></D:report></D:supported-report>"
+      + "</D:supported-report-set>",
+    "current-user-privilege-set": "<D:current-user-privilege-set><D:privilege><D:read/></D:privilege></D:current-user-privilege-set>",
+    ...principalProps(calendar)
+  };
+}
+
+function resourceProps(resource: CalDavResource, withData: boolean): PropValues {
+  const props: PropValues = {
+    "resourcetype": "<D:resourcetype/>",
+    "getetag": `<D:getetag>${xmlEscape(resource.etag)}</D:getetag>`,
+    "getcontenttype": "<D:getcontenttype>text/calendar; charset=utf-8</D:getcontenttype>"
+  };
+  if (withData) {
+    props["calendar-data"] = `<C:calendar-data>${xmlEscape(resource.ics)}</C:calendar-data>`;
+  }
+  return props;
+}
+
+/** A <response> with the requested props; all of them when none were named */
+function propResponse(path: string, props: PropValues, requested: string[]): string {
+  const names = requested.length ? requested.filter(name => name in props) : Object.keys(props);
+  const found = names.map(name => props[name]).join("");
+  return `<D:response>${href(path)}<D:propstat><D:prop>${found}</D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>`;
+}
+
+function multistatus(responses: string[]): CalDavResponse {
+  return {
+    status: 207,
+    headers: XML_HEADERS,
+    body: `<?xml version="1.0" encoding="utf-8"?>\n<D:multistatus xmlns:D="${DAV_NS}" xmlns:C="${CALDAV_NS}" xmlns:CS="${CALSERVER_NS}">`
+      + responses.join("")
+      + "</D:multistatus>"
+  };
+}
+
+function davError(status: number, condition: string, message: string): CalDavResponse {
+  return {
+    status,
+    headers: XML_HEADERS,
+    body: `<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="${DAV_NS}" xmlns:C="${CALDAV_NS}">${condition}<D:responsedescription>${xmlEscape(message)}</D:responsedescription></D:error>`
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Request handling
+// ---------------------------------------------------------------------------
+
+type Target =
+  | { kind: "root" | "principal" | "home" | "collection" }
+  | { kind: "resource"; resource: CalDavResource }
+  | { kind: "missing" };
+
+function resolveTarget(calendar: CalDavCalendar, path: string): Target {
+  const relative = path.startsWith(calendar.basePath) ? path.slice(calendar.basePath.length) : path;
+  const normalized = `/${relative.split("/").filter(Boolean).map(s => decodeURIComponent(s)).join("/")}`;
+
+  if (normalized === "/") return { kind: "root" };
+  if (normalized === "/principal") return { kind: "principal" };
+  if (normalized === "/calendars") return { kind: "home" };
+  if (normalized === `/calendars/${CALENDAR_SLUG}`) return { kind: "collection" };
+
+  const prefix = `/calendars/${CALENDAR_SLUG}/`;
+  if (normalized.startsWith(prefix)) {
+    const resource = calendar.resources.find(r => r.name === normalized.slice(prefix.length));
+    if (resource) return { kind: "resource", resource };
+  }
+  return { kind: "missing" };
+}
+
+function handlePropfind(calendar: CalDavCalendar, target: Target, depth: string, body: string): CalDavResponse {
+  const requested = /<(?:[\w.-]+:)?allprop[\s/>]/.test(body) ? [] : requestedProps(body);
+  const children = depth !== "0";
+  const p = paths(calendar);
+
+  switch (target.kind) {
+    case "root":
+    case "principal":
+      return multistatus([propResponse(target.kind === "root" ? p.root : p.principal, rootProps(calendar, target.kind === "principal"), requested)]);
+    case "home":
+      return multistatus([
+        propResponse(p.home, homeProps(calendar), requested),
+        ...(children ? [propResponse(p.collection, collectionProps(calendar), requested)] : [])
+      ]);
+    case "collection":
+      return multistatus([
+        propResponse(p.collection, collectionProps(calendar), requested),
+        ...(children
+          ? calendar.resources.map(r => propResponse(`${p.collection}${r.name}`, resourceProps(r, requested.includes("calendar-data")), requested))
+          : [])
+      ]);
+    case "resource":
+      return multistatus([
+        propResponse(`${p.collection}${target.resource.name}`, resourceProps(target.resource, requested.includes("calendar-data")), requested)
+      ]);
+    default:
+      return { status: 404, headers: {}, body: "" };
+  }
+}
+
+function handleReport(calendar: CalDavCalendar, target: Target, body: string): CalDavResponse {
+  if (target.kind !== "collection" && target.kind !== "resource") {
+    return davError(403, "<D:supported-report/>", "Reports are supported on the calendar collection");
+  }
+  const requested = requestedProps(body);
+  const collection = paths(calendar).collection;
+  const report = rootElementName(body);
+
+  if (report === "calendar-query") {
+    const range = elementAttributes(body, "time-range");
+    const start = range?.start ? parseICalDate(range.start)?.date ?? null : null;
+    const end = range?.end ? parseICalDate(range.end)?.date ?? null : null;
+    const resources = target.kind === "resource" ? [target.resource] : calendar.resources;
+
+    return multistatus(resources
+      .filter(r => !range || overlapsRange(r, start, end))
+      .map(r => propResponse(`${collection}${r.name}`, resourceProps(r, true), requested)));
+  }
+
+  if (report === "calendar-multiget") {
+    const hrefs = elementContents(body, "href").map(h => xmlUnescape(h.trim()));
+    return multistatus(hrefs.map(path => {
+      const found = resolveTarget(calendar, path);
+      return found.kind === "resource"
+        ? propResponse(path, resourceProps(found.resource, true), requested)
+        : `<D:response>${href(path)}<D:status>HTTP/1.1 404 Not Found</D:status></D:response>`;
+    }));
+  }
+
+  return davError(403, "<D:supported-report/>", `Unsupported report ${report ?? ""}`.trim());
+}
+
+/**
+ * Handle one CalDAV request against a calendar. The endpoint is read-only.
+ */
+export function handleCalDavRequest(request: CalDavRequest, calendar: CalDavCalendar): CalDavResponse {
+  const method = request.method.toUpperCase();
+  const target = resolveTarget(calendar, request.path);
+
+  if (method === "OPTIONS") {
+    return { status: 200, headers: DAV_HEADERS, body: "" };
+  }
+
+  switch (method) {
+    case "PROPFIND":
+      return handlePropfind(calendar, target, request.depth ?? "0", request.body ?? "");
+    case "REPORT":
+      return handleReport(calendar, target, request.body ?? "");
+    case "GET":
+    case "HEAD": {
+      if (target.kind === "resource") {
+        return {
+          status: 200,
+          headers: { "Content-Type": "text/calendar; charset=utf-8", "ETag": target.resource.etag },
+          body: method === "HEAD" ? "" : target.resource.ics
+        };
+      }
+      if (target.kind === "collection") {
+        return {
+          status: 200,
+          headers: { "Content-Type": "text/calendar; charset=utf-8", "ETag": `"${calendar.ctag}"` },
+          body: method === "HEAD" ? "" : calendar.ics
+        };
+      }
+      return { status: target.kind === "missing" ? 404 : 405, headers: DAV_HEADERS, body: "" };
+    }
+    case "PUT":
+    case "DELETE":
+    case "PROPPATCH":
+    case "MKCALENDAR":
+    case "MOVE":
+    case "COPY":
+      return davError(403, "<D:need-privileges/>", "This calendar is read-only");
+    default:
+      return { status: 405, headers: DAV_HEADERS, body: "" };
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * WebDAV/CalDAV XML helpers
+ *
+ * Just enough XML handling for CalDAV multistatus responses and the
+ * PROPFIND/REPORT bodies calendar clients send. Elements are matched by
+ * local name so any namespace prefix (D:, d:, or a default namespace) works.
+ */
+
+export const DAV_NS = "DAV:";
+export const CALDAV_NS = "urn:ietf:params:xml:ns:caldav";
+export const CALSERVER_NS = "http://calendarserver.org/ns/";
+
+export function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function xmlUnescape(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+const PREFIX = "(?:[\\w.-]+:)?";
+
+/** Inner XML of every element with the given local name */
+export function elementContents(xml: string, localName: string): string[] {
+  const pattern = new RegExp(`<${PREFIX}${localName}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${PREFIX}${localName}\\s*>)`, "g");
+  return Array.from(xml.matchAll(pattern)).map(match => match[1] ?? "");
+}
+
+/** Attributes of the first element with the given local name */
+export function elementAttributes(xml: string, localName: string): Record<string, string> | null {
+  const match = xml.match(new RegExp(`<${PREFIX}${localName}(\\s[^>]*?)?/?>`));
+  if (!match) return null;
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of Array.from((match[1] ?? "").matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g))) {
+    attributes[name.replace(/^[\w.-]+:/, "")] = xmlUnescape(value);
+  }
+  return attributes;
+}
+
+/** Local name of the document element, e.g. "calendar-query" */
+export function rootElementName(xml: string): string | null {
+  const match = xml.replace(/<\?xml[\s\S]*?\?>/, "").match(/<(?:[\w.-]+:)?([\w-]+)[\s/>]/);
+  return match ? match[1] : null;
+}
+
+/** Local names of the children of the first <prop> element */
+export function requestedProps(xml: string): string[] {
+  const [prop] = elementContents(xml, "prop");
+  if (prop === undefined) return [];
+  return Array.from(prop.matchAll(/<(?:[\w.-]+:)?([\w-]+)[\s/>]/g)).map(match => match[1]);
+}
+
+export interface MultistatusResponse {
+  href: string;
+  status: number;
+  etag?: string;
+  calendarData?: string;
+}
+
+/**
+ * Parse a 207 Multi-Status body. A response's status is its own <status>
+ * (as in sync-collection deletions) or that of the propstat holding its props.
+ */
+export function parseMultistatus(xml: string): { responses: MultistatusResponse[]; syncToken?: string } {
+  const statusCode = (text: string | undefined) => {
+    const match = text?.match(/HTTP\/[\d.]+\s+(\d{3})/);
+    return match ? parseInt(match[1], 10) : undefined;
+  };
+
+  const responses = elementContents(xml, "response").map(body => {
+    const propstats = elementContents(body, "propstat");
+    const ok = propstats.find(p => statusCode(elementContents(p, "status")[0]) === 200);
+    const ownStatus = statusCode(elementContents(body.replace(/<(?:[\w.-]+:)?propstat[\s\S]*?<\/(?:[\w.-]+:)?propstat\s*>/g, ""), "status")[0]);
+    const etag = ok ? elementContents(ok, "getetag")[0] : undefined;
+    const calendarData = ok ? elementContents(ok, "calendar-data")[0] : undefined;
+
+    return {
+      href: xmlUnescape(elementContents(body, "href")[0]?.trim() ?? ""),
+      status: ownStatus ?? (ok ? 200 : statusCode(elementContents(propstats[0] ?? "", "status")[0]) ?? 200),
+      etag: etag ? xmlUnescape(etag.trim()) : undefined,
+      calendarData: calendarData ? xmlUnescape(calendarData) : undefined
+    };
+  });
+
+  // The collection's sync-token is a direct child of multistatus, after the responses
+  const tail = xml.slice(xml.lastIndexOf("response>") + "response>".length);
+  const syncToken = elementContents(tail, "sync-token")[0];
+
+  return { responses, syncToken: syncToken ? xmlUnescape(syncToken.trim()) : undefined };
+}
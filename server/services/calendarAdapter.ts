@@ -2,22 +2,22 @@
  * Phase 36: Calendar Adapter Framework
  * 
  * Provides a unified interface for syncing obligations with external calendars.
- * Supports Google Calendar, Outlook, and iCal export.
+ * Supports Google Calendar, Outlook (Microsoft Graph), CalDAV servers such as
+ * iCloud, and iCal export. Adapters report incremental changes from a sync
+ * cursor so edits made in the calendar can flow back (see calendarSync.ts).
  */
 
+import { randomUUID } from "crypto";
 import {
-  getObligationById
+  getObligationById,
+  getCalendarBindingsForUser,
+  getExternalCalendarEvent,
+  upsertExternalCalendarEvent
 } from "../db";
-import type { Obligation } from "../../drizzle/schema";
-
-// Placeholder types until db functions are implemented
-type CalendarIntegration = {
-  id: number;
-  provider: string;
-  credentials: unknown;
-  isActive: boolean;
-  syncEnabled: boolean;
-};
+import type { Obligation, ExternalCalendarBinding } from "../../drizzle/schema";
+import { recurrenceLines } from "./recurrenceRule";
+import { escapeICalText, foldICalLine, formatICalDate, parseICalEvents, type ICalEvent } from "./icalendar";
+import { parseMultistatus, xmlEscape } from "./caldavXml";
 
 // Types
 export interface CalendarEvent {
@@ -31,6 +31,21 @@ export interface CalendarEvent {
   reminders?: { method: string; minutes: number }[];
   recurrence?: string[];
   extendedProperties?: Record<string, string>;
+  // Provider change tracking (etag / last modified)
+  version?: string;
+  updatedAt?: Date;
+}
+
+/** An event created, changed or deleted in the calendar since the last sync */
+export interface CalendarChange {
+  externalEventId: string;
+  deleted: boolean;
+  event?: CalendarEvent;
+}
+
+export interface CalendarChanges {
+  changes: CalendarChange[];
+  nextSyncToken: string;
 }
 
 export interface CalendarAdapter {
@@ -40,6 +55,8 @@ export interface CalendarAdapter {
   deleteEvent(eventId: string): Promise<boolean>;
   getEvent(eventId: string): Promise<CalendarEvent | null>;
   listEvents(start: Date, end: Date): Promise<CalendarEvent[]>;
+  /** Changes since `syncToken`, or every event when it is null */
+  listChanges(syncToken: string | null): Promise<CalendarChanges>;
 }
 
 export interface CalendarCredentials {
@@ -47,6 +64,22 @@ export interface CalendarCredentials {
   refreshToken?: string;
   expiresAt?: Date;
   calendarId?: string;
+  username?: string;
+}
+
+export class CalendarApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "CalendarApiError";
+  }
+}
+
+/** The provider no longer accepts the sync cursor; a full sync is needed */
+export class SyncTokenExpiredError extends Error {
+  constructor(provider: string) {
+    super(`${provider} sync token expired`);
+    this.name = "SyncTokenExpiredError";
+  }
 }
 
 // Google Calendar Adapter
@@ -79,7 +112,7 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
     
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Google Calendar API error: ${response.status} - ${error}`);
+      throw new CalendarApiError(`Google Calendar API error: ${response.status} - ${error}`, response.status);
     }
     
     return response;
@@ -135,7 +168,9 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
       title: googleEvent.summary as string || "",
       description: googleEvent.description as string,
       start: new Date(start.dateTime || start.date),
-      allDay: !!start.date
+      allDay: !!start.date,
+      version: googleEvent.etag as string | undefined,
+      updatedAt: googleEvent.updated ? new Date(googleEvent.updated as string) : undefined
     };
     
     if (end) {
@@ -215,36 +250,408 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
     const result = await response.json() as { items: Record<string, unknown>[] };
     return (result.items || []).map(item => this.fromGoogleEvent(item));
   }
+  
+  async listChanges(syncToken: string | null): Promise<CalendarChanges> {
+    const changes: CalendarChange[] = [];
+    let pageToken: string | undefined;
+    
+    for (;;) {
+      const params = new URLSearchParams({ showDeleted: "true" });
+      if (syncToken) params.set("syncToken", syncToken);
+      if (pageToken) params.set("pageToken", pageToken);
+      
+      let response: Response;
+      try {
+        response = await this.makeRequest(
+          "GET",
+          `/calendars/${encodeURIComponent(this.calendarId)}/events?${params}`
+        );
+      } catch (error) {
+        if (error instanceof CalendarApiError && error.status === 410) throw new SyncTokenExpiredError(this.name);
+        throw error;
+      }
+      
+      const result = await response.json() as {
+        items?: Record<string, unknown>[];
+        nextPageToken?: string;
+        nextSyncToken?: string;
+      };
+      for (const item of result.items || []) {
+        changes.push(item.status === "cancelled"
+          ? { externalEventId: item.id as string, deleted: true }
+          : { externalEventId: item.id as string, deleted: false, event: this.fromGoogleEvent(item) });
+      }
+      
+      if (result.nextPageToken) {
+        pageToken = result.nextPageToken;
+        continue;
+      }
+      return { changes, nextSyncToken: result.nextSyncToken ?? syncToken ?? "" };
+    }
+  }
 }
 
-// Outlook Calendar Adapter (stub - requires Microsoft Graph API)
+// Outlook Calendar Adapter (Microsoft Graph API)
 export class OutlookCalendarAdapter implements CalendarAdapter {
   name = "outlook";
   private credentials: CalendarCredentials;
   
+  // Delta queries need a window; obligations further out are picked up as it moves
+  static readonly DELTA_WINDOW_DAYS_BACK = 365;
+  static readonly DELTA_WINDOW_DAYS_AHEAD = 730;
+  
+  constructor(credentials: CalendarCredentials) {
+    this.credentials = credentials;
+  }
+  
+  private get calendarPath(): string {
+    return this.credentials.calendarId
+      ? `/me/calendars/${encodeURIComponent(this.credentials.calendarId)}`
+      : "/me/calendar";
+  }
+  
+  private async makeRequest(
+    method: string,
+    endpoint: string,
+    body?: unknown
+  ): Promise<Response> {
+    // Paging and delta links are absolute
+    const url = endpoint.startsWith("https://") ? endpoint : `https://graph.microsoft.com/v1.0${endpoint}`;
+    
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Authorization": `Bearer ${this.credentials.accessToken}`,
+        "Content-Type": "application/json",
+        "Prefer": "outlook.timezone=\"UTC\""
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    
+    if (!response.ok) {
+      const error = await response.text();
+      throw new CalendarApiError(`Microsoft Graph API error: ${response.status} - ${error}`, response.status);
+    }
+    
+    return response;
+  }
+  
+  private toGraphEvent(event: CalendarEvent): Record<string, unknown> {
+    const end = event.end || new Date(event.start.getTime() + 3600000);
+    const graphTime = (date: Date) => ({
+      dateTime: event.allDay ? `${date.toISOString().split("T")[0]}T00:00:00` : date.toISOString().replace("Z", ""),
+      timeZone: "UTC"
+    });
+    
+    const graphEvent: Record<string, unknown> = {
+      subject: event.title,
+      body: { contentType: "text", content: event.description ?? "" },
+      start: graphTime(event.start),
+      end: graphTime(event.allDay && end.getTime() === event.start.getTime() ? new Date(end.getTime() + 86400000) : end),
+      isAllDay: Boolean(event.allDay)
+    };
+    
+    if (event.location) {
+      graphEvent.location = { displayName: event.location };
+    }
+    
+    if (event.reminders?.length) {
+      graphEvent.isReminderOn = true;
+      graphEvent.reminderMinutesBeforeStart = Math.max(...event.reminders.map(r => r.minutes));
+    }
+    
+    return graphEvent;
+  }
+  
+  private fromGraphEvent(graphEvent: Record<string, unknown>): CalendarEvent {
+    // Graph returns seven fractional digits, which Date can't always parse
+    const parseTime = (value: { dateTime: string } | undefined) =>
+      value ? new Date(`${value.dateTime.replace(/(\.\d{3})\d*$/, "$1")}Z`) : undefined;
+    const start = parseTime(graphEvent.start as { dateTime: string } | undefined);
+    const body = graphEvent.body as { content?: string } | undefined;
+    const location = graphEvent.location as { displayName?: string } | undefined;
+    
+    return {
+      id: graphEvent.id as string,
+      title: (graphEvent.subject as string) || "",
+      description: body?.content || undefined,
+      start: start ?? new Date(0),
+      end: parseTime(graphEvent.end as { dateTime: string } | undefined),
+      allDay: Boolean(graphEvent.isAllDay),
+      location: location?.displayName || undefined,
+      version: graphEvent.changeKey as string | undefined,
+      updatedAt: graphEvent.lastModifiedDateTime ? new Date(graphEvent.lastModifiedDateTime as string) : undefined
+    };
+  }
+  
+  async createEvent(event: CalendarEvent): Promise<string> {
+    const response = await this.makeRequest("POST", `${this.calendarPath}/events`, this.toGraphEvent(event));
+    const result = await response.json() as { id: string };
+    return result.id;
+  }
+  
+  async updateEvent(eventId: string, event: CalendarEvent): Promise<boolean> {
+    await this.makeRequest("PATCH", `/me/events/${encodeURIComponent(eventId)}`, this.toGraphEvent(event));
+    return true;
+  }
+  
+  async deleteEvent(eventId: string): Promise<boolean> {
+    await this.makeRequest("DELETE", `/me/events/${encodeURIComponent(eventId)}`);
+    return true;
+  }
+  
+  async getEvent(eventId: string): Promise<CalendarEvent | null> {
+    try {
+      const response = await this.makeRequest("GET", `/me/events/${encodeURIComponent(eventId)}`);
+      return this.fromGraphEvent(await response.json() as Record<string, unknown>);
+    } catch {
+      return null;
+    }
+  }
+  
+  async listEvents(start: Date, end: Date): Promise<CalendarEvent[]> {
+    const params = new URLSearchParams({
+      startDateTime: start.toISOString(),
+      endDateTime: end.toISOString()
+    });
+    
+    const events: CalendarEvent[] = [];
+    let url: string | undefined = `${this.calendarPath}/calendarView?${params}`;
+    while (url) {
+      const response = await this.makeRequest("GET", url);
+      const result = await response.json() as { value?: Record<string, unknown>[]; "@odata.nextLink"?: string };
+      events.push(...(result.value || []).map(item => this.fromGraphEvent(item)));
+      url = result["@odata.nextLink"];
+    }
+    return events;
+  }
+  
+  async listChanges(syncToken: string | null): Promise<CalendarChanges> {
+    const now = Date.now();
+    const params = new URLSearchParams({
+      startDateTime: new Date(now - OutlookCalendarAdapter.DELTA_WINDOW_DAYS_BACK * 86400000).toISOString(),
+      endDateTime: new Date(now + OutlookCalendarAdapter.DELTA_WINDOW_DAYS_AHEAD * 86400000).toISOString()
+    });
+    
+    const changes: CalendarChange[] = [];
+    // The sync token is the delta link returned by the previous round
+    let url: string = syncToken ?? `${this.calendarPath}/calendarView/delta?${params}`;
+    
+    for (;;) {
+      let response: Response;
+      try {
+        response = await this.makeRequest("GET", url);
+      } catch (error) {
+        if (syncToken && error instanceof CalendarApiError && error.status === 410) throw new SyncTokenExpiredError(this.name);
+        throw error;
+      }
+      
+      const result = await response.json() as {
+        value?: Record<string, unknown>[];
+        "@odata.nextLink"?: string;
+        "@odata.deltaLink"?: string;
+      };
+      for (const item of result.value || []) {
+        changes.push(item["@removed"]
+          ? { externalEventId: item.id as string, deleted: true }
+          : { externalEventId: item.id as string, deleted: false, event: this.fromGraphEvent(item) });
+      }
+      
+      if (result["@odata.nextLink"]) {
+        url = result["@odata.nextLink"];
+        continue;
+      }
+      return { changes, nextSyncToken: result["@odata.deltaLink"] ?? url };
+    }
+  }
+}
+
+// CalDAV Calendar Adapter (iCloud and other CalDAV servers)
+// The binding's calendarId is the calendar collection URL; credentials are
+// the account username and an app-specific password.
+export class CalDavCalendarAdapter implements CalendarAdapter {
+  name = "caldav";
+  private credentials: CalendarCredentials;
+  private collectionUrl: string;
+  
   constructor(credentials: CalendarCredentials) {
     this.credentials = credentials;
+    const url = credentials.calendarId || "";
+    this.collectionUrl = url.endsWith("/") ? url : `${url}/`;
   }
   
-  async createEvent(_event: CalendarEvent): Promise<string> {
-    // TODO: Implement Microsoft Graph API integration
-    throw new Error("Outlook calendar integration not yet implemented");
+  private async makeRequest(
+    method: string,
+    url: string,
+    body?: string,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const auth = Buffer.from(`${this.credentials.username ?? ""}:${this.credentials.accessToken}`).toString("base64");
+    const response = await fetch(new URL(url, this.collectionUrl), {
+      method,
+      headers: { "Authorization": `Basic ${auth}`, ...headers },
+      body
+    });
+    
+    if (!response.ok) {
+      const error = await response.text();
+      throw new CalendarApiError(`CalDAV error: ${response.status} - ${error}`, response.status);
+    }
+    
+    return response;
   }
   
-  async updateEvent(_eventId: string, _event: CalendarEvent): Promise<boolean> {
-    throw new Error("Outlook calendar integration not yet implemented");
+  /** Event IDs are resource paths, e.g. /calendars/me/work/obligation-12.ics */
+  private resourcePath(uid: string): string {
+    return new URL(`${encodeURIComponent(uid)}.ics`, this.collectionUrl).pathname;
   }
   
-  async deleteEvent(_eventId: string): Promise<boolean> {
-    throw new Error("Outlook calendar integration not yet implemented");
+  private toICal(uid: string, event: CalendarEvent): string {
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//KIISHA//Obligations//EN",
+      "BEGIN:VEVENT",
+      `UID:${uid}`,
+      `DTSTAMP:${formatICalDate(new Date())}`
+    ];
+    if (event.allDay) {
+      const date = (d: Date) => d.toISOString().split("T")[0].replace(/-/g, "");
+      lines.push(`DTSTART;VALUE=DATE:${date(event.start)}`);
+      lines.push(`DTEND;VALUE=DATE:${date(new Date((event.end || event.start).getTime() + 86400000))}`);
+    } else {
+      lines.push(`DTSTART:${formatICalDate(event.start)}`);
+      lines.push(`DTEND:${formatICalDate(event.end || new Date(event.start.getTime() + 3600000))}`);
+    }
+    lines.push(`SUMMARY:${escapeICalText(event.title)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+    lines.push(...(event.recurrence ?? []));
+    for (const [key, value] of Object.entries(event.extendedProperties ?? {})) {
+      lines.push(`X-${key.replace(/[A-Z]/g, c => `-${c}`).toUpperCase()}:${escapeICalText(value)}`);
+    }
+    for (const reminder of event.reminders ?? []) {
+      lines.push("BEGIN:VALARM", "ACTION:DISPLAY", `DESCRIPTION:${escapeICalText(event.title)}`, `TRIGGER:-PT${reminder.minutes}M`, "END:VALARM");
+    }
+    lines.push("END:VEVENT", "END:VCALENDAR");
+    return lines.map(foldICalLine).join("\r\n");
   }
   
-  async getEvent(_eventId: string): Promise<CalendarEvent | null> {
-    throw new Error("Outlook calendar integration not yet implemented");
+  private fromICal(id: string, parsed: ICalEvent, etag?: string): CalendarEvent {
+    return {
+      id,
+      title: parsed.summary,
+      description: parsed.description,
+      start: parsed.start ?? new Date(0),
+      end: parsed.end ?? undefined,
+      allDay: parsed.allDay,
+      recurrence: parsed.recurrence.length ? parsed.recurrence : undefined,
+      version: etag,
+      updatedAt: parsed.lastModified
+    };
   }
   
-  async listEvents(_start: Date, _end: Date): Promise<CalendarEvent[]> {
-    throw new Error("Outlook calendar integration not yet implemented");
+  async createEvent(event: CalendarEvent): Promise<string> {
+    const obligationId = event.extendedProperties?.kiishaObligationId;
+    const uid = obligationId ? `obligation-${obligationId}-${randomUUID()}@kiisha.io` : `${randomUUID()}@kiisha.io`;
+    const path = this.resourcePath(uid);
+    await this.makeRequest("PUT", path, this.toICal(uid, event), {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "If-None-Match": "*"
+    });
+    return path;
+  }
+  
+  async updateEvent(eventId: string, event: CalendarEvent): Promise<boolean> {
+    const uid = decodeURIComponent(eventId.split("/").pop()!.replace(/\.ics$/, ""));
+    await this.makeRequest("PUT", eventId, this.toICal(uid, event), {
+      "Content-Type": "text/calendar; charset=utf-8"
+    });
+    return true;
+  }
+  
+  async deleteEvent(eventId: string): Promise<boolean> {
+    await this.makeRequest("DELETE", eventId);
+    return true;
+  }
+  
+  async getEvent(eventId: string): Promise<CalendarEvent | null> {
+    try {
+      const response = await this.makeRequest("GET", eventId);
+      const [parsed] = parseICalEvents(await response.text());
+      return parsed ? this.fromICal(eventId, parsed, response.headers.get("etag") ?? undefined) : null;
+    } catch {
+      return null;
+    }
+  }
+  
+  async listEvents(start: Date, end: Date): Promise<CalendarEvent[]> {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop><D:getetag/><C:calendar-data/></D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR">
+      <C:comp-filter name="VEVENT">
+        <C:time-range start="${formatICalDate(start)}" end="${formatICalDate(end)}"/>
+      </C:comp-filter>
+    </C:comp-filter>
+  </C:filter>
+</C:calendar-query>`;
+    const response = await this.makeRequest("REPORT", this.collectionUrl, body, {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Depth": "1"
+    });
+    
+    const { responses } = parseMultistatus(await response.text());
+    return responses.flatMap(r => {
+      const [parsed] = r.calendarData ? parseICalEvents(r.calendarData) : [];
+      return parsed ? [this.fromICal(r.href, parsed, r.etag)] : [];
+    });
+  }
+  
+  async listChanges(syncToken: string | null): Promise<CalendarChanges> {
+    // RFC 6578 sync-collection; an empty token asks for everything
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<D:sync-collection xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:sync-token>${xmlEscape(syncToken ?? "")}</D:sync-token>
+  <D:sync-level>1</D:sync-level>
+  <D:prop><D:getetag/><C:calendar-data/></D:prop>
+</D:sync-collection>`;
+    
+    let response: Response;
+    try {
+      response = await this.makeRequest("REPORT", this.collectionUrl, body, {
+        "Content-Type": "application/xml; charset=utf-8"
+      });
+    } catch (error) {
+      if (syncToken && error instanceof CalendarApiError && (error.status === 403 || error.status === 409)
+        && error.message.includes("valid-sync-token")) {
+        throw new SyncTokenExpiredError(this.name);
+      }
+      throw error;
+    }
+    
+    const collectionPath = new URL(this.collectionUrl).pathname;
+    const result = parseMultistatus(await response.text());
+    const changes: CalendarChange[] = [];
+    for (const item of result.responses) {
+      const href = new URL(item.href, this.collectionUrl).pathname;
+      if (href === collectionPath) continue;
+      if (item.status === 404) {
+        changes.push({ externalEventId: href, deleted: true });
+        continue;
+      }
+      // Servers may leave calendar-data out of sync reports
+      const event = item.calendarData
+        ? (() => {
+          const [parsed] = parseICalEvents(item.calendarData!);
+          return parsed ? this.fromICal(href, parsed, item.etag) : null;
+        })()
+        : await this.getEvent(href);
+      if (event) changes.push({ externalEventId: href, deleted: false, event });
+    }
+    
+    return { changes, nextSyncToken: result.syncToken ?? syncToken ?? "" };
   }
 }
 
@@ -301,7 +708,7 @@ export function generateICalEvent(obligation: Obligation): string {
   
   // Recurrence
   if (obligation.recurrenceRule) {
-    lines.push(`RRULE:${obligation.recurrenceRule}`);
+    lines.push(...recurrenceLines(obligation.recurrenceRule));
   }
   
   lines.push("END:VEVENT");
@@ -310,33 +717,30 @@ export function generateICalEvent(obligation: Obligation): string {
   return lines.join("\r\n");
 }
 
-function formatICalDate(date: Date): string {
-  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
-}
-
-function escapeICalText(text: string): string {
-  return text
-    .replace(/\\/g, "\\\\")
-    .replace(/;/g, "\\;")
-    .replace(/,/g, "\\,")
-    .replace(/\n/g, "\\n");
-}
-
 // Calendar Sync Service
 export class CalendarSyncService {
   /**
-   * Get adapter for a calendar integration
+   * Get adapter for a calendar binding
    */
-  static getAdapter(integration: CalendarIntegration): CalendarAdapter {
-    const credentials = integration.credentials as CalendarCredentials;
+  static getAdapter(binding: ExternalCalendarBinding): CalendarAdapter {
+    const credentials: CalendarCredentials = {
+      accessToken: binding.accessToken,
+      refreshToken: binding.refreshToken ?? undefined,
+      expiresAt: binding.tokenExpiresAt ?? undefined,
+      calendarId: binding.calendarId,
+      username: binding.username ?? undefined
+    };
     
-    switch (integration.provider) {
-      case "google":
+    switch (binding.provider) {
+      case "GOOGLE":
         return new GoogleCalendarAdapter(credentials);
-      case "outlook":
+      case "MICROSOFT":
         return new OutlookCalendarAdapter(credentials);
+      case "APPLE":
+      case "CALDAV":
+        return new CalDavCalendarAdapter(credentials);
       default:
-        throw new Error(`Unsupported calendar provider: ${integration.provider}`);
+        throw new Error(`Unsupported calendar provider: ${binding.provider}`);
     }
   }
   
@@ -363,7 +767,7 @@ export class CalendarSyncService {
     
     // Add recurrence if present
     if (obligation.recurrenceRule) {
-      event.recurrence = [`RRULE:${obligation.recurrenceRule}`];
+      event.recurrence = recurrenceLines(obligation.recurrenceRule);
     }
     
     // Add reminders based on priority
@@ -384,6 +788,46 @@ export class CalendarSyncService {
     return event;
   }
   
+  /**
+   * Create or update an obligation's event in one bound calendar and record
+   * the due date both sides now agree on. Events the user removed from their
+   * calendar, or that are awaiting conflict review, are left alone unless
+   * `recreate` is set.
+   */
+  static async pushObligation(
+    binding: ExternalCalendarBinding,
+    obligation: Obligation,
+    options: { recreate?: boolean } = {}
+  ): Promise<number | null> {
+    const existing = await getExternalCalendarEvent(obligation.id, binding.userId, binding.provider);
+    if (!options.recreate && (existing?.syncStatus === "deleted" || existing?.syncStatus === "conflict")) {
+      return null;
+    }
+    
+    const adapter = this.getAdapter(binding);
+    const event = this.obligationToCalendarEvent(obligation);
+    
+    let externalEventId: string;
+    if (existing && existing.bindingId === binding.id && !options.recreate) {
+      await adapter.updateEvent(existing.externalEventId, event);
+      externalEventId = existing.externalEventId;
+    } else {
+      externalEventId = await adapter.createEvent(event);
+    }
+    
+    return await upsertExternalCalendarEvent({
+      organizationId: obligation.organizationId,
+      obligationId: obligation.id,
+      userId: binding.userId,
+      bindingId: binding.id,
+      provider: binding.provider,
+      externalEventId,
+      syncStatus: "synced",
+      syncedDueAt: obligation.dueAt,
+      lastSyncedAt: new Date()
+    });
+  }
+  
   /**
    * Sync a single obligation to all user's connected calendars
    */
@@ -391,30 +835,20 @@ export class CalendarSyncService {
     obligation: Obligation,
     userId: number
   ): Promise<{ synced: number; errors: string[] }> {
-    // TODO: Implement getCalendarIntegrationsForUser
-    const integrations: CalendarIntegration[] = [];
-    const activeIntegrations = integrations.filter((i: CalendarIntegration) => i.isActive && i.syncEnabled);
+    const bindings = await getCalendarBindingsForUser(userId, obligation.organizationId);
+    const activeBindings = bindings.filter(b => b.status === "active" && b.syncEnabled
+      && (!b.syncObligationTypes?.length || b.syncObligationTypes.includes(obligation.obligationType)));
     
     let synced = 0;
     const errors: string[] = [];
     
-    for (const integration of activeIntegrations) {
+    for (const binding of activeBindings) {
       try {
-        const adapter = this.getAdapter(integration);
-        const event = this.obligationToCalendarEvent(obligation);
-        
-        // Create/update event in external calendar
-        // TODO: Implement sync event tracking
-        const externalEventId = await adapter.createEvent(event);
-        console.log(`Created calendar event: ${externalEventId}`);
-        
-        synced++;
+        if (await this.pushObligation(binding, obligation) !== null) synced++;
       } catch (error) {
         const message = error instanceof Error ? error.message : "Unknown error";
-        errors.push(`${integration.provider}: ${message}`);
-        
-        // TODO: Update integration status
-        console.error(`Calendar sync error for ${integration.provider}: ${message}`);
+        errors.push(`${binding.provider}: ${message}`);
+        console.error(`Calendar sync error for ${binding.provider}: ${message}`);
       }
     }
     
@@ -443,10 +877,10 @@ export class CalendarSyncService {
   }
   
   /**
-   * Generate iCal feed URL for a user's obligations
+   * Generate the ICS subscription URL for a calendar feed token
    */
-  static generateICalFeedUrl(userId: number, organizationId: number, token: string): string {
-    return `/api/calendar/ical/${organizationId}/${userId}/${token}.ics`;
+  static generateICalFeedUrl(baseUrl: string, token: string): string {
+    return `${baseUrl}/api/calendar/ical/${token}.ics`;
   }
   
   /**
@@ -480,7 +914,7 @@ export class CalendarSyncService {
       }
       
       if (obligation.recurrenceRule) {
-        lines.push(`RRULE:${obligation.recurrenceRule}`);
+        lines.push(...recurrenceLines(obligation.recurrenceRule));
       }
       
       lines.push("END:VEVENT");
@@ -0,0 +1,162 @@
+/**
+ * Calendar Feeds
+ *
+ * Authenticated subscription feeds of obligations, either those assigned to
+ * a user or those overlaid on a workspace view. Each feed has a random token
+ * (stored hashed) that works as:
+ * - an ICS subscription URL: /api/calendar/ical/{token}.ics
+ * - the password for the read-only CalDAV endpoint at /api/caldav/
+ */
+
+import crypto from "crypto";
+import express, { type Express, type Request, type Response } from "express";
+import {
+  createCalendarFeedToken,
+  getCalendarFeedTokenByHash,
+  touchCalendarFeedToken,
+  getObligationsAssignedToUser,
+  getObligationsForView,
+  getUserOrganizationIds
+} from "../db";
+import type { CalendarFeedToken, Obligation } from "../../drizzle/schema";
+import { CalendarSyncService } from "./calendarAdapter";
+import { buildCalDavCalendar, handleCalDavRequest } from "./caldavServer";
+
+export const CALDAV_BASE_PATH = "/api/caldav";
+
+// Completed and cancelled obligations drop out of feeds
+const FEED_STATUSES = ["OPEN", "IN_PROGRESS", "BLOCKED", "WAITING_REVIEW", "APPROVED", "OVERDUE"];
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function appUrl(): string {
+  return (process.env.VITE_APP_URL || "https://kiisha.app").replace(/\/$/, "");
+}
+
+export interface CalendarFeedUrls {
+  icsUrl: string;
+  caldavUrl: string;
+}
+
+export function calendarFeedUrls(token: string): CalendarFeedUrls {
+  return {
+    icsUrl: CalendarSyncService.generateICalFeedUrl(appUrl(), token),
+    caldavUrl: `${appUrl()}${CALDAV_BASE_PATH}/`
+  };
+}
+
+/**
+ * Create a feed token. The raw token is only returned here.
+ */
+export async function createCalendarFeed(data: {
+  organizationId: number;
+  userId: number;
+  scope: "user" | "view";
+  viewId?: number;
+  name?: string;
+}): Promise<{ id: number; token: string } & CalendarFeedUrls> {
+  const token = crypto.randomBytes(32).toString("hex");
+  const id = await createCalendarFeedToken({
+    organizationId: data.organizationId,
+    userId: data.userId,
+    tokenHash: hashToken(token),
+    scope: data.scope,
+    viewId: data.scope === "view" ? data.viewId : null,
+    name: data.name
+  });
+  return { id, token, ...calendarFeedUrls(token) };
+}
+
+/**
+ * Resolve a raw token to its feed, if it is live and its owner still belongs
+ * to the organization
+ */
+export async function authenticateCalendarFeed(token: string): Promise<CalendarFeedToken | null> {
+  if (!/^[0-9a-f]{64}$/.test(token)) return null;
+  const feed = await getCalendarFeedTokenByHash(hashToken(token));
+  if (!feed) return null;
+
+  const organizationIds = await getUserOrganizationIds(feed.userId);
+  if (!organizationIds.includes(feed.organizationId)) return null;
+
+  await touchCalendarFeedToken(feed.id);
+  return feed;
+}
+
+export async function getCalendarFeedObligations(feed: CalendarFeedToken): Promise<Obligation[]> {
+  const obligations = feed.scope === "view" && feed.viewId
+    ? await getObligationsForView(feed.viewId, feed.organizationId)
+    : await getObligationsAssignedToUser(feed.userId, feed.organizationId);
+  return obligations.filter(o => FEED_STATUSES.includes(o.status));
+}
+
+function basicAuthPassword(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Basic ")) return null;
+  const decoded = Buffer.from(header.slice(6), "base64").toString("utf8");
+  const colon = decoded.indexOf(":");
+  return colon >= 0 ? decoded.slice(colon + 1) : null;
+}
+
+/**
+ * Register the ICS subscription and CalDAV routes
+ */
+export function registerCalendarFeedRoutes(app: Express) {
+  app.get("/api/calendar/ical/:token.ics", async (req: Request, res: Response) => {
+    try {
+      const feed = await authenticateCalendarFeed(req.params.token);
+      if (!feed) {
+        res.status(404).send("Not found");
+        return;
+      }
+
+      const obligations = await getCalendarFeedObligations(feed);
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "private, max-age=300");
+      res.send(CalendarSyncService.generateICalFeed(obligations));
+    } catch (error) {
+      console.error("[CalendarFeed] ICS feed error:", error);
+      res.status(500).send("Failed to generate calendar feed");
+    }
+  });
+
+  app.get("/.well-known/caldav", (_req: Request, res: Response) => {
+    res.redirect(301, `${CALDAV_BASE_PATH}/`);
+  });
+
+  app.all(
+    [CALDAV_BASE_PATH, `${CALDAV_BASE_PATH}/*`],
+    express.text({ type: () => true, limit: "1mb" }),
+    async (req: Request, res: Response) => {
+      try {
+        const password = basicAuthPassword(req);
+        const feed = password ? await authenticateCalendarFeed(password) : null;
+        if (!feed) {
+          res.setHeader("WWW-Authenticate", "Basic realm=\"KIISHA Calendar\", charset=\"UTF-8\"");
+          res.status(401).send("Authentication required");
+          return;
+        }
+
+        const obligations = await getCalendarFeedObligations(feed);
+        const calendar = buildCalDavCalendar(CALDAV_BASE_PATH, feed.name || "KIISHA Obligations", obligations);
+        const result = handleCalDavRequest({
+          method: req.method,
+          path: req.path,
+          depth: typeof req.headers.depth === "string" ? req.headers.depth : undefined,
+          body: typeof req.body === "string" ? req.body : ""
+        }, calendar);
+
+        res.status(result.status);
+        for (const [name, value] of Object.entries(result.headers)) {
+          res.setHeader(name, value);
+        }
+        res.send(result.body);
+      } catch (error) {
+        console.error("[CalendarFeed] CalDAV error:", error);
+        res.status(500).send("CalDAV request failed");
+      }
+    }
+  );
+}
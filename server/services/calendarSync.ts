@@ -0,0 +1,340 @@
+/**
+ * Two-way Calendar Sync
+ *
+ * Pulls incremental changes from each bound calendar (Google sync tokens,
+ * Graph delta links, CalDAV sync-collection) and reconciles them with the
+ * obligations they mirror, then pushes obligations changed in KIISHA.
+ *
+ * Each synced event remembers the due date both sides last agreed on, so a
+ * change can be attributed to KIISHA, the calendar, or both. One-sided
+ * changes propagate; when both sides moved (or the event was deleted in the
+ * calendar) the binding's conflict policy decides:
+ * - kiisha_wins: the obligation is pushed back over the calendar event
+ * - calendar_wins: the calendar's due date is applied, or a deleted event
+ *   stops syncing that obligation to the calendar
+ * - manual: a conflict is recorded for someone to resolve
+ */
+
+import {
+  getObligationById,
+  getObligationsAssignedToUser,
+  updateObligation,
+  logObligationAction,
+  getCalendarBindingById,
+  getSyncEnabledCalendarBindings,
+  updateCalendarBinding,
+  getExternalCalendarEventsForBinding,
+  updateExternalCalendarEvent,
+  createCalendarSyncConflict,
+  getOpenCalendarSyncConflictForEvent,
+  updateCalendarSyncConflict
+} from "../db";
+import {
+  CalendarApiError,
+  CalendarSyncService,
+  SyncTokenExpiredError,
+  type CalendarChange,
+  type CalendarChanges
+} from "./calendarAdapter";
+import type {
+  CalendarSyncConflict,
+  ExternalCalendarBinding,
+  ExternalCalendarEvent,
+  Obligation
+} from "../../drizzle/schema";
+
+export type ConflictPolicy = ExternalCalendarBinding["conflictPolicy"];
+
+export type SyncAction =
+  | { type: "none" }
+  | { type: "pull"; dueAt: Date }
+  | { type: "push"; recreate: boolean }
+  | { type: "unlink" }
+  | { type: "conflict"; conflictType: "due_date" | "deleted"; externalDueAt: Date | null };
+
+export interface CalendarSyncResult {
+  bindingId: number;
+  pulled: number;
+  pushed: number;
+  unlinked: number;
+  conflicts: number;
+  fullSync: boolean;
+  errors: string[];
+}
+
+// Obligations still worth mirroring in a calendar
+const SYNCED_STATUSES = ["OPEN", "IN_PROGRESS", "BLOCKED", "WAITING_REVIEW", "OVERDUE"];
+
+function sameInstant(a: Date | null | undefined, b: Date | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return a.getTime() === b.getTime();
+}
+
+/**
+ * Decide how to reconcile one calendar change with the obligation it mirrors.
+ * `syncedDueAt` is the due date both sides agreed on at the last sync.
+ */
+export function reconcileChange(input: {
+  syncedDueAt: Date | null;
+  localDueAt: Date | null;
+  change: CalendarChange;
+  policy: ConflictPolicy;
+}): SyncAction {
+  const { syncedDueAt, localDueAt, change, policy } = input;
+
+  if (change.deleted || !change.event) {
+    if (policy === "kiisha_wins") return { type: "push", recreate: true };
+    if (policy === "calendar_wins") return { type: "unlink" };
+    return { type: "conflict", conflictType: "deleted", externalDueAt: null };
+  }
+
+  const externalDueAt = change.event.start;
+  if (sameInstant(externalDueAt, localDueAt)) return { type: "none" };
+
+  const localChanged = !syncedDueAt || !sameInstant(localDueAt, syncedDueAt);
+  const externalChanged = !syncedDueAt || !sameInstant(externalDueAt, syncedDueAt);
+
+  if (externalChanged && !localChanged) return { type: "pull", dueAt: externalDueAt };
+  if (localChanged && !externalChanged) return { type: "push", recreate: false };
+
+  if (policy === "kiisha_wins") return { type: "push", recreate: false };
+  if (policy === "calendar_wins") return { type: "pull", dueAt: externalDueAt };
+  return { type: "conflict", conflictType: "due_date", externalDueAt };
+}
+
+/**
+ * Obligations a binding mirrors: those assigned to its user, filtered by the
+ * binding's obligation types
+ */
+async function getBindingObligations(binding: ExternalCalendarBinding): Promise<Obligation[]> {
+  const assigned = await getObligationsAssignedToUser(binding.userId, binding.organizationId, {
+    status: SYNCED_STATUSES
+  });
+  return assigned.filter(o => o.dueAt
+    && (!binding.syncObligationTypes?.length || binding.syncObligationTypes.includes(o.obligationType)));
+}
+
+async function applyCalendarDueDate(
+  binding: ExternalCalendarBinding,
+  obligation: Obligation,
+  record: ExternalCalendarEvent,
+  dueAt: Date,
+  userId?: number
+): Promise<void> {
+  await updateObligation(obligation.id, obligation.organizationId, { dueAt });
+  await logObligationAction({
+    organizationId: obligation.organizationId,
+    obligationId: obligation.id,
+    action: "UPDATED",
+    previousValue: { dueAt: obligation.dueAt?.toISOString() ?? null },
+    newValue: { dueAt: dueAt.toISOString(), source: `calendar:${binding.provider}`, bindingId: binding.id },
+    userId,
+    systemGenerated: userId === undefined
+  });
+  await updateExternalCalendarEvent(record.id, {
+    syncStatus: "synced",
+    syncedDueAt: dueAt,
+    lastSyncedAt: new Date()
+  });
+}
+
+async function applySyncAction(
+  binding: ExternalCalendarBinding,
+  record: ExternalCalendarEvent,
+  obligation: Obligation,
+  change: CalendarChange,
+  action: SyncAction,
+  result: CalendarSyncResult
+): Promise<void> {
+  switch (action.type) {
+    case "none":
+      await updateExternalCalendarEvent(record.id, {
+        syncStatus: "synced",
+        syncedDueAt: obligation.dueAt,
+        externalVersion: change.event?.version,
+        lastSyncedAt: new Date()
+      });
+      return;
+    case "pull":
+      await applyCalendarDueDate(binding, obligation, record, action.dueAt);
+      result.pulled++;
+      return;
+    case "push":
+      await CalendarSyncService.pushObligation(binding, obligation, { recreate: action.recreate });
+      result.pushed++;
+      return;
+    case "unlink":
+      await updateExternalCalendarEvent(record.id, { syncStatus: "deleted", lastSyncedAt: new Date() });
+      result.unlinked++;
+      return;
+    case "conflict":
+      await updateExternalCalendarEvent(record.id, { syncStatus: "conflict" });
+      if (!await getOpenCalendarSyncConflictForEvent(record.id)) {
+        await createCalendarSyncConflict({
+          organizationId: obligation.organizationId,
+          obligationId: obligation.id,
+          bindingId: binding.id,
+          externalEventRecordId: record.id,
+          conflictType: action.conflictType,
+          localDueAt: obligation.dueAt,
+          externalDueAt: action.externalDueAt
+        });
+      }
+      result.conflicts++;
+      return;
+  }
+}
+
+/**
+ * Run one incremental two-way sync for a calendar binding
+ */
+export async function syncCalendarBinding(binding: ExternalCalendarBinding): Promise<CalendarSyncResult> {
+  const result: CalendarSyncResult = {
+    bindingId: binding.id,
+    pulled: 0,
+    pushed: 0,
+    unlinked: 0,
+    conflicts: 0,
+    fullSync: !binding.syncToken,
+    errors: []
+  };
+  const adapter = CalendarSyncService.getAdapter(binding);
+
+  let changes: CalendarChanges;
+  try {
+    try {
+      changes = await adapter.listChanges(binding.syncToken);
+    } catch (error) {
+      if (!(error instanceof SyncTokenExpiredError)) throw error;
+      result.fullSync = true;
+      changes = await adapter.listChanges(null);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await updateCalendarBinding(binding.id, {
+      status: error instanceof CalendarApiError && error.status === 401 ? "expired" : "error",
+      lastError: message
+    });
+    result.errors.push(message);
+    return result;
+  }
+
+  // Pull: reconcile changes to events we track
+  const records = await getExternalCalendarEventsForBinding(binding.id);
+  const recordsByExternalId = new Map(records.map(r => [r.externalEventId, r]));
+  const reconciled = new Set<number>();
+
+  for (const change of changes.changes) {
+    const record = recordsByExternalId.get(change.externalEventId);
+    if (!record || record.syncStatus === "deleted" || record.syncStatus === "conflict") continue;
+
+    const obligation = await getObligationById(record.obligationId, binding.organizationId);
+    if (!obligation) continue;
+    reconciled.add(obligation.id);
+
+    try {
+      const action = reconcileChange({
+        syncedDueAt: record.syncedDueAt,
+        localDueAt: obligation.dueAt,
+        change,
+        policy: binding.conflictPolicy
+      });
+      await applySyncAction(binding, record, obligation, change, action, result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      result.errors.push(`Obligation ${obligation.id}: ${message}`);
+      await updateExternalCalendarEvent(record.id, { lastSyncError: message });
+    }
+  }
+
+  // Push: obligations changed in KIISHA since they were last synced, and new ones
+  const recordsByObligationId = new Map(records.map(r => [r.obligationId, r]));
+  for (const obligation of await getBindingObligations(binding)) {
+    if (reconciled.has(obligation.id)) continue;
+    const record = recordsByObligationId.get(obligation.id);
+    const stale = !record
+      || !sameInstant(record.syncedDueAt, obligation.dueAt)
+      || !record.lastSyncedAt
+      || record.lastSyncedAt < obligation.updatedAt;
+    if (!stale) continue;
+
+    try {
+      if (await CalendarSyncService.pushObligation(binding, obligation) !== null) result.pushed++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      result.errors.push(`Obligation ${obligation.id}: ${message}`);
+    }
+  }
+
+  await updateCalendarBinding(binding.id, {
+    syncToken: changes.nextSyncToken || null,
+    lastSyncAt: new Date(),
+    status: "active",
+    lastError: result.errors.length ? result.errors.join("; ").slice(0, 2000) : null
+  });
+
+  return result;
+}
+
+/**
+ * Sync every active binding (scheduled job)
+ */
+export async function syncAllCalendarBindings(): Promise<{ bindings: number; pulled: number; pushed: number; conflicts: number; errors: number }> {
+  const totals = { bindings: 0, pulled: 0, pushed: 0, conflicts: 0, errors: 0 };
+
+  for (const binding of await getSyncEnabledCalendarBindings()) {
+    try {
+      const result = await syncCalendarBinding(binding);
+      totals.bindings++;
+      totals.pulled += result.pulled;
+      totals.pushed += result.pushed;
+      totals.conflicts += result.conflicts;
+      totals.errors += result.errors.length;
+    } catch (error) {
+      totals.errors++;
+      console.error(`[CalendarSync] Binding ${binding.id} failed:`, error);
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Resolve a conflict held for manual review
+ */
+export async function resolveCalendarConflict(
+  conflict: CalendarSyncConflict,
+  resolution: "kiisha" | "calendar" | "dismiss",
+  userId: number
+): Promise<void> {
+  const binding = await getCalendarBindingById(conflict.bindingId);
+  const obligation = await getObligationById(conflict.obligationId, conflict.organizationId);
+  if (!binding || !obligation) throw new Error("Calendar binding or obligation no longer exists");
+
+  const records = await getExternalCalendarEventsForBinding(binding.id);
+  const record = records.find(r => r.id === conflict.externalEventRecordId);
+  if (!record) throw new Error("Synced event no longer exists");
+
+  if (resolution === "kiisha") {
+    await CalendarSyncService.pushObligation(binding, obligation, { recreate: conflict.conflictType === "deleted" });
+  } else if (resolution === "calendar") {
+    if (conflict.conflictType === "deleted" || !conflict.externalDueAt) {
+      await updateExternalCalendarEvent(record.id, { syncStatus: "deleted", lastSyncedAt: new Date() });
+    } else {
+      await applyCalendarDueDate(binding, obligation, record, conflict.externalDueAt, userId);
+    }
+  } else {
+    // Leave both as they are; KIISHA's due date becomes the base so neither is re-sent
+    await updateExternalCalendarEvent(record.id, {
+      syncStatus: conflict.conflictType === "deleted" ? "deleted" : "synced",
+      syncedDueAt: obligation.dueAt,
+      lastSyncedAt: new Date()
+    });
+  }
+
+  await updateCalendarSyncConflict(conflict.id, {
+    status: resolution === "kiisha" ? "kept_kiisha" : resolution === "calendar" ? "kept_calendar" : "dismissed",
+    resolvedByUserId: userId,
+    resolvedAt: new Date()
+  });
+}
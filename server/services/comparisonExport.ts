@@ -4,6 +4,20 @@
  */
 
 import * as XLSX from 'xlsx';
+import type { SimulationDriver, SimulationResults } from '../../drizzle/schema';
+import type { ProductionVarianceReport } from './productionVariance';
+
+export interface SimulationSummary {
+  id: number;
+  name: string;
+  iterations: number;
+  seed: number;
+  drivers: SimulationDriver[];
+  discountRate: number | null;
+  dscrCovenant: number | null;
+  completedAt: Date | null;
+  results: SimulationResults | null;
+}
 
 export interface ComparisonData {
   projectName: string;
@@ -42,6 +56,7 @@ export interface ComparisonData {
     opexVariancePercent: number | null;
     notes: string | null;
   }>;
+  simulations?: SimulationSummary[]; // completed Monte Carlo runs
   summary: {
     totalProjectedRevenue: number;
     totalActualRevenue: number;
@@ -87,6 +102,55 @@ function formatDate(date: Date): string {
   });
 }
 
+const SIMULATION_METRICS = [
+  { key: 'projectIrr', label: 'Project IRR' },
+  { key: 'equityIrr', label: 'Equity IRR' },
+  { key: 'projectNpv', label: 'Project NPV' },
+  { key: 'minDscr', label: 'Min DSCR' },
+] as const;
+
+/**
+ * Format a simulated metric for display
+ */
+function formatSimulationValue(key: typeof SIMULATION_METRICS[number]['key'], value: number | null): string {
+  if (value === null) return 'N/A';
+  if (key === 'projectIrr' || key === 'equityIrr') return `${(value * 100).toFixed(2)}%`;
+  if (key === 'projectNpv') return formatCurrency(value);
+  return value.toFixed(2);
+}
+
+/**
+ * One row per simulation and metric: base case, P10/P50/P90 and mean
+ */
+function simulationRows(simulations: SimulationSummary[]): string[][] {
+  const rows: string[][] = [];
+  for (const sim of simulations) {
+    if (!sim.results) continue;
+    for (const { key, label } of SIMULATION_METRICS) {
+      const summary = sim.results.metrics[key];
+      if (!summary) continue;
+      rows.push([
+        sim.name,
+        String(sim.iterations),
+        label,
+        formatSimulationValue(key, sim.results.base[key]),
+        formatSimulationValue(key, summary.p10),
+        formatSimulationValue(key, summary.p50),
+        formatSimulationValue(key, summary.p90),
+        formatSimulationValue(key, summary.mean),
+      ]);
+    }
+  }
+  return rows;
+}
+
+function dscrBreachText(sim: SimulationSummary): string {
+  if (!sim.results || sim.results.dscrBreachProbability === null) return 'N/A';
+  return `${(sim.results.dscrBreachProbability * 100).toFixed(1)}% below ${sim.dscrCovenant?.toFixed(2)}x`;
+}
+
+const SIMULATION_HEADERS = ['Simulation', 'Iterations', 'Metric', 'Base', 'P10', 'P50', 'P90', 'Mean'];
+
 /**
  * Generate Excel workbook for comparison report
  */
@@ -172,6 +236,38 @@ export function generateExcelReport(data: ComparisonData): Buffer {
     XLSX.utils.book_append_sheet(workbook, comparisonSheet, 'Actual vs Projected');
   }
 
+  // Monte Carlo percentiles and histograms
+  const simulations = (data.simulations ?? []).filter(sim => sim.results);
+  if (simulations.length > 0) {
+    const riskData = [
+      SIMULATION_HEADERS,
+      ...simulationRows(simulations),
+      [],
+      ['Simulation', 'DSCR breach probability', 'Seed', 'Drivers'],
+      ...simulations.map(sim => [
+        sim.name,
+        dscrBreachText(sim),
+        sim.seed,
+        sim.drivers.map(d => `${d.driver} (${d.distribution.type}${d.sampling === 'annual' ? ', annual' : ''})`).join('; '),
+      ]),
+    ];
+    const riskSheet = XLSX.utils.aoa_to_sheet(riskData);
+    riskSheet['!cols'] = [{ wch: 20 }, { wch: 24 }, { wch: 14 }, { wch: 16 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }];
+    XLSX.utils.book_append_sheet(workbook, riskSheet, 'Risk Analysis');
+
+    const histogramData: Array<Array<string | number>> = [['Simulation', 'Metric', 'From', 'To', 'Count']];
+    for (const sim of simulations) {
+      for (const { key, label } of SIMULATION_METRICS) {
+        for (const bin of sim.results!.metrics[key]?.histogram ?? []) {
+          histogramData.push([sim.name, label, bin.from, bin.to, bin.count]);
+        }
+      }
+    }
+    const histogramSheet = XLSX.utils.aoa_to_sheet(histogramData);
+    histogramSheet['!cols'] = [{ wch: 20 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 8 }];
+    XLSX.utils.book_append_sheet(workbook, histogramSheet, 'Risk Histograms');
+  }
+
   // Generate buffer
   const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
   return buffer;
@@ -206,6 +302,20 @@ export function generateCSVReport(data: ComparisonData): string {
     }
   }
 
+  // Monte Carlo percentiles
+  const simulations = (data.simulations ?? []).filter(sim => sim.results);
+  if (simulations.length > 0) {
+    lines.push('');
+    lines.push('RISK ANALYSIS');
+    lines.push(SIMULATION_HEADERS.join(','));
+    for (const row of simulationRows(simulations)) {
+      lines.push(row.map(v => `"${v}"`).join(','));
+    }
+    for (const sim of simulations) {
+      lines.push(`"${sim.name}",DSCR breach probability,"${dscrBreachText(sim)}"`);
+    }
+  }
+
   return lines.join('\n');
 }
 
@@ -323,6 +433,21 @@ export function generateHTMLReport(data: ComparisonData): string {
   </table>
   ` : '<p>No comparison data available yet.</p>'}
 
+  ${(data.simulations ?? []).some(sim => sim.results) ? `
+  <h2>Risk Analysis</h2>
+  <table>
+    <thead>
+      <tr>${SIMULATION_HEADERS.map((h, i) => `<th${i >= 3 ? ' class="number"' : ''}>${h}</th>`).join('')}</tr>
+    </thead>
+    <tbody>
+      ${simulationRows(data.simulations!).map(row => `
+      <tr>${row.map((v, i) => `<td${i >= 3 ? ' class="number"' : ''}>${v}</td>`).join('')}</tr>
+      `).join('')}
+    </tbody>
+  </table>
+  <p>DSCR breach probability: ${data.simulations!.filter(sim => sim.results).map(sim => `${sim.name} ${dscrBreachText(sim)}`).join('; ')}</p>
+  ` : ''}
+
   <h2>Projected Cash Flows</h2>
   <table>
     <thead>
@@ -355,3 +480,185 @@ export function generateHTMLReport(data: ComparisonData): string {
 </html>
   `.trim();
 }
+
+/**
+ * Format energy (MWh) for display
+ */
+function formatMwh(value: number | null): string {
+  if (value === null) return 'N/A';
+  return `${value.toLocaleString('en-US', { maximumFractionDigits: 1 })} MWh`;
+}
+
+/**
+ * Format month for display
+ */
+function formatMonth(date: Date): string {
+  return new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', timeZone: 'UTC' });
+}
+
+function productionVarianceRows(data: ProductionVarianceReport): Array<Record<string, string | number>> {
+  return data.months.map(m => ({
+    'Month': formatMonth(m.periodStart),
+    'Forecast P50 (MWh)': Number(m.forecastP50Mwh.toFixed(1)),
+    'Forecast P90 (MWh)': m.forecastP90Mwh === null ? 'N/A' : Number(m.forecastP90Mwh.toFixed(1)),
+    'Actual (MWh)': Number(m.actualMwh.toFixed(1)),
+    'Variance (MWh)': Number(m.varianceMwh.toFixed(1)),
+    'Variance %': formatPercent(m.variancePercent),
+    'PR %': m.performanceRatio === null ? 'N/A' : Number(m.performanceRatio.toFixed(1)),
+    'Availability %': m.availability === null ? 'N/A' : Number(m.availability.toFixed(1)),
+    'Status': m.belowP90 ? 'Below P90' : m.sustained ? 'Sustained shortfall' : 'OK',
+  }));
+}
+
+/**
+ * Generate Excel workbook for metered production vs forecast
+ */
+export function generateProductionVarianceExcel(data: ProductionVarianceReport): Buffer {
+  const workbook = XLSX.utils.book_new();
+
+  const summaryData = [
+    ['Production Variance Report'],
+    [''],
+    ['Project', data.projectName],
+    ['Model', `${data.modelName} (v${data.modelVersion})`],
+    ['Period', `${formatMonth(data.period.start)} - ${formatMonth(new Date(data.period.end.getTime() - 1))}`],
+    ['Generated', formatDate(data.generatedAt)],
+    [''],
+    ['Forecast P50 (MWh)', Number(data.totals.forecastP50Mwh.toFixed(1))],
+    ['Forecast P90 (MWh)', data.totals.forecastP90Mwh === null ? 'N/A' : Number(data.totals.forecastP90Mwh.toFixed(1))],
+    ['Actual (MWh)', Number(data.totals.actualMwh.toFixed(1))],
+    ['Variance (MWh)', Number(data.totals.varianceMwh.toFixed(1))],
+    ['Variance %', formatPercent(data.totals.variancePercent)],
+    [''],
+    ['Variance threshold', `±${data.thresholds.productionVariancePercent}%`],
+    ['Sustained after', `${data.sustainedMonths} months`],
+  ];
+  const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
+  summarySheet['!cols'] = [{ wch: 22 }, { wch: 30 }];
+  XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+
+  const monthlySheet = XLSX.utils.json_to_sheet(productionVarianceRows(data));
+  monthlySheet['!cols'] = [
+    { wch: 10 }, { wch: 18 }, { wch: 18 }, { wch: 14 }, { wch: 15 }, { wch: 12 }, { wch: 8 }, { wch: 14 }, { wch: 20 },
+  ];
+  XLSX.utils.book_append_sheet(workbook, monthlySheet, 'Monthly');
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+/**
+ * Generate CSV for metered production vs forecast
+ */
+export function generateProductionVarianceCSV(data: ProductionVarianceReport): string {
+  const lines: string[] = [];
+
+  lines.push(`Production Variance Report - ${data.projectName}`);
+  lines.push(`Model: ${data.modelName} (v${data.modelVersion})`);
+  lines.push(`Generated: ${formatDate(data.generatedAt)}`);
+  lines.push('');
+
+  lines.push('Month,Forecast P50 (MWh),Forecast P90 (MWh),Actual (MWh),Variance (MWh),Variance %,PR %,Availability %,Status');
+  for (const row of productionVarianceRows(data)) {
+    lines.push(Object.values(row).join(','));
+  }
+  lines.push(`Total,${data.totals.forecastP50Mwh.toFixed(1)},${data.totals.forecastP90Mwh?.toFixed(1) ?? 'N/A'},${data.totals.actualMwh.toFixed(1)},${data.totals.varianceMwh.toFixed(1)},${formatPercent(data.totals.variancePercent)},,,`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate HTML (for PDF) for metered production vs forecast
+ */
+export function generateProductionVarianceHTML(data: ProductionVarianceReport): string {
+  const belowP90 = data.months.filter(m => m.belowP90).length;
+  const sustained = data.months.filter(m => m.sustained).length;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Production Variance Report</title>
+  <style>
+    body { font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif; margin: 40px; color: #1f2937; }
+    h1 { font-size: 24px; margin-bottom: 8px; }
+    h2 { font-size: 18px; margin-top: 32px; margin-bottom: 16px; border-bottom: 2px solid #e5e7eb; padding-bottom: 8px; }
+    .subtitle { color: #6b7280; font-size: 14px; margin-bottom: 24px; }
+    .meta { display: grid; grid-template-columns: repeat(4, 1fr); gap: 16px; margin-bottom: 32px; }
+    .meta-item { background: #f9fafb; padding: 16px; border-radius: 8px; }
+    .meta-label { font-size: 12px; color: #6b7280; text-transform: uppercase; letter-spacing: 0.05em; }
+    .meta-value { font-size: 18px; font-weight: 600; margin-top: 4px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+    th { background: #f3f4f6; text-align: left; padding: 12px; font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em; }
+    td { padding: 12px; border-bottom: 1px solid #e5e7eb; }
+    .number { text-align: right; font-variant-numeric: tabular-nums; }
+    .positive { color: #16a34a; }
+    .negative { color: #dc2626; }
+    .flag { font-weight: 600; color: #dc2626; }
+    .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #e5e7eb; font-size: 12px; color: #9ca3af; }
+  </style>
+</head>
+<body>
+  <h1>Production Variance Report</h1>
+  <p class="subtitle">${data.projectName} - ${data.modelName} (v${data.modelVersion}) | ${formatMonth(data.period.start)} - ${formatMonth(new Date(data.period.end.getTime() - 1))}</p>
+
+  <div class="meta">
+    <div class="meta-item">
+      <div class="meta-label">Forecast P50</div>
+      <div class="meta-value">${formatMwh(data.totals.forecastP50Mwh)}</div>
+    </div>
+    <div class="meta-item">
+      <div class="meta-label">Forecast P90</div>
+      <div class="meta-value">${formatMwh(data.totals.forecastP90Mwh)}</div>
+    </div>
+    <div class="meta-item">
+      <div class="meta-label">Metered</div>
+      <div class="meta-value">${formatMwh(data.totals.actualMwh)}</div>
+    </div>
+    <div class="meta-item">
+      <div class="meta-label">Variance vs P50</div>
+      <div class="meta-value ${data.totals.varianceMwh >= 0 ? 'positive' : 'negative'}">${formatPercent(data.totals.variancePercent)}</div>
+    </div>
+  </div>
+
+  <p>${belowP90} month(s) below the P90 downside case; ${sustained} month(s) in runs of ${data.sustainedMonths}+ consecutive months more than ${data.thresholds.productionVariancePercent}% below P50.</p>
+
+  ${data.months.length > 0 ? `
+  <h2>Monthly Production</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Month</th>
+        <th class="number">Forecast P50</th>
+        <th class="number">Forecast P90</th>
+        <th class="number">Metered</th>
+        <th class="number">Variance %</th>
+        <th class="number">PR</th>
+        <th class="number">Availability</th>
+        <th>Status</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${data.months.map(m => `
+      <tr>
+        <td>${formatMonth(m.periodStart)}</td>
+        <td class="number">${formatMwh(m.forecastP50Mwh)}</td>
+        <td class="number">${formatMwh(m.forecastP90Mwh)}</td>
+        <td class="number">${formatMwh(m.actualMwh)}</td>
+        <td class="number ${m.varianceMwh >= 0 ? 'positive' : 'negative'}">${formatPercent(m.variancePercent)}</td>
+        <td class="number">${m.performanceRatio === null ? 'N/A' : `${m.performanceRatio.toFixed(1)}%`}</td>
+        <td class="number">${m.availability === null ? 'N/A' : `${m.availability.toFixed(1)}%`}</td>
+        <td${m.belowP90 || m.sustained ? ' class="flag"' : ''}>${m.belowP90 ? 'Below P90' : m.sustained ? 'Sustained shortfall' : 'OK'}</td>
+      </tr>
+      `).join('')}
+    </tbody>
+  </table>
+  ` : '<p>No metered production for this period.</p>'}
+
+  <div class="footer">
+    <p>Generated on ${formatDate(data.generatedAt)} | Metered energy from revenue-grade meter and inverter counters; forecast from the approved financial model.</p>
+  </div>
+</body>
+</html>
+  `.trim();
+}
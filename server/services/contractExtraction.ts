@@ -0,0 +1,1169 @@
+/**
+ * Contract Obligation Extraction
+ *
+ * Reads PPAs, leases and loan agreements clause by clause and proposes the
+ * obligations they create: reporting deadlines, insurance renewals, payment
+ * dates, notice periods and covenant tests, each with the obligated party, a
+ * frequency and what starts the clock. Every proposal points back to the
+ * page and clause it was read from, and only becomes an obligation (with an
+ * RRULE) once someone accepts it.
+ *
+ * Amendments go through the same extraction, but their clauses are
+ * attributed to the sections of the agreement they amend and the result is
+ * diffed against the contract's live proposals. Changed obligations are
+ * proposed as replacements and deleted clauses as removals; accepting either
+ * supersedes the obligation created from the earlier proposal.
+ *
+ * Extraction is rule-based and runs as a 'contract_extraction' job.
+ */
+
+import { randomUUID } from "crypto";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import {
+  createObligation,
+  createObligationLink,
+  getDb,
+  logObligationAction,
+  updateObligationStatus
+} from "../db";
+import {
+  artifactContracts,
+  artifacts,
+  contractAmendments,
+  contractObligationProposals,
+  contractObligations,
+  type Artifact,
+  type ArtifactContract,
+  type ContractEvidenceRef,
+  type ContractObligationProposal,
+  type ContractProposalCategory,
+  type ContractProposalFrequency,
+  type ContractProposalTrigger,
+  type InsertContractObligation
+} from "../../drizzle/schema";
+import { enqueueJob } from "./jobQueue";
+import { formatICalDate } from "./icalendar";
+import { parseRecurrenceRule, RecurrenceParseError } from "./recurrenceRule";
+
+export class ContractExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContractExtractionError";
+  }
+}
+
+// ============================================================================
+// Clauses
+// ============================================================================
+
+export interface ContractPage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface ContractClause {
+  ref: string | null; // "12.3", "IV"; null for the preamble
+  heading: string | null;
+  text: string;
+  pageNumber: number;
+  // Offsets in `text` where later pages start
+  pageBreaks: Array<{ offset: number; pageNumber: number }>;
+}
+
+const CLAUSE_HEADING = /^(?:(?:section|clause|article)\s+(\d+(?:\.\d+)*|[IVXLC]+)\b\.?|(\d{1,3}\.(?:\d{1,3}\.?){0,3}))\s*[:\-–—]?\s*(.*)$/i;
+const PAGE_FURNITURE = /^(?:page\s+)?\d+(?:\s+of\s+\d+)?$/i;
+const OBLIGATION_VERB = /\b(?:shall|must|will|agrees? to|undertakes? to|is required to|covenants? (?:to|that))\b/i;
+
+/** Split page text into numbered clauses; sub-clauses such as (a) stay with their parent */
+export function splitClauses(pages: ContractPage[]): ContractClause[] {
+  const clauses: ContractClause[] = [];
+  let current: ContractClause | null = null;
+
+  for (const page of pages) {
+    for (const rawLine of page.text.split(/\r?\n/)) {
+      const line = rawLine.trim().replace(/\s+/g, " ");
+      if (!line || PAGE_FURNITURE.test(line)) continue;
+
+      const heading = line.match(CLAUSE_HEADING);
+      if (heading) {
+        const rest = heading[3].trim();
+        const isTitle = rest.length > 0 && rest.length <= 80 && !/[.;:,]$/.test(rest) && !OBLIGATION_VERB.test(rest);
+        current = {
+          ref: (heading[1] ?? heading[2]).replace(/\.$/, "").toUpperCase(),
+          heading: isTitle ? rest : null,
+          text: isTitle ? "" : rest,
+          pageNumber: page.pageNumber,
+          pageBreaks: []
+        };
+        clauses.push(current);
+        continue;
+      }
+
+      if (!current) {
+        current = { ref: null, heading: null, text: "", pageNumber: page.pageNumber, pageBreaks: [] };
+        clauses.push(current);
+      }
+      const lastPage = current.pageBreaks[current.pageBreaks.length - 1]?.pageNumber ?? current.pageNumber;
+      if (page.pageNumber !== lastPage) {
+        current.pageBreaks.push({ offset: current.text ? current.text.length + 1 : 0, pageNumber: page.pageNumber });
+      }
+      current.text = current.text ? `${current.text} ${line}` : line;
+    }
+  }
+
+  return clauses.filter(c => c.text.length > 0);
+}
+
+function pageAt(clause: ContractClause, offset: number): number {
+  let pageNumber = clause.pageNumber;
+  for (const pageBreak of clause.pageBreaks) {
+    if (pageBreak.offset <= offset) pageNumber = pageBreak.pageNumber;
+  }
+  return pageNumber;
+}
+
+/** Sentences and list items; a full stop inside a number (1.20, 12.3) does not end one */
+function sentences(text: string): Array<{ text: string; offset: number }> {
+  return Array.from(text.matchAll(/(?:[^.;]|\.(?=\d))+[.;]?/g))
+    .map(match => ({ text: match[0].trim(), offset: (match.index ?? 0) + match[0].search(/\S/) }))
+    .filter(s => s.text.length > 0);
+}
+
+// ============================================================================
+// Timing
+// ============================================================================
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fourteen: 14, fifteen: 15, twenty: 20, "twenty-one": 21, thirty: 30,
+  forty: 40, "forty-five": 45, sixty: 60, ninety: 90, "one hundred twenty": 120,
+  "one hundred and twenty": 120, "one hundred eighty": 180, "one hundred and eighty": 180
+};
+
+// "thirty (30)", "30", "forty-five"
+const QUANTITY = String.raw`(\d+|[a-z]+(?:[- ][a-z]+){0,3}?)(?:\s*\((\d+)\))?`;
+
+function quantity(word: string, digits: string | undefined): number | null {
+  if (digits) return parseInt(digits, 10);
+  if (/^\d+$/.test(word)) return parseInt(word, 10);
+  return NUMBER_WORDS[word.toLowerCase().replace(/\s+/g, " ")] ?? null;
+}
+
+function toDays(amount: number, unit: string, business: boolean): { offsetDays?: number; offsetMonths?: number } {
+  if (/^month/i.test(unit)) return { offsetMonths: amount };
+  return { offsetDays: business ? Math.ceil(amount * 7 / 5) : amount };
+}
+
+const PERIOD_FREQUENCY: Record<string, ContractProposalFrequency> = {
+  month: "monthly",
+  quarter: "quarterly",
+  "half-year": "semi_annually",
+  "half year": "semi_annually",
+  semester: "semi_annually",
+  year: "annually"
+};
+
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const AFTER_PERIOD_END = new RegExp(
+  String.raw`(?:within|not later than|no later than)\s+${QUANTITY}\s+(business\s+|calendar\s+)?(days?|months?)\s+(?:after|following|of|from)\s+(?:the\s+)?(?:end|close)\s+of\s+(?:each|every|the)\s+(?:calendar\s+|fiscal\s+|financial\s+|contract\s+)?(month|quarter|half[- ]year|semester|year)`,
+  "i"
+);
+const DAY_OF_PERIOD = /(?:on or before|no later than|not later than|by|on)\s+the\s+(?:(\d{1,2})(?:st|nd|rd|th)?(?:\s+\(\w+\))?|(last))\s+(?:business\s+)?day\s+of\s+(?:each|every)\s+(?:calendar\s+)?(month|quarter|year)/i;
+const ANNIVERSARY = /(?:each|every)\s+anniversary\s+of\s+(?:the\s+)?([A-Za-z ]*?(?:date|commencement))\b/i;
+const OFFSET_BEFORE = new RegExp(
+  String.raw`${QUANTITY}\s+(business\s+|calendar\s+)?(days?|months?)['’]?\s+(?:prior\s+(?:written\s+)?notice|(?:advance\s+)?(?:written\s+)?notice|(?:prior\s+to|before))`,
+  "i"
+);
+const EVENT = /(?:prior to|before)\s+(?:the\s+)?(?:scheduled\s+|date\s+of\s+(?:the\s+)?)?(expiry|expiration|termination|end|renewal|lapse)(?:\s+date)?(?:\s+of\s+(?:the\s+|each\s+|any\s+|such\s+|its\s+)?([A-Za-z ]+?))?(?=[,.;)]|\s+(?:and|or|in|under|that|which|to|shall)\b|$)/i;
+const DAY_MONTH = /\b(?:(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?(january|february|march|april|may|june|july|august|september|october|november|december)|(january|february|march|april|may|june|july|august|september|october|november|december)\s+(\d{1,2})(?:st|nd|rd|th)?)\b(?!,?\s*\d{4})/gi;
+
+export interface ClauseTiming {
+  frequency: ContractProposalFrequency | null;
+  trigger: ContractProposalTrigger;
+}
+
+function frequencyWords(text: string): ContractProposalFrequency | null {
+  if (/\b(?:semi[- ]?annual(?:ly)?|half[- ]yearly|bi-?annual(?:ly)?|twice (?:a|per|each|in each) year|(?:each|every) (?:six|6)[- ]month|(?:each|every) half[- ]year)/i.test(text)) return "semi_annually";
+  if (/\b(?:quarterly|(?:each|every|per) (?:calendar |fiscal |financial )?quarter|(?:each|every) (?:three|3)[- ]months?)\b/i.test(text)) return "quarterly";
+  if (/\b(?:monthly|(?:each|every|per) (?:calendar )?month)\b/i.test(text)) return "monthly";
+  if (/\b(?:annual(?:ly)?|yearly|per annum|(?:each|every|per) (?:calendar |fiscal |financial |contract )?year)\b/i.test(text)) return "annually";
+  return null;
+}
+
+function normalizeEvent(kind: string, object: string | undefined): string {
+  const name = kind.toLowerCase() === "expiration" ? "expiry" : kind.toLowerCase();
+  return object ? `${name} of ${object.trim().toLowerCase()}` : name;
+}
+
+/** Work out how often something is due and what it is due relative to */
+export function parseTiming(text: string): ClauseTiming | null {
+  const afterPeriod = text.match(AFTER_PERIOD_END);
+  if (afterPeriod) {
+    const amount = quantity(afterPeriod[1], afterPeriod[2]);
+    if (amount !== null) {
+      return {
+        frequency: PERIOD_FREQUENCY[afterPeriod[5].toLowerCase().replace("-", " ")] ?? "annually",
+        trigger: { type: "period_end", ...toDays(amount, afterPeriod[4], !!afterPeriod[3]?.match(/business/i)) }
+      };
+    }
+  }
+
+  const dayOfPeriod = text.match(DAY_OF_PERIOD);
+  if (dayOfPeriod) {
+    return {
+      frequency: PERIOD_FREQUENCY[dayOfPeriod[3].toLowerCase()],
+      trigger: { type: "day_of_period", dayOfPeriod: dayOfPeriod[2] ? -1 : Math.min(parseInt(dayOfPeriod[1], 10), 31) }
+    };
+  }
+
+  const dates = Array.from(text.matchAll(DAY_MONTH)).map(match => {
+    const month = MONTHS.indexOf((match[2] ?? match[3]).toLowerCase()) + 1;
+    const day = parseInt(match[1] ?? match[4], 10);
+    return { month, day: day >= DAYS_IN_MONTH[month - 1] - (month === 2 ? 1 : 0) ? -1 : day };
+  });
+  if (dates.length > 0) {
+    const frequency: ContractProposalFrequency = dates.length === 2 ? "semi_annually" : dates.length === 4 ? "quarterly" : "annually";
+    return { frequency, trigger: { type: "fixed_dates", dates } };
+  }
+
+  const offsetBefore = text.match(OFFSET_BEFORE);
+  const event = text.match(EVENT);
+  const anniversary = text.match(ANNIVERSARY);
+  if (anniversary) {
+    const amount = offsetBefore ? quantity(offsetBefore[1], offsetBefore[2]) : null;
+    return {
+      frequency: "annually",
+      trigger: {
+        type: "anniversary",
+        event: anniversary[1].trim().toLowerCase(),
+        ...(amount !== null && offsetBefore ? toDays(amount, offsetBefore[4], !!offsetBefore[3]?.match(/business/i)) : {})
+      }
+    };
+  }
+
+  if (offsetBefore) {
+    const amount = quantity(offsetBefore[1], offsetBefore[2]);
+    if (amount !== null) {
+      const eventName = event ? normalizeEvent(event[1], event[2]) : undefined;
+      return {
+        frequency: eventName && /polic|insurance/.test(eventName) ? "annually" : frequencyWords(text) ?? "one_time",
+        trigger: { type: "before_event", event: eventName, ...toDays(amount, offsetBefore[4], !!offsetBefore[3]?.match(/business/i)) }
+      };
+    }
+  }
+
+  const frequency = frequencyWords(text);
+  return frequency ? { frequency, trigger: { type: "none" } } : null;
+}
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+export interface ScheduleContext {
+  effectiveDate: Date | null;
+  expiryDate: Date | null;
+  asOf: Date;
+}
+
+const FREQUENCY_MONTHS: Record<ContractProposalFrequency, number> = {
+  one_time: 0, monthly: 1, quarterly: 3, semi_annually: 6, annually: 12
+};
+
+function utcDate(year: number, monthIndex: number, day: number): Date {
+  // Day -1 is the last day of the month; other days are clamped to it
+  const last = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, monthIndex, day === -1 ? last : Math.min(day, last)));
+}
+
+function addMonthsKeepingEnd(date: Date, months: number): Date {
+  const isMonthEnd = new Date(date.getTime() + 86400000).getUTCDate() === 1;
+  return utcDate(date.getUTCFullYear(), date.getUTCMonth() + months, isMonthEnd ? -1 : date.getUTCDate());
+}
+
+function applyOffset(date: Date, trigger: ContractProposalTrigger, sign: 1 | -1): Date {
+  let result = trigger.offsetMonths ? addMonthsKeepingEnd(date, sign * trigger.offsetMonths) : date;
+  if (trigger.offsetDays) result = new Date(result.getTime() + sign * trigger.offsetDays * 86400000);
+  return result;
+}
+
+function monthlyRule(interval: number, day: number, monthOfYear: number): string {
+  // Day-offsets from uneven month ends drift by a day or two; use the earlier day so the date is never late
+  const byMonthDay = day > 28 ? 28 : day;
+  return interval === 12
+    ? `FREQ=YEARLY;BYMONTH=${monthOfYear};BYMONTHDAY=${byMonthDay}`
+    : `FREQ=MONTHLY${interval > 1 ? `;INTERVAL=${interval}` : ""};BYMONTHDAY=${byMonthDay}`;
+}
+
+/**
+ * First due date on or after the later of the effective date and `asOf`,
+ * and an RRULE for the rest (ending at expiry)
+ */
+export function scheduleFor(
+  category: ContractProposalCategory,
+  timing: ClauseTiming,
+  context: ScheduleContext
+): { firstDueAt: Date | null; recurrenceRule: string | null } {
+  const start = context.effectiveDate && context.effectiveDate > context.asOf ? context.effectiveDate : context.asOf;
+  const day0 = utcDate(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const { trigger } = timing;
+  const interval = timing.frequency ? FREQUENCY_MONTHS[timing.frequency] : 0;
+
+  let firstDueAt: Date | null = null;
+  let rule: string | null = null;
+
+  const anniversaryFrom = (anchor: Date) => {
+    for (let year = day0.getUTCFullYear() - 1; year <= day0.getUTCFullYear() + 2; year++) {
+      const due = applyOffset(utcDate(year, anchor.getUTCMonth(), anchor.getUTCDate()), trigger, -1);
+      if (due >= day0) return due;
+    }
+    return null;
+  };
+
+  const periodType = trigger.type === "none" && category !== "insurance_renewal" && interval > 0 ? "period_end" : trigger.type;
+  switch (periodType) {
+    case "period_end": {
+      if (!interval) break;
+      // Periods end with calendar quarters / half-years / years
+      for (let m = -interval; m <= 24 && !firstDueAt; m++) {
+        const monthIndex = day0.getUTCMonth() + m;
+        if (((monthIndex % 12) + 12 + 1) % interval !== 0) continue;
+        const due = applyOffset(utcDate(day0.getUTCFullYear(), monthIndex, -1), trigger, 1);
+        if (due >= day0) firstDueAt = due;
+      }
+      if (firstDueAt) {
+        const endAligned = !trigger.offsetDays;
+        rule = endAligned
+          ? interval === 12
+            ? `FREQ=YEARLY;BYMONTH=${firstDueAt.getUTCMonth() + 1};BYMONTHDAY=-1`
+            : `FREQ=MONTHLY${interval > 1 ? `;INTERVAL=${interval}` : ""};BYMONTHDAY=-1`
+          : monthlyRule(interval, firstDueAt.getUTCDate(), firstDueAt.getUTCMonth() + 1);
+      }
+      break;
+    }
+    case "day_of_period": {
+      if (!interval || trigger.dayOfPeriod === undefined) break;
+      for (let m = 0; m <= 24 && !firstDueAt; m++) {
+        const monthIndex = day0.getUTCMonth() + m;
+        // "Last day of each quarter" falls in the period's final month, "5th day of each quarter" in its first
+        const monthOfPeriod = ((monthIndex % 12) + 12 + (trigger.dayOfPeriod === -1 ? 1 : 0)) % interval;
+        if (monthOfPeriod !== 0) continue;
+        const due = utcDate(day0.getUTCFullYear(), monthIndex, trigger.dayOfPeriod);
+        if (due >= day0) firstDueAt = due;
+      }
+      if (firstDueAt) {
+        rule = trigger.dayOfPeriod === -1
+          ? `FREQ=MONTHLY${interval > 1 ? `;INTERVAL=${interval}` : ""};BYMONTHDAY=-1`
+          : monthlyRule(interval, trigger.dayOfPeriod, firstDueAt.getUTCMonth() + 1);
+      }
+      break;
+    }
+    case "fixed_dates": {
+      const dates = trigger.dates ?? [];
+      if (dates.length === 0) break;
+      const candidates = [0, 1].flatMap(y => dates.map(d => utcDate(day0.getUTCFullYear() + y, d.month - 1, d.day)));
+      firstDueAt = candidates.filter(d => d >= day0).sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+      const days = Array.from(new Set(dates.map(d => d.day)));
+      const byMonthDay = days.length === 1 ? days[0] : Math.min(...days.map(d => (d === -1 ? 28 : d)));
+      rule = `FREQ=YEARLY;BYMONTH=${Array.from(new Set(dates.map(d => d.month))).sort((a, b) => a - b).join(",")};BYMONTHDAY=${byMonthDay}`;
+      break;
+    }
+    case "anniversary":
+    case "none": {
+      // Insurance without an explicit date renews on the contract anniversary
+      const anchor = context.effectiveDate;
+      if (!anchor) break;
+      firstDueAt = anniversaryFrom(anchor);
+      if (firstDueAt) rule = `FREQ=YEARLY;BYMONTH=${firstDueAt.getUTCMonth() + 1};BYMONTHDAY=${firstDueAt.getUTCDate()}`;
+      break;
+    }
+    case "before_event": {
+      const event = trigger.event ?? "";
+      if (category === "insurance_renewal" || /polic|insurance/.test(event)) {
+        if (!context.effectiveDate) break;
+        firstDueAt = anniversaryFrom(context.effectiveDate);
+        if (firstDueAt) rule = `FREQ=YEARLY;BYMONTH=${firstDueAt.getUTCMonth() + 1};BYMONTHDAY=${firstDueAt.getUTCDate()}`;
+      } else if (context.expiryDate && /^(?:expiry|end|termination|renewal)/.test(event)) {
+        const due = applyOffset(context.expiryDate, trigger, -1);
+        firstDueAt = due >= day0 ? due : null;
+      }
+      break;
+    }
+  }
+
+  if (!firstDueAt) return { firstDueAt: null, recurrenceRule: null };
+  if (context.expiryDate && firstDueAt > context.expiryDate) return { firstDueAt: null, recurrenceRule: null };
+  if (!rule) return { firstDueAt, recurrenceRule: null };
+
+  const until = context.expiryDate ? `;UNTIL=${formatICalDate(new Date(context.expiryDate.getTime() + 86399000))}` : "";
+  return { firstDueAt, recurrenceRule: `RRULE:${rule}${until}` };
+}
+
+// ============================================================================
+// Proposals
+// ============================================================================
+
+export interface ContractParty {
+  name: string;
+  role: string;
+}
+
+export interface ExtractionContext extends ScheduleContext {
+  artifactId: number;
+  parties: ContractParty[];
+  // Amendments: attribute clauses to the sections of the agreement they amend
+  isAmendment: boolean;
+}
+
+export interface ProposalDraft {
+  category: ContractProposalCategory;
+  title: string;
+  description: string;
+  party: string | null;
+  partyRole: string | null;
+  frequency: ContractProposalFrequency | null;
+  trigger: ContractProposalTrigger;
+  recurrenceRule: string | null;
+  firstDueAt: Date | null;
+  covenantMetric: "dscr" | null;
+  covenantThreshold: number | null;
+  clauseRef: string | null;
+  pageNumber: number;
+  sourceText: string;
+  evidence: ContractEvidenceRef;
+  confidence: number;
+}
+
+export interface ExtractionResult {
+  drafts: ProposalDraft[];
+  amendedRefs: string[];
+  deletedRefs: string[];
+}
+
+const COMMON_PARTIES = [
+  "Seller", "Buyer", "Purchaser", "Offtaker", "Off-taker", "Lessor", "Lessee", "Landlord", "Tenant",
+  "Borrower", "Lender", "Lenders", "Agent", "Facility Agent", "Security Agent", "Company", "Contractor",
+  "Owner", "Operator", "Generator", "Producer", "Licensee", "Licensor", "Guarantor", "Sponsor",
+  "Project Company", "Customer", "Supplier", "Host", "Each Party", "Either Party", "Parties"
+];
+
+const SUBJECT = /((?:(?:Each|Either|Both)\s+)?(?:[A-Z][\w&'-]*\s+){0,3}?[A-Z][\w&'-]*)\s+(?:shall|must|will|may|agrees|undertakes|is required|covenants)\b/;
+const AGENT = /\bby\s+(?:the\s+)?([A-Z][\w-]*(?:\s+[A-Z][\w-]*){0,2})/;
+
+function findParty(text: string, parties: ContractParty[]): { party: string; role: string | null } | null {
+  const candidates = [text.match(SUBJECT)?.[1], text.match(AGENT)?.[1]]
+    .filter((c): c is string => !!c)
+    .map(c => c.replace(/^The\s+/, "").trim());
+
+  for (const candidate of candidates) {
+    const lower = candidate.toLowerCase();
+    const known = parties.find(p => p.role.toLowerCase() === lower || p.name.toLowerCase() === lower);
+    if (known) return { party: known.name || candidate, role: known.role };
+    if (COMMON_PARTIES.some(p => p.toLowerCase() === lower)) return { party: candidate, role: lower };
+  }
+  return null;
+}
+
+const COVENANT = /\b(debt service cover(?:age)? ratio|DSCR|loan life cover(?:age)? ratio|LLCR|interest cover(?:age)? ratio|ICR|leverage ratio)\b/i;
+const THRESHOLD = /(?:not\s+(?:be\s+)?(?:less|lower)\s+than|no\s+less\s+than|at\s+least|a\s+minimum\s+of|minimum\s+of|greater\s+than\s+or\s+equal\s+to|fall\s+below|(?:is|be)\s+below)\s+(\d+(?:\.\d+)?)\s*(?::\s*1(?:\.0+)?|x|times)?/i;
+const INSURANCE = /\b(?:insurances?|insured|insurers?|policies of insurance|insurance polic(?:y|ies))\b/i;
+const INSURANCE_ACTION = /\b(?:maintain|renew|procure|obtain|effect|keep|deliver|provide|furnish)\b/i;
+const REPORT_VERB = /\b(?:deliver(?:ed)?|provided?|submit(?:ted)?|furnish(?:ed)?|sent|send|made available|make available)\b/i;
+const REPORT_OBJECT = /\b(?:reports?|financial statements|statements|compliance certificates?|certificates?|accounts|budgets?|forecasts?|information)\b/i;
+const PAYMENT = /\b(?:pay|payable|paid|remit|payment)\b/i;
+const NOTICE = /\bnotice\b/i;
+
+function categorize(text: string, clauseHasVerb: boolean, timing: ClauseTiming | null): ContractProposalCategory | null {
+  if (COVENANT.test(text) && THRESHOLD.test(text)) return "covenant_test";
+  // Notice periods are conditions on rights as often as duties, so no "shall" is needed
+  if (NOTICE.test(text) && timing?.trigger.type === "before_event" && !INSURANCE.test(text)) return "notice_period";
+  if (!clauseHasVerb) return null;
+  if (INSURANCE.test(text) && INSURANCE_ACTION.test(text) && (timing || /\brenew/i.test(text))) return "insurance_renewal";
+  if (!timing) return null;
+  if (REPORT_VERB.test(text) && REPORT_OBJECT.test(text)) return "reporting_deadline";
+  if (PAYMENT.test(text)) return "payment_date";
+  return null;
+}
+
+const METRIC_LABELS: Array<[RegExp, string]> = [
+  [/debt service|DSCR/i, "DSCR"],
+  [/loan life|LLCR/i, "LLCR"],
+  [/interest cover|ICR/i, "Interest cover"],
+  [/leverage/i, "Leverage ratio"]
+];
+
+const FREQUENCY_LABELS: Record<ContractProposalFrequency, string> = {
+  one_time: "One-time",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  semi_annually: "Semi-annual",
+  annually: "Annual"
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function titleFor(
+  category: ContractProposalCategory,
+  text: string,
+  party: string | null,
+  timing: ClauseTiming | null,
+  threshold: number | null
+): string {
+  const by = party ? ` by ${party}` : "";
+  switch (category) {
+    case "covenant_test": {
+      const label = METRIC_LABELS.find(([pattern]) => pattern.test(text))?.[1] ?? "Financial";
+      return `${label} covenant test (minimum ${threshold !== null ? `${threshold.toFixed(2)}x` : "per agreement"})`;
+    }
+    case "reporting_deadline": {
+      const object = text.match(/(?:deliver|provide|submit|furnish|send|make available)\s+(?:to\s+(?:the\s+|each\s+)?[A-Z][\w-]*(?:\s+[A-Z][\w-]*)?\s+)?(?:(?:a|an|the|its|each|copies of(?: its)?)\s+)?((?:[\w-]+\s+){0,5}?(?:reports?|financial statements|statements|certificates?|accounts|budgets?|forecasts?))\b/i)?.[1];
+      const name = object ? capitalize(object) : `${timing?.frequency ? FREQUENCY_LABELS[timing.frequency] : ""} report`.trim();
+      return `${capitalize(name)}${party ? ` from ${party}` : ""}`;
+    }
+    case "insurance_renewal":
+      return `Insurance renewal${by}`;
+    case "payment_date": {
+      const object = text.match(/\b(?:pay|remit)\s+(?:to\s+the\s+[A-Z][\w-]*\s+)?(?:the\s+|all\s+|any\s+|each\s+)?((?:[A-Z][\w-]*\s*){1,4})/)?.[1]?.trim();
+      return `${object ?? "Payment"} due${party ? ` from ${party}` : ""}`;
+    }
+    case "notice_period": {
+      const trigger = timing?.trigger;
+      const length = trigger?.offsetMonths ? `${trigger.offsetMonths}-month` : `${trigger?.offsetDays ?? 0}-day`;
+      return `${length} notice${trigger?.event ? ` before ${trigger.event}` : ""}${by}`;
+    }
+  }
+}
+
+/** Sections an amendment clause amends, and whether it deletes them */
+function amendmentTarget(text: string): { ref: string; deleted: boolean } | null {
+  const match = text.match(/\b(?:section|clause|article)\s+(\d+(?:\.\d+)*|[IVXLC]+)\s+(?:of\s+the\s+(?:[\w ]+?\s+)?agreement\s+)?(?:is|shall\s+be)\s+(?:hereby\s+)?(amended|deleted|replaced|restated|supplemented|added|removed)/i);
+  if (!match) return null;
+  const deleted = /^(?:deleted|removed)$/i.test(match[2]) && !/\b(?:replaced|substituted|following|read as)\b/i.test(text);
+  return { ref: match[1].toUpperCase(), deleted };
+}
+
+/**
+ * Propose obligations clause by clause. Confidence rises with each part of
+ * the obligation that could be pinned down (party, schedule, clause).
+ */
+export function extractProposals(clauses: ContractClause[], context: ExtractionContext): ExtractionResult {
+  const drafts: ProposalDraft[] = [];
+  const amended = new Set<string>();
+  const deleted = new Set<string>();
+
+  if (context.isAmendment) {
+    for (const clause of clauses) {
+      const target = amendmentTarget(clause.text);
+      if (!target) continue;
+      amended.add(target.ref);
+      if (target.deleted) deleted.add(target.ref);
+    }
+  }
+
+  for (const clause of clauses) {
+    // In an amendment, restated clauses carry the agreement's numbering; the
+    // amendment's own sections are attributed to the section they amend
+    const target = context.isAmendment ? amendmentTarget(clause.text) : null;
+    const clauseRef = !context.isAmendment
+      ? clause.ref
+      : target?.ref ?? (clause.ref && amended.has(clause.ref) ? clause.ref : null);
+    if (target?.deleted) continue;
+
+    const clauseHasVerb = OBLIGATION_VERB.test(clause.text);
+    const clauseParty = findParty(clause.text, context.parties);
+
+    for (const sentence of sentences(clause.text)) {
+      const timing = parseTiming(sentence.text);
+      const category = categorize(sentence.text, clauseHasVerb, timing);
+      if (!category) continue;
+
+      const party = findParty(sentence.text, context.parties) ?? clauseParty;
+      const thresholdMatch = category === "covenant_test" ? sentence.text.match(THRESHOLD) : null;
+      const threshold = thresholdMatch ? parseFloat(thresholdMatch[1]) : null;
+      const effectiveTiming = timing
+        ?? (category === "insurance_renewal" ? { frequency: "annually" as const, trigger: { type: "none" as const } } : null)
+        ?? frequencyFromClause(clause.text);
+      const schedule = effectiveTiming
+        ? scheduleFor(category, effectiveTiming, context)
+        : { firstDueAt: null, recurrenceRule: null };
+
+      const pageNumber = pageAt(clause, sentence.offset);
+      const snippet = sentence.text.slice(0, 240);
+      const confidence = Math.min(0.95,
+        0.4
+        + (party ? 0.15 : 0)
+        + (effectiveTiming ? 0.15 : 0)
+        + (schedule.firstDueAt ? 0.1 : 0)
+        + (clauseRef ? 0.1 : 0)
+        + (category === "covenant_test" && threshold !== null ? 0.1 : 0));
+
+      drafts.push({
+        category,
+        title: titleFor(category, sentence.text, party?.party ?? null, effectiveTiming, threshold).slice(0, 500),
+        description: `${clause.heading ? `${clause.heading}. ` : ""}${sentence.text}`,
+        party: party?.party ?? null,
+        partyRole: party?.role ?? null,
+        frequency: effectiveTiming?.frequency ?? null,
+        trigger: effectiveTiming?.trigger ?? { type: "none" },
+        recurrenceRule: schedule.recurrenceRule,
+        firstDueAt: schedule.firstDueAt,
+        covenantMetric: category === "covenant_test" && /debt service|DSCR/i.test(sentence.text) ? "dscr" : null,
+        covenantThreshold: threshold,
+        clauseRef,
+        pageNumber,
+        sourceText: sentence.text,
+        evidence: {
+          artifactId: context.artifactId,
+          pageNumber,
+          clauseRef: clause.ref,
+          snippet,
+          anchor: { matchType: "exact", query: snippet }
+        },
+        confidence: Math.round(confidence * 1000) / 1000
+      });
+    }
+  }
+
+  return { drafts, amendedRefs: Array.from(amended), deletedRefs: Array.from(deleted) };
+}
+
+// Covenant tests and insurance often state the frequency in another sentence of the clause
+function frequencyFromClause(text: string): ClauseTiming | null {
+  for (const sentence of sentences(text)) {
+    const timing = parseTiming(sentence.text);
+    if (timing && timing.trigger.type !== "before_event") return timing;
+  }
+  return null;
+}
+
+// ============================================================================
+// Amendment diff
+// ============================================================================
+
+export type LiveProposal = Pick<ContractObligationProposal,
+  "id" | "category" | "status" | "title" | "party" | "frequency" | "trigger" | "recurrenceRule" | "firstDueAt" | "covenantThreshold" | "sourceClause">;
+
+export interface ProposalChange {
+  field: string;
+  oldValue: string;
+  newValue: string;
+}
+
+export type ProposalDiff =
+  | { changeType: "new"; draft: ProposalDraft }
+  | { changeType: "modified"; draft: ProposalDraft; previous: LiveProposal; changes: ProposalChange[] }
+  | { changeType: "removed"; previous: LiveProposal };
+
+export function describeTrigger(trigger: ContractProposalTrigger): string {
+  const offset = [
+    trigger.offsetMonths ? `${trigger.offsetMonths} months` : null,
+    trigger.offsetDays ? `${trigger.offsetDays} days` : null
+  ].filter(Boolean).join(" ");
+  switch (trigger.type) {
+    case "period_end":
+      return offset ? `${offset} after period end` : "period end";
+    case "day_of_period":
+      return trigger.dayOfPeriod === -1 ? "last day of period" : `day ${trigger.dayOfPeriod} of period`;
+    case "fixed_dates":
+      return (trigger.dates ?? []).map(d => `${d.day === -1 ? "end of" : d.day} ${capitalize(MONTHS[d.month - 1])}`).join(", ");
+    case "anniversary":
+      return `${offset ? `${offset} before ` : ""}anniversary of ${trigger.event ?? "the contract"}`;
+    case "before_event":
+      return `${offset || "before"}${offset ? " before " : " "}${trigger.event ?? "the event"}`;
+    case "none":
+      return "unspecified";
+  }
+}
+
+function thresholdText(value: string | number | null): string {
+  if (value === null || value === undefined) return "";
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed.toFixed(2) : "";
+}
+
+function proposalChanges(previous: LiveProposal, draft: ProposalDraft): ProposalChange[] {
+  const fields: Array<[string, string, string]> = [
+    ["party", previous.party ?? "", draft.party ?? ""],
+    ["frequency", previous.frequency ?? "", draft.frequency ?? ""],
+    ["trigger", describeTrigger(previous.trigger), describeTrigger(draft.trigger)],
+    ["covenantThreshold", thresholdText(previous.covenantThreshold), thresholdText(draft.covenantThreshold)]
+  ];
+  // Recurring due dates move with the run date; only compare one-off ones
+  if (!draft.recurrenceRule && !previous.recurrenceRule) {
+    fields.push(["firstDueAt", previous.firstDueAt?.toISOString().slice(0, 10) ?? "", draft.firstDueAt?.toISOString().slice(0, 10) ?? ""]);
+  }
+  return fields
+    .filter(([, oldValue, newValue]) => oldValue !== newValue)
+    .map(([field, oldValue, newValue]) => ({ field, oldValue, newValue }));
+}
+
+/**
+ * Match extracted drafts to the contract's live proposals by clause and
+ * category (or party when there is no clause number). Unchanged obligations
+ * drop out; live proposals from sections an amendment deleted, or restated
+ * without them, are removed.
+ */
+export function diffProposals(live: LiveProposal[], result: ExtractionResult): ProposalDiff[] {
+  const diffs: ProposalDiff[] = [];
+  const matched = new Set<number>();
+
+  for (const draft of result.drafts) {
+    const previous = live.find(p => !matched.has(p.id) && p.category === draft.category && (
+      draft.clauseRef
+        ? p.sourceClause === draft.clauseRef
+        : !p.sourceClause && (p.party ?? "") === (draft.party ?? "")
+    ));
+    if (!previous) {
+      diffs.push({ changeType: "new", draft });
+      continue;
+    }
+    matched.add(previous.id);
+    const changes = proposalChanges(previous, draft);
+    if (changes.length > 0) diffs.push({ changeType: "modified", draft, previous, changes });
+  }
+
+  const amended = new Set(result.amendedRefs);
+  for (const previous of live) {
+    if (matched.has(previous.id) || !previous.sourceClause || !amended.has(previous.sourceClause)) continue;
+    diffs.push({ changeType: "removed", previous });
+  }
+  return diffs;
+}
+
+// ============================================================================
+// Reading artifacts
+// ============================================================================
+
+/** Pages of extracted text, separated by form feeds */
+export function pagesFromText(text: string): ContractPage[] {
+  return text.split("\f").map((page, i) => ({ pageNumber: i + 1, text: page }));
+}
+
+async function download(url: string): Promise<Response> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(60000) });
+  if (!response.ok) throw new Error(`Failed to download contract: ${response.status} ${response.statusText}`);
+  return response;
+}
+
+async function readPdfPages(data: Uint8Array): Promise<ContractPage[]> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.js");
+  const pdf = await pdfjs.getDocument({ data, isEvalSupported: false, useSystemFonts: true }).promise;
+  const pages: ContractPage[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const text = content.items
+      .map(item => ("str" in item ? `${item.str}${item.hasEOL ? "\n" : ""}` : ""))
+      .join("");
+    pages.push({ pageNumber, text });
+  }
+  await pdf.destroy();
+  return pages;
+}
+
+async function loadArtifactPages(artifact: Artifact): Promise<ContractPage[]> {
+  // Preprocessing output (OCR or cleaned text) is preferred when present
+  if (artifact.preprocessingResultUrl) {
+    return pagesFromText(await (await download(artifact.preprocessingResultUrl)).text());
+  }
+  const mimeType = artifact.originalMimeType ?? "";
+  if (mimeType === "application/pdf" || /\.pdf$/i.test(artifact.originalFilename ?? "")) {
+    const pages = await readPdfPages(new Uint8Array(await (await download(artifact.originalFileUrl)).arrayBuffer()));
+    if (pages.every(p => !p.text.trim())) {
+      throw new ContractExtractionError("The PDF has no text layer; run OCR preprocessing first");
+    }
+    return pages;
+  }
+  if (mimeType.startsWith("text/")) {
+    return pagesFromText(await (await download(artifact.originalFileUrl)).text());
+  }
+  throw new ContractExtractionError(`Cannot read contract text from ${mimeType || "this file type"}; run preprocessing first`);
+}
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+export async function loadContract(contractId: number): Promise<{ contract: ArtifactContract; artifact: Artifact }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [row] = await db.select({ contract: artifactContracts, artifact: artifacts })
+    .from(artifactContracts)
+    .innerJoin(artifacts, eq(artifactContracts.artifactId, artifacts.id))
+    .where(eq(artifactContracts.id, contractId))
+    .limit(1);
+  if (!row) throw new ContractExtractionError("Contract not found");
+  if (!row.artifact.organizationId) throw new ContractExtractionError("Contract artifact has no organization");
+  return row;
+}
+
+export async function queueContractExtraction(
+  contractId: number,
+  options: { amendmentId?: number; userId?: number } = {}
+): Promise<{ jobId: number | null; correlationId: string }> {
+  const { artifact } = await loadContract(contractId);
+  return enqueueJob("contract_extraction", { contractId, amendmentId: options.amendmentId ?? null }, {
+    userId: options.userId,
+    organizationId: artifact.organizationId ?? undefined,
+    correlationId: `contract_extraction_${contractId}${options.amendmentId ? `_amendment_${options.amendmentId}` : ""}`
+  });
+}
+
+/**
+ * Job processor body: extract, diff against live proposals and store the
+ * result as pending proposals
+ */
+export async function runContractExtractionJob(payload: {
+  contractId: number;
+  amendmentId?: number | null;
+  jobId?: number;
+}): Promise<Record<string, unknown>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { contract, artifact } = await loadContract(payload.contractId);
+  const organizationId = artifact.organizationId!;
+
+  let source = artifact;
+  let amendment: typeof contractAmendments.$inferSelect | null = null;
+  if (payload.amendmentId) {
+    [amendment] = await db.select().from(contractAmendments)
+      .where(and(eq(contractAmendments.id, payload.amendmentId), eq(contractAmendments.contractId, contract.id)))
+      .limit(1);
+    if (!amendment) throw new ContractExtractionError("Amendment not found");
+    const [amendmentArtifact] = await db.select().from(artifacts).where(eq(artifacts.id, amendment.amendmentArtifactId)).limit(1);
+    if (!amendmentArtifact) throw new ContractExtractionError("Amendment document not found");
+    source = amendmentArtifact;
+  }
+
+  const clauses = splitClauses(await loadArtifactPages(source));
+  const result = extractProposals(clauses, {
+    artifactId: source.id,
+    parties: contract.parties ?? [],
+    effectiveDate: amendment?.effectiveDate ?? contract.effectiveDate,
+    expiryDate: contract.expiryDate,
+    asOf: new Date(),
+    isAmendment: !!amendment
+  });
+
+  // A re-run replaces what earlier runs over the same document left pending
+  await db.update(contractObligationProposals)
+    .set({ status: "superseded" })
+    .where(and(
+      eq(contractObligationProposals.contractId, contract.id),
+      eq(contractObligationProposals.artifactId, source.id),
+      eq(contractObligationProposals.status, "pending")
+    ));
+
+  const live = await db.select().from(contractObligationProposals)
+    .where(and(
+      eq(contractObligationProposals.contractId, contract.id),
+      inArray(contractObligationProposals.status, ["pending", "accepted"])
+    ))
+    .orderBy(desc(contractObligationProposals.createdAt));
+  const diffs = diffProposals(live.filter(p => p.changeType !== "removed"), result);
+
+  const extractionRunId = randomUUID();
+  const base = {
+    organizationId,
+    contractId: contract.id,
+    artifactId: source.id,
+    amendmentId: amendment?.id ?? null,
+    extractionRunId,
+    jobId: payload.jobId ?? null
+  };
+  const toRow = (draft: ProposalDraft) => ({
+    ...base,
+    category: draft.category,
+    title: draft.title,
+    description: draft.description,
+    party: draft.party,
+    partyRole: draft.partyRole,
+    frequency: draft.frequency,
+    trigger: draft.trigger,
+    recurrenceRule: draft.recurrenceRule,
+    firstDueAt: draft.firstDueAt,
+    covenantMetric: draft.covenantMetric,
+    covenantThreshold: draft.covenantThreshold?.toFixed(4) ?? null,
+    sourceClause: draft.clauseRef,
+    sourcePage: draft.pageNumber,
+    sourceText: draft.sourceText,
+    evidenceRefs: [draft.evidence],
+    confidence: draft.confidence.toFixed(3)
+  });
+
+  const counts = { new: 0, modified: 0, removed: 0 };
+  const summary: ProposalChange[] = [];
+  for (const diff of diffs) {
+    if (diff.changeType === "new") {
+      await db.insert(contractObligationProposals).values(toRow(diff.draft));
+      counts.new++;
+      continue;
+    }
+
+    const previous = live.find(p => p.id === diff.previous.id)!;
+    // Pending proposals never became obligations, so they are simply replaced
+    if (previous.status === "pending") {
+      await db.update(contractObligationProposals).set({ status: "superseded" }).where(eq(contractObligationProposals.id, previous.id));
+    }
+
+    if (diff.changeType === "modified") {
+      await db.insert(contractObligationProposals).values({
+        ...toRow(diff.draft),
+        changeType: "modified",
+        supersedesProposalId: previous.id,
+        changes: diff.changes
+      });
+      counts.modified++;
+      summary.push(...diff.changes.map(c => ({ ...c, field: `Clause ${previous.sourceClause ?? "?"} ${c.field}` })));
+    } else if (previous.status === "accepted") {
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...rest } = previous;
+      await db.insert(contractObligationProposals).values({
+        ...rest,
+        ...base,
+        changeType: "removed",
+        status: "pending",
+        supersedesProposalId: previous.id,
+        changes: null,
+        contractObligationId: null,
+        obligationId: null,
+        reviewedByUserId: null,
+        reviewedAt: null,
+        rejectionReason: null
+      });
+      counts.removed++;
+      summary.push({ field: `Clause ${previous.sourceClause} obligation`, oldValue: previous.title, newValue: "removed" });
+    }
+  }
+
+  if (amendment && summary.length > 0) {
+    await db.update(contractAmendments)
+      .set({ changesSummary: [...(amendment.changesSummary ?? []), ...summary] })
+      .where(eq(contractAmendments.id, amendment.id));
+  }
+
+  return {
+    contractId: contract.id,
+    amendmentId: amendment?.id ?? null,
+    extractionRunId,
+    clauses: clauses.length,
+    proposals: counts.new + counts.modified + counts.removed,
+    ...counts
+  };
+}
+
+// ============================================================================
+// Review
+// ============================================================================
+
+export async function listContractProposals(contractId: number, status?: ContractObligationProposal["status"]) {
+  const db = await getDb();
+  if (!db) return [];
+  const conditions = [eq(contractObligationProposals.contractId, contractId)];
+  if (status) conditions.push(eq(contractObligationProposals.status, status));
+  return db.select().from(contractObligationProposals)
+    .where(and(...conditions))
+    .orderBy(contractObligationProposals.sourcePage, contractObligationProposals.id);
+}
+
+async function loadProposal(proposalId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [proposal] = await db.select().from(contractObligationProposals).where(eq(contractObligationProposals.id, proposalId)).limit(1);
+  if (!proposal) throw new ContractExtractionError("Proposal not found");
+  if (proposal.status !== "pending") throw new ContractExtractionError(`Proposal is already ${proposal.status}`);
+  return { db, proposal };
+}
+
+const OBLIGATION_TYPES: Record<ContractProposalCategory, "REPORT_DEADLINE" | "DOCUMENT_EXPIRY" | "CUSTOM" | "MILESTONE" | "COMPLIANCE_REQUIREMENT"> = {
+  reporting_deadline: "REPORT_DEADLINE",
+  insurance_renewal: "DOCUMENT_EXPIRY",
+  payment_date: "CUSTOM",
+  notice_period: "MILESTONE",
+  covenant_test: "COMPLIANCE_REQUIREMENT"
+};
+
+const CONTRACT_OBLIGATION_TYPES: Record<ContractProposalCategory, InsertContractObligation["obligationType"]> = {
+  reporting_deadline: "reporting",
+  insurance_renewal: "insurance",
+  payment_date: "payment",
+  notice_period: "notification",
+  covenant_test: "compliance"
+};
+
+async function supersedeObligation(
+  organizationId: number,
+  obligationId: number,
+  userId: number,
+  reason: Record<string, unknown>
+) {
+  await updateObligationStatus(obligationId, organizationId, "CANCELLED");
+  await logObligationAction({
+    organizationId,
+    obligationId,
+    action: "CANCELLED",
+    previousValue: null,
+    newValue: { status: "CANCELLED", ...reason },
+    userId,
+    systemGenerated: false
+  });
+}
+
+/**
+ * Accept a proposal: create (or, for an amended clause, update) the contract
+ * obligation and create the obligation, superseding the one it replaces.
+ * Removal proposals cancel the earlier obligation instead.
+ */
+export async function acceptContractProposal(
+  proposalId: number,
+  userId: number,
+  overrides: { title?: string; firstDueAt?: Date | null; recurrenceRule?: string | null; party?: string | null } = {}
+): Promise<{ obligationId: number | null; contractObligationId: number | null }> {
+  const { db, proposal } = await loadProposal(proposalId);
+  const { contract, artifact } = await loadContract(proposal.contractId);
+  const organizationId = proposal.organizationId;
+
+  const [previous] = proposal.supersedesProposalId
+    ? await db.select().from(contractObligationProposals).where(eq(contractObligationProposals.id, proposal.supersedesProposalId)).limit(1)
+    : [];
+  const supersededBy = { amendmentId: proposal.amendmentId, proposalId: proposal.id, clauseRef: proposal.sourceClause };
+
+  if (proposal.changeType === "removed") {
+    if (previous?.obligationId) {
+      await supersedeObligation(organizationId, previous.obligationId, userId, { reason: "Clause removed by amendment", ...supersededBy });
+    }
+    if (previous?.contractObligationId) {
+      // Clearing the metric also takes a removed covenant out of covenant monitoring
+      await db.update(contractObligations)
+        .set({ complianceStatus: "waived", covenantMetric: null })
+        .where(eq(contractObligations.id, previous.contractObligationId));
+    }
+    if (previous) {
+      await db.update(contractObligationProposals).set({ status: "superseded" }).where(eq(contractObligationProposals.id, previous.id));
+    }
+    await db.update(contractObligationProposals)
+      .set({ status: "accepted", reviewedByUserId: userId, reviewedAt: new Date() })
+      .where(eq(contractObligationProposals.id, proposal.id));
+    return { obligationId: null, contractObligationId: previous?.contractObligationId ?? null };
+  }
+
+  const recurrenceRule = overrides.recurrenceRule !== undefined ? overrides.recurrenceRule : proposal.recurrenceRule;
+  if (recurrenceRule) {
+    try {
+      parseRecurrenceRule(recurrenceRule);
+    } catch (error) {
+      if (error instanceof RecurrenceParseError) throw new ContractExtractionError(`Invalid recurrence rule: ${error.message}`);
+      throw error;
+    }
+  }
+  const firstDueAt = overrides.firstDueAt !== undefined ? overrides.firstDueAt : proposal.firstDueAt;
+  if (recurrenceRule && !firstDueAt) throw new ContractExtractionError("A recurring obligation needs a first due date");
+  const title = overrides.title ?? proposal.title;
+  const party = overrides.party !== undefined ? overrides.party : proposal.party;
+
+  const contractObligation: InsertContractObligation = {
+    contractId: contract.id,
+    artifactId: proposal.artifactId,
+    obligationType: CONTRACT_OBLIGATION_TYPES[proposal.category],
+    obligor: party ?? "Unspecified",
+    obligorRole: proposal.partyRole,
+    description: proposal.sourceText ?? title,
+    frequency: proposal.frequency ?? undefined,
+    dueDate: firstDueAt,
+    dueDayOfPeriod: proposal.trigger.dayOfPeriod ?? null,
+    nextDueDate: firstDueAt,
+    complianceStatus: "pending",
+    sourceSection: proposal.sourceClause,
+    sourcePage: proposal.sourcePage,
+    sourceText: proposal.sourceText,
+    covenantMetric: proposal.covenantMetric,
+    covenantThreshold: proposal.covenantThreshold
+  };
+  let contractObligationId: number;
+  if (previous?.contractObligationId) {
+    // The amended clause is the same contract obligation with new terms
+    contractObligationId = previous.contractObligationId;
+    await db.update(contractObligations).set(contractObligation).where(eq(contractObligations.id, contractObligationId));
+  } else {
+    const [inserted] = await db.insert(contractObligations).values(contractObligation);
+    contractObligationId = Number(inserted.insertId);
+  }
+
+  const obligationId = Number(await createObligation({
+    organizationId,
+    createdByUserId: userId,
+    title,
+    description: [proposal.description, proposal.sourceClause ? `Source: clause ${proposal.sourceClause}, page ${proposal.sourcePage}` : null]
+      .filter(Boolean).join("\n\n"),
+    obligationType: OBLIGATION_TYPES[proposal.category],
+    priority: proposal.category === "covenant_test" || proposal.category === "notice_period" ? "HIGH" : "MEDIUM",
+    dueAt: firstDueAt,
+    timezone: "UTC",
+    recurrenceRule,
+    sourceType: "INGESTED_DOC",
+    sourceRef: { docId: proposal.artifactId, clauseRef: proposal.sourceClause ?? undefined, contractObligationId },
+    aiConfidence: proposal.confidence,
+    aiSuggestionAccepted: true,
+    aiSuggestionAcceptedAt: new Date(),
+    aiSuggestionAcceptedBy: userId
+  }));
+  if (artifact.projectId) {
+    await createObligationLink({
+      organizationId,
+      obligationId,
+      entityType: "PROJECT",
+      entityId: artifact.projectId,
+      linkType: "PRIMARY",
+      createdByUserId: userId
+    });
+  }
+  await logObligationAction({
+    organizationId,
+    obligationId,
+    action: "CREATED",
+    previousValue: null,
+    newValue: {
+      source: "contract_extraction",
+      contractId: contract.id,
+      proposalId: proposal.id,
+      clauseRef: proposal.sourceClause,
+      supersedes: previous?.obligationId ?? null
+    },
+    userId,
+    systemGenerated: false
+  });
+
+  if (previous) {
+    if (previous.obligationId) {
+      await supersedeObligation(organizationId, previous.obligationId, userId, { reason: "Superseded by amendment", supersededByObligationId: obligationId, ...supersededBy });
+    }
+    await db.update(contractObligationProposals).set({ status: "superseded" }).where(eq(contractObligationProposals.id, previous.id));
+  }
+
+  await db.update(contractObligationProposals)
+    .set({
+      status: "accepted",
+      title,
+      party,
+      firstDueAt,
+      recurrenceRule,
+      contractObligationId,
+      obligationId,
+      reviewedByUserId: userId,
+      reviewedAt: new Date()
+    })
+    .where(eq(contractObligationProposals.id, proposal.id));
+
+  return { obligationId, contractObligationId };
+}
+
+export async function rejectContractProposal(proposalId: number, userId: number, reason?: string): Promise<void> {
+  const { db, proposal } = await loadProposal(proposalId);
+  await db.update(contractObligationProposals)
+    .set({ status: "rejected", rejectionReason: reason ?? null, reviewedByUserId: userId, reviewedAt: new Date() })
+    .where(eq(contractObligationProposals.id, proposal.id));
+}
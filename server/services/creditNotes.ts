@@ -0,0 +1,657 @@
+/**
+ * Credit Notes
+ *
+ * Credit notes against issued invoices, for a whole invoice or part of a
+ * disputed line, with their own numbering sequence. Issuing a credit note
+ * settles its value in order: against the invoice's open balance, then as a
+ * refund of what was paid (Stripe or manual) or, for amendments, carried to
+ * the corrected replacement invoice. Invoices themselves are never edited;
+ * every balance movement is written to invoiceLedgerEntries.
+ *
+ * Lines are credited net of their share of the invoice discount, so a full
+ * credit comes to the invoice total. Amounts are integers in minor units of
+ * the invoice currency.
+ */
+
+import { and, desc, eq, inArray, isNotNull, isNull, ne, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  CreditNote,
+  Invoice,
+  InvoiceLineItem,
+  creditNoteLines,
+  creditNotes,
+  invoiceLedgerEntries,
+  invoiceLineItems,
+  invoiceLineTaxes,
+  invoices,
+  payments,
+} from "../../drizzle/schema";
+import { getStripe } from "../stripe/webhook";
+import { NUMBER_ATTEMPTS, isDuplicateKey, nextInvoiceNumber, nextSequenceValue } from "./documentNumbers";
+import { allocateDiscount, applyInvoiceTaxes } from "./taxEngine";
+
+export class CreditNoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CreditNoteError";
+  }
+}
+
+export type CreditNoteReason = CreditNote["reason"];
+
+// Invoices that have been issued to the customer and can be credited
+const CREDITABLE_STATUSES: Invoice["status"][] = ["sent", "viewed", "partial", "paid", "overdue"];
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+export interface CreditableLine {
+  amount: number;
+  quantity: number;
+  unitPrice: number;
+  taxAmount: number;
+  withholdingAmount: number;
+  discountAmount: number; // the line's share of the invoice discount
+  creditedAmount: number; // already credited on issued or draft notes, net of discount
+}
+
+export interface CreditLineRequest {
+  amount?: number; // cents off the line; defaults to the full remaining amount
+  quantity?: number; // or units at the line's unit price
+}
+
+export interface CreditLineAmounts {
+  amount: number;
+  quantity: number | null;
+  discountAmount: number;
+  taxAmount: number;
+  withholdingAmount: number;
+}
+
+/**
+ * Amount, tax and withholding to credit on one invoice line. The line is
+ * credited net of its discount share, the value it was taxed on; tax and
+ * withholding are credited in proportion to that.
+ */
+export function creditLineAmounts(line: CreditableLine, request: CreditLineRequest): CreditLineAmounts {
+  const net = line.amount - line.discountAmount;
+  const remaining = net - line.creditedAmount;
+  const unitPrice = line.amount > 0 ? line.unitPrice * net / line.amount : line.unitPrice;
+  const amount = request.amount !== undefined
+    ? request.amount
+    : request.quantity !== undefined
+      ? Math.round(request.quantity * unitPrice)
+      : remaining;
+
+  if (amount <= 0) throw new CreditNoteError("Credit amount must be positive");
+  if (amount > remaining) {
+    throw new CreditNoteError(`Credit of ${amount} exceeds the ${remaining} left to credit on the line`);
+  }
+
+  const share = net > 0 ? amount / net : 0;
+  // Cumulative rounding, so credits that add up to the line reverse exactly its discount
+  const discountTo = (credited: number) => net > 0 ? Math.round(line.discountAmount * credited / net) : 0;
+  return {
+    amount,
+    quantity: request.quantity ?? (unitPrice > 0 ? Math.round((amount / unitPrice) * 100) / 100 : null),
+    discountAmount: discountTo(line.creditedAmount + amount) - discountTo(line.creditedAmount),
+    taxAmount: Math.round(line.taxAmount * share),
+    withholdingAmount: Math.round(line.withholdingAmount * share),
+  };
+}
+
+/**
+ * Amounts for each requested line. A line may be requested once per note, so
+ * the remaining-amount check covers everything the note credits on it.
+ */
+export function creditRequestedLines<L extends CreditableLine & { id: number }>(
+  creditable: L[],
+  requests: Array<CreditLineRequest & { invoiceLineItemId: number }>,
+  invoiceNumber: string
+): Array<CreditLineAmounts & { line: L }> {
+  const seen = new Set<number>();
+  return requests.map(request => {
+    const line = creditable.find(l => l.id === request.invoiceLineItemId);
+    if (!line) throw new CreditNoteError(`Line ${request.invoiceLineItemId} is not on invoice ${invoiceNumber}`);
+    if (seen.has(line.id)) throw new CreditNoteError(`Line ${line.id} is requested more than once; combine it into one credit`);
+    seen.add(line.id);
+    return { line, ...creditLineAmounts(line, request) };
+  });
+}
+
+export interface CreditSettlement {
+  applied: number; // off the open balance
+  unapplied: number; // refundable or carried forward
+}
+
+/** Split a credit between the invoice's open balance and the customer */
+export function settleCredit(netCredit: number, balanceDue: number): CreditSettlement {
+  const applied = Math.min(netCredit, Math.max(0, balanceDue));
+  return { applied, unapplied: netCredit - applied };
+}
+
+export interface InvoiceBalanceState {
+  status: Invoice["status"];
+  totalAmount: number;
+  withholdingAmount: number;
+  paidAmount: number;
+  creditedAmount: number;
+}
+
+/** Signed balance; negative when credits exceed what is still owed */
+export function invoiceLedgerBalance(state: Omit<InvoiceBalanceState, "status">): number {
+  return state.totalAmount - state.withholdingAmount - state.paidAmount - state.creditedAmount;
+}
+
+export function invoiceBalanceDue(state: Omit<InvoiceBalanceState, "status">): number {
+  return Math.max(0, invoiceLedgerBalance(state));
+}
+
+/** Invoice status once credits and refunds have been booked */
+export function statusAfterCredit(state: InvoiceBalanceState, refunded: boolean): Invoice["status"] {
+  const collectable = state.totalAmount - state.withholdingAmount;
+  if (state.creditedAmount >= collectable) return refunded ? "refunded" : "cancelled";
+  if (invoiceBalanceDue(state) === 0) return "paid";
+  return state.paidAmount > 0 ? "partial" : state.status;
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type DbTransaction = Parameters<Parameters<Db["transaction"]>[0]>[0];
+
+/** Append a movement to the invoice ledger; `amount` is the signed change to the balance */
+export async function recordLedgerEntry(
+  db: Db | DbTransaction,
+  invoice: Pick<Invoice, "id" | "organizationId" | "customerId" | "currency">,
+  entry: {
+    entryType: typeof invoiceLedgerEntries.$inferInsert["entryType"];
+    amount: number;
+    balanceAfter: number;
+    creditNoteId?: number | null;
+    paymentId?: number | null;
+    relatedInvoiceId?: number | null;
+    memo?: string | null;
+    createdBy?: number | null;
+  }
+) {
+  await db.insert(invoiceLedgerEntries).values({
+    organizationId: invoice.organizationId,
+    invoiceId: invoice.id,
+    customerId: invoice.customerId,
+    currency: invoice.currency || "USD",
+    ...entry,
+  });
+}
+
+export async function getInvoiceLedger(invoiceId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select()
+    .from(invoiceLedgerEntries)
+    .where(eq(invoiceLedgerEntries.invoiceId, invoiceId))
+    .orderBy(invoiceLedgerEntries.createdAt, invoiceLedgerEntries.id);
+}
+
+// ============================================================================
+// Drafting
+// ============================================================================
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new CreditNoteError("Database not available");
+  return db;
+}
+
+async function loadInvoice(db: Db, invoiceId: number): Promise<Invoice> {
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1);
+  if (!invoice) throw new CreditNoteError(`Invoice ${invoiceId} not found`);
+  return invoice;
+}
+
+/** Invoice lines with their discount share and what is already credited on non-void credit notes */
+async function loadCreditableLines(db: Db, invoice: Invoice): Promise<Array<Omit<InvoiceLineItem, "quantity" | "taxAmount"> & CreditableLine>> {
+  const invoiceId = invoice.id;
+  const lines = await db.select().from(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, invoiceId));
+  if (lines.length === 0) return [];
+  const lineIds = lines.map(l => l.id);
+
+  const credited = await db.select({
+    lineItemId: creditNoteLines.invoiceLineItemId,
+    amount: sql<number>`COALESCE(SUM(${creditNoteLines.amount}), 0)`,
+  })
+    .from(creditNoteLines)
+    .innerJoin(creditNotes, eq(creditNotes.id, creditNoteLines.creditNoteId))
+    .where(and(inArray(creditNoteLines.invoiceLineItemId, lineIds), ne(creditNotes.status, "void")))
+    .groupBy(creditNoteLines.invoiceLineItemId);
+
+  const withholding = await db.select({
+    lineItemId: invoiceLineTaxes.lineItemId,
+    amount: sql<number>`COALESCE(SUM(${invoiceLineTaxes.taxAmount}), 0)`,
+  })
+    .from(invoiceLineTaxes)
+    .where(and(eq(invoiceLineTaxes.invoiceId, invoiceId), eq(invoiceLineTaxes.kind, "withholding")))
+    .groupBy(invoiceLineTaxes.lineItemId);
+
+  const creditedByLine = new Map(credited.map(c => [c.lineItemId, Number(c.amount)]));
+  const withholdingByLine = new Map(withholding.map(w => [w.lineItemId, -Number(w.amount)]));
+  // Split the same way applyInvoiceTaxes did when it taxed the lines
+  const discounts = allocateDiscount(lines.map(l => l.amount), invoice.discountAmount || 0);
+
+  return lines.map((line, i) => ({
+    ...line,
+    quantity: Number(line.quantity ?? 1),
+    taxAmount: line.taxAmount ?? 0,
+    withholdingAmount: withholdingByLine.get(line.id) ?? 0,
+    discountAmount: discounts[i],
+    creditedAmount: creditedByLine.get(line.id) ?? 0,
+  }));
+}
+
+/**
+ * Draft a credit note. With no lines given, every line is credited in full
+ * for whatever has not been credited yet.
+ */
+export async function createCreditNote(
+  invoiceId: number,
+  options: {
+    reason: CreditNoteReason;
+    reasonNote?: string | null;
+    lines?: Array<CreditLineRequest & { invoiceLineItemId: number }>;
+    userId?: number | null;
+  }
+): Promise<{ id: number; totalAmount: number }> {
+  const db = await requireDb();
+  const invoice = await loadInvoice(db, invoiceId);
+  if (!CREDITABLE_STATUSES.includes(invoice.status)) {
+    throw new CreditNoteError(`Invoice ${invoice.invoiceNumber} is ${invoice.status} and cannot be credited`);
+  }
+
+  const creditable = await loadCreditableLines(db, invoice);
+  const requests: Array<CreditLineRequest & { invoiceLineItemId: number }> = options.lines?.length
+    ? options.lines
+    : creditable.filter(l => l.amount - l.discountAmount > l.creditedAmount).map(l => ({ invoiceLineItemId: l.id }));
+  if (requests.length === 0) throw new CreditNoteError(`Invoice ${invoice.invoiceNumber} is already fully credited`);
+
+  const lines = creditRequestedLines(creditable, requests, invoice.invoiceNumber);
+
+  const subtotal = lines.reduce((s, l) => s + l.amount, 0);
+  const taxAmount = lines.reduce((s, l) => s + l.taxAmount, 0);
+  const withholdingAmount = lines.reduce((s, l) => s + l.withholdingAmount, 0);
+
+  const [result] = await db.insert(creditNotes).values({
+    organizationId: invoice.organizationId,
+    invoiceId,
+    customerId: invoice.customerId,
+    reason: options.reason,
+    reasonNote: options.reasonNote ?? null,
+    currency: invoice.currency || "USD",
+    subtotal,
+    taxAmount,
+    withholdingAmount,
+    totalAmount: subtotal + taxAmount,
+    createdBy: options.userId ?? null,
+  });
+  const creditNoteId = Number(result.insertId);
+
+  for (let i = 0; i < lines.length; i++) {
+    const l = lines[i];
+    await db.insert(creditNoteLines).values({
+      creditNoteId,
+      invoiceLineItemId: l.line.id,
+      description: l.line.description,
+      quantity: l.quantity === null ? null : l.quantity.toFixed(2),
+      amount: l.amount,
+      discountAmount: l.discountAmount,
+      taxAmount: l.taxAmount,
+      withholdingAmount: l.withholdingAmount,
+      sortOrder: i,
+    });
+  }
+
+  return { id: creditNoteId, totalAmount: subtotal + taxAmount };
+}
+
+export async function voidCreditNote(creditNoteId: number): Promise<void> {
+  const db = await requireDb();
+  const [note] = await db.select().from(creditNotes).where(eq(creditNotes.id, creditNoteId)).limit(1);
+  if (!note) throw new CreditNoteError(`Credit note ${creditNoteId} not found`);
+  if (note.stripeRefundId) {
+    throw new CreditNoteError(`Credit note ${creditNoteId} has already been refunded (${note.stripeRefundId}); issue it to book the refund`);
+  }
+  const [result] = await db.update(creditNotes)
+    .set({ status: "void" })
+    .where(and(eq(creditNotes.id, creditNoteId), eq(creditNotes.status, "draft"), isNull(creditNotes.stripeRefundId)));
+  if (note.status !== "draft" || result.affectedRows === 0) {
+    throw new CreditNoteError("Only draft credit notes can be voided; issue a new invoice instead");
+  }
+}
+
+// ============================================================================
+// Issuing
+// ============================================================================
+
+async function nextCreditNoteNumber(db: Db, organizationId: number): Promise<string> {
+  const year = new Date().getFullYear();
+  const value = await nextSequenceValue(db, organizationId, "credit_note", async () => {
+    const [countResult] = await db.select({ count: sql<number>`COUNT(*)` })
+      .from(creditNotes)
+      .where(and(eq(creditNotes.organizationId, organizationId), isNotNull(creditNotes.creditNoteNumber)));
+    return Number(countResult?.count || 0);
+  });
+  return `CN-${year}-${String(value).padStart(5, "0")}`;
+}
+
+async function refundViaStripe(db: Db, invoice: Invoice, note: CreditNote, amount: number): Promise<string> {
+  const stripe = getStripe();
+  if (!stripe) throw new CreditNoteError("Stripe is not configured");
+
+  const [payment] = await db.select()
+    .from(payments)
+    .where(and(
+      eq(payments.invoiceId, invoice.id),
+      eq(payments.status, "succeeded"),
+      sql`(${payments.stripePaymentId} IS NOT NULL OR ${payments.stripeChargeId} IS NOT NULL)`
+    ))
+    .orderBy(desc(payments.amount))
+    .limit(1);
+  if (!payment) throw new CreditNoteError(`No Stripe payment on invoice ${invoice.invoiceNumber} to refund`);
+  if (payment.amount < amount) {
+    throw new CreditNoteError(`Refund of ${amount} exceeds the Stripe payment of ${payment.amount}`);
+  }
+
+  const refund = await stripe.refunds.create({
+    ...(payment.stripeChargeId ? { charge: payment.stripeChargeId } : { payment_intent: payment.stripePaymentId! }),
+    amount,
+    metadata: {
+      invoice_id: String(invoice.id),
+      credit_note_id: String(note.id),
+    },
+  }, { idempotencyKey: `credit_note_${note.id}` });
+  return refund.id;
+}
+
+/**
+ * Number and issue a draft credit note, then settle it: first against the
+ * open balance, then as a refund when `refund` is set. Anything left stays
+ * on the note as unapplied customer credit.
+ *
+ * A Stripe refund goes out before the booking. If the booking then fails the
+ * note returns to draft with the refund recorded on it, and issuing it again
+ * books that refund instead of making another.
+ */
+export async function issueCreditNote(
+  creditNoteId: number,
+  options: { refund?: "stripe" | "manual" | null; userId?: number | null } = {}
+): Promise<CreditNote> {
+  const db = await requireDb();
+  const [note] = await db.select().from(creditNotes).where(eq(creditNotes.id, creditNoteId)).limit(1);
+  if (!note) throw new CreditNoteError(`Credit note ${creditNoteId} not found`);
+  if (note.status !== "draft") throw new CreditNoteError(`Credit note ${note.creditNoteNumber ?? creditNoteId} is ${note.status}`);
+
+  // Claim the draft so a concurrent issue of the same note stops here
+  const [claim] = await db.update(creditNotes)
+    .set({ status: "issuing" })
+    .where(and(eq(creditNotes.id, creditNoteId), eq(creditNotes.status, "draft")));
+  if (claim.affectedRows === 0) throw new CreditNoteError(`Credit note ${creditNoteId} is already being issued`);
+  const releaseToDraft = () => db.update(creditNotes).set({ status: "draft" }).where(eq(creditNotes.id, creditNoteId));
+
+  const invoice = await loadInvoice(db, note.invoiceId);
+  const netCredit = note.totalAmount - note.withholdingAmount;
+  const refunded = note.stripeRefundId !== null; // by an earlier attempt whose booking failed
+  const refundMethod = refunded ? "stripe" : options.refund ?? null;
+  const refundAmount = refunded
+    ? note.refundedAmount
+    : refundMethod ? Math.min(settleCredit(netCredit, invoice.balanceDue).unapplied, invoice.paidAmount || 0) : 0;
+
+  let stripeRefundId = note.stripeRefundId;
+  if (!refunded && refundMethod === "stripe" && refundAmount > 0) {
+    try {
+      stripeRefundId = await refundViaStripe(db, invoice, note, refundAmount);
+    } catch (error) {
+      await releaseToDraft();
+      throw error;
+    }
+  }
+
+  try {
+    if (stripeRefundId && !refunded) {
+      await db.update(creditNotes)
+        .set({ stripeRefundId, refundedAmount: refundAmount, refundMethod: "stripe" })
+        .where(eq(creditNotes.id, creditNoteId));
+    }
+    // Kept on the note so a retry reuses the number
+    const creditNoteNumber = note.creditNoteNumber ?? await nextCreditNoteNumber(db, invoice.organizationId);
+    if (!note.creditNoteNumber) {
+      await db.update(creditNotes).set({ creditNoteNumber }).where(eq(creditNotes.id, creditNoteId));
+    }
+
+    const issued = await db.transaction(async (tx) => {
+      // Locked and re-read so payments or credits booked meanwhile are kept
+      const [current] = await tx.select().from(invoices).where(eq(invoices.id, invoice.id)).for("update");
+      const { applied } = settleCredit(netCredit - refundAmount, current.balanceDue);
+      const creditedAmount = (current.creditedAmount || 0) + netCredit;
+      let paidAmount = current.paidAmount || 0;
+      const balanceState = () => ({
+        totalAmount: current.totalAmount,
+        withholdingAmount: current.withholdingAmount || 0,
+        paidAmount,
+        creditedAmount,
+      });
+
+      await recordLedgerEntry(tx, current, {
+        entryType: note.reason === "amendment" ? "amendment" : "credit_note",
+        amount: -netCredit,
+        balanceAfter: invoiceLedgerBalance(balanceState()),
+        creditNoteId,
+        memo: `${creditNoteNumber}: ${note.reason.replace("_", " ")}${note.reasonNote ? ` - ${note.reasonNote}` : ""}`.slice(0, 500),
+        createdBy: options.userId ?? null,
+      });
+
+      let refundPaymentId: number | null = null;
+      if (refundAmount > 0) {
+        const [refundResult] = await tx.insert(payments).values({
+          organizationId: current.organizationId,
+          invoiceId: current.id,
+          customerId: current.customerId,
+          amount: -refundAmount,
+          currency: current.currency,
+          paymentMethod: refundMethod === "stripe" ? "card" : "bank_transfer",
+          referenceNumber: stripeRefundId ?? creditNoteNumber,
+          stripePaymentId: stripeRefundId,
+          status: "refunded",
+          paymentDate: new Date(),
+          processedAt: new Date(),
+          notes: `Refund for credit note ${creditNoteNumber}`,
+          recordedBy: options.userId ?? null,
+        });
+        refundPaymentId = Number(refundResult.insertId);
+        paidAmount -= refundAmount;
+
+        await recordLedgerEntry(tx, current, {
+          entryType: "refund",
+          amount: refundAmount,
+          balanceAfter: invoiceLedgerBalance(balanceState()),
+          creditNoteId,
+          paymentId: refundPaymentId,
+          memo: `Refunded ${refundAmount} ${refundMethod === "stripe" ? `via Stripe (${stripeRefundId})` : "manually"}`,
+          createdBy: options.userId ?? null,
+        });
+      }
+
+      const status = statusAfterCredit({ status: current.status, ...balanceState() }, refundAmount > 0);
+      await tx.update(invoices)
+        .set({ creditedAmount, paidAmount, balanceDue: invoiceBalanceDue(balanceState()), status })
+        .where(eq(invoices.id, current.id));
+
+      const values = {
+        creditNoteNumber,
+        status: "issued" as const,
+        appliedAmount: applied,
+        refundedAmount: refundAmount,
+        refundMethod: refundAmount > 0 ? refundMethod : null,
+        stripeRefundId,
+        refundPaymentId,
+        issueDate: new Date(),
+        issuedBy: options.userId ?? null,
+      };
+      await tx.update(creditNotes).set(values).where(and(eq(creditNotes.id, creditNoteId), eq(creditNotes.status, "issuing")));
+      return values;
+    });
+
+    return { ...note, ...issued };
+  } catch (error) {
+    await releaseToDraft();
+    throw error;
+  }
+}
+
+// ============================================================================
+// Amendments
+// ============================================================================
+
+export interface AmendedLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate?: number;
+  taxCodeIds?: number[];
+  projectId?: number | null;
+  serviceType?: string | null;
+  periodStart?: Date | null;
+  periodEnd?: Date | null;
+}
+
+/**
+ * Re-issue a corrected invoice. The original is credited in full, keeping
+ * its lines untouched, and any amount already paid on it is carried to the
+ * replacement rather than refunded.
+ */
+export async function amendInvoice(
+  invoiceId: number,
+  options: { lineItems: AmendedLine[]; reasonNote?: string | null; dueDate?: Date; userId?: number | null }
+): Promise<{ creditNoteId: number; creditNoteNumber: string; invoiceId: number; invoiceNumber: string }> {
+  if (options.lineItems.length === 0) throw new CreditNoteError("A replacement invoice needs at least one line");
+  const db = await requireDb();
+  const original = await loadInvoice(db, invoiceId);
+
+  const draft = await createCreditNote(invoiceId, {
+    reason: "amendment",
+    reasonNote: options.reasonNote,
+    userId: options.userId,
+  });
+  const note = await issueCreditNote(draft.id, { userId: options.userId });
+  const carry = note.totalAmount - note.withholdingAmount - note.appliedAmount;
+
+  let invoiceNumber = "";
+  let replacementId = 0;
+  for (let attempt = 0; !replacementId; attempt++) {
+    invoiceNumber = await nextInvoiceNumber(db, original.organizationId);
+    try {
+      const [result] = await db.insert(invoices).values({
+        organizationId: original.organizationId,
+        customerId: original.customerId,
+        invoiceNumber,
+        issueDate: new Date(),
+        dueDate: options.dueDate ?? original.dueDate,
+        subtotal: 0,
+        totalAmount: 0,
+        balanceDue: 0,
+        currency: original.currency,
+        notes: `Replaces invoice ${original.invoiceNumber} (credit note ${note.creditNoteNumber})${options.reasonNote ? `: ${options.reasonNote}` : ""}`,
+        termsAndConditions: original.termsAndConditions,
+        amendsInvoiceId: original.id,
+        createdBy: options.userId ?? null,
+      });
+      replacementId = Number(result.insertId);
+    } catch (error) {
+      // Another organization took the number between the check and the insert
+      if (!isDuplicateKey(error) || attempt + 1 >= NUMBER_ATTEMPTS) throw error;
+    }
+  }
+
+  for (let i = 0; i < options.lineItems.length; i++) {
+    const item = options.lineItems[i];
+    const amount = Math.round(item.quantity * item.unitPrice);
+    await db.insert(invoiceLineItems).values({
+      invoiceId: replacementId,
+      description: item.description,
+      quantity: item.quantity.toString(),
+      unitPrice: item.unitPrice,
+      amount,
+      taxRate: (item.taxRate ?? 0).toString(),
+      taxCodeIds: item.taxCodeIds ?? null,
+      projectId: item.projectId ?? null,
+      serviceType: item.serviceType ?? null,
+      periodStart: item.periodStart ?? null,
+      periodEnd: item.periodEnd ?? null,
+      sortOrder: i,
+    });
+  }
+  const totals = await applyInvoiceTaxes(replacementId);
+
+  if (carry > 0) {
+    const replacement = await loadInvoice(db, replacementId);
+    const balanceDue = invoiceBalanceDue({
+      totalAmount: totals.totalAmount,
+      withholdingAmount: totals.withholdingAmount,
+      paidAmount: 0,
+      creditedAmount: carry,
+    });
+    await db.update(invoices).set({ creditedAmount: carry, balanceDue }).where(eq(invoices.id, replacementId));
+    await db.update(creditNotes)
+      .set({ carriedForwardAmount: carry, replacementInvoiceId: replacementId })
+      .where(eq(creditNotes.id, note.id));
+
+    // Moves the paid amount off the original (leaving it at zero) onto the replacement
+    await recordLedgerEntry(db, original, {
+      entryType: "credit_carried_forward",
+      amount: carry,
+      balanceAfter: 0,
+      creditNoteId: note.id,
+      relatedInvoiceId: replacementId,
+      memo: `Carried forward to ${invoiceNumber}`,
+      createdBy: options.userId ?? null,
+    });
+    await recordLedgerEntry(db, replacement, {
+      entryType: "credit_carried_forward",
+      amount: -carry,
+      balanceAfter: invoiceLedgerBalance({
+        totalAmount: totals.totalAmount,
+        withholdingAmount: totals.withholdingAmount,
+        paidAmount: 0,
+        creditedAmount: carry,
+      }),
+      creditNoteId: note.id,
+      relatedInvoiceId: original.id,
+      memo: `Paid on ${original.invoiceNumber}, carried forward by ${note.creditNoteNumber}`,
+      createdBy: options.userId ?? null,
+    });
+  } else {
+    await db.update(creditNotes).set({ replacementInvoiceId: replacementId }).where(eq(creditNotes.id, note.id));
+  }
+
+  return { creditNoteId: note.id, creditNoteNumber: note.creditNoteNumber!, invoiceId: replacementId, invoiceNumber };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/** Credit left on issued notes after application, refunds and carry-forward */
+export function unappliedCredit(note: Pick<CreditNote, "totalAmount" | "withholdingAmount" | "appliedAmount" | "refundedAmount" | "carriedForwardAmount">): number {
+  return note.totalAmount - note.withholdingAmount - note.appliedAmount - note.refundedAmount - note.carriedForwardAmount;
+}
+
+export async function getIssuedCreditNotes(invoiceIds: number[]) {
+  const db = await getDb();
+  if (!db || invoiceIds.length === 0) return [];
+  return db.select()
+    .from(creditNotes)
+    .where(and(inArray(creditNotes.invoiceId, invoiceIds), eq(creditNotes.status, "issued")))
+    .orderBy(creditNotes.issueDate);
+}
@@ -0,0 +1,381 @@
+/**
+ * Cron Expression Engine
+ *
+ * Parses five-field (minute hour day-of-month month day-of-week) and
+ * six-field (leading seconds) cron expressions and calculates run times in
+ * an IANA timezone.
+ *
+ * Supported syntax per field: `*`, `?`, lists (`1,15`), ranges (`1-5`),
+ * steps (`*\/15`, `0-30/10`, `5/20`) and month/day names (`JAN`, `MON`).
+ * Day-of-month also accepts `L` (last day), `LW` (last weekday) and `nW`
+ * (weekday nearest day n - `1W` is "first business day"). Day-of-week
+ * accepts `nL` (last given weekday of the month) and `n#k` (k-th weekday).
+ * Macros: @yearly, @annually, @monthly, @weekly, @daily, @midnight, @hourly.
+ *
+ * DST: local times that fall in a spring-forward gap run at the equivalent
+ * instant after the transition; local times repeated in a fall-back overlap
+ * run once, at the first occurrence.
+ */
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+export interface CronSchedule {
+  expression: string;
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  lastDayOfMonth: boolean;
+  lastWeekdayOfMonth: boolean;
+  nearestWeekdays: number[];
+  lastDaysOfWeek: number[];
+  nthDaysOfWeek: Array<{ dayOfWeek: number; nth: number }>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Search horizon - long enough for Feb 29 and "5th Friday" style schedules
+const MAX_SEARCH_YEARS = 8;
+
+function resolveName(value: string, names: string[] | null, offset: number): string {
+  if (!names) return value;
+  const idx = names.indexOf(value.toUpperCase());
+  return idx >= 0 ? String(idx + offset) : value;
+}
+
+function parseNumber(raw: string, field: string, min: number, max: number): number {
+  if (!/^\d+$/.test(raw)) throw new CronParseError(`Invalid value "${raw}" in ${field} field`);
+  const n = parseInt(raw, 10);
+  if (n < min || n > max) throw new CronParseError(`Value ${n} out of range ${min}-${max} in ${field} field`);
+  return n;
+}
+
+function parseField(expr: string, field: string, min: number, max: number, names: string[] | null = null, nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+  for (const part of expr.split(',')) {
+    if (!part) throw new CronParseError(`Empty list item in ${field} field`);
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length) throw new CronParseError(`Invalid step in ${field} field: "${part}"`);
+    const step = stepPart === undefined ? 1 : parseNumber(stepPart, field, 1, max - min + 1);
+
+    let start: number, end: number;
+    if (rangePart === '*' || rangePart === '?') {
+      start = min; end = max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      start = parseNumber(resolveName(a, names, nameOffset), field, min, max);
+      end = parseNumber(resolveName(b, names, nameOffset), field, min, max);
+      if (start > end) throw new CronParseError(`Invalid range "${rangePart}" in ${field} field`);
+    } else {
+      start = parseNumber(resolveName(rangePart, names, nameOffset), field, min, max);
+      // "5/20" means from 5 to max every 20
+      end = stepPart === undefined ? start : max;
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws CronParseError on invalid input.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== 5 && parts.length !== 6) {
+    throw new CronParseError(`Expected 5 or 6 fields, got ${parts.length}: "${expression}"`);
+  }
+  const [secExpr, minExpr, hourExpr, domExpr, monExpr, dowExpr] = parts.length === 6 ? parts : ['0', ...parts];
+
+  const schedule: CronSchedule = {
+    expression: trimmed,
+    seconds: parseField(secExpr, 'second', 0, 59),
+    minutes: parseField(minExpr, 'minute', 0, 59),
+    hours: parseField(hourExpr, 'hour', 0, 23),
+    daysOfMonth: new Set(),
+    months: parseField(monExpr, 'month', 1, 12, MONTH_NAMES, 1),
+    daysOfWeek: new Set(),
+    lastDayOfMonth: false,
+    lastWeekdayOfMonth: false,
+    nearestWeekdays: [],
+    lastDaysOfWeek: [],
+    nthDaysOfWeek: [],
+    domRestricted: !domExpr.startsWith('*') && domExpr !== '?',
+    dowRestricted: !dowExpr.startsWith('*') && dowExpr !== '?',
+  };
+
+  // Day of month with L / LW / nW
+  const plainDom: string[] = [];
+  for (const part of domExpr.split(',')) {
+    const upper = part.toUpperCase();
+    if (upper === 'L') schedule.lastDayOfMonth = true;
+    else if (upper === 'LW') schedule.lastWeekdayOfMonth = true;
+    else if (/^\d+W$/.test(upper)) schedule.nearestWeekdays.push(parseNumber(upper.slice(0, -1), 'day-of-month', 1, 31));
+    else plainDom.push(part);
+  }
+  if (plainDom.length) schedule.daysOfMonth = parseField(plainDom.join(','), 'day-of-month', 1, 31);
+
+  // Day of week with nL / n#k; 7 is an alias for Sunday
+  const plainDow: string[] = [];
+  for (const part of dowExpr.split(',')) {
+    const upper = part.toUpperCase();
+    const last = upper.match(/^(\w+)L$/);
+    const nth = upper.match(/^(\w+)#(\d)$/);
+    if (last) {
+      schedule.lastDaysOfWeek.push(parseNumber(resolveName(last[1], DAY_NAMES, 0), 'day-of-week', 0, 7) % 7);
+    } else if (nth) {
+      const dayOfWeek = parseNumber(resolveName(nth[1], DAY_NAMES, 0), 'day-of-week', 0, 7) % 7;
+      schedule.nthDaysOfWeek.push({ dayOfWeek, nth: parseNumber(nth[2], 'day-of-week', 1, 5) });
+    } else {
+      plainDow.push(part);
+    }
+  }
+  if (plainDow.length) {
+    for (const d of Array.from(parseField(plainDow.join(','), 'day-of-week', 0, 7, DAY_NAMES, 0))) schedule.daysOfWeek.add(d % 7);
+  }
+
+  return schedule;
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try { parseCronExpression(expression); return true; } catch { return false; }
+}
+
+// ---------------------------------------------------------------------------
+// Timezone helpers (Intl based, no external dependency)
+// ---------------------------------------------------------------------------
+
+export interface LocalTime { year: number; month: number; day: number; hour: number; minute: number; second: number; }
+
+const formatterCache: Map<string, Intl.DateTimeFormat> = new Map();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let fmt = formatterCache.get(timezone);
+  if (!fmt) {
+    try {
+      fmt = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone, hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric',
+        hour: 'numeric', minute: 'numeric', second: 'numeric',
+      });
+    } catch {
+      throw new CronParseError(`Unknown timezone "${timezone}"`);
+    }
+    formatterCache.set(timezone, fmt);
+  }
+  return fmt;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try { getFormatter(timezone); return true; } catch { return false; }
+}
+
+/** Wall-clock fields of an instant in `timezone` (month is 1-12) */
+export function toLocal(date: Date, timezone: string): LocalTime {
+  const parts: Record<string, number> = {};
+  for (const p of getFormatter(timezone).formatToParts(date)) {
+    if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour % 24, minute: parts.minute, second: parts.second };
+}
+
+const localToNaiveMs = (l: LocalTime) => Date.UTC(l.year, l.month - 1, l.day, l.hour, l.minute, l.second);
+
+function offsetAt(ms: number, timezone: string): number {
+  const d = new Date(ms);
+  d.setUTCMilliseconds(0);
+  return localToNaiveMs(toLocal(d, timezone)) - d.getTime();
+}
+
+/**
+ * Convert a wall-clock time in `timezone` to an instant. Ambiguous times
+ * resolve to the earlier instant; non-existent times shift forward by the gap.
+ */
+export function zonedTimeToUtc(local: LocalTime, timezone: string): Date {
+  const naive = localToNaiveMs(local);
+  const before = offsetAt(naive - 86400000, timezone);
+  const after = offsetAt(naive + 86400000, timezone);
+  const candidates = Array.from(new Set([before, after]))
+    .map(o => naive - o)
+    .filter(t => localToNaiveMs(toLocal(new Date(t), timezone)) === naive)
+    .sort((a, b) => a - b);
+  return new Date(candidates.length ? candidates[0] : naive - before);
+}
+
+// ---------------------------------------------------------------------------
+// Next-run calculation
+// ---------------------------------------------------------------------------
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const weekday = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+function nearestWeekday(year: number, month: number, target: number): number {
+  const dim = daysInMonth(year, month);
+  const day = Math.min(target, dim);
+  const dow = weekday(year, month, day);
+  if (dow === 6) return day === 1 ? 3 : day - 1;
+  if (dow === 0) return day === dim ? day - 2 : day + 1;
+  return day;
+}
+
+function dayMatches(s: CronSchedule, year: number, month: number, day: number): boolean {
+  const dim = daysInMonth(year, month);
+  const dow = weekday(year, month, day);
+
+  const domMatch = s.daysOfMonth.has(day)
+    || (s.lastDayOfMonth && day === dim)
+    || (s.lastWeekdayOfMonth && day === nearestWeekday(year, month, dim))
+    || s.nearestWeekdays.some(n => nearestWeekday(year, month, n) === day);
+  const dowMatch = s.daysOfWeek.has(dow)
+    || s.lastDaysOfWeek.some(d => d === dow && day + 7 > dim)
+    || s.nthDaysOfWeek.some(n => n.dayOfWeek === dow && Math.ceil(day / 7) === n.nth);
+
+  // Vixie semantics: when both fields are restricted either may match
+  if (s.domRestricted && s.dowRestricted) return domMatch || dowMatch;
+  if (s.domRestricted) return domMatch;
+  if (s.dowRestricted) return dowMatch;
+  return true;
+}
+
+/**
+ * First run strictly after `after`, evaluated in `timezone`.
+ * Returns null if the expression never fires within the search horizon.
+ */
+export function getNextRun(expression: string | CronSchedule, after: Date, timezone = 'UTC'): Date | null {
+  const s = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const start = toLocal(new Date(Math.floor(after.getTime() / 1000) * 1000 + 1000), timezone);
+  // Walk wall-clock time using a UTC Date as a naive calendar
+  const t = new Date(localToNaiveMs(start));
+  const horizon = start.year + MAX_SEARCH_YEARS;
+
+  while (t.getUTCFullYear() <= horizon) {
+    const year = t.getUTCFullYear(), month = t.getUTCMonth() + 1, day = t.getUTCDate();
+    if (!s.months.has(month)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1); t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(s, year, month, day)) {
+      t.setUTCDate(day + 1); t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!s.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!s.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    if (!s.seconds.has(t.getUTCSeconds())) {
+      t.setUTCSeconds(t.getUTCSeconds() + 1, 0);
+      continue;
+    }
+
+    const instant = zonedTimeToUtc({
+      year, month, day,
+      hour: t.getUTCHours(), minute: t.getUTCMinutes(), second: t.getUTCSeconds(),
+    }, timezone);
+    // Second pass through a fall-back overlap (or a gap-shifted time) maps to an earlier instant
+    if (instant.getTime() > after.getTime()) return instant;
+    t.setUTCSeconds(t.getUTCSeconds() + 1, 0);
+  }
+  return null;
+}
+
+/**
+ * Last run strictly before `before`, evaluated in `timezone`.
+ * Returns null if the expression never fired within the search horizon.
+ */
+export function getPreviousRun(expression: string | CronSchedule, before: Date, timezone = 'UTC'): Date | null {
+  const s = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const start = toLocal(new Date(Math.ceil(before.getTime() / 1000) * 1000 - 1000), timezone);
+  // Walk wall-clock time backwards, each skip landing on the last second of the previous unit
+  const t = new Date(localToNaiveMs(start));
+  const horizon = start.year - MAX_SEARCH_YEARS;
+  const stepBack = () => t.setTime(t.getTime() - 1000);
+
+  while (t.getUTCFullYear() >= horizon) {
+    const year = t.getUTCFullYear(), month = t.getUTCMonth() + 1, day = t.getUTCDate();
+    if (!s.months.has(month)) {
+      t.setUTCDate(1); t.setUTCHours(0, 0, 0, 0); stepBack();
+      continue;
+    }
+    if (!dayMatches(s, year, month, day)) {
+      t.setUTCHours(0, 0, 0, 0); stepBack();
+      continue;
+    }
+    if (!s.hours.has(t.getUTCHours())) {
+      t.setUTCMinutes(0, 0, 0); stepBack();
+      continue;
+    }
+    if (!s.minutes.has(t.getUTCMinutes())) {
+      t.setUTCSeconds(0, 0); stepBack();
+      continue;
+    }
+    if (!s.seconds.has(t.getUTCSeconds())) {
+      stepBack();
+      continue;
+    }
+
+    const instant = zonedTimeToUtc({
+      year, month, day,
+      hour: t.getUTCHours(), minute: t.getUTCMinutes(), second: t.getUTCSeconds(),
+    }, timezone);
+    if (instant.getTime() < before.getTime()) return instant;
+    stepBack();
+  }
+  return null;
+}
+
+/**
+ * The most recent runs in (from, to], at most `limit`, oldest first.
+ */
+export function getLatestRunsBetween(expression: string | CronSchedule, from: Date, to: Date, timezone = 'UTC', limit = 1000): Date[] {
+  const s = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const runs: Date[] = [];
+  let cursor = new Date(to.getTime() + 1);
+  while (runs.length < limit) {
+    const previous = getPreviousRun(s, cursor, timezone);
+    if (!previous || previous <= from) break;
+    runs.push(previous);
+    cursor = previous;
+  }
+  return runs.reverse();
+}
+
+/**
+ * All runs in (from, to], capped at `limit`.
+ */
+export function getRunsBetween(expression: string | CronSchedule, from: Date, to: Date, timezone = 'UTC', limit = 1000): Date[] {
+  const s = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const runs: Date[] = [];
+  let cursor = from;
+  while (runs.length < limit) {
+    const next = getNextRun(s, cursor, timezone);
+    if (!next || next > to) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
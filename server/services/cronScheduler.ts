@@ -4,6 +4,18 @@
  * Manages scheduled background tasks for billing automation:
  * - processRecurringInvoices: Daily at midnight
  * - processPaymentReminders: Daily at 9am
+ * - runTelemetryRollups: Every 5 minutes
+ * - pruneTelemetry: Daily at 2:30am
+ * - runPredictiveMaintenance: Every 15 minutes
+ * - runSiteKpis: Daily at 3:15am
+ * - runProductionVariance: Monthly on the 2nd at 4am
+ * - runPpaBilling: Daily at 5am
+ * - runCovenantMonitoring: Daily at 6am
+ * 
+ * Expressions are evaluated by cronExpression.ts in each job's IANA timezone.
+ * Every occurrence is claimed in scheduledJobRuns before it runs, so multiple
+ * app instances never execute the same slot, and missed slots are replayed
+ * on startup according to the job's catch-up policy.
  * 
  * WHO USES THIS:
  * - System: Automatically executes scheduled tasks
@@ -12,10 +24,40 @@
  */
 
 import { getDb } from '../db';
-import { sql } from 'drizzle-orm';
+import { sql, eq, and, desc } from 'drizzle-orm';
+import { hostname } from 'os';
+import { scheduledJobRuns } from '../../drizzle/schema';
 import { processRecurringInvoices } from './recurringInvoices';
 import { processPaymentReminders } from './paymentReminders';
 import { processExpiryNotifications, NOTIFICATION_INTERVALS } from './expiryNotifications';
+import { runTelemetryRollups, pruneTelemetry } from './telemetryRollups';
+import { predictiveMaintenanceService } from './predictiveMaintenance';
+import { runSiteKpis } from './siteKpis';
+import { runProductionVariance } from './productionVariance';
+import { runPpaBilling } from './ppaBilling';
+import { runCovenantMonitoring } from './portfolioCovenants';
+import { syncAllCalendarBindings } from './calendarSync';
+import { parseCronExpression, getNextRun, getLatestRunsBetween, getPreviousRun, isValidTimezone, CronParseError } from './cronExpression';
+
+/**
+ * What to do with runs missed while no instance was up:
+ * - skip: ignore them, wait for the next slot
+ * - run_once: run a single catch-up for the most recent missed slot
+ * - run_all: run every missed slot in order, up to the most recent MAX_CATCH_UP_RUNS
+ */
+export type CatchUpPolicy = 'skip' | 'run_once' | 'run_all';
+
+// Jobs without a zone keep running on server time, as they did before zones
+// existed; set SCHEDULER_TIMEZONE to evaluate them in a fixed zone instead
+export const DEFAULT_TIMEZONE = process.env.SCHEDULER_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Upper bound on catch-up runs for a single job after a long outage
+const MAX_CATCH_UP_RUNS = 100;
+
+// setTimeout overflows above ~24.8 days; longer waits are re-armed in chunks
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const INSTANCE_ID = `${hostname()}:${process.pid}`;
 
 // Job definitions
 export interface ScheduledJob {
@@ -23,6 +65,8 @@ export interface ScheduledJob {
   name: string;
   description: string;
   cronExpression: string;
+  timezone?: string; // IANA zone the expression is evaluated in (default DEFAULT_TIMEZONE)
+  catchUpPolicy?: CatchUpPolicy; // default 'skip'
   handler: () => Promise<any>;
   isEnabled: boolean;
   lastRunAt?: Date;
@@ -50,109 +94,143 @@ const activeTimers: Map<string, NodeJS.Timeout> = new Map();
  * Register a scheduled job
  */
 export function registerJob(job: Omit<ScheduledJob, 'lastRunAt' | 'lastRunStatus' | 'lastRunResult' | 'nextRunAt'>): void {
-  const nextRunAt = calculateNextRun(job.cronExpression);
+  const timezone = job.timezone || DEFAULT_TIMEZONE;
+  const nextRunAt = calculateNextRun(job.cronExpression, timezone);
   jobs.set(job.id, {
     ...job,
+    timezone,
+    catchUpPolicy: job.catchUpPolicy || 'skip',
     nextRunAt,
   });
-  console.log(`[CronScheduler] Registered job: ${job.name} (${job.cronExpression})`);
+  console.log(`[CronScheduler] Registered job: ${job.name} (${job.cronExpression} ${timezone})`);
 }
 
 /**
- * Calculate next run time from cron expression
- * Simplified parser for common patterns
+ * Calculate next run time from cron expression in the job's timezone.
+ * Throws CronParseError for invalid expressions or timezones.
  */
-function calculateNextRun(cronExpression: string): Date {
-  const now = new Date();
-  const parts = cronExpression.split(' ');
-  
-  // Parse cron: minute hour day month dayOfWeek
-  const [minute, hour] = parts;
-  
-  const next = new Date(now);
-  next.setSeconds(0);
-  next.setMilliseconds(0);
-  
-  if (minute !== '*') {
-    next.setMinutes(parseInt(minute));
+function calculateNextRun(cronExpression: string, timezone: string, after: Date = new Date()): Date | undefined {
+  if (!isValidTimezone(timezone)) {
+    throw new CronParseError(`Unknown timezone "${timezone}"`);
   }
-  if (hour !== '*') {
-    next.setHours(parseInt(hour));
+  return getNextRun(parseCronExpression(cronExpression), after, timezone) ?? undefined;
+}
+
+/**
+ * Claim a run slot. Returns false if another instance already owns it.
+ * Without a database there is only one instance, so every claim succeeds.
+ */
+type RunTrigger = 'schedule' | 'catch_up' | 'manual';
+
+const slotKindOf = (trigger: RunTrigger) => trigger === 'manual' ? 'manual' as const : 'scheduled' as const;
+
+async function claimRun(jobId: string, scheduledFor: Date, trigger: RunTrigger): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return true;
+
+  try {
+    await db.insert(scheduledJobRuns).values({
+      jobId,
+      scheduledFor,
+      instanceId: INSTANCE_ID,
+      trigger,
+      slotKind: slotKindOf(trigger),
+      status: 'running',
+    });
+    return true;
+  } catch (error: any) {
+    if (error?.code === 'ER_DUP_ENTRY' || error?.cause?.code === 'ER_DUP_ENTRY') return false;
+    throw error;
   }
-  
-  // If the calculated time is in the past, move to next day
-  if (next <= now) {
-    next.setDate(next.getDate() + 1);
+}
+
+async function completeRun(jobId: string, scheduledFor: Date, trigger: RunTrigger, status: 'success' | 'error', result: string): Promise<void> {
+  try {
+    const db = await getDb();
+    if (!db) return;
+    await db.update(scheduledJobRuns)
+      .set({ status, result: result.substring(0, 4000), completedAt: new Date() })
+      .where(and(
+        eq(scheduledJobRuns.jobId, jobId),
+        eq(scheduledJobRuns.slotKind, slotKindOf(trigger)),
+        eq(scheduledJobRuns.scheduledFor, scheduledFor)
+      ));
+  } catch (error) {
+    console.error('[CronScheduler] Failed to record run completion:', error);
   }
-  
-  return next;
 }
 
 /**
- * Execute a job
+ * Run a job handler and record the outcome in memory and the database
  */
-async function executeJob(jobId: string): Promise<void> {
-  const job = jobs.get(jobId);
-  if (!job || !job.isEnabled) return;
-
-  console.log(`[CronScheduler] Starting job: ${job.name}`);
+async function runJob(job: ScheduledJob, scheduledFor: Date, trigger: RunTrigger): Promise<{ status: 'success' | 'error'; result: any; error?: unknown }> {
   const startedAt = new Date();
-  
+  let outcome: { status: 'success' | 'error'; result: any; error?: unknown };
+  let resultText: string;
+
   try {
     const result = await job.handler();
-    const completedAt = new Date();
-    
-    // Update job status
-    job.lastRunAt = startedAt;
-    job.lastRunStatus = 'success';
-    job.lastRunResult = JSON.stringify(result);
-    job.nextRunAt = calculateNextRun(job.cronExpression);
-    
-    // Add to history
-    jobHistory.unshift({
-      jobId,
-      startedAt,
-      completedAt,
-      status: 'success',
-      result: JSON.stringify(result),
-    });
-    
-    // Persist to database
-    await saveJobExecution(jobId, startedAt, completedAt, 'success', JSON.stringify(result));
-    
-    console.log(`[CronScheduler] Job completed: ${job.name}`, result);
+    outcome = { status: 'success', result };
+    resultText = JSON.stringify(result) ?? '';
   } catch (error) {
-    const completedAt = new Date();
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    
-    // Update job status
-    job.lastRunAt = startedAt;
-    job.lastRunStatus = 'error';
-    job.lastRunResult = errorMessage;
-    job.nextRunAt = calculateNextRun(job.cronExpression);
-    
-    // Add to history
-    jobHistory.unshift({
-      jobId,
-      startedAt,
-      completedAt,
-      status: 'error',
-      result: errorMessage,
-    });
-    
-    // Persist to database
-    await saveJobExecution(jobId, startedAt, completedAt, 'error', errorMessage);
-    
-    console.error(`[CronScheduler] Job failed: ${job.name}`, error);
+    outcome = { status: 'error', result: undefined, error };
+    resultText = error instanceof Error ? error.message : String(error);
   }
-  
+  const completedAt = new Date();
+
+  // Update job status
+  job.lastRunAt = startedAt;
+  job.lastRunStatus = outcome.status;
+  job.lastRunResult = resultText;
+
+  // Add to history
+  jobHistory.unshift({
+    jobId: job.id,
+    startedAt,
+    completedAt,
+    status: outcome.status,
+    result: resultText,
+  });
+
   // Trim history to last 100 entries
   while (jobHistory.length > 100) {
     jobHistory.pop();
   }
-  
-  // Schedule next run
-  scheduleNextRun(jobId);
+
+  // Persist to database
+  await saveJobExecution(job.id, startedAt, completedAt, outcome.status, resultText);
+  await completeRun(job.id, scheduledFor, trigger, outcome.status, resultText);
+
+  return outcome;
+}
+
+/**
+ * Execute a scheduled occurrence of a job
+ */
+async function executeJob(jobId: string, scheduledFor: Date, trigger: 'schedule' | 'catch_up' = 'schedule'): Promise<void> {
+  const job = jobs.get(jobId);
+  if (!job || !job.isEnabled) return;
+
+  try {
+    if (!(await claimRun(jobId, scheduledFor, trigger))) {
+      console.log(`[CronScheduler] Skipping ${job.name} @ ${scheduledFor.toISOString()}: claimed by another instance`);
+    } else {
+      console.log(`[CronScheduler] Starting job: ${job.name} (${trigger})`);
+      const outcome = await runJob(job, scheduledFor, trigger);
+      if (outcome.status === 'success') {
+        console.log(`[CronScheduler] Job completed: ${job.name}`, outcome.result);
+      } else {
+        console.error(`[CronScheduler] Job failed: ${job.name}`, outcome.error);
+      }
+    }
+  } catch (error) {
+    console.error(`[CronScheduler] Failed to execute job: ${job.name}`, error);
+  }
+
+  if (trigger === 'schedule') {
+    job.nextRunAt = calculateNextRun(job.cronExpression, job.timezone!, scheduledFor);
+    scheduleNextRun(jobId);
+  }
 }
 
 /**
@@ -168,12 +246,67 @@ function scheduleNextRun(jobId: string): void {
     clearTimeout(existingTimer);
   }
 
-  const delay = job.nextRunAt.getTime() - Date.now();
-  if (delay > 0) {
-    const timer = setTimeout(() => executeJob(jobId), delay);
+  const scheduledFor = job.nextRunAt;
+  const delay = Math.max(0, scheduledFor.getTime() - Date.now());
+  if (delay > MAX_TIMER_DELAY) {
+    // Re-arm closer to the slot instead of overflowing the timer
+    const timer = setTimeout(() => scheduleNextRun(jobId), MAX_TIMER_DELAY);
+    activeTimers.set(jobId, timer);
+  } else {
+    const timer = setTimeout(() => executeJob(jobId, scheduledFor), delay);
     activeTimers.set(jobId, timer);
-    console.log(`[CronScheduler] Scheduled ${job.name} for ${job.nextRunAt.toISOString()}`);
   }
+  console.log(`[CronScheduler] Scheduled ${job.name} for ${scheduledFor.toISOString()}`);
+}
+
+/**
+ * Slots to run for a job that last ran at `lastScheduledFor`: the latest
+ * missed slot for run_once, the most recent MAX_CATCH_UP_RUNS for run_all.
+ */
+export function catchUpSlots(
+  job: Pick<ScheduledJob, 'cronExpression' | 'timezone' | 'catchUpPolicy'>,
+  lastScheduledFor: Date,
+  now: Date
+): Date[] {
+  if (!job.catchUpPolicy || job.catchUpPolicy === 'skip') return [];
+  // Slots in the final second are left to the live timer
+  const until = new Date(now.getTime() - 1000);
+  if (job.catchUpPolicy === 'run_once') {
+    const latest = getPreviousRun(job.cronExpression, new Date(until.getTime() + 1), job.timezone);
+    return latest && latest > lastScheduledFor ? [latest] : [];
+  }
+  return getLatestRunsBetween(job.cronExpression, lastScheduledFor, until, job.timezone, MAX_CATCH_UP_RUNS);
+}
+
+/**
+ * Apply each job's catch-up policy to slots missed since its last recorded run.
+ * Jobs with no recorded runs (first deploy) have nothing to catch up.
+ */
+export async function recoverMissedRuns(now: Date = new Date()): Promise<Record<string, number>> {
+  const recovered: Record<string, number> = {};
+  const db = await getDb();
+  if (!db) return recovered;
+
+  for (const job of Array.from(jobs.values())) {
+    if (!job.isEnabled || job.catchUpPolicy === 'skip') continue;
+
+    const [last] = await db.select({ scheduledFor: scheduledJobRuns.scheduledFor })
+      .from(scheduledJobRuns)
+      .where(and(eq(scheduledJobRuns.jobId, job.id), eq(scheduledJobRuns.slotKind, 'scheduled')))
+      .orderBy(desc(scheduledJobRuns.scheduledFor))
+      .limit(1);
+    if (!last) continue;
+
+    const toRun = catchUpSlots(job, last.scheduledFor, now);
+    if (toRun.length === 0) continue;
+
+    console.log(`[CronScheduler] ${job.name}: catching up ${toRun.length} missed run(s), policy ${job.catchUpPolicy}`);
+    for (const slot of toRun) {
+      await executeJob(job.id, slot, 'catch_up');
+    }
+    recovered[job.id] = toRun.length;
+  }
+  return recovered;
 }
 
 /**
@@ -218,6 +351,7 @@ export function initializeScheduler(): void {
     name: 'Process Recurring Invoices',
     description: 'Generate invoices for all active recurring schedules that are due',
     cronExpression: '0 0 * * *', // Every day at midnight
+    catchUpPolicy: 'run_once',
     handler: processRecurringInvoices,
     isEnabled: true,
   });
@@ -228,6 +362,7 @@ export function initializeScheduler(): void {
     name: 'Send Payment Reminders',
     description: 'Send reminder emails for overdue invoices based on configured intervals',
     cronExpression: '0 9 * * *', // Every day at 9am
+    catchUpPolicy: 'run_once',
     handler: processPaymentReminders,
     isEnabled: true,
   });
@@ -238,6 +373,7 @@ export function initializeScheduler(): void {
     name: 'Send Expiry Notifications',
     description: 'Send email notifications for documents expiring at configured intervals (30, 14, 7, 3, 1, 0 days)',
     cronExpression: '0 8 * * *', // Every day at 8am
+    catchUpPolicy: 'run_once',
     handler: async () => {
       // Process for all organizations (in production, iterate through orgs)
       const baseUrl = process.env.VITE_APP_URL || 'http://localhost:3000';
@@ -252,6 +388,94 @@ export function initializeScheduler(): void {
     isEnabled: true,
   });
 
+  // Register telemetry rollups job - every 5 minutes
+  registerJob({
+    id: 'telemetry-rollups',
+    name: 'Materialize Telemetry Rollups',
+    description: 'Aggregate raw measurements and inverter telemetry into 5-minute, hourly and daily rollups',
+    cronExpression: '*/5 * * * *',
+    catchUpPolicy: 'run_once',
+    handler: () => runTelemetryRollups(),
+    isEnabled: true,
+  });
+
+  // Register telemetry retention job - runs daily at 2:30am
+  registerJob({
+    id: 'telemetry-retention',
+    name: 'Prune Telemetry',
+    description: 'Delete raw telemetry and rollups older than each organization\'s retention policy',
+    cronExpression: '30 2 * * *',
+    catchUpPolicy: 'run_once',
+    handler: () => pruneTelemetry(),
+    isEnabled: true,
+  });
+
+  // Register predictive maintenance job - runs every 15 minutes, after fresh rollups
+  registerJob({
+    id: 'predictive-maintenance',
+    name: 'Predictive Maintenance',
+    description: 'Evaluate anomaly detectors against telemetry rollups and open work orders for confirmed predictions',
+    cronExpression: '2-59/15 * * * *',
+    catchUpPolicy: 'run_once',
+    handler: () => predictiveMaintenanceService.run(),
+    isEnabled: true,
+  });
+
+  // Register site KPI job - runs daily at 3:15am, after the daily rollups have closed
+  registerJob({
+    id: 'site-kpis',
+    name: 'Calculate Site KPIs',
+    description: 'Recalculate performance ratio, availability and specific yield for recent days and their months',
+    cronExpression: '15 3 * * *',
+    catchUpPolicy: 'run_once',
+    handler: () => runSiteKpis(),
+    isEnabled: true,
+  });
+
+  // Register production variance job - runs on the 2nd of each month, once last month's rollups are final
+  registerJob({
+    id: 'production-variance',
+    name: 'Production Variance',
+    description: 'Reconcile last month\'s metered production against financial model P50/P90 forecasts and alert on shortfalls',
+    cronExpression: '0 4 2 * *',
+    catchUpPolicy: 'run_once',
+    handler: () => runProductionVariance(),
+    isEnabled: true,
+  });
+
+  // Register PPA billing job - runs daily at 5am; each tariff's closed period is drafted once
+  registerJob({
+    id: 'ppa-billing',
+    name: 'PPA Metered Billing',
+    description: 'Draft invoices from metered energy for the last closed billing period of each active PPA tariff',
+    cronExpression: '0 5 * * *',
+    catchUpPolicy: 'run_once',
+    handler: () => runPpaBilling(),
+    isEnabled: true,
+  });
+
+  // Register covenant monitoring job - runs daily at 6am, after billing has drafted the day's invoices
+  registerJob({
+    id: 'covenant-monitoring',
+    name: 'Covenant Monitoring',
+    description: 'Test loan DSCR covenants against invoiced revenue and recorded opex, and raise projected breaches ahead of each test date',
+    cronExpression: '0 6 * * *',
+    catchUpPolicy: 'run_once',
+    handler: () => runCovenantMonitoring(),
+    isEnabled: true,
+  });
+
+  // Register calendar sync job - runs every 15 minutes, pulling calendar edits and pushing obligation changes
+  registerJob({
+    id: 'calendar-sync',
+    name: 'Calendar Sync',
+    description: 'Two-way sync of obligations with connected Google, Outlook and CalDAV calendars',
+    cronExpression: '*/15 * * * *',
+    catchUpPolicy: 'skip',
+    handler: () => syncAllCalendarBindings(),
+    isEnabled: true,
+  });
+
   // Start all enabled jobs
   for (const [jobId, job] of jobs) {
     if (job.isEnabled) {
@@ -259,6 +483,9 @@ export function initializeScheduler(): void {
     }
   }
 
+  // Catch up on anything missed while the server was down
+  recoverMissedRuns().catch(error => console.error('[CronScheduler] Failed to recover missed runs:', error));
+
   console.log('[CronScheduler] Scheduler initialized with', jobs.size, 'jobs');
 }
 
@@ -313,60 +540,23 @@ export async function getJobHistoryFromDb(params: {
 /**
  * Manually trigger a job
  */
-export async function triggerJob(jobId: string): Promise<any> {
+export async function triggerJob(jobId: string): Promise<unknown> {
   const job = jobs.get(jobId);
   if (!job) {
     throw new Error(`Job not found: ${jobId}`);
   }
 
   console.log(`[CronScheduler] Manually triggering job: ${job.name}`);
-  const startedAt = new Date();
-  
-  try {
-    const result = await job.handler();
-    const completedAt = new Date();
-    
-    // Update job status
-    job.lastRunAt = startedAt;
-    job.lastRunStatus = 'success';
-    job.lastRunResult = JSON.stringify(result);
-    
-    // Add to history
-    jobHistory.unshift({
-      jobId,
-      startedAt,
-      completedAt,
-      status: 'success',
-      result: JSON.stringify(result),
-    });
-    
-    // Persist to database
-    await saveJobExecution(jobId, startedAt, completedAt, 'success', JSON.stringify(result));
-    
-    return result;
-  } catch (error) {
-    const completedAt = new Date();
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    
-    // Update job status
-    job.lastRunAt = startedAt;
-    job.lastRunStatus = 'error';
-    job.lastRunResult = errorMessage;
-    
-    // Add to history
-    jobHistory.unshift({
-      jobId,
-      startedAt,
-      completedAt,
-      status: 'error',
-      result: errorMessage,
-    });
-    
-    // Persist to database
-    await saveJobExecution(jobId, startedAt, completedAt, 'error', errorMessage);
-    
-    throw error;
+  // Manual runs are keyed apart from scheduled slots, to the second so completeRun finds this one again
+  const scheduledFor = new Date(Math.floor(Date.now() / 1000) * 1000);
+  if (!(await claimRun(jobId, scheduledFor, 'manual'))) {
+    throw new Error(`Job ${job.name} already has a manual run for ${scheduledFor.toISOString()}; try again shortly`);
+  }
+  const outcome = await runJob(job, scheduledFor, 'manual');
+  if (outcome.status === 'error') {
+    throw outcome.error;
   }
+  return outcome.result;
 }
 
 /**
@@ -381,7 +571,7 @@ export function setJobEnabled(jobId: string, enabled: boolean): void {
   job.isEnabled = enabled;
   
   if (enabled) {
-    job.nextRunAt = calculateNextRun(job.cronExpression);
+    job.nextRunAt = calculateNextRun(job.cronExpression, job.timezone || DEFAULT_TIMEZONE);
     scheduleNextRun(jobId);
     console.log(`[CronScheduler] Enabled job: ${job.name}`);
   } else {
@@ -395,22 +585,27 @@ export function setJobEnabled(jobId: string, enabled: boolean): void {
 }
 
 /**
- * Update job cron expression
+ * Update job cron expression and, optionally, its timezone
  */
-export function updateJobSchedule(jobId: string, cronExpression: string): void {
+export function updateJobSchedule(jobId: string, cronExpression: string, timezone?: string): void {
   const job = jobs.get(jobId);
   if (!job) {
     throw new Error(`Job not found: ${jobId}`);
   }
 
+  const nextTimezone = timezone || job.timezone || DEFAULT_TIMEZONE;
+  // Validate before mutating so a bad expression leaves the job untouched
+  const nextRunAt = calculateNextRun(cronExpression, nextTimezone);
+
   job.cronExpression = cronExpression;
-  job.nextRunAt = calculateNextRun(cronExpression);
+  job.timezone = nextTimezone;
+  job.nextRunAt = nextRunAt;
   
   if (job.isEnabled) {
     scheduleNextRun(jobId);
   }
   
-  console.log(`[CronScheduler] Updated schedule for ${job.name}: ${cronExpression}`);
+  console.log(`[CronScheduler] Updated schedule for ${job.name}: ${cronExpression} (${nextTimezone})`);
 }
 
 /**
@@ -0,0 +1,280 @@
+/**
+ * Currency Service
+ *
+ * Money formatting per ISO currency, stored FX rates and the snapshots that
+ * fix an invoice's rate on its issue date and a payment's rate on its
+ * payment date. The difference between the two is the realized FX gain/loss
+ * booked on the payment, in the organization's reporting currency.
+ *
+ * Amounts are integers in minor units (cents, kobo) throughout.
+ */
+
+import { and, eq, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import { fxRates, invoices, organizations, payments } from "../../drizzle/schema";
+
+// Currencies we bill in; others still format and convert if rates exist
+export const SUPPORTED_CURRENCIES = ["NGN", "KES", "ZAR", "EUR", "USD"] as const;
+
+// Locale used to format each currency where it is the local currency
+const CURRENCY_LOCALES: Record<string, string> = {
+  NGN: "en-NG",
+  KES: "en-KE",
+  ZAR: "en-ZA",
+  EUR: "en-IE",
+  USD: "en-US",
+  GBP: "en-GB",
+};
+
+// Rates are triangulated through these when no direct pair is stored
+const CROSS_CURRENCIES = ["USD", "EUR"];
+
+/** Decimal places of the currency's minor unit (2 for USD, 0 for JPY) */
+export function minorUnitDigits(currency: string): number {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+/** Format an amount in minor units, e.g. formatMoney(150000, "NGN") -> "₦1,500.00" */
+export function formatMoney(amountMinor: number, currency: string | null | undefined): string {
+  const code = (currency || "USD").toUpperCase();
+  const value = amountMinor / Math.pow(10, minorUnitDigits(code));
+  try {
+    return new Intl.NumberFormat(CURRENCY_LOCALES[code] || "en-US", { style: "currency", currency: code }).format(value);
+  } catch {
+    return `${code} ${value.toFixed(2)}`;
+  }
+}
+
+/** Convert minor units between currencies at `rate` (quote per base) */
+export function convertMinor(amountMinor: number, rate: number, fromCurrency: string, toCurrency: string): number {
+  const scale = Math.pow(10, minorUnitDigits(toCurrency) - minorUnitDigits(fromCurrency));
+  return Math.round(amountMinor * rate * scale);
+}
+
+/**
+ * Realized gain (positive) or loss on a payment: what it is worth at the
+ * payment-date rate minus what the same amount was booked at on issue
+ */
+export function realizedFxGainLoss(
+  amountMinor: number,
+  issueRate: number,
+  paymentRate: number,
+  fromCurrency: string,
+  toCurrency: string
+): number {
+  return convertMinor(amountMinor, paymentRate, fromCurrency, toCurrency)
+    - convertMinor(amountMinor, issueRate, fromCurrency, toCurrency);
+}
+
+// ============================================================================
+// Rate Resolution
+// ============================================================================
+
+export interface FxRatePoint {
+  organizationId: number | null;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  rateDate: Date;
+}
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Latest rate on or before `date` for a pair, from a set of candidate rows.
+ * Org rates beat global rates on the same day; an inverse pair is used when
+ * the direct one is missing, and USD/EUR crosses after that.
+ */
+export function resolveFxRate(rates: FxRatePoint[], from: string, to: string, date: Date): number | null {
+  if (from === to) return 1;
+  const cutoff = dayKey(date);
+
+  const latest = (base: string, quote: string): number | null => {
+    let best: FxRatePoint | null = null;
+    for (const r of rates) {
+      if (r.baseCurrency !== base || r.quoteCurrency !== quote || dayKey(r.rateDate) > cutoff || r.rate <= 0) continue;
+      const newer = !best || dayKey(r.rateDate) > dayKey(best.rateDate);
+      const sameDayOrg = best && dayKey(r.rateDate) === dayKey(best.rateDate) && r.organizationId !== null && best.organizationId === null;
+      if (newer || sameDayOrg) best = r;
+    }
+    return best ? best.rate : null;
+  };
+  const pair = (base: string, quote: string): number | null => {
+    const direct = latest(base, quote);
+    if (direct !== null) return direct;
+    const inverse = latest(quote, base);
+    return inverse !== null ? 1 / inverse : null;
+  };
+
+  const direct = pair(from, to);
+  if (direct !== null) return direct;
+  for (const cross of CROSS_CURRENCIES) {
+    if (cross === from || cross === to) continue;
+    const a = pair(from, cross);
+    const b = pair(cross, to);
+    if (a !== null && b !== null) return a * b;
+  }
+  return null;
+}
+
+/**
+ * The latest org and global rate on or before `date` for every pair among the
+ * currencies and the cross currencies; all resolveFxRate needs, however many
+ * older rates are stored
+ */
+async function loadRatePoints(organizationId: number, currencies: string[], date: Date): Promise<FxRatePoint[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const codes = Array.from(new Set([...currencies, ...CROSS_CURRENCIES]));
+
+  const rows = await db.select()
+    .from(fxRates)
+    .where(and(
+      or(eq(fxRates.organizationId, organizationId), isNull(fxRates.organizationId)),
+      inArray(fxRates.baseCurrency, codes),
+      inArray(fxRates.quoteCurrency, codes),
+      lte(fxRates.rateDate, date),
+      sql`${fxRates.rateDate} = (
+        SELECT MAX(latest.rateDate) FROM fxRates latest
+        WHERE latest.baseCurrency = ${fxRates.baseCurrency}
+          AND latest.quoteCurrency = ${fxRates.quoteCurrency}
+          AND latest.organizationId <=> ${fxRates.organizationId}
+          AND latest.rateDate <= ${date}
+      )`
+    ));
+
+  return rows.map(r => ({
+    organizationId: r.organizationId,
+    baseCurrency: r.baseCurrency,
+    quoteCurrency: r.quoteCurrency,
+    rate: Number(r.rate),
+    rateDate: new Date(r.rateDate),
+  }));
+}
+
+/** Rate to convert `from` into `to` as of `date`, or null when no rate is stored */
+export async function getFxRate(organizationId: number, from: string, to: string, date: Date = new Date()): Promise<number | null> {
+  if (from === to) return 1;
+  return resolveFxRate(await loadRatePoints(organizationId, [from, to], date), from, to, date);
+}
+
+/**
+ * Converter for many amounts at one date, loading rates once. Returns null
+ * for currencies without a rate so callers can report them as unconverted.
+ */
+export async function getFxConverter(organizationId: number, currencies: string[], reportingCurrency: string, date: Date = new Date()) {
+  const points = await loadRatePoints(organizationId, [...currencies, reportingCurrency], date);
+  const cache = new Map<string, number | null>();
+  return (amountMinor: number, currency: string): number | null => {
+    if (!cache.has(currency)) cache.set(currency, resolveFxRate(points, currency, reportingCurrency, date));
+    const rate = cache.get(currency)!;
+    return rate === null ? null : convertMinor(amountMinor, rate, currency, reportingCurrency);
+  };
+}
+
+export async function getReportingCurrency(organizationId: number): Promise<string> {
+  const db = await getDb();
+  if (!db) return "USD";
+  const [org] = await db.select({ reportingCurrency: organizations.reportingCurrency })
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+  return org?.reportingCurrency || "USD";
+}
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+/**
+ * Fix the invoice's reporting-currency rate as of its issue date. Existing
+ * snapshots are kept unless `force` is set. Returns the rate, or null when
+ * no rate is stored for the pair.
+ */
+export async function snapshotInvoiceFx(invoiceId: number, force = false): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1);
+  if (!invoice) return null;
+  if (invoice.fxRateToReporting && !force) return Number(invoice.fxRateToReporting);
+
+  const reportingCurrency = await getReportingCurrency(invoice.organizationId);
+  const rate = await getFxRate(invoice.organizationId, invoice.currency || "USD", reportingCurrency, invoice.issueDate);
+  if (rate === null) {
+    console.warn(`[Currency] No ${invoice.currency}/${reportingCurrency} rate for invoice ${invoiceId}`);
+    return null;
+  }
+
+  await db.update(invoices)
+    .set({ reportingCurrency, fxRateToReporting: rate.toFixed(10), fxRateDate: invoice.issueDate })
+    .where(eq(invoices.id, invoiceId));
+  return rate;
+}
+
+/**
+ * Fix a payment's rate as of its payment date and book the realized gain or
+ * loss against the invoice's issue-date rate
+ */
+export async function snapshotPaymentFx(paymentId: number): Promise<{ rate: number; realizedFxGainLoss: number | null } | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [payment] = await db.select().from(payments).where(eq(payments.id, paymentId)).limit(1);
+  if (!payment) return null;
+
+  const currency = payment.currency || "USD";
+  const reportingCurrency = await getReportingCurrency(payment.organizationId);
+  const rate = await getFxRate(payment.organizationId, currency, reportingCurrency, payment.paymentDate ?? payment.createdAt);
+  if (rate === null) {
+    console.warn(`[Currency] No ${currency}/${reportingCurrency} rate for payment ${paymentId}`);
+    return null;
+  }
+
+  let gainLoss: number | null = null;
+  if (payment.invoiceId) {
+    const issueRate = await snapshotInvoiceFx(payment.invoiceId);
+    if (issueRate !== null) gainLoss = realizedFxGainLoss(payment.amount, issueRate, rate, currency, reportingCurrency);
+  }
+
+  await db.update(payments)
+    .set({ reportingCurrency, fxRateToReporting: rate.toFixed(10), realizedFxGainLoss: gainLoss })
+    .where(eq(payments.id, paymentId));
+  return { rate, realizedFxGainLoss: gainLoss };
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+export interface CurrencyTotals {
+  byCurrency: Record<string, number>;
+  reporting: number;
+  // Currencies left out of `reporting` for lack of a rate
+  unconverted: string[];
+}
+
+/**
+ * Sum amounts per currency and in reporting currency. Rows with a snapshot
+ * rate convert at that rate; the rest go through `convert`.
+ */
+export function totalByCurrency(
+  amounts: Array<{ amount: number; currency: string | null; rate?: number | null }>,
+  reportingCurrency: string,
+  convert: (amountMinor: number, currency: string) => number | null
+): CurrencyTotals {
+  const totals: CurrencyTotals = { byCurrency: {}, reporting: 0, unconverted: [] };
+  for (const { amount, currency, rate } of amounts) {
+    const code = currency || "USD";
+    totals.byCurrency[code] = (totals.byCurrency[code] || 0) + amount;
+
+    const converted = rate ? convertMinor(amount, rate, code, reportingCurrency) : convert(amount, code);
+    if (converted !== null) totals.reporting += converted;
+    else if (!totals.unconverted.includes(code)) totals.unconverted.push(code);
+  }
+  return totals;
+}
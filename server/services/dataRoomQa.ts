@@ -0,0 +1,568 @@
+/**
+ * Data Room Q&A
+ *
+ * External viewers ask questions from inside a data room, about an item or a
+ * category. Each question is tracked internally as an RFI on the room's
+ * project (assignee, status and the internal comment thread all live there),
+ * routed by category to the expert set up for the room.
+ *
+ * Answers go through draft -> approval -> publish. The approver is the route's
+ * approver or a room editor, never the person who drafted the answer. A
+ * published answer is either private to the asker's bidder or shared with all
+ * bidders; shared questions are shown to other bidders without the asker.
+ *
+ * Bidders are isolated by group: a viewer belongs to the bidder whose email
+ * list or domains match their session email, or stands alone otherwise. Only
+ * a verified session email counts; until then the viewer is anonymous, sees
+ * only answers shared with all bidders and cannot ask. The group is resolved
+ * when questions are read, so re-grouping viewers applies to questions
+ * already asked.
+ */
+
+import * as XLSX from "xlsx";
+import { nanoid } from "nanoid";
+import {
+  createAlert,
+  createDataRoomQuestion,
+  createRfi,
+  createRfiComment,
+  getDataRoomBidders,
+  getDataRoomById,
+  getDataRoomItemById,
+  getDataRoomItems,
+  getDataRoomQaRoutes,
+  getDataRoomQuestionById,
+  getDataRoomQuestions,
+  getRfiById,
+  getUserNamesByIds,
+  updateDataRoomQuestion,
+  updateRfi
+} from "../db";
+import type { DataRoom, DataRoomBidder, DataRoomQaRoute, DataRoomQuestion } from "../../drizzle/schema";
+import { authenticateViewerSession, DataRoomAccessError, verifiedViewerEmail } from "./dataRoomViewer";
+import { sendEmail } from "./email";
+
+export const QA_CATEGORIES = ["corporate", "technical", "financial", "legal", "commercial", "operational", "general"] as const;
+export type QaCategory = typeof QA_CATEGORIES[number];
+export type QaVisibility = DataRoomQuestion["visibility"];
+export type QaStatus = DataRoomQuestion["status"];
+export type QaAction = "draft" | "submit" | "approve" | "return" | "decline";
+
+export type DataRoomQaErrorCode = "not_found" | "invalid_state" | "bad_request";
+
+export class DataRoomQaError extends Error {
+  constructor(public readonly code: DataRoomQaErrorCode, message: string) {
+    super(message);
+    this.name = "DataRoomQaError";
+  }
+}
+
+// ============================================================================
+// Routing and bidders
+// ============================================================================
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Isolation key for a viewer: the bidder whose email list (checked first) or
+ * domains match, else the email itself
+ */
+export function bidderKeyFor(email: string, bidders: Pick<DataRoomBidder, "id" | "emails" | "emailDomains">[]): string {
+  const address = normalizeEmail(email);
+  const domain = address.slice(address.lastIndexOf("@") + 1);
+  const byEmail = bidders.find(b => (b.emails ?? []).some(e => normalizeEmail(e) === address));
+  const bidder = byEmail ?? bidders.find(b => (b.emailDomains ?? []).some(d => normalizeEmail(d).replace(/^@/, "") === domain));
+  return bidder ? `bidder:${bidder.id}` : `email:${address}`;
+}
+
+/** The category's route, else the room's default route */
+export function resolveRoute(routes: DataRoomQaRoute[], category: QaCategory): DataRoomQaRoute | null {
+  return routes.find(r => r.category === category) ?? routes.find(r => r.category === null) ?? null;
+}
+
+// ============================================================================
+// Workflow
+// ============================================================================
+
+const TRANSITIONS: Record<QaAction, { from: QaStatus[]; to: QaStatus }> = {
+  draft: { from: ["submitted", "drafting", "pending_approval"], to: "drafting" }, // Editing a pending draft withdraws it
+  submit: { from: ["drafting"], to: "pending_approval" },
+  approve: { from: ["pending_approval"], to: "published" },
+  return: { from: ["pending_approval"], to: "drafting" },
+  decline: { from: ["submitted", "drafting", "pending_approval"], to: "declined" },
+};
+
+export function nextStatus(status: QaStatus, action: QaAction): QaStatus {
+  const transition = TRANSITIONS[action];
+  if (!transition.from.includes(status)) {
+    throw new DataRoomQaError("invalid_state", `Cannot ${action} a question that is ${status.replace("_", " ")}`);
+  }
+  return transition.to;
+}
+
+export interface QaActor {
+  userId: number;
+  isAdmin: boolean;
+  isRoomEditor: boolean;
+}
+
+/**
+ * Experts answer the questions routed to them; approvers (or room editors)
+ * publish them, but not answers they drafted themselves
+ */
+export function qaPermissions(
+  question: Pick<DataRoomQuestion, "approverUserId" | "draftedById">,
+  assigneeId: number | null,
+  actor: QaActor
+): { canAnswer: boolean; canApprove: boolean } {
+  const canAnswer = actor.isAdmin || actor.isRoomEditor || assigneeId === actor.userId;
+  const approver = actor.isAdmin || actor.isRoomEditor || question.approverUserId === actor.userId;
+  const ownDraft = question.draftedById === actor.userId && !actor.isAdmin;
+  return { canAnswer, canApprove: approver && !ownDraft };
+}
+
+// ============================================================================
+// Viewer view
+// ============================================================================
+
+export interface ViewerQuestion {
+  id: number;
+  parentQuestionId: number | null;
+  itemId: number | null;
+  itemName: string | null;
+  category: QaCategory;
+  question: string;
+  askedBy: string | null; // Only for the viewer's own bidder
+  askedAt: Date;
+  own: boolean;
+  status: "open" | "answered" | "declined";
+  answer: string | null;
+  answeredAt: Date | null;
+  sharedWithAllBidders: boolean;
+  declineReason: string | null;
+}
+
+/**
+ * What one viewer sees: their bidder's questions (answers once published) and
+ * other bidders' questions published to all, anonymised. A viewer whose email
+ * is unverified (null) has no bidder.
+ */
+export function viewerQuestions(
+  questions: DataRoomQuestion[],
+  viewerEmail: string | null,
+  bidders: DataRoomBidder[],
+  itemNames: Map<number, string | null>
+): ViewerQuestion[] {
+  const viewerKey = viewerEmail ? bidderKeyFor(viewerEmail, bidders) : null;
+  const visible: ViewerQuestion[] = [];
+  for (const q of questions) {
+    const own = viewerKey !== null && bidderKeyFor(q.askerEmail, bidders) === viewerKey;
+    const published = q.status === "published";
+    if (!own && !(published && q.visibility === "all_bidders")) continue;
+    visible.push({
+      id: q.id,
+      parentQuestionId: own ? q.parentQuestionId : null,
+      itemId: q.itemId,
+      itemName: q.itemId ? itemNames.get(q.itemId) ?? null : null,
+      category: q.category,
+      question: q.question,
+      askedBy: own ? q.askerName : null,
+      askedAt: q.createdAt,
+      own,
+      status: published ? "answered" : q.status === "declined" ? "declined" : "open",
+      answer: published ? q.publishedAnswer : null,
+      answeredAt: published ? q.publishedAt : null,
+      sharedWithAllBidders: published && q.visibility === "all_bidders",
+      declineReason: own && q.status === "declined" ? q.declineReason : null,
+    });
+  }
+  return visible;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export interface QaLogColumn<T> {
+  header: string;
+  value: (row: T) => string | number | Date | null;
+  width?: number;
+}
+
+function formatCell(value: string | number | Date | null): string | number {
+  if (value === null) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 16).replace("T", " ");
+  return value;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function generateQaLogCSV<T>(title: string, columns: QaLogColumn<T>[], rows: T[]): string {
+  const lines: string[] = [];
+  lines.push(csvCell(title));
+  lines.push("");
+  lines.push(columns.map(c => csvCell(c.header)).join(","));
+  for (const row of rows) {
+    lines.push(columns.map(c => csvCell(formatCell(c.value(row)))).join(","));
+  }
+  return lines.join("\n");
+}
+
+export function generateQaLogExcel<T>(title: string, columns: QaLogColumn<T>[], rows: T[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const sheet = XLSX.utils.aoa_to_sheet([
+    [title],
+    [],
+    columns.map(c => c.header),
+    ...rows.map(row => columns.map(c => formatCell(c.value(row)))),
+  ]);
+  sheet["!cols"] = columns.map(c => ({ wch: c.width ?? 16 }));
+  XLSX.utils.book_append_sheet(workbook, sheet, "Q&A Log");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+export interface QaExport {
+  data: string;
+  filename: string;
+  mimeType: string;
+}
+
+function exportFile<T>(basename: string, title: string, columns: QaLogColumn<T>[], rows: T[], format: "xlsx" | "csv"): QaExport {
+  const safeName = basename.replace(/[^\w.-]+/g, "-");
+  if (format === "csv") {
+    return { data: generateQaLogCSV(title, columns, rows), filename: `${safeName}.csv`, mimeType: "text/csv" };
+  }
+  return {
+    data: generateQaLogExcel(title, columns, rows).toString("base64"),
+    filename: `${safeName}.xlsx`,
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  };
+}
+
+const VIEWER_COLUMNS: QaLogColumn<ViewerQuestion>[] = [
+  { header: "#", value: q => q.id, width: 6 },
+  { header: "Asked", value: q => q.askedAt },
+  { header: "Category", value: q => q.category, width: 12 },
+  { header: "Item", value: q => q.itemName, width: 30 },
+  { header: "Asked By", value: q => q.askedBy ?? (q.own ? null : "Another bidder"), width: 20 },
+  { header: "Question", value: q => q.question, width: 60 },
+  { header: "Status", value: q => q.status, width: 10 },
+  { header: "Answer", value: q => q.answer ?? q.declineReason, width: 60 },
+  { header: "Answered", value: q => q.answeredAt },
+  { header: "Shared With All Bidders", value: q => (q.sharedWithAllBidders ? "Yes" : "No"), width: 10 },
+];
+
+export interface RoomQuestion extends DataRoomQuestion {
+  rfiCode: string | null;
+  assigneeId: number | null;
+  bidderKey: string;
+  bidderName: string;
+  itemName: string | null;
+}
+
+function roomColumns(names: Map<number, string>): QaLogColumn<RoomQuestion>[] {
+  const user = (id: number | null) => (id ? names.get(id) ?? `User ${id}` : null);
+  return [
+    { header: "Ref", value: q => q.rfiCode ?? q.id, width: 12 },
+    { header: "Asked", value: q => q.createdAt },
+    { header: "Bidder", value: q => q.bidderName, width: 20 },
+    { header: "Asker", value: q => `${q.askerName} <${q.askerEmail}>`, width: 30 },
+    { header: "Category", value: q => q.category, width: 12 },
+    { header: "Item", value: q => q.itemName, width: 30 },
+    { header: "Follow-up To", value: q => q.parentQuestionId, width: 8 },
+    { header: "Question", value: q => q.question, width: 60 },
+    { header: "Status", value: q => q.status, width: 14 },
+    { header: "Expert", value: q => user(q.assigneeId), width: 20 },
+    { header: "Drafted By", value: q => user(q.draftedById), width: 20 },
+    { header: "Approved By", value: q => user(q.approvedById), width: 20 },
+    { header: "Visibility", value: q => (q.status === "published" ? q.visibility : null), width: 12 },
+    { header: "Answer", value: q => q.publishedAnswer ?? q.answerDraft ?? q.declineReason, width: 60 },
+    { header: "Published", value: q => q.publishedAt },
+  ];
+}
+
+// ============================================================================
+// Viewer procedures
+// ============================================================================
+
+async function itemNameMap(dataRoomId: number): Promise<Map<number, string | null>> {
+  const items = await getDataRoomItems(dataRoomId);
+  return new Map(items.map(item => [item.id, item.itemName]));
+}
+
+async function viewerQuestionList(room: DataRoom, viewerEmail: string | null): Promise<ViewerQuestion[]> {
+  const [questions, bidders, names] = await Promise.all([
+    getDataRoomQuestions(room.id),
+    getDataRoomBidders(room.id),
+    itemNameMap(room.id),
+  ]);
+  return viewerQuestions(questions, viewerEmail, bidders, names);
+}
+
+export async function listViewerQuestions(sessionToken: string): Promise<ViewerQuestion[]> {
+  const { session, room } = await authenticateViewerSession(sessionToken);
+  return viewerQuestionList(room, verifiedViewerEmail(session));
+}
+
+export async function exportViewerQaLog(sessionToken: string, format: "xlsx" | "csv"): Promise<QaExport> {
+  const { session, room } = await authenticateViewerSession(sessionToken);
+  const questions = await viewerQuestionList(room, verifiedViewerEmail(session));
+  return exportFile(`${room.name}-qa`, `Q&A Log - ${room.name}`, VIEWER_COLUMNS, questions, format);
+}
+
+/**
+ * Ask a question about an item or a category, or follow up on a question the
+ * viewer can see. Opens an internal RFI assigned to the routed expert.
+ */
+export async function submitQuestion(sessionToken: string, input: {
+  question: string;
+  itemId?: number;
+  category?: QaCategory;
+  parentQuestionId?: number;
+}): Promise<{ questionId: number }> {
+  const { session, room } = await authenticateViewerSession(sessionToken);
+  if (!room.projectId) {
+    throw new DataRoomAccessError("unsupported", "Questions are not enabled for this data room");
+  }
+  const askerEmail = verifiedViewerEmail(session);
+  if (!askerEmail) {
+    throw new DataRoomAccessError("email_unverified", "Verify your email address before asking questions");
+  }
+
+  let itemId = input.itemId ?? null;
+  let category = input.category ?? null;
+  if (input.parentQuestionId) {
+    const parent = (await viewerQuestionList(room, askerEmail)).find(q => q.id === input.parentQuestionId);
+    if (!parent) throw new DataRoomAccessError("not_found", "Question not found");
+    itemId ??= parent.itemId;
+    category ??= parent.category;
+  }
+  if (itemId) {
+    const item = await getDataRoomItemById(itemId);
+    if (!item || item.dataRoomId !== room.id) throw new DataRoomAccessError("not_found", "Item not found");
+    category ??= item.category ?? "general";
+  }
+  category ??= "general";
+
+  const route = resolveRoute(await getDataRoomQaRoutes(room.id), category);
+  const expertId = route?.expertUserId ?? room.createdById;
+  const text = input.question.trim();
+  const code = `QA-${nanoid(6).toUpperCase()}`;
+
+  const result = await createRfi({
+    projectId: room.projectId,
+    code,
+    title: `${room.name}: ${text.length > 200 ? `${text.slice(0, 197)}...` : text}`,
+    description: `${text}\n\nAsked by ${session.accessorName} <${session.accessorEmail}> in data room "${room.name}"`,
+    category,
+    tags: ["data_room_qa"],
+    itemType: "rfi",
+    assigneeId: expertId,
+    isInternalOnly: true,
+  });
+  const rfiId = Number(result?.[0]?.insertId);
+  if (!rfiId) throw new Error("Database not available");
+
+  const questionId = await createDataRoomQuestion({
+    dataRoomId: room.id,
+    rfiId,
+    itemId,
+    category,
+    parentQuestionId: input.parentQuestionId ?? null,
+    sessionId: session.id,
+    askerName: session.accessorName,
+    askerEmail: normalizeEmail(askerEmail),
+    question: text,
+    approverUserId: route?.approverUserId ?? null,
+  });
+
+  await createAlert({
+    userId: expertId,
+    projectId: room.projectId,
+    type: "rfi",
+    severity: "info",
+    title: `New data room question (${code})`,
+    message: text,
+    linkType: "data_room_question",
+    linkId: questionId,
+  });
+
+  return { questionId };
+}
+
+// ============================================================================
+// Internal procedures
+// ============================================================================
+
+export async function loadQuestion(questionId: number) {
+  const question = await getDataRoomQuestionById(questionId);
+  if (!question) throw new DataRoomQaError("not_found", "Question not found");
+  const [room, rfi] = await Promise.all([getDataRoomById(question.dataRoomId), getRfiById(question.rfiId)]);
+  if (!room) throw new DataRoomQaError("not_found", "Data room not found");
+  return { question, room, rfi };
+}
+
+export async function listRoomQuestions(dataRoomId: number): Promise<RoomQuestion[]> {
+  const [questions, bidders, names] = await Promise.all([
+    getDataRoomQuestions(dataRoomId),
+    getDataRoomBidders(dataRoomId),
+    itemNameMap(dataRoomId),
+  ]);
+  const bidderNames = new Map(bidders.map(b => [`bidder:${b.id}`, b.name]));
+  const rfis = new Map(
+    (await Promise.all(Array.from(new Set(questions.map(q => q.rfiId))).map(id => getRfiById(id))))
+      .filter(rfi => rfi !== undefined)
+      .map(rfi => [rfi.id, rfi])
+  );
+  return questions.map(q => {
+    const bidderKey = bidderKeyFor(q.askerEmail, bidders);
+    const rfi = rfis.get(q.rfiId);
+    return {
+      ...q,
+      rfiCode: rfi?.code ?? null,
+      assigneeId: rfi?.assigneeId ?? null,
+      bidderKey,
+      bidderName: bidderNames.get(bidderKey) ?? q.askerEmail,
+      itemName: q.itemId ? names.get(q.itemId) ?? null : null,
+    };
+  });
+}
+
+export async function exportRoomQaLog(dataRoomId: number, format: "xlsx" | "csv"): Promise<QaExport> {
+  const room = await getDataRoomById(dataRoomId);
+  if (!room) throw new DataRoomQaError("not_found", "Data room not found");
+  const questions = await listRoomQuestions(dataRoomId);
+  const names = await getUserNamesByIds(
+    questions.flatMap(q => [q.assigneeId, q.draftedById, q.approvedById]).filter((id): id is number => !!id)
+  );
+  return exportFile(`${room.name}-qa-log`, `Q&A Log - ${room.name}`, roomColumns(names), questions, format);
+}
+
+/** Send a question to another category's route */
+export async function rerouteQuestion(questionId: number, category: QaCategory): Promise<void> {
+  const { question, room, rfi } = await loadQuestion(questionId);
+  if (question.status === "published" || question.status === "declined") {
+    throw new DataRoomQaError("invalid_state", `Cannot reroute a question that is ${question.status}`);
+  }
+  const route = resolveRoute(await getDataRoomQaRoutes(room.id), category);
+  const expertId = route?.expertUserId ?? room.createdById;
+  await updateDataRoomQuestion(question.id, { category, approverUserId: route?.approverUserId ?? null });
+  await updateRfi(question.rfiId, { category, assigneeId: expertId });
+  if (expertId && expertId !== rfi?.assigneeId) {
+    await createAlert({
+      userId: expertId,
+      projectId: room.projectId,
+      type: "rfi",
+      severity: "info",
+      title: `Data room question routed to you (${rfi?.code ?? question.id})`,
+      message: question.question,
+      linkType: "data_room_question",
+      linkId: question.id,
+    });
+  }
+}
+
+export async function saveAnswerDraft(questionId: number, userId: number, answer: string, visibility?: QaVisibility): Promise<void> {
+  const { question } = await loadQuestion(questionId);
+  const status = nextStatus(question.status, "draft");
+  await updateDataRoomQuestion(question.id, {
+    status,
+    answerDraft: answer.trim(),
+    draftedById: userId,
+    draftedAt: new Date(),
+    ...(visibility ? { visibility } : {}),
+  });
+  if (question.status === "submitted") await updateRfi(question.rfiId, { status: "in_progress" });
+}
+
+export async function submitAnswerForApproval(questionId: number): Promise<void> {
+  const { question, room, rfi } = await loadQuestion(questionId);
+  const status = nextStatus(question.status, "submit");
+  if (!question.answerDraft) throw new DataRoomQaError("bad_request", "Draft an answer before submitting it for approval");
+  await updateDataRoomQuestion(question.id, { status });
+
+  const approverId = question.approverUserId ?? room.createdById;
+  if (approverId) {
+    await createAlert({
+      userId: approverId,
+      projectId: room.projectId,
+      type: "approval",
+      severity: "info",
+      title: `Data room answer awaiting approval (${rfi?.code ?? question.id})`,
+      message: question.question,
+      linkType: "data_room_question",
+      linkId: question.id,
+    });
+  }
+}
+
+/** Send a pending answer back to drafting; the note goes on the RFI thread */
+export async function returnAnswer(questionId: number, userId: number, note: string): Promise<void> {
+  const { question, room, rfi } = await loadQuestion(questionId);
+  const status = nextStatus(question.status, "return");
+  await updateDataRoomQuestion(question.id, { status });
+  await createRfiComment({ rfiId: question.rfiId, userId, content: note.trim(), isInternalOnly: true });
+  if (question.draftedById) {
+    await createAlert({
+      userId: question.draftedById,
+      projectId: room.projectId,
+      type: "rfi",
+      severity: "warning",
+      title: `Data room answer returned (${rfi?.code ?? question.id})`,
+      message: note.trim(),
+      linkType: "data_room_question",
+      linkId: question.id,
+    });
+  }
+}
+
+/** Approve the pending draft and publish it to the asker or to all bidders */
+export async function approveAndPublish(questionId: number, userId: number, visibility?: QaVisibility): Promise<void> {
+  const { question, room } = await loadQuestion(questionId);
+  const status = nextStatus(question.status, "approve");
+  const now = new Date();
+  await updateDataRoomQuestion(question.id, {
+    status,
+    visibility: visibility ?? question.visibility,
+    approvedById: userId,
+    approvedAt: now,
+    publishedAnswer: question.answerDraft,
+    publishedAt: now,
+  });
+  await updateRfi(question.rfiId, { status: "resolved", resolvedAt: now });
+  await notifyAsker(room, question, "answered");
+}
+
+export async function declineQuestion(questionId: number, userId: number, reason: string): Promise<void> {
+  const { question, room } = await loadQuestion(questionId);
+  const status = nextStatus(question.status, "decline");
+  await updateDataRoomQuestion(question.id, { status, declineReason: reason.trim() });
+  await updateRfi(question.rfiId, { status: "closed" });
+  await createRfiComment({ rfiId: question.rfiId, userId, content: `Declined: ${reason.trim()}`, isInternalOnly: true });
+  await notifyAsker(room, question, "declined");
+}
+
+async function notifyAsker(room: DataRoom, question: DataRoomQuestion, outcome: "answered" | "declined") {
+  const excerpt = question.question.length > 200 ? `${question.question.slice(0, 197)}...` : question.question;
+  const subject = `Your question in ${room.name} has been ${outcome}`;
+  const text = `${subject}.\n\n"${excerpt}"\n\nOpen the data room to read the ${outcome === "answered" ? "answer" : "response"}.`;
+  try {
+    await sendEmail({
+      to: question.askerEmail,
+      subject,
+      text,
+      html: `<p>${escapeHtml(subject)}.</p><blockquote>${escapeHtml(excerpt)}</blockquote><p>Open the data room to read the ${outcome === "answered" ? "answer" : "response"}.</p>`,
+    });
+  } catch (error) {
+    console.error(`[DataRoomQa] Failed to notify ${question.askerEmail}:`, error);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
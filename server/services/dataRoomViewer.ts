@@ -0,0 +1,718 @@
+/**
+ * Data Room Viewer
+ *
+ * External access to data rooms through their link. A viewer gives their name
+ * and email, clears the room password and, if the room has one, accepts the
+ * NDA (recorded in dataRoomAccessLog before anything is shown). That opens a
+ * viewer session, limited by the link's expiry and view count.
+ *
+ * Items are served through the session only:
+ * - view-only: pages rasterized to PNG with the viewer's watermark drawn in
+ * - download / print: PDFs stamped per viewer (name, email, time, IP), if the
+ *   item allows it and the room is not view-only
+ * Every page view, download, print and refusal is logged.
+ *
+ * The email a viewer types in is only a claim until they enter the one-time
+ * code sent to it; anything scoped to the viewer's identity (their bidder's
+ * Q&A) waits for that.
+ */
+
+import crypto from "crypto";
+import path from "path";
+import { createRequire } from "module";
+import bcrypt from "bcryptjs";
+import type { Express, Request, Response } from "express";
+import {
+  claimDataRoomEmailCodeAttempt,
+  claimDataRoomEmailCodeSend,
+  countDataRoomViewerSessions,
+  createDataRoomViewerSession,
+  getDataRoomById,
+  getDataRoomByToken,
+  getDataRoomItemById,
+  getDataRoomItems,
+  getDataRoomViewerSessionByHash,
+  getDocumentById,
+  hasAcceptedDataRoomNda,
+  logDataRoomAccess,
+  touchDataRoomViewerSession,
+  updateDataRoomViewerSession
+} from "../db";
+import type { DataRoom, DataRoomItem, DataRoomViewerSession, InsertDataRoomAccessLogEntry } from "../../drizzle/schema";
+import { isUsingLocalStorage, storageGet, storageGetContent } from "../storage";
+import { PdfWatermarkError, textWidth, watermarkPdf } from "./pdfWatermark";
+import { sendEmail } from "./email";
+
+export type DataRoomAccessErrorCode =
+  | "not_found"
+  | "expired"
+  | "view_limit"
+  | "password_required"
+  | "nda_required"
+  | "email_unverified"
+  | "forbidden"
+  | "unsupported";
+
+export class DataRoomAccessError extends Error {
+  constructor(public readonly code: DataRoomAccessErrorCode, message: string) {
+    super(message);
+    this.name = "DataRoomAccessError";
+  }
+}
+
+const SESSION_HOURS = 8;
+const EMAIL_CODE_MINUTES = 15;
+const EMAIL_CODE_ATTEMPTS = 5; // per session, across every code sent to it
+const EMAIL_CODE_SENDS = 5;
+const EMAIL_CODE_RESEND_SECONDS = 60;
+const RENDER_WIDTH_PX = 1400;
+const VIEWER_BASE_PATH = "/api/data-rooms/viewer";
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+/** Identifies the NDA text a viewer accepted; changing the text asks everyone again */
+export function ndaVersion(text: string): string {
+  return crypto.createHash("sha256").update(text.trim()).digest("hex").slice(0, 16);
+}
+
+/** Throws unless the room's link can open another session */
+export function assertRoomOpen(room: DataRoom, sessionsOpened: number, now: Date = new Date()): void {
+  if (room.accessType === "private") throw new DataRoomAccessError("not_found", "Data room not found");
+  if (room.expiresAt && room.expiresAt <= now) throw new DataRoomAccessError("expired", "This data room link has expired");
+  if (room.maxViews !== null && room.maxViews !== undefined && sessionsOpened >= room.maxViews) {
+    throw new DataRoomAccessError("view_limit", "This data room link has reached its view limit");
+  }
+}
+
+export interface ItemPermissions {
+  viewOnly: boolean;
+  canDownload: boolean;
+  canPrint: boolean;
+}
+
+/** A view-only room overrides item permissions */
+export function itemPermissions(room: Pick<DataRoom, "viewOnly">, item: Pick<DataRoomItem, "allowDownload" | "allowPrint">): ItemPermissions {
+  const canDownload = !room.viewOnly && item.allowDownload;
+  const canPrint = !room.viewOnly && item.allowPrint;
+  return { viewOnly: !canDownload, canDownload, canPrint };
+}
+
+export function sessionExpiry(room: Pick<DataRoom, "expiresAt">, now: Date = new Date()): Date {
+  const expiry = new Date(now.getTime() + SESSION_HOURS * 3600 * 1000);
+  return room.expiresAt && room.expiresAt < expiry ? room.expiresAt : expiry;
+}
+
+export interface ViewerWatermark {
+  lines: string[];
+  footer: string;
+}
+
+export function viewerWatermark(
+  viewer: { name: string; email: string },
+  at: Date,
+  ip: string | null | undefined
+): ViewerWatermark {
+  const timestamp = `${at.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+  const lines = [`${viewer.name} <${viewer.email}>`, ip ? `${timestamp} · ${ip}` : timestamp];
+  return {
+    lines,
+    footer: `Confidential · Provided to ${viewer.name} (${viewer.email}) · ${timestamp}${ip ? ` · ${ip}` : ""}`
+  };
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+export interface PublicDataRoomInfo {
+  id: number;
+  name: string;
+  description: string | null;
+  requiresPassword: boolean;
+  ndaRequired: boolean;
+  ndaText: string | null;
+  ndaVersion: string | null;
+  expiresAt: Date | null;
+  available: boolean;
+  unavailableReason: string | null;
+}
+
+/** What the landing page of a room link may show before a session is opened */
+export async function getPublicDataRoomInfo(token: string): Promise<PublicDataRoomInfo | null> {
+  const room = await getDataRoomByToken(token);
+  if (!room || room.accessType === "private") return null;
+
+  let unavailableReason: string | null = null;
+  try {
+    assertRoomOpen(room, room.maxViews !== null ? await countDataRoomViewerSessions(room.id) : 0);
+  } catch (error) {
+    if (!(error instanceof DataRoomAccessError)) throw error;
+    unavailableReason = error.message;
+  }
+
+  return {
+    id: room.id,
+    name: room.name,
+    description: room.description,
+    requiresPassword: !!room.passwordHash,
+    ndaRequired: room.ndaRequired,
+    ndaText: room.ndaRequired ? room.ndaText : null,
+    ndaVersion: room.ndaRequired ? ndaVersion(room.ndaText ?? "") : null,
+    expiresAt: room.expiresAt,
+    available: unavailableReason === null,
+    unavailableReason
+  };
+}
+
+/**
+ * Open a viewer session through the room link. The NDA acceptance is logged
+ * before the session exists; viewers who accepted the current NDA text before
+ * are not asked again.
+ */
+export async function openViewerSession(input: {
+  token: string;
+  name: string;
+  email: string;
+  password?: string;
+  acceptNda?: boolean;
+  ip?: string | null;
+  userAgent?: string | null;
+}): Promise<{ sessionToken: string; expiresAt: Date }> {
+  const room = await getDataRoomByToken(input.token);
+  if (!room) throw new DataRoomAccessError("not_found", "Data room not found");
+  const email = input.email.trim().toLowerCase();
+  const base = {
+    dataRoomId: room.id,
+    accessorEmail: email,
+    accessorName: input.name,
+    accessorIp: input.ip ?? null,
+    userAgent: input.userAgent?.slice(0, 500) ?? null
+  };
+
+  try {
+    assertRoomOpen(room, room.maxViews !== null ? await countDataRoomViewerSessions(room.id) : 0);
+    if (room.passwordHash && !(input.password && await bcrypt.compare(input.password, room.passwordHash))) {
+      throw new DataRoomAccessError("password_required", "Incorrect data room password");
+    }
+  } catch (error) {
+    if (error instanceof DataRoomAccessError && error.code !== "not_found") {
+      await logDataRoomAccess({ ...base, action: "denied", detail: error.code });
+    }
+    throw error;
+  }
+
+  let acceptedNda: string | null = null;
+  if (room.ndaRequired) {
+    acceptedNda = ndaVersion(room.ndaText ?? "");
+    if (!await hasAcceptedDataRoomNda(room.id, email, acceptedNda)) {
+      if (!input.acceptNda) {
+        throw new DataRoomAccessError("nda_required", "The NDA must be accepted before accessing this data room");
+      }
+      await logDataRoomAccess({ ...base, action: "nda_accepted", ndaVersion: acceptedNda });
+    }
+  }
+
+  const sessionToken = crypto.randomBytes(32).toString("hex");
+  const expiresAt = sessionExpiry(room);
+  const sessionId = await createDataRoomViewerSession({
+    dataRoomId: room.id,
+    tokenHash: hashToken(sessionToken),
+    accessorName: input.name,
+    accessorEmail: email,
+    accessorIp: base.accessorIp,
+    userAgent: base.userAgent,
+    ndaVersion: acceptedNda,
+    expiresAt
+  });
+  await logDataRoomAccess({ ...base, action: "open", sessionId, ndaVersion: acceptedNda });
+
+  return { sessionToken, expiresAt };
+}
+
+/**
+ * Resolve a session token. Sessions end with their own expiry, the link's
+ * expiry, or when the room's NDA text changes.
+ */
+export async function authenticateViewerSession(sessionToken: string): Promise<{ session: DataRoomViewerSession; room: DataRoom }> {
+  const session = /^[0-9a-f]{64}$/.test(sessionToken)
+    ? await getDataRoomViewerSessionByHash(hashToken(sessionToken))
+    : undefined;
+  if (!session) throw new DataRoomAccessError("forbidden", "Viewer session not found");
+
+  const now = new Date();
+  const room = await getDataRoomById(session.dataRoomId);
+  if (!room || room.accessType === "private") throw new DataRoomAccessError("not_found", "Data room not found");
+  if (session.expiresAt <= now || (room.expiresAt && room.expiresAt <= now)) {
+    throw new DataRoomAccessError("expired", "Viewer session has expired");
+  }
+  if (room.ndaRequired && session.ndaVersion !== ndaVersion(room.ndaText ?? "")) {
+    throw new DataRoomAccessError("nda_required", "The data room NDA has changed and must be accepted again");
+  }
+
+  await touchDataRoomViewerSession(session.id);
+  return { session, room };
+}
+
+// ============================================================================
+// Email verification
+// ============================================================================
+
+/** The session's email once the viewer has proven they receive mail there, else null */
+export function verifiedViewerEmail(session: Pick<DataRoomViewerSession, "accessorEmail" | "emailVerifiedAt">): string | null {
+  return session.emailVerifiedAt ? session.accessorEmail : null;
+}
+
+/** Codes are hashed with the session id so a code only works for the session it was sent to */
+function emailCodeHash(sessionId: number, code: string): string {
+  return hashToken(`${sessionId}:${code}`);
+}
+
+export type EmailCodeCheck = "ok" | "invalid" | "expired" | "locked";
+
+export function checkEmailCode(
+  session: Pick<DataRoomViewerSession, "id" | "emailCodeHash" | "emailCodeExpiresAt" | "emailCodeAttempts">,
+  code: string,
+  now: Date = new Date()
+): EmailCodeCheck {
+  if (!session.emailCodeHash || !session.emailCodeExpiresAt || session.emailCodeExpiresAt <= now) return "expired";
+  if (session.emailCodeAttempts >= EMAIL_CODE_ATTEMPTS) return "locked";
+  const expected = Buffer.from(session.emailCodeHash, "hex");
+  const actual = Buffer.from(emailCodeHash(session.id, code.trim()), "hex");
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? "ok" : "invalid";
+}
+
+export type EmailCodeRequestCheck = "ok" | "throttled" | "limit" | "locked";
+
+/** Whether another code may be sent: a few per session, not in quick succession, and none once guesses are used up */
+export function checkEmailCodeRequest(
+  session: Pick<DataRoomViewerSession, "emailCodeAttempts" | "emailCodesSent" | "emailCodeSentAt">,
+  now: Date = new Date()
+): EmailCodeRequestCheck {
+  if (session.emailCodeAttempts >= EMAIL_CODE_ATTEMPTS) return "locked";
+  if (session.emailCodesSent >= EMAIL_CODE_SENDS) return "limit";
+  if (session.emailCodeSentAt && now.getTime() - session.emailCodeSentAt.getTime() < EMAIL_CODE_RESEND_SECONDS * 1000) return "throttled";
+  return "ok";
+}
+
+const EMAIL_CODE_REQUEST_MESSAGES: Record<Exclude<EmailCodeRequestCheck, "ok">, string> = {
+  locked: "Too many incorrect codes; open the data room link again",
+  limit: "Too many codes requested; open the data room link again",
+  throttled: `Wait ${EMAIL_CODE_RESEND_SECONDS} seconds before requesting another code`
+};
+
+/**
+ * Email a one-time code to the session's address; a new code replaces the
+ * last one but keeps the count of wrong guesses. The send is claimed with a
+ * conditional update so parallel requests cannot exceed the limits.
+ */
+export async function requestViewerEmailCode(sessionToken: string): Promise<{ sentTo: string; expiresAt: Date | null }> {
+  const { session, room } = await authenticateViewerSession(sessionToken);
+  if (session.emailVerifiedAt) return { sentTo: session.accessorEmail, expiresAt: null }; // Nothing to send
+
+  const now = new Date();
+  let check = checkEmailCodeRequest(session, now);
+  if (check === "ok") {
+    const notAfter = new Date(now.getTime() - EMAIL_CODE_RESEND_SECONDS * 1000);
+    if (!(await claimDataRoomEmailCodeSend(session.id, EMAIL_CODE_SENDS, notAfter))) check = "throttled";
+  }
+  if (check !== "ok") throw new DataRoomAccessError("forbidden", EMAIL_CODE_REQUEST_MESSAGES[check]);
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const expiresAt = new Date(now.getTime() + EMAIL_CODE_MINUTES * 60 * 1000);
+  await updateDataRoomViewerSession(session.id, {
+    emailCodeHash: emailCodeHash(session.id, code),
+    emailCodeExpiresAt: expiresAt
+  });
+  const result = await sendEmail({
+    to: session.accessorEmail,
+    subject: `Your verification code for ${room.name}`,
+    text: `Your verification code for the data room "${room.name}" is ${code}. It expires in ${EMAIL_CODE_MINUTES} minutes.`,
+    html: `<p>Your verification code for the data room "${escapeHtml(room.name)}" is <strong>${code}</strong>.</p><p>It expires in ${EMAIL_CODE_MINUTES} minutes.</p>`
+  });
+  if (!result.success) throw new Error(`Could not send the verification code: ${result.error ?? "unknown error"}`);
+  return { sentTo: session.accessorEmail, expiresAt };
+}
+
+export async function verifyViewerEmail(sessionToken: string, code: string): Promise<{ verified: true }> {
+  const { session } = await authenticateViewerSession(sessionToken);
+  if (session.emailVerifiedAt) return { verified: true };
+
+  let check = checkEmailCode(session, code);
+  // Every guess takes an attempt atomically, so parallel guesses cannot get past the limit
+  if ((check === "ok" || check === "invalid") && !(await claimDataRoomEmailCodeAttempt(session.id, EMAIL_CODE_ATTEMPTS))) {
+    check = "locked";
+  }
+  if (check !== "ok") {
+    await logDataRoomAccess({
+      dataRoomId: session.dataRoomId,
+      sessionId: session.id,
+      accessorEmail: session.accessorEmail,
+      accessorName: session.accessorName,
+      action: "denied",
+      detail: `email_code_${check}`
+    });
+    throw new DataRoomAccessError("forbidden", check === "invalid"
+      ? "Incorrect verification code"
+      : check === "locked"
+        ? EMAIL_CODE_REQUEST_MESSAGES.locked
+        : "The verification code has expired; request a new one");
+  }
+
+  await updateDataRoomViewerSession(session.id, {
+    emailVerifiedAt: new Date(),
+    emailCodeHash: null,
+    emailCodeExpiresAt: null
+  });
+  await logDataRoomAccess({
+    dataRoomId: session.dataRoomId,
+    sessionId: session.id,
+    accessorEmail: session.accessorEmail,
+    accessorName: session.accessorName,
+    action: "email_verified"
+  });
+  return { verified: true };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function viewerUrls(itemId: number, sessionToken: string, permissions: ItemPermissions) {
+  const query = `session=${sessionToken}`;
+  return {
+    pageUrlTemplate: `${VIEWER_BASE_PATH}/items/${itemId}/pages/{page}.png?${query}`,
+    downloadUrl: permissions.canDownload ? `${VIEWER_BASE_PATH}/items/${itemId}/download?${query}` : null,
+    printUrl: permissions.canPrint ? `${VIEWER_BASE_PATH}/items/${itemId}/print?${query}` : null
+  };
+}
+
+export async function listViewerItems(sessionToken: string) {
+  const { session, room } = await authenticateViewerSession(sessionToken);
+  const items = await getDataRoomItems(room.id);
+  return {
+    room: { id: room.id, name: room.name, description: room.description, watermarked: room.watermarkEnabled },
+    emailVerified: !!session.emailVerifiedAt,
+    items: items
+      .filter(item => item.documentId)
+      .map(item => {
+        const permissions = itemPermissions(room, item);
+        return {
+          id: item.id,
+          name: item.itemName,
+          category: item.category,
+          verificationStatus: item.verificationStatus,
+          ...permissions,
+          ...viewerUrls(item.id, sessionToken, permissions)
+        };
+      })
+  };
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+interface ItemFile {
+  bytes: Buffer;
+  mimeType: string;
+  fileName: string;
+}
+
+async function loadViewerItem(room: DataRoom, itemId: number): Promise<{ item: DataRoomItem; file: () => Promise<ItemFile> }> {
+  const item = await getDataRoomItemById(itemId);
+  if (!item || item.dataRoomId !== room.id || !item.documentId) {
+    throw new DataRoomAccessError("not_found", "Item not found");
+  }
+  const documentId = item.documentId;
+
+  return {
+    item,
+    file: async () => {
+      const document = await getDocumentById(documentId);
+      if (!document || (!document.fileKey && !document.fileUrl)) throw new DataRoomAccessError("not_found", "File not found");
+
+      let bytes: Buffer | null = null;
+      if (document.fileKey && isUsingLocalStorage()) {
+        bytes = (await storageGetContent(document.fileKey))?.content ?? null;
+      } else {
+        const url = document.fileKey ? (await storageGet(document.fileKey)).url : document.fileUrl!;
+        const response = await fetch(url, { signal: AbortSignal.timeout(60000) });
+        if (response.ok) bytes = Buffer.from(await response.arrayBuffer());
+      }
+      if (!bytes) throw new DataRoomAccessError("not_found", "File not found");
+
+      const isPdf = document.mimeType === "application/pdf" || bytes.subarray(0, 5).toString("latin1") === "%PDF-";
+      return {
+        bytes,
+        mimeType: isPdf ? "application/pdf" : document.mimeType || "application/octet-stream",
+        fileName: item.itemName || document.name
+      };
+    }
+  };
+}
+
+interface CanvasLike {
+  width: number;
+  height: number;
+  getContext(type: "2d"): CanvasRenderingContext2D;
+  toBuffer(mimeType: "image/png"): Buffer;
+}
+
+interface CanvasModule {
+  createCanvas(width: number, height: number): CanvasLike;
+  loadImage(source: Buffer): Promise<{ width: number; height: number }>;
+}
+
+// pdf.js renders with node-canvas, its optional dependency; load the copy it resolves
+const pdfjsDir = path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json"));
+
+function loadCanvas(): CanvasModule {
+  try {
+    return createRequire(path.join(pdfjsDir, "package.json"))("canvas") as CanvasModule;
+  } catch {
+    throw new DataRoomAccessError("unsupported", "View-only rendering is not available on this server (node-canvas is not installed)");
+  }
+}
+
+async function openPdf(bytes: Buffer) {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.js");
+  return pdfjs.getDocument({
+    data: new Uint8Array(bytes),
+    isEvalSupported: false,
+    disableFontFace: true,
+    standardFontDataUrl: `${path.join(pdfjsDir, "standard_fonts")}/`,
+    cMapUrl: `${path.join(pdfjsDir, "cmaps")}/`,
+    cMapPacked: true,
+    verbosity: 0
+  }).promise;
+}
+
+export async function countPages(file: ItemFile): Promise<number> {
+  if (file.mimeType.startsWith("image/")) return 1;
+  if (file.mimeType !== "application/pdf") {
+    throw new DataRoomAccessError("unsupported", "Only PDFs and images can be viewed in the data room");
+  }
+  const pdf = await openPdf(file.bytes);
+  try {
+    return pdf.numPages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+function stampCanvas(ctx: CanvasRenderingContext2D, width: number, height: number, watermark: ViewerWatermark) {
+  const angle = Math.atan2(height, width);
+  const longest = Math.max(...watermark.lines.map(line => textWidth(line, 1)), 1);
+  const size = Math.max(12, Math.min(width / 12, (Math.hypot(width, height) * 0.7) / longest));
+
+  ctx.save();
+  ctx.globalAlpha = 0.18;
+  ctx.fillStyle = "#808080";
+  ctx.font = `${size}px Helvetica, Arial, sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(-angle);
+  watermark.lines.forEach((line, i) => {
+    ctx.fillText(line, 0, (i - (watermark.lines.length - 1) / 2) * size * 1.3);
+  });
+  ctx.restore();
+
+  const footerSize = Math.max(10, Math.round(width / 110));
+  ctx.save();
+  ctx.globalAlpha = 0.7;
+  ctx.fillStyle = "#595959";
+  ctx.font = `${footerSize}px Helvetica, Arial, sans-serif`;
+  ctx.textBaseline = "bottom";
+  ctx.fillText(watermark.footer, footerSize * 2, height - footerSize, width - footerSize * 4);
+  ctx.restore();
+}
+
+/** Rasterize one page (or the image) to PNG, watermarked unless the room turns that off */
+export async function renderPage(file: ItemFile, pageNumber: number, watermark: ViewerWatermark | null): Promise<Buffer> {
+  const { createCanvas, loadImage } = loadCanvas();
+
+  if (file.mimeType.startsWith("image/")) {
+    if (pageNumber !== 1) throw new DataRoomAccessError("not_found", "Page not found");
+    const image = await loadImage(file.bytes);
+    const scale = Math.min(1, RENDER_WIDTH_PX / image.width);
+    const canvas = createCanvas(Math.round(image.width * scale), Math.round(image.height * scale));
+    const ctx = canvas.getContext("2d");
+    ctx.drawImage(image as unknown as CanvasImageSource, 0, 0, canvas.width, canvas.height);
+    if (watermark) stampCanvas(ctx, canvas.width, canvas.height, watermark);
+    return canvas.toBuffer("image/png");
+  }
+  if (file.mimeType !== "application/pdf") {
+    throw new DataRoomAccessError("unsupported", "Only PDFs and images can be viewed in the data room");
+  }
+
+  const pdf = await openPdf(file.bytes);
+  try {
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pdf.numPages) {
+      throw new DataRoomAccessError("not_found", "Page not found");
+    }
+    const page = await pdf.getPage(pageNumber);
+    const unscaled = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: Math.min(3, RENDER_WIDTH_PX / unscaled.width) });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const ctx = canvas.getContext("2d");
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    if (watermark) stampCanvas(ctx, canvas.width, canvas.height, watermark);
+    return canvas.toBuffer("image/png");
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/** The file for download or printing, stamped for the viewer when the room is watermarked */
+export function prepareCopy(file: ItemFile, watermark: ViewerWatermark | null): Buffer {
+  if (!watermark) return file.bytes;
+  if (file.mimeType !== "application/pdf") {
+    throw new DataRoomAccessError("unsupported", "Only PDFs can be downloaded from a watermarked data room");
+  }
+  try {
+    return watermarkPdf(file.bytes, watermark.lines, { footer: watermark.footer });
+  } catch (error) {
+    if (error instanceof PdfWatermarkError) throw new DataRoomAccessError("unsupported", `This PDF cannot be watermarked: ${error.message}`);
+    throw error;
+  }
+}
+
+export async function getViewerItem(sessionToken: string, itemId: number) {
+  const { room } = await authenticateViewerSession(sessionToken);
+  const { item, file } = await loadViewerItem(room, itemId);
+  const permissions = itemPermissions(room, item);
+  return {
+    id: item.id,
+    name: item.itemName,
+    pageCount: await countPages(await file()),
+    ...permissions,
+    ...viewerUrls(item.id, sessionToken, permissions)
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+const ERROR_STATUS: Record<DataRoomAccessErrorCode, number> = {
+  not_found: 404,
+  expired: 410,
+  view_limit: 410,
+  password_required: 401,
+  nda_required: 403,
+  email_unverified: 403,
+  forbidden: 403,
+  unsupported: 415
+};
+
+function sessionTokenFrom(req: Request): string {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) return header.slice(7);
+  return typeof req.query.session === "string" ? req.query.session : "";
+}
+
+function contentDisposition(type: "inline" | "attachment", fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+function pdfFileName(fileName: string): string {
+  return /\.pdf$/i.test(fileName) ? fileName : `${fileName}.pdf`;
+}
+
+/**
+ * Register the viewer file routes. All responses are per viewer and never cached.
+ */
+export function registerDataRoomRoutes(app: Express) {
+  const serve = (
+    action: "view" | "download" | "print",
+    handler: (args: {
+      req: Request;
+      res: Response;
+      room: DataRoom;
+      file: () => Promise<ItemFile>;
+      permissions: ItemPermissions;
+      watermark: ViewerWatermark | null;
+    }) => Promise<{ pageNumber?: number } | void>
+  ) => async (req: Request, res: Response) => {
+    let log: Omit<InsertDataRoomAccessLogEntry, "action"> | null = null;
+    try {
+      const { session, room } = await authenticateViewerSession(sessionTokenFrom(req));
+      log = {
+        dataRoomId: room.id,
+        sessionId: session.id,
+        accessorEmail: session.accessorEmail,
+        accessorName: session.accessorName,
+        accessorIp: req.ip ?? null,
+        userAgent: req.headers["user-agent"]?.slice(0, 500) ?? null,
+        itemId: Number(req.params.itemId) || null
+      };
+      const { item, file } = await loadViewerItem(room, Number(req.params.itemId));
+      const permissions = itemPermissions(room, item);
+      if ((action === "download" && !permissions.canDownload) || (action === "print" && !permissions.canPrint)) {
+        throw new DataRoomAccessError("forbidden", `This item cannot be ${action === "download" ? "downloaded" : "printed"}`);
+      }
+
+      res.setHeader("Cache-Control", "private, no-store");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      const watermark = room.watermarkEnabled
+        ? viewerWatermark({ name: session.accessorName, email: session.accessorEmail }, new Date(), req.ip)
+        : null;
+      const result = await handler({ req, res, room, file, permissions, watermark });
+      await logDataRoomAccess({
+        ...log,
+        action,
+        pageNumber: result?.pageNumber ?? null,
+        documentsViewed: item.documentId ? [item.documentId] : null,
+        downloadCount: action === "download" ? 1 : 0
+      });
+    } catch (error) {
+      if (log) {
+        await logDataRoomAccess({ ...log, action: "denied", detail: `${action}: ${error instanceof Error ? error.message : "error"}`.slice(0, 255) })
+          .catch(() => undefined);
+      }
+      if (error instanceof DataRoomAccessError) {
+        res.status(ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+        return;
+      }
+      console.error(`[DataRoom] ${action} failed:`, error);
+      res.status(500).json({ error: "Failed to serve data room item" });
+    }
+  };
+
+  app.get(`${VIEWER_BASE_PATH}/items/:itemId/pages/:page.png`, serve("view", async ({ req, res, file, watermark }) => {
+    const pageNumber = Number(req.params.page);
+    const png = await renderPage(await file(), pageNumber, watermark);
+    res.setHeader("Content-Type", "image/png");
+    res.send(png);
+    return { pageNumber };
+  }));
+
+  app.get(`${VIEWER_BASE_PATH}/items/:itemId/download`, serve("download", async ({ res, file, watermark }) => {
+    const original = await file();
+    const copy = prepareCopy(original, watermark);
+    res.setHeader("Content-Type", original.mimeType);
+    res.setHeader("Content-Disposition", contentDisposition("attachment",
+      original.mimeType === "application/pdf" ? pdfFileName(original.fileName) : original.fileName));
+    res.send(copy);
+  }));
+
+  app.get(`${VIEWER_BASE_PATH}/items/:itemId/print`, serve("print", async ({ res, file, watermark }) => {
+    const original = await file();
+    if (original.mimeType !== "application/pdf") {
+      throw new DataRoomAccessError("unsupported", "Only PDFs can be printed from the data room");
+    }
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", contentDisposition("inline", pdfFileName(original.fileName)));
+    res.send(prepareCopy(original, watermark));
+  }));
+}
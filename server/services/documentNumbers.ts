@@ -0,0 +1,78 @@
+/**
+ * Document Numbers
+ *
+ * Per-organization counters for numbered documents (invoices, credit notes),
+ * kept in documentNumberSequences. Every caller that numbers an invoice goes
+ * through nextInvoiceNumber so metered billing, amendments and manual
+ * invoices draw from one sequence.
+ */
+
+import { and, eq, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import { documentNumberSequences, invoices } from "../../drizzle/schema";
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+export class DocumentNumberError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentNumberError";
+  }
+}
+
+// Attempts before giving up on a contended counter or a taken number
+export const NUMBER_ATTEMPTS = 20;
+
+export function isDuplicateKey(error: any): boolean {
+  return error?.code === "ER_DUP_ENTRY" || error?.cause?.code === "ER_DUP_ENTRY";
+}
+
+/**
+ * Take the next value of an organization's document counter. The counter row
+ * is created on first use from `seed` (the last number already handed out)
+ * and advanced by compare-and-set, so concurrent callers never share a value.
+ * Call it outside a transaction: the compare-and-set needs to see the latest
+ * committed value on each attempt.
+ */
+export async function nextSequenceValue(db: Db, organizationId: number, name: string, seed: () => Promise<number>): Promise<number> {
+  for (let attempt = 0; attempt < NUMBER_ATTEMPTS; attempt++) {
+    const [row] = await db.select()
+      .from(documentNumberSequences)
+      .where(and(eq(documentNumberSequences.organizationId, organizationId), eq(documentNumberSequences.name, name)))
+      .limit(1);
+
+    if (!row) {
+      const value = (await seed()) + 1;
+      try {
+        await db.insert(documentNumberSequences).values({ organizationId, name, lastValue: value });
+        return value;
+      } catch (error) {
+        if (isDuplicateKey(error)) continue; // another caller created it first
+        throw error;
+      }
+    }
+
+    const [result] = await db.update(documentNumberSequences)
+      .set({ lastValue: row.lastValue + 1 })
+      .where(and(eq(documentNumberSequences.id, row.id), eq(documentNumberSequences.lastValue, row.lastValue)));
+    if (result.affectedRows === 1) return row.lastValue + 1;
+  }
+  throw new DocumentNumberError(`Could not allocate the next ${name.replace("_", " ")} number; try again`);
+}
+
+/** Next free invoice number for an organization; invoice numbers are unique across organizations */
+export async function nextInvoiceNumber(db: Db, organizationId: number): Promise<string> {
+  const year = new Date().getFullYear();
+  for (let attempt = 0; attempt < NUMBER_ATTEMPTS; attempt++) {
+    const value = await nextSequenceValue(db, organizationId, "invoice", async () => {
+      const [countResult] = await db.select({ count: sql<number>`COUNT(*)` })
+        .from(invoices)
+        .where(eq(invoices.organizationId, organizationId));
+      return Number(countResult?.count || 0);
+    });
+    const invoiceNumber = `INV-${year}-${String(value).padStart(5, "0")}`;
+    const [taken] = await db.select({ id: invoices.id }).from(invoices).where(eq(invoices.invoiceNumber, invoiceNumber)).limit(1);
+    if (!taken) return invoiceNumber;
+  }
+  throw new DocumentNumberError("Could not allocate a free invoice number; try again");
+}
@@ -1,4 +1,5 @@
 import * as XLSX from 'xlsx';
+import type { FinancialModelMappingTemplate, ModelAssumptionInputs, ModelCellMapping } from '../../drizzle/schema';
 
 // Types for extracted financial data
 export interface ExtractedFinancialMetrics {
@@ -35,15 +36,39 @@ export interface ExtractedCashFlow {
   dscr?: number;
 }
 
+// The cell an extracted value was read from
+export interface CellProvenance {
+  field: string; // metric key, "assumptions.<key>" or "cashFlow.<line>"
+  year?: number; // cash flow column
+  label?: string;
+  sheet: string;
+  cell: string; // A1 address
+  formula?: string;
+  displayValue?: string; // formatted text as shown in Excel
+  value: number | string | null;
+  method: 'pattern' | 'template';
+}
+
 export interface ExtractionResult {
   success: boolean;
   metrics: ExtractedFinancialMetrics;
   cashFlows: ExtractedCashFlow[];
+  assumptions: ModelAssumptionInputs;
+  provenance: CellProvenance[];
   rawData: Record<string, unknown>;
   errors: string[];
   warnings: string[];
 }
 
+export type MappingTemplate = Pick<FinancialModelMappingTemplate, 'sheetRoles' | 'mappings'>;
+
+export interface ExtractionOptions {
+  template?: MappingTemplate | null;
+}
+
+type ValueKind = 'percent' | 'number' | 'years' | 'date';
+type AssumptionKey = Exclude<keyof ModelAssumptionInputs, 'tariffUnit'>;
+
 // Common cell patterns for financial metrics
 const METRIC_PATTERNS = {
   npv: [
@@ -134,6 +159,58 @@ const METRIC_PATTERNS = {
   ],
 };
 
+// Assumption labels, most specific first: "Tariff escalation" must not be read as the tariff
+const ASSUMPTION_PATTERNS: Array<{ key: AssumptionKey; kind: ValueKind; pattern: RegExp }> = [
+  { key: 'tariffEscalation', kind: 'percent', pattern: /(tariff|ppa|price)\s*(escalation|indexation)/i },
+  { key: 'opexEscalation', kind: 'percent', pattern: /(opex|o&m|cost)\s*(escalation|indexation)/i },
+  { key: 'degradation', kind: 'percent', pattern: /degradation/i },
+  { key: 'inflation', kind: 'percent', pattern: /inflation|\bcpi\b/i },
+  { key: 'interestRate', kind: 'percent', pattern: /interest\s*rate|all[\s-]*in\s*rate|coupon/i },
+  { key: 'debtTenorYears', kind: 'years', pattern: /tenor|loan\s*term|debt\s*term|repayment\s*period/i },
+  { key: 'targetDscr', kind: 'number', pattern: /target\s*dscr|sculpting\s*dscr/i },
+  { key: 'gearing', kind: 'percent', pattern: /gearing|debt\s*(to|\/)\s*(capex|total)/i },
+  { key: 'debtAmount', kind: 'number', pattern: /debt\s*amount|loan\s*amount|senior\s*debt|debt\s*quantum/i },
+  { key: 'taxRate', kind: 'percent', pattern: /tax\s*rate/i },
+  { key: 'discountRate', kind: 'percent', pattern: /discount\s*rate|wacc|hurdle\s*rate/i },
+  { key: 'p90Production', kind: 'number', pattern: /\bp90\b/i },
+  { key: 'p50Production', kind: 'number', pattern: /\bp50\b/i },
+  { key: 'capacityMw', kind: 'number', pattern: /installed\s*capacity|nameplate|capacity\s*\(\s*mw/i },
+  { key: 'codDate', kind: 'date', pattern: /\bcod\b|commercial\s*operation/i },
+  { key: 'projectLifeYears', kind: 'years', pattern: /project\s*life|useful\s*life|operating\s*period/i },
+  { key: 'tariff', kind: 'number', pattern: /tariff|ppa\s*(rate|price)|offtake\s*price|energy\s*price/i },
+];
+
+// Metric fields a mapping template may set directly
+const METRIC_FIELD_KINDS: Record<string, ValueKind> = {
+  npv: 'number',
+  irr: 'percent',
+  paybackPeriod: 'number',
+  moic: 'number',
+  totalCapex: 'number',
+  debt: 'number',
+  equity: 'number',
+  leverage: 'percent',
+  avgDscr: 'number',
+  minDscr: 'number',
+  avgEbitda: 'number',
+  annualProduction: 'number',
+  capacityFactor: 'percent',
+  ppaRate: 'number',
+  escalation: 'percent',
+  projectLife: 'years',
+  totalRevenue: 'number',
+  codDate: 'date',
+};
+
+// Assumptions that fill a headline metric the summary sheets didn't state
+const ASSUMPTION_METRICS: Array<[AssumptionKey, keyof ExtractedFinancialMetrics]> = [
+  ['tariff', 'ppaRate'],
+  ['tariffEscalation', 'escalation'],
+  ['projectLifeYears', 'projectLife'],
+  ['debtAmount', 'debt'],
+  ['codDate', 'codDate'],
+];
+
 // Sheet name patterns for financial models
 const SHEET_PATTERNS = {
   summary: [/summary/i, /overview/i, /dashboard/i, /key\s*metrics/i, /output/i],
@@ -143,11 +220,13 @@ const SHEET_PATTERNS = {
 };
 
 /**
- * Extract financial data from an Excel file buffer
+ * Extract financial data from an Excel file buffer. A mapping template, when
+ * given, picks the sheets and overrides the label patterns field by field.
  */
 export async function extractFinancialData(
   fileBuffer: Buffer,
-  fileName: string
+  fileName: string,
+  options: ExtractionOptions = {}
 ): Promise<ExtractionResult> {
   const result: ExtractionResult = {
     success: false,
@@ -156,10 +235,13 @@ export async function extractFinancialData(
       extractionNotes: [],
     },
     cashFlows: [],
+    assumptions: {},
+    provenance: [],
     rawData: {},
     errors: [],
     warnings: [],
   };
+  const template = options.template ?? null;
 
   try {
     // Parse the workbook
@@ -168,6 +250,7 @@ export async function extractFinancialData(
       cellDates: true,
       cellNF: true,
       cellStyles: true,
+      cellFormula: true,
     });
 
     if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
@@ -177,6 +260,9 @@ export async function extractFinancialData(
 
     // Identify relevant sheets
     const sheets = identifySheets(workbook);
+    if (template?.sheetRoles) {
+      applySheetRoles(sheets, template.sheetRoles, workbook, result.warnings);
+    }
     result.rawData.identifiedSheets = sheets;
 
     // Extract metrics from summary/returns sheets
@@ -188,7 +274,9 @@ export async function extractFinancialData(
       if (!sheet) continue;
 
       const extracted = extractMetricsFromSheet(sheet, sheetName);
-      metricsExtracted += mergeMetrics(result.metrics, extracted.metrics);
+      const merged = mergeMetrics(result.metrics, extracted.metrics);
+      metricsExtracted += merged.length;
+      result.provenance.push(...extracted.provenance.filter(p => merged.includes(p.field)));
       result.warnings.push(...extracted.warnings);
     }
 
@@ -199,19 +287,26 @@ export async function extractFinancialData(
         if (!sheet) continue;
 
         const extracted = extractMetricsFromSheet(sheet, sheetName);
-        metricsExtracted += mergeMetrics(result.metrics, extracted.metrics);
+        const merged = mergeMetrics(result.metrics, extracted.metrics);
+        metricsExtracted += merged.length;
+        result.provenance.push(...extracted.provenance.filter(p => merged.includes(p.field)));
       }
     }
 
-    // Extract cash flows
-    const cashFlowSheets = sheets.cashFlow || [];
+    // Extract cash flows, trying the sheet the template names first
+    const cashFlowMappings = (template?.mappings ?? []).filter(m => m.field.startsWith('cashFlow.'));
+    const cashFlowSheets = Array.from(new Set([
+      ...cashFlowMappings.map(m => m.sheet),
+      ...(sheets.cashFlow || []),
+    ]));
     for (const sheetName of cashFlowSheets) {
       const sheet = workbook.Sheets[sheetName];
       if (!sheet) continue;
 
-      const cashFlows = extractCashFlowsFromSheet(sheet, sheetName);
-      if (cashFlows.length > 0) {
-        result.cashFlows = cashFlows;
+      const extracted = extractCashFlowsFromSheet(sheet, sheetName, cashFlowMappings.filter(m => m.sheet === sheetName));
+      if (extracted.cashFlows.length > 0) {
+        result.cashFlows = extracted.cashFlows;
+        result.provenance.push(...extracted.provenance);
         break;
       }
     }
@@ -222,15 +317,43 @@ export async function extractFinancialData(
         const sheet = workbook.Sheets[sheetName];
         if (!sheet) continue;
 
-        const cashFlows = extractCashFlowsFromSheet(sheet, sheetName);
-        if (cashFlows.length > 0) {
-          result.cashFlows = cashFlows;
+        const extracted = extractCashFlowsFromSheet(sheet, sheetName);
+        if (extracted.cashFlows.length > 0) {
+          result.cashFlows = extracted.cashFlows;
+          result.provenance.push(...extracted.provenance);
           result.metrics.extractionNotes.push(`Cash flows extracted from sheet: ${sheetName}`);
           break;
         }
       }
     }
 
+    // Typed inputs from the assumptions sheet
+    for (const sheetName of sheets.assumptions || []) {
+      const sheet = workbook.Sheets[sheetName];
+      if (!sheet) continue;
+
+      const extracted = extractAssumptionsFromSheet(sheet, sheetName);
+      for (const [key, value] of Object.entries(extracted.assumptions)) {
+        if (value === undefined || key in result.assumptions) continue;
+        (result.assumptions as Record<string, unknown>)[key] = value;
+        result.provenance.push(...extracted.provenance.filter(p => p.field === `assumptions.${key}`));
+      }
+    }
+
+    // Template cells win over anything the patterns found
+    if (template) {
+      metricsExtracted += applyTemplate(workbook, template.mappings.filter(m => !m.field.startsWith('cashFlow.')), result);
+    }
+
+    for (const [key, metric] of ASSUMPTION_METRICS) {
+      const value = result.assumptions[key];
+      if (value === undefined || result.metrics[metric] !== undefined) continue;
+      Object.assign(result.metrics, { [metric]: key === 'codDate' ? new Date(value as string) : value });
+      metricsExtracted++;
+      const source = result.provenance.find(p => p.field === `assumptions.${key}`);
+      if (source) result.provenance.push({ ...source, field: metric });
+    }
+
     // Calculate confidence score
     result.metrics.confidence = calculateConfidence(result.metrics, result.cashFlows);
 
@@ -275,18 +398,78 @@ function identifySheets(workbook: XLSX.WorkBook): Record<string, string[]> {
   return identified;
 }
 
+/**
+ * Replace guessed sheets with the ones a template names
+ */
+function applySheetRoles(
+  sheets: Record<string, string[]>,
+  roles: NonNullable<MappingTemplate['sheetRoles']>,
+  workbook: XLSX.WorkBook,
+  warnings: string[]
+): void {
+  const existing = (names: string[]) => names.filter(name => {
+    if (workbook.Sheets[name]) return true;
+    warnings.push(`Template sheet "${name}" not found in workbook`);
+    return false;
+  });
+
+  if (roles.summary) {
+    sheets.summary = existing(roles.summary);
+    delete sheets.returns;
+  }
+  if (roles.cashFlow) sheets.cashFlow = existing([roles.cashFlow]);
+  if (roles.assumptions) sheets.assumptions = existing([roles.assumptions]);
+}
+
+/**
+ * Read a sheet as rows of raw values. Blank rows are kept so indexes map
+ * back to cell addresses from the sheet's origin.
+ */
+function readSheetGrid(sheet: XLSX.WorkSheet): { data: unknown[][]; origin: XLSX.CellAddress } {
+  const origin = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s : { r: 0, c: 0 };
+  const data = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: true, defval: null });
+  return { data, origin };
+}
+
+/**
+ * Record where a value was read from, with the cell's formula and display text
+ */
+function cellProvenance(
+  sheet: XLSX.WorkSheet,
+  sheetName: string,
+  origin: XLSX.CellAddress,
+  rowIdx: number,
+  colIdx: number,
+  entry: { field: string; value: number | string | null; label?: string; year?: number; method?: CellProvenance['method'] }
+): CellProvenance {
+  const address = XLSX.utils.encode_cell({ r: origin.r + rowIdx, c: origin.c + colIdx });
+  const cell = sheet[address] as XLSX.CellObject | undefined;
+  return {
+    field: entry.field,
+    year: entry.year,
+    label: entry.label,
+    sheet: sheetName,
+    cell: address,
+    formula: cell?.f,
+    displayValue: cell?.w,
+    value: entry.value,
+    method: entry.method ?? 'pattern',
+  };
+}
+
 /**
  * Extract metrics from a single sheet
  */
 function extractMetricsFromSheet(
   sheet: XLSX.WorkSheet,
   sheetName: string
-): { metrics: Partial<ExtractedFinancialMetrics>; warnings: string[] } {
+): { metrics: Partial<ExtractedFinancialMetrics>; provenance: CellProvenance[]; warnings: string[] } {
   const metrics: Partial<ExtractedFinancialMetrics> = {};
+  const provenance: CellProvenance[] = [];
   const warnings: string[] = [];
 
   // Convert sheet to array of arrays for easier processing
-  const data = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 });
+  const { data, origin } = readSheetGrid(sheet);
 
   // Scan each row for metric patterns
   for (let rowIdx = 0; rowIdx < data.length; rowIdx++) {
@@ -305,9 +488,16 @@ function extractMetricsFromSheet(
         for (const pattern of patterns) {
           if (pattern.test(cellText)) {
             // Look for value in adjacent cells (right, below, or nearby)
-            const value = findAdjacentValue(data, rowIdx, colIdx);
-            if (value !== null) {
-              assignMetricValue(metrics, metricKey, value, cellText);
+            const found = findAdjacentCell(data, rowIdx, colIdx, parseNumericValue);
+            if (found !== null) {
+              const field = assignMetricValue(metrics, metricKey, found.value, cellText);
+              if (field) {
+                provenance.push(cellProvenance(sheet, sheetName, origin, found.row, found.col, {
+                  field,
+                  value: metrics[field] as number,
+                  label: cellText,
+                }));
+              }
             }
             break;
           }
@@ -316,17 +506,18 @@ function extractMetricsFromSheet(
     }
   }
 
-  return { metrics, warnings };
+  return { metrics, provenance, warnings };
 }
 
 /**
- * Find a numeric value in cells adjacent to the label
+ * Find a value in cells adjacent to the label
  */
-function findAdjacentValue(
+function findAdjacentCell<T>(
   data: unknown[][],
   rowIdx: number,
-  colIdx: number
-): number | null {
+  colIdx: number,
+  parse: (cell: unknown) => T | null
+): { value: T; row: number; col: number } | null {
   const searchPositions = [
     [rowIdx, colIdx + 1],     // Right
     [rowIdx, colIdx + 2],     // Two right
@@ -338,9 +529,9 @@ function findAdjacentValue(
     if (r >= 0 && r < data.length && c >= 0) {
       const row = data[r] as unknown[];
       if (row && c < row.length) {
-        const value = parseNumericValue(row[c]);
+        const value = parse(row[c]);
         if (value !== null) {
-          return value;
+          return { value, row: r, col: c };
         }
       }
     }
@@ -383,75 +574,76 @@ function parseNumericValue(cell: unknown): number | null {
 }
 
 /**
- * Assign a value to the appropriate metric field
+ * Convert a raw cell value for a field kind. Percentages above 1 are taken
+ * as whole percents (12.4 -> 0.124); dates come back as ISO strings.
+ */
+function readTypedValue(cell: unknown, kind: ValueKind): number | string | null {
+  if (kind === 'date') {
+    if (cell instanceof Date) return isNaN(cell.getTime()) ? null : cell.toISOString().slice(0, 10);
+    if (typeof cell === 'number') {
+      const parsed = XLSX.SSF.parse_date_code(cell);
+      if (!parsed || !parsed.y) return null;
+      return `${parsed.y}-${String(parsed.m).padStart(2, '0')}-${String(parsed.d).padStart(2, '0')}`;
+    }
+    if (typeof cell === 'string' && !isNaN(Date.parse(cell))) {
+      return new Date(cell).toISOString().slice(0, 10);
+    }
+    return null;
+  }
+
+  const value = parseNumericValue(cell);
+  if (value === null) return null;
+  if (kind === 'percent') return value > 1 ? value / 100 : value;
+  if (kind === 'years') return Math.round(value);
+  return value;
+}
+
+// Metric field each METRIC_PATTERNS key fills (DSCR depends on the label)
+const PATTERN_METRIC_FIELDS: Record<string, keyof ExtractedFinancialMetrics> = {
+  npv: 'npv',
+  irr: 'irr',
+  payback: 'paybackPeriod',
+  moic: 'moic',
+  capex: 'totalCapex',
+  debt: 'debt',
+  equity: 'equity',
+  ebitda: 'avgEbitda',
+  production: 'annualProduction',
+  capacityFactor: 'capacityFactor',
+  ppaRate: 'ppaRate',
+  projectLife: 'projectLife',
+};
+
+/**
+ * Assign a value to the appropriate metric field, returning the field set
  */
 function assignMetricValue(
   metrics: Partial<ExtractedFinancialMetrics>,
   metricKey: string,
   value: number,
   label: string
-): void {
-  switch (metricKey) {
-    case 'npv':
-      if (!metrics.npv) metrics.npv = value;
-      break;
-    case 'irr':
-      // IRR should be a percentage (0-1 range or already as decimal)
-      if (!metrics.irr) {
-        metrics.irr = value > 1 ? value / 100 : value;
-      }
-      break;
-    case 'payback':
-      if (!metrics.paybackPeriod) metrics.paybackPeriod = value;
-      break;
-    case 'moic':
-      if (!metrics.moic) metrics.moic = value;
-      break;
-    case 'capex':
-      if (!metrics.totalCapex) metrics.totalCapex = value;
-      break;
-    case 'debt':
-      if (!metrics.debt) metrics.debt = value;
-      break;
-    case 'equity':
-      if (!metrics.equity) metrics.equity = value;
-      break;
-    case 'dscr':
-      if (label.toLowerCase().includes('min')) {
-        if (!metrics.minDscr) metrics.minDscr = value;
-      } else {
-        if (!metrics.avgDscr) metrics.avgDscr = value;
-      }
-      break;
-    case 'ebitda':
-      if (!metrics.avgEbitda) metrics.avgEbitda = value;
-      break;
-    case 'production':
-      if (!metrics.annualProduction) metrics.annualProduction = value;
-      break;
-    case 'capacityFactor':
-      if (!metrics.capacityFactor) {
-        metrics.capacityFactor = value > 1 ? value / 100 : value;
-      }
-      break;
-    case 'ppaRate':
-      if (!metrics.ppaRate) metrics.ppaRate = value;
-      break;
-    case 'projectLife':
-      if (!metrics.projectLife) metrics.projectLife = Math.round(value);
-      break;
-  }
+): keyof ExtractedFinancialMetrics | null {
+  const field = metricKey === 'dscr'
+    ? (label.toLowerCase().includes('min') ? 'minDscr' : 'avgDscr')
+    : PATTERN_METRIC_FIELDS[metricKey];
+  if (!field || metrics[field]) return null;
+
+  (metrics as Record<string, unknown>)[field] = readTypedValue(value, METRIC_FIELD_KINDS[field]);
+  return field;
 }
 
 /**
- * Extract cash flows from a sheet
+ * Extract cash flows from a sheet. Template mappings pin a line item to a
+ * row by its label or row number.
  */
 function extractCashFlowsFromSheet(
   sheet: XLSX.WorkSheet,
-  sheetName: string
-): ExtractedCashFlow[] {
+  sheetName: string,
+  mappings: ModelCellMapping[] = []
+): { cashFlows: ExtractedCashFlow[]; provenance: CellProvenance[] } {
   const cashFlows: ExtractedCashFlow[] = [];
-  const data = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 });
+  const provenance: CellProvenance[] = [];
+  const { data, origin } = readSheetGrid(sheet);
 
   // Look for year headers (e.g., 2024, 2025, Year 1, Year 2)
   let yearRow = -1;
@@ -491,16 +683,16 @@ function extractCashFlowsFromSheet(
   }
 
   if (yearRow === -1 || yearCols.length === 0) {
-    return cashFlows;
+    return { cashFlows, provenance };
   }
 
   // Look for cash flow line items
-  const lineItems: Record<string, { row: number; pattern: RegExp }> = {
-    revenue: { row: -1, pattern: /revenue|income|sales/i },
-    opex: { row: -1, pattern: /opex|operating\s*expense|o&m/i },
-    ebitda: { row: -1, pattern: /ebitda/i },
-    debtService: { row: -1, pattern: /debt\s*service|principal|interest/i },
-    netCashFlow: { row: -1, pattern: /net\s*cash|free\s*cash|fcf|cash\s*flow/i },
+  const lineItems: Record<string, { row: number; pattern: RegExp; method: CellProvenance['method'] }> = {
+    revenue: { row: -1, pattern: /revenue|income|sales/i, method: 'pattern' },
+    opex: { row: -1, pattern: /opex|operating\s*expense|o&m/i, method: 'pattern' },
+    ebitda: { row: -1, pattern: /ebitda/i, method: 'pattern' },
+    debtService: { row: -1, pattern: /debt\s*service|principal|interest/i, method: 'pattern' },
+    netCashFlow: { row: -1, pattern: /net\s*cash|free\s*cash|fcf|cash\s*flow/i, method: 'pattern' },
   };
 
   // Find rows for each line item
@@ -520,6 +712,17 @@ function extractCashFlowsFromSheet(
     }
   }
 
+  for (const mapping of mappings) {
+    const item = lineItems[mapping.field.slice('cashFlow.'.length)];
+    if (!item) continue;
+    const labelRow = mapping.label ? findLabel(data, mapping.label)?.row ?? -1 : -1;
+    const rowIdx = labelRow >= 0 ? labelRow : mapping.row ? mapping.row - 1 - origin.r : -1;
+    if (rowIdx >= 0 && rowIdx < data.length) {
+      item.row = rowIdx;
+      item.method = 'template';
+    }
+  }
+
   // Extract values for each year
   let cumulativeCashFlow = 0;
   
@@ -541,6 +744,14 @@ function extractCashFlowsFromSheet(
           const value = parseNumericValue(row[col]);
           if (value !== null) {
             (cf as Record<string, number>)[key] = value;
+            const label = typeof row[0] === 'string' ? row[0].trim() : undefined;
+            provenance.push(cellProvenance(sheet, sheetName, origin, item.row, col, {
+              field: `cashFlow.${key}`,
+              value,
+              label,
+              year,
+              method: item.method,
+            }));
           }
         }
       }
@@ -565,29 +776,168 @@ function extractCashFlowsFromSheet(
     cashFlows.push(cf);
   }
 
-  return cashFlows;
+  return { cashFlows, provenance };
 }
 
 /**
- * Merge extracted metrics into the result
+ * Extract typed inputs (tariff, degradation, escalation, debt terms) from an
+ * assumptions sheet
+ */
+function extractAssumptionsFromSheet(
+  sheet: XLSX.WorkSheet,
+  sheetName: string
+): { assumptions: ModelAssumptionInputs; provenance: CellProvenance[] } {
+  const assumptions: ModelAssumptionInputs = {};
+  const provenance: CellProvenance[] = [];
+  const { data, origin } = readSheetGrid(sheet);
+
+  for (let rowIdx = 0; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx] as unknown[];
+    if (!row) continue;
+
+    for (let colIdx = 0; colIdx < row.length; colIdx++) {
+      const cell = row[colIdx];
+      if (typeof cell !== 'string' || !cell.trim()) continue;
+
+      const label = cell.trim();
+      const spec = ASSUMPTION_PATTERNS.find(p => p.pattern.test(label));
+      if (!spec || assumptions[spec.key] !== undefined) continue;
+
+      const found = findAdjacentCell(data, rowIdx, colIdx, value => readTypedValue(value, spec.kind));
+      if (!found) continue;
+
+      (assumptions as Record<string, unknown>)[spec.key] = found.value;
+      if (spec.key === 'tariff') {
+        const unit = tariffUnit(label);
+        if (unit) assumptions.tariffUnit = unit;
+      }
+      provenance.push(cellProvenance(sheet, sheetName, origin, found.row, found.col, {
+        field: `assumptions.${spec.key}`,
+        value: found.value,
+        label,
+      }));
+    }
+  }
+
+  return { assumptions, provenance };
+}
+
+/**
+ * Read the unit from a tariff label, e.g. "Tariff (USD/MWh)"
+ */
+function tariffUnit(label: string): string | undefined {
+  const bracketed = label.match(/\(([^)]*\/[^)]*)\)/);
+  if (bracketed) return bracketed[1].trim();
+  const inline = label.match(/([$€£₦]|usd|ngn|eur)\s*\/\s*[km]wh/i);
+  return inline ? inline[0].replace(/\s/g, '') : undefined;
+}
+
+/**
+ * Find the first cell whose text matches a label, ignoring case and spacing
+ */
+function findLabel(data: unknown[][], label: string): { row: number; col: number } | null {
+  const wanted = label.trim().replace(/\s+/g, ' ').toLowerCase();
+  for (let rowIdx = 0; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx] as unknown[];
+    if (!row) continue;
+    for (let colIdx = 0; colIdx < row.length; colIdx++) {
+      const cell = row[colIdx];
+      if (typeof cell === 'string' && cell.trim().replace(/\s+/g, ' ').toLowerCase() === wanted) {
+        return { row: rowIdx, col: colIdx };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply template mappings for metrics and assumptions. A mapping's label is
+ * tried first so rows inserted between versions don't break it; the fixed
+ * cell is the fallback. Returns the number of fields set.
+ */
+function applyTemplate(
+  workbook: XLSX.WorkBook,
+  mappings: ModelCellMapping[],
+  result: ExtractionResult
+): number {
+  let applied = 0;
+
+  for (const mapping of mappings) {
+    const sheet = workbook.Sheets[mapping.sheet];
+    if (!sheet) {
+      result.warnings.push(`Template sheet "${mapping.sheet}" not found for ${mapping.field}`);
+      continue;
+    }
+
+    const assumptionKey = mapping.field.startsWith('assumptions.')
+      ? mapping.field.slice('assumptions.'.length)
+      : null;
+    const kind = assumptionKey
+      ? ASSUMPTION_PATTERNS.find(p => p.key === assumptionKey)?.kind
+      : METRIC_FIELD_KINDS[mapping.field];
+    if (!kind) {
+      result.warnings.push(`Unknown template field: ${mapping.field}`);
+      continue;
+    }
+
+    const { data, origin } = readSheetGrid(sheet);
+    const parse = (value: unknown) => readTypedValue(value, kind);
+    let found: { value: number | string; row: number; col: number } | null = null;
+
+    const labelCell = mapping.label ? findLabel(data, mapping.label) : null;
+    if (labelCell) {
+      found = findAdjacentCell(data, labelCell.row, labelCell.col, parse);
+    }
+    if (!found && mapping.cell) {
+      const address = XLSX.utils.decode_cell(mapping.cell);
+      const row = address.r - origin.r;
+      const col = address.c - origin.c;
+      const value = row >= 0 && col >= 0 ? parse(data[row]?.[col]) : null;
+      if (value !== null) found = { value, row, col };
+    }
+    if (!found) {
+      result.warnings.push(`Template mapping for ${mapping.field} found no value on ${mapping.sheet}`);
+      continue;
+    }
+
+    if (assumptionKey) {
+      (result.assumptions as Record<string, unknown>)[assumptionKey] = found.value;
+    } else {
+      Object.assign(result.metrics, { [mapping.field]: kind === 'date' ? new Date(found.value as string) : found.value });
+    }
+    result.provenance = result.provenance.filter(p => p.field !== mapping.field);
+    result.provenance.push(cellProvenance(sheet, mapping.sheet, origin, found.row, found.col, {
+      field: mapping.field,
+      value: found.value,
+      label: mapping.label,
+      method: 'template',
+    }));
+    applied++;
+  }
+
+  return applied;
+}
+
+/**
+ * Merge extracted metrics into the result, returning the fields taken
  */
 function mergeMetrics(
   target: ExtractedFinancialMetrics,
   source: Partial<ExtractedFinancialMetrics>
-): number {
-  let count = 0;
+): string[] {
+  const merged: string[] = [];
 
   for (const [key, value] of Object.entries(source)) {
     if (value !== undefined && value !== null && key !== 'confidence' && key !== 'extractionNotes') {
       const targetKey = key as keyof ExtractedFinancialMetrics;
       if ((target as Record<string, unknown>)[targetKey] === undefined) {
         (target as Record<string, unknown>)[targetKey] = value;
-        count++;
+        merged.push(key);
       }
     }
   }
 
-  return count;
+  return merged;
 }
 
 /**
@@ -669,3 +1019,54 @@ export function getExtractionSummary(result: ExtractionResult): string {
 
   return parts.join(' | ');
 }
+
+/**
+ * Format a sheet-qualified address the way Excel writes it in formulas
+ */
+export function formatCellAddress(sheet: string, cell: string): string {
+  const quoted = /^[A-Za-z_][A-Za-z0-9_.]*$/.test(sheet) ? sheet : `'${sheet.replace(/'/g, "''")}'`;
+  return `${quoted}!${cell}`;
+}
+
+/**
+ * Describe where a value came from, e.g. "IRR 12.4% ← Returns!C14 = IRR(CF!D40:AD40)"
+ */
+export function describeProvenance(ref: {
+  field: string;
+  label?: string | null;
+  year?: number | null;
+  sheet: string;
+  cell: string;
+  formula?: string | null;
+  displayValue?: string | null;
+  value?: number | string | null;
+}): string {
+  const name = `${ref.label || ref.field}${ref.year != null ? ` (year ${ref.year})` : ''}`;
+  const shown = ref.displayValue ?? (ref.value != null ? String(ref.value) : '');
+  const source = formatCellAddress(ref.sheet, ref.cell) + (ref.formula ? ` = ${ref.formula}` : '');
+  return `${name}${shown ? ` ${shown}` : ''} ← ${source}`;
+}
+
+/**
+ * Build template mappings from an extraction's cell references, so the
+ * layout found in one model version can be reused for the next
+ */
+export function templateFromProvenance(provenance: CellProvenance[]): ModelCellMapping[] {
+  const mappings = new Map<string, ModelCellMapping>();
+
+  for (const ref of provenance) {
+    if (mappings.has(ref.field)) continue;
+    if (ref.field.startsWith('cashFlow.')) {
+      mappings.set(ref.field, {
+        field: ref.field,
+        sheet: ref.sheet,
+        label: ref.label,
+        row: XLSX.utils.decode_cell(ref.cell).r + 1,
+      });
+    } else {
+      mappings.set(ref.field, { field: ref.field, sheet: ref.sheet, cell: ref.cell, label: ref.label });
+    }
+  }
+
+  return Array.from(mappings.values());
+}
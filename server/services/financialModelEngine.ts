@@ -0,0 +1,551 @@
+/**
+ * Financial Model Engine
+ *
+ * Recomputes a financial model's headline outputs from its extracted annual
+ * cash flows instead of trusting the labelled cells the workbook states:
+ * - Project and equity IRR, NPV at one or more discount rates
+ * - Min/avg DSCR (CFADS / debt service) and LLCR at the start of repayment
+ * - Simple and discounted payback, equity MOIC
+ *
+ * The recomputed values are checked against the model's stated metrics, and
+ * scenarios (tariff, P90 production, capex, opex) are run on the same cash
+ * flows and stored as 'scenario' rows in financialModelComparisons.
+ *
+ * Conventions: annual periods, the first period is undiscounted (t = 0) and
+ * later periods are discounted at year end. Debt service is held as modelled
+ * in scenarios; a scenario changes what is left for equity, not the loan.
+ */
+
+import { and, desc, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  ComputedModelMetrics,
+  FinancialModelCashFlow,
+  FinancialModelMetrics,
+  ModelDiscrepancy,
+  ScenarioOverrides,
+  financialModelCashFlows,
+  financialModelComparisons,
+  financialModelMetrics,
+  financialModelRecalculations,
+  financialModels,
+} from "../../drizzle/schema";
+
+export class ModelEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelEngineError";
+  }
+}
+
+export const DEFAULT_DISCOUNT_RATE = 0.08;
+
+export const SCENARIO_PRESETS: Record<string, { name: string; overrides: ScenarioOverrides }> = {
+  tariff_down_10: { name: "Tariff -10%", overrides: { tariffChangePct: -10 } },
+  production_p90: { name: "P90 production", overrides: { production: "p90" } },
+  capex_up_15: { name: "Capex +15%", overrides: { capexChangePct: 15 } },
+  opex_up_10: { name: "Opex +10%", overrides: { opexChangePct: 10 } },
+};
+
+// How far a stated output may be from the recomputed one before it is flagged
+export const DISCREPANCY_TOLERANCES = {
+  irr: 0.005, // 50bp
+  npvPct: 0.05,
+  dscr: 0.05,
+  llcr: 0.05,
+  paybackYears: 0.5,
+  moic: 0.05,
+  ebitdaPct: 0.01,
+};
+
+// ============================================================================
+// Cash flow arithmetic
+// ============================================================================
+
+/** NPV with the first flow undiscounted */
+export function npv(rate: number, flows: number[]): number {
+  return flows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + rate, t), 0);
+}
+
+/**
+ * IRR by bisection on the NPV sign change, which always converges where a
+ * root exists (Newton can wander off on long project cash flows). Null when
+ * the flows never change sign.
+ */
+export function irr(flows: number[]): number | null {
+  if (!flows.some(f => f < 0) || !flows.some(f => f > 0)) return null;
+  let low = -0.99;
+  let high = 10;
+  let fLow = npv(low, flows);
+  const fHigh = npv(high, flows);
+  if (fLow * fHigh > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const fMid = npv(mid, flows);
+    if (Math.abs(fMid) < 1e-7 || high - low < 1e-10) return mid;
+    if (fLow * fMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      fLow = fMid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/** Years from the first flow until the cumulative flow turns non-negative, interpolated within the year; null if never */
+export function paybackYears(flows: number[], discountRate?: number): number | null {
+  let cumulative = 0;
+  let invested = false;
+  for (let t = 0; t < flows.length; t++) {
+    const cf = discountRate === undefined ? flows[t] : flows[t] / Math.pow(1 + discountRate, t);
+    const before = cumulative;
+    cumulative += cf;
+    if (cumulative < 0) invested = true;
+    if (invested && before < 0 && cumulative >= 0) {
+      // Flows land at year end, so the year that turns it positive is (t - 1, t]
+      return t - 1 + (cf === 0 ? 0 : -before / cf);
+    }
+  }
+  return null;
+}
+
+export interface ModelYear {
+  year: number;
+  calendarYear: number | null;
+  revenue: number;
+  opex: number;
+  ebitda: number;
+  capex: number; // construction capex, major maintenance and working capital
+  tax: number; // income tax net of credits
+  debtService: number;
+  principal: number;
+  debtBalance: number | null; // closing
+  productionMwh: number | null;
+  statedDscr: number | null;
+  statedEbitda: number | null;
+  statedEquityCashFlow: number | null;
+}
+
+const num = (value: string | null | undefined): number | null =>
+  value === null || value === undefined || value === "" ? null : Number(value);
+
+const sumOf = (...values: Array<number | null>) => values.reduce<number>((s, v) => s + (v ?? 0), 0);
+
+/** Normalize stored cash flow rows, rebuilding totals from components where the total is missing */
+export function toModelYears(rows: FinancialModelCashFlow[]): ModelYear[] {
+  return [...rows]
+    .sort((a, b) => a.year - b.year)
+    .map(row => {
+      const revenue = num(row.revenue) ?? sumOf(num(row.energyRevenue), num(row.capacityRevenue), num(row.ancillaryRevenue), num(row.otherRevenue));
+      const opex = Math.abs(num(row.opex) ?? sumOf(num(row.oAndM), num(row.insurance), num(row.landLease), num(row.propertyTax), num(row.management), num(row.otherOpex)));
+      const interest = Math.abs(num(row.interestPayment) ?? 0);
+      const principal = Math.abs(num(row.principalPayment) ?? 0);
+      return {
+        year: row.year,
+        calendarYear: row.calendarYear,
+        revenue,
+        opex,
+        ebitda: revenue - opex,
+        capex: Math.abs(num(row.capex) ?? 0) + Math.abs(num(row.majorMaintenance) ?? 0) + (num(row.workingCapital) ?? 0),
+        tax: Math.abs(num(row.incomeTax) ?? 0) - Math.abs(num(row.taxCredits) ?? 0),
+        debtService: Math.abs(num(row.debtService) ?? (interest + principal)),
+        principal,
+        debtBalance: num(row.debtBalance),
+        productionMwh: num(row.productionMwh),
+        statedDscr: num(row.dscr),
+        statedEbitda: num(row.ebitda),
+        statedEquityCashFlow: num(row.cashFlowToEquity),
+      };
+    });
+}
+
+export interface ModelAssumptions {
+  /** Up-front investment when the cash flows carry no capex line */
+  totalCapex: number | null;
+  debtAmount: number | null;
+  interestRate: number | null;
+  taxRate: number | null;
+  p50Production: number | null;
+  p90Production: number | null;
+}
+
+export function assumptionsFromMetrics(metrics: FinancialModelMetrics | null): ModelAssumptions {
+  return {
+    totalCapex: num(metrics?.totalCapex),
+    debtAmount: num(metrics?.debtAmount),
+    interestRate: num(metrics?.interestRate),
+    taxRate: num(metrics?.taxRate),
+    p50Production: num(metrics?.p50Production),
+    p90Production: num(metrics?.p90Production),
+  };
+}
+
+/**
+ * Apply scenario overrides to the base years. Revenue moves with tariff and
+ * production; when EBITDA moves and the tax rate is known, tax moves with it.
+ */
+export function applyScenario(years: ModelYear[], assumptions: ModelAssumptions, overrides: ScenarioOverrides): { years: ModelYear[]; assumptions: ModelAssumptions } {
+  let productionFactor = overrides.productionFactor ?? 1;
+  if (overrides.productionFactor === undefined && overrides.production === "p90") {
+    if (!assumptions.p50Production || !assumptions.p90Production) {
+      throw new ModelEngineError("The model has no P50/P90 production figures; pass a production factor instead");
+    }
+    productionFactor = assumptions.p90Production / assumptions.p50Production;
+  }
+  const revenueFactor = (1 + (overrides.tariffChangePct ?? 0) / 100) * productionFactor;
+  const opexFactor = 1 + (overrides.opexChangePct ?? 0) / 100;
+  const capexFactor = 1 + (overrides.capexChangePct ?? 0) / 100;
+
+  const adjusted = years.map(y => {
+    const revenue = y.revenue * revenueFactor;
+    const opex = y.opex * opexFactor;
+    const ebitda = revenue - opex;
+    const tax = assumptions.taxRate !== null && y.tax !== 0
+      ? Math.max(0, y.tax + assumptions.taxRate * (ebitda - y.ebitda))
+      : y.tax;
+    return {
+      ...y,
+      revenue,
+      opex,
+      ebitda,
+      tax,
+      capex: y.capex * capexFactor,
+      productionMwh: y.productionMwh === null ? null : y.productionMwh * productionFactor,
+      // Stated per-year figures describe the base case only
+      statedDscr: null,
+      statedEbitda: null,
+      statedEquityCashFlow: null,
+    };
+  });
+
+  return {
+    years: adjusted,
+    assumptions: { ...assumptions, totalCapex: assumptions.totalCapex === null ? null : assumptions.totalCapex * capexFactor },
+  };
+}
+
+export interface ModelCashFlowSeries {
+  project: number[];
+  equity: number[];
+  cfads: number[];
+}
+
+/**
+ * Project flows (EBITDA - capex - tax) and equity flows (project flow - debt
+ * service + debt drawn). Drawdowns come from increases in the debt balance;
+ * without balances, the debt amount is assumed drawn alongside capex.
+ */
+export function buildCashFlowSeries(years: ModelYear[], assumptions: ModelAssumptions): ModelCashFlowSeries {
+  const hasCapex = years.some(y => y.capex > 0);
+  const upfront = !hasCapex && assumptions.totalCapex ? assumptions.totalCapex : 0;
+  const hasBalances = years.some(y => y.debtBalance !== null);
+  const totalCapex = years.reduce((s, y) => s + Math.max(0, y.capex), 0);
+
+  const project: number[] = [];
+  const equity: number[] = [];
+  const cfads: number[] = [];
+  if (upfront > 0) {
+    // Investment before the first modelled year
+    project.push(-upfront);
+    equity.push(-(upfront - (assumptions.debtAmount ?? 0)));
+    cfads.push(0);
+  }
+
+  let previousBalance = 0;
+  years.forEach(y => {
+    const flow = y.ebitda - y.capex - y.tax;
+    let drawdown = 0;
+    if (hasBalances && y.debtBalance !== null) {
+      drawdown = Math.max(0, y.debtBalance - previousBalance + y.principal);
+      previousBalance = y.debtBalance;
+    } else if (!hasBalances && upfront === 0 && assumptions.debtAmount && totalCapex > 0 && y.capex > 0) {
+      drawdown = assumptions.debtAmount * (y.capex / totalCapex);
+    }
+    project.push(flow);
+    equity.push(y.statedEquityCashFlow ?? flow - y.debtService + drawdown);
+    // Cash available for debt service excludes construction capex funded by drawdowns
+    cfads.push(y.ebitda - y.tax - Math.max(0, y.capex - drawdown));
+  });
+
+  return { project, equity, cfads };
+}
+
+function dscrs(years: ModelYear[], cfads: number[]): Array<{ year: number; dscr: number }> {
+  const offset = cfads.length - years.length;
+  return years
+    .map((y, i) => ({ year: y.year, debtService: y.debtService, cfads: cfads[i + offset] }))
+    .filter(r => r.debtService > 0)
+    .map(r => ({ year: r.year, dscr: r.cfads / r.debtService }));
+}
+
+/** LLCR at the first repayment year: PV of CFADS over the remaining loan life / debt outstanding */
+function llcr(years: ModelYear[], cfads: number[], assumptions: ModelAssumptions, fallbackRate: number): number | null {
+  const offset = cfads.length - years.length;
+  const first = years.findIndex(y => y.debtService > 0);
+  if (first < 0) return null;
+  const last = years.reduce((idx, y, i) => (y.debtService > 0 ? i : idx), first);
+
+  const opening = first > 0 && years[first - 1].debtBalance !== null
+    ? years[first - 1].debtBalance!
+    : assumptions.debtAmount ?? years.slice(first, last + 1).reduce((s, y) => s + y.principal, 0);
+  if (!opening) return null;
+
+  const rate = assumptions.interestRate ?? fallbackRate;
+  let pv = 0;
+  for (let i = first; i <= last; i++) pv += cfads[i + offset] / Math.pow(1 + rate, i - first + 1);
+  return pv / opening;
+}
+
+const round = (value: number | null, digits: number) =>
+  value === null || !Number.isFinite(value) ? null : Math.round(value * Math.pow(10, digits)) / Math.pow(10, digits);
+
+export function computeModelMetrics(
+  years: ModelYear[],
+  assumptions: ModelAssumptions,
+  discountRates: number[] = [DEFAULT_DISCOUNT_RATE]
+): ComputedModelMetrics {
+  if (years.length === 0) throw new ModelEngineError("The model has no cash flows to compute from");
+  const rates = discountRates.length ? discountRates : [DEFAULT_DISCOUNT_RATE];
+  const series = buildCashFlowSeries(years, assumptions);
+  const coverage = dscrs(years, series.cfads);
+  const hasEquityInvestment = series.equity.some(f => f < 0);
+
+  const equityIn = series.equity.filter(f => f < 0).reduce((s, f) => s - f, 0);
+  const equityOut = series.equity.filter(f => f > 0).reduce((s, f) => s + f, 0);
+  const production = years.filter(y => y.productionMwh !== null);
+
+  const npvByRate = rates.map(rate => ({
+    rate,
+    projectNpv: round(npv(rate, series.project), 2),
+    equityNpv: hasEquityInvestment ? round(npv(rate, series.equity), 2) : null,
+  }));
+
+  return {
+    discountRate: rates[0],
+    projectNpv: npvByRate[0].projectNpv,
+    equityNpv: npvByRate[0].equityNpv,
+    npvByRate,
+    projectIrr: round(irr(series.project), 6),
+    equityIrr: round(irr(series.equity), 6),
+    minDscr: coverage.length ? round(Math.min(...coverage.map(c => c.dscr)), 4) : null,
+    avgDscr: coverage.length ? round(coverage.reduce((s, c) => s + c.dscr, 0) / coverage.length, 4) : null,
+    llcr: round(llcr(years, series.cfads, assumptions, rates[0]), 4),
+    paybackYears: round(paybackYears(series.project), 2),
+    discountedPaybackYears: round(paybackYears(series.project, rates[0]), 2),
+    moic: equityIn > 0 ? round(equityOut / equityIn, 4) : null,
+    totalRevenue: round(years.reduce((s, y) => s + y.revenue, 0), 2)!,
+    totalOpex: round(years.reduce((s, y) => s + y.opex, 0), 2)!,
+    totalEbitda: round(years.reduce((s, y) => s + y.ebitda, 0), 2)!,
+    totalCapex: round(series.project.length > years.length ? -series.project[0] : years.reduce((s, y) => s + Math.max(0, y.capex), 0), 2)!,
+    totalProductionMwh: production.length ? round(production.reduce((s, y) => s + y.productionMwh!, 0), 2) : null,
+  };
+}
+
+// ============================================================================
+// Discrepancies
+// ============================================================================
+
+/**
+ * Stated outputs that don't agree with the recomputation. The stated IRR and
+ * NPV may be project or equity figures, so they are flagged only when
+ * neither recomputed basis is within tolerance.
+ */
+export function findDiscrepancies(
+  stated: FinancialModelMetrics | null,
+  years: ModelYear[],
+  assumptions: ModelAssumptions,
+  computed: ComputedModelMetrics
+): ModelDiscrepancy[] {
+  const issues: ModelDiscrepancy[] = [];
+  const check = (metric: string, statedValue: number | null, candidates: Array<number | null>, tolerance: number, relative = false) => {
+    if (statedValue === null) return;
+    const available = candidates.filter((c): c is number => c !== null);
+    const closest = available.sort((a, b) => Math.abs(a - statedValue) - Math.abs(b - statedValue))[0] ?? null;
+    const limit = relative ? Math.abs(statedValue) * tolerance : tolerance;
+    if (closest !== null && Math.abs(closest - statedValue) <= limit) return;
+    issues.push({
+      metric,
+      stated: statedValue,
+      computed: closest,
+      difference: closest === null ? null : round(closest - statedValue, 6),
+      tolerance: limit,
+      note: closest === null ? "Could not be recomputed from the cash flows" : undefined,
+    });
+  };
+
+  if (stated) {
+    check("irr", num(stated.irr), [computed.projectIrr, computed.equityIrr], DISCREPANCY_TOLERANCES.irr);
+    const statedRate = num(stated.discountRate);
+    if (num(stated.npv) !== null) {
+      const atStatedRate = statedRate !== null && statedRate !== computed.discountRate
+        ? computeModelMetrics(years, assumptions, [statedRate])
+        : computed;
+      check("npv", num(stated.npv), [atStatedRate.projectNpv, atStatedRate.equityNpv], DISCREPANCY_TOLERANCES.npvPct, true);
+    }
+    check("minDscr", num(stated.minDscr), [computed.minDscr], DISCREPANCY_TOLERANCES.dscr);
+    check("avgDscr", num(stated.avgDscr) ?? num(stated.dscr), [computed.avgDscr], DISCREPANCY_TOLERANCES.dscr);
+    check("paybackYears", num(stated.paybackYears), [computed.paybackYears], DISCREPANCY_TOLERANCES.paybackYears);
+    check("moic", num(stated.moic), [computed.moic], DISCREPANCY_TOLERANCES.moic);
+  }
+
+  // Per-year figures the sheet states alongside its own components
+  const series = buildCashFlowSeries(years, assumptions);
+  const offset = series.cfads.length - years.length;
+  years.forEach((y, i) => {
+    if (y.statedEbitda !== null && Math.abs(y.statedEbitda - y.ebitda) > Math.max(1, Math.abs(y.ebitda) * DISCREPANCY_TOLERANCES.ebitdaPct)) {
+      issues.push({
+        metric: "ebitda",
+        year: y.year,
+        stated: y.statedEbitda,
+        computed: round(y.ebitda, 2),
+        difference: round(y.ebitda - y.statedEbitda, 2),
+        tolerance: Math.abs(y.ebitda) * DISCREPANCY_TOLERANCES.ebitdaPct,
+        note: "Revenue less opex does not equal the stated EBITDA",
+      });
+    }
+    if (y.statedDscr !== null && y.debtService > 0) {
+      const dscr = series.cfads[i + offset] / y.debtService;
+      if (Math.abs(dscr - y.statedDscr) > DISCREPANCY_TOLERANCES.dscr) {
+        issues.push({
+          metric: "dscr",
+          year: y.year,
+          stated: y.statedDscr,
+          computed: round(dscr, 4),
+          difference: round(dscr - y.statedDscr, 4),
+          tolerance: DISCREPANCY_TOLERANCES.dscr,
+        });
+      }
+    }
+  });
+
+  return issues;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+export async function loadModel(modelId: number) {
+  const db = await getDb();
+  if (!db) throw new ModelEngineError("Database not available");
+
+  const [model] = await db.select().from(financialModels).where(eq(financialModels.id, modelId)).limit(1);
+  if (!model) throw new ModelEngineError(`Financial model ${modelId} not found`);
+  const [metrics] = await db.select()
+    .from(financialModelMetrics)
+    .where(eq(financialModelMetrics.financialModelId, modelId))
+    .orderBy(desc(financialModelMetrics.createdAt))
+    .limit(1);
+  const rows = await db.select()
+    .from(financialModelCashFlows)
+    .where(eq(financialModelCashFlows.financialModelId, modelId));
+
+  return { db, model, metrics: metrics ?? null, years: toModelYears(rows) };
+}
+
+function ratesFor(metrics: FinancialModelMetrics | null, discountRates?: number[]): number[] {
+  if (discountRates?.length) return discountRates;
+  const stated = num(metrics?.discountRate);
+  return [stated ?? DEFAULT_DISCOUNT_RATE];
+}
+
+/** Recompute the model's outputs, record the run and return it with any discrepancies */
+export async function recalculateModel(modelId: number, options: { discountRates?: number[]; userId?: number | null } = {}) {
+  const { db, metrics, years } = await loadModel(modelId);
+  const assumptions = assumptionsFromMetrics(metrics);
+  const discountRates = ratesFor(metrics, options.discountRates);
+
+  const computed = computeModelMetrics(years, assumptions, discountRates);
+  const discrepancies = findDiscrepancies(metrics, years, assumptions, computed);
+
+  const [result] = await db.insert(financialModelRecalculations).values({
+    financialModelId: modelId,
+    discountRates,
+    metrics: computed,
+    discrepancies,
+    hasDiscrepancies: discrepancies.length > 0,
+    computedBy: options.userId ?? null,
+  });
+
+  return { id: Number(result.insertId), metrics: computed, discrepancies };
+}
+
+export async function getLatestRecalculation(modelId: number) {
+  const db = await getDb();
+  if (!db) return null;
+  const [latest] = await db.select()
+    .from(financialModelRecalculations)
+    .where(eq(financialModelRecalculations.financialModelId, modelId))
+    .orderBy(desc(financialModelRecalculations.createdAt))
+    .limit(1);
+  return latest ?? null;
+}
+
+const pctChange = (scenario: number, base: number) => (base !== 0 ? ((scenario - base) / Math.abs(base)) * 100 : null);
+
+/**
+ * Run a what-if on the model's cash flows and store it as a scenario
+ * comparison covering the model's life
+ */
+export async function runModelScenario(
+  modelId: number,
+  scenario: { name: string; overrides: ScenarioOverrides; discountRates?: number[] },
+  userId?: number | null
+) {
+  const { db, model, metrics, years } = await loadModel(modelId);
+  const assumptions = assumptionsFromMetrics(metrics);
+  const discountRates = ratesFor(metrics, scenario.discountRates);
+
+  const base = computeModelMetrics(years, assumptions, discountRates);
+  const applied = applyScenario(years, assumptions, scenario.overrides);
+  const result = computeModelMetrics(applied.years, applied.assumptions, discountRates);
+
+  const startYear = years[0].calendarYear ?? (model.modelDate ?? model.createdAt).getUTCFullYear();
+  const endYear = years[years.length - 1].calendarYear ?? startYear + years.length - 1;
+
+  const [inserted] = await db.insert(financialModelComparisons).values({
+    projectId: model.projectId,
+    financialModelId: modelId,
+    comparisonDate: new Date(),
+    periodStart: new Date(Date.UTC(startYear, 0, 1)),
+    periodEnd: new Date(Date.UTC(endYear, 11, 31)),
+    periodType: "annual",
+    comparisonType: "scenario",
+    scenarioName: scenario.name.slice(0, 100),
+    scenarioOverrides: scenario.overrides,
+    scenarioMetrics: { base, scenario: result },
+    projectedRevenue: result.totalRevenue.toFixed(2),
+    projectedOpex: result.totalOpex.toFixed(2),
+    projectedEbitda: result.totalEbitda.toFixed(2),
+    projectedProduction: result.totalProductionMwh?.toFixed(2) ?? null,
+    revenueVariance: (result.totalRevenue - base.totalRevenue).toFixed(2),
+    revenueVariancePercent: pctChange(result.totalRevenue, base.totalRevenue)?.toFixed(4) ?? null,
+    opexVariance: (result.totalOpex - base.totalOpex).toFixed(2),
+    opexVariancePercent: pctChange(result.totalOpex, base.totalOpex)?.toFixed(4) ?? null,
+    ebitdaVariance: (result.totalEbitda - base.totalEbitda).toFixed(2),
+    ebitdaVariancePercent: pctChange(result.totalEbitda, base.totalEbitda)?.toFixed(4) ?? null,
+    productionVariance: result.totalProductionMwh !== null && base.totalProductionMwh !== null
+      ? (result.totalProductionMwh - base.totalProductionMwh).toFixed(2)
+      : null,
+    productionVariancePercent: result.totalProductionMwh !== null && base.totalProductionMwh
+      ? pctChange(result.totalProductionMwh, base.totalProductionMwh)?.toFixed(4) ?? null
+      : null,
+    createdBy: userId ?? null,
+  });
+
+  return { comparisonId: Number(inserted.insertId), name: scenario.name, overrides: scenario.overrides, base, scenario: result };
+}
+
+export async function listModelScenarios(modelId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select()
+    .from(financialModelComparisons)
+    .where(and(
+      eq(financialModelComparisons.financialModelId, modelId),
+      eq(financialModelComparisons.comparisonType, "scenario")
+    ))
+    .orderBy(desc(financialModelComparisons.createdAt));
+}
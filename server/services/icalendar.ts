@@ -0,0 +1,181 @@
+/**
+ * iCalendar (RFC 5545) helpers
+ *
+ * Formatting and a small VEVENT parser shared by the ICS feed, the CalDAV
+ * endpoint and the CalDAV calendar adapter. Only the properties calendar
+ * sync needs are interpreted; everything else is kept as raw text.
+ */
+
+import { zonedTimeToUtc, isValidTimezone } from "./cronExpression";
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: Date | null;
+  end: Date | null;
+  allDay: boolean;
+  status?: string;
+  lastModified?: Date;
+  sequence: number;
+  recurrence: string[];
+  // Raw values by property name (last one wins), e.g. X-KIISHA-OBLIGATION-ID
+  properties: Record<string, string>;
+}
+
+export function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\n/g, "\\n");
+}
+
+export function unescapeICalText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+/** Fold content lines longer than 75 octets (RFC 5545 §3.1) */
+export function foldICalLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  for (const char of Array.from(line)) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function unfold(ics: string): string[] {
+  return ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/).filter(line => line.length > 0);
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "\"") inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** Parse a DATE or DATE-TIME value; floating times are read as UTC */
+export function parseICalDate(value: string, params: Record<string, string> = {}): { date: Date; allDay: boolean } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, z] = match;
+  if (h === undefined || params.VALUE === "DATE") {
+    return { date: new Date(Date.UTC(+y, +mo - 1, +d)), allDay: true };
+  }
+  const local = { year: +y, month: +mo, day: +d, hour: +h, minute: +mi, second: +s };
+  if (!z && params.TZID && isValidTimezone(params.TZID)) {
+    return { date: zonedTimeToUtc(local, params.TZID), allDay: false };
+  }
+  return { date: new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second)), allDay: false };
+}
+
+/**
+ * Master VEVENTs of an iCalendar object. Overridden instances (with a
+ * RECURRENCE-ID) are skipped.
+ */
+export function parseICalEvents(ics: string): ICalEvent[] {
+  const events: ICalEvent[] = [];
+  let current: ICalEvent | null = null;
+  let isOverride = false;
+  let depth = 0;
+
+  for (const line of unfold(ics)) {
+    const content = parseContentLine(line);
+    if (!content) continue;
+    const { name, params, value } = content;
+
+    if (name === "BEGIN") {
+      if (value.toUpperCase() === "VEVENT" && depth === 0) {
+        current = { uid: "", summary: "", start: null, end: null, allDay: false, sequence: 0, recurrence: [], properties: {} };
+        isOverride = false;
+      } else if (current) {
+        depth++; // e.g. VALARM inside the event
+      }
+      continue;
+    }
+    if (name === "END") {
+      if (depth > 0) depth--;
+      else if (current && value.toUpperCase() === "VEVENT") {
+        if (!isOverride) events.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || depth > 0) continue;
+
+    current.properties[name] = value;
+    switch (name) {
+      case "UID":
+        current.uid = value;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeICalText(value);
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeICalText(value);
+        break;
+      case "DTSTART": {
+        const parsed = parseICalDate(value, params);
+        current.start = parsed?.date ?? null;
+        current.allDay = parsed?.allDay ?? false;
+        break;
+      }
+      case "DTEND":
+        current.end = parseICalDate(value, params)?.date ?? null;
+        break;
+      case "STATUS":
+        current.status = value.toUpperCase();
+        break;
+      case "LAST-MODIFIED":
+        current.lastModified = parseICalDate(value, params)?.date;
+        break;
+      case "SEQUENCE":
+        current.sequence = parseInt(value, 10) || 0;
+        break;
+      case "RRULE":
+      case "EXDATE":
+      case "RDATE":
+        current.recurrence.push(line);
+        break;
+      case "RECURRENCE-ID":
+        isOverride = true;
+        break;
+    }
+  }
+
+  return events;
+}
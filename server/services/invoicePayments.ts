@@ -0,0 +1,102 @@
+/**
+ * Invoice Payments
+ *
+ * Records a payment against an invoice: the payments row, the invoice's paid
+ * amount, balance and status, the ledger entry and the FX snapshot. Used by
+ * manual payment entry and by bank statement reconciliation, which books
+ * several payments in one transaction through bookInvoicePayment.
+ */
+
+import { eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { Payment, invoices, payments } from "../../drizzle/schema";
+import { invoiceLedgerBalance, recordLedgerEntry } from "./creditNotes";
+import { snapshotPaymentFx } from "./currency";
+
+export interface InvoicePaymentInput {
+  amount: number; // cents
+  paymentMethod: NonNullable<Payment["paymentMethod"]>;
+  referenceNumber?: string | null;
+  paymentDate: Date;
+  notes?: string | null;
+  recordedBy?: number | null;
+}
+
+export interface InvoicePaymentResult {
+  paymentId: number;
+  balanceDue: number;
+  status: string;
+  realizedFxGainLoss: number | null;
+}
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type DbTransaction = Parameters<Parameters<Db["transaction"]>[0]>[0];
+
+/**
+ * Book a payment inside the caller's transaction, against the invoice row
+ * locked for the update. The FX snapshot reads the committed payment, so
+ * callers take it with snapshotPaymentFx after the transaction commits.
+ */
+export async function bookInvoicePayment(
+  tx: DbTransaction,
+  invoiceId: number,
+  input: InvoicePaymentInput
+): Promise<Omit<InvoicePaymentResult, "realizedFxGainLoss"> | null> {
+  const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for("update");
+  if (!invoice) return null;
+
+  const [result] = await tx.insert(payments).values({
+    organizationId: invoice.organizationId,
+    invoiceId,
+    customerId: invoice.customerId,
+    amount: input.amount,
+    currency: invoice.currency,
+    paymentMethod: input.paymentMethod,
+    referenceNumber: input.referenceNumber ?? null,
+    status: "succeeded",
+    paymentDate: input.paymentDate,
+    processedAt: new Date(),
+    notes: input.notes ?? null,
+    recordedBy: input.recordedBy ?? null,
+  });
+  const paymentId = Number(result.insertId);
+
+  const paidAmount = (invoice.paidAmount || 0) + input.amount;
+  const balance = invoiceLedgerBalance({
+    totalAmount: invoice.totalAmount,
+    withholdingAmount: invoice.withholdingAmount || 0,
+    paidAmount,
+    creditedAmount: invoice.creditedAmount || 0,
+  });
+  const status = balance <= 0 ? "paid" : paidAmount > 0 ? "partial" : invoice.status;
+
+  await tx.update(invoices)
+    .set({
+      paidAmount,
+      balanceDue: Math.max(0, balance),
+      status,
+      paidDate: balance <= 0 ? new Date() : null,
+    })
+    .where(eq(invoices.id, invoiceId));
+
+  await recordLedgerEntry(tx, invoice, {
+    entryType: "payment",
+    amount: -input.amount,
+    balanceAfter: balance,
+    paymentId,
+    memo: input.referenceNumber ? `${input.paymentMethod} ${input.referenceNumber}` : input.paymentMethod,
+    createdBy: input.recordedBy ?? null,
+  });
+
+  return { paymentId, balanceDue: Math.max(0, balance), status };
+}
+
+export async function recordInvoicePayment(invoiceId: number, input: InvoicePaymentInput): Promise<InvoicePaymentResult | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const booked = await db.transaction(tx => bookInvoicePayment(tx, invoiceId, input));
+  if (!booked) return null;
+  const fx = await snapshotPaymentFx(booked.paymentId);
+  return { ...booked, realizedFxGainLoss: fx?.realizedFxGainLoss ?? null };
+}
@@ -8,6 +8,8 @@
 import { getDb } from '../db';
 import { invoices, invoiceLineItems, customers, organizations } from '../../drizzle/schema';
 import { eq } from 'drizzle-orm';
+import { formatMoney } from './currency';
+import { TaxBreakdownRow, getInvoiceTaxBreakdown } from './taxEngine';
 
 // PDF generation using built-in capabilities
 interface InvoiceData {
@@ -15,6 +17,7 @@ interface InvoiceData {
   invoiceDate: Date;
   dueDate: Date;
   status: string;
+  currency: string;
   
   // Company details
   companyName: string;
@@ -43,6 +46,9 @@ interface InvoiceData {
   // Totals
   subtotal: number;
   taxAmount: number;
+  taxBreakdown: TaxBreakdownRow[];
+  withholdingAmount: number;
+  creditedAmount: number;
   total: number;
   amountPaid: number;
   amountDue: number;
@@ -59,12 +65,15 @@ interface InvoiceData {
  * Generate HTML content for invoice PDF
  */
 function generateInvoiceHtml(data: InvoiceData): string {
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount / 100); // Convert cents to dollars
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, data.currency);
+  const taxLabel = (t: TaxBreakdownRow) =>
+    `${t.name} (${t.rate}% on ${formatCurrency(t.taxableAmount)})`;
+  // Exempt, zero-rated and reverse-charge supplies carry their legal wording
+  const taxNotes = data.taxBreakdown
+    .filter(t => t.kind === 'exempt' || t.kind === 'zero_rated' || t.kind === 'reverse_charge')
+    .map(t => t.legalNote || (t.kind === 'reverse_charge'
+      ? `Reverse charge: ${t.taxName} of ${formatCurrency(t.selfAssessedAmount)} to be accounted for by the customer.`
+      : `${t.name}: ${formatCurrency(t.taxableAmount)} ${t.kind === 'exempt' ? 'exempt from' : 'zero-rated for'} ${t.taxName}.`));
   
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-US', {
@@ -484,7 +493,12 @@ function generateInvoiceHtml(data: InvoiceData): string {
           <span class="totals-label">Subtotal</span>
           <span class="totals-value">${formatCurrency(data.subtotal)}</span>
         </div>
-        ${data.taxAmount > 0 ? `
+        ${data.taxBreakdown.length > 0 ? data.taxBreakdown.filter(t => t.kind !== 'withholding').map(t => `
+          <div class="totals-row">
+            <span class="totals-label">${taxLabel(t)}</span>
+            <span class="totals-value">${formatCurrency(t.taxAmount)}</span>
+          </div>
+        `).join('') : data.taxAmount > 0 ? `
           <div class="totals-row">
             <span class="totals-label">Tax</span>
             <span class="totals-value">${formatCurrency(data.taxAmount)}</span>
@@ -494,6 +508,18 @@ function generateInvoiceHtml(data: InvoiceData): string {
           <span class="totals-label">Total</span>
           <span class="totals-value">${formatCurrency(data.total)}</span>
         </div>
+        ${data.taxBreakdown.filter(t => t.kind === 'withholding').map(t => `
+          <div class="totals-row">
+            <span class="totals-label">Less ${taxLabel(t)}</span>
+            <span class="totals-value">${formatCurrency(t.taxAmount)}</span>
+          </div>
+        `).join('')}
+        ${data.creditedAmount > 0 ? `
+          <div class="totals-row">
+            <span class="totals-label">Credit Notes</span>
+            <span class="totals-value">-${formatCurrency(data.creditedAmount)}</span>
+          </div>
+        ` : ''}
         ${data.amountPaid > 0 ? `
           <div class="totals-row">
             <span class="totals-label">Amount Paid</span>
@@ -507,6 +533,14 @@ function generateInvoiceHtml(data: InvoiceData): string {
       </div>
     </div>
     
+    <!-- Tax Notes -->
+    ${taxNotes.length > 0 ? `
+      <div class="notes-section">
+        <div class="notes-title">Tax</div>
+        ${taxNotes.map(note => `<div class="notes-content">${note}</div>`).join('')}
+      </div>
+    ` : ''}
+    
     <!-- Payment Information -->
     ${(data.bankName || data.bankAccount) ? `
       <div class="payment-section">
@@ -625,13 +659,17 @@ export async function getInvoiceData(invoiceId: number, customerId: number): Pro
   }, 0);
   const total = invoice.totalAmount || subtotal + taxAmount;
   const amountPaid = invoice.paidAmount || 0;
-  const amountDue = total - amountPaid;
+  const withholdingAmount = invoice.withholdingAmount || 0;
+  const creditedAmount = invoice.creditedAmount || 0;
+  const amountDue = Math.max(0, total - withholdingAmount - creditedAmount - amountPaid);
+  const taxBreakdown = await getInvoiceTaxBreakdown(invoiceId);
   
   return {
     invoiceNumber: invoice.invoiceNumber || `INV-${invoice.id.toString().padStart(6, '0')}`,
     invoiceDate: invoice.invoiceDate || new Date(),
     dueDate: invoice.dueDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
     status: invoice.status || 'pending',
+    currency: invoice.currency || customer.currency || 'USD',
     
     companyName,
     companyAddress,
@@ -655,7 +693,10 @@ export async function getInvoiceData(invoiceId: number, customerId: number): Pro
     })),
     
     subtotal,
-    taxAmount,
+    taxAmount: taxBreakdown.length > 0 ? invoice.taxAmount || 0 : taxAmount,
+    taxBreakdown,
+    withholdingAmount,
+    creditedAmount,
     total,
     amountPaid,
     amountDue,
@@ -13,10 +13,13 @@ import {
   projects,
   artifacts,
   vatrRecords,
-  clientAccounts
+  clientAccounts,
+  creditNotes,
+  creditNoteLines
 } from "../../drizzle/schema";
 import { eq, and, desc } from "drizzle-orm";
 import { storagePut, storageGet } from "../storage";
+import { formatMoney } from "./currency";
 import crypto from "crypto";
 
 /**
@@ -339,6 +342,286 @@ function generateInvoiceHtml(data: InvoicePdfData): string {
   `;
 }
 
+/**
+ * Credit note data for PDF generation
+ */
+interface CreditNotePdfData {
+  creditNote: {
+    creditNoteNumber: string;
+    issueDate: Date | null;
+    reason: string;
+    reasonNote: string | null;
+    currency: string;
+    subtotal: number;
+    taxAmount: number;
+    withholdingAmount: number;
+    totalAmount: number;
+    appliedAmount: number;
+    refundedAmount: number;
+    carriedForwardAmount: number;
+  };
+  invoice: {
+    invoiceNumber: string;
+    issueDate: Date | null;
+  };
+  replacementInvoiceNumber: string | null;
+  customer: {
+    name: string;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    country: string | null;
+    postalCode: string | null;
+    taxId: string | null;
+  } | null;
+  lines: {
+    description: string;
+    quantity: string | null;
+    amount: number;
+    taxAmount: number;
+  }[];
+}
+
+/**
+ * Get credit note data for PDF generation; null for drafts, which have no number yet
+ */
+export async function getCreditNotePdfData(creditNoteId: number): Promise<CreditNotePdfData | null> {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const [note] = await db
+    .select()
+    .from(creditNotes)
+    .where(eq(creditNotes.id, creditNoteId))
+    .limit(1);
+  
+  if (!note || !note.creditNoteNumber) return null;
+  
+  const [invoice] = await db
+    .select()
+    .from(invoices)
+    .where(eq(invoices.id, note.invoiceId))
+    .limit(1);
+  if (!invoice) return null;
+  
+  let replacementInvoiceNumber: string | null = null;
+  if (note.replacementInvoiceId) {
+    const [replacement] = await db
+      .select({ invoiceNumber: invoices.invoiceNumber })
+      .from(invoices)
+      .where(eq(invoices.id, note.replacementInvoiceId))
+      .limit(1);
+    replacementInvoiceNumber = replacement?.invoiceNumber ?? null;
+  }
+  
+  const [cust] = await db
+    .select()
+    .from(customers)
+    .where(eq(customers.id, note.customerId))
+    .limit(1);
+  
+  const lines = await db
+    .select()
+    .from(creditNoteLines)
+    .where(eq(creditNoteLines.creditNoteId, creditNoteId))
+    .orderBy(creditNoteLines.sortOrder);
+  
+  return {
+    creditNote: {
+      creditNoteNumber: note.creditNoteNumber,
+      issueDate: note.issueDate,
+      reason: note.reason,
+      reasonNote: note.reasonNote,
+      currency: note.currency,
+      subtotal: note.subtotal,
+      taxAmount: note.taxAmount,
+      withholdingAmount: note.withholdingAmount,
+      totalAmount: note.totalAmount,
+      appliedAmount: note.appliedAmount,
+      refundedAmount: note.refundedAmount,
+      carriedForwardAmount: note.carriedForwardAmount,
+    },
+    invoice: {
+      invoiceNumber: invoice.invoiceNumber,
+      issueDate: invoice.issueDate,
+    },
+    replacementInvoiceNumber,
+    customer: cust ? {
+      name: cust.name,
+      address: cust.address,
+      city: cust.city,
+      state: cust.state,
+      country: cust.country,
+      postalCode: cust.postalCode,
+      taxId: cust.taxId,
+    } : null,
+    lines: lines.map(line => ({
+      description: line.description,
+      quantity: line.quantity,
+      amount: line.amount,
+      taxAmount: line.taxAmount,
+    })),
+  };
+}
+
+/**
+ * Generate HTML content for credit note PDF
+ */
+function generateCreditNoteHtml(data: CreditNotePdfData): string {
+  const { creditNote, invoice, customer, lines } = data;
+  const formatCurrency = (amount: number) => formatMoney(amount, creditNote.currency);
+  const formatDate = (date: Date | null) => {
+    if (!date) return 'N/A';
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+  const settlement = [
+    creditNote.appliedAmount > 0 ? `Applied to invoice ${invoice.invoiceNumber}: ${formatCurrency(creditNote.appliedAmount)}` : '',
+    creditNote.refundedAmount > 0 ? `Refunded: ${formatCurrency(creditNote.refundedAmount)}` : '',
+    creditNote.carriedForwardAmount > 0 ? `Carried to invoice ${data.replacementInvoiceNumber}: ${formatCurrency(creditNote.carriedForwardAmount)}` : '',
+  ].filter(Boolean);
+  
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Credit Note ${creditNote.creditNoteNumber}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Helvetica Neue', Arial, sans-serif; font-size: 12px; color: #333; line-height: 1.5; }
+    .invoice { max-width: 800px; margin: 0 auto; padding: 40px; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 40px; }
+    .logo { font-size: 24px; font-weight: bold; color: #2563eb; }
+    .invoice-title { text-align: right; }
+    .invoice-title h1 { font-size: 32px; color: #1f2937; margin-bottom: 8px; }
+    .invoice-number { font-size: 14px; color: #6b7280; }
+    .details { display: flex; justify-content: space-between; margin-bottom: 40px; }
+    .bill-to, .invoice-info { width: 45%; }
+    .section-title { font-size: 10px; text-transform: uppercase; color: #6b7280; margin-bottom: 8px; letter-spacing: 0.5px; }
+    .company-name { font-size: 16px; font-weight: 600; margin-bottom: 4px; }
+    .address { color: #4b5563; }
+    .info-row { display: flex; justify-content: space-between; margin-bottom: 4px; }
+    .info-label { color: #6b7280; }
+    .info-value { font-weight: 500; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 40px; }
+    th { background: #f9fafb; padding: 12px; text-align: left; font-size: 10px; text-transform: uppercase; color: #6b7280; letter-spacing: 0.5px; border-bottom: 2px solid #e5e7eb; }
+    td { padding: 16px 12px; border-bottom: 1px solid #e5e7eb; }
+    .text-right { text-align: right; }
+    .totals { margin-left: auto; width: 280px; }
+    .total-row { display: flex; justify-content: space-between; padding: 8px 0; }
+    .total-row.grand-total { border-top: 2px solid #1f2937; padding-top: 12px; margin-top: 8px; font-size: 16px; font-weight: 600; }
+    .notes { margin-top: 40px; padding: 20px; background: #f9fafb; border-radius: 8px; }
+    .notes-title { font-weight: 600; margin-bottom: 8px; }
+    .notes-content { color: #4b5563; }
+    .footer { margin-top: 60px; text-align: center; color: #9ca3af; font-size: 10px; }
+  </style>
+</head>
+<body>
+  <div class="invoice">
+    <div class="header">
+      <div class="logo">KIISHA</div>
+      <div class="invoice-title">
+        <h1>CREDIT NOTE</h1>
+        <div class="invoice-number">${creditNote.creditNoteNumber}</div>
+      </div>
+    </div>
+    
+    <div class="details">
+      <div class="bill-to">
+        <div class="section-title">Credit To</div>
+        <div class="company-name">${customer?.name || 'N/A'}</div>
+        <div class="address">
+          ${customer?.address || ''}<br>
+          ${[customer?.city, customer?.state, customer?.postalCode].filter(Boolean).join(', ')}<br>
+          ${customer?.country || ''}
+        </div>
+        ${customer?.taxId ? `<div style="margin-top: 8px;">Tax ID: ${customer.taxId}</div>` : ''}
+      </div>
+      <div class="invoice-info">
+        <div class="section-title">Credit Note Details</div>
+        <div class="info-row">
+          <span class="info-label">Issue Date:</span>
+          <span class="info-value">${formatDate(creditNote.issueDate)}</span>
+        </div>
+        <div class="info-row">
+          <span class="info-label">Original Invoice:</span>
+          <span class="info-value">${invoice.invoiceNumber} (${formatDate(invoice.issueDate)})</span>
+        </div>
+        <div class="info-row">
+          <span class="info-label">Reason:</span>
+          <span class="info-value">${creditNote.reason.replace('_', ' ')}</span>
+        </div>
+      </div>
+    </div>
+    
+    <table>
+      <thead>
+        <tr>
+          <th>Description</th>
+          <th class="text-right">Qty</th>
+          <th class="text-right">Tax</th>
+          <th class="text-right">Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${lines.map(line => `
+        <tr>
+          <td>${line.description}</td>
+          <td class="text-right">${line.quantity || ''}</td>
+          <td class="text-right">${formatCurrency(line.taxAmount)}</td>
+          <td class="text-right">${formatCurrency(line.amount)}</td>
+        </tr>
+        `).join('')}
+      </tbody>
+    </table>
+    
+    <div class="totals">
+      <div class="total-row">
+        <span>Subtotal</span>
+        <span>${formatCurrency(creditNote.subtotal)}</span>
+      </div>
+      <div class="total-row">
+        <span>Tax</span>
+        <span>${formatCurrency(creditNote.taxAmount)}</span>
+      </div>
+      ${creditNote.withholdingAmount > 0 ? `
+      <div class="total-row">
+        <span>Less withholding tax</span>
+        <span>-${formatCurrency(creditNote.withholdingAmount)}</span>
+      </div>
+      ` : ''}
+      <div class="total-row grand-total">
+        <span>Total Credit</span>
+        <span>${formatCurrency(creditNote.totalAmount - creditNote.withholdingAmount)}</span>
+      </div>
+    </div>
+    
+    ${creditNote.reasonNote || settlement.length > 0 ? `
+    <div class="notes">
+      ${creditNote.reasonNote ? `
+      <div class="notes-title">Notes</div>
+      <div class="notes-content">${creditNote.reasonNote}</div>
+      ` : ''}
+      ${settlement.length > 0 ? `
+      <div class="notes-title" style="margin-top: 16px;">Settlement</div>
+      ${settlement.map(line => `<div class="notes-content">${line}</div>`).join('')}
+      ` : ''}
+    </div>
+    ` : ''}
+    
+    <div class="footer">
+      Generated by KIISHA • Credit Note ${creditNote.creditNoteNumber} against Invoice ${invoice.invoiceNumber}
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
 /**
  * Generate PDF from HTML using puppeteer (if available) or return HTML
  */
@@ -499,3 +782,26 @@ export async function getInvoicePdfUrl(
   // In production, generate a signed URL with TTL
   return artifact.sourceUrl;
 }
+
+/**
+ * Generate and store a credit note PDF, returning its URL
+ */
+export async function generateCreditNotePdf(creditNoteId: number): Promise<{ url: string } | null> {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const data = await getCreditNotePdfData(creditNoteId);
+  if (!data) return null;
+  
+  const pdfBuffer = await generatePdfBuffer(generateCreditNoteHtml(data));
+  const hash = crypto.createHash('md5').update(pdfBuffer).digest('hex').substring(0, 8);
+  const fileKey = `credit-notes/${data.creditNote.creditNoteNumber}-${hash}.html`;
+  
+  const { url } = await storagePut(fileKey, pdfBuffer, 'text/html');
+  
+  await db.update(creditNotes)
+    .set({ pdfUrl: url, pdfGeneratedAt: new Date() })
+    .where(eq(creditNotes.id, creditNoteId));
+  
+  return { url };
+}
@@ -197,6 +197,12 @@ registerProcessor("document_ingestion", async (payload) => {
     linkedEntityType: "document",
     linkedEntityId: documentId,
   });
+
+  // Refresh the tenant-scoped semantic index with any newly extracted text
+  if (documentId) {
+    const { semanticSearchService } = await import('./vectorSearch');
+    await semanticSearchService.indexDocument(documentId);
+  }
   
   return { processed: true, fileUploadId, documentId };
 });
@@ -333,3 +339,21 @@ registerProcessor("webhook_delivery", async (payload) => {
   }
   return { delivered: true, url, method, statusCode: response.status };
 });
+
+// Monte Carlo simulation processor
+registerProcessor("monte_carlo_simulation", async (payload) => {
+  const { simulationId } = payload as { simulationId: number };
+
+  console.log(`[Simulation] Running Monte Carlo simulation ${simulationId}`);
+  const { runSimulationJob } = await import('./monteCarlo');
+  return runSimulationJob(simulationId);
+});
+
+// Contract obligation extraction processor
+registerProcessor("contract_extraction", async (payload) => {
+  const { contractId, amendmentId } = payload as { contractId: number; amendmentId?: number | null };
+
+  console.log(`[Contracts] Extracting obligations from contract ${contractId}${amendmentId ? ` (amendment ${amendmentId})` : ""}`);
+  const { runContractExtractionJob } = await import('./contractExtraction');
+  return runContractExtractionJob({ contractId, amendmentId });
+});
@@ -0,0 +1,174 @@
+/**
+ * Measurement Ingestion
+ *
+ * Shared write path for connector telemetry (Modbus, Sparkplug B):
+ * - Resolves or creates metricDefinitions by code per organization
+ * - Writes rawMeasurements
+ * - Folds numeric samples into the device's minute bucket in
+ *   normalizedMeasurements, with dataLineage from raw to normalized
+ */
+
+import { and, eq, isNull, or } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  dataLineage,
+  metricDefinitions,
+  normalizedMeasurements,
+  rawMeasurements,
+} from "../../drizzle/schema";
+
+export interface MeasurementTarget {
+  deviceId: number;
+  siteId: number;
+  organizationId: number;
+  connectorId?: number | null;
+}
+
+export interface MeasurementSample {
+  metricCode: string;
+  name: string;
+  unit?: string;
+  value: number | string | boolean | null;
+  timestamp: Date;
+}
+
+/** activePower -> active_power, "Inverter/AC Power" -> inverter_ac_power */
+export function toMetricCode(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^a-zA-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase()
+    .substring(0, 100);
+}
+
+const UNIT_CATEGORIES: Record<string, "power" | "energy" | "voltage" | "current" | "frequency" | "temperature"> = {
+  W: "power", kW: "power", MW: "power", VAR: "power", kVAR: "power",
+  Wh: "energy", kWh: "energy", MWh: "energy",
+  V: "voltage", A: "current", Hz: "frequency", "°C": "temperature",
+};
+
+const metricIdCache = new Map<string, number>();
+
+async function getOrCreateMetricId(organizationId: number, sample: MeasurementSample): Promise<number | null> {
+  const cacheKey = `${organizationId}:${sample.metricCode}`;
+  const cached = metricIdCache.get(cacheKey);
+  if (cached) return cached;
+
+  const db = await getDb();
+  if (!db) return null;
+
+  const [existing] = await db
+    .select({ id: metricDefinitions.id })
+    .from(metricDefinitions)
+    .where(and(
+      eq(metricDefinitions.code, sample.metricCode),
+      or(eq(metricDefinitions.organizationId, organizationId), isNull(metricDefinitions.organizationId))
+    ))
+    .limit(1);
+
+  let metricId = existing?.id;
+  if (!metricId) {
+    const [result] = await db.insert(metricDefinitions).values({
+      organizationId,
+      name: sample.name,
+      code: sample.metricCode,
+      unit: sample.unit,
+      dataType: typeof sample.value === "number" ? "number" : typeof sample.value === "boolean" ? "boolean" : "string",
+      category: (sample.unit && UNIT_CATEGORIES[sample.unit]) || "status",
+      isStandard: false,
+    });
+    metricId = (result as any).insertId as number;
+  }
+
+  metricIdCache.set(cacheKey, metricId);
+  return metricId;
+}
+
+function minuteBucket(timestamp: Date): { periodStart: Date; periodEnd: Date } {
+  const periodStart = new Date(Math.floor(timestamp.getTime() / 60_000) * 60_000);
+  return { periodStart, periodEnd: new Date(periodStart.getTime() + 60_000) };
+}
+
+/**
+ * Persist samples for one device. Null values are skipped.
+ */
+export async function writeMeasurements(target: MeasurementTarget, samples: MeasurementSample[]): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  for (const sample of samples) {
+    if (sample.value === null) continue;
+    const metricId = await getOrCreateMetricId(target.organizationId, sample);
+    if (!metricId) continue;
+
+    const numeric = typeof sample.value === "number"
+      ? sample.value
+      : typeof sample.value === "boolean" ? (sample.value ? 1 : 0) : null;
+
+    const [raw] = await db.insert(rawMeasurements).values({
+      deviceId: target.deviceId,
+      metricId,
+      timestamp: sample.timestamp,
+      valueNumeric: numeric !== null && Number.isFinite(numeric) ? String(numeric) : null,
+      valueString: typeof sample.value === "string" ? sample.value.substring(0, 255) : null,
+      quality: numeric !== null && !Number.isFinite(numeric) ? "bad" : "good",
+      sourceConnectorId: target.connectorId ?? null,
+    });
+    const rawId = (raw as any).insertId as number;
+
+    if (numeric === null || !Number.isFinite(numeric)) continue;
+
+    const { periodStart, periodEnd } = minuteBucket(sample.timestamp);
+    const [bucket] = await db
+      .select()
+      .from(normalizedMeasurements)
+      .where(and(
+        eq(normalizedMeasurements.deviceId, target.deviceId),
+        eq(normalizedMeasurements.metricId, metricId),
+        eq(normalizedMeasurements.periodType, "minute"),
+        eq(normalizedMeasurements.periodStart, periodStart)
+      ))
+      .limit(1);
+
+    let normalizedId: number;
+    if (bucket) {
+      const count = bucket.sampleCount || 0;
+      const sum = Number(bucket.valueSum || 0) + numeric;
+      await db.update(normalizedMeasurements)
+        .set({
+          valueAvg: String(sum / (count + 1)),
+          valueMin: String(Math.min(Number(bucket.valueMin ?? numeric), numeric)),
+          valueMax: String(Math.max(Number(bucket.valueMax ?? numeric), numeric)),
+          valueSum: String(sum),
+          sampleCount: count + 1,
+        })
+        .where(eq(normalizedMeasurements.id, bucket.id));
+      normalizedId = bucket.id;
+    } else {
+      const [inserted] = await db.insert(normalizedMeasurements).values({
+        siteId: target.siteId,
+        deviceId: target.deviceId,
+        metricId,
+        periodStart,
+        periodEnd,
+        periodType: "minute",
+        valueAvg: String(numeric),
+        valueMin: String(numeric),
+        valueMax: String(numeric),
+        valueSum: String(numeric),
+        sampleCount: 1,
+        dataQuality: "1.00",
+      });
+      normalizedId = (inserted as any).insertId as number;
+    }
+
+    await db.insert(dataLineage).values({
+      targetTable: "normalizedMeasurements",
+      targetId: normalizedId,
+      sourceTable: "rawMeasurements",
+      sourceId: rawId,
+      transformationType: "normalization",
+    });
+  }
+}
@@ -0,0 +1,505 @@
+/**
+ * Modbus Polling Service
+ *
+ * Polls Modbus TCP devices on a per-device interval and persists readings:
+ * - Register maps from modbusRegisterMaps, layered on the built-in maps
+ * - Word/byte order and SunSpec-style scale factor registers
+ * - rawMeasurements -> normalizedMeasurements (minute) with dataLineage
+ * - Exponential backoff on connection errors
+ * - Per-device health in the same shape as connector status objects
+ */
+
+import { and, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { devices, modbusDeviceConfigs, modbusRegisterMaps } from "../../drizzle/schema";
+import {
+  ModbusTcpClient,
+  ModbusConnectionStatus,
+  ModbusRegister,
+  ModbusRegisterMap,
+  INVERTER_REGISTER_MAPS,
+  applyScaleFactor,
+  isBuiltInRegisterMap,
+} from "../connectors/modbus";
+import { MeasurementSample, toMetricCode, writeMeasurements } from "./measurementIngestion";
+
+export { toMetricCode };
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ModbusPollTarget {
+  deviceId: number;
+  siteId: number;
+  organizationId: number;
+  connectorId?: number | null;
+  host: string;
+  port: number;
+  unitId: number;
+  timeoutMs: number;
+  pollIntervalSeconds: number;
+  registers: ModbusRegisterMap;
+}
+
+export interface ModbusSample extends MeasurementSample {
+  key: string;
+  value: number | string | boolean;
+  rawValue: number[];
+}
+
+export interface ModbusDeviceHealth extends ModbusConnectionStatus {
+  deviceId: number;
+  host: string;
+  port: number;
+  unitId: number;
+  lastPollAt?: Date;
+  lastSuccessAt?: Date;
+  nextPollAt?: Date;
+  consecutiveFailures: number;
+  registersRead: number;
+  registersFailed: number;
+}
+
+/**
+ * Destination for polled samples. The default writes to the telemetry
+ * tables; tests pass an in-memory sink.
+ */
+export interface MeasurementSink {
+  writeSamples(target: ModbusPollTarget, samples: ModbusSample[]): Promise<void>;
+  recordHealth?(target: ModbusPollTarget, health: ModbusDeviceHealth): Promise<void>;
+}
+
+export interface ModbusPollerOptions {
+  sink?: MeasurementSink;
+  loadTargets?: () => Promise<ModbusPollTarget[]>;
+  refreshIntervalMs?: number;
+  maxBackoffMs?: number;
+  // Failures before the device is reported offline
+  offlineAfterFailures?: number;
+}
+
+const DEFAULT_REFRESH_INTERVAL_MS = 60_000;
+const DEFAULT_MAX_BACKOFF_MS = 15 * 60_000;
+const DEFAULT_OFFLINE_AFTER_FAILURES = 3;
+
+// ============================================================================
+// Register Map Helpers
+// ============================================================================
+
+/**
+ * Merge an org register map over a built-in base map. Org entries replace
+ * base entries with the same key; default word/byte order is applied to
+ * registers that don't set their own.
+ */
+export function resolveRegisterMap(
+  baseMap: string | null | undefined,
+  overrides: ModbusRegisterMap | null | undefined,
+  defaults: { wordOrder?: "big" | "little"; byteOrder?: "big" | "little" } = {}
+): ModbusRegisterMap {
+  const base: ModbusRegisterMap = baseMap && isBuiltInRegisterMap(baseMap)
+    ? { ...INVERTER_REGISTER_MAPS[baseMap] }
+    : {};
+  const merged: ModbusRegisterMap = { ...base, ...(overrides || {}) };
+
+  const resolved: ModbusRegisterMap = {};
+  for (const [key, register] of Object.entries(merged)) {
+    resolved[key] = {
+      ...register,
+      wordOrder: register.wordOrder ?? defaults.wordOrder,
+      byteOrder: register.byteOrder ?? defaults.byteOrder,
+    };
+  }
+  return resolved;
+}
+
+/**
+ * Delay before the next poll: the configured interval while healthy,
+ * doubling per consecutive failure up to maxBackoffMs.
+ */
+export function computeBackoffMs(intervalMs: number, consecutiveFailures: number, maxBackoffMs = DEFAULT_MAX_BACKOFF_MS): number {
+  if (consecutiveFailures <= 0) return intervalMs;
+  const delay = intervalMs * Math.pow(2, Math.min(consecutiveFailures, 20));
+  return Math.min(Math.max(delay, intervalMs), Math.max(maxBackoffMs, intervalMs));
+}
+
+// ============================================================================
+// Poller
+// ============================================================================
+
+export class ModbusPoller {
+  private sink: MeasurementSink;
+  private loadTargets: () => Promise<ModbusPollTarget[]>;
+  private refreshIntervalMs: number;
+  private maxBackoffMs: number;
+  private offlineAfterFailures: number;
+
+  private targets = new Map<number, ModbusPollTarget>();
+  private timers = new Map<number, NodeJS.Timeout>();
+  private clients = new Map<string, ModbusTcpClient>();
+  private health = new Map<number, ModbusDeviceHealth>();
+  private inFlight = new Set<number>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(options: ModbusPollerOptions = {}) {
+    this.sink = options.sink || dbMeasurementSink;
+    this.loadTargets = options.loadTargets || loadModbusTargets;
+    this.refreshIntervalMs = options.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS;
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+    this.offlineAfterFailures = options.offlineAfterFailures ?? DEFAULT_OFFLINE_AFTER_FAILURES;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    console.log("[ModbusPoller] Starting");
+    await this.refresh();
+    this.scheduleRefresh();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    for (const timer of Array.from(this.timers.values())) clearTimeout(timer);
+    this.timers.clear();
+    for (const client of Array.from(this.clients.values())) client.disconnect();
+    this.clients.clear();
+    this.targets.clear();
+    console.log("[ModbusPoller] Stopped");
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Reload device configs, scheduling new devices and dropping removed ones
+   */
+  async refresh(): Promise<void> {
+    let loaded: ModbusPollTarget[];
+    try {
+      loaded = await this.loadTargets();
+    } catch (error) {
+      console.error("[ModbusPoller] Failed to load device configs:", error);
+      return;
+    }
+
+    const seen = new Set<number>();
+    for (const target of loaded) {
+      seen.add(target.deviceId);
+      const previous = this.targets.get(target.deviceId);
+      this.targets.set(target.deviceId, target);
+
+      if (previous && clientKey(previous) !== clientKey(target)) {
+        this.releaseClient(previous);
+      }
+      if (!this.timers.has(target.deviceId) && !this.inFlight.has(target.deviceId)) {
+        this.schedulePoll(target.deviceId, 0);
+      }
+    }
+
+    for (const deviceId of Array.from(this.targets.keys())) {
+      if (seen.has(deviceId)) continue;
+      const target = this.targets.get(deviceId)!;
+      const timer = this.timers.get(deviceId);
+      if (timer) clearTimeout(timer);
+      this.timers.delete(deviceId);
+      this.targets.delete(deviceId);
+      this.health.delete(deviceId);
+      this.releaseClient(target);
+    }
+  }
+
+  getDeviceHealth(deviceId: number): ModbusDeviceHealth | undefined {
+    const health = this.health.get(deviceId);
+    return health ? { ...health } : undefined;
+  }
+
+  getAllHealth(): ModbusDeviceHealth[] {
+    return Array.from(this.health.values()).map(h => ({ ...h }));
+  }
+
+  /**
+   * Poll one device immediately. Used by the scheduler and by the
+   * "poll now" endpoint; does not reschedule.
+   */
+  async pollDevice(target: ModbusPollTarget): Promise<ModbusDeviceHealth> {
+    const health = this.getOrCreateHealth(target);
+    const client = this.getClient(target);
+    const now = new Date();
+    health.lastPollAt = now;
+
+    try {
+      await client.connect();
+
+      const samples: ModbusSample[] = [];
+      const rawNumeric = new Map<string, number>();
+      let failed = 0;
+      let connectionError: Error | null = null;
+
+      for (const [key, register] of Object.entries(target.registers)) {
+        try {
+          const result = await client.readRegister(register);
+          if (typeof result.value === "number") rawNumeric.set(key, result.value);
+          samples.push({
+            key,
+            metricCode: register.metricCode || toMetricCode(key),
+            name: register.name,
+            unit: register.unit,
+            value: result.value,
+            rawValue: result.rawValue,
+            timestamp: result.timestamp,
+          });
+        } catch (error) {
+          failed++;
+          const message = error instanceof Error ? error.message : String(error);
+          // Exception responses are per-register; anything else means the link is down
+          if (!message.startsWith("Modbus exception")) {
+            connectionError = error instanceof Error ? error : new Error(message);
+            break;
+          }
+          health.lastError = `${key}: ${message}`;
+        }
+      }
+
+      if (connectionError || samples.length === 0) {
+        throw connectionError || new Error(health.lastError || "No registers could be read");
+      }
+
+      const scaleFactorKeys = new Set(
+        Object.values(target.registers)
+          .map(r => r.scaleFactorRegister)
+          .filter((k): k is string => !!k)
+      );
+      const output = samples
+        .filter(s => !scaleFactorKeys.has(s.key))
+        .map(s => {
+          const sfKey = target.registers[s.key].scaleFactorRegister;
+          if (sfKey && typeof s.value === "number") {
+            const sf = rawNumeric.get(sfKey);
+            if (sf !== undefined) return { ...s, value: applyScaleFactor(s.value, sf) };
+          }
+          return s;
+        });
+
+      await this.sink.writeSamples(target, output);
+
+      health.connected = true;
+      health.lastConnected = health.lastConnected || now;
+      health.lastSuccessAt = now;
+      health.consecutiveFailures = 0;
+      health.reconnectAttempts = 0;
+      health.registersRead = samples.length;
+      health.registersFailed = failed;
+      if (failed === 0) health.lastError = undefined;
+    } catch (error) {
+      health.connected = false;
+      health.consecutiveFailures++;
+      health.reconnectAttempts++;
+      health.registersRead = 0;
+      health.lastError = error instanceof Error ? error.message : String(error);
+      // Force a fresh socket on the next attempt
+      this.releaseClient(target);
+    }
+
+    if (this.sink.recordHealth) {
+      await this.sink.recordHealth(target, { ...health }).catch(err =>
+        console.error(`[ModbusPoller] Failed to record health for device ${target.deviceId}:`, err)
+      );
+    }
+
+    return { ...health };
+  }
+
+  private schedulePoll(deviceId: number, delayMs: number): void {
+    if (!this.running) return;
+    const health = this.health.get(deviceId);
+    if (health) health.nextPollAt = new Date(Date.now() + delayMs);
+
+    const timer = setTimeout(async () => {
+      this.timers.delete(deviceId);
+      const target = this.targets.get(deviceId);
+      if (!target || !this.running) return;
+
+      this.inFlight.add(deviceId);
+      let result: ModbusDeviceHealth;
+      try {
+        result = await this.pollDevice(target);
+      } finally {
+        this.inFlight.delete(deviceId);
+      }
+
+      if (result.consecutiveFailures === this.offlineAfterFailures) {
+        console.warn(`[ModbusPoller] Device ${deviceId} offline after ${result.consecutiveFailures} failures: ${result.lastError}`);
+      }
+
+      // Target may have been removed or changed while polling
+      const current = this.targets.get(deviceId);
+      if (current && this.running) {
+        const delay = computeBackoffMs(current.pollIntervalSeconds * 1000, result.consecutiveFailures, this.maxBackoffMs);
+        this.schedulePoll(deviceId, delay);
+      }
+    }, delayMs);
+    timer.unref?.();
+    this.timers.set(deviceId, timer);
+  }
+
+  private scheduleRefresh(): void {
+    if (!this.running) return;
+    this.refreshTimer = setTimeout(async () => {
+      await this.refresh();
+      this.scheduleRefresh();
+    }, this.refreshIntervalMs);
+    this.refreshTimer.unref?.();
+  }
+
+  private getOrCreateHealth(target: ModbusPollTarget): ModbusDeviceHealth {
+    let health = this.health.get(target.deviceId);
+    if (!health) {
+      health = {
+        deviceId: target.deviceId,
+        host: target.host,
+        port: target.port,
+        unitId: target.unitId,
+        connected: false,
+        reconnectAttempts: 0,
+        consecutiveFailures: 0,
+        registersRead: 0,
+        registersFailed: 0,
+      };
+      this.health.set(target.deviceId, health);
+    }
+    health.host = target.host;
+    health.port = target.port;
+    health.unitId = target.unitId;
+    return health;
+  }
+
+  private getClient(target: ModbusPollTarget): ModbusTcpClient {
+    const key = clientKey(target);
+    let client = this.clients.get(key);
+    if (!client) {
+      client = new ModbusTcpClient({
+        host: target.host,
+        port: target.port,
+        unitId: target.unitId,
+        timeout: target.timeoutMs,
+        // Backoff is handled here, not by the client
+        autoReconnect: false,
+      });
+      // Errors surface through rejected reads; keep EventEmitter from throwing
+      client.on("error", () => {});
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  private releaseClient(target: ModbusPollTarget): void {
+    const key = clientKey(target);
+    const client = this.clients.get(key);
+    if (!client) return;
+    client.disconnect();
+    this.clients.delete(key);
+  }
+}
+
+function clientKey(target: Pick<ModbusPollTarget, "host" | "port" | "unitId">): string {
+  return `${target.host}:${target.port}:${target.unitId}`;
+}
+
+// ============================================================================
+// Database Integration
+// ============================================================================
+
+/**
+ * Load enabled device configs with their resolved register maps
+ */
+export async function loadModbusTargets(): Promise<ModbusPollTarget[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({
+      config: modbusDeviceConfigs,
+      siteId: devices.siteId,
+      connectorId: devices.connectorId,
+      map: modbusRegisterMaps,
+    })
+    .from(modbusDeviceConfigs)
+    .innerJoin(devices, eq(devices.id, modbusDeviceConfigs.deviceId))
+    .leftJoin(modbusRegisterMaps, and(
+      eq(modbusRegisterMaps.id, modbusDeviceConfigs.registerMapId),
+      eq(modbusRegisterMaps.isActive, true)
+    ))
+    .where(eq(modbusDeviceConfigs.enabled, true));
+
+  const targets: ModbusPollTarget[] = [];
+  for (const row of rows) {
+    const registers = row.map
+      ? resolveRegisterMap(row.map.baseMap, row.map.registers as ModbusRegisterMap, {
+          wordOrder: row.map.defaultWordOrder,
+          byteOrder: row.map.defaultByteOrder,
+        })
+      : resolveRegisterMap(row.config.builtInMap, null);
+
+    if (Object.keys(registers).length === 0) {
+      console.warn(`[ModbusPoller] Device ${row.config.deviceId} has no register map, skipping`);
+      continue;
+    }
+
+    targets.push({
+      deviceId: row.config.deviceId,
+      siteId: row.siteId,
+      organizationId: row.config.organizationId,
+      connectorId: row.connectorId,
+      host: row.config.host,
+      port: row.config.port,
+      unitId: row.config.unitId,
+      timeoutMs: row.config.timeoutMs,
+      pollIntervalSeconds: Math.max(1, row.config.pollIntervalSeconds),
+      registers,
+    });
+  }
+  return targets;
+}
+
+/**
+ * Default sink: the shared measurement write path plus health persisted
+ * on the device config.
+ */
+export const dbMeasurementSink: MeasurementSink = {
+  async writeSamples(target, samples) {
+    await writeMeasurements(target, samples);
+  },
+
+  async recordHealth(target, health) {
+    const db = await getDb();
+    if (!db) return;
+
+    await db.update(modbusDeviceConfigs)
+      .set({
+        lastPollAt: health.lastPollAt,
+        lastSuccessAt: health.lastSuccessAt,
+        consecutiveFailures: health.consecutiveFailures,
+        lastError: health.lastError ?? null,
+      })
+      .where(eq(modbusDeviceConfigs.deviceId, target.deviceId));
+
+    if (health.consecutiveFailures === 0) {
+      await db.update(devices)
+        .set({ status: "online", lastSeenAt: health.lastSuccessAt })
+        .where(eq(devices.id, target.deviceId));
+    } else if (health.consecutiveFailures >= DEFAULT_OFFLINE_AFTER_FAILURES) {
+      await db.update(devices)
+        .set({ status: "offline" })
+        .where(eq(devices.id, target.deviceId));
+    }
+  },
+};
+
+export const modbusPoller = new ModbusPoller();
+export default modbusPoller;
@@ -0,0 +1,442 @@
+/**
+ * Monte Carlo Risk Analysis
+ *
+ * Samples a financial model's cash-flow drivers (production, tariff, opex,
+ * availability, FX) from user-defined distributions and recomputes IRR, NPV
+ * and DSCR for each iteration with the same engine as recalculation.
+ *
+ * - Each distribution is over a multiplier on the modelled figure (1 = base)
+ * - Correlations are applied with a Gaussian copula: correlated standard
+ *   normals (Cholesky) are mapped through each driver's distribution
+ * - Drivers are drawn once per iteration, or afresh each year when
+ *   `sampling` is 'annual' (year-to-year resource variability)
+ * - P90 follows the energy convention: the value exceeded in 90% of
+ *   iterations, i.e. the 10th percentile
+ *
+ * Runs are queued as 'monte_carlo_simulation' jobs; the random stream is
+ * seeded so a stored run can be reproduced.
+ */
+
+import { and, desc, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  FinancialModelSimulation,
+  SimulationCorrelation,
+  SimulationDistribution,
+  SimulationDriver,
+  SimulationDriverKind,
+  SimulationMetricSummary,
+  SimulationResults,
+  financialModelSimulations,
+} from "../../drizzle/schema";
+import {
+  DEFAULT_DISCOUNT_RATE,
+  ModelAssumptions,
+  ModelYear,
+  assumptionsFromMetrics,
+  computeModelMetrics,
+  loadModel,
+} from "./financialModelEngine";
+import { enqueueJob } from "./jobQueue";
+
+export class SimulationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SimulationError";
+  }
+}
+
+export const SIMULATION_LIMITS = {
+  minIterations: 100,
+  maxIterations: 20_000,
+  defaultIterations: 2_000,
+  histogramBins: 20,
+};
+
+// z-score of the 90% exceedance level of a normal distribution
+const Z_P90 = 1.2815515655446004;
+
+type ResolvedDistribution = Exclude<SimulationDistribution, { type: "p50_p90" }>;
+
+interface ResolvedDriver {
+  driver: SimulationDriverKind;
+  distribution: ResolvedDistribution;
+  sampling: "lifetime" | "annual";
+}
+
+// ============================================================================
+// Random numbers and distributions
+// ============================================================================
+
+/** Seeded uniform generator (mulberry32) */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw by Box-Muller */
+function standardNormal(rng: () => number): number {
+  let u = 0;
+  while (u === 0) u = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7) */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Map a standard normal draw to a multiplier from the distribution; never negative */
+export function sampleDistribution(distribution: ResolvedDistribution, z: number): number {
+  switch (distribution.type) {
+    case "normal":
+      return Math.max(0, distribution.mean + distribution.stdDev * z);
+    case "lognormal": {
+      const variance = Math.log(1 + Math.pow(distribution.stdDev / distribution.mean, 2));
+      return Math.exp(Math.log(distribution.mean) - variance / 2 + Math.sqrt(variance) * z);
+    }
+    case "uniform":
+      return distribution.min + (distribution.max - distribution.min) * normalCdf(z);
+    case "triangular": {
+      const { min, mode, max } = distribution;
+      const u = normalCdf(z);
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+  }
+}
+
+/** Lower-triangular L with L·Lᵀ = matrix; rejects matrices that aren't positive definite */
+export function choleskyFactor(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        if (sum <= 1e-12) throw new SimulationError("Correlations are inconsistent (the matrix is not positive definite)");
+        lower[i][j] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+function resolveDistribution(driver: SimulationDriver, assumptions: ModelAssumptions): ResolvedDistribution {
+  const d = driver.distribution;
+  const invalid = (reason: string) => new SimulationError(`${driver.driver}: ${reason}`);
+
+  switch (d.type) {
+    case "p50_p90": {
+      const { p50Production: p50, p90Production: p90 } = assumptions;
+      if (!p50 || !p90) throw invalid("the model has no P50/P90 production figures");
+      if (p90 >= p50) throw invalid("P90 production must be below P50");
+      return { type: "normal", mean: 1, stdDev: (1 - p90 / p50) / Z_P90 };
+    }
+    case "normal":
+      if (d.mean <= 0 || d.stdDev < 0) throw invalid("normal needs a positive mean and a non-negative standard deviation");
+      return d;
+    case "lognormal":
+      if (d.mean <= 0 || d.stdDev < 0) throw invalid("lognormal needs a positive mean and a non-negative standard deviation");
+      return d;
+    case "uniform":
+      if (d.min < 0 || d.max <= d.min) throw invalid("uniform needs 0 <= min < max");
+      return d;
+    case "triangular":
+      if (d.min < 0 || d.max <= d.min || d.mode < d.min || d.mode > d.max) throw invalid("triangular needs 0 <= min <= mode <= max and min < max");
+      return d;
+  }
+}
+
+/**
+ * Check drivers and correlations against the model and factor the
+ * correlation matrix. Drivers not named in a correlation are independent.
+ */
+export function prepareSimulation(
+  drivers: SimulationDriver[],
+  correlations: SimulationCorrelation[],
+  assumptions: ModelAssumptions
+): { drivers: ResolvedDriver[]; cholesky: number[][] } {
+  if (drivers.length === 0) throw new SimulationError("Add at least one driver to simulate");
+  const kinds = drivers.map(d => d.driver);
+  const duplicate = kinds.find((kind, i) => kinds.indexOf(kind) !== i);
+  if (duplicate) throw new SimulationError(`${duplicate} is configured twice`);
+
+  const matrix: number[][] = kinds.map((_, i) => kinds.map((__, j) => (i === j ? 1 : 0)));
+  for (const c of correlations) {
+    const i = kinds.indexOf(c.a);
+    const j = kinds.indexOf(c.b);
+    if (i < 0 || j < 0) throw new SimulationError(`Correlation ${c.a}/${c.b} refers to a driver that isn't configured`);
+    if (i === j) throw new SimulationError(`Correlation ${c.a}/${c.b} must name two different drivers`);
+    if (c.rho < -1 || c.rho > 1) throw new SimulationError(`Correlation ${c.a}/${c.b} must be between -1 and 1`);
+    matrix[i][j] = c.rho;
+    matrix[j][i] = c.rho;
+  }
+
+  return {
+    drivers: drivers.map(d => ({ driver: d.driver, distribution: resolveDistribution(d, assumptions), sampling: d.sampling ?? "lifetime" })),
+    cholesky: choleskyFactor(matrix),
+  };
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+type DriverFactors = Record<SimulationDriverKind, number>;
+
+const NEUTRAL: DriverFactors = { production: 1, tariff: 1, opex: 1, availability: 1, fx: 1 };
+
+/**
+ * Apply per-year driver multipliers. FX scales the local-currency lines
+ * (revenue and opex) while debt service stays in the model currency; tax
+ * follows EBITDA when the tax rate is known, as in scenarios.
+ */
+export function applyDriverFactors(years: ModelYear[], assumptions: ModelAssumptions, factors: DriverFactors[]): ModelYear[] {
+  return years.map((y, i) => {
+    const f = factors[i] ?? NEUTRAL;
+    const output = f.production * f.availability;
+    const revenue = y.revenue * f.tariff * output * f.fx;
+    const opex = y.opex * f.opex * f.fx;
+    const ebitda = revenue - opex;
+    const tax = assumptions.taxRate !== null && y.tax !== 0
+      ? Math.max(0, y.tax + assumptions.taxRate * (ebitda - y.ebitda))
+      : y.tax;
+    return {
+      ...y,
+      revenue,
+      opex,
+      ebitda,
+      tax,
+      productionMwh: y.productionMwh === null ? null : y.productionMwh * output,
+      statedDscr: null,
+      statedEbitda: null,
+      statedEquityCashFlow: null,
+    };
+  });
+}
+
+function correlatedNormals(rng: () => number, cholesky: number[][]): number[] {
+  const independent = cholesky.map(() => standardNormal(rng));
+  return cholesky.map(row => row.reduce((sum, weight, k) => sum + weight * independent[k], 0));
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/** Mean, spread, exceedance percentiles and an equal-width histogram */
+export function summarizeValues(values: number[], bins = SIMULATION_LIMITS.histogramBins): SimulationMetricSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((s, v) => s + v, 0) / sorted.length;
+  const variance = sorted.reduce((s, v) => s + (v - mean) * (v - mean), 0) / sorted.length;
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / bins;
+  const histogram = width === 0
+    ? [{ from: min, to: max, count: sorted.length }]
+    : Array.from({ length: bins }, (_, b) => ({ from: min + b * width, to: b === bins - 1 ? max : min + (b + 1) * width, count: 0 }));
+  if (width > 0) {
+    for (const v of sorted) histogram[Math.min(bins - 1, Math.floor((v - min) / width))].count++;
+  }
+
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    p10: quantile(sorted, 0.9),
+    p50: quantile(sorted, 0.5),
+    p90: quantile(sorted, 0.1),
+    histogram,
+  };
+}
+
+export interface SimulationConfig {
+  drivers: SimulationDriver[];
+  correlations?: SimulationCorrelation[];
+  iterations: number;
+  seed: number;
+  discountRate: number;
+  dscrCovenant?: number | null;
+}
+
+export function runSimulation(years: ModelYear[], assumptions: ModelAssumptions, config: SimulationConfig): SimulationResults {
+  if (years.length === 0) throw new SimulationError("The model has no cash flows to simulate");
+  const { drivers, cholesky } = prepareSimulation(config.drivers, config.correlations ?? [], assumptions);
+  const rng = createRng(config.seed);
+  const rates = [config.discountRate];
+
+  const base = computeModelMetrics(years, assumptions, rates);
+  const samples = { projectIrr: [] as number[], equityIrr: [] as number[], projectNpv: [] as number[], minDscr: [] as number[] };
+  let breaches = 0;
+  let undefinedIrrCount = 0;
+
+  for (let n = 0; n < config.iterations; n++) {
+    const lifetime = correlatedNormals(rng, cholesky);
+    const factors = years.map(() => {
+      const annual = correlatedNormals(rng, cholesky);
+      const f: DriverFactors = { ...NEUTRAL };
+      drivers.forEach((d, i) => {
+        f[d.driver] = sampleDistribution(d.distribution, d.sampling === "annual" ? annual[i] : lifetime[i]);
+      });
+      return f;
+    });
+
+    const metrics = computeModelMetrics(applyDriverFactors(years, assumptions, factors), assumptions, rates);
+    if (metrics.projectIrr === null) undefinedIrrCount++;
+    else samples.projectIrr.push(metrics.projectIrr);
+    if (metrics.equityIrr !== null) samples.equityIrr.push(metrics.equityIrr);
+    if (metrics.projectNpv !== null) samples.projectNpv.push(metrics.projectNpv);
+    if (metrics.minDscr !== null) {
+      samples.minDscr.push(metrics.minDscr);
+      if (config.dscrCovenant != null && metrics.minDscr < config.dscrCovenant) breaches++;
+    }
+  }
+
+  const summaries: SimulationResults["metrics"] = {};
+  for (const [metric, values] of Object.entries(samples) as Array<[keyof typeof samples, number[]]>) {
+    if (values.length > 0) summaries[metric] = summarizeValues(values);
+  }
+
+  return {
+    iterations: config.iterations,
+    base: { projectIrr: base.projectIrr, equityIrr: base.equityIrr, projectNpv: base.projectNpv, minDscr: base.minDscr },
+    metrics: summaries,
+    dscrCovenant: config.dscrCovenant ?? null,
+    dscrBreachProbability: config.dscrCovenant != null && samples.minDscr.length > 0 ? breaches / samples.minDscr.length : null,
+    undefinedIrrCount,
+  };
+}
+
+// ============================================================================
+// Persistence and jobs
+// ============================================================================
+
+const num = (value: string | null | undefined): number | null =>
+  value === null || value === undefined || value === "" ? null : Number(value);
+
+/** Validate the request against the model, store it and queue the run */
+export async function queueSimulation(
+  modelId: number,
+  request: {
+    name: string;
+    drivers: SimulationDriver[];
+    correlations?: SimulationCorrelation[];
+    iterations?: number;
+    seed?: number;
+    discountRate?: number;
+    dscrCovenant?: number;
+  },
+  userId?: number | null
+) {
+  const { db, metrics, years } = await loadModel(modelId);
+  if (years.length === 0) throw new SimulationError("The model has no cash flows to simulate");
+  prepareSimulation(request.drivers, request.correlations ?? [], assumptionsFromMetrics(metrics));
+
+  const iterations = request.iterations ?? SIMULATION_LIMITS.defaultIterations;
+  if (iterations < SIMULATION_LIMITS.minIterations || iterations > SIMULATION_LIMITS.maxIterations) {
+    throw new SimulationError(`Iterations must be between ${SIMULATION_LIMITS.minIterations} and ${SIMULATION_LIMITS.maxIterations}`);
+  }
+  const discountRate = request.discountRate ?? num(metrics?.discountRate) ?? DEFAULT_DISCOUNT_RATE;
+  const seed = request.seed ?? Math.floor(Math.random() * 2_147_483_647);
+
+  const [inserted] = await db.insert(financialModelSimulations).values({
+    financialModelId: modelId,
+    name: request.name.slice(0, 100),
+    iterations,
+    seed,
+    drivers: request.drivers,
+    correlations: request.correlations ?? [],
+    discountRate: discountRate.toFixed(4),
+    dscrCovenant: request.dscrCovenant?.toFixed(2) ?? null,
+    requestedBy: userId ?? null,
+  });
+  const simulationId = Number(inserted.insertId);
+
+  const { jobId, correlationId } = await enqueueJob("monte_carlo_simulation", { simulationId }, {
+    userId: userId ?? undefined,
+    correlationId: `simulation_${simulationId}`,
+  });
+  await db.update(financialModelSimulations).set({ jobId }).where(eq(financialModelSimulations.id, simulationId));
+
+  return { simulationId, jobId, correlationId, iterations, seed };
+}
+
+/**
+ * Job processor body. Configuration errors fail the run for good; anything
+ * else is rethrown so the queue retries it.
+ */
+export async function runSimulationJob(simulationId: number): Promise<Record<string, unknown>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [simulation] = await db.select().from(financialModelSimulations).where(eq(financialModelSimulations.id, simulationId)).limit(1);
+  if (!simulation) return { simulationId, status: "missing" };
+
+  await db.update(financialModelSimulations)
+    .set({ status: "running", startedAt: new Date(), error: null })
+    .where(eq(financialModelSimulations.id, simulationId));
+
+  try {
+    const { metrics, years } = await loadModel(simulation.financialModelId);
+    const results = runSimulation(years, assumptionsFromMetrics(metrics), {
+      drivers: simulation.drivers,
+      correlations: simulation.correlations ?? [],
+      iterations: simulation.iterations,
+      seed: simulation.seed,
+      discountRate: num(simulation.discountRate) ?? DEFAULT_DISCOUNT_RATE,
+      dscrCovenant: num(simulation.dscrCovenant),
+    });
+
+    await db.update(financialModelSimulations)
+      .set({ status: "completed", results, completedAt: new Date() })
+      .where(eq(financialModelSimulations.id, simulationId));
+    return { simulationId, status: "completed", dscrBreachProbability: results.dscrBreachProbability };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await db.update(financialModelSimulations)
+      .set({ status: "failed", error: message, completedAt: new Date() })
+      .where(eq(financialModelSimulations.id, simulationId));
+    if (error instanceof SimulationError) return { simulationId, status: "failed", error: message };
+    throw error;
+  }
+}
+
+export async function getSimulation(simulationId: number): Promise<FinancialModelSimulation | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const [simulation] = await db.select().from(financialModelSimulations).where(eq(financialModelSimulations.id, simulationId)).limit(1);
+  return simulation ?? null;
+}
+
+export async function listModelSimulations(modelId: number, options: { completedOnly?: boolean } = {}) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select()
+    .from(financialModelSimulations)
+    .where(options.completedOnly
+      ? and(eq(financialModelSimulations.financialModelId, modelId), eq(financialModelSimulations.status, "completed"))
+      : eq(financialModelSimulations.financialModelId, modelId))
+    .orderBy(desc(financialModelSimulations.createdAt));
+}
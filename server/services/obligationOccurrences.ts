@@ -0,0 +1,248 @@
+/**
+ * Obligation Occurrences
+ *
+ * Expands recurring obligations into individual occurrences so quarterly
+ * reports and monthly certificates are tracked, reminded and escalated one
+ * instance at a time. Occurrences are computed from the series' RRULE
+ * (DTSTART = the obligation's due date, on the obligation's timezone) and
+ * merged with the stored state of instances that were completed, skipped,
+ * rescheduled or reassigned. Non-recurring obligations expand to a single
+ * occurrence with no occurrenceAt.
+ */
+
+import {
+  getObligationsDueSoon,
+  getOverdueObligations,
+  getRecurringObligations,
+  getObligationOccurrences,
+  getObligationOccurrence,
+  upsertObligationOccurrence
+} from "../db";
+import { expandRecurrence, isOccurrence, RecurrenceParseError } from "./recurrenceRule";
+import type { Obligation, ObligationOccurrence, InsertObligationOccurrence } from "../../drizzle/schema";
+
+export class OccurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OccurrenceError";
+  }
+}
+
+export type OccurrenceAssignees = NonNullable<ObligationOccurrence["assignees"]>;
+
+/** An obligation as it applies to one occurrence */
+export type ObligationInstance = Obligation & {
+  isRecurring: boolean;
+  occurrenceId: number | null;
+  occurrenceAt: Date | null;
+  exceptionType: ObligationOccurrence["exceptionType"];
+  exceptionReason: string | null;
+  notes: string | null;
+  occurrenceAssignees: OccurrenceAssignees | null;
+};
+
+export interface OccurrenceRange {
+  from: Date;
+  to: Date;
+}
+
+export const ACTIVE_STATUSES: Obligation["status"][] = ["OPEN", "IN_PROGRESS", "BLOCKED", "WAITING_REVIEW"];
+
+// How far back overdue occurrences of a recurring obligation are looked for
+export const OVERDUE_LOOKBACK_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isRecurring(obligation: Pick<Obligation, "recurrenceRule" | "dueAt">): boolean {
+  return Boolean(obligation.recurrenceRule?.trim() && obligation.dueAt);
+}
+
+function singleInstance(obligation: Obligation): ObligationInstance {
+  return {
+    ...obligation,
+    isRecurring: false,
+    occurrenceId: null,
+    occurrenceAt: null,
+    exceptionType: null,
+    exceptionReason: null,
+    notes: null,
+    occurrenceAssignees: null
+  };
+}
+
+function inRange(date: Date, range: OccurrenceRange): boolean {
+  return date.getTime() >= range.from.getTime() && date.getTime() <= range.to.getTime();
+}
+
+/**
+ * Occurrences of an obligation due within `range`, merged with their stored
+ * state. `stored` should hold the obligation's stored occurrences generated
+ * or due within the range; rows whose instant the rule no longer generates
+ * are ignored. A rescheduled occurrence appears at its new due date.
+ */
+export function expandObligation(
+  obligation: Obligation,
+  range: OccurrenceRange,
+  stored: ObligationOccurrence[] = []
+): ObligationInstance[] {
+  if (!isRecurring(obligation)) {
+    return obligation.dueAt && inRange(obligation.dueAt, range) ? [singleInstance(obligation)] : [];
+  }
+
+  const timezone = obligation.timezone || "UTC";
+  let instants: Date[];
+  try {
+    instants = expandRecurrence(obligation.recurrenceRule!, obligation.dueAt!, { timezone, from: range.from, to: range.to });
+  } catch (error) {
+    if (!(error instanceof RecurrenceParseError)) throw error;
+    // Rules saved before validation existed fall back to the single due date
+    console.warn(`[ObligationOccurrences] Invalid recurrence rule on obligation ${obligation.id}: ${error.message}`);
+    return obligation.dueAt && inRange(obligation.dueAt, range) ? [singleInstance(obligation)] : [];
+  }
+
+  const storedByInstant = new Map<number, ObligationOccurrence>();
+  for (const row of stored) {
+    if (row.obligationId === obligation.id) storedByInstant.set(row.occurrenceAt.getTime(), row);
+  }
+
+  const generated = new Set(instants.map(d => d.getTime()));
+  // Occurrences rescheduled into the range from outside it
+  for (const row of Array.from(storedByInstant.values())) {
+    const t = row.occurrenceAt.getTime();
+    if (!generated.has(t) && !inRange(row.occurrenceAt, range)
+      && isOccurrence(obligation.recurrenceRule!, obligation.dueAt!, row.occurrenceAt, timezone)) {
+      generated.add(t);
+    }
+  }
+
+  // A closed series leaves its untouched occurrences closed too
+  const seriesClosed = obligation.status === "COMPLETED" || obligation.status === "CANCELLED";
+
+  return Array.from(generated)
+    .map((t): ObligationInstance => {
+      const occurrenceAt = new Date(t);
+      const row = storedByInstant.get(t);
+      return {
+        ...obligation,
+        dueAt: row?.dueAt ?? occurrenceAt,
+        status: row?.status ?? (seriesClosed ? obligation.status : "OPEN"),
+        completedAt: row ? row.completedAt : null,
+        completedByUserId: row ? row.completedByUserId : null,
+        isRecurring: true,
+        occurrenceId: row?.id ?? null,
+        occurrenceAt,
+        exceptionType: row?.exceptionType ?? null,
+        exceptionReason: row?.exceptionReason ?? null,
+        notes: row?.notes ?? null,
+        occurrenceAssignees: row?.assignees ?? null
+      };
+    })
+    .filter(instance => inRange(instance.dueAt!, range))
+    .sort((a, b) => a.dueAt!.getTime() - b.dueAt!.getTime());
+}
+
+/**
+ * Expand obligations within a range, loading the stored state of their
+ * recurring occurrences
+ */
+export async function expandObligations(
+  obligations: Obligation[],
+  organizationId: number,
+  range: OccurrenceRange
+): Promise<ObligationInstance[]> {
+  const recurringIds = obligations.filter(isRecurring).map(o => o.id);
+  const stored = await getObligationOccurrences(recurringIds, organizationId, range);
+
+  return obligations
+    .flatMap(obligation => expandObligation(obligation, range, stored))
+    .sort((a, b) => a.dueAt!.getTime() - b.dueAt!.getTime());
+}
+
+/**
+ * Active occurrences due in the next `daysAhead` days
+ */
+export async function getOccurrencesDueSoon(
+  organizationId: number,
+  daysAhead: number = 7
+): Promise<ObligationInstance[]> {
+  const now = new Date();
+  const range = { from: now, to: new Date(now.getTime() + daysAhead * DAY_MS) };
+
+  const [dueSoon, recurring] = await Promise.all([
+    getObligationsDueSoon(organizationId, daysAhead),
+    getRecurringObligations(organizationId, range.to)
+  ]);
+  const instances = await expandObligations(
+    [...dueSoon.filter(o => !isRecurring(o)), ...recurring],
+    organizationId,
+    range
+  );
+
+  return instances.filter(instance => ACTIVE_STATUSES.includes(instance.status));
+}
+
+/**
+ * Active occurrences past their due date
+ */
+export async function getOverdueOccurrences(organizationId: number): Promise<ObligationInstance[]> {
+  const now = new Date();
+  const range = { from: new Date(now.getTime() - OVERDUE_LOOKBACK_DAYS * DAY_MS), to: new Date(now.getTime() - 1) };
+
+  const [overdue, recurring] = await Promise.all([
+    getOverdueObligations(organizationId),
+    getRecurringObligations(organizationId, range.to)
+  ]);
+  const recurringInstances = await expandObligations(recurring, organizationId, range);
+
+  return [...overdue.filter(o => !isRecurring(o)).map(singleInstance), ...recurringInstances]
+    .filter(instance => ACTIVE_STATUSES.includes(instance.status))
+    .sort((a, b) => a.dueAt!.getTime() - b.dueAt!.getTime());
+}
+
+/**
+ * Occurrences of a single obligation within a range, including completed,
+ * skipped and rescheduled ones
+ */
+export async function listOccurrences(obligation: Obligation, range: OccurrenceRange): Promise<ObligationInstance[]> {
+  return await expandObligations([obligation], obligation.organizationId, range);
+}
+
+/**
+ * Store state for one occurrence of a recurring obligation, creating its row
+ * on first change
+ */
+export async function saveOccurrence(
+  obligation: Obligation,
+  occurrenceAt: Date,
+  updates: Partial<InsertObligationOccurrence>
+): Promise<ObligationOccurrence> {
+  if (!isRecurring(obligation)) {
+    throw new OccurrenceError("Obligation is not recurring");
+  }
+  const timezone = obligation.timezone || "UTC";
+  const existing = await getObligationOccurrence(obligation.id, occurrenceAt, obligation.organizationId);
+  if (!existing && !isOccurrence(obligation.recurrenceRule!, obligation.dueAt!, occurrenceAt, timezone)) {
+    throw new OccurrenceError(`${occurrenceAt.toISOString()} is not an occurrence of this obligation`);
+  }
+
+  const occurrence = await upsertObligationOccurrence({
+    organizationId: obligation.organizationId,
+    obligationId: obligation.id,
+    occurrenceAt,
+    dueAt: occurrenceAt
+  }, updates);
+  if (!occurrence) throw new Error("Database not available");
+  return occurrence;
+}
+
+/**
+ * Status change for an occurrence, recording who completed it
+ */
+export function occurrenceStatusUpdate(
+  status: Obligation["status"],
+  userId?: number
+): Partial<InsertObligationOccurrence> {
+  return status === "COMPLETED"
+    ? { status, completedAt: new Date(), completedByUserId: userId ?? null }
+    : { status, completedAt: null, completedByUserId: null };
+}
@@ -0,0 +1,632 @@
+/**
+ * PDF Watermarking
+ *
+ * Stamps text onto every page of an existing PDF as an incremental update:
+ * the original bytes are kept as they are, and new versions of the page
+ * objects are appended with a watermark content stream and the font and
+ * transparency resources it needs. Object streams and cross-reference
+ * streams are read, so PDFs written by current tools work; encrypted PDFs are
+ * refused.
+ *
+ * The watermark is a large diagonal stamp across the middle of the page and a
+ * one-line footer, both drawn upright relative to the page's /Rotate.
+ */
+
+import zlib from "zlib";
+
+export class PdfWatermarkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PdfWatermarkError";
+  }
+}
+
+// ============================================================================
+// Objects
+// ============================================================================
+
+interface PdfName { kind: "name"; raw: string } // As written, without the slash
+interface PdfRef { kind: "ref"; num: number; gen: number }
+interface PdfString { kind: "string"; raw: string } // As written, with delimiters
+interface PdfDict { kind: "dict"; entries: Map<string, PdfValue> }
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfString | PdfDict | PdfValue[];
+
+interface PdfObject {
+  num: number;
+  gen: number;
+  value: PdfValue;
+  stream?: string; // Raw (still encoded) stream data
+}
+
+const WHITESPACE = "\0\t\n\f\r ";
+const DELIMITERS = "()<>[]{}/%";
+
+const name = (raw: string): PdfName => ({ kind: "name", raw });
+const ref = (num: number, gen = 0): PdfRef => ({ kind: "ref", num, gen });
+const dict = (entries: Array<[string, PdfValue]>): PdfDict => ({ kind: "dict", entries: new Map(entries) });
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "dict";
+}
+
+function isRef(value: PdfValue | undefined): value is PdfRef {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "ref";
+}
+
+function isName(value: PdfValue | undefined, raw?: string): value is PdfName {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "name"
+    && (raw === undefined || value.raw === raw);
+}
+
+class Parser {
+  constructor(private readonly src: string, public pos: number) {}
+
+  skipWhitespace() {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (WHITESPACE.includes(ch)) {
+        this.pos++;
+      } else if (ch === "%") {
+        while (this.pos < this.src.length && this.src[this.pos] !== "\n" && this.src[this.pos] !== "\r") this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  peekKeyword(keyword: string): boolean {
+    this.skipWhitespace();
+    if (!this.src.startsWith(keyword, this.pos)) return false;
+    const next = this.src[this.pos + keyword.length];
+    return next === undefined || WHITESPACE.includes(next) || DELIMITERS.includes(next);
+  }
+
+  private regular(): string {
+    const start = this.pos;
+    while (this.pos < this.src.length && !WHITESPACE.includes(this.src[this.pos]) && !DELIMITERS.includes(this.src[this.pos])) {
+      this.pos++;
+    }
+    return this.src.slice(start, this.pos);
+  }
+
+  parseValue(depth = 0): PdfValue {
+    if (depth > 100) throw new PdfWatermarkError("PDF objects are nested too deeply");
+    this.skipWhitespace();
+    const ch = this.src[this.pos];
+    if (ch === undefined) throw new PdfWatermarkError("Unexpected end of PDF");
+
+    if (this.src.startsWith("<<", this.pos)) {
+      this.pos += 2;
+      const entries = new Map<string, PdfValue>();
+      for (;;) {
+        this.skipWhitespace();
+        if (this.src.startsWith(">>", this.pos)) {
+          this.pos += 2;
+          return { kind: "dict", entries };
+        }
+        const key = this.parseValue(depth + 1);
+        if (!isName(key)) throw new PdfWatermarkError(`Expected a name in dictionary at offset ${this.pos}`);
+        entries.set(key.raw, this.parseValue(depth + 1));
+      }
+    }
+    if (ch === "<") {
+      const end = this.src.indexOf(">", this.pos);
+      if (end < 0) throw new PdfWatermarkError("Unterminated hex string");
+      const raw = this.src.slice(this.pos, end + 1);
+      this.pos = end + 1;
+      return { kind: "string", raw };
+    }
+    if (ch === "(") {
+      const start = this.pos;
+      let nesting = 0;
+      for (; this.pos < this.src.length; this.pos++) {
+        const c = this.src[this.pos];
+        if (c === "\\") this.pos++;
+        else if (c === "(") nesting++;
+        else if (c === ")" && --nesting === 0) break;
+      }
+      this.pos++;
+      return { kind: "string", raw: this.src.slice(start, this.pos) };
+    }
+    if (ch === "[") {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.src[this.pos] === "]") {
+          this.pos++;
+          return items;
+        }
+        if (this.pos >= this.src.length) throw new PdfWatermarkError("Unterminated array");
+        items.push(this.parseValue(depth + 1));
+      }
+    }
+    if (ch === "/") {
+      this.pos++;
+      return name(this.regular());
+    }
+
+    const token = this.regular();
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (token === "null") return null;
+    if (!/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(token)) {
+      throw new PdfWatermarkError(`Unexpected token "${token.slice(0, 20)}" at offset ${this.pos}`);
+    }
+
+    // "12 0 R" is a reference
+    if (/^\d+$/.test(token)) {
+      const save = this.pos;
+      this.skipWhitespace();
+      const gen = this.regular();
+      if (/^\d+$/.test(gen)) {
+        this.skipWhitespace();
+        if (this.src[this.pos] === "R") {
+          this.pos++;
+          return ref(parseInt(token, 10), parseInt(gen, 10));
+        }
+      }
+      this.pos = save;
+    }
+    return parseFloat(token);
+  }
+}
+
+function serialize(value: PdfValue): string {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return value ? "true" : "false";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? String(value) : value.toFixed(4).replace(/\.?0+$/, "");
+  }
+  if (Array.isArray(value)) return `[${value.map(serialize).join(" ")}]`;
+  switch (value.kind) {
+    case "name":
+      return `/${value.raw}`;
+    case "ref":
+      return `${value.num} ${value.gen} R`;
+    case "string":
+      return value.raw;
+    case "dict":
+      return `<<${Array.from(value.entries).map(([key, v]) => `/${key} ${serialize(v)}`).join(" ")}>>`;
+  }
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+interface ParsedPdf {
+  src: string;
+  objects: Map<number, PdfObject>;
+  trailer: PdfDict;
+  trailerIsStream: boolean;
+  startxref: number;
+  size: number;
+}
+
+function streamBounds(src: string, parser: Parser, value: PdfValue, objects: Map<number, PdfObject>): [number, number] | null {
+  if (!isDict(value) || !parser.peekKeyword("stream")) return null;
+  let start = parser.pos + "stream".length;
+  if (src[start] === "\r") start++;
+  if (src[start] === "\n") start++;
+
+  const length = value.entries.get("Length");
+  const resolved = isRef(length) ? objects.get(length.num)?.value : length;
+  if (typeof resolved === "number" && src.startsWith("endstream", skipWs(src, start + resolved))) {
+    return [start, start + resolved];
+  }
+  // Length is indirect and not read yet, or wrong: fall back to the keyword
+  const end = src.indexOf("endstream", start);
+  if (end < 0) throw new PdfWatermarkError("Unterminated stream");
+  let dataEnd = end;
+  if (src[dataEnd - 1] === "\n") dataEnd--;
+  if (src[dataEnd - 1] === "\r") dataEnd--;
+  return [start, dataEnd];
+}
+
+function skipWs(src: string, pos: number): number {
+  while (pos < src.length && WHITESPACE.includes(src[pos])) pos++;
+  return pos;
+}
+
+function decodeStream(object: PdfObject): string {
+  const filter = isDict(object.value) ? object.value.entries.get("Filter") : undefined;
+  const filters = Array.isArray(filter) ? filter : filter ? [filter] : [];
+  let data: Buffer = Buffer.from(object.stream ?? "", "latin1");
+  for (const f of filters) {
+    if (!isName(f, "FlateDecode")) throw new PdfWatermarkError(`Unsupported stream filter ${serialize(f)}`);
+    data = zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+  }
+  const parms = isDict(object.value) ? object.value.entries.get("DecodeParms") : undefined;
+  const predictor = isDict(parms) ? parms.entries.get("Predictor") : undefined;
+  if (typeof predictor === "number" && predictor >= 10) {
+    const columns = isDict(parms) ? Number(parms.entries.get("Columns") ?? 1) : 1;
+    data = unpredictPng(data, columns);
+  }
+  return data.toString("latin1");
+}
+
+// Cross-reference streams are usually PNG-predicted; each row starts with its filter type
+function unpredictPng(data: Buffer, columns: number): Buffer {
+  const rows = Math.floor(data.length / (columns + 1));
+  const out = Buffer.alloc(rows * columns);
+  for (let r = 0; r < rows; r++) {
+    const type = data[r * (columns + 1)];
+    for (let c = 0; c < columns; c++) {
+      const raw = data[r * (columns + 1) + 1 + c];
+      const left = c > 0 ? out[r * columns + c - 1] : 0;
+      const up = r > 0 ? out[(r - 1) * columns + c] : 0;
+      const upLeft = r > 0 && c > 0 ? out[(r - 1) * columns + c - 1] : 0;
+      let value = raw;
+      if (type === 1) value = raw + left;
+      else if (type === 2) value = raw + up;
+      else if (type === 3) value = raw + Math.floor((left + up) / 2);
+      else if (type === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left), pb = Math.abs(p - up), pc = Math.abs(p - upLeft);
+        value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+      }
+      out[r * columns + c] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Read every object by scanning for "n g obj" (later definitions win, as
+ * with incremental updates), then unpack object streams
+ */
+function parsePdf(bytes: Buffer): ParsedPdf {
+  const src = bytes.toString("latin1");
+  if (!src.slice(0, 1024).includes("%PDF-")) throw new PdfWatermarkError("Not a PDF file");
+
+  const objects = new Map<number, PdfObject>();
+  const objectStreams: PdfObject[] = [];
+  const trailers: Array<{ pos: number; dict: PdfDict; isStream: boolean }> = [];
+  const header = /(\d+)\s+(\d+)\s+obj\b/g;
+
+  for (let match = header.exec(src); match; match = header.exec(src)) {
+    const parser = new Parser(src, match.index + match[0].length);
+    let value: PdfValue;
+    try {
+      value = parser.parseValue();
+    } catch {
+      continue; // Not an object after all
+    }
+    const object: PdfObject = { num: parseInt(match[1], 10), gen: parseInt(match[2], 10), value };
+    const bounds = streamBounds(src, parser, value, objects);
+    if (bounds) {
+      object.stream = src.slice(bounds[0], bounds[1]);
+      header.lastIndex = bounds[1];
+    } else {
+      header.lastIndex = parser.pos;
+    }
+    objects.set(object.num, object);
+    if (isDict(value) && isName(value.entries.get("Type"), "ObjStm")) objectStreams.push(object);
+    if (isDict(value) && isName(value.entries.get("Type"), "XRef")) trailers.push({ pos: match.index, dict: value, isStream: true });
+  }
+
+  for (const match of Array.from(src.matchAll(/trailer\s*<</g))) {
+    try {
+      const parser = new Parser(src, (match.index ?? 0) + "trailer".length);
+      const value = parser.parseValue();
+      if (isDict(value)) trailers.push({ pos: match.index ?? 0, dict: value, isStream: false });
+    } catch {
+      // Damaged trailer; an earlier or later one may do
+    }
+  }
+
+  // Objects in object streams never override directly written ones
+  for (const stream of objectStreams) {
+    const streamDict = stream.value as PdfDict;
+    const count = Number(streamDict.entries.get("N") ?? 0);
+    const first = Number(streamDict.entries.get("First") ?? 0);
+    const data = decodeStream(stream);
+    const offsets = data.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count; i++) {
+      const num = offsets[i * 2];
+      if (objects.has(num)) continue;
+      const value = new Parser(data, first + offsets[i * 2 + 1]).parseValue();
+      objects.set(num, { num, gen: 0, value });
+    }
+  }
+
+  trailers.sort((a, b) => a.pos - b.pos);
+  const latest = trailers.filter(t => t.dict.entries.has("Root")).pop();
+  if (!latest) throw new PdfWatermarkError("PDF has no trailer");
+  if (trailers.some(t => t.dict.entries.has("Encrypt"))) {
+    throw new PdfWatermarkError("Encrypted PDFs cannot be watermarked");
+  }
+
+  const startxrefs = Array.from(src.matchAll(/startxref\s+(\d+)/g));
+  const startxref = startxrefs.length > 0 ? parseInt(startxrefs[startxrefs.length - 1][1], 10) : 0;
+  const size = Math.max(Number(latest.dict.entries.get("Size") ?? 0), ...Array.from(objects.keys()).map(n => n + 1));
+
+  return { src, objects, trailer: latest.dict, trailerIsStream: latest.isStream, startxref, size };
+}
+
+function resolve(pdf: ParsedPdf, value: PdfValue | undefined): PdfValue | undefined {
+  for (let i = 0; i < 10 && isRef(value); i++) value = pdf.objects.get(value.num)?.value;
+  return value;
+}
+
+interface PageInfo {
+  object: PdfObject;
+  resources: PdfDict;
+  box: [number, number, number, number];
+  rotate: number;
+}
+
+function collectPages(pdf: ParsedPdf): PageInfo[] {
+  const root = resolve(pdf, pdf.trailer.entries.get("Root"));
+  if (!isDict(root)) throw new PdfWatermarkError("PDF has no document catalog");
+
+  const pages: PageInfo[] = [];
+  const seen = new Set<number>();
+  const walk = (node: PdfValue | undefined, inherited: { resources?: PdfValue; box?: PdfValue; crop?: PdfValue; rotate?: PdfValue }) => {
+    if (!isRef(node) || seen.has(node.num)) return;
+    seen.add(node.num);
+    const object = pdf.objects.get(node.num);
+    if (!object || !isDict(object.value)) return;
+    const entries = object.value.entries;
+    const attributes = {
+      resources: entries.get("Resources") ?? inherited.resources,
+      box: entries.get("MediaBox") ?? inherited.box,
+      crop: entries.get("CropBox") ?? inherited.crop,
+      rotate: entries.get("Rotate") ?? inherited.rotate
+    };
+
+    const kids = resolve(pdf, entries.get("Kids"));
+    if (Array.isArray(kids)) {
+      for (const kid of kids) walk(kid, attributes);
+      return;
+    }
+
+    const box = resolve(pdf, attributes.crop ?? attributes.box);
+    const numbers = Array.isArray(box) ? box.map(v => Number(resolve(pdf, v))) : [];
+    const resources = resolve(pdf, attributes.resources);
+    pages.push({
+      object,
+      resources: isDict(resources) ? resources : dict([]),
+      box: numbers.length === 4 && numbers.every(Number.isFinite)
+        ? [Math.min(numbers[0], numbers[2]), Math.min(numbers[1], numbers[3]), Math.max(numbers[0], numbers[2]), Math.max(numbers[1], numbers[3])]
+        : [0, 0, 612, 792],
+      rotate: ((Number(resolve(pdf, attributes.rotate) ?? 0) % 360) + 360) % 360
+    });
+  };
+  walk(root.entries.get("Pages"), {});
+
+  if (pages.length === 0) throw new PdfWatermarkError("PDF has no pages");
+  return pages;
+}
+
+// ============================================================================
+// Watermark
+// ============================================================================
+
+// Helvetica advance widths for ASCII 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+export function textWidth(text: string, fontSize: number): number {
+  let width = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return width * fontSize / 1000;
+}
+
+/** PDF literal string in WinAnsi; characters outside Latin-1 become "?" */
+export function pdfString(text: string): string {
+  let out = "(";
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (ch === "(" || ch === ")" || ch === "\\") out += `\\${ch}`;
+    else if (code >= 32 && code <= 126) out += ch;
+    else if (code === 0x2022 || code === 0xb7) out += "\\267"; // bullet and middle dot
+    else if (code >= 0xa0 && code <= 0xff) out += `\\${code.toString(8)}`;
+    else out += "?";
+  }
+  return `${out})`;
+}
+
+const fmt = (n: number) => (Math.round(n * 100) / 100).toString();
+
+/**
+ * Content stream drawing the watermark on a page box. Coordinates are worked
+ * out on the page as displayed, then mapped back through /Rotate.
+ */
+export function watermarkContent(
+  lines: string[],
+  box: [number, number, number, number],
+  rotate: number,
+  options: { footer?: string } = {}
+): string {
+  const [x0, y0, x1, y1] = box;
+  const w = x1 - x0;
+  const h = y1 - y0;
+  const turned = rotate === 90 || rotate === 270;
+  const width = turned ? h : w;
+  const height = turned ? w : h;
+  const matrix = rotate === 90 ? [0, 1, -1, 0, x0 + w, y0]
+    : rotate === 180 ? [-1, 0, 0, -1, x0 + w, y0 + h]
+    : rotate === 270 ? [0, -1, 1, 0, x0, y0 + h]
+    : [1, 0, 0, 1, x0, y0];
+
+  const ops: string[] = ["q", `${matrix.map(fmt).join(" ")} cm`];
+
+  // Diagonal stamp, sized so the longest line spans about 70% of the diagonal
+  const angle = Math.atan2(height, width);
+  const diagonal = Math.hypot(width, height);
+  const longest = Math.max(...lines.map(line => textWidth(line, 1)), 1);
+  const size = Math.max(10, Math.min(48, (diagonal * 0.7) / longest));
+  const leading = size * 1.3;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  ops.push("q", "/KWmGS gs", "0.5 0.5 0.5 rg", "BT", `/KWmFont ${fmt(size)} Tf`);
+  lines.forEach((line, i) => {
+    const dx = -textWidth(line, size) / 2;
+    const dy = ((lines.length - 1) / 2 - i) * leading - size / 3;
+    const x = width / 2 + cos * dx - sin * dy;
+    const y = height / 2 + sin * dx + cos * dy;
+    ops.push(`${fmt(cos)} ${fmt(sin)} ${fmt(-sin)} ${fmt(cos)} ${fmt(x)} ${fmt(y)} Tm`, `${pdfString(line)} Tj`);
+  });
+  ops.push("ET", "Q");
+
+  if (options.footer) {
+    const footerSize = 7;
+    let footer = options.footer;
+    while (footer.length > 10 && textWidth(footer, footerSize) > width - 36) footer = `${footer.slice(0, -4)}...`;
+    ops.push("q", "0.35 0.35 0.35 rg", "BT", `/KWmFont ${footerSize} Tf`, `1 0 0 1 18 10 Tm`, `${pdfString(footer)} Tj`, "ET", "Q");
+  }
+
+  ops.push("Q");
+  return ops.join("\n");
+}
+
+function withEntry(source: PdfValue | undefined, pdf: ParsedPdf, key: string, value: PdfValue): PdfDict {
+  const resolved = resolve(pdf, source);
+  const entries = new Map(isDict(resolved) ? resolved.entries : []);
+  entries.set(key, value);
+  return { kind: "dict", entries };
+}
+
+function streamObject(content: string): { dict: PdfDict; data: string } {
+  const data = zlib.deflateSync(Buffer.from(content, "latin1")).toString("latin1");
+  return { dict: dict([["Length", data.length], ["Filter", name("FlateDecode")]]), data };
+}
+
+/**
+ * Watermark every page. `lines` are stamped diagonally; `footer`, if given,
+ * runs along the bottom edge.
+ */
+export function watermarkPdf(
+  input: Buffer | Uint8Array,
+  lines: string[],
+  options: { footer?: string; opacity?: number } = {}
+): Buffer {
+  const bytes = Buffer.from(input);
+  const pdf = parsePdf(bytes);
+  const pages = collectPages(pdf);
+
+  let nextNum = pdf.size;
+  const written: Array<{ num: number; gen: number; body: string }> = [];
+  const add = (body: string) => {
+    const num = nextNum++;
+    written.push({ num, gen: 0, body });
+    return ref(num);
+  };
+  const addStream = (content: string) => {
+    const stream = streamObject(content);
+    return add(`${serialize(stream.dict)}\nstream\n${stream.data}\nendstream`);
+  };
+
+  const fontRef = add(serialize(dict([
+    ["Type", name("Font")],
+    ["Subtype", name("Type1")],
+    ["BaseFont", name("Helvetica")],
+    ["Encoding", name("WinAnsiEncoding")]
+  ])));
+  const opacity = options.opacity ?? 0.18;
+  const gsRef = add(serialize(dict([["Type", name("ExtGState")], ["ca", opacity], ["CA", opacity]])));
+  // Saves the graphics state before the page's own content, restored before the watermark
+  const saveRef = addStream("q");
+
+  const contentRefs = new Map<string, PdfRef>();
+  for (const page of pages) {
+    const key = `${page.box.join(",")}/${page.rotate}`;
+    let contentRef = contentRefs.get(key);
+    if (!contentRef) {
+      contentRef = addStream(`Q\n${watermarkContent(lines, page.box, page.rotate, { footer: options.footer })}`);
+      contentRefs.set(key, contentRef);
+    }
+
+    const pageDict = page.object.value as PdfDict;
+    const resources = new Map(page.resources.entries);
+    resources.set("Font", withEntry(resources.get("Font"), pdf, "KWmFont", fontRef));
+    resources.set("ExtGState", withEntry(resources.get("ExtGState"), pdf, "KWmGS", gsRef));
+
+    const existing = pageDict.entries.get("Contents");
+    const resolvedContents = isRef(existing) && Array.isArray(resolve(pdf, existing)) ? resolve(pdf, existing) : existing;
+    const contents: PdfValue[] = Array.isArray(resolvedContents)
+      ? [saveRef, ...resolvedContents, contentRef]
+      : resolvedContents ? [saveRef, resolvedContents, contentRef] : [saveRef, contentRef];
+
+    const entries = new Map(pageDict.entries);
+    entries.set("Resources", { kind: "dict", entries: resources });
+    entries.set("Contents", contents);
+    written.push({ num: page.object.num, gen: page.object.gen, body: serialize({ kind: "dict", entries }) });
+  }
+
+  // Append the update
+  let out = pdf.src.endsWith("\n") ? pdf.src : `${pdf.src}\n`;
+  const offsets = new Map<number, { offset: number; gen: number }>();
+  for (const object of written) {
+    offsets.set(object.num, { offset: out.length, gen: object.gen });
+    out += `${object.num} ${object.gen} obj\n${object.body}\nendobj\n`;
+  }
+
+  const trailerEntries: Array<[string, PdfValue]> = [["Root", pdf.trailer.entries.get("Root")!]];
+  for (const key of ["Info", "ID"]) {
+    const value = pdf.trailer.entries.get(key);
+    if (value !== undefined) trailerEntries.push([key, value]);
+  }
+  if (pdf.startxref) trailerEntries.push(["Prev", pdf.startxref]);
+
+  if (pdf.trailerIsStream) {
+    // Files indexed by a cross-reference stream get one for the update too
+    const xrefNum = nextNum++;
+    const xrefOffset = out.length;
+    offsets.set(xrefNum, { offset: xrefOffset, gen: 0 });
+    const nums = Array.from(offsets.keys()).sort((a, b) => a - b);
+    const rows = nums.map(num => {
+      const entry = offsets.get(num)!;
+      const row = Buffer.alloc(7);
+      row[0] = 1;
+      row.writeUInt32BE(entry.offset, 1);
+      row.writeUInt16BE(entry.gen, 5);
+      return row;
+    });
+    const data = Buffer.concat(rows).toString("latin1");
+    const xrefDict = dict([
+      ["Type", name("XRef")],
+      ["Size", nextNum],
+      ["W", [1, 4, 2]],
+      ["Index", subsections(nums).flatMap(([start, count]) => [start, count])],
+      ["Length", data.length],
+      ...trailerEntries
+    ]);
+    out += `${xrefNum} 0 obj\n${serialize(xrefDict)}\nstream\n${data}\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  } else {
+    const xrefOffset = out.length;
+    const nums = Array.from(offsets.keys()).sort((a, b) => a - b);
+    out += "xref\n";
+    for (const [start, count] of subsections(nums)) {
+      out += `${start} ${count}\n`;
+      for (let num = start; num < start + count; num++) {
+        const entry = offsets.get(num)!;
+        out += `${String(entry.offset).padStart(10, "0")} ${String(entry.gen).padStart(5, "0")} n\r\n`;
+      }
+    }
+    out += `trailer\n${serialize(dict([["Size", nextNum], ...trailerEntries]))}\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  }
+
+  return Buffer.from(out, "latin1");
+}
+
+function subsections(sorted: number[]): Array<[number, number]> {
+  const result: Array<[number, number]> = [];
+  for (const num of sorted) {
+    const last = result[result.length - 1];
+    if (last && last[0] + last[1] === num) last[1]++;
+    else result.push([num, 1]);
+  }
+  return result;
+}
@@ -2,7 +2,7 @@
  * Portal Production Monitoring Service
  * 
  * Provides production data for customer portal dashboards.
- * Uses normalized aggregates (hour/day) by default with optional real-time streaming.
+ * Reads hourly/daily telemetry rollups by default with optional real-time streaming.
  * Implements allowedMetrics filtering from scope grants.
  */
 
@@ -10,8 +10,17 @@ import { getDb } from "../db";
 import { 
   clientScopeGrants,
   portalFieldPolicies,
+  derivedMetrics,
+  sites,
 } from "../../drizzle/schema";
-import { eq, and, inArray } from "drizzle-orm";
+import { eq, and, inArray, gte, lt } from "drizzle-orm";
+import {
+  RollupTier,
+  combineRollups,
+  getEnergyProduction,
+  loadRollups,
+} from "./telemetryRollups";
+import { getSiteKpis, summarizeKpis } from "./siteKpis";
 
 /**
  * Time aggregation periods
@@ -165,41 +174,15 @@ export async function getProjectProductionData(
   const period = options.period || 'day';
   const limit = options.limit || 100;
   
-  // Build aggregation query based on period
-  // This is a placeholder - in production, query normalizedMeasurements table
-  const dataPoints: ProductionDataPoint[] = [];
+  const dataPoints = await getPortalProductionSeries({
+    projectIds: [projectId],
+    metricTypes: filteredMetrics,
+    period,
+    startDate,
+    endDate,
+  });
   
-  // Generate sample data for demonstration
-  // In production, this would query the actual measurements table
-  const currentDate = new Date(startDate);
-  while (currentDate <= endDate && dataPoints.length < limit) {
-    for (const metricType of filteredMetrics) {
-      dataPoints.push({
-        timestamp: new Date(currentDate),
-        value: generateSampleValue(metricType),
-        unit: getMetricUnit(metricType),
-        metricType,
-      });
-    }
-    
-    // Increment based on period
-    switch (period) {
-      case 'hour':
-        currentDate.setHours(currentDate.getHours() + 1);
-        break;
-      case 'day':
-        currentDate.setDate(currentDate.getDate() + 1);
-        break;
-      case 'week':
-        currentDate.setDate(currentDate.getDate() + 7);
-        break;
-      case 'month':
-        currentDate.setMonth(currentDate.getMonth() + 1);
-        break;
-    }
-  }
-  
-  return dataPoints;
+  return dataPoints.slice(0, limit);
 }
 
 /**
@@ -220,17 +203,74 @@ export async function getProjectProductionSummary(
   const endDate = options.endDate || new Date();
   const startDate = options.startDate || new Date(endDate.getFullYear(), endDate.getMonth(), 1);
   
-  // In production, aggregate from normalizedMeasurements
-  // This is sample data for demonstration
+  const summary = await getPortalProductionSummary({ projectIds: [projectId], startDate, endDate });
   return {
-    totalProduction: allowedMetrics.includes('energy_production') ? 12500 : 0,
-    averagePerformance: allowedMetrics.includes('performance_ratio') ? 85.5 : 0,
-    peakOutput: allowedMetrics.includes('power_output') ? 450 : 0,
-    availability: allowedMetrics.includes('availability') ? 98.2 : 0,
-    period: {
-      start: startDate,
-      end: endDate,
-    },
+    totalProduction: allowedMetrics.includes('energy_production') ? summary.totalProduction : 0,
+    averagePerformance: allowedMetrics.includes('performance_ratio') ? summary.averagePerformance ?? 0 : 0,
+    peakOutput: allowedMetrics.includes('power_output') ? summary.peakOutput : 0,
+    availability: allowedMetrics.includes('availability') ? summary.availability ?? 0 : 0,
+    period: summary.period,
+  };
+}
+
+/**
+ * Production totals and KPI averages for a set of projects: energy from
+ * counters, peak output from hourly power rollups, PR and availability from
+ * the sites' daily KPIs. KPIs are null when none have been calculated.
+ */
+export async function getPortalProductionSummary(params: {
+  projectIds: number[];
+  startDate: Date;
+  endDate: Date;
+}): Promise<{
+  totalProduction: number;
+  averagePerformance: number | null;
+  peakOutput: number;
+  availability: number | null;
+  specificYield: number | null;
+  period: { start: Date; end: Date };
+}> {
+  const period = { start: params.startDate, end: params.endDate };
+  const db = await getDb();
+  if (!db || params.projectIds.length === 0) {
+    return { totalProduction: 0, averagePerformance: null, peakOutput: 0, availability: null, specificYield: null, period };
+  }
+
+  const range = { from: params.startDate, to: params.endDate };
+  const production = await getEnergyProduction({
+    projectIds: params.projectIds,
+    ...range,
+    tier: '1d',
+    bucketFor: () => params.startDate,
+  });
+
+  const powerCodes = ROLLUP_PORTAL_METRICS.power_output!.codes;
+  const power = combineRollups(
+    await loadRollups({ projectIds: params.projectIds, metricCodes: Object.keys(powerCodes), ...range, tier: '1h' }),
+    { bucketFor: d => d, aggregation: 'avg', groupBy: ['device'] }
+  );
+  const hourlyTotals = new Map<number, number>();
+  for (const point of power) {
+    const key = point.bucketStart.getTime();
+    hourlyTotals.set(key, (hourlyTotals.get(key) || 0) + point.value * powerCodes[point.metricCode]);
+  }
+
+  const projectSites = await db.select({ id: sites.id }).from(sites).where(inArray(sites.projectId, params.projectIds));
+  const kpis = summarizeKpis(await getSiteKpis({
+    siteIds: projectSites.map(s => s.id),
+    periodType: 'day',
+    ...range,
+    metricCodes: ['performance_ratio', 'availability', 'specific_yield'],
+  }));
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    totalProduction: round(production.reduce((sum, p) => sum + p.value, 0)),
+    averagePerformance: kpis.performance_ratio ?? null,
+    peakOutput: round(Math.max(0, ...Array.from(hourlyTotals.values()))),
+    availability: kpis.availability ?? null,
+    specificYield: kpis.specific_yield ?? null,
+    period,
   };
 }
 
@@ -288,29 +328,151 @@ export async function getRealtimeSubscriptionConfig(
   };
 }
 
-// Helper functions
+/**
+ * Start of the UTC calendar bucket containing date (weeks start Monday)
+ */
+export function periodBucketStart(date: Date, period: AggregationPeriod | 'year'): Date {
+  const d = new Date(date);
+  switch (period) {
+    case 'hour':
+      return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours()));
+    case 'day':
+      return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+    case 'week': {
+      const day = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+      const sinceMonday = (day.getUTCDay() + 6) % 7;
+      return new Date(day.getTime() - sinceMonday * 86400000);
+    }
+    case 'month':
+      return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1));
+    case 'year':
+      return new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  }
+}
 
-function generateSampleValue(metricType: PortalMetricType): number {
-  switch (metricType) {
-    case 'energy_production':
-      return Math.round(Math.random() * 500 + 200);
-    case 'energy_consumption':
-      return Math.round(Math.random() * 100 + 50);
-    case 'power_output':
-      return Math.round(Math.random() * 400 + 100);
-    case 'irradiance':
-      return Math.round(Math.random() * 800 + 200);
-    case 'temperature':
-      return Math.round(Math.random() * 20 + 20);
-    case 'performance_ratio':
-      return Math.round(Math.random() * 20 + 75);
-    case 'availability':
-      return Math.round(Math.random() * 5 + 95);
-    default:
-      return 0;
+// Rollup metric codes behind each averaged portal metric, with a factor to the portal unit
+const ROLLUP_PORTAL_METRICS: Partial<Record<PortalMetricType, { codes: Record<string, number>; sumDevices: boolean }>> = {
+  power_output: { codes: { active_power_kw: 1, active_power: 0.001 }, sumDevices: true },
+  irradiance: { codes: { irradiance: 1 }, sumDevices: false },
+  temperature: { codes: { module_temperature: 1 }, sumDevices: false },
+};
+
+const DERIVED_PORTAL_METRICS: PortalMetricType[] = ['performance_ratio', 'availability'];
+
+/**
+ * Production series for a set of projects, read from telemetry rollups
+ * (hourly tier for hourly charts, daily otherwise) and site-level derived KPIs.
+ */
+export async function getPortalProductionSeries(params: {
+  projectIds: number[];
+  metricTypes: PortalMetricType[];
+  period: AggregationPeriod | 'year';
+  startDate: Date;
+  endDate: Date;
+}): Promise<ProductionDataPoint[]> {
+  if (params.projectIds.length === 0) return [];
+
+  const tier: RollupTier = params.period === 'hour' ? '1h' : '1d';
+  const bucketFor = (date: Date) => periodBucketStart(date, params.period);
+  const range = { from: params.startDate, to: params.endDate };
+  const dataPoints: ProductionDataPoint[] = [];
+
+  const push = (metricType: PortalMetricType, timestamp: Date, value: number) => {
+    dataPoints.push({
+      timestamp,
+      value: Math.round(value * 1000) / 1000,
+      unit: getMetricUnit(metricType),
+      metricType,
+    });
+  };
+
+  for (const metricType of params.metricTypes) {
+    if (metricType === 'energy_production') {
+      const production = await getEnergyProduction({ projectIds: params.projectIds, ...range, tier, bucketFor });
+      production.forEach(p => push(metricType, p.bucketStart, p.value));
+      continue;
+    }
+
+    const rollupMetric = ROLLUP_PORTAL_METRICS[metricType];
+    if (rollupMetric) {
+      const buckets = await loadRollups({
+        projectIds: params.projectIds,
+        metricCodes: Object.keys(rollupMetric.codes),
+        ...range,
+        tier,
+      });
+      const points = combineRollups(buckets, {
+        bucketFor,
+        aggregation: 'avg',
+        groupBy: rollupMetric.sumDevices ? ['device'] : undefined,
+      });
+
+      const totals = new Map<number, number>();
+      for (const point of points) {
+        const key = point.bucketStart.getTime();
+        totals.set(key, (totals.get(key) || 0) + point.value * rollupMetric.codes[point.metricCode]);
+      }
+      Array.from(totals.entries())
+        .sort(([a], [b]) => a - b)
+        .forEach(([ts, value]) => push(metricType, new Date(ts), value));
+      continue;
+    }
+
+    if (DERIVED_PORTAL_METRICS.includes(metricType)) {
+      // KPIs are calculated per day; hourly charts show each day's value at midnight
+      const derived = await getDerivedMetricSeries(params.projectIds, bucketFor, metricType, 'day', range.from, range.to);
+      for (const [ts, { sum, count }] of Array.from(derived.entries())) {
+        push(metricType, new Date(ts), sum / count);
+      }
+    }
   }
+
+  return dataPoints.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
 }
 
+/**
+ * Site-level derived KPIs for the projects' sites, averaged per bucket
+ */
+async function getDerivedMetricSeries(
+  projectIds: number[],
+  bucketFor: (date: Date) => Date,
+  metricCode: string,
+  periodType: 'day' | 'month',
+  from: Date,
+  to: Date
+): Promise<Map<number, { sum: number; count: number }>> {
+  const buckets = new Map<number, { sum: number; count: number }>();
+  const db = await getDb();
+  if (!db) return buckets;
+
+  const projectSites = await db.select({ id: sites.id }).from(sites).where(inArray(sites.projectId, projectIds));
+  if (projectSites.length === 0) return buckets;
+
+  const rows = await db.select({ periodStart: derivedMetrics.periodStart, value: derivedMetrics.value })
+    .from(derivedMetrics)
+    .where(and(
+      inArray(derivedMetrics.siteId, projectSites.map(s => s.id)),
+      eq(derivedMetrics.metricCode, metricCode),
+      eq(derivedMetrics.periodType, periodType),
+      gte(derivedMetrics.periodStart, from),
+      lt(derivedMetrics.periodStart, to)
+    ))
+    .orderBy(derivedMetrics.periodStart);
+
+  for (const row of rows) {
+    const value = row.value === null ? NaN : parseFloat(row.value);
+    if (!Number.isFinite(value)) continue;
+    const key = bucketFor(row.periodStart).getTime();
+    const bucket = buckets.get(key) || { sum: 0, count: 0 };
+    bucket.sum += value;
+    bucket.count += 1;
+    buckets.set(key, bucket);
+  }
+  return buckets;
+}
+
+// Helper functions
+
 function getMetricUnit(metricType: PortalMetricType): string {
   switch (metricType) {
     case 'energy_production':
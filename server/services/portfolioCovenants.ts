@@ -0,0 +1,665 @@
+/**
+ * Portfolio Covenants Service
+ *
+ * Consolidates a portfolio's approved base-case financial models into annual
+ * revenue, opex, CFADS and debt service in one currency, and tests the loan
+ * covenants captured as contractObligations against actuals:
+ * - Actual CFADS is invoiced revenue (line amounts before tax, for lines
+ *   linked to the project, spread over each line's service period and net of
+ *   issued credit notes) less opex recorded on actuals comparisons
+ * - Scheduled debt service comes from the project's base-case model
+ * - The projected DSCR for a test period uses actuals for elapsed months and
+ *   the model for the rest, so a shortfall shows up before the test date
+ *
+ * Annual model figures are spread evenly across months. A test date closes
+ * its month, so a 12-month DSCR tested on 31 Dec covers January-December.
+ * Projected breaches inside a covenant's alert window raise an obligation
+ * and a project alert once per test date.
+ */
+
+import { and, desc, eq, inArray, isNotNull, isNull, lt, gte, notInArray, or } from "drizzle-orm";
+import { createAlert, createObligation, createObligationLink, getDb } from "../db";
+import {
+  CovenantTestDetails,
+  artifactContracts,
+  artifacts,
+  contractObligations,
+  covenantTestResults,
+  creditNoteLines,
+  creditNotes,
+  financialModelComparisons,
+  financialModels,
+  invoiceLineItems,
+  invoices,
+  organizationMembers,
+  portfolios,
+  projects,
+} from "../../drizzle/schema";
+import { ModelAssumptions, ModelYear, assumptionsFromMetrics, buildCashFlowSeries, loadModel } from "./financialModelEngine";
+import { getFxConverter, getFxRate, getReportingCurrency, minorUnitDigits } from "./currency";
+import { monthStartUtc } from "./productionVariance";
+
+export class CovenantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CovenantError";
+  }
+}
+
+export type CovenantStatus = "compliant" | "projected_breach" | "breached" | "insufficient_data";
+
+// ============================================================================
+// Consolidation
+// ============================================================================
+
+export interface AnnualModelFlow {
+  calendarYear: number;
+  revenue: number;
+  opex: number;
+  cfads: number;
+  debtService: number;
+}
+
+/**
+ * Key a model's annual flows by calendar year. Years without one are placed
+ * from COD (operating year 1 is the COD year); models with neither are skipped.
+ */
+export function annualModelFlows(years: ModelYear[], assumptions: ModelAssumptions, codDate: Date | null): AnnualModelFlow[] {
+  const { cfads } = buildCashFlowSeries(years, assumptions);
+  const offset = cfads.length - years.length;
+
+  const flows: AnnualModelFlow[] = [];
+  years.forEach((y, i) => {
+    const calendarYear = y.calendarYear ?? (y.year > 1900 ? y.year : codDate ? codDate.getUTCFullYear() + y.year - 1 : null);
+    if (calendarYear === null) return;
+    flows.push({ calendarYear, revenue: y.revenue, opex: y.opex, cfads: cfads[i + offset], debtService: y.debtService });
+  });
+  return flows;
+}
+
+export interface ConsolidationModel {
+  modelId: number;
+  currency: string;
+  flows: AnnualModelFlow[];
+}
+
+export interface ConsolidatedYear extends AnnualModelFlow {
+  dscr: number | null;
+  modelCount: number;
+}
+
+export interface Consolidation {
+  years: ConsolidatedYear[];
+  // Models left out for lack of an FX rate or calendar years
+  excludedModelIds: number[];
+  unconverted: string[];
+}
+
+/** Sum model flows by calendar year, converting each model at its currency's rate to the target */
+export function consolidateCashFlows(models: ConsolidationModel[], rates: Record<string, number | null>): Consolidation {
+  const byYear = new Map<number, ConsolidatedYear>();
+  const excludedModelIds: number[] = [];
+  const unconverted: string[] = [];
+
+  for (const model of models) {
+    const rate = rates[model.currency] ?? null;
+    if (rate === null || model.flows.length === 0) {
+      excludedModelIds.push(model.modelId);
+      if (rate === null && !unconverted.includes(model.currency)) unconverted.push(model.currency);
+      continue;
+    }
+    for (const f of model.flows) {
+      const year = byYear.get(f.calendarYear) ?? { calendarYear: f.calendarYear, revenue: 0, opex: 0, cfads: 0, debtService: 0, dscr: null, modelCount: 0 };
+      year.revenue += f.revenue * rate;
+      year.opex += f.opex * rate;
+      year.cfads += f.cfads * rate;
+      year.debtService += f.debtService * rate;
+      year.modelCount++;
+      byYear.set(f.calendarYear, year);
+    }
+  }
+
+  const years = Array.from(byYear.values())
+    .sort((a, b) => a.calendarYear - b.calendarYear)
+    .map(y => ({ ...y, dscr: y.debtService > 0 ? y.cfads / y.debtService : null }));
+  return { years, excludedModelIds, unconverted };
+}
+
+// ============================================================================
+// Covenant Tests
+// ============================================================================
+
+export const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+const addMonths = (date: Date, months: number) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+
+/**
+ * Split an amount over the months of [start, end) in proportion to the time
+ * each month covers. Without a usable end the whole amount lands in the
+ * month of `start`.
+ */
+export function spreadOverMonths(amount: number, start: Date, end: Date | null): Record<string, number> {
+  if (!end || end <= start) return { [monthKey(start)]: amount };
+  const span = end.getTime() - start.getTime();
+  const byMonth: Record<string, number> = {};
+  for (let m = monthStartUtc(start); m < end; m = addMonths(m, 1)) {
+    const next = addMonths(m, 1);
+    const covered = Math.min(next.getTime(), end.getTime()) - Math.max(m.getTime(), start.getTime());
+    byMonth[monthKey(m)] = amount * covered / span;
+  }
+  return byMonth;
+}
+
+/** Months from the month of `start` up to and including the month of `end` */
+export function monthsCovered(start: Date, end: Date): string[] {
+  const keys: string[] = [];
+  for (let m = monthStartUtc(start); m <= end; m = addMonths(m, 1)) keys.push(monthKey(m));
+  return keys;
+}
+
+export interface CovenantTestInput {
+  testDate: Date;
+  periodMonths: number;
+  threshold: number;
+  asOf: Date;
+  model: AnnualModelFlow[];
+  // Actuals by YYYY-MM in the model's currency
+  actualRevenueByMonth: Record<string, number>;
+  actualOpexByMonth: Record<string, number>;
+}
+
+export interface CovenantTest {
+  periodStart: Date;
+  periodEnd: Date; // exclusive
+  elapsedMonths: number;
+  totalMonths: number;
+  actualDscr: number | null;
+  projectedDscr: number | null;
+  status: CovenantStatus;
+  details: Omit<CovenantTestDetails, "currency">;
+}
+
+/**
+ * DSCR over the test period ending with the test date's month. A month is
+ * elapsed once it has ended by `asOf`; elapsed months without invoiced
+ * revenue or recorded opex use the model's, since the latest month is
+ * usually not invoiced yet. With no invoiced revenue in any elapsed month the
+ * test is reported as insufficient data rather than a breach.
+ */
+export function testCovenant(input: CovenantTestInput): CovenantTest {
+  const periodEnd = addMonths(input.testDate, 1);
+  const periodStart = addMonths(periodEnd, -input.periodMonths);
+  const cutoff = monthStartUtc(input.asOf);
+  const annual = new Map(input.model.map(f => [f.calendarYear, f]));
+
+  let elapsedMonths = 0;
+  let modelOpexMonths = 0;
+  let modelRevenueMonths = 0;
+  const details = {
+    actualRevenue: 0,
+    actualOpex: 0,
+    modelOpexMonths: 0,
+    modelRevenueMonths: 0,
+    actualDebtService: 0,
+    projectedCfads: 0,
+    projectedDebtService: 0,
+  };
+
+  for (let m = periodStart; m < periodEnd; m = addMonths(m, 1)) {
+    const year = annual.get(m.getUTCFullYear());
+    const monthly = { revenue: (year?.revenue ?? 0) / 12, opex: (year?.opex ?? 0) / 12, cfads: (year?.cfads ?? 0) / 12, debtService: (year?.debtService ?? 0) / 12 };
+    details.projectedDebtService += monthly.debtService;
+
+    if (m < cutoff) {
+      const key = monthKey(m);
+      const invoicedRevenue = input.actualRevenueByMonth[key];
+      const revenue = invoicedRevenue ?? monthly.revenue;
+      if (invoicedRevenue === undefined) modelRevenueMonths++;
+      const recordedOpex = input.actualOpexByMonth[key];
+      const opex = recordedOpex ?? monthly.opex;
+      if (recordedOpex === undefined) modelOpexMonths++;
+
+      elapsedMonths++;
+      details.actualRevenue += revenue;
+      details.actualOpex += opex;
+      details.actualDebtService += monthly.debtService;
+      details.projectedCfads += revenue - opex;
+    } else {
+      details.projectedCfads += monthly.cfads;
+    }
+  }
+  details.modelOpexMonths = modelOpexMonths;
+  details.modelRevenueMonths = modelRevenueMonths;
+
+  const actualDscr = elapsedMonths > 0 && details.actualDebtService > 0
+    ? (details.actualRevenue - details.actualOpex) / details.actualDebtService
+    : null;
+  const projectedDscr = details.projectedDebtService > 0 ? details.projectedCfads / details.projectedDebtService : null;
+
+  let status: CovenantStatus;
+  if (projectedDscr === null || (elapsedMonths > 0 && modelRevenueMonths === elapsedMonths)) status = "insufficient_data";
+  else if (projectedDscr >= input.threshold) status = "compliant";
+  else status = elapsedMonths === input.periodMonths ? "breached" : "projected_breach";
+
+  return { periodStart, periodEnd, elapsedMonths, totalMonths: input.periodMonths, actualDscr, projectedDscr, status, details };
+}
+
+/** Whether a projected breach is close enough to its test date to raise */
+export function isInAlertWindow(testDate: Date, asOf: Date, alertDaysBefore: number): boolean {
+  const day = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const days = (day(testDate) - day(asOf)) / 86400_000;
+  return days >= 0 && days <= alertDaysBefore;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/** Latest current-version approved base-case model for each project */
+async function loadBaseCaseModels(projectIds: number[]) {
+  const db = await getDb();
+  if (!db || projectIds.length === 0) return [];
+
+  const rows = await db.select({ id: financialModels.id, projectId: financialModels.projectId })
+    .from(financialModels)
+    .where(and(
+      inArray(financialModels.projectId, projectIds),
+      eq(financialModels.status, "approved"),
+      eq(financialModels.baseCase, true),
+      eq(financialModels.isCurrentVersion, true)
+    ))
+    .orderBy(desc(financialModels.version), desc(financialModels.createdAt));
+
+  const latest = new Map<number, number>();
+  for (const row of rows) {
+    if (!latest.has(row.projectId)) latest.set(row.projectId, row.id);
+  }
+
+  const models = [];
+  for (const modelId of Array.from(latest.values())) {
+    const { model, metrics, years } = await loadModel(modelId);
+    const codDate = metrics?.codDate ? new Date(metrics.codDate) : null;
+    models.push({
+      model,
+      currency: metrics?.currency || "USD",
+      flows: annualModelFlows(years, assumptionsFromMetrics(metrics), codDate),
+    });
+  }
+  return models;
+}
+
+/** Consolidated annual cash flows of a portfolio's base-case models */
+export async function getPortfolioCashFlows(portfolioId: number, options: { currency?: string; asOf?: Date } = {}) {
+  const db = await getDb();
+  if (!db) throw new CovenantError("Database not available");
+
+  const [portfolio] = await db.select().from(portfolios).where(eq(portfolios.id, portfolioId)).limit(1);
+  if (!portfolio) throw new CovenantError(`Portfolio ${portfolioId} not found`);
+
+  const portfolioProjects = await db.select({ id: projects.id, name: projects.name })
+    .from(projects)
+    .where(eq(projects.portfolioId, portfolioId));
+  const models = await loadBaseCaseModels(portfolioProjects.map(p => p.id));
+
+  const currency = options.currency
+    ?? (portfolio.organizationId ? await getReportingCurrency(portfolio.organizationId) : "USD");
+  const rates: Record<string, number | null> = {};
+  for (const code of Array.from(new Set(models.map(m => m.currency)))) {
+    rates[code] = code === currency
+      ? 1
+      : portfolio.organizationId ? await getFxRate(portfolio.organizationId, code, currency, options.asOf) : null;
+  }
+
+  const consolidation = consolidateCashFlows(
+    models.map(m => ({ modelId: m.model.id, currency: m.currency, flows: m.flows })),
+    rates
+  );
+  const projectNames = new Map(portfolioProjects.map(p => [p.id, p.name]));
+
+  return {
+    portfolioId,
+    portfolioName: portfolio.name,
+    currency,
+    ...consolidation,
+    models: models.map(m => ({
+      modelId: m.model.id,
+      projectId: m.model.projectId,
+      projectName: projectNames.get(m.model.projectId) ?? null,
+      name: m.model.name,
+      version: m.model.version,
+      currency: m.currency,
+      fxRate: rates[m.currency],
+    })),
+  };
+}
+
+/**
+ * Invoiced revenue by month for a project's lines, converted into `currency`.
+ * Each line is spread over its service period (or placed in its invoice's
+ * month without one), and issued credit notes against it are deducted the
+ * same way.
+ */
+async function loadActualRevenue(organizationId: number, projectId: number, currency: string, start: Date, end: Date) {
+  const db = await getDb();
+  if (!db) return {};
+
+  const inWindow = and(
+    eq(invoices.organizationId, organizationId),
+    eq(invoiceLineItems.projectId, projectId),
+    or(
+      and(
+        isNotNull(invoiceLineItems.periodStart),
+        lt(invoiceLineItems.periodStart, end),
+        or(isNull(invoiceLineItems.periodEnd), gte(invoiceLineItems.periodEnd, start))
+      ),
+      and(isNull(invoiceLineItems.periodStart), gte(invoices.issueDate, start), lt(invoices.issueDate, end))
+    )
+  );
+  const line = {
+    periodStart: invoiceLineItems.periodStart,
+    periodEnd: invoiceLineItems.periodEnd,
+    issueDate: invoices.issueDate,
+    currency: invoices.currency,
+  };
+
+  const invoiced = await db.select({ ...line, amount: invoiceLineItems.amount })
+    .from(invoiceLineItems)
+    .innerJoin(invoices, eq(invoiceLineItems.invoiceId, invoices.id))
+    .where(and(inWindow, notInArray(invoices.status, ["draft", "cancelled", "refunded"])));
+
+  // Credit lines carry their amount net of the invoice discount; add it back to match the line amount
+  const credited = await db.select({ ...line, amount: creditNoteLines.amount, discountAmount: creditNoteLines.discountAmount })
+    .from(creditNoteLines)
+    .innerJoin(creditNotes, eq(creditNoteLines.creditNoteId, creditNotes.id))
+    .innerJoin(invoiceLineItems, eq(creditNoteLines.invoiceLineItemId, invoiceLineItems.id))
+    .innerJoin(invoices, eq(invoiceLineItems.invoiceId, invoices.id))
+    .where(and(inWindow, eq(creditNotes.status, "issued")));
+
+  const rows = [
+    ...invoiced,
+    ...credited.map(c => ({ ...c, amount: -(c.amount + c.discountAmount) })),
+  ];
+  const convert = await getFxConverter(organizationId, rows.map(r => r.currency || "USD"), currency);
+  const scale = Math.pow(10, minorUnitDigits(currency));
+  const byMonth: Record<string, number> = {};
+  for (const row of rows) {
+    const converted = convert(row.amount, row.currency || "USD");
+    if (converted === null) continue;
+    const spread = row.periodStart ? spreadOverMonths(converted, row.periodStart, row.periodEnd) : { [monthKey(row.issueDate)]: converted };
+    for (const [key, amount] of Object.entries(spread)) {
+      const month = new Date(`${key}-01T00:00:00Z`);
+      if (month < start || month >= end) continue;
+      byMonth[key] = (byMonth[key] ?? 0) + amount / scale;
+    }
+  }
+  return byMonth;
+}
+
+/** Opex recorded on actuals comparisons, spread evenly over the months each period covers */
+async function loadActualOpex(projectId: number, start: Date, end: Date) {
+  const db = await getDb();
+  if (!db) return {};
+
+  const rows = await db.select({
+    periodStart: financialModelComparisons.periodStart,
+    periodEnd: financialModelComparisons.periodEnd,
+    actualOpex: financialModelComparisons.actualOpex,
+  })
+    .from(financialModelComparisons)
+    .where(and(
+      eq(financialModelComparisons.projectId, projectId),
+      eq(financialModelComparisons.comparisonType, "actuals"),
+      isNotNull(financialModelComparisons.actualOpex),
+      lt(financialModelComparisons.periodStart, end),
+      gte(financialModelComparisons.periodEnd, start)
+    ));
+
+  const byMonth: Record<string, number> = {};
+  for (const row of rows) {
+    const months = monthsCovered(row.periodStart, new Date(row.periodEnd.getTime() - 1));
+    const perMonth = Math.abs(Number(row.actualOpex)) / Math.max(1, months.length);
+    for (const key of months) byMonth[key] = (byMonth[key] ?? 0) + perMonth;
+  }
+  return byMonth;
+}
+
+async function loadCovenants(filter: { organizationId?: number; portfolioId?: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [isNotNull(contractObligations.covenantMetric), isNotNull(artifacts.projectId)];
+  if (filter.organizationId) conditions.push(eq(artifacts.organizationId, filter.organizationId));
+  if (filter.portfolioId) conditions.push(eq(projects.portfolioId, filter.portfolioId));
+
+  return db.select({
+    covenant: contractObligations,
+    organizationId: artifacts.organizationId,
+    projectId: artifacts.projectId,
+    projectName: projects.name,
+    contractTitle: artifactContracts.contractTitle,
+    createdBy: artifacts.createdBy,
+  })
+    .from(contractObligations)
+    .innerJoin(artifactContracts, eq(contractObligations.contractId, artifactContracts.id))
+    .innerJoin(artifacts, eq(artifactContracts.artifactId, artifacts.id))
+    .innerJoin(projects, eq(artifacts.projectId, projects.id))
+    .where(and(...conditions));
+}
+
+type CovenantRow = Awaited<ReturnType<typeof loadCovenants>>[number];
+
+export interface CovenantEvaluation extends CovenantTest {
+  contractObligationId: number;
+  organizationId: number;
+  projectId: number;
+  projectName: string;
+  contractTitle: string | null;
+  description: string;
+  testDate: Date;
+  threshold: number;
+  financialModelId: number | null;
+  currency: string;
+}
+
+async function evaluateCovenant(row: CovenantRow, asOf: Date): Promise<CovenantEvaluation | null> {
+  const { covenant } = row;
+  const testDate = covenant.nextDueDate ?? covenant.dueDate;
+  if (!testDate || covenant.covenantThreshold === null || !row.organizationId || !row.projectId) return null;
+
+  const [base] = await loadBaseCaseModels([row.projectId]);
+  const periodMonths = covenant.covenantTestPeriodMonths || 12;
+  const periodEnd = addMonths(testDate, 1);
+  const periodStart = addMonths(periodEnd, -periodMonths);
+  const currency = base?.currency ?? "USD";
+
+  const test = testCovenant({
+    testDate,
+    periodMonths,
+    threshold: Number(covenant.covenantThreshold),
+    asOf,
+    model: base?.flows ?? [],
+    actualRevenueByMonth: await loadActualRevenue(row.organizationId, row.projectId, currency, periodStart, periodEnd),
+    actualOpexByMonth: await loadActualOpex(row.projectId, periodStart, periodEnd),
+  });
+
+  return {
+    ...test,
+    contractObligationId: covenant.id,
+    organizationId: row.organizationId,
+    projectId: row.projectId,
+    projectName: row.projectName,
+    contractTitle: row.contractTitle,
+    description: covenant.description,
+    testDate,
+    threshold: Number(covenant.covenantThreshold),
+    financialModelId: base?.model.id ?? null,
+    currency,
+  };
+}
+
+/** Live covenant status for an organization or portfolio, without recording anything */
+export async function getCovenantStatus(filter: { organizationId?: number; portfolioId?: number }, asOf: Date = new Date()) {
+  const evaluations: CovenantEvaluation[] = [];
+  for (const row of await loadCovenants(filter)) {
+    const evaluation = await evaluateCovenant(row, asOf);
+    if (evaluation) evaluations.push(evaluation);
+  }
+  return evaluations.sort((a, b) => a.testDate.getTime() - b.testDate.getTime());
+}
+
+// ============================================================================
+// Monitoring
+// ============================================================================
+
+const formatRatio = (value: number | null) => (value === null ? "n/a" : `${value.toFixed(2)}x`);
+
+// Obligations need an owner; fall back to an org admin when the contract has no uploader
+async function resolveOwner(organizationId: number, createdBy: number | null): Promise<number | null> {
+  if (createdBy) return createdBy;
+  const db = await getDb();
+  if (!db) return null;
+  const [admin] = await db.select({ userId: organizationMembers.userId })
+    .from(organizationMembers)
+    .where(and(
+      eq(organizationMembers.organizationId, organizationId),
+      eq(organizationMembers.role, "admin"),
+      eq(organizationMembers.status, "active"),
+      isNotNull(organizationMembers.userId)
+    ))
+    .limit(1);
+  return admin?.userId ?? null;
+}
+
+async function raiseBreach(row: CovenantRow, evaluation: CovenantEvaluation): Promise<number | null> {
+  const testDay = evaluation.testDate.toISOString().slice(0, 10);
+  const title = `DSCR covenant projected below ${formatRatio(evaluation.threshold)} for ${row.projectName} on ${testDay}`;
+  const message = `Projected DSCR ${formatRatio(evaluation.projectedDscr)} against a ${formatRatio(evaluation.threshold)} minimum `
+    + `(actual ${formatRatio(evaluation.actualDscr)} over ${evaluation.elapsedMonths} of ${evaluation.totalMonths} months). `
+    + evaluation.description;
+
+  let obligationId: number | null = null;
+  const ownerId = await resolveOwner(evaluation.organizationId, row.createdBy);
+  if (ownerId) {
+    obligationId = Number(await createObligation({
+      organizationId: evaluation.organizationId,
+      createdByUserId: ownerId,
+      title,
+      description: message,
+      obligationType: "COMPLIANCE_REQUIREMENT",
+      priority: evaluation.projectedDscr !== null && evaluation.projectedDscr < 1 ? "CRITICAL" : "HIGH",
+      dueAt: evaluation.testDate,
+      sourceType: "INTEGRATION",
+      sourceRef: { contractObligationId: evaluation.contractObligationId, clauseRef: row.covenant.sourceSection ?? undefined },
+    }));
+    await createObligationLink({
+      organizationId: evaluation.organizationId,
+      obligationId,
+      entityType: "PROJECT",
+      entityId: evaluation.projectId,
+      linkType: "PRIMARY",
+      createdByUserId: ownerId,
+    });
+  }
+
+  await createAlert({
+    projectId: evaluation.projectId,
+    type: "system",
+    severity: evaluation.projectedDscr !== null && evaluation.projectedDscr < 1 ? "critical" : "warning",
+    title: title.slice(0, 255),
+    message,
+    linkType: obligationId ? "obligation" : "contractObligation",
+    linkId: obligationId ?? evaluation.contractObligationId,
+  });
+  return obligationId;
+}
+
+/**
+ * Test every covenant (optionally for one org or portfolio), record the
+ * results and raise projected breaches inside their alert window. Each test
+ * date is raised once; later runs only update the recorded figures.
+ */
+export async function runCovenantMonitoring(
+  filter: { organizationId?: number; portfolioId?: number } = {},
+  asOf: Date = new Date()
+): Promise<{ covenants: number; breaches: number; raised: number }> {
+  const db = await getDb();
+  if (!db) return { covenants: 0, breaches: 0, raised: 0 };
+
+  const rows = await loadCovenants(filter);
+  let breaches = 0;
+  let raised = 0;
+
+  for (const row of rows) {
+    try {
+      const evaluation = await evaluateCovenant(row, asOf);
+      if (!evaluation) continue;
+      if (evaluation.status === "projected_breach" || evaluation.status === "breached") breaches++;
+
+      const values = {
+        threshold: evaluation.threshold.toFixed(4),
+        actualDscr: evaluation.actualDscr === null ? null : evaluation.actualDscr.toFixed(4),
+        projectedDscr: evaluation.projectedDscr === null ? null : evaluation.projectedDscr.toFixed(4),
+        status: evaluation.status,
+        elapsedMonths: evaluation.elapsedMonths,
+        totalMonths: evaluation.totalMonths,
+        periodStart: evaluation.periodStart,
+        periodEnd: evaluation.periodEnd,
+        financialModelId: evaluation.financialModelId,
+        details: { currency: evaluation.currency, ...evaluation.details },
+      };
+      await db.insert(covenantTestResults).values({
+        contractObligationId: evaluation.contractObligationId,
+        organizationId: evaluation.organizationId,
+        projectId: evaluation.projectId,
+        testDate: evaluation.testDate,
+        ...values,
+      }).onDuplicateKeyUpdate({ set: values });
+
+      const [result] = await db.select()
+        .from(covenantTestResults)
+        .where(and(
+          eq(covenantTestResults.contractObligationId, evaluation.contractObligationId),
+          eq(covenantTestResults.testDate, evaluation.testDate)
+        ))
+        .limit(1);
+
+      if (
+        evaluation.status === "projected_breach"
+        && result && !result.alertedAt
+        && isInAlertWindow(evaluation.testDate, asOf, row.covenant.alertDaysBefore ?? 30)
+      ) {
+        const obligationId = await raiseBreach(row, evaluation);
+        await db.update(covenantTestResults)
+          .set({ obligationId, alertedAt: new Date() })
+          .where(eq(covenantTestResults.id, result.id));
+        raised++;
+      }
+
+      // A fully elapsed test period settles the covenant's compliance, unless it was waived
+      if (evaluation.elapsedMonths === evaluation.totalMonths && evaluation.status !== "insufficient_data"
+        && row.covenant.complianceStatus !== "waived") {
+        await db.update(contractObligations)
+          .set({
+            complianceStatus: evaluation.status === "breached" ? "non_compliant" : "compliant",
+            lastComplianceCheck: asOf,
+          })
+          .where(eq(contractObligations.id, evaluation.contractObligationId));
+      }
+    } catch (error) {
+      console.error(`[Covenants] Covenant ${row.covenant.id} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return { covenants: rows.length, breaches, raised };
+}
+
+/** Recorded test results for a covenant, latest test date first */
+export async function getCovenantHistory(contractObligationId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select()
+    .from(covenantTestResults)
+    .where(eq(covenantTestResults.contractObligationId, contractObligationId))
+    .orderBy(desc(covenantTestResults.testDate));
+}
@@ -0,0 +1,621 @@
+/**
+ * PPA Metered Billing
+ *
+ * Turns metered export energy into draft invoices for PPA customers:
+ * - Tariffs hang off a customerProjects link: flat or time-of-use rates,
+ *   annual escalator, take-or-pay minimum and excess-energy rate; annual
+ *   quantities are tracked over the contract year from effectiveFrom
+ * - Hourly energy comes from lifetime counter deltas in the 1h telemetry
+ *   rollups (materialized from inverterTelemetry and raw measurements)
+ * - Each energy line carries the opening/closing meter readings it was
+ *   billed from; invoices stay in draft until an operator approves them
+ *
+ * WHO USES THIS:
+ * - System: daily run bills the last closed period for each active tariff
+ * - Admin/Operator: reviews, regenerates and approves drafts
+ */
+
+import { and, eq, inArray } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  PpaMeterReading,
+  PpaTariff,
+  PpaTouBlock,
+  customerProjects,
+  customers,
+  invoiceLineItems,
+  invoices,
+  ppaBillingRuns,
+  ppaTariffs,
+} from "../../drizzle/schema";
+import { ENERGY_COUNTER_METRICS, RollupBucket, counterDeltas, loadRollups } from "./telemetryRollups";
+import { toLocal, zonedTimeToUtc } from "./cronExpression";
+import { sendNewInvoiceEmail } from "./portalNotifications";
+import { snapshotInvoiceFx } from "./currency";
+import { applyInvoiceTaxes } from "./taxEngine";
+import { NUMBER_ATTEMPTS, isDuplicateKey, nextInvoiceNumber } from "./documentNumbers";
+
+// ============================================================================
+// Tariff Calculation
+// ============================================================================
+
+export type PpaBillingCycle = "monthly" | "quarterly" | "annually";
+
+export interface PpaTariffTerms {
+  tariffType: "flat" | "time_of_use";
+  energyRateCents: number;
+  touBlocks: PpaTouBlock[];
+  timezone: string;
+  escalationPercent: number;
+  escalationStartDate: Date;
+  minimumAnnualKwh: number | null;
+  shortfallRateCents: number | null;
+  excessThresholdAnnualKwh: number | null;
+  excessRateCents: number | null;
+  contractStart: Date; // contract years run from here; annual quantities apply per contract year
+  contractEnd: Date | null;
+}
+
+export interface PpaBillingPeriod {
+  start: Date;
+  end: Date;
+  months: number;
+}
+
+export interface PpaHourlyEnergy {
+  hourStart: Date;
+  kwh: number;
+}
+
+export interface PpaCharge {
+  kind: "energy" | "excess" | "shortfall";
+  label: string;
+  kwh: number;
+  rateCents: number; // escalated, per kWh
+  amountCents: number;
+}
+
+const CYCLE_MONTHS: Record<PpaBillingCycle, number> = { monthly: 1, quarterly: 3, annually: 12 };
+const STANDARD_BLOCK = "Standard";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+// Escalated rates keep the tariff's precision (4 decimal places of a cent)
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+/**
+ * Billing period containing `date`, aligned to local calendar months
+ * (quarters start Jan/Apr/Jul/Oct, years start in January)
+ */
+export function billingPeriodFor(date: Date, cycle: PpaBillingCycle, timezone: string): PpaBillingPeriod {
+  const months = CYCLE_MONTHS[cycle];
+  const local = toLocal(date, timezone);
+  const startMonth = Math.floor((local.month - 1) / months) * months; // 0-based
+  const boundary = (monthIndex: number) => zonedTimeToUtc({
+    year: local.year + Math.floor(monthIndex / 12),
+    month: (monthIndex % 12) + 1,
+    day: 1, hour: 0, minute: 0, second: 0,
+  }, timezone);
+
+  return { start: boundary(startMonth), end: boundary(startMonth + months), months };
+}
+
+/** Compounded escalator for the number of full contract years elapsed at `at` */
+export function escalationFactor(percent: number, start: Date, at: Date): number {
+  if (!percent || at <= start) return 1;
+  let years = at.getUTCFullYear() - start.getUTCFullYear();
+  const anniversary = new Date(start);
+  anniversary.setUTCFullYear(at.getUTCFullYear());
+  if (at < anniversary) years--;
+  return Math.pow(1 + percent / 100, Math.max(0, years));
+}
+
+export interface PpaContractYear {
+  start: Date;
+  end: Date; // the anniversary, or the contract end if sooner
+  coverage: number; // share of a full year the tariff covers, for pro-rating annual quantities
+}
+
+const DAY_MS = 86_400_000;
+
+/** Contract year containing `at`, counted in whole years from the contract start */
+export function contractYearFor(terms: Pick<PpaTariffTerms, "contractStart" | "contractEnd">, at: Date): PpaContractYear {
+  const anniversary = (years: number) => {
+    const d = new Date(terms.contractStart);
+    d.setUTCFullYear(terms.contractStart.getUTCFullYear() + years);
+    return d;
+  };
+  let years = Math.max(0, at.getUTCFullYear() - terms.contractStart.getUTCFullYear());
+  if (anniversary(years) > at && years > 0) years--;
+  const start = anniversary(years);
+  const fullEnd = anniversary(years + 1);
+  const end = terms.contractEnd && terms.contractEnd < fullEnd ? terms.contractEnd : fullEnd;
+  const days = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / DAY_MS);
+  return { start, end, coverage: Math.max(0, days(start, end)) / days(start, fullEnd) };
+}
+
+/** First ToU block covering a local hour, or null for the standard rate */
+export function touBlockFor(
+  blocks: PpaTouBlock[],
+  local: { hour: number; dayOfWeek: number; month: number }
+): PpaTouBlock | null {
+  for (const block of blocks) {
+    if (block.daysOfWeek?.length && !block.daysOfWeek.includes(local.dayOfWeek)) continue;
+    if (block.months?.length && !block.months.includes(local.month)) continue;
+    const inHours = block.startHour < block.endHour
+      ? local.hour >= block.startHour && local.hour < block.endHour
+      : local.hour >= block.startHour || local.hour < block.endHour;
+    if (inHours) return block;
+  }
+  return null;
+}
+
+/**
+ * Line charges for a billing period. Annual quantities apply per contract
+ * year: `yearToDateKwh` is what the contract year open at the start of the
+ * period had delivered before it. Hours are billed in time order; once the
+ * year's delivery passes the annual contract quantity the remainder is billed
+ * at the excess rate. A take-or-pay shortfall is settled in the period that
+ * closes the contract year. Both quantities are pro-rated by days for a
+ * contract year cut short by the contract end.
+ */
+export function computePpaCharges(
+  terms: PpaTariffTerms,
+  hours: PpaHourlyEnergy[],
+  period: PpaBillingPeriod,
+  yearToDateKwh = 0
+): PpaCharge[] {
+  const factor = escalationFactor(terms.escalationPercent, terms.escalationStartDate, period.start);
+  const hasExcess = terms.excessThresholdAnnualKwh !== null && terms.excessRateCents !== null;
+
+  const byBlock = new Map<string, { kwh: number; rateCents: number }>();
+  const blockOrder = [...(terms.tariffType === "time_of_use" ? terms.touBlocks.map(b => b.name) : []), STANDARD_BLOCK];
+  let year: PpaContractYear | null = contractYearFor(terms, period.start > terms.contractStart ? period.start : terms.contractStart);
+  let delivered = yearToDateKwh;
+  let excessKwh = 0;
+  let shortfallKwh = 0;
+
+  const closeYear = (closing: PpaContractYear) => {
+    if (terms.minimumAnnualKwh !== null) shortfallKwh += Math.max(0, terms.minimumAnnualKwh * closing.coverage - delivered);
+    delivered = 0;
+    return terms.contractEnd && closing.end >= terms.contractEnd ? null : contractYearFor(terms, closing.end);
+  };
+
+  for (const hour of [...hours].sort((a, b) => a.hourStart.getTime() - b.hourStart.getTime())) {
+    while (year && hour.hourStart >= year.end) year = closeYear(year);
+    if (hour.kwh <= 0 || !year) continue;
+    const threshold = hasExcess ? terms.excessThresholdAnnualKwh! * year.coverage : Infinity;
+    const withinContract = Math.max(0, Math.min(hour.kwh, threshold - delivered));
+    delivered += hour.kwh;
+    excessKwh += hour.kwh - withinContract;
+    if (withinContract <= 0) continue;
+
+    let block: PpaTouBlock | null = null;
+    if (terms.tariffType === "time_of_use") {
+      const local = toLocal(hour.hourStart, terms.timezone);
+      block = touBlockFor(terms.touBlocks, {
+        hour: local.hour,
+        dayOfWeek: new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay(),
+        month: local.month,
+      });
+    }
+    const name = block?.name ?? STANDARD_BLOCK;
+    const entry = byBlock.get(name) ?? { kwh: 0, rateCents: round4((block?.rateCents ?? terms.energyRateCents) * factor) };
+    entry.kwh += withinContract;
+    byBlock.set(name, entry);
+  }
+
+  const charge = (kind: PpaCharge["kind"], label: string, kwh: number, rateCents: number): PpaCharge => {
+    const quantity = round2(kwh);
+    return { kind, label, kwh: quantity, rateCents, amountCents: Math.round(quantity * rateCents) };
+  };
+
+  const charges: PpaCharge[] = [];
+  for (const name of blockOrder) {
+    const entry = byBlock.get(name);
+    if (entry && round2(entry.kwh) > 0) {
+      const label = terms.tariffType === "time_of_use" ? `Energy delivered - ${name}` : "Energy delivered";
+      charges.push(charge("energy", label, entry.kwh, entry.rateCents));
+    }
+  }
+  if (round2(excessKwh) > 0) {
+    charges.push(charge("excess", "Excess energy above contract quantity", excessKwh, round4(terms.excessRateCents! * factor)));
+  }
+  while (year && year.end <= period.end) year = closeYear(year);
+  if (round2(shortfallKwh) > 0) {
+    charges.push(charge("shortfall", "Take-or-pay shortfall", shortfallKwh, round4((terms.shortfallRateCents ?? terms.energyRateCents) * factor)));
+  }
+  return charges;
+}
+
+const toNumber = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+export function tariffTerms(tariff: PpaTariff): PpaTariffTerms {
+  return {
+    tariffType: tariff.tariffType,
+    energyRateCents: toNumber(tariff.energyRateCents) ?? 0,
+    touBlocks: tariff.touBlocks ?? [],
+    timezone: tariff.timezone,
+    escalationPercent: toNumber(tariff.escalationPercent) ?? 0,
+    escalationStartDate: tariff.escalationStartDate ?? tariff.effectiveFrom,
+    minimumAnnualKwh: toNumber(tariff.minimumAnnualKwh),
+    shortfallRateCents: toNumber(tariff.shortfallRateCents),
+    excessThresholdAnnualKwh: toNumber(tariff.excessThresholdAnnualKwh),
+    excessRateCents: toNumber(tariff.excessRateCents),
+    contractStart: tariff.effectiveFrom,
+    contractEnd: tariff.effectiveTo ?? null,
+  };
+}
+
+// ============================================================================
+// Meter Energy
+// ============================================================================
+
+interface MeterEnergy {
+  hours: PpaHourlyEnergy[];
+  readings: PpaMeterReading[];
+  missingHours: number;
+}
+
+/**
+ * Hourly export energy and opening/closing counter readings for the
+ * tariff's meters. The bucket before `from` supplies the opening reading.
+ */
+async function loadMeterEnergy(tariff: PpaTariff, projectId: number, from: Date, to: Date): Promise<MeterEnergy> {
+  const factor = ENERGY_COUNTER_METRICS[tariff.meterMetricCode] ?? 1;
+  const meters = tariff.meterDevices ?? [];
+  const buckets = await loadRollups({
+    organizationId: tariff.organizationId,
+    projectIds: [projectId],
+    deviceIds: meters.length ? meters.map(m => m.deviceId) : undefined,
+    metricCodes: [tariff.meterMetricCode],
+    from: new Date(from.getTime() - 3600_000),
+    to,
+    tier: "1h",
+  });
+
+  const bySeries = new Map<string, RollupBucket[]>();
+  for (const b of buckets) {
+    if (meters.length && !meters.some(m => m.source === b.source && m.deviceId === b.deviceId)) continue;
+    const key = `${b.source}|${b.deviceId}`;
+    if (!bySeries.has(key)) bySeries.set(key, []);
+    bySeries.get(key)!.push(b);
+  }
+
+  const totals = new Map<number, number>();
+  const readings: PpaMeterReading[] = [];
+  const expectedHours = Math.round((to.getTime() - from.getTime()) / 3600_000);
+  let missingHours = bySeries.size ? 0 : expectedHours;
+
+  for (const series of Array.from(bySeries.values())) {
+    const inPeriod = series.filter(b => b.bucketStart >= from);
+    if (inPeriod.length === 0) {
+      missingHours = Math.max(missingHours, expectedHours);
+      continue;
+    }
+    missingHours = Math.max(missingHours, expectedHours - inPeriod.length);
+
+    let energyKwh = 0;
+    for (const { bucketStart, delta } of counterDeltas(series)) {
+      if (bucketStart < from) continue;
+      const kwh = delta * factor;
+      energyKwh += kwh;
+      totals.set(bucketStart.getTime(), (totals.get(bucketStart.getTime()) || 0) + kwh);
+    }
+
+    const opening = series[0].bucketStart < from ? series[0] : null;
+    const closing = inPeriod[inPeriod.length - 1];
+    readings.push({
+      source: closing.source,
+      deviceId: closing.deviceId,
+      metricCode: closing.metricCode,
+      openingReading: opening ? opening.last : inPeriod[0].min,
+      openingAt: (opening ? opening.lastAt : inPeriod[0].bucketStart).toISOString(),
+      closingReading: closing.last,
+      closingAt: closing.lastAt.toISOString(),
+      energyKwh: round2(energyKwh),
+    });
+  }
+
+  return {
+    hours: Array.from(totals.entries()).map(([ts, kwh]) => ({ hourStart: new Date(ts), kwh })),
+    readings,
+    missingHours,
+  };
+}
+
+// ============================================================================
+// Billing Runs
+// ============================================================================
+
+export class PpaBillingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PpaBillingError";
+  }
+}
+
+export interface PpaChargePreview {
+  tariff: PpaTariff;
+  customerId: number;
+  projectId: number;
+  period: PpaBillingPeriod;
+  charges: PpaCharge[];
+  deliveredKwh: number;
+  readings: PpaMeterReading[];
+  missingHours: number;
+}
+
+async function loadTariffContext(tariffId: number) {
+  const db = await getDb();
+  if (!db) throw new PpaBillingError("Database not available");
+
+  const [row] = await db.select({ tariff: ppaTariffs, link: customerProjects })
+    .from(ppaTariffs)
+    .innerJoin(customerProjects, eq(customerProjects.id, ppaTariffs.customerProjectId))
+    .where(eq(ppaTariffs.id, tariffId))
+    .limit(1);
+  if (!row) throw new PpaBillingError("Tariff not found");
+
+  const cycle = row.link.billingCycle;
+  if (cycle === "one_time") throw new PpaBillingError("One-time billing links cannot be metered");
+  return { tariff: row.tariff, link: row.link, cycle: (cycle ?? "monthly") as PpaBillingCycle };
+}
+
+/** Charges for the billing period containing `periodDate`, without writing anything */
+export async function previewPpaCharges(tariffId: number, periodDate: Date): Promise<PpaChargePreview> {
+  const { tariff, link, cycle } = await loadTariffContext(tariffId);
+  const period = billingPeriodFor(periodDate, cycle, tariff.timezone);
+
+  // Only meter the part of the period the tariff is in effect
+  const from = tariff.effectiveFrom > period.start ? tariff.effectiveFrom : period.start;
+  const to = tariff.effectiveTo && tariff.effectiveTo < period.end ? tariff.effectiveTo : period.end;
+  if (from >= to) throw new PpaBillingError("Tariff is not in effect for this period");
+
+  const terms = tariffTerms(tariff);
+  const energy = await loadMeterEnergy(tariff, link.projectId, from, to);
+
+  // Delivery earlier in the contract year counts toward its annual quantities
+  const year = contractYearFor(terms, from);
+  const earlier = year.start < from ? await loadMeterEnergy(tariff, link.projectId, year.start, from) : null;
+  const yearToDateKwh = earlier ? earlier.hours.reduce((s, h) => s + h.kwh, 0) : 0;
+
+  const charges = computePpaCharges(terms, energy.hours, period, yearToDateKwh);
+
+  return {
+    tariff,
+    customerId: link.customerId,
+    projectId: link.projectId,
+    period,
+    charges,
+    deliveredKwh: round2(energy.hours.reduce((s, h) => s + h.kwh, 0)),
+    readings: energy.readings,
+    missingHours: energy.missingHours,
+  };
+}
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type DbTransaction = Parameters<Parameters<Db["transaction"]>[0]>[0];
+
+const formatRate = (rateCents: number, currency: string) => `${(rateCents / 100).toFixed(4)} ${currency}/kWh`;
+
+/**
+ * Create (or, with `regenerate`, replace) the draft invoice for a tariff's
+ * billing period. Issued invoices are never touched. The old draft is
+ * replaced, and the run updated, in one transaction; a regenerated draft
+ * keeps its invoice number.
+ */
+export async function generatePpaInvoice(
+  tariffId: number,
+  periodDate: Date,
+  options: { userId?: number; regenerate?: boolean } = {}
+): Promise<{ runId: number; invoiceId: number | null; created: boolean }> {
+  const db = await getDb();
+  if (!db) throw new PpaBillingError("Database not available");
+
+  const { tariff, cycle } = await loadTariffContext(tariffId);
+  const period = billingPeriodFor(periodDate, cycle, tariff.timezone);
+
+  const [existing] = await db.select()
+    .from(ppaBillingRuns)
+    .where(and(eq(ppaBillingRuns.tariffId, tariffId), eq(ppaBillingRuns.periodStart, period.start)))
+    .limit(1);
+  if (existing?.status === "issued") throw new PpaBillingError("This period has already been invoiced");
+  if (existing && existing.status === "draft" && !options.regenerate) {
+    return { runId: existing.id, invoiceId: existing.invoiceId, created: false };
+  }
+  let previousNumber: string | null = null;
+  if (existing?.invoiceId) {
+    const [invoice] = await db.select({ status: invoices.status, invoiceNumber: invoices.invoiceNumber })
+      .from(invoices)
+      .where(eq(invoices.id, existing.invoiceId))
+      .limit(1);
+    if (invoice && invoice.status !== "draft") throw new PpaBillingError("The invoice for this period is no longer a draft");
+    previousNumber = invoice?.invoiceNumber ?? null;
+  }
+
+  const discardPreviousDraft = async (tx: DbTransaction) => {
+    if (!existing?.invoiceId) return;
+    await tx.delete(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, existing.invoiceId));
+    await tx.delete(invoices).where(and(eq(invoices.id, existing.invoiceId), eq(invoices.status, "draft")));
+  };
+
+  const saveRun = async (tx: DbTransaction, values: Partial<typeof ppaBillingRuns.$inferInsert>) => {
+    if (existing) {
+      await tx.update(ppaBillingRuns).set(values).where(eq(ppaBillingRuns.id, existing.id));
+      return existing.id;
+    }
+    const [result] = await tx.insert(ppaBillingRuns).values({
+      organizationId: tariff.organizationId,
+      tariffId,
+      customerProjectId: tariff.customerProjectId,
+      periodStart: period.start,
+      periodEnd: period.end,
+      createdBy: options.userId ?? null,
+      ...values,
+    });
+    return Number(result.insertId);
+  };
+
+  let preview: PpaChargePreview;
+  try {
+    preview = await previewPpaCharges(tariffId, periodDate);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const runId = await db.transaction(async (tx) => {
+      await discardPreviousDraft(tx);
+      return saveRun(tx, { status: "failed", invoiceId: null, error: message });
+    });
+    return { runId, invoiceId: null, created: false };
+  }
+
+  const [customer] = await db.select().from(customers).where(eq(customers.id, preview.customerId)).limit(1);
+  const taxRate = toNumber(tariff.taxRate) ?? 0;
+  const lines = preview.charges.map(c => ({
+    ...c,
+    taxAmount: Math.round(c.amountCents * (taxRate / 100)),
+  }));
+  const subtotal = lines.reduce((s, l) => s + l.amountCents, 0);
+  const taxAmount = lines.reduce((s, l) => s + l.taxAmount, 0);
+  const totalAmount = subtotal + taxAmount;
+
+  const issueDate = new Date();
+  const dueDate = new Date(issueDate);
+  dueDate.setDate(dueDate.getDate() + (customer?.paymentTermsDays ?? 30));
+
+  const writeDraft = (invoiceNumber: string) => db.transaction(async (tx) => {
+    await discardPreviousDraft(tx);
+
+    const [invoiceResult] = await tx.insert(invoices).values({
+      organizationId: tariff.organizationId,
+      customerId: preview.customerId,
+      invoiceNumber,
+      issueDate,
+      dueDate,
+      subtotal,
+      taxAmount,
+      totalAmount,
+      balanceDue: totalAmount,
+      currency: tariff.currency,
+      status: "draft",
+      notes: `Metered energy billing: ${tariff.name}${preview.missingHours > 0 ? ` (${preview.missingHours} hours without meter data)` : ""}`,
+      createdBy: options.userId ?? null,
+    });
+    const invoiceId = Number(invoiceResult.insertId);
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      await tx.insert(invoiceLineItems).values({
+        invoiceId,
+        description: `${line.label} (${line.kwh.toLocaleString("en-US")} kWh @ ${formatRate(line.rateCents, tariff.currency)})`,
+        quantity: line.kwh.toFixed(2),
+        unitPrice: Math.round(line.rateCents),
+        amount: line.amountCents,
+        taxRate: taxRate.toFixed(2),
+        taxAmount: line.taxAmount,
+        projectId: preview.projectId,
+        serviceType: line.kind === "shortfall" ? "PPA Take-or-Pay" : "PPA Energy",
+        periodStart: preview.period.start,
+        periodEnd: preview.period.end,
+        meterReadings: line.kind === "shortfall" ? null : preview.readings,
+        sortOrder: i,
+      });
+    }
+
+    const runId = await saveRun(tx, {
+      status: "draft",
+      invoiceId,
+      deliveredKwh: preview.deliveredKwh.toFixed(3),
+      meterReadings: preview.readings,
+      missingHours: preview.missingHours,
+      error: null,
+    });
+    return { runId, invoiceId };
+  });
+
+  // Numbers are taken outside the transaction; another organization can still
+  // claim one between the check and the insert, so retry on a duplicate
+  let invoiceNumber = previousNumber ?? await nextInvoiceNumber(db, tariff.organizationId);
+  let written: { runId: number; invoiceId: number };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      written = await writeDraft(invoiceNumber);
+      break;
+    } catch (error) {
+      if (!isDuplicateKey(error) || attempt + 1 >= NUMBER_ATTEMPTS) throw error;
+      invoiceNumber = await nextInvoiceNumber(db, tariff.organizationId);
+    }
+  }
+  const { runId, invoiceId } = written;
+
+  // Org tax codes take over from the tariff's flat rate where assigned
+  await applyInvoiceTaxes(invoiceId);
+
+  console.log(`[PpaBilling] Draft invoice ${invoiceId} for tariff ${tariffId}, ${preview.deliveredKwh} kWh`);
+  return { runId, invoiceId, created: true };
+}
+
+/** Send a reviewed draft to the customer and lock its billing run */
+export async function approvePpaBillingRun(runId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new PpaBillingError("Database not available");
+
+  const [run] = await db.select().from(ppaBillingRuns).where(eq(ppaBillingRuns.id, runId)).limit(1);
+  if (!run || !run.invoiceId) throw new PpaBillingError("Billing run has no draft invoice");
+  if (run.status !== "draft") throw new PpaBillingError("Only draft billing runs can be approved");
+
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.id, run.invoiceId)).limit(1);
+  if (!invoice) throw new PpaBillingError("Invoice not found");
+
+  await db.update(invoices).set({ status: "sent", issueDate: new Date() }).where(eq(invoices.id, invoice.id));
+  await db.update(ppaBillingRuns).set({ status: "issued" }).where(eq(ppaBillingRuns.id, run.id));
+  await snapshotInvoiceFx(invoice.id);
+
+  sendNewInvoiceEmail({
+    invoiceId: invoice.id,
+    customerId: invoice.customerId,
+  }).catch(err => console.error("[PpaBilling] Failed to send invoice email:", err));
+}
+
+/**
+ * Draft invoices for the last closed billing period of every active tariff
+ * Called by: System cron job (daily)
+ */
+export async function runPpaBilling(now: Date = new Date()): Promise<{ tariffs: number; drafted: number; failed: number }> {
+  const db = await getDb();
+  if (!db) return { tariffs: 0, drafted: 0, failed: 0 };
+
+  const rows = await db.select({ tariff: ppaTariffs, link: customerProjects })
+    .from(ppaTariffs)
+    .innerJoin(customerProjects, eq(customerProjects.id, ppaTariffs.customerProjectId))
+    .where(and(
+      eq(ppaTariffs.status, "active"),
+      eq(customerProjects.status, "active"),
+      inArray(customerProjects.billingCycle, ["monthly", "quarterly", "annually"])
+    ));
+
+  let drafted = 0;
+  let failed = 0;
+  for (const { tariff, link } of rows) {
+    const cycle = (link.billingCycle ?? "monthly") as PpaBillingCycle;
+    const current = billingPeriodFor(now, cycle, tariff.timezone);
+    const previous = billingPeriodFor(new Date(current.start.getTime() - 1), cycle, tariff.timezone);
+    if (previous.end <= tariff.effectiveFrom) continue;
+    if (tariff.effectiveTo && tariff.effectiveTo <= previous.start) continue;
+
+    try {
+      const result = await generatePpaInvoice(tariff.id, previous.start);
+      if (result.created) drafted++;
+      else if (result.invoiceId === null) failed++;
+    } catch (error) {
+      failed++;
+      console.error(`[PpaBilling] Tariff ${tariff.id} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`[PpaBilling] ${rows.length} tariffs, ${drafted} drafts, ${failed} failed`);
+  return { tariffs: rows.length, drafted, failed };
+}
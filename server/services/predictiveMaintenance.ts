@@ -1,162 +1,733 @@
 /**
- * Predictive Maintenance ML Service
+ * Predictive Maintenance Service
+ *
+ * Evaluates configurable detectors against 5-minute telemetry rollups:
+ * - ewma: exponentially weighted mean/variance per device and metric
+ * - seasonal_residual: hour-of-day profile of irradiance-normalized output
+ * - peer_comparison: deviation from sibling devices on the same site
+ *
+ * Baselines persist in predictiveBaselines, so learning survives restarts and
+ * each run only evaluates buckets newer than the last one seen. An anomaly
+ * raises a candidate prediction and an alert event; after confirmationCount
+ * consecutive hits (or a manual confirm) the prediction is confirmed and a
+ * 'predictive' work order is opened against the alert.
  */
 
-export interface TelemetryDataPoint {
-  deviceId: string;
+import { and, eq, inArray } from "drizzle-orm";
+import { createWorkOrder, getDb } from "../db";
+import {
+  alertEvents,
+  alertRules,
+  devices,
+  maintenancePredictions,
+  predictiveBaselines,
+  predictiveDetectorConfigs,
+  sites,
+  PredictiveDetectorConfig,
+  MaintenancePrediction,
+} from "../../drizzle/schema";
+import { RollupBucket, bucketAverage, loadRollups } from "./telemetryRollups";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DetectorType = "ewma" | "seasonal_residual" | "peer_comparison";
+
+export interface DetectorParams {
+  /** Score above which an observation is anomalous (in standard deviations) */
+  threshold: number;
+  /** Observations needed before the baseline is trusted (per hour slot for seasonal) */
+  minSamples: number;
+  /** EWMA smoothing factor */
+  alpha: number;
+  /** Irradiance (W/m²) below which seasonal checks are skipped */
+  minIrradiance: number;
+  irradianceMetric: string;
+  /** Site local time offset used for hour-of-day slots */
+  utcOffsetHours: number;
+  /** Actual/expected ratio at which a degrading device is considered failed */
+  failureRatio: number;
+  /** Only flag values below expectation (underperformance) */
+  lowerOnly: boolean;
+}
+
+export const DEFAULT_DETECTOR_PARAMS: DetectorParams = {
+  threshold: 3,
+  minSamples: 12,
+  alpha: 0.05,
+  minIrradiance: 100,
+  irradianceMetric: "irradiance",
+  utcOffsetHours: 0,
+  failureRatio: 0.7,
+  lowerOnly: true,
+};
+
+export interface Observation {
   timestamp: Date;
-  metrics: Record<string, number>;
+  value: number;
+  irradiance?: number | null;
+  /** Same-bucket values of the other devices on the site */
+  peers?: number[];
 }
 
-export interface AnomalyDetectionResult {
-  deviceId: string;
+export interface Evaluation {
   timestamp: Date;
+  value: number;
+  expected: number | null;
+  score: number;
+  evaluated: boolean;
   isAnomaly: boolean;
-  anomalyScore: number;
-  affectedMetrics: string[];
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  description: string;
-}
-
-export interface FailurePrediction {
-  deviceId: string;
-  predictedFailureDate: Date;
-  confidence: number;
-  failureType: string;
-  recommendedAction: string;
-  riskLevel: 'low' | 'medium' | 'high';
-}
-
-export interface DeviceHealthScore {
-  deviceId: string;
-  overallScore: number;
-  componentScores: Record<string, number>;
-  trend: 'improving' | 'stable' | 'degrading';
-  lastUpdated: Date;
-}
-
-export interface MaintenanceSchedule {
-  id: string;
-  deviceId: string;
-  scheduledDate: Date;
-  maintenanceType: 'preventive' | 'corrective' | 'predictive';
-  priority: number;
-  estimatedDuration: number;
-}
-
-const mean = (v: number[]) => v.reduce((a, b) => a + b, 0) / v.length;
-const stdDev = (v: number[]) => Math.sqrt(mean(v.map(x => Math.pow(x - mean(v), 2))));
-
-export class AnomalyDetector {
-  private history: Map<string, Map<string, number[]>> = new Map();
-
-  addDataPoint(point: TelemetryDataPoint): void {
-    if (!this.history.has(point.deviceId)) this.history.set(point.deviceId, new Map());
-    const device = this.history.get(point.deviceId)!;
-    for (const [metric, value] of Object.entries(point.metrics)) {
-      if (!device.has(metric)) device.set(metric, []);
-      const values = device.get(metric)!;
-      values.push(value);
-      if (values.length > 1000) values.shift();
-    }
-  }
+}
 
-  detect(point: TelemetryDataPoint): AnomalyDetectionResult {
-    const device = this.history.get(point.deviceId);
-    if (!device) return { deviceId: point.deviceId, timestamp: point.timestamp, isAnomaly: false, anomalyScore: 0, affectedMetrics: [], severity: 'low', description: 'No data' };
-    
-    const affected: string[] = [];
-    let maxScore = 0;
-    for (const [metric, value] of Object.entries(point.metrics)) {
-      const h = device.get(metric);
-      if (!h || h.length < 10) continue;
-      const z = Math.abs((value - mean(h)) / (stdDev(h) || 1));
-      if (z > 3) { affected.push(metric); maxScore = Math.max(maxScore, z / 3); }
-    }
-    
-    const severity = maxScore > 2 ? 'critical' : maxScore > 1.5 ? 'high' : maxScore > 1 ? 'medium' : 'low';
-    return { deviceId: point.deviceId, timestamp: point.timestamp, isAnomaly: affected.length > 0, anomalyScore: Math.min(maxScore, 1), affectedMetrics: affected, severity, description: affected.length ? `Anomaly in ${affected.join(', ')}` : 'Normal' };
+export interface EwmaState {
+  mean: number;
+  variance: number;
+  n: number;
+}
+
+interface SlotStats {
+  n: number;
+  mean: number;
+  m2: number;
+}
+
+export interface SeasonalState {
+  slots: SlotStats[];
+  /** Daily actual/expected ratios, used to fit a degradation trend */
+  daily: Array<{ day: string; ratio: number }>;
+  currentDay?: { day: string; actual: number; expected: number };
+}
+
+export interface DegradationTrend {
+  slopePerDay: number;
+  r2: number;
+  predictedFailureDate: Date | null;
+}
+
+export function resolveDetectorParams(params?: Record<string, unknown> | null): DetectorParams {
+  const resolved = { ...DEFAULT_DETECTOR_PARAMS };
+  for (const key of Object.keys(resolved) as Array<keyof DetectorParams>) {
+    const value = params?.[key];
+    if (value === undefined || value === null) continue;
+    if (typeof resolved[key] === typeof value) (resolved as Record<string, unknown>)[key] = value;
   }
+  return resolved;
 }
 
-export class FailurePredictor {
-  private rates: Map<string, Map<string, number[]>> = new Map();
+// ============================================================================
+// Detectors
+// ============================================================================
 
-  update(deviceId: string, metric: string, value: number, baseline: number): void {
-    if (!this.rates.has(deviceId)) this.rates.set(deviceId, new Map());
-    const device = this.rates.get(deviceId)!;
-    if (!device.has(metric)) device.set(metric, []);
-    device.get(metric)!.push((baseline - value) / baseline);
+function exceeds(value: number, expected: number, score: number, params: DetectorParams): boolean {
+  return score > params.threshold && (!params.lowerOnly || value < expected);
+}
+
+/**
+ * EWMA detector. Anomalous observations are not folded into the baseline,
+ * so a fault doesn't teach the detector that the fault is normal.
+ */
+export function evaluateEwma(
+  state: EwmaState | undefined,
+  obs: Observation,
+  params: DetectorParams
+): { state: EwmaState; evaluation: Evaluation } {
+  if (!state || state.n === 0) {
+    return {
+      state: { mean: obs.value, variance: 0, n: 1 },
+      evaluation: { timestamp: obs.timestamp, value: obs.value, expected: null, score: 0, evaluated: false, isAnomaly: false },
+    };
   }
 
-  predict(deviceId: string): FailurePrediction | null {
-    const device = this.rates.get(deviceId);
-    if (!device) return null;
-    let maxDeg = 0, critMetric = '', rate = 0;
-    for (const [metric, r] of device) {
-      if (r.length < 5) continue;
-      const deg = r[r.length - 1];
-      const avgRate = (r[r.length - 1] - r[0]) / r.length;
-      if (deg > maxDeg) { maxDeg = deg; critMetric = metric; rate = avgRate; }
-    }
-    if (maxDeg < 0.1 || rate <= 0) return null;
-    const days = Math.max(1, Math.round((0.3 - maxDeg) / rate));
-    const date = new Date(); date.setDate(date.getDate() + days);
-    return { deviceId, predictedFailureDate: date, confidence: Math.min(0.95, 0.5 + maxDeg), failureType: `${critMetric} degradation`, recommendedAction: days < 7 ? 'Immediate maintenance' : 'Plan maintenance', riskLevel: days < 7 ? 'high' : days < 30 ? 'medium' : 'low' };
+  // Floor the deviation so a perfectly flat history doesn't flag rounding noise
+  const std = Math.max(Math.sqrt(state.variance), Math.abs(state.mean) * 0.01, 1e-9);
+  const score = Math.abs(obs.value - state.mean) / std;
+  const evaluated = state.n >= params.minSamples;
+  const isAnomaly = evaluated && exceeds(obs.value, state.mean, score, params);
+
+  let next = state;
+  if (!isAnomaly) {
+    const diff = obs.value - state.mean;
+    const increment = params.alpha * diff;
+    next = {
+      mean: state.mean + increment,
+      variance: (1 - params.alpha) * (state.variance + diff * increment),
+      n: state.n + 1,
+    };
   }
+
+  return {
+    state: next,
+    evaluation: { timestamp: obs.timestamp, value: obs.value, expected: state.mean, score, evaluated, isAnomaly },
+  };
 }
 
-export class HealthScoreCalculator {
-  calculate(deviceId: string, metrics: Record<string, number>, baselines: Record<string, number>): DeviceHealthScore {
-    const scores: Record<string, number> = {};
-    let total = 0, count = 0;
-    for (const [m, v] of Object.entries(metrics)) {
-      if (baselines[m]) { scores[m] = Math.min(100, (v / baselines[m]) * 100); total += scores[m]; count++; }
+function localHour(date: Date, utcOffsetHours: number): number {
+  return ((date.getUTCHours() + Math.round(utcOffsetHours)) % 24 + 24) % 24;
+}
+
+function localDay(date: Date, utcOffsetHours: number): string {
+  return new Date(date.getTime() + utcOffsetHours * 3600_000).toISOString().slice(0, 10);
+}
+
+const MAX_DAILY_HISTORY = 120;
+
+/**
+ * Seasonal residual detector. Output is normalized by irradiance when it is
+ * available (kW per kW/m²), then compared with the learned profile for the
+ * same hour of day. Night-time buckets are skipped.
+ */
+export function evaluateSeasonal(
+  state: SeasonalState | undefined,
+  obs: Observation,
+  params: DetectorParams
+): { state: SeasonalState; evaluation: Evaluation } {
+  const current: SeasonalState = state
+    ? { slots: state.slots.map(s => ({ ...s })), daily: [...state.daily], currentDay: state.currentDay && { ...state.currentDay } }
+    : { slots: Array.from({ length: 24 }, () => ({ n: 0, mean: 0, m2: 0 })), daily: [] };
+
+  const skipped: Evaluation = { timestamp: obs.timestamp, value: obs.value, expected: null, score: 0, evaluated: false, isAnomaly: false };
+  const hasIrradiance = obs.irradiance !== undefined && obs.irradiance !== null;
+  if (hasIrradiance && obs.irradiance! < params.minIrradiance) {
+    return { state: current, evaluation: skipped };
+  }
+
+  const scale = hasIrradiance ? obs.irradiance! / 1000 : 1;
+  const normalized = obs.value / scale;
+  const slot = current.slots[localHour(obs.timestamp, params.utcOffsetHours)];
+
+  // Roll the daily ratio over before recording today's values
+  const day = localDay(obs.timestamp, params.utcOffsetHours);
+  if (current.currentDay && current.currentDay.day !== day) {
+    if (current.currentDay.expected > 0) {
+      current.daily.push({ day: current.currentDay.day, ratio: current.currentDay.actual / current.currentDay.expected });
+      if (current.daily.length > MAX_DAILY_HISTORY) current.daily.shift();
     }
-    const overall = count ? total / count : 50;
-    return { deviceId, overallScore: Math.round(overall), componentScores: scores, trend: overall > 80 ? 'improving' : overall > 60 ? 'stable' : 'degrading', lastUpdated: new Date() };
+    current.currentDay = undefined;
+  }
+
+  let evaluation: Evaluation = { ...skipped };
+  if (slot.n >= params.minSamples) {
+    const std = Math.max(Math.sqrt(slot.m2 / Math.max(1, slot.n - 1)), Math.abs(slot.mean) * 0.01, 1e-9);
+    const score = Math.abs(normalized - slot.mean) / std;
+    evaluation = {
+      timestamp: obs.timestamp,
+      value: obs.value,
+      expected: slot.mean * scale,
+      score,
+      evaluated: true,
+      isAnomaly: exceeds(normalized, slot.mean, score, params),
+    };
+    current.currentDay = current.currentDay || { day, actual: 0, expected: 0 };
+    current.currentDay.actual += normalized;
+    current.currentDay.expected += slot.mean;
   }
+
+  if (!evaluation.isAnomaly) {
+    slot.n += 1;
+    const delta = normalized - slot.mean;
+    slot.mean += delta / slot.n;
+    slot.m2 += delta * (normalized - slot.mean);
+  }
+
+  return { state: current, evaluation };
 }
 
-export class MaintenanceScheduler {
-  private schedules: MaintenanceSchedule[] = [];
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
 
-  addFromPrediction(p: FailurePrediction): MaintenanceSchedule {
-    const s: MaintenanceSchedule = {
-      id: `maint_${Date.now()}`,
-      deviceId: p.deviceId,
-      scheduledDate: new Date(p.predictedFailureDate.getTime() - 7 * 24 * 60 * 60 * 1000),
-      maintenanceType: 'predictive',
-      priority: p.riskLevel === 'high' ? 1 : 2,
-      estimatedDuration: p.riskLevel === 'high' ? 4 : 2
-    };
-    this.schedules.push(s);
-    return s;
+/**
+ * Peer comparison: robust z-score (median/MAD) of a device against the other
+ * devices on its site in the same bucket. Needs at least two peers.
+ */
+export function evaluatePeers(obs: Observation, params: DetectorParams): Evaluation {
+  const peers = obs.peers || [];
+  if (peers.length < 2) {
+    return { timestamp: obs.timestamp, value: obs.value, expected: null, score: 0, evaluated: false, isAnomaly: false };
   }
+  const center = median(peers);
+  const mad = median(peers.map(p => Math.abs(p - center)));
+  const spread = Math.max(1.4826 * mad, Math.abs(center) * 0.05, 1e-9);
+  const score = Math.abs(obs.value - center) / spread;
+  return {
+    timestamp: obs.timestamp,
+    value: obs.value,
+    expected: center,
+    score,
+    evaluated: true,
+    isAnomaly: exceeds(obs.value, center, score, params),
+  };
+}
+
+/**
+ * Least-squares trend over daily actual/expected ratios, projected to the
+ * day the ratio crosses failureRatio. Needs a week of history.
+ */
+export function fitDegradationTrend(
+  daily: Array<{ day: string; ratio: number }>,
+  failureRatio: number
+): DegradationTrend | null {
+  if (daily.length < 7) return null;
+
+  const points = daily.map(d => ({ x: Date.parse(`${d.day}T00:00:00Z`) / 86400_000, y: d.ratio }));
+  const n = points.length;
+  const meanX = points.reduce((s, p) => s + p.x, 0) / n;
+  const meanY = points.reduce((s, p) => s + p.y, 0) / n;
+  const sxx = points.reduce((s, p) => s + (p.x - meanX) ** 2, 0);
+  const sxy = points.reduce((s, p) => s + (p.x - meanX) * (p.y - meanY), 0);
+  const syy = points.reduce((s, p) => s + (p.y - meanY) ** 2, 0);
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const r2 = syy === 0 ? 0 : (sxy * sxy) / (sxx * syy);
 
-  getUpcoming(days: number = 30): MaintenanceSchedule[] {
-    const cutoff = new Date(); cutoff.setDate(cutoff.getDate() + days);
-    return this.schedules.filter(s => s.scheduledDate <= cutoff).sort((a, b) => a.priority - b.priority);
+  let predictedFailureDate: Date | null = null;
+  if (slope < 0) {
+    const lastX = points[n - 1].x;
+    const crossingX = Math.max(lastX, (failureRatio - intercept) / slope);
+    predictedFailureDate = new Date(Math.round(crossingX) * 86400_000);
   }
+
+  return { slopePerDay: slope, r2, predictedFailureDate };
+}
+
+/** Number of consecutive anomalous evaluations at the end of a run */
+export function trailingAnomalies(evaluations: Evaluation[]): { streak: number; evaluated: number } {
+  const evaluated = evaluations.filter(e => e.evaluated);
+  let streak = 0;
+  for (let i = evaluated.length - 1; i >= 0 && evaluated[i].isAnomaly; i--) streak++;
+  return { streak, evaluated: evaluated.length };
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+// How far back a new baseline is trained, and the most a single run will read
+const INITIAL_LOOKBACK_MS = 7 * 86400_000;
+const MAX_LOOKBACK_MS = 14 * 86400_000;
+
+const PRIORITY_BY_SEVERITY = {
+  critical: "critical",
+  high: "high",
+  medium: "medium",
+  low: "low",
+  info: "low",
+} as const;
+
+interface ScopedDevice {
+  id: number;
+  siteId: number;
+  capacityKw: number | null;
+}
+
+export interface DetectorRunResult {
+  detectorConfigId: number;
+  devices: number;
+  evaluations: number;
+  anomalies: number;
+  confirmed: number;
+  error?: string;
 }
 
 export class PredictiveMaintenanceService {
-  private anomaly = new AnomalyDetector();
-  private failure = new FailurePredictor();
-  private health = new HealthScoreCalculator();
-  private scheduler = new MaintenanceScheduler();
-
-  process(point: TelemetryDataPoint, baselines: Record<string, number>) {
-    this.anomaly.addDataPoint(point);
-    const a = this.anomaly.detect(point);
-    const h = this.health.calculate(point.deviceId, point.metrics, baselines);
-    for (const [m, v] of Object.entries(point.metrics)) if (baselines[m]) this.failure.update(point.deviceId, m, v, baselines[m]);
-    const p = this.failure.predict(point.deviceId);
-    if (p && p.riskLevel !== 'low') this.scheduler.addFromPrediction(p);
-    return { anomaly: a, health: h, prediction: p };
-  }
-
-  getUpcomingMaintenance(days = 30) { return this.scheduler.getUpcoming(days); }
+  /** Evaluate every enabled detector */
+  async run(now: Date = new Date()): Promise<DetectorRunResult[]> {
+    const db = await getDb();
+    if (!db) return [];
+
+    const configs = await db.select()
+      .from(predictiveDetectorConfigs)
+      .where(eq(predictiveDetectorConfigs.enabled, true));
+
+    const results: DetectorRunResult[] = [];
+    for (const config of configs) {
+      try {
+        results.push(await this.evaluateDetector(config, now));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[PredictiveMaintenance] Detector ${config.id} failed:`, message);
+        results.push({ detectorConfigId: config.id, devices: 0, evaluations: 0, anomalies: 0, confirmed: 0, error: message });
+      }
+    }
+    return results;
+  }
+
+  async evaluateDetector(config: PredictiveDetectorConfig, now: Date = new Date()): Promise<DetectorRunResult> {
+    const result: DetectorRunResult = { detectorConfigId: config.id, devices: 0, evaluations: 0, anomalies: 0, confirmed: 0 };
+    const db = await getDb();
+    if (!db) return result;
+
+    const params = resolveDetectorParams(config.params);
+    const scoped = await this.loadScopedDevices(config);
+    if (scoped.length === 0) return result;
+    result.devices = scoped.length;
+
+    const baselineRows = await db.select()
+      .from(predictiveBaselines)
+      .where(eq(predictiveBaselines.detectorConfigId, config.id));
+    const baselines = new Map(baselineRows.map(b => [b.deviceId, b]));
+
+    const earliest = Math.min(...scoped.map(d => baselines.get(d.id)?.lastValueAt?.getTime() ?? now.getTime() - INITIAL_LOOKBACK_MS));
+    const from = new Date(Math.max(earliest, now.getTime() - MAX_LOOKBACK_MS));
+
+    const buckets = await loadRollups({
+      deviceIds: scoped.map(d => d.id),
+      metricCodes: [config.metricCode],
+      source: "measurements",
+      from,
+      to: now,
+      tier: "5m",
+    });
+
+    const byDevice = new Map<number, RollupBucket[]>();
+    for (const b of buckets) {
+      if (!byDevice.has(b.deviceId)) byDevice.set(b.deviceId, []);
+      byDevice.get(b.deviceId)!.push(b);
+    }
+
+    const irradiance = config.detectorType === "seasonal_residual"
+      ? await this.loadSiteIrradiance(scoped, params.irradianceMetric, from, now)
+      : new Map<string, number>();
+    const peerValues = config.detectorType === "peer_comparison"
+      ? this.buildPeerIndex(scoped, byDevice)
+      : new Map<string, Map<number, number>>();
+
+    for (const device of scoped) {
+      const series = (byDevice.get(device.id) || []).sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+      const baseline = baselines.get(device.id);
+      const since = baseline?.lastValueAt?.getTime() ?? 0;
+      const fresh = series.filter(b => b.bucketStart.getTime() > since);
+      if (fresh.length === 0) continue;
+
+      let state = baseline?.state as unknown;
+      let sampleCount = baseline?.sampleCount ?? 0;
+      const evaluations: Evaluation[] = [];
+
+      for (const bucket of fresh) {
+        const obs: Observation = { timestamp: bucket.bucketStart, value: bucketAverage(bucket) };
+
+        if (config.detectorType === "ewma") {
+          const out = evaluateEwma(state as EwmaState | undefined, obs, params);
+          state = out.state;
+          evaluations.push(out.evaluation);
+        } else if (config.detectorType === "seasonal_residual") {
+          obs.irradiance = irradiance.get(`${device.siteId}|${bucket.bucketStart.getTime()}`) ?? null;
+          const out = evaluateSeasonal(state as SeasonalState | undefined, obs, params);
+          state = out.state;
+          evaluations.push(out.evaluation);
+        } else {
+          // Compare capacity-normalized output so mixed inverter sizes are comparable
+          const site = peerValues.get(`${device.siteId}|${bucket.bucketStart.getTime()}`);
+          const own = site?.get(device.id);
+          if (own === undefined) continue;
+          obs.value = own;
+          obs.peers = Array.from(site!.entries()).filter(([id]) => id !== device.id).map(([, v]) => v);
+          evaluations.push(evaluatePeers(obs, params));
+          state = { lastScore: evaluations[evaluations.length - 1].score };
+        }
+        sampleCount++;
+      }
+
+      const lastValueAt = fresh[fresh.length - 1].bucketStart;
+      await this.saveBaseline(config, device.id, baseline?.id, (state || {}) as Record<string, unknown>, sampleCount, lastValueAt);
+
+      result.evaluations += evaluations.filter(e => e.evaluated).length;
+      result.anomalies += evaluations.filter(e => e.isAnomaly).length;
+
+      const trend = config.detectorType === "seasonal_residual" && state
+        ? fitDegradationTrend((state as SeasonalState).daily, params.failureRatio)
+        : null;
+      const confirmed = await this.applyOutcome(config, device, evaluations, trend);
+      if (confirmed) result.confirmed++;
+    }
+
+    return result;
+  }
+
+  /** Manually confirm a candidate; opens the work order if there isn't one yet */
+  async confirmPrediction(predictionId: number, userId?: number): Promise<MaintenancePrediction | null> {
+    const db = await getDb();
+    if (!db) return null;
+
+    const [prediction] = await db.select().from(maintenancePredictions).where(eq(maintenancePredictions.id, predictionId)).limit(1);
+    if (!prediction || prediction.status === "dismissed" || prediction.status === "cleared") return prediction || null;
+
+    const [config] = await db.select().from(predictiveDetectorConfigs).where(eq(predictiveDetectorConfigs.id, prediction.detectorConfigId)).limit(1);
+    if (!config) return prediction;
+
+    return this.confirm(config, prediction, userId ?? null, true);
+  }
+
+  async dismissPrediction(predictionId: number, userId: number, note?: string): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+
+    const [prediction] = await db.select().from(maintenancePredictions).where(eq(maintenancePredictions.id, predictionId)).limit(1);
+    if (!prediction) return;
+
+    await db.update(maintenancePredictions)
+      .set({ status: "dismissed", closedAt: new Date(), details: { ...(prediction.details || {}), dismissedBy: userId, note: note ?? null } })
+      .where(eq(maintenancePredictions.id, predictionId));
+
+    if (prediction.alertEventId) {
+      await db.update(alertEvents)
+        .set({ status: "resolved", resolvedAt: new Date(), resolutionNote: note || "Prediction dismissed" })
+        .where(eq(alertEvents.id, prediction.alertEventId));
+    }
+  }
+
+  /** Forget learned baselines, e.g. after a repair or equipment swap */
+  async resetBaseline(detectorConfigId: number, deviceId?: number): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+    const conditions = [eq(predictiveBaselines.detectorConfigId, detectorConfigId)];
+    if (deviceId !== undefined) conditions.push(eq(predictiveBaselines.deviceId, deviceId));
+    await db.delete(predictiveBaselines).where(and(...conditions));
+  }
+
+  private async loadScopedDevices(config: PredictiveDetectorConfig): Promise<ScopedDevice[]> {
+    const db = await getDb();
+    if (!db) return [];
+
+    const conditions = [eq(sites.organizationId, config.organizationId)];
+    if (config.siteId) conditions.push(eq(sites.id, config.siteId));
+
+    const rows = await db.select({ id: devices.id, siteId: devices.siteId, capacityKw: devices.capacityKw })
+      .from(devices)
+      .innerJoin(sites, eq(sites.id, devices.siteId))
+      .where(and(...conditions));
+
+    return rows.map(r => ({ id: r.id, siteId: r.siteId, capacityKw: r.capacityKw ? parseFloat(r.capacityKw) : null }));
+  }
+
+  private async loadSiteIrradiance(scoped: ScopedDevice[], metricCode: string, from: Date, to: Date): Promise<Map<string, number>> {
+    const siteIds = Array.from(new Set(scoped.map(d => d.siteId)));
+    const buckets = await loadRollups({ siteIds, metricCodes: [metricCode], source: "measurements", from, to, tier: "5m" });
+
+    const sums = new Map<string, { sum: number; count: number }>();
+    for (const b of buckets) {
+      const key = `${b.siteId}|${b.bucketStart.getTime()}`;
+      const acc = sums.get(key) || { sum: 0, count: 0 };
+      acc.sum += b.sum;
+      acc.count += b.count;
+      sums.set(key, acc);
+    }
+    return new Map(Array.from(sums.entries()).map(([key, { sum, count }]) => [key, count > 0 ? sum / count : 0]));
+  }
+
+  private buildPeerIndex(scoped: ScopedDevice[], byDevice: Map<number, RollupBucket[]>): Map<string, Map<number, number>> {
+    const index = new Map<string, Map<number, number>>();
+    for (const device of scoped) {
+      for (const b of byDevice.get(device.id) || []) {
+        const key = `${device.siteId}|${b.bucketStart.getTime()}`;
+        if (!index.has(key)) index.set(key, new Map());
+        const value = bucketAverage(b);
+        index.get(key)!.set(device.id, device.capacityKw ? value / device.capacityKw : value);
+      }
+    }
+    return index;
+  }
+
+  private async saveBaseline(
+    config: PredictiveDetectorConfig,
+    deviceId: number,
+    existingId: number | undefined,
+    state: Record<string, unknown>,
+    sampleCount: number,
+    lastValueAt: Date
+  ): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+
+    if (existingId) {
+      await db.update(predictiveBaselines)
+        .set({ state, sampleCount, lastValueAt })
+        .where(eq(predictiveBaselines.id, existingId));
+    } else {
+      await db.insert(predictiveBaselines).values({
+        organizationId: config.organizationId,
+        detectorConfigId: config.id,
+        deviceId,
+        metricCode: config.metricCode,
+        state,
+        sampleCount,
+        lastValueAt,
+      });
+    }
+  }
+
+  /**
+   * Open, extend, confirm or clear the device's prediction based on this
+   * run's evaluations. Returns true when the prediction was confirmed.
+   */
+  private async applyOutcome(
+    config: PredictiveDetectorConfig,
+    device: ScopedDevice,
+    evaluations: Evaluation[],
+    trend: DegradationTrend | null
+  ): Promise<boolean> {
+    const db = await getDb();
+    if (!db) return false;
+
+    const { streak, evaluated } = trailingAnomalies(evaluations);
+    if (evaluated === 0) return false;
+
+    const [open] = await db.select()
+      .from(maintenancePredictions)
+      .where(and(
+        eq(maintenancePredictions.detectorConfigId, config.id),
+        eq(maintenancePredictions.deviceId, device.id),
+        inArray(maintenancePredictions.status, ["candidate", "confirmed"])
+      ))
+      .limit(1);
+
+    const last = evaluations.filter(e => e.evaluated).pop()!;
+
+    // Back to normal: candidates clear; confirmed predictions stay with their work order
+    if (streak === 0) {
+      if (open?.status === "candidate") {
+        await db.update(maintenancePredictions)
+          .set({ status: "cleared", consecutiveHits: 0, closedAt: new Date() })
+          .where(eq(maintenancePredictions.id, open.id));
+        if (open.alertEventId) {
+          await db.update(alertEvents)
+            .set({ status: "resolved", resolvedAt: new Date(), resolutionNote: "Returned to baseline" })
+            .where(eq(alertEvents.id, open.alertEventId));
+        }
+      }
+      return false;
+    }
+
+    const trendFields = {
+      predictedFailureDate: trend?.predictedFailureDate ?? null,
+      trendConfidence: trend ? trend.r2.toFixed(4) : null,
+    };
+    const measurement = {
+      score: last.score.toFixed(4),
+      expectedValue: last.expected === null ? null : last.expected.toFixed(6),
+      actualValue: last.value.toFixed(6),
+      lastDetectedAt: last.timestamp,
+    };
+
+    if (!open) {
+      const alertEventId = await this.raiseAlert(config, device, last);
+      const [inserted] = await db.insert(maintenancePredictions).values({
+        organizationId: config.organizationId,
+        siteId: device.siteId,
+        deviceId: device.id,
+        detectorConfigId: config.id,
+        metricCode: config.metricCode,
+        consecutiveHits: streak,
+        firstDetectedAt: last.timestamp,
+        alertEventId,
+        details: { detectorType: config.detectorType, slopePerDay: trend?.slopePerDay ?? null },
+        ...measurement,
+        ...trendFields,
+      });
+      const [created] = await db.select().from(maintenancePredictions).where(eq(maintenancePredictions.id, Number(inserted.insertId))).limit(1);
+      if (created && streak >= config.confirmationCount) {
+        await this.confirm(config, created, null, config.autoCreateWorkOrder);
+        return true;
+      }
+      return false;
+    }
+
+    // The streak carries over from the previous run only if this run never recovered
+    const hits = streak === evaluated ? open.consecutiveHits + streak : streak;
+    await db.update(maintenancePredictions)
+      .set({ consecutiveHits: hits, ...measurement, ...trendFields })
+      .where(eq(maintenancePredictions.id, open.id));
+
+    if (open.status === "candidate" && hits >= config.confirmationCount) {
+      await this.confirm(config, { ...open, consecutiveHits: hits, ...trendFields }, null, config.autoCreateWorkOrder);
+      return true;
+    }
+    return false;
+  }
+
+  private async raiseAlert(config: PredictiveDetectorConfig, device: ScopedDevice, evaluation: Evaluation): Promise<number | null> {
+    const db = await getDb();
+    if (!db) return null;
+
+    let alertRuleId = config.alertRuleId;
+    if (!alertRuleId) {
+      const [rule] = await db.insert(alertRules).values({
+        organizationId: config.organizationId,
+        siteId: config.siteId,
+        name: `Predictive: ${config.name}`,
+        description: `${config.detectorType} detector on ${config.metricCode}`,
+        condition: "anomaly",
+        threshold: resolveDetectorParams(config.params).threshold.toString(),
+        severity: config.severity,
+        enabled: true,
+      });
+      alertRuleId = Number(rule.insertId);
+      config.alertRuleId = alertRuleId;
+      await db.update(predictiveDetectorConfigs).set({ alertRuleId }).where(eq(predictiveDetectorConfigs.id, config.id));
+    }
+
+    const [event] = await db.insert(alertEvents).values({
+      alertRuleId,
+      siteId: device.siteId,
+      deviceId: device.id,
+      triggeredAt: evaluation.timestamp,
+      triggerValue: evaluation.value.toFixed(6),
+      status: "open",
+    });
+    await db.update(alertRules).set({ lastTriggeredAt: new Date() }).where(eq(alertRules.id, alertRuleId));
+    return Number(event.insertId);
+  }
+
+  private async confirm(
+    config: PredictiveDetectorConfig,
+    prediction: MaintenancePrediction,
+    userId: number | null,
+    createWorkOrderForPrediction: boolean
+  ): Promise<MaintenancePrediction> {
+    const db = await getDb();
+    if (!db) return prediction;
+
+    let workOrderId = prediction.workOrderId;
+    if (createWorkOrderForPrediction && !workOrderId) {
+      // Leave a week before a projected failure, otherwise schedule for tomorrow
+      const tomorrow = new Date(Date.now() + 86400_000);
+      const beforeFailure = prediction.predictedFailureDate
+        ? new Date(prediction.predictedFailureDate.getTime() - 7 * 86400_000)
+        : null;
+      const scheduledStart = beforeFailure && beforeFailure > tomorrow ? beforeFailure : tomorrow;
+
+      const workOrder = await createWorkOrder({
+        organizationId: config.organizationId,
+        sourceType: "alert",
+        alertId: prediction.alertEventId,
+        siteId: prediction.siteId,
+        title: `Predictive: ${config.name} (device ${prediction.deviceId})`,
+        description: [
+          `${config.detectorType} detector flagged ${prediction.metricCode} for ${prediction.consecutiveHits} consecutive intervals.`,
+          prediction.expectedValue !== null ? `Expected ${prediction.expectedValue}, observed ${prediction.actualValue}.` : null,
+          prediction.predictedFailureDate ? `Projected failure around ${prediction.predictedFailureDate.toISOString().slice(0, 10)}.` : null,
+        ].filter(Boolean).join(" "),
+        workType: "predictive",
+        priority: PRIORITY_BY_SEVERITY[config.severity],
+        scheduledStart,
+        createdById: userId,
+      });
+      workOrderId = workOrder ? Number(workOrder.id) : null;
+    }
+
+    const confirmedAt = new Date();
+    await db.update(maintenancePredictions)
+      .set({ status: "confirmed", confirmedAt, confirmedBy: userId, workOrderId })
+      .where(eq(maintenancePredictions.id, prediction.id));
+
+    console.log(`[PredictiveMaintenance] Prediction ${prediction.id} confirmed${workOrderId ? `, work order ${workOrderId}` : ""}`);
+    return { ...prediction, status: "confirmed", confirmedAt, confirmedBy: userId, workOrderId };
+  }
 }
 
 export const predictiveMaintenanceService = new PredictiveMaintenanceService();
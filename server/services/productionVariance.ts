@@ -0,0 +1,456 @@
+/**
+ * Production Variance Service
+ *
+ * Reconciles metered energy against a financial model's production forecast,
+ * one calendar month at a time:
+ * - Forecast P50 comes from the model's annual cash-flow production (or the
+ *   extracted P50/annual figure degraded from COD), shaped into months by the
+ *   project's energy report where one exists
+ * - P90 scales the P50 by the model's (or energy report's) P90/P50 ratio
+ * - Actuals are lifetime-counter deltas from the daily telemetry rollups
+ *
+ * Results are kept in financialModelComparisons as 'metered' production rows,
+ * so the existing variance alerts and comparison exports pick them up.
+ */
+
+import { and, desc, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  energyReports,
+  financialModelCashFlows,
+  financialModelComparisons,
+  financialModelMetrics,
+  financialModels,
+  projects,
+  sites,
+} from "../../drizzle/schema";
+import { getEnergyProduction } from "./telemetryRollups";
+import { getSiteKpis } from "./siteKpis";
+import {
+  DEFAULT_SUSTAINED_MONTHS,
+  DEFAULT_THRESHOLDS,
+  VarianceAlert,
+  VarianceThresholds,
+  checkComparisonForAlerts,
+  findSustainedUnderperformance,
+  sendVarianceAlertNotification,
+} from "./varianceAlerts";
+
+// ============================================================================
+// Forecast
+// ============================================================================
+
+export interface ProductionForecastInputs {
+  /** Annual P50 production (MWh) by calendar year, from the model's cash flows */
+  annualByCalendarYear: Record<number, number>;
+  /** Year-one P50 (MWh) when cash flows don't cover a year */
+  annualP50Mwh: number | null;
+  /** P90 / P50, when the model or energy report has both */
+  p90Ratio: number | null;
+  /** Annual degradation as a decimal (0.005 = 0.5%/year) */
+  degradationRate: number;
+  codDate: Date | null;
+  /** Twelve monthly weights (Jan..Dec) summing to 1 */
+  monthlyShape: number[];
+}
+
+export interface MonthlyForecast {
+  p50Mwh: number;
+  p90Mwh: number | null;
+}
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Normalize twelve monthly production figures into weights, falling back to
+ * days in month when the profile is missing or unusable
+ */
+export function normalizeMonthlyShape(monthly?: number[] | null): number[] {
+  if (monthly && monthly.length === 12 && monthly.every(v => Number.isFinite(v) && v >= 0)) {
+    const total = monthly.reduce((s, v) => s + v, 0);
+    if (total > 0) return monthly.map(v => v / total);
+  }
+  return DAYS_IN_MONTH.map(d => d / 365);
+}
+
+/**
+ * P50/P90 forecast for the UTC calendar month starting at monthStart.
+ * Returns null before COD or when the model has no production figures.
+ */
+export function forecastMonth(inputs: ProductionForecastInputs, monthStart: Date): MonthlyForecast | null {
+  const year = monthStart.getUTCFullYear();
+  const month = monthStart.getUTCMonth();
+  const monthEnd = Date.UTC(year, month + 1, 1);
+
+  if (inputs.codDate && inputs.codDate.getTime() >= monthEnd) return null;
+
+  let annual = inputs.annualByCalendarYear[year] ?? null;
+  if (annual === null && inputs.annualP50Mwh !== null) {
+    const operatingYear = inputs.codDate ? Math.max(0, year - inputs.codDate.getUTCFullYear()) : 0;
+    annual = inputs.annualP50Mwh * Math.pow(1 - inputs.degradationRate, operatingYear);
+  }
+  if (annual === null) return null;
+
+  let p50 = annual * inputs.monthlyShape[month];
+
+  // Pro-rate the COD month
+  if (inputs.codDate && inputs.codDate.getTime() > Date.UTC(year, month, 1)) {
+    const days = (monthEnd - Date.UTC(year, month, 1)) / 86400_000;
+    const operatingDays = (monthEnd - inputs.codDate.getTime()) / 86400_000;
+    p50 *= operatingDays / days;
+  }
+
+  return {
+    p50Mwh: p50,
+    p90Mwh: inputs.p90Ratio !== null ? p50 * inputs.p90Ratio : null,
+  };
+}
+
+const toNumber = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+async function loadForecastInputs(modelId: number): Promise<{ projectId: number; inputs: ProductionForecastInputs } | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [model] = await db.select().from(financialModels).where(eq(financialModels.id, modelId)).limit(1);
+  if (!model) return null;
+
+  const [metrics] = await db.select()
+    .from(financialModelMetrics)
+    .where(eq(financialModelMetrics.financialModelId, modelId))
+    .orderBy(desc(financialModelMetrics.createdAt))
+    .limit(1);
+  const cashFlows = await db.select()
+    .from(financialModelCashFlows)
+    .where(eq(financialModelCashFlows.financialModelId, modelId));
+  const [report] = await db.select()
+    .from(energyReports)
+    .where(and(eq(energyReports.projectId, model.projectId), eq(energyReports.isCurrentVersion, true)))
+    .orderBy(desc(energyReports.reportDate))
+    .limit(1);
+
+  const codDate = metrics?.codDate ?? null;
+  const annualByCalendarYear: Record<number, number> = {};
+  for (const cf of cashFlows) {
+    const production = toNumber(cf.productionMwh);
+    if (production === null || cf.periodType === "construction") continue;
+    // Model years count from COD when no calendar year was extracted
+    const calendarYear = cf.calendarYear ?? (codDate ? codDate.getUTCFullYear() + cf.year - 1 : null);
+    if (calendarYear !== null) annualByCalendarYear[calendarYear] = production;
+  }
+
+  const p50 = toNumber(metrics?.p50Production) ?? toNumber(metrics?.annualProductionMwh) ?? toNumber(report?.p50Production) ?? toNumber(report?.annualProductionMwh);
+  const ratioFrom = (p90: number | null, base: number | null) => (p90 !== null && base ? p90 / base : null);
+  const p90Ratio = ratioFrom(toNumber(metrics?.p90Production), toNumber(metrics?.p50Production))
+    ?? ratioFrom(toNumber(report?.p90Production), toNumber(report?.p50Production));
+
+  return {
+    projectId: model.projectId,
+    inputs: {
+      annualByCalendarYear,
+      annualP50Mwh: p50,
+      p90Ratio,
+      degradationRate: toNumber(metrics?.degradationRate) ?? 0,
+      codDate,
+      monthlyShape: normalizeMonthlyShape(report?.extractedData?.monthlyProduction),
+    },
+  };
+}
+
+// ============================================================================
+// Reconciliation
+// ============================================================================
+
+export function monthStartUtc(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function nextMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+export interface ProductionVarianceRow {
+  comparisonId: number;
+  periodStart: Date;
+  periodEnd: Date;
+  forecastP50Mwh: number;
+  forecastP90Mwh: number | null;
+  actualMwh: number;
+  varianceMwh: number;
+  variancePercent: number;
+}
+
+/**
+ * Upsert metered production comparisons for each month in [from, to).
+ * Revenue/opex fields on an existing row for the month are left untouched.
+ */
+export async function reconcileModelProduction(
+  modelId: number,
+  from: Date,
+  to: Date,
+  userId?: number
+): Promise<ProductionVarianceRow[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const loaded = await loadForecastInputs(modelId);
+  if (!loaded) return [];
+
+  const rows: ProductionVarianceRow[] = [];
+  for (let month = monthStartUtc(from); month < to; month = nextMonth(month)) {
+    const periodEnd = nextMonth(month);
+    const forecast = forecastMonth(loaded.inputs, month);
+    if (!forecast) continue;
+
+    const production = await getEnergyProduction({
+      projectIds: [loaded.projectId],
+      from: month,
+      to: periodEnd,
+      tier: "1d",
+      bucketFor: () => month,
+    });
+    const actualMwh = production.reduce((s, p) => s + p.value, 0) / 1000;
+    const varianceMwh = actualMwh - forecast.p50Mwh;
+    const variancePercent = forecast.p50Mwh > 0 ? (varianceMwh / forecast.p50Mwh) * 100 : 0;
+
+    const values = {
+      projectedProduction: forecast.p50Mwh.toFixed(2),
+      projectedProductionP90: forecast.p90Mwh === null ? null : forecast.p90Mwh.toFixed(2),
+      actualProduction: actualMwh.toFixed(2),
+      productionVariance: varianceMwh.toFixed(2),
+      productionVariancePercent: variancePercent.toFixed(4),
+      productionSource: "metered" as const,
+      comparisonDate: new Date(),
+    };
+
+    const [existing] = await db.select({ id: financialModelComparisons.id })
+      .from(financialModelComparisons)
+      .where(and(
+        eq(financialModelComparisons.financialModelId, modelId),
+        eq(financialModelComparisons.periodType, "monthly"),
+        eq(financialModelComparisons.periodStart, month)
+      ))
+      .limit(1);
+
+    let comparisonId: number;
+    if (existing) {
+      await db.update(financialModelComparisons).set(values).where(eq(financialModelComparisons.id, existing.id));
+      comparisonId = existing.id;
+    } else {
+      const [result] = await db.insert(financialModelComparisons).values({
+        projectId: loaded.projectId,
+        financialModelId: modelId,
+        periodStart: month,
+        periodEnd,
+        periodType: "monthly",
+        createdBy: userId ?? null,
+        ...values,
+      });
+      comparisonId = Number(result.insertId);
+    }
+
+    rows.push({
+      comparisonId,
+      periodStart: month,
+      periodEnd,
+      forecastP50Mwh: forecast.p50Mwh,
+      forecastP90Mwh: forecast.p90Mwh,
+      actualMwh,
+      varianceMwh,
+      variancePercent,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Production alerts for a model's metered months, including runs of
+ * sustained underperformance
+ */
+export async function getProductionVarianceAlerts(
+  modelId: number,
+  thresholds: VarianceThresholds = DEFAULT_THRESHOLDS,
+  sustainedMonths: number = DEFAULT_SUSTAINED_MONTHS
+): Promise<{ alerts: VarianceAlert[]; sustained: VarianceAlert[] }> {
+  const db = await getDb();
+  if (!db) return { alerts: [], sustained: [] };
+
+  const [model] = await db.select().from(financialModels).where(eq(financialModels.id, modelId)).limit(1);
+  if (!model) return { alerts: [], sustained: [] };
+  const [project] = await db.select({ name: projects.name }).from(projects).where(eq(projects.id, model.projectId)).limit(1);
+
+  const comparisons = await db.select()
+    .from(financialModelComparisons)
+    .where(and(
+      eq(financialModelComparisons.financialModelId, modelId),
+      eq(financialModelComparisons.productionSource, "metered")
+    ))
+    .orderBy(financialModelComparisons.periodStart);
+
+  const periods = comparisons.map(c => ({
+    periodStart: c.periodStart,
+    alerts: checkComparisonForAlerts(
+      {
+        id: c.id,
+        projectId: model.projectId,
+        financialModelId: model.id,
+        periodStart: c.periodStart,
+        periodEnd: c.periodEnd,
+        projectedRevenue: null,
+        actualRevenue: null,
+        projectedProduction: toNumber(c.projectedProduction),
+        projectedProductionP90: toNumber(c.projectedProductionP90),
+        actualProduction: toNumber(c.actualProduction),
+        projectedOpex: null,
+        actualOpex: null,
+        projectedEbitda: null,
+        actualEbitda: null,
+      },
+      project?.name || "Unknown Project",
+      model.name,
+      thresholds
+    ),
+  }));
+
+  return {
+    alerts: periods.flatMap(p => p.alerts),
+    sustained: findSustainedUnderperformance(periods, sustainedMonths),
+  };
+}
+
+/**
+ * Reconcile the last closed month for every approved current model and
+ * notify on P90 breaches or sustained underperformance in that month
+ */
+export async function runProductionVariance(now: Date = new Date()): Promise<{ models: number; notified: number }> {
+  const db = await getDb();
+  if (!db) return { models: 0, notified: 0 };
+
+  const models = await db.select({ id: financialModels.id })
+    .from(financialModels)
+    .where(and(eq(financialModels.status, "approved"), eq(financialModels.isCurrentVersion, true)));
+
+  const currentMonth = monthStartUtc(now);
+  const lastMonth = monthStartUtc(new Date(currentMonth.getTime() - 86400_000));
+  let notified = 0;
+
+  for (const model of models) {
+    try {
+      const rows = await reconcileModelProduction(model.id, lastMonth, currentMonth);
+      if (rows.length === 0) continue;
+
+      const { alerts, sustained } = await getProductionVarianceAlerts(model.id);
+      const latest = [
+        ...alerts.filter(a => a.type === "production_p90"),
+        ...sustained,
+      ].filter(a => a.periodStart.getTime() === lastMonth.getTime());
+
+      for (const alert of latest) {
+        if (await sendVarianceAlertNotification(alert)) notified++;
+      }
+    } catch (error) {
+      console.error(`[ProductionVariance] Model ${model.id} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return { models: models.length, notified };
+}
+
+// ============================================================================
+// Lender Report
+// ============================================================================
+
+export interface ProductionVarianceReport {
+  projectName: string;
+  modelName: string;
+  modelVersion: number;
+  generatedAt: Date;
+  period: { start: Date; end: Date };
+  months: Array<ProductionVarianceRow & {
+    belowP90: boolean;
+    sustained: boolean;
+    performanceRatio: number | null;
+    availability: number | null;
+  }>;
+  totals: {
+    forecastP50Mwh: number;
+    forecastP90Mwh: number | null;
+    actualMwh: number;
+    varianceMwh: number;
+    variancePercent: number;
+  };
+  thresholds: VarianceThresholds;
+  sustainedMonths: number;
+}
+
+/**
+ * Month-by-month metered production against the model, with site KPIs for
+ * context. Reconciles the range first so the report reflects current data.
+ */
+export async function buildProductionVarianceReport(
+  modelId: number,
+  from: Date,
+  to: Date,
+  thresholds: VarianceThresholds = DEFAULT_THRESHOLDS,
+  sustainedMonths: number = DEFAULT_SUSTAINED_MONTHS
+): Promise<ProductionVarianceReport | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [model] = await db.select().from(financialModels).where(eq(financialModels.id, modelId)).limit(1);
+  if (!model) return null;
+  const [project] = await db.select({ name: projects.name }).from(projects).where(eq(projects.id, model.projectId)).limit(1);
+
+  const rows = await reconcileModelProduction(modelId, from, to);
+  const { alerts, sustained } = await getProductionVarianceAlerts(modelId, thresholds, sustainedMonths);
+
+  const projectSites = await db.select({ id: sites.id }).from(sites).where(eq(sites.projectId, model.projectId));
+  const kpis = await getSiteKpis({
+    siteIds: projectSites.map(s => s.id),
+    periodType: "month",
+    from: monthStartUtc(from),
+    to,
+    metricCodes: ["performance_ratio", "availability"],
+  });
+  const kpiFor = (month: Date, code: "performance_ratio" | "availability") => {
+    const values = kpis
+      .filter(k => k.periodStart.getTime() === month.getTime() && k.metrics[code] !== undefined)
+      .map(k => k.metrics[code]!);
+    return values.length ? values.reduce((s, v) => s + v, 0) / values.length : null;
+  };
+
+  const months = rows.map(row => ({
+    ...row,
+    belowP90: alerts.some(a => a.type === "production_p90" && a.periodStart.getTime() === row.periodStart.getTime()),
+    sustained: sustained.some(a => a.periodStart.getTime() === row.periodStart.getTime()),
+    performanceRatio: kpiFor(row.periodStart, "performance_ratio"),
+    availability: kpiFor(row.periodStart, "availability"),
+  }));
+
+  const forecastP50Mwh = rows.reduce((s, r) => s + r.forecastP50Mwh, 0);
+  const actualMwh = rows.reduce((s, r) => s + r.actualMwh, 0);
+  const hasP90 = rows.length > 0 && rows.every(r => r.forecastP90Mwh !== null);
+
+  return {
+    projectName: project?.name || "Unknown Project",
+    modelName: model.name,
+    modelVersion: model.version || 1,
+    generatedAt: new Date(),
+    period: { start: monthStartUtc(from), end: to },
+    months,
+    totals: {
+      forecastP50Mwh,
+      forecastP90Mwh: hasP90 ? rows.reduce((s, r) => s + (r.forecastP90Mwh ?? 0), 0) : null,
+      actualMwh,
+      varianceMwh: actualMwh - forecastP50Mwh,
+      variancePercent: forecastP50Mwh > 0 ? ((actualMwh - forecastP50Mwh) / forecastP50Mwh) * 100 : 0,
+    },
+    thresholds,
+    sustainedMonths,
+  };
+}
+
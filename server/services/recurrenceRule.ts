@@ -0,0 +1,480 @@
+/**
+ * Recurrence Rule Engine
+ *
+ * Expands RFC 5545 recurrence rules for recurring obligations. Rules are
+ * evaluated on the wall clock of an IANA timezone, so a report due at 9am on
+ * the last weekday of each quarter stays at 9am local time across DST.
+ *
+ * Supported RRULE parts: FREQ (YEARLY, MONTHLY, WEEKLY, DAILY), INTERVAL,
+ * COUNT, UNTIL, BYMONTH, BYYEARDAY, BYMONTHDAY (negative counts from the end
+ * of the month), BYDAY (with ordinals such as 1MO or -1FR under MONTHLY and
+ * YEARLY), BYHOUR, BYMINUTE, BYSETPOS and WKST. A rule may carry EXDATE and
+ * RDATE lines after the RRULE line:
+ *
+ *   RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1
+ *   EXDATE;TZID=Africa/Lagos:20261231T090000
+ *
+ * The series starts at the obligation's due date (DTSTART). As in RFC 5545,
+ * COUNT counts the instances the RRULE generates before EXDATEs are removed,
+ * and a date-only EXDATE removes every instance on that local date.
+ */
+
+import { LocalTime, isValidTimezone, toLocal, zonedTimeToUtc } from "./cronExpression";
+
+export class RecurrenceParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceParseError";
+  }
+}
+
+export type RecurrenceFrequency = "YEARLY" | "MONTHLY" | "WEEKLY" | "DAILY";
+
+export interface WeekdaySpec {
+  weekday: number; // 0 = Sunday
+  nth: number | null; // 1 = first, -1 = last
+}
+
+export interface RuleDate {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  utc: boolean;
+  dateOnly: boolean;
+  tzid: string | null;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count: number | null;
+  until: RuleDate | null;
+  byMonth: number[];
+  byYearDay: number[];
+  byMonthDay: number[];
+  byDay: WeekdaySpec[];
+  byHour: number[];
+  byMinute: number[];
+  bySetPos: number[];
+  wkst: number;
+  exDates: RuleDate[];
+  rDates: RuleDate[];
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ["YEARLY", "MONTHLY", "WEEKLY", "DAILY"];
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Upper bound on instances returned by one expansion
+export const MAX_OCCURRENCES = 5000;
+
+// Periods walked before giving up on a rule that never matches (e.g. 30 Feb)
+const MAX_PERIODS = 50000;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function parseIntList(value: string, part: string, min: number, max: number, allowNegative = false): number[] {
+  return value.split(",").map(raw => {
+    if (!/^[+-]?\d+$/.test(raw)) throw new RecurrenceParseError(`Invalid value "${raw}" in ${part}`);
+    const n = parseInt(raw, 10);
+    const abs = Math.abs(n);
+    if ((n < 0 && !allowNegative) || abs < min || abs > max) {
+      throw new RecurrenceParseError(`Value ${n} out of range in ${part}`);
+    }
+    return n;
+  });
+}
+
+function parseRuleDate(raw: string, tzid: string | null, dateOnlyParam: boolean): RuleDate {
+  const match = raw.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) throw new RecurrenceParseError(`Invalid date "${raw}"`);
+  const [, y, mo, d, h, mi, s, z] = match;
+  const date: RuleDate = {
+    year: +y, month: +mo, day: +d,
+    hour: h ? +h : 0, minute: mi ? +mi : 0, second: s ? +s : 0,
+    utc: Boolean(z),
+    dateOnly: dateOnlyParam || h === undefined,
+    tzid,
+  };
+  if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > daysInMonth(date.year, date.month)) {
+    throw new RecurrenceParseError(`Invalid date "${raw}"`);
+  }
+  return date;
+}
+
+// EXDATE;TZID=Africa/Lagos:20260101T090000,20260201T090000 or EXDATE;VALUE=DATE:20260101
+function parseDateList(line: string): RuleDate[] {
+  const colon = line.indexOf(":");
+  if (colon < 0) throw new RecurrenceParseError(`Missing value in "${line}"`);
+  const params = line.slice(0, colon).split(";").slice(1);
+  let tzid: string | null = null;
+  let dateOnly = false;
+  for (const param of params) {
+    const [key, value] = param.split("=");
+    if (key.toUpperCase() === "TZID") {
+      if (!isValidTimezone(value)) throw new RecurrenceParseError(`Unknown timezone "${value}"`);
+      tzid = value;
+    } else if (key.toUpperCase() === "VALUE") {
+      dateOnly = value.toUpperCase() === "DATE";
+    }
+  }
+  return line.slice(colon + 1).split(",").map(raw => parseRuleDate(raw.trim(), tzid, dateOnly));
+}
+
+function parseRRule(value: string): Omit<RecurrenceRule, "exDates" | "rDates"> {
+  const parts = new Map<string, string>();
+  for (const part of value.split(";")) {
+    if (!part) continue;
+    const [key, val] = part.split("=");
+    if (!val) throw new RecurrenceParseError(`Invalid rule part "${part}"`);
+    parts.set(key.toUpperCase(), val.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq) throw new RecurrenceParseError("Recurrence rule has no FREQ");
+  if (!FREQUENCIES.includes(freq)) throw new RecurrenceParseError(`Unsupported frequency ${freq}`);
+
+  const rule: Omit<RecurrenceRule, "exDates" | "rDates"> = {
+    freq,
+    interval: 1,
+    count: null,
+    until: null,
+    byMonth: [],
+    byYearDay: [],
+    byMonthDay: [],
+    byDay: [],
+    byHour: [],
+    byMinute: [],
+    bySetPos: [],
+    wkst: 1,
+  };
+
+  for (const [key, val] of Array.from(parts.entries())) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parseIntList(val, key, 1, 1000)[0];
+        break;
+      case "COUNT":
+        rule.count = parseIntList(val, key, 1, MAX_OCCURRENCES)[0];
+        break;
+      case "UNTIL":
+        rule.until = parseRuleDate(val, null, false);
+        break;
+      case "BYMONTH":
+        rule.byMonth = parseIntList(val, key, 1, 12);
+        break;
+      case "BYYEARDAY":
+        rule.byYearDay = parseIntList(val, key, 1, 366, true);
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseIntList(val, key, 1, 31, true);
+        break;
+      case "BYDAY":
+        rule.byDay = val.split(",").map(token => {
+          const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) throw new RecurrenceParseError(`Invalid BYDAY value "${token}"`);
+          const nth = match[1] ? parseInt(match[1], 10) : null;
+          if (nth !== null && (nth === 0 || Math.abs(nth) > 53)) throw new RecurrenceParseError(`Invalid BYDAY ordinal "${token}"`);
+          return { weekday: DAY_CODES.indexOf(match[2]), nth };
+        });
+        break;
+      case "BYHOUR":
+        rule.byHour = parseIntList(val, key, 0, 23);
+        break;
+      case "BYMINUTE":
+        rule.byMinute = parseIntList(val, key, 0, 59);
+        break;
+      case "BYSETPOS":
+        rule.bySetPos = parseIntList(val, key, 1, 366, true);
+        break;
+      case "WKST":
+        if (!DAY_CODES.includes(val)) throw new RecurrenceParseError(`Invalid WKST "${val}"`);
+        rule.wkst = DAY_CODES.indexOf(val);
+        break;
+      default:
+        throw new RecurrenceParseError(`Unsupported rule part ${key}`);
+    }
+  }
+
+  if (rule.count !== null && rule.until !== null) {
+    throw new RecurrenceParseError("COUNT and UNTIL can't both be set");
+  }
+  if (rule.byDay.some(d => d.nth !== null) && (freq === "WEEKLY" || freq === "DAILY")) {
+    throw new RecurrenceParseError("BYDAY ordinals need FREQ=MONTHLY or YEARLY");
+  }
+  if (rule.byDay.some(d => d.nth !== null && Math.abs(d.nth) > 5) && (freq === "MONTHLY" || rule.byMonth.length)) {
+    throw new RecurrenceParseError("BYDAY ordinals within a month run from -5 to 5");
+  }
+  if (rule.byYearDay.length && freq === "MONTHLY") {
+    throw new RecurrenceParseError("BYYEARDAY can't be used with FREQ=MONTHLY");
+  }
+  if (rule.bySetPos.length && !(rule.byMonth.length || rule.byYearDay.length || rule.byMonthDay.length
+    || rule.byDay.length || rule.byHour.length || rule.byMinute.length)) {
+    throw new RecurrenceParseError("BYSETPOS needs another BYxxx part");
+  }
+  return rule;
+}
+
+/**
+ * Parse a stored recurrence rule: a bare RRULE value, or RRULE/EXDATE/RDATE
+ * content lines. Throws RecurrenceParseError on invalid input.
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  let rrule: Omit<RecurrenceRule, "exDates" | "rDates"> | null = null;
+  const exDates: RuleDate[] = [];
+  const rDates: RuleDate[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const name = line.split(/[:;]/)[0].toUpperCase();
+    if (name === "RRULE") {
+      if (rrule) throw new RecurrenceParseError("Only one RRULE is supported");
+      rrule = parseRRule(line.slice(line.indexOf(":") + 1));
+    } else if (name === "EXDATE") {
+      exDates.push(...parseDateList(line));
+    } else if (name === "RDATE") {
+      rDates.push(...parseDateList(line));
+    } else if (line.toUpperCase().startsWith("FREQ=")) {
+      if (rrule) throw new RecurrenceParseError("Only one RRULE is supported");
+      rrule = parseRRule(line);
+    } else {
+      throw new RecurrenceParseError(`Unsupported recurrence line "${name}"`);
+    }
+  }
+
+  if (!rrule) throw new RecurrenceParseError("Recurrence rule has no RRULE");
+  return { ...rrule, exDates, rDates };
+}
+
+export function isValidRecurrenceRule(text: string): boolean {
+  try { parseRecurrenceRule(text); return true; } catch { return false; }
+}
+
+/** Content lines for iCal and calendar APIs, e.g. ["RRULE:FREQ=MONTHLY", "EXDATE:20260101"] */
+export function recurrenceLines(text: string): string[] {
+  return text.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => (line.toUpperCase().startsWith("FREQ=") ? `RRULE:${line}` : line));
+}
+
+// ---------------------------------------------------------------------------
+// Expansion
+// ---------------------------------------------------------------------------
+
+interface DayRef { year: number; month: number; day: number; }
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const weekdayOf = (d: DayRef) => new Date(Date.UTC(d.year, d.month - 1, d.day)).getUTCDay();
+const dayKey = (d: DayRef) => `${d.year}-${d.month}-${d.day}`;
+
+function addDays(d: DayRef, days: number): DayRef {
+  const date = new Date(Date.UTC(d.year, d.month - 1, d.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function monthDays(year: number, month: number): DayRef[] {
+  return Array.from({ length: daysInMonth(year, month) }, (_, i) => ({ year, month, day: i + 1 }));
+}
+
+function yearDays(year: number): DayRef[] {
+  const days: DayRef[] = [];
+  for (let m = 1; m <= 12; m++) days.push(...monthDays(year, m));
+  return days;
+}
+
+// Days in scope matching any BYDAY spec, ordinals counted within the scope
+function byDayWithin(scope: DayRef[], specs: WeekdaySpec[]): DayRef[] {
+  const picked = new Map<string, DayRef>();
+  for (const spec of specs) {
+    const matching = scope.filter(d => weekdayOf(d) === spec.weekday);
+    const chosen = spec.nth === null
+      ? matching
+      : [matching[spec.nth > 0 ? spec.nth - 1 : matching.length + spec.nth]].filter(Boolean);
+    for (const d of chosen) picked.set(dayKey(d), d);
+  }
+  return scope.filter(d => picked.has(dayKey(d)));
+}
+
+function resolveMonthDay(year: number, month: number, n: number): number | null {
+  const dim = daysInMonth(year, month);
+  const day = n > 0 ? n : dim + n + 1;
+  return day >= 1 && day <= dim ? day : null;
+}
+
+function monthCandidates(rule: RecurrenceRule, start: LocalTime, year: number, month: number): DayRef[] {
+  if (rule.byMonthDay.length) {
+    const days = rule.byMonthDay
+      .map(n => resolveMonthDay(year, month, n))
+      .filter((d): d is number => d !== null)
+      .map(day => ({ year, month, day }));
+    if (!rule.byDay.length) return days;
+    const allowed = new Set(byDayWithin(monthDays(year, month), rule.byDay).map(dayKey));
+    return days.filter(d => allowed.has(dayKey(d)));
+  }
+  if (rule.byDay.length) return byDayWithin(monthDays(year, month), rule.byDay);
+  return start.day <= daysInMonth(year, month) ? [{ year, month, day: start.day }] : [];
+}
+
+function yearCandidates(rule: RecurrenceRule, start: LocalTime, year: number): DayRef[] {
+  if (rule.byYearDay.length) {
+    const all = yearDays(year);
+    let days = rule.byYearDay
+      .map(n => all[n > 0 ? n - 1 : all.length + n])
+      .filter((d): d is DayRef => Boolean(d));
+    if (rule.byMonth.length) days = days.filter(d => rule.byMonth.includes(d.month));
+    if (rule.byMonthDay.length) days = days.filter(d => rule.byMonthDay.some(n => resolveMonthDay(d.year, d.month, n) === d.day));
+    if (rule.byDay.length) days = days.filter(d => rule.byDay.some(s => s.weekday === weekdayOf(d)));
+    return days;
+  }
+  if (rule.byDay.length && !rule.byMonth.length && !rule.byMonthDay.length) {
+    return byDayWithin(yearDays(year), rule.byDay);
+  }
+  if (rule.byMonth.length || rule.byMonthDay.length || rule.byDay.length) {
+    const months = rule.byMonth.length ? rule.byMonth : rule.byMonthDay.length || rule.byDay.length
+      ? Array.from({ length: 12 }, (_, i) => i + 1)
+      : [start.month];
+    return months.flatMap(m => monthCandidates(rule, start, year, m));
+  }
+  return start.day <= daysInMonth(year, start.month) ? [{ year, month: start.month, day: start.day }] : [];
+}
+
+// Candidate days in the k-th period after DTSTART's
+function periodDays(rule: RecurrenceRule, start: LocalTime, k: number): DayRef[] {
+  const step = k * rule.interval;
+  switch (rule.freq) {
+    case "YEARLY":
+      return yearCandidates(rule, start, start.year + step);
+    case "MONTHLY": {
+      const index = start.year * 12 + start.month - 1 + step;
+      const year = Math.floor(index / 12);
+      const month = index % 12 + 1;
+      if (rule.byMonth.length && !rule.byMonth.includes(month)) return [];
+      return monthCandidates(rule, start, year, month);
+    }
+    case "WEEKLY": {
+      const first = { year: start.year, month: start.month, day: start.day };
+      const weekStart = addDays(first, -((weekdayOf(first) - rule.wkst + 7) % 7) + 7 * step);
+      const weekdays = rule.byDay.length ? rule.byDay.map(d => d.weekday) : [weekdayOf(first)];
+      return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i))
+        .filter(d => weekdays.includes(weekdayOf(d)))
+        .filter(d => !rule.byMonth.length || rule.byMonth.includes(d.month));
+    }
+    case "DAILY": {
+      const d = addDays({ year: start.year, month: start.month, day: start.day }, step);
+      if (rule.byMonth.length && !rule.byMonth.includes(d.month)) return [];
+      if (rule.byMonthDay.length && !rule.byMonthDay.some(n => resolveMonthDay(d.year, d.month, n) === d.day)) return [];
+      if (rule.byDay.length && !rule.byDay.some(s => s.weekday === weekdayOf(d))) return [];
+      return [d];
+    }
+  }
+}
+
+function periodTimes(rule: RecurrenceRule, start: LocalTime, days: DayRef[]): LocalTime[] {
+  const hours = rule.byHour.length ? Array.from(new Set(rule.byHour)).sort((a, b) => a - b) : [start.hour];
+  const minutes = rule.byMinute.length ? Array.from(new Set(rule.byMinute)).sort((a, b) => a - b) : [start.minute];
+  const sortedDays = Array.from(new Map(days.map(d => [dayKey(d), d])).values())
+    .sort((a, b) => Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day));
+
+  const times: LocalTime[] = [];
+  for (const d of sortedDays) {
+    for (const hour of hours) {
+      for (const minute of minutes) times.push({ ...d, hour, minute, second: start.second });
+    }
+  }
+  if (!rule.bySetPos.length) return times;
+
+  const picked = new Set<number>();
+  for (const pos of rule.bySetPos) {
+    const index = pos > 0 ? pos - 1 : times.length + pos;
+    if (index >= 0 && index < times.length) picked.add(index);
+  }
+  return times.filter((_, i) => picked.has(i));
+}
+
+function ruleDateToInstant(date: RuleDate, timezone: string): Date {
+  if (date.utc) return new Date(Date.UTC(date.year, date.month - 1, date.day, date.hour, date.minute, date.second));
+  return zonedTimeToUtc(date, date.tzid ?? timezone);
+}
+
+const localDateKey = (date: Date, timezone: string) => dayKey(toLocal(date, timezone));
+
+export interface ExpandOptions {
+  timezone?: string;
+  // Inclusive window; instances outside it are still counted towards COUNT
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Instances of a rule whose series starts at `dtstart`, in ascending order.
+ * Without `to`, COUNT or UNTIL, expansion stops at `limit` instances.
+ */
+export function expandRecurrence(rule: string | RecurrenceRule, dtstart: Date, options: ExpandOptions = {}): Date[] {
+  const r = typeof rule === "string" ? parseRecurrenceRule(rule) : rule;
+  const timezone = options.timezone || "UTC";
+  if (!isValidTimezone(timezone)) throw new RecurrenceParseError(`Unknown timezone "${timezone}"`);
+  const limit = Math.min(options.limit ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const from = options.from?.getTime() ?? -Infinity;
+  const to = options.to?.getTime() ?? Infinity;
+
+  const start = toLocal(dtstart, timezone);
+  const until = r.until
+    ? r.until.dateOnly
+      ? zonedTimeToUtc({ ...r.until, hour: 23, minute: 59, second: 59 }, timezone).getTime()
+      : ruleDateToInstant(r.until, timezone).getTime()
+    : Infinity;
+
+  const exInstants = new Set(r.exDates.filter(d => !d.dateOnly).map(d => ruleDateToInstant(d, timezone).getTime()));
+  const exDays = new Set(r.exDates.filter(d => d.dateOnly).map(dayKey));
+  const excluded = (t: number) => exInstants.has(t) || exDays.has(localDateKey(new Date(t), timezone));
+
+  const instants = new Set<number>();
+  let generated = 0;
+  let done = false;
+
+  for (let k = 0; k < MAX_PERIODS && !done; k++) {
+    for (const local of periodTimes(r, start, periodDays(r, start, k))) {
+      const t = zonedTimeToUtc(local, timezone).getTime();
+      if (t < dtstart.getTime()) continue;
+      if (t > until || t > to || (r.count !== null && generated >= r.count)) {
+        done = true;
+        break;
+      }
+      generated++;
+      if (t >= from && !excluded(t)) instants.add(t);
+      if (instants.size >= limit && options.to === undefined) {
+        done = true;
+        break;
+      }
+    }
+  }
+
+  for (const date of r.rDates) {
+    const t = date.dateOnly
+      ? zonedTimeToUtc({ ...date, hour: start.hour, minute: start.minute, second: start.second }, timezone).getTime()
+      : ruleDateToInstant(date, timezone).getTime();
+    if (t >= from && t <= to && !excluded(t)) instants.add(t);
+  }
+
+  return Array.from(instants).sort((a, b) => a - b).slice(0, limit).map(t => new Date(t));
+}
+
+/** First instance strictly after `after`, or null when the series has ended */
+export function nextOccurrence(rule: string | RecurrenceRule, dtstart: Date, after: Date, timezone = "UTC"): Date | null {
+  const [next] = expandRecurrence(rule, dtstart, { timezone, from: new Date(after.getTime() + 1), limit: 1 });
+  return next ?? null;
+}
+
+/** Whether `instant` is one of the series' instances */
+export function isOccurrence(rule: string | RecurrenceRule, dtstart: Date, instant: Date, timezone = "UTC"): boolean {
+  return expandRecurrence(rule, dtstart, { timezone, from: instant, to: instant }).length === 1;
+}
@@ -6,8 +6,6 @@
 
 import {
   listObligations,
-  getObligationsDueSoon,
-  getOverdueObligations,
   getObligationAssignments,
   getReminderPolicyById,
   getEscalationPolicyById,
@@ -19,6 +17,13 @@ import {
   getUserById
 } from "../db";
 import { enqueueJob } from "./jobQueue";
+import {
+  getOccurrencesDueSoon,
+  getOverdueOccurrences,
+  occurrenceStatusUpdate,
+  saveOccurrence,
+  type ObligationInstance
+} from "./obligationOccurrences";
 import type { Obligation, ReminderPolicy, EscalationPolicy, ObligationAssignment } from "../../drizzle/schema";
 
 // Types
@@ -46,6 +51,7 @@ interface EscalationTrigger {
 
 interface NotificationPayload {
   obligationId: number;
+  occurrenceAt?: Date;
   organizationId: number;
   recipientUserId: number;
   channel: "in_app" | "email" | "whatsapp" | "sms";
@@ -53,6 +59,7 @@ interface NotificationPayload {
   templateData: {
     obligationTitle: string;
     dueAt?: Date;
+    occurrenceAt?: Date;
     daysUntilDue?: number;
     daysOverdue?: number;
     escalationLevel?: number;
@@ -171,6 +178,7 @@ async function queueNotification(payload: NotificationPayload): Promise<number>
   const eventId = await createNotificationEvent({
     organizationId: payload.organizationId,
     obligationId: payload.obligationId,
+    occurrenceAt: payload.occurrenceAt,
     eventType: payload.eventType,
     recipientUserId: payload.recipientUserId,
     channel: payload.channel,
@@ -202,7 +210,7 @@ async function queueNotification(payload: NotificationPayload): Promise<number>
  * Process reminders for a single obligation
  */
 async function processObligationReminders(
-  obligation: Obligation,
+  obligation: ObligationInstance,
   assignments: ObligationAssignment[],
   policy: ReminderPolicy
 ): Promise<number> {
@@ -239,6 +247,7 @@ async function processObligationReminders(
     for (const channel of activeChannels) {
       await queueNotification({
         obligationId: obligation.id,
+        occurrenceAt: obligation.occurrenceAt ?? undefined,
         organizationId: obligation.organizationId,
         recipientUserId: assignment.assigneeId,
         channel,
@@ -246,6 +255,7 @@ async function processObligationReminders(
         templateData: {
           obligationTitle: obligation.title,
           dueAt: obligation.dueAt ?? undefined,
+          occurrenceAt: obligation.occurrenceAt ?? undefined,
           daysUntilDue: obligation.dueAt ? Math.max(0, Math.floor(hoursUntilDue(obligation.dueAt) / 24)) : undefined,
           recipientName: user.name ?? undefined
         }
@@ -260,7 +270,7 @@ async function processObligationReminders(
       organizationId: obligation.organizationId,
       obligationId: obligation.id,
       action: "REMINDER_SENT",
-      newValue: { eventType, assigneeCount: assignments.length },
+      newValue: { eventType, assigneeCount: assignments.length, occurrenceAt: obligation.occurrenceAt?.toISOString() },
       systemGenerated: true
     });
   }
@@ -272,7 +282,7 @@ async function processObligationReminders(
  * Process escalations for overdue obligations
  */
 async function processObligationEscalation(
-  obligation: Obligation,
+  obligation: ObligationInstance,
   policy: EscalationPolicy
 ): Promise<number> {
   if (!obligation.dueAt) return 0;
@@ -287,9 +297,13 @@ async function processObligationEscalation(
   const trigger = rules.triggers.find(t => t.daysOverdue === overdue);
   if (!trigger) return 0;
   
-  // Update obligation status to OVERDUE if not already
+  // Update obligation status to OVERDUE if not already; only the missed occurrence of a recurring obligation
   if (obligation.status !== "OVERDUE" && obligation.status !== "COMPLETED" && obligation.status !== "CANCELLED") {
-    await updateObligationStatus(obligation.id, obligation.organizationId, "OVERDUE");
+    if (obligation.occurrenceAt) {
+      await saveOccurrence(obligation, obligation.occurrenceAt, occurrenceStatusUpdate("OVERDUE"));
+    } else {
+      await updateObligationStatus(obligation.id, obligation.organizationId, "OVERDUE");
+    }
   }
   
   // Notify specified users
@@ -300,6 +314,7 @@ async function processObligationEscalation(
       
       await queueNotification({
         obligationId: obligation.id,
+        occurrenceAt: obligation.occurrenceAt ?? undefined,
         organizationId: obligation.organizationId,
         recipientUserId: userId,
         channel: "email",
@@ -307,6 +322,7 @@ async function processObligationEscalation(
         templateData: {
           obligationTitle: obligation.title,
           dueAt: obligation.dueAt,
+          occurrenceAt: obligation.occurrenceAt ?? undefined,
           daysOverdue: overdue,
           escalationLevel: trigger.escalationLevel,
           recipientName: user.name ?? undefined
@@ -322,7 +338,7 @@ async function processObligationEscalation(
       organizationId: obligation.organizationId,
       obligationId: obligation.id,
       action: "ESCALATED",
-      newValue: { escalationLevel: trigger.escalationLevel, daysOverdue: overdue },
+      newValue: { escalationLevel: trigger.escalationLevel, daysOverdue: overdue, occurrenceAt: obligation.occurrenceAt?.toISOString() },
       systemGenerated: true
     });
   }
@@ -330,9 +346,31 @@ async function processObligationEscalation(
   return notificationsSent;
 }
 
+/**
+ * Assignments for an occurrence: its own assignees when set, otherwise the series'
+ */
+function occurrenceAssignments(
+  obligation: ObligationInstance,
+  seriesAssignments: ObligationAssignment[]
+): ObligationAssignment[] {
+  if (!obligation.occurrenceAssignees) return seriesAssignments;
+  
+  return obligation.occurrenceAssignees.map((assignee, index): ObligationAssignment => ({
+    id: -(index + 1),
+    organizationId: obligation.organizationId,
+    obligationId: obligation.id,
+    assigneeType: assignee.assigneeType,
+    assigneeId: assignee.assigneeId,
+    role: assignee.role,
+    createdByUserId: null,
+    createdAt: obligation.updatedAt
+  }));
+}
+
 /**
  * Main reminder processing job
- * Called periodically (e.g., every hour) to process all obligations
+ * Called periodically (e.g., every hour) to process all obligations.
+ * Recurring obligations are processed per occurrence.
  */
 export async function processReminders(organizationId: number): Promise<{
   processed: number;
@@ -343,23 +381,27 @@ export async function processReminders(organizationId: number): Promise<{
   let remindersSent = 0;
   let escalationsSent = 0;
   
-  // Get obligations that might need reminders (due within 30 days or overdue)
-  const dueSoon = await getObligationsDueSoon(organizationId, 30);
-  const overdue = await getOverdueObligations(organizationId);
+  // Get occurrences that might need reminders (due within 30 days or overdue)
+  const dueSoon = await getOccurrencesDueSoon(organizationId, 30);
+  const overdue = await getOverdueOccurrences(organizationId);
   
   // Combine and dedupe
-  const obligationMap = new Map<number, Obligation>();
+  const obligationMap = new Map<string, ObligationInstance>();
   for (const o of [...dueSoon, ...overdue]) {
-    obligationMap.set(o.id, o);
+    obligationMap.set(`${o.id}:${o.occurrenceAt?.getTime() ?? ""}`, o);
   }
   
   const obligations = Array.from(obligationMap.values());
+  const seriesAssignments = new Map<number, ObligationAssignment[]>();
   
   for (const obligation of obligations) {
     processed++;
     
     // Get assignments
-    const assignments = await getObligationAssignments(obligation.id, organizationId);
+    if (!seriesAssignments.has(obligation.id)) {
+      seriesAssignments.set(obligation.id, await getObligationAssignments(obligation.id, organizationId));
+    }
+    const assignments = occurrenceAssignments(obligation, seriesAssignments.get(obligation.id)!);
     
     // Get reminder policy
     let reminderPolicy: ReminderPolicy | null = null;
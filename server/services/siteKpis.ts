@@ -0,0 +1,538 @@
+/**
+ * Site Performance KPIs
+ *
+ * Daily and monthly solar KPIs per site, computed from hourly telemetry
+ * rollups and stored in derivedMetrics (ratios as percent):
+ * - performance_ratio: final yield / reference yield (IEC 61724-1)
+ * - performance_ratio_stc: PR with expected output corrected to 25 °C module temperature
+ * - specific_yield: kWh per kWp
+ * - availability: technical, share of daylight inverter-hours with output
+ * - contractual_availability: as above, with excluded periods deemed available
+ * - energy_availability: produced / (produced + estimated lost) energy
+ *
+ * Days and months are UTC-aligned, like the rollup tiers. Daily values carry
+ * dataLineage to the daily rollups they were computed from; monthly values
+ * point at the daily values of the month.
+ */
+
+import { and, eq, gt, gte, inArray, lt, lte } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  availabilityExclusions,
+  dataLineage,
+  derivedMetrics,
+  devices,
+  inverterDevices,
+  siteKpiSettings,
+  sites,
+  telemetryRollups,
+} from "../../drizzle/schema";
+import { RollupBucket, bucketAverage, getEnergyProduction, loadRollups } from "./telemetryRollups";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const KPI_METRIC_CODES = [
+  "performance_ratio",
+  "performance_ratio_stc",
+  "specific_yield",
+  "availability",
+  "contractual_availability",
+  "energy_availability",
+] as const;
+
+export type KpiMetricCode = typeof KPI_METRIC_CODES[number];
+export type KpiPeriodType = "day" | "month";
+
+export const KPI_CALCULATION_METHOD = "iec61724_hourly";
+
+/** Site totals for one hour. Device keys are `m:<devices.id>` or `i:<inverterDevices.id>` */
+export interface KpiHour {
+  hourStart: Date;
+  irradiance: number | null; // W/m², plane of array
+  moduleTemperature: number | null; // °C
+  energyKwh: number | null;
+  devicePowerKw: Record<string, number>;
+}
+
+export interface KpiSettings {
+  capacityKwp: number;
+  temperatureCoefficient: number;
+  referenceTemperatureC: number;
+  availabilityIrradianceThreshold: number;
+  deviceCapacityKw: Record<string, number>;
+}
+
+export interface KpiExclusion {
+  startAt: Date;
+  endAt: Date;
+  deviceKey: string | null;
+}
+
+export interface KpiResult {
+  energyKwh: number;
+  referenceYield: number; // kWh/m² ÷ 1 kW/m², i.e. peak sun hours
+  specificYield: number | null;
+  performanceRatio: number | null;
+  performanceRatioStc: number | null;
+  availability: number | null;
+  contractualAvailability: number | null;
+  energyAvailability: number | null;
+  lostEnergyKwh: number;
+  daylightDeviceHours: number;
+}
+
+export const DEFAULT_KPI_SETTINGS = {
+  temperatureCoefficient: -0.004,
+  referenceTemperatureC: 25,
+  availabilityIrradianceThreshold: 50,
+  irradianceMetricCode: "irradiance",
+};
+
+// Used to estimate lost energy when the period has no measurable PR
+const FALLBACK_PR = 0.8;
+// Output at or below this share of a device's capacity counts as not producing
+const MIN_OUTPUT_SHARE = 0.001;
+
+const POWER_METRICS: Record<string, number> = { active_power_kw: 1, active_power: 0.001 };
+const MODULE_TEMPERATURE_METRIC = "module_temperature";
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+const percent = (value: number) => Math.round(value * 100 * 10000) / 10000;
+
+/**
+ * KPIs over a set of hours. Devices listed but missing from a daylight hour
+ * are counted as unavailable for that hour.
+ */
+export function computeSiteKpis(
+  hours: KpiHour[],
+  deviceKeys: string[],
+  settings: KpiSettings,
+  exclusions: KpiExclusion[] = []
+): KpiResult {
+  const p0 = settings.capacityKwp;
+  const fallbackDeviceCapacity = deviceKeys.length > 0 ? p0 / deviceKeys.length : 0;
+  const capacityOf = (key: string) => settings.deviceCapacityKw[key] || fallbackDeviceCapacity;
+
+  let energy = 0;
+  let referenceYield = 0;
+  let expectedStc = 0;
+  for (const hour of hours) {
+    const hourEnergy = hour.energyKwh ?? Object.values(hour.devicePowerKw).reduce((s, p) => s + Math.max(p, 0), 0);
+    energy += Math.max(hourEnergy, 0);
+
+    const g = Math.max(hour.irradiance ?? 0, 0) / 1000;
+    referenceYield += g;
+    const temperature = hour.moduleTemperature ?? settings.referenceTemperatureC;
+    expectedStc += p0 * g * (1 + settings.temperatureCoefficient * (temperature - settings.referenceTemperatureC));
+  }
+
+  const performanceRatio = p0 > 0 && referenceYield > 0 ? energy / (p0 * referenceYield) : null;
+  const performanceRatioStc = expectedStc > 0 ? energy / expectedStc : null;
+
+  // Availability over daylight device-hours
+  const prForLoss = performanceRatio !== null && performanceRatio > 0 ? Math.min(performanceRatio, 1) : FALLBACK_PR;
+  let total = 0;
+  let available = 0;
+  let deemedAvailable = 0;
+  let lostEnergy = 0;
+
+  for (const hour of hours) {
+    if (hour.irradiance === null || hour.irradiance < settings.availabilityIrradianceThreshold) continue;
+    const hourEnd = hour.hourStart.getTime() + 3600_000;
+
+    for (const key of deviceKeys) {
+      total++;
+      const capacity = capacityOf(key);
+      const output = hour.devicePowerKw[key];
+      if (output !== undefined && output > capacity * MIN_OUTPUT_SHARE) {
+        available++;
+        continue;
+      }
+
+      lostEnergy += capacity * (hour.irradiance / 1000) * prForLoss;
+      const excluded = exclusions.some(e =>
+        (e.deviceKey === null || e.deviceKey === key) &&
+        e.startAt.getTime() < hourEnd &&
+        e.endAt.getTime() > hour.hourStart.getTime()
+      );
+      if (excluded) deemedAvailable++;
+    }
+  }
+
+  return {
+    energyKwh: energy,
+    referenceYield,
+    specificYield: p0 > 0 ? energy / p0 : null,
+    performanceRatio: performanceRatio === null ? null : percent(performanceRatio),
+    performanceRatioStc: performanceRatioStc === null ? null : percent(performanceRatioStc),
+    availability: total > 0 ? percent(available / total) : null,
+    contractualAvailability: total > 0 ? percent((available + deemedAvailable) / total) : null,
+    energyAvailability: energy + lostEnergy > 0 ? percent(energy / (energy + lostEnergy)) : null,
+    lostEnergyKwh: lostEnergy,
+    daylightDeviceHours: total,
+  };
+}
+
+export function kpiMetricValues(result: KpiResult): Record<KpiMetricCode, number | null> {
+  return {
+    performance_ratio: result.performanceRatio,
+    performance_ratio_stc: result.performanceRatioStc,
+    specific_yield: result.specificYield,
+    availability: result.availability,
+    contractual_availability: result.contractualAvailability,
+    energy_availability: result.energyAvailability,
+  };
+}
+
+export function kpiPeriodBounds(date: Date, periodType: KpiPeriodType): { start: Date; end: Date } {
+  if (periodType === "day") {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    return { start, end: new Date(start.getTime() + 86400_000) };
+  }
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+// ============================================================================
+// Inputs
+// ============================================================================
+
+type SiteRow = typeof sites.$inferSelect;
+
+interface SiteInputs {
+  hours: KpiHour[];
+  deviceKeys: string[];
+  settings: KpiSettings;
+  exclusions: Array<KpiExclusion & { id: number }>;
+  /** Rollup scope used, for lineage */
+  scope: { siteIds?: number[]; projectIds?: number[] };
+  metricCodes: string[];
+}
+
+const hourOf = (date: Date) => Math.floor(date.getTime() / 3600_000) * 3600_000;
+const deviceKey = (b: RollupBucket) => `${b.source === "inverter_api" ? "i" : "m"}:${b.deviceId}`;
+
+async function loadSiteInputs(site: SiteRow, from: Date, to: Date): Promise<SiteInputs | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [settingsRow] = await db.select().from(siteKpiSettings).where(eq(siteKpiSettings.siteId, site.id)).limit(1);
+  const capacityKwp = parseFloat(settingsRow?.dcCapacityKwp ?? site.capacityKw ?? "0") || 0;
+  const irradianceMetric = settingsRow?.irradianceMetricCode || DEFAULT_KPI_SETTINGS.irradianceMetricCode;
+
+  // Inverter API telemetry is keyed by project; attribute it to the site when the project has only one
+  const projectSites = await db.select({ id: sites.id }).from(sites).where(eq(sites.projectId, site.projectId));
+  const scope = projectSites.length === 1 ? { projectIds: [site.projectId] } : { siteIds: [site.id] };
+
+  const metricCodes = [...Object.keys(POWER_METRICS), irradianceMetric, MODULE_TEMPERATURE_METRIC];
+  const buckets = await loadRollups({ ...scope, metricCodes, from, to, tier: "1h" });
+  const energy = await getEnergyProduction({ ...scope, from, to, tier: "1h", bucketFor: d => new Date(hourOf(d)) });
+
+  const hours = new Map<number, KpiHour & { irradianceSamples: number[]; temperatureSamples: number[] }>();
+  const hourFor = (ts: number) => {
+    let hour = hours.get(ts);
+    if (!hour) {
+      hour = { hourStart: new Date(ts), irradiance: null, moduleTemperature: null, energyKwh: null, devicePowerKw: {}, irradianceSamples: [], temperatureSamples: [] };
+      hours.set(ts, hour);
+    }
+    return hour;
+  };
+
+  const keys = new Set<string>();
+  for (const b of buckets) {
+    const hour = hourFor(hourOf(b.bucketStart));
+    const value = bucketAverage(b);
+    if (b.metricCode in POWER_METRICS) {
+      const key = deviceKey(b);
+      keys.add(key);
+      hour.devicePowerKw[key] = (hour.devicePowerKw[key] || 0) + value * POWER_METRICS[b.metricCode];
+    } else if (b.metricCode === irradianceMetric) {
+      hour.irradianceSamples.push(value);
+    } else if (b.metricCode === MODULE_TEMPERATURE_METRIC) {
+      hour.temperatureSamples.push(value);
+    }
+  }
+  for (const e of energy) hourFor(e.bucketStart.getTime()).energyKwh = e.value;
+
+  const avg = (values: number[]) => values.length ? values.reduce((s, v) => s + v, 0) / values.length : null;
+  const kpiHours = Array.from(hours.values())
+    .sort((a, b) => a.hourStart.getTime() - b.hourStart.getTime())
+    .map(({ irradianceSamples, temperatureSamples, ...hour }) => ({
+      ...hour,
+      irradiance: avg(irradianceSamples),
+      moduleTemperature: avg(temperatureSamples),
+    }));
+
+  // Per-device capacities where the inventory has them
+  const deviceCapacityKw: Record<string, number> = {};
+  const keyList = Array.from(keys);
+  const measurementIds = keyList.filter(k => k.startsWith("m:")).map(k => Number(k.slice(2)));
+  const inverterIds = keyList.filter(k => k.startsWith("i:")).map(k => Number(k.slice(2)));
+  if (measurementIds.length) {
+    const rows = await db.select({ id: devices.id, capacityKw: devices.capacityKw }).from(devices).where(inArray(devices.id, measurementIds));
+    for (const r of rows) if (r.capacityKw) deviceCapacityKw[`m:${r.id}`] = parseFloat(r.capacityKw);
+  }
+  if (inverterIds.length) {
+    const rows = await db.select({ id: inverterDevices.id, ratedPowerKw: inverterDevices.ratedPowerKw }).from(inverterDevices).where(inArray(inverterDevices.id, inverterIds));
+    for (const r of rows) if (r.ratedPowerKw) deviceCapacityKw[`i:${r.id}`] = parseFloat(r.ratedPowerKw);
+  }
+
+  const exclusionRows = await db.select()
+    .from(availabilityExclusions)
+    .where(and(
+      eq(availabilityExclusions.siteId, site.id),
+      lt(availabilityExclusions.startAt, to),
+      gt(availabilityExclusions.endAt, from)
+    ));
+
+  return {
+    hours: kpiHours,
+    deviceKeys: keyList,
+    settings: {
+      capacityKwp,
+      temperatureCoefficient: parseFloat(settingsRow?.temperatureCoefficient ?? "") || DEFAULT_KPI_SETTINGS.temperatureCoefficient,
+      referenceTemperatureC: parseFloat(settingsRow?.referenceTemperatureC ?? "") || DEFAULT_KPI_SETTINGS.referenceTemperatureC,
+      availabilityIrradianceThreshold: parseFloat(settingsRow?.availabilityIrradianceThreshold ?? "") || DEFAULT_KPI_SETTINGS.availabilityIrradianceThreshold,
+      deviceCapacityKw,
+    },
+    exclusions: exclusionRows.map(e => ({
+      id: e.id,
+      startAt: e.startAt,
+      endAt: e.endAt,
+      deviceKey: e.deviceId ? `m:${e.deviceId}` : null,
+    })),
+    scope,
+    metricCodes,
+  };
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+interface LineageSource {
+  sourceTable: string;
+  sourceId: number;
+  transformationType: string;
+}
+
+/**
+ * Replace a period's KPI rows for a site, with lineage for each stored value
+ */
+async function storeKpis(
+  siteId: number,
+  periodType: KpiPeriodType,
+  start: Date,
+  end: Date,
+  values: Record<KpiMetricCode, number | null>,
+  lineage: (metricCode: KpiMetricCode) => LineageSource[]
+): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const existing = await db.select({ id: derivedMetrics.id })
+    .from(derivedMetrics)
+    .where(and(
+      eq(derivedMetrics.siteId, siteId),
+      eq(derivedMetrics.periodType, periodType),
+      eq(derivedMetrics.periodStart, start),
+      inArray(derivedMetrics.metricCode, [...KPI_METRIC_CODES])
+    ));
+  if (existing.length) {
+    const ids = existing.map(r => r.id);
+    await db.delete(dataLineage).where(and(eq(dataLineage.targetTable, "derivedMetrics"), inArray(dataLineage.targetId, ids)));
+    await db.delete(derivedMetrics).where(inArray(derivedMetrics.id, ids));
+  }
+
+  const inserted: number[] = [];
+  for (const metricCode of KPI_METRIC_CODES) {
+    const value = values[metricCode];
+    if (value === null || !Number.isFinite(value)) continue;
+
+    const [result] = await db.insert(derivedMetrics).values({
+      siteId,
+      metricCode,
+      periodStart: start,
+      periodEnd: end,
+      periodType,
+      value: value.toFixed(6),
+      calculationMethod: KPI_CALCULATION_METHOD,
+    });
+    const id = Number(result.insertId);
+    inserted.push(id);
+
+    const sources = lineage(metricCode);
+    if (sources.length) {
+      await db.insert(dataLineage).values(sources.map(s => ({ targetTable: "derivedMetrics", targetId: id, ...s })));
+    }
+  }
+  return inserted;
+}
+
+/**
+ * Compute and store one site's KPIs for a UTC day or month
+ */
+export async function calculateSiteKpis(siteId: number, date: Date, periodType: KpiPeriodType): Promise<KpiResult | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [site] = await db.select().from(sites).where(eq(sites.id, siteId)).limit(1);
+  if (!site) return null;
+
+  const { start, end } = kpiPeriodBounds(date, periodType);
+  const inputs = await loadSiteInputs(site, start, end);
+  if (!inputs || inputs.hours.length === 0) return null;
+
+  const result = computeSiteKpis(inputs.hours, inputs.deviceKeys, inputs.settings, inputs.exclusions);
+
+  let lineage: (metricCode: KpiMetricCode) => LineageSource[];
+  if (periodType === "day") {
+    const conditions = [
+      eq(telemetryRollups.tier, "1d"),
+      eq(telemetryRollups.bucketStart, start),
+      inArray(telemetryRollups.metricCode, inputs.metricCodes),
+    ];
+    if (inputs.scope.projectIds) conditions.push(inArray(telemetryRollups.projectId, inputs.scope.projectIds));
+    if (inputs.scope.siteIds) conditions.push(inArray(telemetryRollups.siteId, inputs.scope.siteIds));
+    const rollupIds = (await db.select({ id: telemetryRollups.id }).from(telemetryRollups).where(and(...conditions))).map(r => r.id);
+
+    lineage = metricCode => [
+      ...rollupIds.map(sourceId => ({ sourceTable: "telemetryRollups", sourceId, transformationType: "calculation" })),
+      ...(metricCode === "contractual_availability"
+        ? inputs.exclusions.map(e => ({ sourceTable: "availabilityExclusions", sourceId: e.id, transformationType: "exclusion" }))
+        : []),
+    ];
+  } else {
+    const daily = await db.select({ id: derivedMetrics.id, metricCode: derivedMetrics.metricCode })
+      .from(derivedMetrics)
+      .where(and(
+        eq(derivedMetrics.siteId, siteId),
+        eq(derivedMetrics.periodType, "day"),
+        gte(derivedMetrics.periodStart, start),
+        lt(derivedMetrics.periodStart, end),
+        inArray(derivedMetrics.metricCode, [...KPI_METRIC_CODES])
+      ));
+    lineage = metricCode => daily
+      .filter(d => d.metricCode === metricCode)
+      .map(d => ({ sourceTable: "derivedMetrics", sourceId: d.id, transformationType: "aggregation" }));
+  }
+
+  await storeKpis(siteId, periodType, start, end, kpiMetricValues(result), lineage);
+  return result;
+}
+
+// Recent days are recomputed each run so late telemetry is reflected
+const RECALCULATION_DAYS = 3;
+
+/**
+ * Recalculate the last few closed days and their months for every active site
+ */
+export async function runSiteKpis(now: Date = new Date()): Promise<{ sites: number; calculated: number; errors: number }> {
+  const db = await getDb();
+  if (!db) return { sites: 0, calculated: 0, errors: 0 };
+
+  const activeSites = await db.select({ id: sites.id }).from(sites).where(eq(sites.status, "active"));
+  const today = kpiPeriodBounds(now, "day").start;
+  const days = Array.from({ length: RECALCULATION_DAYS }, (_, i) => new Date(today.getTime() - (i + 1) * 86400_000));
+  const months = Array.from(new Map(days.map(d => {
+    const start = kpiPeriodBounds(d, "month").start;
+    return [start.getTime(), start];
+  })).values());
+
+  let calculated = 0;
+  let errors = 0;
+  for (const site of activeSites) {
+    try {
+      for (const day of days) if (await calculateSiteKpis(site.id, day, "day")) calculated++;
+      for (const month of months) if (await calculateSiteKpis(site.id, month, "month")) calculated++;
+    } catch (error) {
+      errors++;
+      console.error(`[SiteKpis] Site ${site.id} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`[SiteKpis] ${calculated} site-periods calculated across ${activeSites.length} sites`);
+  return { sites: activeSites.length, calculated, errors };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export interface SiteKpiPoint {
+  siteId: number;
+  periodStart: Date;
+  periodEnd: Date;
+  metrics: Partial<Record<KpiMetricCode, number>>;
+}
+
+/**
+ * Stored KPI rows for sites, one point per site and period
+ */
+export async function getSiteKpis(params: {
+  siteIds: number[];
+  periodType: KpiPeriodType;
+  from: Date;
+  to: Date;
+  metricCodes?: KpiMetricCode[];
+}): Promise<SiteKpiPoint[]> {
+  const db = await getDb();
+  if (!db || params.siteIds.length === 0) return [];
+
+  const rows = await db.select()
+    .from(derivedMetrics)
+    .where(and(
+      inArray(derivedMetrics.siteId, params.siteIds),
+      eq(derivedMetrics.periodType, params.periodType),
+      gte(derivedMetrics.periodStart, params.from),
+      lt(derivedMetrics.periodStart, params.to),
+      inArray(derivedMetrics.metricCode, params.metricCodes?.length ? params.metricCodes : [...KPI_METRIC_CODES])
+    ))
+    .orderBy(derivedMetrics.periodStart);
+
+  const points = new Map<string, SiteKpiPoint>();
+  for (const row of rows) {
+    if (row.value === null) continue;
+    const key = `${row.siteId}|${row.periodStart.getTime()}`;
+    const point = points.get(key) || { siteId: row.siteId, periodStart: row.periodStart, periodEnd: row.periodEnd, metrics: {} };
+    point.metrics[row.metricCode as KpiMetricCode] = parseFloat(row.value);
+    points.set(key, point);
+  }
+  return Array.from(points.values());
+}
+
+/**
+ * Ratios averaged across points; specific yield summed over the range and
+ * averaged across sites
+ */
+export function summarizeKpis(points: SiteKpiPoint[]): Partial<Record<KpiMetricCode, number>> {
+  const summary: Partial<Record<KpiMetricCode, number>> = {};
+  const siteCount = new Set(points.map(p => p.siteId)).size;
+  for (const metricCode of KPI_METRIC_CODES) {
+    const values = points.map(p => p.metrics[metricCode]).filter((v): v is number => v !== undefined);
+    if (values.length === 0) continue;
+    const total = values.reduce((s, v) => s + v, 0);
+    const value = metricCode === "specific_yield" ? total / siteCount : total / values.length;
+    summary[metricCode] = Math.round(value * 1000) / 1000;
+  }
+  return summary;
+}
+
+/**
+ * Exclusions overlapping a range, for the settings UI
+ */
+export async function getAvailabilityExclusions(siteId: number, from?: Date, to?: Date) {
+  const db = await getDb();
+  if (!db) return [];
+  const conditions = [eq(availabilityExclusions.siteId, siteId)];
+  if (to) conditions.push(lte(availabilityExclusions.startAt, to));
+  if (from) conditions.push(gte(availabilityExclusions.endAt, from));
+  return db.select().from(availabilityExclusions).where(and(...conditions)).orderBy(availabilityExclusions.startAt);
+}
@@ -0,0 +1,300 @@
+/**
+ * Sparkplug B Ingestion Service
+ *
+ * Feeds decoded Sparkplug B metrics into the measurement pipeline:
+ * - Registers edge nodes on first contact (pending until mapped to a site)
+ * - Creates a devices row per edge node / Sparkplug device on demand
+ * - Writes metrics through the shared measurement write path
+ * - Persists node and device online state from birth/death certificates
+ */
+
+import { and, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { devices, sparkplugEdgeNodes } from "../../drizzle/schema";
+import type { MqttConfig, MqttClientWrapper } from "../connectors/mqtt";
+import {
+  SparkplugMessageResult,
+  SparkplugStateTracker,
+  SPARKPLUG_NAMESPACE,
+} from "../connectors/sparkplug";
+import {
+  MeasurementSample,
+  MeasurementTarget,
+  toMetricCode,
+  writeMeasurements,
+} from "./measurementIngestion";
+
+export interface SparkplugIngestionOptions {
+  organizationId: number;
+  connectorId?: number | null;
+  // Defaults to the shared DB write path; tests pass an in-memory writer
+  writer?: (target: MeasurementTarget, samples: MeasurementSample[]) => Promise<void>;
+  resolveTarget?: (groupId: string, edgeNodeId: string, deviceId?: string) => Promise<MeasurementTarget | null>;
+}
+
+interface StateEvent {
+  groupId: string;
+  edgeNodeId: string;
+  deviceId?: string;
+}
+
+// How long an un-onboarded node is remembered before the DB is checked again
+const PENDING_RECHECK_MS = 60_000;
+
+export function sparkplugExternalId(groupId: string, edgeNodeId: string, deviceId?: string): string {
+  return [SPARKPLUG_NAMESPACE, groupId, edgeNodeId, deviceId].filter(Boolean).join("/");
+}
+
+/**
+ * Convert resolved Sparkplug metrics to measurement samples. Binary values
+ * are dropped; DateTime values are stored as epoch milliseconds.
+ */
+export function toMeasurementSamples(result: SparkplugMessageResult): MeasurementSample[] {
+  const samples: MeasurementSample[] = [];
+  for (const metric of result.metrics) {
+    if (Buffer.isBuffer(metric.value)) continue;
+    const metricCode = toMetricCode(metric.name);
+    if (!metricCode) continue;
+    samples.push({
+      metricCode,
+      name: metric.name.substring(0, 255),
+      value: metric.value,
+      timestamp: metric.timestamp,
+    });
+  }
+  return samples;
+}
+
+export class SparkplugIngestionService {
+  private organizationId: number;
+  private connectorId: number | null;
+  private writer: (target: MeasurementTarget, samples: MeasurementSample[]) => Promise<void>;
+  private resolveTargetFn: (groupId: string, edgeNodeId: string, deviceId?: string) => Promise<MeasurementTarget | null>;
+
+  private targets = new Map<string, MeasurementTarget>();
+  private pendingUntil = new Map<string, number>();
+  // Serialize DB work so concurrent messages don't race on row creation
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: SparkplugIngestionOptions) {
+    this.organizationId = options.organizationId;
+    this.connectorId = options.connectorId ?? null;
+    this.writer = options.writer || writeMeasurements;
+    this.resolveTargetFn = options.resolveTarget || ((g, e, d) => this.resolveTargetFromDb(g, e, d));
+  }
+
+  attach(tracker: SparkplugStateTracker): void {
+    tracker.on("metrics", (result: SparkplugMessageResult) => this.enqueue(() => this.handleMetrics(result)));
+    tracker.on("online", (event: StateEvent) => this.enqueue(() => this.recordState(tracker, event, true)));
+    tracker.on("offline", (event: StateEvent) => this.enqueue(() => this.recordState(tracker, event, false)));
+    tracker.on("rebirth", (event: StateEvent) => this.enqueue(() => this.recordRebirthRequest(event)));
+  }
+
+  /** Resolves once all queued work has been processed */
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+
+  /** Forget cached device mappings, e.g. after a node is assigned to a site */
+  invalidate(groupId?: string, edgeNodeId?: string): void {
+    if (!groupId) {
+      this.targets.clear();
+      this.pendingUntil.clear();
+      return;
+    }
+    const prefix = sparkplugExternalId(groupId, edgeNodeId || "");
+    const matches = (key: string) => key === prefix || key.startsWith(`${prefix}/`);
+    for (const key of Array.from(this.targets.keys())) if (matches(key)) this.targets.delete(key);
+    for (const key of Array.from(this.pendingUntil.keys())) if (matches(key)) this.pendingUntil.delete(key);
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch(error => console.error("[Sparkplug] Ingestion error:", error));
+  }
+
+  private async handleMetrics(result: SparkplugMessageResult): Promise<void> {
+    const { groupId, edgeNodeId, deviceId } = result.topic;
+    const target = await this.getTarget(groupId, edgeNodeId, deviceId);
+    if (!target) return;
+
+    const samples = toMeasurementSamples(result);
+    if (samples.length > 0) await this.writer(target, samples);
+  }
+
+  private async getTarget(groupId: string, edgeNodeId: string, deviceId?: string): Promise<MeasurementTarget | null> {
+    const key = sparkplugExternalId(groupId, edgeNodeId, deviceId);
+    const cached = this.targets.get(key);
+    if (cached) return cached;
+
+    const pendingUntil = this.pendingUntil.get(key);
+    if (pendingUntil && pendingUntil > Date.now()) return null;
+
+    const target = await this.resolveTargetFn(groupId, edgeNodeId, deviceId);
+    if (target) {
+      this.targets.set(key, target);
+      this.pendingUntil.delete(key);
+    } else {
+      this.pendingUntil.set(key, Date.now() + PENDING_RECHECK_MS);
+    }
+    return target;
+  }
+
+  private async getOrCreateNodeRow(groupId: string, edgeNodeId: string) {
+    const db = await getDb();
+    if (!db) return null;
+
+    const where = and(
+      eq(sparkplugEdgeNodes.organizationId, this.organizationId),
+      eq(sparkplugEdgeNodes.groupId, groupId),
+      eq(sparkplugEdgeNodes.edgeNodeId, edgeNodeId)
+    );
+    const [existing] = await db.select().from(sparkplugEdgeNodes).where(where).limit(1);
+    if (existing) return existing;
+
+    await db.insert(sparkplugEdgeNodes).values({
+      organizationId: this.organizationId,
+      groupId,
+      edgeNodeId,
+      connectorId: this.connectorId,
+    });
+    console.log(`[Sparkplug] New edge node ${groupId}/${edgeNodeId} awaiting site assignment`);
+    const [created] = await db.select().from(sparkplugEdgeNodes).where(where).limit(1);
+    return created || null;
+  }
+
+  private async resolveTargetFromDb(groupId: string, edgeNodeId: string, deviceId?: string): Promise<MeasurementTarget | null> {
+    const db = await getDb();
+    if (!db) return null;
+
+    const node = await this.getOrCreateNodeRow(groupId, edgeNodeId);
+    if (!node || node.status !== "active" || !node.siteId) return null;
+
+    const externalId = sparkplugExternalId(groupId, edgeNodeId, deviceId);
+    const [device] = await db.select({ id: devices.id })
+      .from(devices)
+      .where(and(eq(devices.siteId, node.siteId), eq(devices.externalId, externalId)))
+      .limit(1);
+
+    let id = device?.id;
+    if (!id) {
+      const [inserted] = await db.insert(devices).values({
+        siteId: node.siteId,
+        connectorId: node.connectorId ?? this.connectorId,
+        externalId,
+        name: deviceId ? `${edgeNodeId}/${deviceId}` : edgeNodeId,
+        deviceType: "other",
+        status: "online",
+        lastSeenAt: new Date(),
+        metadata: { source: "sparkplug_b", groupId, edgeNodeId, deviceId: deviceId ?? null },
+      });
+      id = Number(inserted.insertId);
+    }
+
+    return {
+      deviceId: id,
+      siteId: node.siteId,
+      organizationId: this.organizationId,
+      connectorId: node.connectorId ?? this.connectorId,
+    };
+  }
+
+  private async recordState(tracker: SparkplugStateTracker, event: StateEvent, online: boolean): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+
+    const node = await this.getOrCreateNodeRow(event.groupId, event.edgeNodeId);
+    if (!node) return;
+
+    const state = tracker.getNodeState(event.groupId, event.edgeNodeId);
+    const now = new Date();
+
+    if (!event.deviceId) {
+      await db.update(sparkplugEdgeNodes)
+        .set({
+          online,
+          bdSeq: state?.bdSeq ?? node.bdSeq,
+          lastBirthAt: online ? now : node.lastBirthAt,
+          lastDeathAt: online ? node.lastDeathAt : now,
+          lastMessageAt: now,
+        })
+        .where(eq(sparkplugEdgeNodes.id, node.id));
+    }
+
+    if (state) {
+      const metadata = {
+        metrics: Array.from(state.metrics.keys()),
+        devices: Object.fromEntries(Array.from(state.devices.values()).map(d => [
+          d.deviceId,
+          { online: d.online, metrics: Array.from(d.metrics.keys()) },
+        ])),
+      };
+      await db.update(sparkplugEdgeNodes).set({ birthMetadata: metadata }).where(eq(sparkplugEdgeNodes.id, node.id));
+    }
+
+    // Mirror onto the devices row once the node is onboarded
+    if (node.siteId) {
+      await db.update(devices)
+        .set(online ? { status: "online", lastSeenAt: now } : { status: "offline" })
+        .where(and(
+          eq(devices.siteId, node.siteId),
+          eq(devices.externalId, sparkplugExternalId(event.groupId, event.edgeNodeId, event.deviceId))
+        ));
+    }
+  }
+
+  private async recordRebirthRequest(event: StateEvent): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+    await db.update(sparkplugEdgeNodes)
+      .set({ lastRebirthRequestAt: new Date() })
+      .where(and(
+        eq(sparkplugEdgeNodes.organizationId, this.organizationId),
+        eq(sparkplugEdgeNodes.groupId, event.groupId),
+        eq(sparkplugEdgeNodes.edgeNodeId, event.edgeNodeId)
+      ));
+  }
+}
+
+// ============================================================================
+// Broker Sessions
+// ============================================================================
+
+const sessions = new Map<number, { client: MqttClientWrapper; tracker: SparkplugStateTracker; service: SparkplugIngestionService }>();
+
+/**
+ * Connect to a broker and ingest all Sparkplug B traffic for an organization
+ */
+export async function startSparkplugIngestion(
+  organizationId: number,
+  config: MqttConfig,
+  options: { connectorId?: number; groupId?: string } = {}
+) {
+  await stopSparkplugIngestion(organizationId);
+
+  // Loaded lazily so the pipeline doesn't require the mqtt package unless a broker is configured
+  const { createMqttClient } = await import("../connectors/mqtt");
+  const client = createMqttClient(config);
+  client.on("error", error => console.error(`[Sparkplug] MQTT error for org ${organizationId}:`, error.message));
+
+  const tracker = new SparkplugStateTracker();
+  const service = new SparkplugIngestionService({ organizationId, connectorId: options.connectorId });
+  service.attach(tracker);
+
+  await client.connect();
+  await client.attachSparkplugTracker(tracker, options.groupId);
+
+  const session = { client, tracker, service };
+  sessions.set(organizationId, session);
+  return session;
+}
+
+export async function stopSparkplugIngestion(organizationId: number): Promise<void> {
+  const session = sessions.get(organizationId);
+  if (!session) return;
+  sessions.delete(organizationId);
+  await session.client.disconnect();
+}
+
+export function getSparkplugSession(organizationId: number) {
+  return sessions.get(organizationId);
+}
@@ -0,0 +1,248 @@
+/**
+ * SunSpec Discovery Service
+ *
+ * Connects to a Modbus TCP endpoint, runs SunSpec discovery and registers
+ * the result: a devices row (identity from model 1), a generated register
+ * map, a polling config, and optional assetComponents per sub-model.
+ */
+
+import { and, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  assetComponents,
+  devices,
+  modbusDeviceConfigs,
+  modbusRegisterMaps,
+} from "../../drizzle/schema";
+import { ModbusTcpClient } from "../connectors/modbus";
+import {
+  SunSpecDiscovery,
+  SunSpecDiscoveredModel,
+  buildSunSpecRegisterMap,
+  discoverSunSpec,
+} from "../connectors/sunspec";
+
+export interface SunSpecEndpoint {
+  host: string;
+  port: number;
+  unitId: number;
+  timeoutMs?: number;
+}
+
+export interface RegisterSunSpecDeviceParams extends SunSpecEndpoint {
+  organizationId: number;
+  siteId: number;
+  assetId?: number;
+  name?: string;
+  pollIntervalSeconds?: number;
+  enablePolling?: boolean;
+  userId?: number;
+}
+
+export interface RegisterSunSpecDeviceResult {
+  deviceId: number;
+  registerMapId: number;
+  componentIds: number[];
+  created: boolean;
+  discovery: SunSpecDiscovery;
+}
+
+/**
+ * Connect, discover and disconnect
+ */
+export async function discoverSunSpecDevice(endpoint: SunSpecEndpoint): Promise<SunSpecDiscovery> {
+  const client = new ModbusTcpClient({
+    host: endpoint.host,
+    port: endpoint.port,
+    unitId: endpoint.unitId,
+    timeout: endpoint.timeoutMs,
+    autoReconnect: false,
+  });
+  client.on("error", () => {});
+
+  try {
+    await client.connect();
+    return await discoverSunSpec(client);
+  } finally {
+    client.disconnect();
+  }
+}
+
+/**
+ * Map the discovered model set to a devices.deviceType
+ */
+export function inferDeviceType(discovery: SunSpecDiscovery): "inverter" | "meter" | "battery" | "other" {
+  const categories = new Set(discovery.models.map(m => m.category));
+  if (categories.has("inverter")) return "inverter";
+  if (categories.has("storage")) return "battery";
+  if (categories.has("meter")) return "meter";
+  return "other";
+}
+
+function componentName(model: SunSpecDiscoveredModel, moduleIndex?: number): string {
+  const base = model.instance > 1 ? `${model.name} #${model.instance}` : model.name;
+  return moduleIndex !== undefined ? `${base} - Module ${moduleIndex + 1}` : base;
+}
+
+/**
+ * Discover a device and save it. Re-running against the same serial number
+ * on the same site updates the existing device instead of duplicating it.
+ */
+export async function registerSunSpecDevice(
+  params: RegisterSunSpecDeviceParams,
+  discovery?: SunSpecDiscovery
+): Promise<RegisterSunSpecDeviceResult> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = discovery || await discoverSunSpecDevice(params);
+  const { common } = result;
+  const registers = buildSunSpecRegisterMap(result);
+  const deviceType = inferDeviceType(result);
+
+  const metadata = {
+    sunspec: {
+      baseAddress: result.baseAddress,
+      version: common.version,
+      options: common.options,
+      models: result.models.map(m => ({ id: m.id, address: m.address, length: m.length })),
+    },
+  };
+
+  // Device
+  let deviceId: number;
+  let created = false;
+  const [existing] = common.serialNumber
+    ? await db.select({ id: devices.id })
+        .from(devices)
+        .where(and(eq(devices.siteId, params.siteId), eq(devices.serialNumber, common.serialNumber)))
+        .limit(1)
+    : [];
+
+  const deviceValues = {
+    manufacturer: common.manufacturer.substring(0, 100) || null,
+    model: common.model.substring(0, 100) || null,
+    serialNumber: common.serialNumber.substring(0, 100) || null,
+    metadata,
+  };
+
+  if (existing) {
+    deviceId = existing.id;
+    await db.update(devices).set(deviceValues).where(eq(devices.id, deviceId));
+  } else {
+    const [inserted] = await db.insert(devices).values({
+      ...deviceValues,
+      siteId: params.siteId,
+      externalId: `modbus:${params.host}:${params.port}:${params.unitId}`,
+      name: params.name || [common.manufacturer, common.model].filter(Boolean).join(" ") || "SunSpec device",
+      deviceType,
+      status: "online",
+      lastSeenAt: new Date(),
+    });
+    deviceId = Number(inserted.insertId);
+    created = true;
+  }
+
+  // Register map: reuse the one generated by a previous discovery
+  const [config] = await db.select({ id: modbusDeviceConfigs.id, registerMapId: modbusDeviceConfigs.registerMapId })
+    .from(modbusDeviceConfigs)
+    .where(eq(modbusDeviceConfigs.deviceId, deviceId))
+    .limit(1);
+
+  const mapValues = {
+    organizationId: params.organizationId,
+    name: `${common.manufacturer} ${common.model} (SunSpec)`.trim().substring(0, 255),
+    manufacturer: common.manufacturer.substring(0, 100) || null,
+    source: "sunspec_discovery" as const,
+    registers,
+    isActive: true,
+  };
+  const [previousMap] = config?.registerMapId
+    ? await db.select({ id: modbusRegisterMaps.id })
+        .from(modbusRegisterMaps)
+        .where(and(
+          eq(modbusRegisterMaps.id, config.registerMapId),
+          eq(modbusRegisterMaps.source, "sunspec_discovery")
+        ))
+        .limit(1)
+    : [];
+
+  let registerMapId: number;
+  if (previousMap) {
+    registerMapId = previousMap.id;
+    await db.update(modbusRegisterMaps).set(mapValues).where(eq(modbusRegisterMaps.id, registerMapId));
+  } else {
+    const [map] = await db.insert(modbusRegisterMaps).values({ ...mapValues, createdBy: params.userId });
+    registerMapId = Number(map.insertId);
+  }
+
+  // Polling config
+  const configValues = {
+    organizationId: params.organizationId,
+    host: params.host,
+    port: params.port,
+    unitId: params.unitId,
+    timeoutMs: params.timeoutMs ?? 5000,
+    registerMapId,
+    builtInMap: null,
+    pollIntervalSeconds: params.pollIntervalSeconds ?? 60,
+    enabled: params.enablePolling ?? true,
+  };
+  if (config) {
+    await db.update(modbusDeviceConfigs).set(configValues).where(eq(modbusDeviceConfigs.id, config.id));
+  } else {
+    await db.insert(modbusDeviceConfigs).values({ ...configValues, deviceId });
+  }
+
+  // Asset components: one per non-common model, one per MPPT module
+  const componentIds: number[] = [];
+  if (params.assetId) {
+    const wanted: Array<{ name: string; specifications: Record<string, unknown> }> = [];
+    for (const model of result.models) {
+      if (model.category === "common" || model.category === "unknown") continue;
+      if (model.repeatingBlocks?.length) {
+        model.repeatingBlocks.forEach((block, n) => wanted.push({
+          name: componentName(model, n),
+          specifications: { sunspecModelId: model.id, address: model.address, module: n + 1, label: block.IDStr ?? null },
+        }));
+      } else {
+        wanted.push({
+          name: componentName(model),
+          specifications: { sunspecModelId: model.id, address: model.address, length: model.length },
+        });
+      }
+    }
+
+    const current = await db.select({ id: assetComponents.id, name: assetComponents.name })
+      .from(assetComponents)
+      .where(and(
+        eq(assetComponents.assetId, params.assetId),
+        eq(assetComponents.serialNumber, common.serialNumber.substring(0, 255))
+      ));
+    const byName = new Map(current.map(c => [c.name, c.id]));
+
+    for (const component of wanted) {
+      const existingId = byName.get(component.name);
+      if (existingId) {
+        await db.update(assetComponents)
+          .set({ specifications: component.specifications })
+          .where(eq(assetComponents.id, existingId));
+        componentIds.push(existingId);
+        continue;
+      }
+      const [inserted] = await db.insert(assetComponents).values({
+        assetId: params.assetId,
+        organizationId: params.organizationId,
+        name: component.name,
+        componentType: "other",
+        manufacturer: common.manufacturer || null,
+        model: common.model || null,
+        serialNumber: common.serialNumber || null,
+        specifications: component.specifications,
+      });
+      componentIds.push(Number(inserted.insertId));
+    }
+  }
+
+  return { deviceId, registerMapId, componentIds, created, discovery: result };
+}
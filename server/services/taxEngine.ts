@@ -0,0 +1,543 @@
+/**
+ * Tax Engine
+ *
+ * Org tax codes (VAT, GST, withholding) per jurisdiction, resolved per
+ * invoice line from customer and product-line assignments and computed line
+ * by line with the code's rounding mode. One code per tax family applies to
+ * a line, so VAT and WHT can stack on the same charge.
+ *
+ * - standard: tax added to the invoice total
+ * - zero_rated / exempt: no tax, reported separately for filings
+ * - reverse_charge: no tax on the invoice; the customer self-accounts for it
+ * - withholding: deducted by the customer at source; reduces the amount
+ *   collectable but not the invoice total
+ *
+ * Amounts are integers in minor units throughout.
+ */
+
+import { and, eq, gte, inArray, lt, notInArray } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  TaxCode,
+  creditNoteLines,
+  creditNotes,
+  invoiceLineItems,
+  invoiceLineTaxes,
+  invoices,
+  taxCodeAssignments,
+  taxCodes,
+} from "../../drizzle/schema";
+import { minorUnitDigits } from "./currency";
+
+export type TaxKind = TaxCode["kind"];
+export type RoundingMode = TaxCode["roundingMode"];
+
+export class TaxEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaxEngineError";
+  }
+}
+
+export interface TaxCodeTerms {
+  id: number | null; // null for a legacy per-line rate
+  code: string;
+  name: string;
+  taxName: string;
+  kind: TaxKind;
+  rate: number; // percent
+  roundingMode: RoundingMode;
+  legalNote?: string | null;
+  isDefault?: boolean;
+}
+
+export interface LineTax {
+  taxCodeId: number | null;
+  code: string;
+  taxName: string;
+  kind: TaxKind;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number; // negative for withholding
+  selfAssessedAmount: number;
+}
+
+export interface TaxBreakdownRow {
+  code: string;
+  name: string;
+  taxName: string;
+  kind: TaxKind;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+  selfAssessedAmount: number;
+  legalNote: string | null;
+}
+
+export interface InvoiceTaxTotals {
+  subtotal: number; // before the invoice discount
+  taxAmount: number; // added to the total
+  withholdingAmount: number; // positive; withheld by the customer
+  totalAmount: number;
+}
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+/** Round a fractional minor-unit amount to an integer */
+export function roundMinor(value: number, mode: RoundingMode): number {
+  const sign = value < 0 ? -1 : 1;
+  // Work in millionths so float noise from rate multiplication (x.4999999) doesn't flip ties
+  const micro = Math.round(Math.abs(value) * 1e6);
+  const whole = Math.floor(micro / 1e6);
+  const fraction = micro - whole * 1e6;
+
+  let rounded: number;
+  switch (mode) {
+    case "down":
+      rounded = whole;
+      break;
+    case "up":
+      rounded = fraction > 0 ? whole + 1 : whole;
+      break;
+    case "half_even":
+      rounded = fraction > 5e5 || (fraction === 5e5 && whole % 2 === 1) ? whole + 1 : whole;
+      break;
+    default:
+      rounded = fraction >= 5e5 ? whole + 1 : whole;
+  }
+  return sign * rounded;
+}
+
+/** Taxes on one line amount for the codes that apply to it */
+export function computeLineTaxes(amount: number, codes: TaxCodeTerms[]): LineTax[] {
+  return codes.map(code => {
+    const tax = roundMinor(amount * code.rate / 100, code.roundingMode);
+    const base = {
+      taxCodeId: code.id,
+      code: code.code,
+      taxName: code.taxName,
+      kind: code.kind,
+      rate: code.rate,
+      taxableAmount: amount,
+    };
+    switch (code.kind) {
+      case "standard":
+        return { ...base, taxAmount: tax, selfAssessedAmount: 0 };
+      case "withholding":
+        return { ...base, taxAmount: -tax, selfAssessedAmount: 0 };
+      case "reverse_charge":
+        return { ...base, taxAmount: 0, selfAssessedAmount: tax };
+      default:
+        return { ...base, rate: 0, taxAmount: 0, selfAssessedAmount: 0 };
+    }
+  });
+}
+
+export interface TaxAssignmentRule {
+  taxCodeId: number;
+  customerId: number | null;
+  serviceType: string | null;
+}
+
+/**
+ * Codes for a line, one per tax family. The most specific assignment wins:
+ * customer + product line, then customer, then product line, then the org
+ * default for the family.
+ */
+export function resolveTaxCodes(
+  codes: TaxCodeTerms[],
+  rules: TaxAssignmentRule[],
+  line: { customerId: number | null; serviceType: string | null }
+): TaxCodeTerms[] {
+  const byId = new Map(codes.map(c => [c.id, c]));
+  const specificity = (rule: TaxAssignmentRule): number => {
+    if (rule.customerId !== null && rule.customerId !== line.customerId) return -1;
+    if (rule.serviceType !== null && rule.serviceType !== line.serviceType) return -1;
+    return (rule.customerId !== null ? 2 : 0) + (rule.serviceType !== null ? 1 : 0);
+  };
+
+  const chosen = new Map<string, { code: TaxCodeTerms; score: number }>();
+  for (const rule of rules) {
+    const code = byId.get(rule.taxCodeId);
+    const score = specificity(rule);
+    if (!code || score < 0) continue;
+    const current = chosen.get(code.taxName);
+    if (!current || score > current.score) chosen.set(code.taxName, { code, score });
+  }
+  for (const code of codes) {
+    if (code.isDefault && !chosen.has(code.taxName)) chosen.set(code.taxName, { code, score: -1 });
+  }
+
+  return Array.from(chosen.values()).map(c => c.code);
+}
+
+/** Per-code totals for the invoice breakdown, in first-seen order */
+export function summarizeLineTaxes(lineTaxes: LineTax[], codes: TaxCodeTerms[] = []): TaxBreakdownRow[] {
+  const byCode = new Map<string, TaxBreakdownRow>();
+  for (const t of lineTaxes) {
+    const key = `${t.code}|${t.rate}`;
+    let row = byCode.get(key);
+    if (!row) {
+      const code = codes.find(c => c.id !== null && c.id === t.taxCodeId);
+      row = {
+        code: t.code,
+        name: code?.name ?? t.code,
+        taxName: t.taxName,
+        kind: t.kind,
+        rate: t.rate,
+        taxableAmount: 0,
+        taxAmount: 0,
+        selfAssessedAmount: 0,
+        legalNote: code?.legalNote ?? null,
+      };
+      byCode.set(key, row);
+    }
+    row.taxableAmount += t.taxableAmount;
+    row.taxAmount += t.taxAmount;
+    row.selfAssessedAmount += t.selfAssessedAmount;
+  }
+  return Array.from(byCode.values());
+}
+
+/**
+ * Split an invoice-level discount across lines in proportion to their
+ * amounts (largest remainder, so the shares add up to the discount). Taxes
+ * are charged on each line net of its share.
+ */
+export function allocateDiscount(amounts: number[], discount: number): number[] {
+  const subtotal = amounts.reduce((s, a) => s + a, 0);
+  if (!discount) return amounts.map(() => 0);
+  if (discount < 0 || discount > subtotal) {
+    throw new TaxEngineError(`Discount ${discount} must be between 0 and the subtotal ${subtotal}`);
+  }
+  const exact = amounts.map(a => discount * a / subtotal);
+  const shares = exact.map(Math.floor);
+  let remaining = discount - shares.reduce((s, a) => s + a, 0);
+  const byRemainder = exact.map((e, i) => ({ i, r: e - shares[i] })).sort((a, b) => b.r - a.r || a.i - b.i);
+  for (const { i } of byRemainder) {
+    if (remaining <= 0) break;
+    shares[i] += 1;
+    remaining -= 1;
+  }
+  return shares;
+}
+
+/** `amount` is the line amount before discount; the discount comes off the total */
+export function invoiceTaxTotals(lines: Array<{ amount: number; taxes: LineTax[] }>, discountAmount: number = 0): InvoiceTaxTotals {
+  let subtotal = 0;
+  let taxAmount = 0;
+  let withholdingAmount = 0;
+  for (const line of lines) {
+    subtotal += line.amount;
+    for (const t of line.taxes) {
+      if (t.kind === "withholding") withholdingAmount -= t.taxAmount;
+      else taxAmount += t.taxAmount;
+    }
+  }
+  return { subtotal, taxAmount, withholdingAmount, totalAmount: subtotal - discountAmount + taxAmount };
+}
+
+// Lines without codes keep their flat per-line rate
+function legacyRateCode(rate: number): TaxCodeTerms {
+  return {
+    id: null,
+    code: `TAX-${rate}`,
+    name: `Tax ${rate}%`,
+    taxName: "TAX",
+    kind: "standard",
+    rate,
+    roundingMode: "half_up",
+  };
+}
+
+function toTerms(row: TaxCode): TaxCodeTerms {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    taxName: row.taxName,
+    kind: row.kind,
+    rate: Number(row.rate),
+    roundingMode: row.roundingMode,
+    legalNote: row.legalNote,
+    isDefault: row.isDefault,
+  };
+}
+
+// ============================================================================
+// Invoices
+// ============================================================================
+
+async function loadOrgTaxSetup(organizationId: number) {
+  const db = await getDb();
+  if (!db) return { codes: [] as TaxCodeTerms[], rules: [] as TaxAssignmentRule[] };
+
+  const codeRows = await db.select()
+    .from(taxCodes)
+    .where(and(eq(taxCodes.organizationId, organizationId), eq(taxCodes.isActive, true)));
+  const rules = await db.select({
+    taxCodeId: taxCodeAssignments.taxCodeId,
+    customerId: taxCodeAssignments.customerId,
+    serviceType: taxCodeAssignments.serviceType,
+  })
+    .from(taxCodeAssignments)
+    .where(eq(taxCodeAssignments.organizationId, organizationId));
+
+  return { codes: codeRows.map(toTerms), rules };
+}
+
+/**
+ * Recompute every line's taxes, store them in invoiceLineTaxes and update
+ * the invoice totals. Paid and cancelled invoices are left alone; amend them
+ * instead.
+ */
+export async function applyInvoiceTaxes(invoiceId: number): Promise<InvoiceTaxTotals & { breakdown: TaxBreakdownRow[] }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1);
+  if (!invoice) throw new TaxEngineError(`Invoice ${invoiceId} not found`);
+  if (["paid", "cancelled", "refunded"].includes(invoice.status)) {
+    throw new TaxEngineError(`Invoice ${invoice.invoiceNumber} is ${invoice.status}; its taxes can no longer be recalculated`);
+  }
+
+  const { codes, rules } = await loadOrgTaxSetup(invoice.organizationId);
+  const byId = new Map(codes.map(c => [c.id, c]));
+  const lines = await db.select().from(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, invoiceId));
+
+  const discountAmount = invoice.discountAmount || 0;
+  const discounts = allocateDiscount(lines.map(l => l.amount), discountAmount);
+  const computed = lines.map((line, i) => {
+    let lineCodes = (line.taxCodeIds ?? [])
+      .map(id => byId.get(id))
+      .filter((c): c is TaxCodeTerms => !!c);
+    if (!line.taxCodeIds?.length) {
+      lineCodes = resolveTaxCodes(codes, rules, { customerId: invoice.customerId, serviceType: line.serviceType });
+    }
+    if (lineCodes.length === 0 && Number(line.taxRate) > 0) lineCodes = [legacyRateCode(Number(line.taxRate))];
+    return { line, amount: line.amount, taxes: computeLineTaxes(line.amount - discounts[i], lineCodes) };
+  });
+
+  await db.delete(invoiceLineTaxes).where(eq(invoiceLineTaxes.invoiceId, invoiceId));
+  for (const { line, taxes } of computed) {
+    for (const t of taxes) {
+      await db.insert(invoiceLineTaxes).values({
+        organizationId: invoice.organizationId,
+        invoiceId,
+        lineItemId: line.id,
+        taxCodeId: t.taxCodeId,
+        code: t.code,
+        taxName: t.taxName,
+        kind: t.kind,
+        rate: t.rate.toFixed(3),
+        taxableAmount: t.taxableAmount,
+        taxAmount: t.taxAmount,
+        selfAssessedAmount: t.selfAssessedAmount,
+        currency: invoice.currency || "USD",
+      });
+    }
+    const lineTax = taxes.filter(t => t.kind !== "withholding").reduce((s, t) => s + t.taxAmount, 0);
+    await db.update(invoiceLineItems).set({ taxAmount: lineTax }).where(eq(invoiceLineItems.id, line.id));
+  }
+
+  const totals = invoiceTaxTotals(computed, discountAmount);
+  const settled = (invoice.paidAmount || 0) + (invoice.creditedAmount || 0);
+  await db.update(invoices)
+    .set({
+      subtotal: totals.subtotal,
+      taxAmount: totals.taxAmount,
+      withholdingAmount: totals.withholdingAmount,
+      totalAmount: totals.totalAmount,
+      balanceDue: Math.max(0, totals.totalAmount - totals.withholdingAmount - settled),
+    })
+    .where(eq(invoices.id, invoiceId));
+
+  return { ...totals, breakdown: summarizeLineTaxes(computed.flatMap(c => c.taxes), codes) };
+}
+
+/** Stored per-code breakdown for an invoice, for rendering */
+export async function getInvoiceTaxBreakdown(invoiceId: number): Promise<TaxBreakdownRow[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db.select().from(invoiceLineTaxes).where(eq(invoiceLineTaxes.invoiceId, invoiceId));
+  if (rows.length === 0) return [];
+
+  const codeIds = Array.from(new Set(rows.map(r => r.taxCodeId).filter((id): id is number => id !== null)));
+  const codeRows = codeIds.length ? await db.select().from(taxCodes).where(inArray(taxCodes.id, codeIds)) : [];
+
+  return summarizeLineTaxes(
+    rows.map(r => ({ ...r, rate: Number(r.rate) })),
+    codeRows.map(toTerms)
+  );
+}
+
+// ============================================================================
+// Filing Summary
+// ============================================================================
+
+export interface TaxSummaryRow {
+  code: string;
+  taxName: string;
+  kind: TaxKind;
+  rate: number;
+  currency: string;
+  filingCategory: string | null;
+  invoiceCount: number;
+  creditNoteCount: number;
+  // Net of credit notes issued in the period
+  taxableAmount: number;
+  taxAmount: number;
+  selfAssessedAmount: number;
+}
+
+export interface TaxSummary {
+  organizationId: number;
+  from: Date;
+  to: Date;
+  rows: TaxSummaryRow[];
+}
+
+export type TaxSummarySource = Omit<TaxSummaryRow, "rate" | "invoiceCount" | "creditNoteCount"> & {
+  rate: number | string;
+  invoiceId: number;
+};
+
+// An invoice line tax row with the amount a credit note credits off that line
+export type CreditedTaxSource = TaxSummarySource & { creditNoteId: number; creditedAmount: number };
+
+/**
+ * Sum invoice line taxes per code, rate and currency, less what credit notes
+ * reverse. A credit line reverses each of its invoice line's taxes in the
+ * share it credits of the line's taxable amount, as the credit note does.
+ */
+export function summarizeTaxes(invoiceTaxes: TaxSummarySource[], creditedTaxes: CreditedTaxSource[] = []): TaxSummaryRow[] {
+  const groups = new Map<string, TaxSummaryRow & { invoiceIds: Set<number>; creditNoteIds: Set<number> }>();
+  const groupFor = (r: TaxSummarySource) => {
+    const key = `${r.code}|${Number(r.rate)}|${r.currency}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        code: r.code,
+        taxName: r.taxName,
+        kind: r.kind,
+        rate: Number(r.rate),
+        currency: r.currency,
+        filingCategory: r.filingCategory ?? null,
+        invoiceCount: 0,
+        creditNoteCount: 0,
+        taxableAmount: 0,
+        taxAmount: 0,
+        selfAssessedAmount: 0,
+        invoiceIds: new Set<number>(),
+        creditNoteIds: new Set<number>(),
+      };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  for (const r of invoiceTaxes) {
+    const group = groupFor(r);
+    group.invoiceIds.add(r.invoiceId);
+    group.taxableAmount += r.taxableAmount;
+    group.taxAmount += r.taxAmount;
+    group.selfAssessedAmount += r.selfAssessedAmount;
+  }
+  for (const r of creditedTaxes) {
+    const group = groupFor(r);
+    const share = r.taxableAmount > 0 ? Math.min(1, r.creditedAmount / r.taxableAmount) : 0;
+    group.creditNoteIds.add(r.creditNoteId);
+    group.taxableAmount -= Math.round(r.taxableAmount * share);
+    group.taxAmount -= Math.round(r.taxAmount * share);
+    group.selfAssessedAmount -= Math.round(r.selfAssessedAmount * share);
+  }
+
+  return Array.from(groups.values())
+    .map(({ invoiceIds, creditNoteIds, ...row }) => ({ ...row, invoiceCount: invoiceIds.size, creditNoteCount: creditNoteIds.size }))
+    .sort((a, b) => a.taxName.localeCompare(b.taxName) || a.code.localeCompare(b.code) || a.currency.localeCompare(b.currency));
+}
+
+/**
+ * Tax per code, rate and currency on invoices issued in [from, to), less the
+ * tax on credit notes issued in the same window, for filing returns. Drafts
+ * and cancelled invoices are excluded.
+ */
+export async function getTaxSummary(organizationId: number, from: Date, to: Date): Promise<TaxSummary> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const taxColumns = {
+    invoiceId: invoiceLineTaxes.invoiceId,
+    code: invoiceLineTaxes.code,
+    taxName: invoiceLineTaxes.taxName,
+    kind: invoiceLineTaxes.kind,
+    rate: invoiceLineTaxes.rate,
+    currency: invoiceLineTaxes.currency,
+    taxableAmount: invoiceLineTaxes.taxableAmount,
+    taxAmount: invoiceLineTaxes.taxAmount,
+    selfAssessedAmount: invoiceLineTaxes.selfAssessedAmount,
+    filingCategory: taxCodes.filingCategory,
+  };
+
+  const invoiceTaxes = await db.select(taxColumns)
+    .from(invoiceLineTaxes)
+    .innerJoin(invoices, eq(invoices.id, invoiceLineTaxes.invoiceId))
+    .leftJoin(taxCodes, eq(taxCodes.id, invoiceLineTaxes.taxCodeId))
+    .where(and(
+      eq(invoiceLineTaxes.organizationId, organizationId),
+      gte(invoices.issueDate, from),
+      lt(invoices.issueDate, to),
+      notInArray(invoices.status, ["draft", "cancelled"])
+    ));
+
+  const creditedTaxes = await db.select({ ...taxColumns, creditNoteId: creditNotes.id, creditedAmount: creditNoteLines.amount })
+    .from(creditNoteLines)
+    .innerJoin(creditNotes, eq(creditNotes.id, creditNoteLines.creditNoteId))
+    .innerJoin(invoiceLineTaxes, eq(invoiceLineTaxes.lineItemId, creditNoteLines.invoiceLineItemId))
+    .leftJoin(taxCodes, eq(taxCodes.id, invoiceLineTaxes.taxCodeId))
+    .where(and(
+      eq(creditNotes.organizationId, organizationId),
+      eq(creditNotes.status, "issued"),
+      gte(creditNotes.issueDate, from),
+      lt(creditNotes.issueDate, to)
+    ));
+
+  return { organizationId, from, to, rows: summarizeTaxes(invoiceTaxes, creditedTaxes) };
+}
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** CSV of a tax summary; amounts in major units of each row's currency */
+export function generateTaxSummaryCSV(summary: TaxSummary): string {
+  const major = (amount: number, currency: string) => {
+    const digits = minorUnitDigits(currency);
+    return (amount / Math.pow(10, digits)).toFixed(digits);
+  };
+  const lines: string[] = [];
+
+  lines.push(`Tax Summary ${summary.from.toISOString().slice(0, 10)} to ${summary.to.toISOString().slice(0, 10)}`);
+  lines.push("");
+  lines.push("Tax,Code,Type,Rate %,Filing Category,Currency,Invoices,Credit Notes,Taxable Amount,Tax Amount,Self-Assessed Amount");
+  for (const r of summary.rows) {
+    lines.push([
+      r.taxName,
+      r.code,
+      r.kind,
+      r.rate,
+      r.filingCategory,
+      r.currency,
+      r.invoiceCount,
+      r.creditNoteCount,
+      major(r.taxableAmount, r.currency),
+      major(r.taxAmount, r.currency),
+      major(r.selfAssessedAmount, r.currency),
+    ].map(csvCell).join(","));
+  }
+  return lines.join("\n");
+}
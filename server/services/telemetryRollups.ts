@@ -0,0 +1,731 @@
+/**
+ * Telemetry Rollups & Retention
+ *
+ * Materializes 5-minute, hourly and daily aggregates so dashboards and the
+ * query planner never scan raw rows:
+ * - 5m buckets from rawMeasurements (measurements) and inverterTelemetry (inverter_api)
+ * - 1h buckets merged from 5m, 1d buckets merged from 1h (UTC-aligned)
+ * - Per-org retention prunes raw rows and fine tiers once they are rolled up
+ *
+ * Each (source, tier) keeps a watermark in telemetryRollupState. Runs re-merge
+ * a short window behind the watermark so late samples are picked up.
+ */
+
+import { and, asc, eq, gte, inArray, isNotNull, lt, ne, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  devices,
+  inverterConnections,
+  inverterDevices,
+  inverterTelemetry,
+  metricDefinitions,
+  organizations,
+  rawMeasurements,
+  sites,
+  telemetryRetentionPolicies,
+  telemetryRollupState,
+  telemetryRollups,
+} from "../../drizzle/schema";
+
+// ============================================================================
+// Tiers
+// ============================================================================
+
+export type RollupTier = "5m" | "1h" | "1d";
+export type RollupSource = "measurements" | "inverter_api";
+export type RollupAggregation = "avg" | "sum" | "min" | "max" | "count" | "last";
+
+export const ROLLUP_TIERS: Array<{ tier: RollupTier; seconds: number; input: RollupTier | "raw" }> = [
+  { tier: "5m", seconds: 300, input: "raw" },
+  { tier: "1h", seconds: 3600, input: "5m" },
+  { tier: "1d", seconds: 86400, input: "1h" },
+];
+
+const TIER_SECONDS: Record<RollupTier, number> = { "5m": 300, "1h": 3600, "1d": 86400 };
+const ROLLUP_SOURCES: RollupSource[] = ["measurements", "inverter_api"];
+
+// Raw samples arriving this late are still folded into their buckets
+const LATE_DATA_WINDOW_MS = 30 * 60 * 1000;
+// 5m buckets are only closed once this long has passed since their end
+const SETTLE_MS = 2 * 60 * 1000;
+// Input span loaded per chunk, and chunks processed per run
+const CHUNK_MS: Record<RollupTier, number> = { "5m": 3600_000, "1h": 86400_000, "1d": 7 * 86400_000 };
+const MAX_CHUNKS_PER_RUN = 48;
+const UPSERT_BATCH = 500;
+const PRUNE_BATCH = 10_000;
+const MAX_QUERY_ROWS = 200_000;
+
+export const DEFAULT_RETENTION = {
+  rawRetentionDays: 90 as number | null,
+  fiveMinuteRetentionDays: 400 as number | null,
+  hourlyRetentionDays: null as number | null,
+  dailyRetentionDays: null as number | null,
+};
+
+/** inverterTelemetry columns rolled up, keyed by metric code */
+export const INVERTER_TELEMETRY_METRICS = {
+  active_power_kw: inverterTelemetry.activePowerKw,
+  reactive_power_kvar: inverterTelemetry.reactivePowerKvar,
+  apparent_power_kva: inverterTelemetry.apparentPowerKva,
+  power_factor: inverterTelemetry.powerFactor,
+  daily_energy_kwh: inverterTelemetry.dailyEnergyKwh,
+  total_energy_kwh: inverterTelemetry.totalEnergyKwh,
+  dc_voltage: inverterTelemetry.dcVoltage,
+  dc_current: inverterTelemetry.dcCurrent,
+  ac_voltage: inverterTelemetry.acVoltage,
+  ac_current: inverterTelemetry.acCurrent,
+  frequency: inverterTelemetry.frequency,
+  irradiance: inverterTelemetry.irradiance,
+  module_temperature: inverterTelemetry.moduleTemperature,
+  ambient_temperature: inverterTelemetry.ambientTemperature,
+} as const;
+
+// ============================================================================
+// Bucket Math
+// ============================================================================
+
+export interface RollupDimensions {
+  source: RollupSource;
+  organizationId: number;
+  projectId: number | null;
+  siteId: number | null;
+  deviceId: number;
+  metricCode: string;
+}
+
+export interface RollupSample extends RollupDimensions {
+  timestamp: Date;
+  value: number;
+}
+
+export interface RollupBucket extends RollupDimensions {
+  bucketStart: Date;
+  min: number;
+  max: number;
+  sum: number;
+  count: number;
+  last: number;
+  lastAt: Date;
+}
+
+export function bucketStartFor(date: Date, seconds: number): Date {
+  const ms = seconds * 1000;
+  return new Date(Math.floor(date.getTime() / ms) * ms);
+}
+
+export function bucketAverage(bucket: Pick<RollupBucket, "sum" | "count">): number {
+  return bucket.count > 0 ? bucket.sum / bucket.count : 0;
+}
+
+/**
+ * Merge finer buckets (or single samples) into buckets of `seconds`.
+ * Averages stay sample-weighted because sum and count are carried through.
+ */
+export function mergeBuckets(buckets: RollupBucket[], seconds: number): RollupBucket[] {
+  const merged = new Map<string, RollupBucket>();
+
+  for (const b of buckets) {
+    const bucketStart = bucketStartFor(b.bucketStart, seconds);
+    const key = `${b.source}|${b.deviceId}|${b.metricCode}|${bucketStart.getTime()}`;
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, { ...b, bucketStart });
+      continue;
+    }
+    existing.min = Math.min(existing.min, b.min);
+    existing.max = Math.max(existing.max, b.max);
+    existing.sum += b.sum;
+    existing.count += b.count;
+    if (b.lastAt.getTime() >= existing.lastAt.getTime()) {
+      existing.last = b.last;
+      existing.lastAt = b.lastAt;
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+export function aggregateSamples(samples: RollupSample[], seconds: number): RollupBucket[] {
+  return mergeBuckets(samples.map(({ timestamp, value, ...dims }) => ({
+    ...dims,
+    bucketStart: timestamp,
+    min: value,
+    max: value,
+    sum: value,
+    count: 1,
+    last: value,
+    lastAt: timestamp,
+  })), seconds);
+}
+
+/**
+ * Query planner: the coarsest tier whose buckets tile the requested interval,
+ * or null when the interval is finer than 5 minutes and raw data is needed.
+ */
+export function selectRollupTier(intervalSeconds: number): RollupTier | null {
+  for (const { tier, seconds } of [...ROLLUP_TIERS].reverse()) {
+    if (intervalSeconds >= seconds && intervalSeconds % seconds === 0) return tier;
+  }
+  return null;
+}
+
+export function bucketValue(bucket: Pick<RollupBucket, "min" | "max" | "sum" | "count" | "last">, aggregation: RollupAggregation): number {
+  switch (aggregation) {
+    case "sum": return bucket.sum;
+    case "min": return bucket.min;
+    case "max": return bucket.max;
+    case "count": return bucket.count;
+    case "last": return bucket.last;
+    case "avg":
+    default:
+      return bucketAverage(bucket);
+  }
+}
+
+/**
+ * Per-bucket increase of a cumulative counter (e.g. lifetime kWh) for one
+ * device, from consecutive bucket `last` values. The first bucket uses its
+ * own min as the baseline; a drop is treated as a counter reset.
+ */
+export function counterDeltas(buckets: Array<Pick<RollupBucket, "bucketStart" | "min" | "last">>): Array<{ bucketStart: Date; delta: number }> {
+  const sorted = [...buckets].sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+  return sorted.map((b, i) => {
+    const previous = i > 0 ? sorted[i - 1].last : b.min;
+    const delta = b.last >= previous ? b.last - previous : b.last - b.min;
+    return { bucketStart: b.bucketStart, delta: Math.max(0, delta) };
+  });
+}
+
+// ============================================================================
+// Materialization
+// ============================================================================
+
+function num(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const n = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+async function loadRawSamples(source: RollupSource, from: Date, to: Date): Promise<RollupSample[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  if (source === "measurements") {
+    const rows = await db.select({
+      deviceId: rawMeasurements.deviceId,
+      metricCode: metricDefinitions.code,
+      timestamp: rawMeasurements.timestamp,
+      value: rawMeasurements.valueNumeric,
+      siteId: devices.siteId,
+      projectId: sites.projectId,
+      siteOrgId: sites.organizationId,
+      metricOrgId: metricDefinitions.organizationId,
+    })
+      .from(rawMeasurements)
+      .innerJoin(metricDefinitions, eq(metricDefinitions.id, rawMeasurements.metricId))
+      .innerJoin(devices, eq(devices.id, rawMeasurements.deviceId))
+      .innerJoin(sites, eq(sites.id, devices.siteId))
+      .where(and(
+        gte(rawMeasurements.timestamp, from),
+        lt(rawMeasurements.timestamp, to),
+        isNotNull(rawMeasurements.valueNumeric),
+        ne(rawMeasurements.quality, "bad")
+      ));
+
+    const samples: RollupSample[] = [];
+    for (const row of rows) {
+      const value = num(row.value);
+      const organizationId = row.siteOrgId ?? row.metricOrgId;
+      if (value === null || !organizationId) continue;
+      samples.push({
+        source,
+        organizationId,
+        projectId: row.projectId,
+        siteId: row.siteId,
+        deviceId: row.deviceId,
+        metricCode: row.metricCode,
+        timestamp: row.timestamp,
+        value,
+      });
+    }
+    return samples;
+  }
+
+  const rows = await db.select({
+    deviceId: inverterTelemetry.deviceId,
+    timestamp: inverterTelemetry.timestamp,
+    projectId: inverterDevices.projectId,
+    organizationId: inverterConnections.organizationId,
+    ...INVERTER_TELEMETRY_METRICS,
+  })
+    .from(inverterTelemetry)
+    .innerJoin(inverterDevices, eq(inverterDevices.id, inverterTelemetry.deviceId))
+    .innerJoin(inverterConnections, eq(inverterConnections.id, inverterTelemetry.connectionId))
+    .where(and(gte(inverterTelemetry.timestamp, from), lt(inverterTelemetry.timestamp, to)));
+
+  const samples: RollupSample[] = [];
+  for (const row of rows) {
+    for (const metricCode of Object.keys(INVERTER_TELEMETRY_METRICS) as Array<keyof typeof INVERTER_TELEMETRY_METRICS>) {
+      const value = num(row[metricCode]);
+      if (value === null) continue;
+      samples.push({
+        source,
+        organizationId: row.organizationId,
+        projectId: row.projectId,
+        siteId: null,
+        deviceId: row.deviceId,
+        metricCode,
+        timestamp: row.timestamp,
+        value,
+      });
+    }
+  }
+  return samples;
+}
+
+function toBucket(row: typeof telemetryRollups.$inferSelect): RollupBucket {
+  return {
+    source: row.source,
+    organizationId: row.organizationId,
+    projectId: row.projectId,
+    siteId: row.siteId,
+    deviceId: row.deviceId,
+    metricCode: row.metricCode,
+    bucketStart: row.bucketStart,
+    min: num(row.valueMin) ?? 0,
+    max: num(row.valueMax) ?? 0,
+    sum: num(row.valueSum) ?? 0,
+    count: row.sampleCount,
+    last: num(row.valueLast) ?? 0,
+    lastAt: row.lastAt ?? row.bucketStart,
+  };
+}
+
+async function loadTierBuckets(source: RollupSource, tier: RollupTier, from: Date, to: Date): Promise<RollupBucket[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db.select()
+    .from(telemetryRollups)
+    .where(and(
+      eq(telemetryRollups.tier, tier),
+      eq(telemetryRollups.source, source),
+      gte(telemetryRollups.bucketStart, from),
+      lt(telemetryRollups.bucketStart, to)
+    ));
+  return rows.map(toBucket);
+}
+
+async function upsertBuckets(tier: RollupTier, buckets: RollupBucket[]): Promise<void> {
+  const db = await getDb();
+  if (!db || buckets.length === 0) return;
+
+  const fixed = (n: number) => n.toFixed(6);
+  for (let i = 0; i < buckets.length; i += UPSERT_BATCH) {
+    const values = buckets.slice(i, i + UPSERT_BATCH).map(b => ({
+      tier,
+      source: b.source,
+      organizationId: b.organizationId,
+      projectId: b.projectId,
+      siteId: b.siteId,
+      deviceId: b.deviceId,
+      metricCode: b.metricCode,
+      bucketStart: b.bucketStart,
+      valueAvg: fixed(bucketAverage(b)),
+      valueMin: fixed(b.min),
+      valueMax: fixed(b.max),
+      valueSum: fixed(b.sum),
+      valueLast: fixed(b.last),
+      lastAt: b.lastAt,
+      sampleCount: b.count,
+    }));
+
+    await db.insert(telemetryRollups).values(values).onDuplicateKeyUpdate({
+      set: {
+        projectId: sql`VALUES(projectId)`,
+        siteId: sql`VALUES(siteId)`,
+        valueAvg: sql`VALUES(valueAvg)`,
+        valueMin: sql`VALUES(valueMin)`,
+        valueMax: sql`VALUES(valueMax)`,
+        valueSum: sql`VALUES(valueSum)`,
+        valueLast: sql`VALUES(valueLast)`,
+        lastAt: sql`VALUES(lastAt)`,
+        sampleCount: sql`VALUES(sampleCount)`,
+      },
+    });
+  }
+}
+
+async function earliestInput(source: RollupSource, input: RollupTier | "raw"): Promise<Date | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  if (input !== "raw") {
+    const [row] = await db.select({ first: sql<Date | null>`MIN(${telemetryRollups.bucketStart})` })
+      .from(telemetryRollups)
+      .where(and(eq(telemetryRollups.tier, input), eq(telemetryRollups.source, source)));
+    return row?.first ? new Date(row.first) : null;
+  }
+
+  const table = source === "measurements" ? rawMeasurements : inverterTelemetry;
+  const [row] = await db.select({ first: sql<Date | null>`MIN(${table.timestamp})` }).from(table);
+  return row?.first ? new Date(row.first) : null;
+}
+
+async function getWatermark(source: RollupSource, tier: RollupTier): Promise<Date | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const [state] = await db.select()
+    .from(telemetryRollupState)
+    .where(and(eq(telemetryRollupState.source, source), eq(telemetryRollupState.tier, tier)))
+    .limit(1);
+  return state?.watermark ?? null;
+}
+
+async function saveState(source: RollupSource, tier: RollupTier, watermark: Date, bucketCount: number, error: string | null): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.insert(telemetryRollupState)
+    .values({ source, tier, watermark, lastRunAt: new Date(), lastBucketCount: bucketCount, lastError: error })
+    .onDuplicateKeyUpdate({ set: { watermark, lastRunAt: new Date(), lastBucketCount: bucketCount, lastError: error } });
+}
+
+export interface RollupRunResult {
+  source: RollupSource;
+  tier: RollupTier;
+  buckets: number;
+  watermark: Date | null;
+  error?: string;
+}
+
+/**
+ * Bring every (source, tier) up to date. Safe to run concurrently with
+ * ingestion; buckets are recomputed wholesale and upserted.
+ */
+export async function runTelemetryRollups(now: Date = new Date()): Promise<RollupRunResult[]> {
+  const results: RollupRunResult[] = [];
+
+  for (const source of ROLLUP_SOURCES) {
+    // Upper bound for the next tier: its input tier's watermark
+    let inputWatermark: Date = new Date(now.getTime() - SETTLE_MS);
+
+    for (const { tier, seconds, input } of ROLLUP_TIERS) {
+      const end = bucketStartFor(inputWatermark, seconds);
+      let watermark = await getWatermark(source, tier);
+      let buckets = 0;
+
+      try {
+        if (!watermark) {
+          const first = await earliestInput(source, input);
+          watermark = first ? bucketStartFor(first, seconds) : null;
+        }
+        if (!watermark) {
+          results.push({ source, tier, buckets: 0, watermark: null });
+          break; // Nothing ingested yet; coarser tiers have no input either
+        }
+
+        let start = bucketStartFor(new Date(watermark.getTime() - LATE_DATA_WINDOW_MS), seconds);
+        for (let chunk = 0; chunk < MAX_CHUNKS_PER_RUN && start < end; chunk++) {
+          const chunkEnd = new Date(Math.min(end.getTime(), start.getTime() + CHUNK_MS[tier]));
+          const merged = input === "raw"
+            ? aggregateSamples(await loadRawSamples(source, start, chunkEnd), seconds)
+            : mergeBuckets(await loadTierBuckets(source, input, start, chunkEnd), seconds);
+
+          await upsertBuckets(tier, merged);
+          buckets += merged.length;
+          start = chunkEnd;
+          if (chunkEnd > watermark) watermark = chunkEnd;
+        }
+
+        await saveState(source, tier, watermark, buckets, null);
+        results.push({ source, tier, buckets, watermark });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[TelemetryRollups] ${source}/${tier} failed:`, message);
+        if (watermark) await saveState(source, tier, watermark, buckets, message).catch(() => {});
+        results.push({ source, tier, buckets, watermark, error: message });
+        break;
+      }
+
+      inputWatermark = watermark;
+    }
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Retention
+// ============================================================================
+
+export type RetentionSettings = typeof DEFAULT_RETENTION;
+
+/**
+ * Cutoffs before which data is deleted. Raw rows and tier buckets are only
+ * pruned once the next tier has rolled them up.
+ */
+export function retentionCutoffs(
+  policy: RetentionSettings,
+  now: Date,
+  watermarks: Partial<Record<RollupTier, Date | null>>
+): { raw: Date | null; "5m": Date | null; "1h": Date | null; "1d": Date | null } {
+  const cutoff = (days: number | null, safeBefore?: Date | null): Date | null => {
+    if (days === null || days === undefined) return null;
+    const byAge = new Date(now.getTime() - days * 86400_000);
+    if (safeBefore === undefined) return byAge;
+    if (!safeBefore) return null;
+    return byAge < safeBefore ? byAge : safeBefore;
+  };
+  return {
+    raw: cutoff(policy.rawRetentionDays, watermarks["5m"] ?? null),
+    "5m": cutoff(policy.fiveMinuteRetentionDays, watermarks["1h"] ?? null),
+    "1h": cutoff(policy.hourlyRetentionDays, watermarks["1d"] ?? null),
+    "1d": cutoff(policy.dailyRetentionDays),
+  };
+}
+
+async function deleteInBatches(statement: () => ReturnType<typeof sql>): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+  let total = 0;
+  for (;;) {
+    const [result] = await db.execute(statement());
+    const affected = (result as unknown as { affectedRows?: number }).affectedRows || 0;
+    total += affected;
+    if (affected < PRUNE_BATCH) return total;
+  }
+}
+
+export async function getRetentionPolicy(organizationId: number): Promise<RetentionSettings & { enabled: boolean }> {
+  const db = await getDb();
+  if (!db) return { ...DEFAULT_RETENTION, enabled: true };
+  const [policy] = await db.select()
+    .from(telemetryRetentionPolicies)
+    .where(eq(telemetryRetentionPolicies.organizationId, organizationId))
+    .limit(1);
+  if (!policy) return { ...DEFAULT_RETENTION, enabled: true };
+  return {
+    rawRetentionDays: policy.rawRetentionDays,
+    fiveMinuteRetentionDays: policy.fiveMinuteRetentionDays,
+    hourlyRetentionDays: policy.hourlyRetentionDays,
+    dailyRetentionDays: policy.dailyRetentionDays,
+    enabled: policy.enabled,
+  };
+}
+
+/**
+ * Apply each org's retention policy (or the defaults) to raw telemetry and rollups
+ */
+export async function pruneTelemetry(now: Date = new Date()): Promise<Array<{ organizationId: number; deleted: number }>> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const results: Array<{ organizationId: number; deleted: number }> = [];
+  const orgs = await db.select({ id: organizations.id }).from(organizations);
+
+  for (const source of ROLLUP_SOURCES) {
+    const watermarks = {
+      "5m": await getWatermark(source, "5m"),
+      "1h": await getWatermark(source, "1h"),
+      "1d": await getWatermark(source, "1d"),
+    };
+
+    for (const org of orgs) {
+      const policy = await getRetentionPolicy(org.id);
+      if (!policy.enabled) continue;
+      const cutoffs = retentionCutoffs(policy, now, watermarks);
+      let deleted = 0;
+
+      if (cutoffs.raw) {
+        const rawCutoff = cutoffs.raw;
+        deleted += source === "measurements"
+          ? await deleteInBatches(() => sql`
+              DELETE FROM rawMeasurements
+              WHERE timestamp < ${rawCutoff}
+                AND deviceId IN (SELECT d.id FROM devices d JOIN sites s ON s.id = d.siteId WHERE s.organizationId = ${org.id})
+              LIMIT ${PRUNE_BATCH}`)
+          : await deleteInBatches(() => sql`
+              DELETE FROM inverterTelemetry
+              WHERE timestamp < ${rawCutoff}
+                AND connectionId IN (SELECT c.id FROM inverterConnections c WHERE c.organizationId = ${org.id})
+              LIMIT ${PRUNE_BATCH}`);
+      }
+
+      for (const tier of ["5m", "1h", "1d"] as RollupTier[]) {
+        const tierCutoff = cutoffs[tier];
+        if (!tierCutoff) continue;
+        deleted += await deleteInBatches(() => sql`
+          DELETE FROM telemetryRollups
+          WHERE organizationId = ${org.id} AND source = ${source} AND tier = ${tier} AND bucketStart < ${tierCutoff}
+          LIMIT ${PRUNE_BATCH}`);
+      }
+
+      const existing = results.find(r => r.organizationId === org.id);
+      if (existing) existing.deleted += deleted;
+      else results.push({ organizationId: org.id, deleted });
+    }
+  }
+
+  for (const result of results) {
+    await db.update(telemetryRetentionPolicies)
+      .set({ lastPrunedAt: now, lastPrunedRows: result.deleted })
+      .where(eq(telemetryRetentionPolicies.organizationId, result.organizationId));
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+export interface RollupQuery {
+  organizationId?: number;
+  projectIds?: number[];
+  siteIds?: number[];
+  deviceIds?: number[];
+  metricCodes: string[];
+  source?: RollupSource;
+  from: Date;
+  to: Date;
+  tier: RollupTier;
+}
+
+/** Load stored buckets for a tier; callers re-bucket and combine them */
+export async function loadRollups(query: RollupQuery): Promise<RollupBucket[]> {
+  const db = await getDb();
+  if (!db || query.metricCodes.length === 0) return [];
+
+  const conditions = [
+    eq(telemetryRollups.tier, query.tier),
+    inArray(telemetryRollups.metricCode, query.metricCodes),
+    gte(telemetryRollups.bucketStart, query.from),
+    lt(telemetryRollups.bucketStart, query.to),
+  ];
+  if (query.organizationId !== undefined) conditions.push(eq(telemetryRollups.organizationId, query.organizationId));
+  if (query.projectIds?.length) conditions.push(inArray(telemetryRollups.projectId, query.projectIds));
+  if (query.siteIds?.length) conditions.push(inArray(telemetryRollups.siteId, query.siteIds));
+  if (query.deviceIds?.length) conditions.push(inArray(telemetryRollups.deviceId, query.deviceIds));
+  if (query.source) conditions.push(eq(telemetryRollups.source, query.source));
+
+  const rows = await db.select()
+    .from(telemetryRollups)
+    .where(and(...conditions))
+    .orderBy(asc(telemetryRollups.bucketStart))
+    .limit(MAX_QUERY_ROWS);
+  return rows.map(toBucket);
+}
+
+export type RollupGroupDimension = "project" | "site" | "device";
+
+export interface RollupSeriesPoint {
+  metricCode: string;
+  labels: { projectId?: number | null; siteId?: number | null; deviceId?: number };
+  bucketStart: Date;
+  value: number;
+}
+
+/**
+ * Re-bucket tier rows to the requested interval and combine devices that
+ * share a group. 'last' takes the most recent sample in the group.
+ */
+export function combineRollups(
+  buckets: RollupBucket[],
+  options: {
+    bucketFor: (date: Date) => Date;
+    aggregation: RollupAggregation;
+    groupBy?: RollupGroupDimension[];
+  }
+): RollupSeriesPoint[] {
+  const groups = new Map<string, { point: RollupSeriesPoint; bucket: RollupBucket }>();
+  const dims = options.groupBy || [];
+
+  for (const b of buckets) {
+    const labels: RollupSeriesPoint["labels"] = {};
+    if (dims.includes("project")) labels.projectId = b.projectId;
+    if (dims.includes("site")) labels.siteId = b.siteId;
+    if (dims.includes("device")) labels.deviceId = b.deviceId;
+
+    const bucketStart = options.bucketFor(b.bucketStart);
+    const key = `${b.metricCode}|${JSON.stringify(labels)}|${bucketStart.getTime()}`;
+    const existing = groups.get(key);
+
+    if (!existing) {
+      groups.set(key, {
+        point: { metricCode: b.metricCode, labels, bucketStart, value: 0 },
+        bucket: { ...b, bucketStart },
+      });
+      continue;
+    }
+    const acc = existing.bucket;
+    acc.min = Math.min(acc.min, b.min);
+    acc.max = Math.max(acc.max, b.max);
+    acc.sum += b.sum;
+    acc.count += b.count;
+    if (b.lastAt.getTime() >= acc.lastAt.getTime()) {
+      acc.last = b.last;
+      acc.lastAt = b.lastAt;
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(({ point, bucket }) => ({ ...point, value: bucketValue(bucket, options.aggregation) }))
+    .sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+}
+
+// Lifetime energy counters, with the factor that converts each to kWh
+export const ENERGY_COUNTER_METRICS: Record<string, number> = {
+  total_energy_kwh: 1,
+  total_energy: 0.001, // SunSpec WH
+};
+
+/**
+ * Energy produced (kWh) per output bucket, from lifetime counters.
+ * One extra tier bucket before `from` is read so the first delta has a baseline.
+ */
+export async function getEnergyProduction(params: {
+  organizationId?: number;
+  projectIds?: number[];
+  siteIds?: number[];
+  from: Date;
+  to: Date;
+  tier: RollupTier;
+  bucketFor: (date: Date) => Date;
+}): Promise<Array<{ bucketStart: Date; value: number }>> {
+  const buckets = await loadRollups({
+    organizationId: params.organizationId,
+    projectIds: params.projectIds,
+    siteIds: params.siteIds,
+    metricCodes: Object.keys(ENERGY_COUNTER_METRICS),
+    from: new Date(params.from.getTime() - TIER_SECONDS[params.tier] * 1000),
+    to: params.to,
+    tier: params.tier,
+  });
+
+  const byDevice = new Map<string, RollupBucket[]>();
+  for (const b of buckets) {
+    const key = `${b.source}|${b.deviceId}|${b.metricCode}`;
+    if (!byDevice.has(key)) byDevice.set(key, []);
+    byDevice.get(key)!.push(b);
+  }
+
+  const totals = new Map<number, number>();
+  for (const series of Array.from(byDevice.values())) {
+    const factor = ENERGY_COUNTER_METRICS[series[0].metricCode];
+    for (const { bucketStart, delta } of counterDeltas(series)) {
+      if (bucketStart < params.from) continue;
+      const key = params.bucketFor(bucketStart).getTime();
+      totals.set(key, (totals.get(key) || 0) + delta * factor);
+    }
+  }
+
+  return Array.from(totals.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([ts, value]) => ({ bucketStart: new Date(ts), value }));
+}
+
+export async function getRollupStatus() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(telemetryRollupState);
+}
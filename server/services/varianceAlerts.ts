@@ -22,9 +22,12 @@ export interface VarianceThresholds {
   ebitdaVariancePercent: number;
 }
 
+// Consecutive months of production below threshold before it counts as sustained
+export const DEFAULT_SUSTAINED_MONTHS = 3;
+
 export interface VarianceAlert {
   id: string;
-  type: 'revenue' | 'production' | 'opex' | 'ebitda';
+  type: 'revenue' | 'production' | 'production_p90' | 'opex' | 'ebitda';
   projectId: number;
   projectName: string;
   financialModelId: number;
@@ -37,6 +40,8 @@ export interface VarianceAlert {
   variancePercent: number;
   threshold: number;
   severity: 'warning' | 'critical';
+  // Set on production alerts that are part of a run of underperforming months
+  sustainedMonths?: number;
   createdAt: Date;
 }
 
@@ -70,6 +75,7 @@ export function checkComparisonForAlerts(
     projectedRevenue: number | null;
     actualRevenue: number | null;
     projectedProduction: number | null;
+    projectedProductionP90?: number | null;
     actualProduction: number | null;
     projectedOpex: number | null;
     actualOpex: number | null;
@@ -133,6 +139,24 @@ export function checkComparisonForAlerts(
     }
   }
 
+  // Metered production below the P90 downside case is always critical
+  if (comparison.projectedProductionP90 != null && comparison.actualProduction !== null &&
+      Number(comparison.actualProduction) < Number(comparison.projectedProductionP90)) {
+    const projected = Number(comparison.projectedProductionP90);
+    const actual = Number(comparison.actualProduction);
+    alerts.push({
+      ...baseAlert,
+      id: `production_p90-${comparison.id}-${Date.now()}`,
+      type: 'production_p90',
+      projected,
+      actual,
+      variance: actual - projected,
+      variancePercent: calculateVariancePercent(projected, actual),
+      threshold: 0,
+      severity: 'critical',
+    });
+  }
+
   // Check OpEx variance
   if (comparison.projectedOpex !== null && comparison.actualOpex !== null) {
     const variancePercent = calculateVariancePercent(
@@ -178,6 +202,36 @@ export function checkComparisonForAlerts(
   return alerts;
 }
 
+/**
+ * Mark production shortfalls that run for at least `sustainedMonths`
+ * consecutive periods. Pass one entry per period with the alerts
+ * checkComparisonForAlerts raised for it; a period without a shortfall breaks
+ * the run.
+ */
+export function findSustainedUnderperformance(
+  periods: Array<{ periodStart: Date; alerts: VarianceAlert[] }>,
+  sustainedMonths: number = DEFAULT_SUSTAINED_MONTHS
+): VarianceAlert[] {
+  const ordered = [...periods].sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+  const sustained: VarianceAlert[] = [];
+  let run: VarianceAlert[] = [];
+  const flush = () => {
+    if (run.length >= sustainedMonths) {
+      run.forEach(alert => sustained.push({ ...alert, sustainedMonths: run.length }));
+    }
+    run = [];
+  };
+
+  for (const period of ordered) {
+    const shortfall = period.alerts.find(a => a.type === 'production' && a.variancePercent < 0);
+    if (shortfall) run.push(shortfall);
+    else flush();
+  }
+  flush();
+
+  return sustained;
+}
+
 /**
  * Format currency for display
  */
@@ -205,6 +259,7 @@ export async function sendVarianceAlertNotification(alert: VarianceAlert): Promi
   const typeLabels: Record<string, string> = {
     revenue: 'Revenue',
     production: 'Production',
+    production_p90: 'Production (P90)',
     opex: 'Operating Expenses',
     ebitda: 'EBITDA',
   };
@@ -212,7 +267,7 @@ export async function sendVarianceAlertNotification(alert: VarianceAlert): Promi
   const title = `${alert.severity === 'critical' ? '🚨 CRITICAL' : '⚠️ Warning'}: ${typeLabels[alert.type]} Variance Alert`;
   
   const periodStr = `${alert.periodStart.toLocaleDateString()} - ${alert.periodEnd.toLocaleDateString()}`;
-  const isProduction = alert.type === 'production';
+  const isProduction = alert.type === 'production' || alert.type === 'production_p90';
   
   const content = `
 **Project:** ${alert.projectName}
@@ -223,7 +278,7 @@ export async function sendVarianceAlertNotification(alert: VarianceAlert): Promi
 - Projected: ${isProduction ? `${alert.projected.toLocaleString()} MWh` : formatCurrency(alert.projected)}
 - Actual: ${isProduction ? `${alert.actual.toLocaleString()} MWh` : formatCurrency(alert.actual)}
 - Variance: ${isProduction ? `${alert.variance.toLocaleString()} MWh` : formatCurrency(alert.variance)} (${formatPercent(alert.variancePercent)})
-- Threshold: ±${alert.threshold}%
+- Threshold: ${alert.type === 'production_p90' ? 'P90 downside case' : `±${alert.threshold}%`}${alert.sustainedMonths ? `\n- Sustained: ${alert.sustainedMonths} consecutive periods below threshold` : ''}
 
 ${alert.variancePercent < 0 
   ? `⬇️ Actual ${typeLabels[alert.type].toLowerCase()} is ${Math.abs(alert.variancePercent).toFixed(1)}% below projections.`
@@ -1,12 +1,28 @@
 /**
  * Vector Embeddings and Semantic Search Service
+ *
+ * Indexes are partitioned by organization (and optionally project). When a
+ * database is configured entries persist in `vectorIndexEntries`; otherwise
+ * an in-process store is kept per store + organization so dev/test behave
+ * the same way without leaking across tenants.
  */
 
+import { createHash } from 'crypto';
+import { and, eq, gte, inArray, lte, or, sql, type SQL } from 'drizzle-orm';
+import { getDb } from '../db';
+import { documents, documentTypes, documentVersions, projects, vectorIndexEntries } from '../../drizzle/schema';
+
 export interface VectorDocument {
   id: string;
   content: string;
   embedding?: number[];
   metadata: Record<string, any>;
+  projectId?: number | null;
+  documentType?: string | null;
+  documentDate?: Date | null;
+  sourceType?: 'document' | 'documentVersion' | 'custom';
+  sourceId?: number | null;
+  chunkIndex?: number;
 }
 
 export interface SearchResult {
@@ -15,6 +31,143 @@ export interface SearchResult {
   highlights?: string[];
 }
 
+/** Tenant partition every index/search call is bound to */
+export interface VectorScope {
+  organizationId: number;
+  projectId?: number | null;
+}
+
+export interface VectorSearchFilters {
+  projectIds?: number[];
+  documentTypes?: string[];
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface VectorSearchOptions {
+  topK?: number;
+  filters?: VectorSearchFilters;
+}
+
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+const LSH_BANDS = 4;
+const LSH_BITS_PER_BAND = 8;
+const CHUNK_SIZE = 2000;
+const CHUNK_OVERLAP = 200;
+// Bucket candidates scored per result wanted; the ones sharing the most bands with the query are kept
+const LSH_CANDIDATES_PER_RESULT = 50;
+// Upper bound on rows scored when LSH candidates are too sparse. Entries that
+// share no band with the query are only found through this scan, newest first,
+// so in partitions larger than this a few of them can be missed.
+const MAX_FALLBACK_SCAN = 5000;
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0, nA = 0, nB = 0;
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) { dot += a[i] * b[i]; nA += a[i] ** 2; nB += b[i] ** 2; }
+  return dot / (Math.sqrt(nA) * Math.sqrt(nB) || 1);
+}
+
+export async function generateEmbedding(text: string, dimensions = 1536): Promise<number[]> {
+  try {
+    const response = await fetch(`${process.env.BUILT_IN_FORGE_API_URL}/v1/embeddings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${process.env.BUILT_IN_FORGE_API_KEY}` },
+      body: JSON.stringify({ input: text, model: EMBEDDING_MODEL })
+    });
+    const data = await response.json();
+    return data.data?.[0]?.embedding || fallbackEmbedding(text, dimensions);
+  } catch { return fallbackEmbedding(text, dimensions); }
+}
+
+function fallbackEmbedding(text: string, dimensions: number): number[] {
+  const words = text.toLowerCase().split(/\s+/);
+  const emb = new Array(dimensions).fill(0);
+  for (const word of words) {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) hash = ((hash << 5) - hash) + word.charCodeAt(i);
+    emb[Math.abs(hash) % dimensions] += 1 / words.length;
+  }
+  const mag = Math.sqrt(emb.reduce((s, v) => s + v * v, 0));
+  return mag > 0 ? emb.map(v => v / mag) : emb;
+}
+
+// Hyperplanes are derived from a fixed seed so band keys are stable across restarts
+const hyperplaneCache: Map<number, number[][]> = new Map();
+
+function getHyperplanes(dimensions: number): number[][] {
+  let planes = hyperplaneCache.get(dimensions);
+  if (planes) return planes;
+  let seed = 0x9e3779b9 ^ dimensions;
+  const rand = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  planes = [];
+  for (let p = 0; p < LSH_BANDS * LSH_BITS_PER_BAND; p++) {
+    const plane = new Array(dimensions);
+    for (let i = 0; i < dimensions; i++) plane[i] = rand() * 2 - 1;
+    planes.push(plane);
+  }
+  hyperplaneCache.set(dimensions, planes);
+  return planes;
+}
+
+/** Random-hyperplane LSH: one 8-bit key per band */
+export function computeLshBands(embedding: number[]): number[] {
+  const planes = getHyperplanes(embedding.length);
+  const bands: number[] = [];
+  for (let b = 0; b < LSH_BANDS; b++) {
+    let key = 0;
+    for (let bit = 0; bit < LSH_BITS_PER_BAND; bit++) {
+      const plane = planes[b * LSH_BITS_PER_BAND + bit];
+      let dot = 0;
+      for (let i = 0; i < embedding.length; i++) dot += plane[i] * embedding[i];
+      key = (key << 1) | (dot >= 0 ? 1 : 0);
+    }
+    bands.push(key);
+  }
+  return bands;
+}
+
+/**
+ * ORDER BY for LSH candidates: most bands shared with the query first, then
+ * by id, so a busy bucket always yields the same candidates.
+ */
+export function lshCandidateOrder(bands: number[]): SQL[] {
+  const [b0, b1, b2, b3] = bands;
+  const hits = sql`(${vectorIndexEntries.lshBand0} = ${b0}) + (${vectorIndexEntries.lshBand1} = ${b1}) + (${vectorIndexEntries.lshBand2} = ${b2}) + (${vectorIndexEntries.lshBand3} = ${b3})`;
+  return [sql`${hits} DESC`, sql`${vectorIndexEntries.id} ASC`];
+}
+
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= size) return clean ? [clean] : [];
+  const chunks: string[] = [];
+  for (let start = 0; start < clean.length; start += size - overlap) {
+    chunks.push(clean.slice(start, start + size));
+    if (start + size >= clean.length) break;
+  }
+  return chunks;
+}
+
+const hashContent = (content: string) => createHash('sha256').update(content).digest('hex');
+
+function matchesFilters(doc: VectorDocument, scope: VectorScope, filters?: VectorSearchFilters): boolean {
+  const projectIds = filters?.projectIds ?? (scope.projectId != null ? [scope.projectId] : undefined);
+  if (projectIds && (doc.projectId == null || !projectIds.includes(doc.projectId))) return false;
+  if (filters?.documentTypes && (!doc.documentType || !filters.documentTypes.includes(doc.documentType))) return false;
+  if (filters?.dateFrom && (!doc.documentDate || doc.documentDate < filters.dateFrom)) return false;
+  if (filters?.dateTo && (!doc.documentDate || doc.documentDate > filters.dateTo)) return false;
+  return true;
+}
+
+/**
+ * In-process store for a single tenant partition. Used when no database is
+ * configured.
+ */
 export class VectorStore {
   private documents: Map<string, VectorDocument> = new Map();
   private dimensions: number;
@@ -24,27 +177,7 @@ export class VectorStore {
   }
 
   async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      const response = await fetch(`${process.env.BUILT_IN_FORGE_API_URL}/v1/embeddings`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${process.env.BUILT_IN_FORGE_API_KEY}` },
-        body: JSON.stringify({ input: text, model: 'text-embedding-3-small' })
-      });
-      const data = await response.json();
-      return data.data?.[0]?.embedding || this.fallbackEmbedding(text);
-    } catch { return this.fallbackEmbedding(text); }
-  }
-
-  private fallbackEmbedding(text: string): number[] {
-    const words = text.toLowerCase().split(/\s+/);
-    const emb = new Array(this.dimensions).fill(0);
-    for (const word of words) {
-      let hash = 0;
-      for (let i = 0; i < word.length; i++) hash = ((hash << 5) - hash) + word.charCodeAt(i);
-      emb[Math.abs(hash) % this.dimensions] += 1 / words.length;
-    }
-    const mag = Math.sqrt(emb.reduce((s, v) => s + v * v, 0));
-    return mag > 0 ? emb.map(v => v / mag) : emb;
+    return generateEmbedding(text, this.dimensions);
   }
 
   async addDocument(doc: VectorDocument): Promise<void> {
@@ -52,15 +185,26 @@ export class VectorStore {
     this.documents.set(doc.id, doc);
   }
 
-  async search(query: string, topK = 10): Promise<SearchResult[]> {
+  removeDocument(id: string): boolean { return this.documents.delete(id); }
+
+  removeBySource(sourceType: string, sourceId: number, fromChunk = 0): number {
+    let removed = 0;
+    for (const [id, doc] of Array.from(this.documents.entries())) {
+      if (doc.sourceType === sourceType && doc.sourceId === sourceId && (doc.chunkIndex ?? 0) >= fromChunk) {
+        this.documents.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async search(query: string, topK = 10, scope?: VectorScope, filters?: VectorSearchFilters): Promise<SearchResult[]> {
     const qEmb = await this.generateEmbedding(query);
     const results: SearchResult[] = [];
     for (const doc of Array.from(this.documents.values())) {
       if (!doc.embedding) continue;
-      let dot = 0, nA = 0, nB = 0;
-      for (let i = 0; i < qEmb.length; i++) { dot += qEmb[i] * doc.embedding[i]; nA += qEmb[i] ** 2; nB += doc.embedding[i] ** 2; }
-      const score = dot / (Math.sqrt(nA) * Math.sqrt(nB) || 1);
-      results.push({ document: doc, score });
+      if (scope && !matchesFilters(doc, scope, filters)) continue;
+      results.push({ document: doc, score: cosineSimilarity(qEmb, doc.embedding) });
     }
     return results.sort((a, b) => b.score - a.score).slice(0, topK);
   }
@@ -68,26 +212,261 @@ export class VectorStore {
   getDocumentCount(): number { return this.documents.size; }
 }
 
+/**
+ * MySQL-backed store. Rows are always constrained by storeName +
+ * organizationId before any scoring happens.
+ */
+export class PersistentVectorStore {
+  constructor(private storeName: string, private dimensions = 1536) {}
+
+  async upsert(scope: VectorScope, doc: VectorDocument): Promise<'inserted' | 'updated' | 'unchanged'> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const contentHash = hashContent(doc.content);
+    const [existing] = await db.select({ id: vectorIndexEntries.id, contentHash: vectorIndexEntries.contentHash })
+      .from(vectorIndexEntries)
+      .where(and(
+        eq(vectorIndexEntries.storeName, this.storeName),
+        eq(vectorIndexEntries.organizationId, scope.organizationId),
+        eq(vectorIndexEntries.externalId, doc.id),
+      ))
+      .limit(1);
+
+    const row = {
+      projectId: doc.projectId ?? scope.projectId ?? null,
+      sourceType: doc.sourceType ?? 'custom',
+      sourceId: doc.sourceId ?? null,
+      chunkIndex: doc.chunkIndex ?? 0,
+      documentType: doc.documentType ?? null,
+      documentDate: doc.documentDate ?? null,
+      metadata: doc.metadata,
+    };
+
+    if (existing && existing.contentHash === contentHash) {
+      // Content unchanged - refresh filterable metadata only, no re-embedding
+      await db.update(vectorIndexEntries).set(row).where(eq(vectorIndexEntries.id, existing.id));
+      return 'unchanged';
+    }
+
+    const embedding = doc.embedding ?? await generateEmbedding(doc.content, this.dimensions);
+    const [b0, b1, b2, b3] = computeLshBands(embedding);
+    const values = {
+      ...row,
+      content: doc.content,
+      contentHash,
+      embedding,
+      embeddingModel: doc.embedding ? null : EMBEDDING_MODEL,
+      dimensions: embedding.length,
+      lshBand0: b0, lshBand1: b1, lshBand2: b2, lshBand3: b3,
+    };
+
+    if (existing) {
+      await db.update(vectorIndexEntries).set(values).where(eq(vectorIndexEntries.id, existing.id));
+      return 'updated';
+    }
+    await db.insert(vectorIndexEntries).values({
+      ...values,
+      storeName: this.storeName,
+      organizationId: scope.organizationId,
+      externalId: doc.id,
+    });
+    return 'inserted';
+  }
+
+  async remove(scope: VectorScope, id: string): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+    await db.delete(vectorIndexEntries).where(and(
+      eq(vectorIndexEntries.storeName, this.storeName),
+      eq(vectorIndexEntries.organizationId, scope.organizationId),
+      eq(vectorIndexEntries.externalId, id),
+    ));
+  }
+
+  async removeBySource(scope: VectorScope, sourceType: 'document' | 'documentVersion' | 'custom', sourceId: number, fromChunk = 0): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+    await db.delete(vectorIndexEntries).where(and(
+      eq(vectorIndexEntries.storeName, this.storeName),
+      eq(vectorIndexEntries.organizationId, scope.organizationId),
+      eq(vectorIndexEntries.sourceType, sourceType),
+      eq(vectorIndexEntries.sourceId, sourceId),
+      gte(vectorIndexEntries.chunkIndex, fromChunk),
+    ));
+  }
+
+  async search(scope: VectorScope, query: string, options: VectorSearchOptions = {}): Promise<SearchResult[]> {
+    const db = await getDb();
+    if (!db) return [];
+    const topK = options.topK ?? 10;
+    const filters = options.filters;
+
+    const conditions: SQL[] = [
+      eq(vectorIndexEntries.storeName, this.storeName),
+      eq(vectorIndexEntries.organizationId, scope.organizationId),
+    ];
+    const projectIds = filters?.projectIds ?? (scope.projectId != null ? [scope.projectId] : undefined);
+    if (projectIds) {
+      if (projectIds.length === 0) return [];
+      conditions.push(inArray(vectorIndexEntries.projectId, projectIds));
+    }
+    if (filters?.documentTypes?.length) conditions.push(inArray(vectorIndexEntries.documentType, filters.documentTypes));
+    if (filters?.dateFrom) conditions.push(gte(vectorIndexEntries.documentDate, filters.dateFrom));
+    if (filters?.dateTo) conditions.push(lte(vectorIndexEntries.documentDate, filters.dateTo));
+
+    const qEmb = await generateEmbedding(query, this.dimensions);
+    const bands = computeLshBands(qEmb);
+    const [b0, b1, b2, b3] = bands;
+
+    let rows = await db.select().from(vectorIndexEntries)
+      .where(and(...conditions, or(
+        eq(vectorIndexEntries.lshBand0, b0),
+        eq(vectorIndexEntries.lshBand1, b1),
+        eq(vectorIndexEntries.lshBand2, b2),
+        eq(vectorIndexEntries.lshBand3, b3),
+      )))
+      .orderBy(...lshCandidateOrder(bands))
+      .limit(topK * LSH_CANDIDATES_PER_RESULT);
+
+    if (rows.length < topK) {
+      // Sparse bucket hit - add a bounded scan of the partition, keeping the bucket hits
+      const scanned = await db.select().from(vectorIndexEntries)
+        .where(and(...conditions))
+        .orderBy(sql`${vectorIndexEntries.updatedAt} DESC`, sql`${vectorIndexEntries.id} DESC`)
+        .limit(MAX_FALLBACK_SCAN);
+      const seen = new Set(rows.map(r => r.id));
+      rows = [...rows, ...scanned.filter(r => !seen.has(r.id))];
+    }
+
+    return rows
+      .map(r => ({
+        document: {
+          id: r.externalId,
+          content: r.content,
+          metadata: r.metadata ?? {},
+          projectId: r.projectId,
+          documentType: r.documentType,
+          documentDate: r.documentDate,
+          sourceType: r.sourceType,
+          sourceId: r.sourceId,
+          chunkIndex: r.chunkIndex,
+        },
+        score: cosineSimilarity(qEmb, r.embedding),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
+
 export class SemanticSearchService {
   private stores: Map<string, VectorStore> = new Map();
 
-  createStore(name: string): VectorStore {
-    const store = new VectorStore();
-    this.stores.set(name, store);
+  private memoryKey(storeName: string, scope: VectorScope) { return `${storeName}:${scope.organizationId}`; }
+
+  private getMemoryStore(storeName: string, scope: VectorScope): VectorStore {
+    const key = this.memoryKey(storeName, scope);
+    let store = this.stores.get(key);
+    if (!store) { store = new VectorStore(); this.stores.set(key, store); }
     return store;
   }
 
-  getStore(name: string): VectorStore | undefined { return this.stores.get(name); }
+  getStore(storeName: string, scope: VectorScope): VectorStore | undefined {
+    return this.stores.get(this.memoryKey(storeName, scope));
+  }
+
+  async index(storeName: string, scope: VectorScope, doc: VectorDocument): Promise<void> {
+    const db = await getDb();
+    if (db) { await new PersistentVectorStore(storeName).upsert(scope, doc); return; }
+    await this.getMemoryStore(storeName, scope).addDocument({ ...doc, projectId: doc.projectId ?? scope.projectId ?? null });
+  }
+
+  async remove(storeName: string, scope: VectorScope, id: string): Promise<void> {
+    const db = await getDb();
+    if (db) { await new PersistentVectorStore(storeName).remove(scope, id); return; }
+    this.getStore(storeName, scope)?.removeDocument(id);
+  }
+
+  async search(storeName: string, scope: VectorScope, query: string, options: VectorSearchOptions = {}): Promise<SearchResult[]> {
+    const db = await getDb();
+    if (db) return new PersistentVectorStore(storeName).search(scope, query, options);
+    const store = this.getStore(storeName, scope);
+    return store ? store.search(query, options.topK ?? 10, scope, options.filters) : [];
+  }
 
-  async index(storeName: string, doc: VectorDocument): Promise<void> {
-    let store = this.stores.get(storeName);
-    if (!store) store = this.createStore(storeName);
-    await store.addDocument(doc);
+  /**
+   * (Re)index a document from `documents` + its current `documentVersions`
+   * text. Unchanged chunks are skipped by content hash; archived or
+   * superseded documents are removed from the index.
+   */
+  async indexDocument(documentId: number): Promise<{ indexed: number; removed: boolean }> {
+    const db = await getDb();
+    if (!db) return { indexed: 0, removed: false };
+
+    const [row] = await db.select({
+      document: documents,
+      organizationId: projects.organizationId,
+      documentType: documentTypes.code,
+    })
+      .from(documents)
+      .innerJoin(projects, eq(documents.projectId, projects.id))
+      .leftJoin(documentTypes, eq(documents.documentTypeId, documentTypes.id))
+      .where(eq(documents.id, documentId))
+      .limit(1);
+
+    if (!row || !row.organizationId) {
+      console.warn(`[SemanticSearch] Skipping document ${documentId}: no organization scope`);
+      return { indexed: 0, removed: false };
+    }
+    const scope: VectorScope = { organizationId: row.organizationId, projectId: row.document.projectId };
+    const store = new PersistentVectorStore('documents');
+
+    if (row.document.visibilityState !== 'active') {
+      await store.removeBySource(scope, 'document', documentId);
+      return { indexed: 0, removed: true };
+    }
+
+    const [version] = await db.select().from(documentVersions)
+      .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.isCurrentVersion, true)))
+      .orderBy(sql`${documentVersions.version} DESC`)
+      .limit(1);
+
+    const text = [
+      row.document.name,
+      row.document.notes,
+      row.document.tags?.join(' '),
+      version?.metadata?.extractedText,
+    ].filter(Boolean).join('\n');
+
+    const chunks = chunkText(text);
+    for (let i = 0; i < chunks.length; i++) {
+      await store.upsert(scope, {
+        id: `document:${documentId}:${i}`,
+        content: chunks[i],
+        metadata: { documentId, documentName: row.document.name, versionId: version?.id ?? null },
+        projectId: row.document.projectId,
+        documentType: row.documentType,
+        documentDate: row.document.createdAt,
+        sourceType: 'document',
+        sourceId: documentId,
+        chunkIndex: i,
+      });
+    }
+    // Drop chunks left over from a longer previous version
+    await store.removeBySource(scope, 'document', documentId, chunks.length);
+    return { indexed: chunks.length, removed: false };
   }
 
-  async search(storeName: string, query: string, topK = 10): Promise<SearchResult[]> {
-    const store = this.stores.get(storeName);
-    return store ? store.search(query, topK) : [];
+  async removeDocument(documentId: number): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+    const [row] = await db.select({ organizationId: projects.organizationId })
+      .from(documents)
+      .innerJoin(projects, eq(documents.projectId, projects.id))
+      .where(eq(documents.id, documentId))
+      .limit(1);
+    if (!row?.organizationId) return;
+    await new PersistentVectorStore('documents').removeBySource({ organizationId: row.organizationId }, 'document', documentId);
   }
 }
 
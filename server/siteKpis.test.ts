@@ -0,0 +1,125 @@
+/**
+ * Site KPI Tests
+ *
+ * Performance ratio (plain and temperature-corrected), specific yield,
+ * technical/contractual/energy availability and period summaries.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  KpiHour,
+  KpiSettings,
+  computeSiteKpis,
+  kpiMetricValues,
+  kpiPeriodBounds,
+  summarizeKpis,
+} from "./services/siteKpis";
+
+const DAY = new Date("2026-06-15T00:00:00Z");
+const hourAt = (h: number) => new Date(DAY.getTime() + h * 3600_000);
+
+const settings: KpiSettings = {
+  capacityKwp: 100,
+  temperatureCoefficient: -0.004,
+  referenceTemperatureC: 25,
+  availabilityIrradianceThreshold: 50,
+  deviceCapacityKw: {},
+};
+
+function hour(h: number, irradiance: number, power: Record<string, number>, moduleTemperature: number | null = 25): KpiHour {
+  const energy = Object.values(power).reduce((s, p) => s + p, 0);
+  return { hourStart: hourAt(h), irradiance, moduleTemperature, energyKwh: energy, devicePowerKw: power };
+}
+
+describe("computeSiteKpis", () => {
+  it("should compute PR as final yield over reference yield, in percent", () => {
+    // 100 kWp at 800 W/m² for 5 hours would make 400 kWh at PR 100%
+    const hours = [8, 9, 10, 11, 12].map(h => hour(h, 800, { "m:1": 40, "m:2": 40 }));
+    const result = computeSiteKpis(hours, ["m:1", "m:2"], settings);
+
+    expect(result.energyKwh).toBe(400);
+    expect(result.referenceYield).toBeCloseTo(4);
+    expect(result.performanceRatio).toBeCloseTo(100);
+    expect(result.specificYield).toBeCloseTo(4);
+    expect(result.availability).toBe(100);
+  });
+
+  it("should correct PR for module temperature", () => {
+    // Hot modules (50 °C) lose 10% at -0.4%/°C; the corrected PR removes that loss
+    const hours = [10, 11].map(h => hour(h, 1000, { "m:1": 45 }, 50));
+    const result = computeSiteKpis(hours, ["m:1"], { ...settings, capacityKwp: 50 });
+
+    expect(result.performanceRatio).toBeCloseTo(90);
+    expect(result.performanceRatioStc).toBeCloseTo(100);
+  });
+
+  it("should count daylight device-hours without output as unavailable", () => {
+    const hours = [
+      hour(3, 0, {}), // night, ignored
+      hour(10, 900, { "m:1": 40, "m:2": 40 }),
+      hour(11, 900, { "m:1": 40, "m:2": 0 }),
+      hour(12, 900, { "m:1": 40 }), // m:2 missing
+    ];
+    const result = computeSiteKpis(hours, ["m:1", "m:2"], settings);
+
+    expect(result.daylightDeviceHours).toBe(6);
+    expect(result.availability).toBeCloseTo(66.6667, 3);
+    // Lost energy per hour: 50 kW share × 0.9 kW/m² × PR
+    expect(result.lostEnergyKwh).toBeGreaterThan(0);
+    expect(result.energyAvailability).toBeLessThan(100);
+  });
+
+  it("should deem excluded downtime available for contractual availability", () => {
+    const hours = [10, 11, 12, 13].map(h => hour(h, 900, { "m:1": 40, ...(h < 12 ? {} : { "m:2": 40 }) }));
+    const exclusions = [{ startAt: hourAt(10), endAt: hourAt(11), deviceKey: null }];
+    const result = computeSiteKpis(hours, ["m:1", "m:2"], settings, exclusions);
+
+    expect(result.availability).toBe(75);
+    expect(result.contractualAvailability).toBeCloseTo(87.5);
+  });
+
+  it("should fall back to summed power when no energy counter is available", () => {
+    const hours = [{ hourStart: hourAt(10), irradiance: 1000, moduleTemperature: null, energyKwh: null, devicePowerKw: { "i:7": 80 } }];
+    const result = computeSiteKpis(hours, ["i:7"], settings);
+    expect(result.energyKwh).toBe(80);
+    expect(result.performanceRatio).toBeCloseTo(80);
+  });
+
+  it("should leave ratios null without irradiance or capacity", () => {
+    const result = computeSiteKpis([hour(10, 0, { "m:1": 10 })], ["m:1"], { ...settings, capacityKwp: 0 });
+    const values = kpiMetricValues(result);
+    expect(values.performance_ratio).toBeNull();
+    expect(values.specific_yield).toBeNull();
+    expect(values.availability).toBeNull();
+  });
+});
+
+describe("kpiPeriodBounds", () => {
+  it("should return UTC day and month bounds", () => {
+    const date = new Date("2026-02-14T18:30:00Z");
+    expect(kpiPeriodBounds(date, "day")).toEqual({
+      start: new Date("2026-02-14T00:00:00Z"),
+      end: new Date("2026-02-15T00:00:00Z"),
+    });
+    expect(kpiPeriodBounds(date, "month")).toEqual({
+      start: new Date("2026-02-01T00:00:00Z"),
+      end: new Date("2026-03-01T00:00:00Z"),
+    });
+  });
+});
+
+describe("summarizeKpis", () => {
+  it("should average ratios and sum specific yield per site", () => {
+    const point = (siteId: number, day: number, pr: number, sy: number) => ({
+      siteId,
+      periodStart: hourAt(day * 24),
+      periodEnd: hourAt(day * 24 + 24),
+      metrics: { performance_ratio: pr, specific_yield: sy },
+    });
+    const summary = summarizeKpis([point(1, 0, 80, 4), point(1, 1, 84, 5), point(2, 0, 82, 6), point(2, 1, 78, 3)]);
+
+    expect(summary.performance_ratio).toBe(81);
+    expect(summary.specific_yield).toBe(9);
+    expect(summary.availability).toBeUndefined();
+  });
+});
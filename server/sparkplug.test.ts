@@ -0,0 +1,171 @@
+/**
+ * Sparkplug B Tests
+ *
+ * Protobuf codec, birth/death session tracking, alias resolution,
+ * sequence gap handling and hand-off to the measurement pipeline.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  SparkplugStateTracker,
+  decodeSparkplugPayload,
+  encodeSparkplugPayload,
+  parseSparkplugTopic,
+} from "./connectors/sparkplug";
+import type { SparkplugMetric } from "./connectors/mqtt";
+import { SparkplugIngestionService } from "./services/sparkplugIngestion";
+import { MeasurementSample, MeasurementTarget } from "./services/measurementIngestion";
+
+const T0 = 1_700_000_000_000;
+
+function payload(seq: number | undefined, metrics: SparkplugMetric[]): Buffer {
+  return encodeSparkplugPayload({ timestamp: T0, seq, metrics });
+}
+
+function nodeBirth(seq = 0, bdSeq = 1): Buffer {
+  return payload(seq, [
+    { name: "bdSeq", dataType: "UInt64", value: bdSeq },
+    { name: "Node Control/Rebirth", dataType: "Boolean", value: false },
+    { name: "Site/Irradiance", alias: 1, dataType: "Float", value: 812.5 },
+  ]);
+}
+
+function deviceBirth(seq: number): Buffer {
+  return payload(seq, [
+    { name: "Inverter/AC Power", alias: 10, dataType: "Double", value: 41.25 },
+    { name: "Inverter/Status", alias: 11, dataType: "String", value: "running" },
+  ]);
+}
+
+describe("Sparkplug B codec", () => {
+  it("should round-trip all scalar data types", () => {
+    const metrics: SparkplugMetric[] = [
+      { name: "i8", dataType: "Int8", value: -5 },
+      { name: "i16", dataType: "Int16", value: -300 },
+      { name: "i32", dataType: "Int32", value: -70000 },
+      { name: "i64", dataType: "Int64", value: -1234567890123 },
+      { name: "u32", dataType: "UInt32", value: 4000000000 },
+      { name: "u64", dataType: "UInt64", value: 9007199254740991 },
+      { name: "f", dataType: "Float", value: 1.5 },
+      { name: "d", dataType: "Double", value: 3.14159 },
+      { name: "b", dataType: "Boolean", value: true },
+      { name: "s", dataType: "String", value: "héllo" },
+      { name: "n", dataType: "Int32", value: null },
+    ];
+
+    const decoded = decodeSparkplugPayload(encodeSparkplugPayload({ timestamp: T0, seq: 7, metrics }));
+
+    expect(decoded.timestamp).toBe(T0);
+    expect(decoded.seq).toBe(7);
+    expect(decoded.metrics.map(m => [m.name, m.dataType, m.value])).toEqual(
+      metrics.map(m => [m.name, m.dataType, m.value])
+    );
+  });
+
+  it("should parse Sparkplug topics", () => {
+    expect(parseSparkplugTopic("spBv1.0/plant1/DDATA/gw1/inv-01")).toEqual({
+      namespace: "spBv1.0", groupId: "plant1", messageType: "DDATA", edgeNodeId: "gw1", deviceId: "inv-01",
+    });
+    expect(parseSparkplugTopic("spBv1.0/plant1/NBIRTH/gw1")?.deviceId).toBeUndefined();
+    expect(parseSparkplugTopic("spBv1.0/plant1/DDATA/gw1")).toBeNull();
+    expect(parseSparkplugTopic("solar/site1/telemetry")).toBeNull();
+  });
+
+  it("should reject truncated payloads", () => {
+    const buf = nodeBirth();
+    expect(() => decodeSparkplugPayload(buf.subarray(0, buf.length - 3))).toThrow();
+  });
+});
+
+describe("SparkplugStateTracker", () => {
+  it("should resolve aliases from birth certificates", () => {
+    const tracker = new SparkplugStateTracker();
+    tracker.handleMessage("spBv1.0/plant1/NBIRTH/gw1", nodeBirth(0));
+    tracker.handleMessage("spBv1.0/plant1/DBIRTH/gw1/inv-01", deviceBirth(1));
+
+    const result = tracker.handleMessage(
+      "spBv1.0/plant1/DDATA/gw1/inv-01",
+      payload(2, [{ name: "", alias: 10, dataType: "Double", value: 39.5 }])
+    );
+
+    expect(result?.rebirthReason).toBeUndefined();
+    expect(result?.metrics).toEqual([
+      expect.objectContaining({ name: "Inverter/AC Power", value: 39.5 }),
+    ]);
+
+    const node = tracker.getNodeState("plant1", "gw1")!;
+    expect(node.online).toBe(true);
+    expect(node.bdSeq).toBe(1);
+    expect(node.devices.get("inv-01")?.online).toBe(true);
+  });
+
+  it("should request a rebirth on a sequence gap or unknown alias", () => {
+    const tracker = new SparkplugStateTracker({ rebirthCooldownMs: 0 });
+    const rebirths: string[] = [];
+    tracker.on("rebirth", e => rebirths.push(e.reason));
+
+    tracker.handleMessage("spBv1.0/plant1/NBIRTH/gw1", nodeBirth(0));
+    tracker.handleMessage("spBv1.0/plant1/NDATA/gw1", payload(1, [{ name: "", alias: 1, dataType: "Float", value: 800 }]));
+    tracker.handleMessage("spBv1.0/plant1/NDATA/gw1", payload(5, [{ name: "", alias: 1, dataType: "Float", value: 790 }]));
+    tracker.handleMessage("spBv1.0/plant1/NDATA/gw1", payload(6, [{ name: "", alias: 99, dataType: "Float", value: 1 }]));
+
+    expect(rebirths).toEqual(["sequence_gap", "unknown_alias"]);
+  });
+
+  it("should request a rebirth for data from a node it has not seen born", () => {
+    const tracker = new SparkplugStateTracker();
+    const rebirths: string[] = [];
+    tracker.on("rebirth", e => rebirths.push(e.reason));
+
+    const result = tracker.handleMessage("spBv1.0/plant1/NDATA/gw2", payload(3, [{ name: "x", dataType: "Int32", value: 1 }]));
+
+    expect(result?.metrics).toEqual([]);
+    expect(rebirths).toEqual(["no_birth"]);
+  });
+
+  it("should take the node and its devices offline on NDEATH, ignoring stale wills", () => {
+    const tracker = new SparkplugStateTracker();
+    const offline: Array<string | undefined> = [];
+    tracker.on("offline", e => offline.push(e.deviceId ?? "node"));
+
+    tracker.handleMessage("spBv1.0/plant1/NBIRTH/gw1", nodeBirth(0, 2));
+    tracker.handleMessage("spBv1.0/plant1/DBIRTH/gw1/inv-01", deviceBirth(1));
+
+    // Will message from the previous session (bdSeq 1)
+    tracker.handleMessage("spBv1.0/plant1/NDEATH/gw1", payload(undefined, [{ name: "bdSeq", dataType: "UInt64", value: 1 }]));
+    expect(tracker.getNodeState("plant1", "gw1")?.online).toBe(true);
+
+    tracker.handleMessage("spBv1.0/plant1/NDEATH/gw1", payload(undefined, [{ name: "bdSeq", dataType: "UInt64", value: 2 }]));
+    const node = tracker.getNodeState("plant1", "gw1")!;
+    expect(node.online).toBe(false);
+    expect(node.devices.get("inv-01")?.online).toBe(false);
+    expect(offline).toEqual(["inv-01", "node"]);
+  });
+});
+
+describe("SparkplugIngestionService", () => {
+  it("should write birth and data metrics for onboarded devices only", async () => {
+    const written: Array<{ target: MeasurementTarget; samples: MeasurementSample[] }> = [];
+    const service = new SparkplugIngestionService({
+      organizationId: 1,
+      writer: async (target, samples) => { written.push({ target, samples }); },
+      resolveTarget: async (_group, edgeNodeId, deviceId) =>
+        deviceId === "inv-01" ? { deviceId: 42, siteId: 7, organizationId: 1 } : null,
+    });
+    const tracker = new SparkplugStateTracker();
+    service.attach(tracker);
+
+    tracker.handleMessage("spBv1.0/plant1/NBIRTH/gw1", nodeBirth(0));
+    tracker.handleMessage("spBv1.0/plant1/DBIRTH/gw1/inv-01", deviceBirth(1));
+    tracker.handleMessage("spBv1.0/plant1/DDATA/gw1/inv-01", payload(2, [{ name: "", alias: 10, dataType: "Double", value: 40 }]));
+    await service.flush();
+
+    // Node-level metrics are dropped: gw1 itself is not onboarded
+    expect(written.map(w => w.target.deviceId)).toEqual([42, 42]);
+    expect(written[0].samples.map(s => [s.metricCode, s.value])).toEqual([
+      ["inverter_ac_power", 41.25],
+      ["inverter_status", "running"],
+    ]);
+    expect(written[1].samples[0]).toMatchObject({ metricCode: "inverter_ac_power", value: 40, timestamp: new Date(T0) });
+  });
+});
@@ -12,7 +12,7 @@ import { ENV } from '../_core/env';
 
 // Lazy-initialize Stripe so the app can start without STRIPE_SECRET_KEY
 let _stripe: Stripe | null = null;
-function getStripe(): Stripe | null {
+export function getStripe(): Stripe | null {
   if (!_stripe && ENV.stripeSecretKey) {
     _stripe = new Stripe(ENV.stripeSecretKey, { apiVersion: '2025-12-15.clover' });
   }
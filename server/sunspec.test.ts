@@ -0,0 +1,140 @@
+/**
+ * SunSpec Discovery Tests
+ *
+ * Lays out a SunSpec model chain in the Modbus simulator and checks
+ * discovery, register map generation and polling with the generated map.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { ModbusTcpSimulator } from "./connectors/modbusSimulator";
+import { ModbusTcpClient } from "./connectors/modbus";
+import { buildSunSpecRegisterMap, discoverSunSpec, SunSpecDiscoveryError } from "./connectors/sunspec";
+import { inferDeviceType } from "./services/sunspecDiscovery";
+import { ModbusPoller, ModbusSample } from "./services/modbusPoller";
+
+const u16 = (v: number) => v & 0xffff;
+
+/** Write a SunSpec chain (common, three-phase inverter, 2-module MPPT) at base */
+function layoutSunSpecDevice(sim: ModbusTcpSimulator, base: number) {
+  sim.setHoldingRegisters(base, [0x5375, 0x6e53]);
+
+  // Model 1: common, length 66
+  let addr = base + 2;
+  sim.setHoldingRegisters(addr, [1, 66]);
+  sim.setHoldingRegisters(addr + 2, new Array(66).fill(0));
+  sim.setString(addr + 2, "Fronius", 16);
+  sim.setString(addr + 2 + 16, "Symo 10.0-3-M", 16);
+  sim.setString(addr + 2 + 40, "1.2.3", 8);
+  sim.setString(addr + 2 + 48, "SN-0042", 16);
+  sim.setHoldingRegisters(addr + 2 + 64, [1]);
+  addr += 2 + 66;
+
+  // Model 103: three-phase inverter, length 50
+  const inverter = new Array(50).fill(0);
+  inverter[0] = 2500; inverter[4] = u16(-2);          // A = 25.00
+  inverter[8] = 2301; inverter[9] = 0xffff; inverter[10] = 0xffff; inverter[11] = u16(-1); // PhVphA = 230.1, B/C not implemented
+  inverter[12] = 4500; inverter[13] = 1;               // W = 45000
+  inverter[14] = 5001; inverter[15] = u16(-2);         // Hz = 50.01
+  inverter[22] = 0x0001; inverter[23] = 0x86a0; inverter[24] = 0; // WH = 100000
+  inverter[36] = 4;                                    // St = MPPT
+  sim.setHoldingRegisters(addr, [103, 50]);
+  sim.setHoldingRegisters(addr + 2, inverter);
+  addr += 2 + 50;
+
+  // Model 160: MPPT, fixed 8 + 2 modules x 20
+  const mppt = new Array(48).fill(0);
+  mppt[0] = u16(-2); mppt[1] = u16(-1); mppt[2] = 0; mppt[3] = 0; mppt[6] = 2;
+  mppt[8 + 9] = 812; mppt[8 + 10] = 6100; mppt[8 + 11] = 4950;  // module 1
+  mppt[28 + 9] = 799; mppt[28 + 10] = 6050; mppt[28 + 11] = 4830; // module 2
+  sim.setHoldingRegisters(addr, [160, 48]);
+  sim.setHoldingRegisters(addr + 2, mppt);
+  addr += 2 + 48;
+
+  sim.setHoldingRegisters(addr, [0xffff, 0]);
+}
+
+describe("SunSpec discovery", () => {
+  let simulator: ModbusTcpSimulator;
+  let client: ModbusTcpClient;
+  let port: number;
+
+  beforeEach(async () => {
+    simulator = new ModbusTcpSimulator();
+    port = await simulator.start();
+    client = new ModbusTcpClient({ host: "127.0.0.1", port, unitId: 1, timeout: 500, autoReconnect: false });
+    client.on("error", () => {});
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await simulator.stop();
+  });
+
+  it("should walk the model chain and decode model 1 identity", async () => {
+    layoutSunSpecDevice(simulator, 40000);
+
+    const discovery = await discoverSunSpec(client);
+
+    expect(discovery.baseAddress).toBe(40000);
+    expect(discovery.common).toMatchObject({
+      manufacturer: "Fronius",
+      model: "Symo 10.0-3-M",
+      version: "1.2.3",
+      serialNumber: "SN-0042",
+    });
+    expect(discovery.models.map(m => m.id)).toEqual([1, 103, 160]);
+    expect(inferDeviceType(discovery)).toBe("inverter");
+
+    const inverter = discovery.models[1];
+    expect(inverter.values.A).toBeCloseTo(25);
+    expect(inverter.values.PhVphA).toBeCloseTo(230.1);
+    expect(inverter.values.PhVphB).toBeNull();
+    expect(inverter.values.W).toBe(45000);
+    expect(inverter.values.WH).toBe(100000);
+
+    const mppt = discovery.models[2];
+    expect(mppt.repeatingBlocks).toHaveLength(2);
+    expect(mppt.repeatingBlocks![0].DCA).toBeCloseTo(8.12);
+    expect(mppt.repeatingBlocks![1].DCV).toBeCloseTo(605);
+  });
+
+  it("should fall back to alternate base addresses", async () => {
+    layoutSunSpecDevice(simulator, 50000);
+    const discovery = await discoverSunSpec(client);
+    expect(discovery.baseAddress).toBe(50000);
+  });
+
+  it("should reject devices without the SunS marker", async () => {
+    simulator.setHoldingRegisters(40000, [0, 0]);
+    await expect(discoverSunSpec(client)).rejects.toBeInstanceOf(SunSpecDiscoveryError);
+  });
+
+  it("should generate a pollable register map with scale factors resolved", async () => {
+    layoutSunSpecDevice(simulator, 40000);
+    const discovery = await discoverSunSpec(client);
+    const registers = buildSunSpecRegisterMap(discovery);
+
+    expect(registers["103_W"]).toMatchObject({ address: 40000 + 2 + 68 + 2 + 12, metricCode: "active_power", scaleFactorRegister: "103_W_SF" });
+    expect(registers["103_PhVphB"]).toBeUndefined();
+    expect(registers["160_module2_DCV"].metricCode).toBe("mppt_voltage_2");
+
+    const written: ModbusSample[] = [];
+    const poller = new ModbusPoller({
+      sink: { async writeSamples(_target, samples) { written.push(...samples); } },
+      loadTargets: async () => [],
+    });
+    const health = await poller.pollDevice({
+      deviceId: 1, siteId: 1, organizationId: 1,
+      host: "127.0.0.1", port, unitId: 1,
+      timeoutMs: 500, pollIntervalSeconds: 60, registers,
+    });
+    poller.stop();
+
+    expect(health.consecutiveFailures).toBe(0);
+    const byCode = Object.fromEntries(written.map(s => [s.metricCode, s.value]));
+    expect(byCode.active_power).toBe(45000);
+    expect(byCode.grid_frequency).toBeCloseTo(50.01);
+    expect(byCode.mppt_current_1).toBeCloseTo(8.12);
+    expect(byCode.total_energy).toBe(100000);
+  });
+});
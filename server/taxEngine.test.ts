@@ -0,0 +1,178 @@
+/**
+ * Tax Engine Tests
+ *
+ * Rounding modes, per-line VAT/WHT/reverse-charge amounts, code resolution
+ * from customer and product-line assignments, invoice totals and the filing
+ * summary.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  TaxCodeTerms,
+  TaxEngineError,
+  allocateDiscount,
+  computeLineTaxes,
+  generateTaxSummaryCSV,
+  invoiceTaxTotals,
+  resolveTaxCodes,
+  roundMinor,
+  summarizeLineTaxes,
+  summarizeTaxes,
+} from "./services/taxEngine";
+
+const code = (overrides: Partial<TaxCodeTerms>): TaxCodeTerms => ({
+  id: 1,
+  code: "NG-VAT",
+  name: "VAT 7.5%",
+  taxName: "VAT",
+  kind: "standard",
+  rate: 7.5,
+  roundingMode: "half_up",
+  ...overrides,
+});
+
+const VAT = code({});
+const VAT_ZERO = code({ id: 2, code: "NG-VAT-0", name: "VAT zero-rated", kind: "zero_rated", rate: 0 });
+const VAT_RC = code({ id: 3, code: "EU-RC", name: "Reverse charge", kind: "reverse_charge", rate: 20 });
+const WHT = code({ id: 4, code: "NG-WHT", name: "WHT 5%", taxName: "WHT", kind: "withholding", rate: 5 });
+
+describe("roundMinor", () => {
+  it("should apply each rounding mode to ties and fractions", () => {
+    expect(roundMinor(12.5, "half_up")).toBe(13);
+    expect(roundMinor(12.5, "half_even")).toBe(12);
+    expect(roundMinor(13.5, "half_even")).toBe(14);
+    expect(roundMinor(12.01, "up")).toBe(13);
+    expect(roundMinor(12.99, "down")).toBe(12);
+    expect(roundMinor(-12.5, "half_up")).toBe(-13);
+  });
+
+  it("should not let float noise move a tie", () => {
+    // 1.005 * 1000 = 1004.9999999999999
+    expect(roundMinor(1.005 * 1000, "half_up")).toBe(1005);
+    expect(roundMinor(0.145 * 100, "half_up")).toBe(15);
+  });
+});
+
+describe("computeLineTaxes", () => {
+  it("should add VAT and deduct withholding on the same line", () => {
+    const taxes = computeLineTaxes(10_000, [VAT, WHT]);
+    expect(taxes.map(t => [t.code, t.taxAmount])).toEqual([["NG-VAT", 750], ["NG-WHT", -500]]);
+  });
+
+  it("should record reverse-charge tax as self-assessed and zero-rated at nil", () => {
+    const [rc] = computeLineTaxes(10_000, [VAT_RC]);
+    expect(rc.taxAmount).toBe(0);
+    expect(rc.selfAssessedAmount).toBe(2000);
+
+    const [zero] = computeLineTaxes(10_000, [VAT_ZERO]);
+    expect(zero).toMatchObject({ taxableAmount: 10_000, taxAmount: 0, selfAssessedAmount: 0 });
+  });
+});
+
+describe("resolveTaxCodes", () => {
+  const codes = [{ ...VAT, isDefault: true }, VAT_ZERO, VAT_RC, WHT];
+  const rules = [
+    { taxCodeId: 2, customerId: null, serviceType: "PPA Energy" },
+    { taxCodeId: 3, customerId: 7, serviceType: null },
+    { taxCodeId: 4, customerId: 7, serviceType: "O&M" },
+  ];
+
+  it("should fall back to the org default for the tax family", () => {
+    expect(resolveTaxCodes(codes, rules, { customerId: 1, serviceType: "O&M" }).map(c => c.code)).toEqual(["NG-VAT"]);
+  });
+
+  it("should prefer customer over product line and stack families", () => {
+    expect(resolveTaxCodes(codes, rules, { customerId: 1, serviceType: "PPA Energy" }).map(c => c.code)).toEqual(["NG-VAT-0"]);
+    expect(resolveTaxCodes(codes, rules, { customerId: 7, serviceType: "PPA Energy" }).map(c => c.code)).toEqual(["EU-RC"]);
+    expect(resolveTaxCodes(codes, rules, { customerId: 7, serviceType: "O&M" }).map(c => c.code)).toEqual(["EU-RC", "NG-WHT"]);
+  });
+});
+
+describe("invoiceTaxTotals", () => {
+  it("should keep withholding out of the total and sum the breakdown per code", () => {
+    const lines = [
+      { amount: 10_000, taxes: computeLineTaxes(10_000, [VAT, WHT]) },
+      { amount: 3_333, taxes: computeLineTaxes(3_333, [VAT]) },
+    ];
+
+    expect(invoiceTaxTotals(lines)).toEqual({
+      subtotal: 13_333,
+      taxAmount: 1000, // 750 + 249.975 rounded per line
+      withholdingAmount: 500,
+      totalAmount: 14_333,
+    });
+
+    const breakdown = summarizeLineTaxes(lines.flatMap(l => l.taxes), [VAT, WHT]);
+    expect(breakdown.map(b => [b.name, b.taxableAmount, b.taxAmount])).toEqual([
+      ["VAT 7.5%", 13_333, 1000],
+      ["WHT 5%", 10_000, -500],
+    ]);
+  });
+});
+
+describe("discounted invoices", () => {
+  it("should split the discount across lines so the shares add up", () => {
+    expect(allocateDiscount([10_000, 3_333], 1_000)).toEqual([750, 250]);
+    expect(allocateDiscount([1, 1, 1], 2)).toEqual([1, 1, 0]);
+    expect(allocateDiscount([10_000, 3_333], 0)).toEqual([0, 0]);
+    expect(() => allocateDiscount([10_000], 10_001)).toThrow(TaxEngineError);
+  });
+
+  it("should tax the discounted base and take the discount off the total", () => {
+    const amounts = [10_000, 3_333];
+    const discounts = allocateDiscount(amounts, 1_000);
+    const lines = [
+      { amount: amounts[0], taxes: computeLineTaxes(amounts[0] - discounts[0], [VAT, WHT]) },
+      { amount: amounts[1], taxes: computeLineTaxes(amounts[1] - discounts[1], [VAT]) },
+    ];
+
+    expect(lines[0].taxes.map(t => t.taxableAmount)).toEqual([9_250, 9_250]);
+    expect(invoiceTaxTotals(lines, 1_000)).toEqual({
+      subtotal: 13_333,
+      taxAmount: 925, // 693.75 + 231.225, rounded per line
+      withholdingAmount: 463, // 462.5
+      totalAmount: 13_258, // 13,333 - 1,000 + 925
+    });
+  });
+});
+
+describe("tax summary", () => {
+  const row = (overrides: Partial<Parameters<typeof summarizeTaxes>[0][number]>) => ({
+    invoiceId: 1,
+    code: "NG-VAT",
+    taxName: "VAT",
+    kind: "standard" as const,
+    rate: "7.500",
+    currency: "NGN",
+    filingCategory: null,
+    taxableAmount: 10_000,
+    taxAmount: 750,
+    selfAssessedAmount: 0,
+    ...overrides,
+  });
+
+  it("should deduct the tax on credit notes from the period's invoices", () => {
+    const vat = row({});
+    const wht = row({ code: "NG-WHT", taxName: "WHT", kind: "withholding", rate: "5.000", taxAmount: -500 });
+    const rows = summarizeTaxes(
+      [vat, wht, row({ invoiceId: 2, taxableAmount: 2_000, taxAmount: 150 })],
+      // A quarter of invoice 1's line credited
+      [{ ...vat, creditNoteId: 7, creditedAmount: 2_500 }, { ...wht, creditNoteId: 7, creditedAmount: 2_500 }]
+    );
+
+    expect(rows.map(r => [r.code, r.rate, r.invoiceCount, r.creditNoteCount, r.taxableAmount, r.taxAmount])).toEqual([
+      ["NG-VAT", 7.5, 2, 1, 9_500, 712], // 900 less 187.5 rounded
+      ["NG-WHT", 5, 1, 1, 7_500, -375],
+    ]);
+  });
+
+  it("should quote tax names and codes that contain commas", () => {
+    const csv = generateTaxSummaryCSV({
+      organizationId: 1,
+      from: new Date("2026-01-01T00:00:00Z"),
+      to: new Date("2026-04-01T00:00:00Z"),
+      rows: summarizeTaxes([row({ taxName: "VAT, goods", code: "NG-VAT\"A\"" })]),
+    });
+    expect(csv.split("\n")[3]).toBe('"VAT, goods","NG-VAT""A""",standard,7.5,,NGN,1,0,100.00,7.50,0.00');
+  });
+});
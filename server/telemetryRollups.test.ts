@@ -0,0 +1,139 @@
+/**
+ * Telemetry Rollup Tests
+ *
+ * Bucket aggregation and tier merging, the query planner, counter deltas
+ * and retention cutoffs.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  RollupSample,
+  aggregateSamples,
+  bucketAverage,
+  bucketStartFor,
+  combineRollups,
+  counterDeltas,
+  mergeBuckets,
+  retentionCutoffs,
+  selectRollupTier,
+} from "./services/telemetryRollups";
+import { periodBucketStart } from "./services/portalProductionService";
+
+const T0 = new Date("2026-03-02T10:00:00Z");
+const at = (minutes: number) => new Date(T0.getTime() + minutes * 60_000);
+
+function sample(deviceId: number, minutes: number, value: number, metricCode = "active_power_kw"): RollupSample {
+  return {
+    source: "inverter_api",
+    organizationId: 1,
+    projectId: 10,
+    siteId: null,
+    deviceId,
+    metricCode,
+    timestamp: at(minutes),
+    value,
+  };
+}
+
+describe("rollup aggregation", () => {
+  it("should aggregate samples into 5-minute buckets per device and metric", () => {
+    const buckets = aggregateSamples([
+      sample(1, 0, 10), sample(1, 2, 20), sample(1, 4.5, 15),
+      sample(1, 5, 40),
+      sample(2, 1, 100),
+    ], 300);
+
+    expect(buckets).toHaveLength(3);
+    const first = buckets.find(b => b.deviceId === 1 && b.bucketStart.getTime() === T0.getTime())!;
+    expect(first).toMatchObject({ min: 10, max: 20, sum: 45, count: 3, last: 15 });
+    expect(bucketAverage(first)).toBe(15);
+  });
+
+  it("should keep averages sample-weighted when merging tiers", () => {
+    const fiveMinute = aggregateSamples([
+      sample(1, 0, 10), sample(1, 1, 10), sample(1, 2, 10),
+      sample(1, 55, 50),
+    ], 300);
+    const [hourly] = mergeBuckets(fiveMinute, 3600);
+
+    expect(hourly.bucketStart).toEqual(T0);
+    expect(hourly.count).toBe(4);
+    expect(bucketAverage(hourly)).toBe(20);
+    expect(hourly.last).toBe(50);
+    expect(hourly.lastAt).toEqual(at(55));
+  });
+
+  it("should combine devices by group and re-bucket to the requested interval", () => {
+    const buckets = aggregateSamples([
+      sample(1, 0, 10), sample(1, 10, 30),
+      sample(2, 0, 5), sample(2, 20, 7),
+    ], 300);
+
+    const totals = combineRollups(buckets, { bucketFor: d => bucketStartFor(d, 1800), aggregation: "sum" });
+    expect(totals).toEqual([
+      { metricCode: "active_power_kw", labels: {}, bucketStart: T0, value: 52 },
+    ]);
+
+    const perDevice = combineRollups(buckets, { bucketFor: d => bucketStartFor(d, 1800), aggregation: "last", groupBy: ["device"] });
+    expect(perDevice.map(p => [p.labels.deviceId, p.value])).toEqual([[1, 30], [2, 7]]);
+  });
+});
+
+describe("selectRollupTier", () => {
+  it("should pick the coarsest tier that tiles the interval", () => {
+    expect(selectRollupTier(60)).toBeNull();
+    expect(selectRollupTier(420)).toBeNull();
+    expect(selectRollupTier(300)).toBe("5m");
+    expect(selectRollupTier(900)).toBe("5m");
+    expect(selectRollupTier(3600)).toBe("1h");
+    expect(selectRollupTier(6 * 3600)).toBe("1h");
+    expect(selectRollupTier(86400)).toBe("1d");
+    expect(selectRollupTier(7 * 86400)).toBe("1d");
+  });
+});
+
+describe("counterDeltas", () => {
+  it("should difference consecutive bucket readings and survive counter resets", () => {
+    const deltas = counterDeltas([
+      { bucketStart: at(60), min: 110, last: 130 },
+      { bucketStart: at(0), min: 100, last: 110 },
+      { bucketStart: at(120), min: 0, last: 5 }, // inverter replaced
+    ]);
+    expect(deltas.map(d => d.delta)).toEqual([10, 20, 5]);
+  });
+});
+
+describe("retentionCutoffs", () => {
+  const now = new Date("2026-06-01T00:00:00Z");
+  const days = (n: number) => new Date(now.getTime() - n * 86400_000);
+
+  it("should never cut past what the next tier has rolled up", () => {
+    const cutoffs = retentionCutoffs(
+      { rawRetentionDays: 30, fiveMinuteRetentionDays: 365, hourlyRetentionDays: null, dailyRetentionDays: null },
+      now,
+      { "5m": days(45), "1h": days(1), "1d": days(1) }
+    );
+    expect(cutoffs.raw).toEqual(days(45));
+    expect(cutoffs["5m"]).toEqual(days(365));
+    expect(cutoffs["1h"]).toBeNull();
+    expect(cutoffs["1d"]).toBeNull();
+  });
+
+  it("should keep raw data when nothing has been rolled up yet", () => {
+    const cutoffs = retentionCutoffs(
+      { rawRetentionDays: 7, fiveMinuteRetentionDays: null, hourlyRetentionDays: null, dailyRetentionDays: null },
+      now,
+      {}
+    );
+    expect(cutoffs.raw).toBeNull();
+  });
+});
+
+describe("periodBucketStart", () => {
+  it("should align calendar buckets in UTC with weeks starting Monday", () => {
+    const d = new Date("2026-03-05T17:45:00Z"); // Thursday
+    expect(periodBucketStart(d, "hour").toISOString()).toBe("2026-03-05T17:00:00.000Z");
+    expect(periodBucketStart(d, "week").toISOString()).toBe("2026-03-02T00:00:00.000Z");
+    expect(periodBucketStart(d, "month").toISOString()).toBe("2026-03-01T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Semantic Search Service Tests
+ *
+ * Covers tenant partitioning, metadata filters and the LSH helpers. Runs
+ * against the in-process fallback (no DATABASE_URL).
+ */
+
+import { describe, it, expect } from "vitest";
+import { sql } from "drizzle-orm";
+import { MySqlDialect } from "drizzle-orm/mysql-core";
+import {
+  SemanticSearchService,
+  chunkText,
+  computeLshBands,
+  cosineSimilarity,
+  lshCandidateOrder,
+} from "./services/vectorSearch";
+
+describe("SemanticSearchService", () => {
+  it("should never return documents from another organization", async () => {
+    const service = new SemanticSearchService();
+    await service.index("documents", { organizationId: 1 }, { id: "a", content: "power purchase agreement tariff escalation", metadata: {} });
+    await service.index("documents", { organizationId: 2 }, { id: "b", content: "power purchase agreement tariff escalation", metadata: {} });
+
+    const org1 = await service.search("documents", { organizationId: 1 }, "tariff escalation");
+    expect(org1.map(r => r.document.id)).toEqual(["a"]);
+
+    const org3 = await service.search("documents", { organizationId: 3 }, "tariff escalation");
+    expect(org3).toEqual([]);
+  });
+
+  it("should filter by project, document type and date", async () => {
+    const service = new SemanticSearchService();
+    const scope = { organizationId: 1 };
+    await service.index("documents", scope, {
+      id: "lease", content: "land lease agreement", metadata: {},
+      projectId: 10, documentType: "LEASE", documentDate: new Date("2025-01-15"),
+    });
+    await service.index("documents", scope, {
+      id: "ppa", content: "power purchase agreement", metadata: {},
+      projectId: 11, documentType: "PPA", documentDate: new Date("2025-06-01"),
+    });
+
+    const byProject = await service.search("documents", scope, "agreement", { filters: { projectIds: [11] } });
+    expect(byProject.map(r => r.document.id)).toEqual(["ppa"]);
+
+    const byType = await service.search("documents", scope, "agreement", { filters: { documentTypes: ["LEASE"] } });
+    expect(byType.map(r => r.document.id)).toEqual(["lease"]);
+
+    const byDate = await service.search("documents", scope, "agreement", { filters: { dateFrom: new Date("2025-03-01") } });
+    expect(byDate.map(r => r.document.id)).toEqual(["ppa"]);
+
+    const projectScoped = await service.search("documents", { organizationId: 1, projectId: 10 }, "agreement");
+    expect(projectScoped.map(r => r.document.id)).toEqual(["lease"]);
+  });
+
+  it("should support incremental upserts and deletes", async () => {
+    const service = new SemanticSearchService();
+    const scope = { organizationId: 5 };
+    await service.index("documents", scope, { id: "doc", content: "insurance certificate", metadata: {} });
+    await service.index("documents", scope, { id: "doc", content: "interconnection study", metadata: {} });
+
+    const store = service.getStore("documents", scope);
+    expect(store?.getDocumentCount()).toBe(1);
+
+    const results = await service.search("documents", scope, "interconnection study");
+    expect(results[0].document.content).toBe("interconnection study");
+
+    await service.remove("documents", scope, "doc");
+    expect(store?.getDocumentCount()).toBe(0);
+  });
+});
+
+describe("Vector helpers", () => {
+  it("should produce stable LSH band keys", () => {
+    const emb = Array.from({ length: 64 }, (_, i) => Math.sin(i));
+    const bands = computeLshBands(emb);
+    expect(bands).toHaveLength(4);
+    expect(bands.every(b => b >= 0 && b < 256)).toBe(true);
+    expect(computeLshBands(emb)).toEqual(bands);
+  });
+
+  it("should rank LSH candidates by bands shared with the query, then by id", () => {
+    const query = new MySqlDialect().sqlToQuery(sql.join(lshCandidateOrder([1, 2, 3, 4]), sql`, `));
+    expect(query.sql).toBe(
+      "(`vectorIndexEntries`.`lshBand0` = ?) + (`vectorIndexEntries`.`lshBand1` = ?) + (`vectorIndexEntries`.`lshBand2` = ?) + (`vectorIndexEntries`.`lshBand3` = ?) DESC, "
+      + "`vectorIndexEntries`.`id` ASC"
+    );
+    expect(query.params).toEqual([1, 2, 3, 4]);
+  });
+
+  it("should compute cosine similarity", () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+  });
+
+  it("should chunk long text with overlap", () => {
+    const chunks = chunkText("x".repeat(4500), 2000, 200);
+    expect(chunks).toHaveLength(3);
+    expect(chunks.every(c => c.length <= 2000)).toBe(true);
+    expect(chunkText("   ")).toEqual([]);
+  });
+});
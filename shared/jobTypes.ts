@@ -31,6 +31,12 @@ export const JOB_TYPES = {
   // Reports and exports
   REPORT_GENERATION: "report_generation",
   DATA_EXPORT: "data_export",
+
+  // Financial analysis
+  MONTE_CARLO_SIMULATION: "monte_carlo_simulation",
+
+  // Contracts
+  CONTRACT_EXTRACTION: "contract_extraction",
 } as const;
 
 export type JobType = (typeof JOB_TYPES)[keyof typeof JOB_TYPES];
@@ -201,6 +207,8 @@ export function getJobDisplayName(type: JobType): string {
     email_ingestion: "Email Attachment",
     report_generation: "Report Generation",
     data_export: "Data Export",
+    monte_carlo_simulation: "Risk Simulation",
+    contract_extraction: "Contract Obligation Extraction",
   };
   return displayNames[type] || type;
 }
@@ -268,6 +276,8 @@ export const JOB_TYPE_LABELS: Record<string, string> = {
   email_ingestion: "Email Attachment",
   report_generation: "Report Generation",
   data_export: "Data Export",
+  monte_carlo_simulation: "Risk Simulation",
+  contract_extraction: "Contract Obligation Extraction",
 };
 
 export const JOB_STATUS_LABELS: Record<string, string> = {